@@ -0,0 +1,71 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/poseidon.circom";
+
+// Root of a Poseidon Merkle tree from a leaf and its path; pathIndices[i] is 1 when the node is a right child
+template MerkleRoot(depth) {
+    signal input leaf;
+    signal input pathElements[depth];
+    signal input pathIndices[depth];
+    signal output root;
+
+    signal nodes[depth + 1];
+    signal left[depth];
+    signal right[depth];
+    component hashers[depth];
+
+    nodes[0] <== leaf;
+    for (var i = 0; i < depth; i++) {
+        pathIndices[i] * (1 - pathIndices[i]) === 0;
+        left[i] <== nodes[i] + pathIndices[i] * (pathElements[i] - nodes[i]);
+        right[i] <== pathElements[i] + pathIndices[i] * (nodes[i] - pathElements[i]);
+
+        hashers[i] = Poseidon(2);
+        hashers[i].inputs[0] <== left[i];
+        hashers[i].inputs[1] <== right[i];
+        nodes[i + 1] <== hashers[i].out;
+    }
+    root <== nodes[depth];
+}
+
+// A vote from some member of the DAO's anonymous group, without saying which one.
+// The identity Poseidon(identitySecret) must be a leaf under `root` and must not be
+// `excludedIdentity`, the borrower's. The nullifier is single use per proposal.
+template AnonymousVote(depth) {
+    signal input root;
+    signal input proposalId;
+    signal input support;
+    signal input excludedIdentity;
+
+    signal input identitySecret;
+    signal input pathElements[depth];
+    signal input pathIndices[depth];
+
+    signal output nullifier;
+
+    // Also binds the vote to the proof
+    support * (1 - support) === 0;
+
+    component identity = Poseidon(1);
+    identity.inputs[0] <== identitySecret;
+
+    component isExcluded = IsEqual();
+    isExcluded.in[0] <== identity.out;
+    isExcluded.in[1] <== excludedIdentity;
+    isExcluded.out === 0;
+
+    component tree = MerkleRoot(depth);
+    tree.leaf <== identity.out;
+    tree.pathElements <== pathElements;
+    tree.pathIndices <== pathIndices;
+    tree.root === root;
+
+    component nullifierHash = Poseidon(2);
+    nullifierHash.inputs[0] <== identitySecret;
+    nullifierHash.inputs[1] <== proposalId;
+    nullifier <== nullifierHash.out;
+}
+
+// MEMBER_TREE_DEPTH in UnifiedLendingDAO.sol
+component main {public [root, proposalId, support, excludedIdentity]} = AnonymousVote(16);
@@ -0,0 +1,38 @@
+pragma circom 2.1.6;
+
+include "circomlib/circuits/poseidon.circom";
+
+/*
+ * Validity of a commit-reveal vote on a private proposal.
+ *
+ * commitment = Poseidon(proposalId, voter, choice, secret)
+ * nullifier  = Poseidon(voter, secret)
+ *
+ * The choice must be 0 (against), 1 (for) or 2 (abstain). Commits prove this
+ * with isReveal = 0 and keep the choice hidden; reveals prove with
+ * isReveal = 1 that the commitment opens to revealedChoice, without
+ * publishing the secret.
+ */
+template PrivateVote() {
+    signal input proposalId;
+    signal input voter;
+    signal input revealedChoice;
+    signal input isReveal;
+
+    signal input choice;
+    signal input secret;
+
+    signal output commitment;
+    signal output nullifier;
+
+    signal notAgainstOrFor <== choice * (choice - 1);
+    notAgainstOrFor * (choice - 2) === 0;
+
+    isReveal * (isReveal - 1) === 0;
+    isReveal * (choice - revealedChoice) === 0;
+
+    commitment <== Poseidon(4)([proposalId, voter, choice, secret]);
+    nullifier <== Poseidon(2)([voter, secret]);
+}
+
+component main {public [proposalId, voter, revealedChoice, isReveal]} = PrivateVote();
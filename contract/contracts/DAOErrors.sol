@@ -2,19 +2,23 @@
 pragma solidity ^0.8.19;
 
 /**
- * @title DAOErrors Library
- * @dev Custom error definitions for the DAO contract
+ * @title DAOErrors
+ * @dev Custom error definitions for the DAO contract. DAOStorage inherits them so the DAO's ABI lists the
+ * errors its modules revert with.
  */
-library DAOErrors {
+interface DAOErrors {
     // Access Control Errors
     error NotAdmin();
     error NotMember();
     error NotAuthorized();
+    error OnlyGovernance();
+    error OnlyGuardian();
 
     // Initialization Errors
     error AlreadyInitialized();
     error InvalidInitialConfiguration();
     error InvalidConsensusThreshold();
+    error InvalidQuorumThreshold();
     error EmptyAdminsList();
 
     // Membership Errors
@@ -22,12 +26,16 @@ library DAOErrors {
     error IncorrectMembershipFee();
     error CannotExitWithActiveLoan();
     error InsufficientTreasuryForExit();
+    error IdentityAlreadyRegistered();
+    error InvalidIdentityCommitment();
+    error MemberGroupFull();
 
     // Loan Errors
     error NotEligibleForLoan();
     error LoanAmountTooHigh();
     error LoanAmountTooLow();
     error HasActiveLoan();
+    error PrivateLoanAmountUnavailable();
     error InCooldownPeriod();
     error LoanProposalNotFound();
     error LoanProposalNotPending();
@@ -36,6 +44,7 @@ library DAOErrors {
     error LoanAlreadyRepaid();
     error IncorrectRepaymentAmount();
     error LoanOverdue();
+    error LoanNotOverdue();
     error InsufficientTreasuryForLoan();
 
     // Treasury Errors
@@ -44,12 +53,27 @@ library DAOErrors {
     error InsufficientTreasuryBalance();
     error InvalidWithdrawalAmount();
     error InvalidDestinationAddress();
+    error NotQuadraticProposal();
+    error QuadraticVotingRequired();
+    error InsufficientVoiceCredits();
 
     // Proposal Errors
     error ProposalNotFound();
     error ProposalExpired();
     error ProposalAlreadyExecuted();
     error InvalidProposalType();
+    error GovernanceProposalNotFound();
+    error GovernanceProposalNotPending();
+    error UnsupportedParameterChange();
+    error ProposalNotQueued();
+    error TimelockNotExpired();
+    error ExecutionOutOfGas();
+    error MultiOptionProposalNotFound();
+    error MultiOptionProposalNotPending();
+    error InvalidOptionCount();
+    error InvalidOption();
+    error InvalidBallot();
+    error RankedResultRequired();
 
     // Voting Errors
     error VotingPeriodEnded();
@@ -62,6 +86,24 @@ library DAOErrors {
     error ProposalNotInEditingPhase();
     error EditingPeriodEnded();
     error VotingNotStarted();
+    error NoVotingPower();
+    error InvalidDelegate();
+    error NotPrivateProposal();
+    error CommitRevealRequired();
+    error InvalidCommitment();
+    error NullifierAlreadyUsed();
+    error NoCommittedVote();
+    error RevealPeriodNotStarted();
+    error RevealPeriodEnded();
+    error InvalidReveal();
+    error InvalidProof();
+    error NotAnonymousProposal();
+    error AnonymousVoteRequired();
+    error UnknownMerkleRoot();
+
+    // Document Errors
+    error InvalidDocumentManifest();
+    error TooManyDocumentManifests();
 
     // General Errors
     error ZeroAddress();
@@ -0,0 +1,682 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "./IDAO.sol";
+import "./DAOErrors.sol";
+import "./interfaces/IVotingWeightStrategy.sol";
+import "./verifiers/PoseidonT3.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+
+/**
+ * @title DAOStorage
+ * @dev State, events, errors and shared internals of UnifiedLendingDAO. The DAO and the modules it delegatecalls
+ * all inherit this contract, so module code runs on the DAO's storage with the same layout; modules must
+ * not declare state variables of their own.
+ */
+abstract contract DAOStorage is DAOErrors, IDAOTypes, ReentrancyGuard, Pausable, Ownable {
+    // ============ CONSTANTS ============
+    uint256 public constant PROPOSAL_EDITING_PERIOD = 3 days;
+    uint256 public constant VOTING_PERIOD = 7 days;
+    uint256 public constant REVEAL_PERIOD = 2 days; // Follows the voting period on private proposals
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant DEFAULT_CONSENSUS_THRESHOLD = 5100; // 51%
+    uint256 public constant DEFAULT_QUORUM_THRESHOLD = 2000; // 20%
+    uint256 public constant DEFAULT_VOTING_WEIGHT = 100; // Every member's weight until governance picks a strategy
+    uint256 public constant TREASURY_APPROVAL_THRESHOLD = 6000; // 60%
+    uint256 public constant VOICE_CREDITS_PER_VOTE = 100; // Quadratic voice credits per unit of voting power
+    uint256 public constant MAX_PROPOSAL_OPTIONS = 16;
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+    uint8 public constant VOTE_AGAINST = 0; // Revealed choices on private proposals
+    uint8 public constant VOTE_FOR = 1;
+    uint8 public constant VOTE_ABSTAIN = 2;
+    uint256 public constant MEMBER_TREE_DEPTH = 16; // Matches circuits/anonymousVote.circom
+    uint256 public constant MAX_DOCUMENT_MANIFESTS = 32; // Per loan or proposal, so reading them stays cheap
+    uint256 public constant SNARK_SCALAR_FIELD =
+        21888242871839275222246405745257275088548364400416034343698204186575808495617;
+
+    // ============ CORE DAO STATE ============
+    bool public initialized;
+    uint256 public consensusThreshold;
+    uint256 public quorumThreshold = DEFAULT_QUORUM_THRESHOLD; // Share of total voting weight that must vote
+    uint256 public membershipFee;
+    uint256 public totalMembers;
+    uint256 public activeMembers;
+    uint256 public proposalCounter;
+    uint256 public loanCounter;
+
+    mapping(address => bool) public admins;
+    mapping(address => Member) public members;
+    mapping(uint256 => LoanProposal) public loanProposals;
+    mapping(uint256 => TreasuryProposal) public treasuryProposals;
+    mapping(uint256 => GovernanceProposal) public governanceProposals;
+    mapping(uint256 => Loan) public loans;
+    mapping(uint256 => RepaymentSchedule) internal repaymentSchedules; // Only the plan fields are stored
+    mapping(uint256 => uint256) public recoveredAmounts; // loanId => amount seized on default
+    mapping(uint256 => ProposalType) public proposalTypes;
+    mapping(address => uint256) public pendingRewards;
+
+    uint256 public timelockDelay; // 0 executes approved proposals in the deciding vote
+    address public guardian; // Can cancel queued proposals before they execute
+    mapping(uint256 => uint256) public proposalEtas; // proposalId => earliest execution time while queued
+
+    LoanPolicy public loanPolicy;
+    uint256 public installmentInterval = 30 days;
+    uint256 public gracePeriod = 7 days; // Allowed delay on an installment before the loan can be defaulted
+    uint256 public defaultedLoans;
+    uint256[] public activeLoans;
+    address[] public memberAddresses;
+
+    // ============ ENHANCED FEATURES STATE ============
+    
+    // ENS Integration
+    bool public ensVotingEnabled;
+    mapping(address => string) public memberENSNames;
+    mapping(address => uint256) public memberVotingWeights;
+    IVotingWeightStrategy public votingWeightStrategy; // address(0) gives every member DEFAULT_VOTING_WEIGHT
+
+    // Delegation: each checkpoint holds the member count and ENS weight voting through an account
+    struct VotingCheckpoint {
+        uint256 timestamp;
+        uint256 members;
+        uint256 weight;
+    }
+
+    mapping(address => address) internal votingDelegates; // address(0) votes with their own weight
+    mapping(address => VotingCheckpoint[]) internal votingCheckpoints;
+    VotingCheckpoint[] internal totalVotingCheckpoints; // Every member's weight, delegated or not
+
+    // Each time ENS voting was switched, so a snapshot keeps the counting mode it was taken under
+    struct VotingModeCheckpoint {
+        uint256 timestamp;
+        bool weighted;
+    }
+
+    VotingModeCheckpoint[] internal votingModeCheckpoints;
+    
+    // Document Storage (Simplified)
+    bool public documentStorageEnabled;
+    mapping(uint256 => string) public loanDocuments; // loanId => IPFS hash
+    mapping(uint256 => string) public proposalDocuments; // proposalId => IPFS hash
+    mapping(address => string) public memberKYCDocuments; // member => IPFS hash
+    mapping(address => bytes32) public memberEncryptionKeys; // X25519 key documents and ballots are shared to
+
+    // Signed manifests listing the files attached to a loan or proposal, oldest first
+    struct DocumentManifest {
+        string cid;
+        bytes32 digest; // keccak256 of the manifest bytes
+        address signer; // The account that anchored it, which must also have signed it
+        uint256 anchoredAt;
+    }
+
+    mapping(uint256 => DocumentManifest[]) internal loanManifests;
+    mapping(uint256 => DocumentManifest[]) internal proposalManifests;
+    
+    // Privacy Features (Simplified FHE)
+    bool public privateVotingEnabled;
+    bool public confidentialLoansEnabled;
+    uint256 public privacyLevel = 1; // 1=Basic, 2=Enhanced, 3=Maximum
+    mapping(uint256 => bool) public isPrivateProposal;
+    mapping(uint256 => bytes32) public proposalCommitments; // For privacy verification
+
+    // Commit-reveal voting on private proposals: votes are committed while voting is open and counted once revealed.
+    // Both phases carry a Groth16 proof for circuits/privateVote.circom, checked by VotingModule's verifier,
+    // so the secret is never published
+    mapping(uint256 => mapping(address => bytes32)) public voteCommitments; // Poseidon(proposalId, voter, choice, secret)
+    mapping(uint256 => mapping(address => bytes32)) public voteNullifiers; // Poseidon(voter, secret)
+    mapping(uint256 => mapping(bytes32 => bool)) public usedNullifiers;
+    mapping(uint256 => uint256) public unrevealedVotes; // Committed votes not revealed yet; never counted if left unrevealed
+
+    // Anonymous Membership Group: a Semaphore-style Poseidon Merkle tree of member identity commitments.
+    // Private loan proposals created at maximum privacy take votes proven against it, keyed by nullifier
+    // instead of address, so anyone can relay them
+    IPoseidonT3 internal poseidonT3; // Deployed by VotingModule; in storage so every module hashes with it
+    uint256 public memberTreeRoot;
+    uint256 public memberTreeSize; // Leaves used so far, removed ones included
+    uint256[MEMBER_TREE_DEPTH] internal emptySubtreeRoots; // Level => root of a subtree without identities
+    mapping(uint256 => mapping(uint256 => uint256)) internal memberTreeNodes; // level => index => hash, 0 when empty
+
+    // Tree size after each join, so an anonymous vote only counts identities registered by its snapshot
+    struct MemberTreeCheckpoint {
+        uint256 timestamp;
+        uint256 size;
+    }
+
+    MemberTreeCheckpoint[] internal memberTreeCheckpoints;
+    mapping(address => uint256) public identityCommitments; // Poseidon(identitySecret)
+    mapping(address => uint256) public identityLeafIndices;
+    mapping(uint256 => bool) public isAnonymousProposal;
+    mapping(uint256 => mapping(uint256 => bool)) public anonymousNullifiers; // Poseidon(identitySecret, proposalId)
+
+    // Quadratic Treasury Voting: votes are the square root of the voice credits spent
+    mapping(uint256 => bool) public isQuadraticProposal;
+    mapping(uint256 => mapping(address => uint256)) public voiceCreditsSpent;
+    mapping(uint256 => uint256) public quadraticTurnout; // Voting power of the voters, for the quorum
+
+    // Multi-Option Proposals: signaling votes between N options
+    enum CountingMethod {
+        APPROVAL, // Each ballot approves any number of options; the most approved option wins
+        RANKED_CHOICE // Each ballot ranks options; tallied off-chain by instant runoff
+    }
+
+    struct MultiOptionProposal {
+        uint256 proposalId;
+        address proposer;
+        CountingMethod countingMethod;
+        string description;
+        string[] options;
+        uint256 createdAt;
+        ProposalStatus status;
+        uint256 turnout; // Voting power of the voters, for the quorum
+        uint256[] approvals; // APPROVAL: voting power approving each option
+        bytes32 ballotsHash; // Hash chain over every ballot in voting order
+        uint256 winningOption;
+        bytes32 resultHash; // RANKED_CHOICE: commitment to the off-chain tally
+        mapping(address => bool) hasVoted;
+    }
+
+    mapping(uint256 => MultiOptionProposal) internal multiOptionProposals;
+    
+    // Restaking Integration (Simplified)
+    bool public restakingEnabled;
+    bool public autoLiquidationEnabled; // Lets anyone, not just admins, default overdue loans
+    uint256 public restakingAllocationBPS = 2000; // 20% default
+    uint256 public totalYieldGenerated;
+    uint256 public totalRestaked;
+    
+    struct SimpleOperator {
+        address operatorAddress;
+        string name;
+        uint256 expectedAPY;
+        uint256 totalStaked;
+        bool isApproved;
+    }
+    
+    mapping(address => SimpleOperator) public operators;
+    address[] public approvedOperators;
+    
+    // Yield Distribution
+    mapping(address => uint256) public pendingYield;
+    uint256 public yieldDistributionShares = 6000; // 60% to members
+
+    // ============ EVENTS ============
+    
+    // Enhanced Events
+    event ENSNameLinked(address indexed member, string ensName, uint256 votingWeight);
+    event VotingWeightUpdated(address indexed member, uint256 votingWeight);
+    event DocumentStored(uint256 indexed entityId, string entityType, string ipfsHash);
+    event EncryptionKeyPublished(address indexed member, bytes32 publicKey);
+    event DocumentManifestAnchored(
+        uint256 indexed entityId,
+        string entityType,
+        string cid,
+        bytes32 digest,
+        address indexed signer
+    );
+    event PrivacyModeChanged(string feature, bool enabled);
+    event PrivateProposalCreated(uint256 indexed proposalId, bytes32 commitment);
+    event QuadraticProposalCreated(uint256 indexed proposalId);
+    event QuadraticVoteCast(uint256 indexed proposalId, address indexed voter, bool support, uint256 credits, uint256 votes);
+    event MultiOptionProposalCreated(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        CountingMethod countingMethod,
+        string[] options,
+        string description
+    );
+    event MultiOptionVoteCast(uint256 indexed proposalId, address indexed voter, uint256[] choices, uint256 weight);
+    event MultiOptionResult(uint256 indexed proposalId, uint256 winningOption, bytes32 resultHash);
+    event PrivateVoteRevealed(uint256 indexed proposalId, address indexed voter, uint8 choice, uint256 weight);
+    event IdentityRegistered(address indexed member, uint256 indexed leafIndex, uint256 identityCommitment, uint256 root);
+    event IdentityRemoved(address indexed member, uint256 indexed leafIndex, uint256 root);
+    event AnonymousVoteCast(uint256 indexed proposalId, uint256 indexed nullifier, bool support, uint256 weight);
+    event OperatorApproved(address indexed operator, string name, uint256 apy);
+    event RestakingAllocated(uint256 amount);
+    event YieldDistributed(uint256 totalYield, uint256 memberShare);
+    event FeatureToggled(string feature, bool enabled);
+    event PrivateVoteCast(uint256 indexed proposalId, address indexed voter, bytes32 voteHash);
+    event ConfidentialLoanRequested(uint256 indexed proposalId, address indexed borrower, string publicReason);
+
+    // ============ MODIFIERS ============
+    
+    modifier onlyAdmin() {
+        if (!admins[msg.sender]) revert DAOErrors.NotAdmin();
+        _;
+    }
+
+    modifier onlyMember() {
+        if (!_isMember(msg.sender)) revert DAOErrors.NotMember();
+        _;
+    }
+
+    // Policy setters can only be reached through an executed PARAMETER_CHANGE proposal
+    modifier onlyGovernance() {
+        if (msg.sender != address(this)) revert DAOErrors.OnlyGovernance();
+        _;
+    }
+
+    modifier onlyInitialized() {
+        if (!initialized) revert DAOErrors.AlreadyInitialized();
+        _;
+    }
+
+    modifier notInitialized() {
+        if (initialized) revert DAOErrors.AlreadyInitialized();
+        _;
+    }
+
+    constructor() Ownable(msg.sender) {}
+
+    // ============ SHARED INTERNAL FUNCTIONS ============
+
+    function _isMember(address _address) internal view returns (bool) {
+        return members[_address].status == MemberStatus.ACTIVE_MEMBER;
+    }
+
+    // Account that votes with a member's weight (the member itself unless delegated)
+    function _delegates(address _member) internal view returns (address) {
+        address delegatee = votingDelegates[_member];
+        return delegatee == address(0) ? _member : delegatee;
+    }
+
+    function _exitShare(address _member) internal view returns (uint256) {
+        Member memory member = members[_member];
+        // A suspended member keeps what a default left of their contribution
+        if (member.status != MemberStatus.ACTIVE_MEMBER && member.status != MemberStatus.SUSPENDED_MEMBER) return 0;
+        
+        uint256 totalContributions = membershipFee * totalMembers;
+        if (totalContributions == 0) return 0;
+        
+        return (address(this).balance * member.contributionAmount) / totalContributions;
+    }
+
+    function _isEligibleForLoan(address _member) internal view returns (bool) {
+        Member memory member = members[_member];
+        
+        if (!_isMember(_member)) return false;
+        if (member.hasActiveLoan) return false;
+        
+        if (block.timestamp < member.joinDate + loanPolicy.minMembershipDuration) {
+            return false;
+        }
+        
+        if (member.lastLoanDate > 0 && 
+            block.timestamp < member.lastLoanDate + loanPolicy.cooldownPeriod) {
+            return false;
+        }
+        
+        return true;
+    }
+
+    function _loanTerms(uint256 _amount)
+        internal
+        view
+        returns (uint256 interestRate, uint256 totalRepayment, uint256 duration)
+    {
+        uint256 treasuryBalance = address(this).balance;
+        if (treasuryBalance == 0) {
+            interestRate = loanPolicy.maxInterestRate;
+        } else {
+            uint256 loanRatio = (_amount * BASIS_POINTS) / treasuryBalance;
+            
+            interestRate = loanPolicy.minInterestRate + 
+                ((loanRatio * (loanPolicy.maxInterestRate - loanPolicy.minInterestRate)) / BASIS_POINTS);
+            
+            if (interestRate > loanPolicy.maxInterestRate) {
+                interestRate = loanPolicy.maxInterestRate;
+            }
+        }
+        
+        duration = loanPolicy.maxLoanDuration;
+        totalRepayment = _amount + ((_amount * interestRate) / BASIS_POINTS);
+    }
+
+    function _memberTreeSizeAt(uint256 _timestamp) internal view returns (uint256) {
+        uint256 low = 0;
+        uint256 high = memberTreeCheckpoints.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (memberTreeCheckpoints[mid].timestamp > _timestamp) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        return low == 0 ? 0 : memberTreeCheckpoints[low - 1].size;
+    }
+
+    // The current tree cut down to the leaves registered by the proposal's snapshot:
+    // identities that join later are left out, and removals still apply at once
+    function _anonymousVoteRoot(uint256 _proposalId) internal view returns (uint256) {
+        uint256 size = _memberTreeSizeAt(loanProposals[_proposalId].editingPeriodEnd);
+        if (size == memberTreeSize) return memberTreeRoot;
+        if (size == 0) {
+            uint256 empty = emptySubtreeRoots[MEMBER_TREE_DEPTH - 1];
+            return poseidonT3.hash([empty, empty]);
+        }
+
+        // Rehash the path of the last included leaf with empty subtrees to its right
+        uint256 index = size - 1;
+        uint256 node = memberTreeNodes[0][index];
+        for (uint256 level = 0; level < MEMBER_TREE_DEPTH; level++) {
+            if (index & 1 == 0) {
+                node = poseidonT3.hash([node, emptySubtreeRoots[level]]);
+            } else {
+                uint256 sibling = memberTreeNodes[level][index - 1];
+                if (sibling == 0) sibling = emptySubtreeRoots[level];
+                node = poseidonT3.hash([sibling, node]);
+            }
+            index >>= 1;
+        }
+        return node;
+    }
+
+    function _queueOrExecute(uint256 _proposalId) internal {
+        if (timelockDelay == 0) {
+            _tryExecuteApprovedProposal(_proposalId);
+            return;
+        }
+
+        uint256 eta = block.timestamp + timelockDelay;
+        proposalEtas[_proposalId] = eta;
+        emit ProposalQueued(_proposalId, eta);
+    }
+
+    // A failing action cancels the proposal instead of reverting the vote or call that executes it
+    function _tryExecuteApprovedProposal(uint256 _proposalId) internal returns (bool) {
+        try IDAO(address(this)).executeApprovedProposal(_proposalId) {
+            return true;
+        } catch (bytes memory reason) {
+            // Running out of gas says nothing about the action, so the caller can retry with more
+            if (reason.length == 0) revert DAOErrors.ExecutionOutOfGas();
+
+            _setApprovedProposalStatus(_proposalId, ProposalStatus.CANCELLED);
+            emit ProposalExecutionFailed(_proposalId, reason);
+            return false;
+        }
+    }
+
+    function _setApprovedProposalStatus(uint256 _proposalId, ProposalStatus _status) internal {
+        ProposalType proposalType = proposalTypes[_proposalId];
+        if (proposalType == ProposalType.LOAN) {
+            loanProposals[_proposalId].status = _status;
+        } else if (proposalType == ProposalType.TREASURY_WITHDRAWAL) {
+            treasuryProposals[_proposalId].status = _status;
+        } else {
+            governanceProposals[_proposalId].status = _status;
+        }
+    }
+
+    // Thresholds use the total weight when voting opened, so joins and exits mid-vote don't move them
+    function _requiredVotes(uint256 _snapshot) internal view returns (uint256) {
+        return _shareOfVotingWeight(consensusThreshold, _snapshot);
+    }
+
+    function _reachedQuorum(uint256 _votesCast, uint256 _snapshot) internal view returns (bool) {
+        return _votesCast >= _shareOfVotingWeight(quorumThreshold, _snapshot);
+    }
+
+    function _reachedMultiOptionQuorum(MultiOptionProposal storage _proposal) internal view returns (bool) {
+        return _proposal.turnout > 0 && _reachedQuorum(_proposal.turnout, _proposal.createdAt);
+    }
+
+    // Ceiling division so that e.g. 51% of 3 members needs 2 votes
+    function _shareOfVotingWeight(uint256 _basisPoints, uint256 _snapshot) internal view returns (uint256) {
+        return (_totalVotesAt(_snapshot) * _basisPoints + BASIS_POINTS - 1) / BASIS_POINTS;
+    }
+
+    // Moves the proposal into voting and returns the caller's weight, reverting outside the voting period
+    function _openLoanVote(uint256 _proposalId) internal returns (uint256 voteWeight) {
+        _requireLoanVotingOpen(_proposalId);
+
+        // Weight (ENS-weighted if enabled) delegated to the voter when voting opened
+        voteWeight = _votesAt(msg.sender, loanProposals[_proposalId].editingPeriodEnd);
+        if (voteWeight == 0) revert DAOErrors.NoVotingPower();
+    }
+
+    function _requireLoanVotingOpen(uint256 _proposalId) internal {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+
+        // Update proposal phase if editing period has ended
+        _updateProposalPhase(_proposalId);
+
+        if (proposal.phase == ProposalPhase.EDITING) revert DAOErrors.ProposalInEditingPhase();
+        if (proposal.phase != ProposalPhase.VOTING) revert DAOErrors.VotingNotStarted();
+
+        // Check if voting period has ended
+        if (block.timestamp > proposal.editingPeriodEnd + VOTING_PERIOD) revert DAOErrors.VotingPeriodEnded();
+    }
+
+    // Voting opens the block after the snapshot, once no write can land at the snapshot's timestamp any more
+    function _requireVotingOpen(uint256 _snapshot) internal view {
+        if (block.timestamp <= _snapshot) revert DAOErrors.VotingNotStarted();
+        if (block.timestamp > _snapshot + VOTING_PERIOD) revert DAOErrors.VotingPeriodEnded();
+    }
+
+    // Writes a leaf and rehashes its path up to a new root
+    function _setMemberTreeLeaf(uint256 _index, uint256 _leaf) internal {
+        uint256 node = _leaf;
+        for (uint256 level = 0; level < MEMBER_TREE_DEPTH; level++) {
+            memberTreeNodes[level][_index] = node;
+
+            uint256 sibling = memberTreeNodes[level][_index ^ 1];
+            if (sibling == 0) sibling = emptySubtreeRoots[level];
+
+            node = _index & 1 == 0 ? poseidonT3.hash([node, sibling]) : poseidonT3.hash([sibling, node]);
+            _index >>= 1;
+        }
+        memberTreeRoot = node;
+    }
+
+    // Zeroes a leaving or suspended member's leaf; proofs built before stop matching any proposal's root
+    function _removeIdentity(address _member) internal {
+        if (identityCommitments[_member] == 0) return;
+
+        uint256 leafIndex = identityLeafIndices[_member];
+        delete identityCommitments[_member];
+        delete identityLeafIndices[_member];
+
+        _setMemberTreeLeaf(leafIndex, 0);
+
+        emit IdentityRemoved(_member, leafIndex, memberTreeRoot);
+    }
+
+    function _countLoanVote(uint256 _proposalId, bool _support, uint256 _voteWeight) internal {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+
+        if (_support) {
+            proposal.forVotes += _voteWeight;
+        } else {
+            proposal.againstVotes += _voteWeight;
+        }
+
+        // Only approve if we have enough votes AND we haven't already approved
+        if (
+            proposal.forVotes >= _requiredVotes(proposal.editingPeriodEnd) &&
+            _reachedQuorum(proposal.forVotes + proposal.againstVotes, proposal.editingPeriodEnd) &&
+            proposal.status == ProposalStatus.PENDING
+        ) {
+            proposal.status = ProposalStatus.APPROVED;
+            _queueOrExecute(_proposalId);
+        }
+    }
+
+    function _updateProposalPhase(uint256 _proposalId) internal {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+        
+        if (proposal.phase == ProposalPhase.EDITING && block.timestamp > proposal.editingPeriodEnd) {
+            proposal.phase = ProposalPhase.VOTING;
+            emit ProposalPhaseChanged(_proposalId, ProposalPhase.VOTING);
+        }
+    }
+
+    // Takes a leaving or suspended member's weight away from whoever votes with it, and hands weight
+    // delegated to the member back to its delegators so it does not stay with an account that cannot vote
+    function _releaseVotingPower(address _member) internal {
+        if (memberVotingWeights[_member] == 0) return; // Already released
+        address delegatee = _delegates(_member);
+        _moveVotingPower(delegatee, address(0), memberVotingWeights[_member]);
+
+        if (delegatee != _member) {
+            votingDelegates[_member] = address(0);
+            emit DelegateChanged(_member, delegatee, _member);
+        }
+
+        for (uint256 i = 0; i < memberAddresses.length; i++) {
+            address delegator = memberAddresses[i];
+            if (votingDelegates[delegator] == _member) _delegate(delegator, delegator);
+        }
+    }
+
+    function _delegate(address _delegator, address _delegatee) internal {
+        address currentDelegate = _delegates(_delegator);
+        votingDelegates[_delegator] = _delegatee == _delegator ? address(0) : _delegatee;
+        _moveVotingPower(currentDelegate, _delegatee, memberVotingWeights[_delegator]);
+        emit DelegateChanged(_delegator, currentDelegate, _delegatee);
+    }
+
+    // Moves one member's vote between accounts; address(0) adds it to or removes it from the total
+    function _moveVotingPower(address _from, address _to, uint256 _weight) internal {
+        if (_from == _to) return;
+
+        if (_from == address(0)) {
+            _writeCheckpoint(totalVotingCheckpoints, true, _weight);
+        } else {
+            _writeCheckpoint(votingCheckpoints[_from], false, _weight);
+        }
+
+        if (_to == address(0)) {
+            _writeCheckpoint(totalVotingCheckpoints, false, _weight);
+        } else {
+            _writeCheckpoint(votingCheckpoints[_to], true, _weight);
+        }
+    }
+
+    function _writeCheckpoint(VotingCheckpoint[] storage _checkpoints, bool _add, uint256 _weight) internal {
+        uint256 length = _checkpoints.length;
+        VotingCheckpoint memory latest = length > 0 ? _checkpoints[length - 1] : VotingCheckpoint(0, 0, 0);
+
+        uint256 memberCount = _add ? latest.members + 1 : latest.members - 1;
+        uint256 weight = _add ? latest.weight + _weight : latest.weight - _weight;
+
+        // Several changes in one block share a checkpoint
+        if (length > 0 && latest.timestamp == block.timestamp) {
+            _checkpoints[length - 1].members = memberCount;
+            _checkpoints[length - 1].weight = weight;
+        } else {
+            _checkpoints.push(VotingCheckpoint(block.timestamp, memberCount, weight));
+        }
+    }
+
+    function _votesAt(address _account, uint256 _timestamp) internal view returns (uint256) {
+        return _checkpointVotes(votingCheckpoints[_account], _timestamp);
+    }
+
+    function _totalVotesAt(uint256 _timestamp) internal view returns (uint256) {
+        return _checkpointVotes(totalVotingCheckpoints, _timestamp);
+    }
+
+    // One vote per member unless ENS voting was enabled at the timestamp
+    function _checkpointVotes(
+        VotingCheckpoint[] storage _checkpoints,
+        uint256 _timestamp
+    ) internal view returns (uint256) {
+        VotingCheckpoint memory checkpoint = _checkpointAt(_checkpoints, _timestamp);
+        return _weightedVotingAt(_timestamp) ? checkpoint.weight : checkpoint.members;
+    }
+
+    // Whether ENS voting was enabled at the timestamp; switching it mid-vote leaves open proposals alone
+    function _weightedVotingAt(uint256 _timestamp) internal view returns (bool) {
+        uint256 low = 0;
+        uint256 high = votingModeCheckpoints.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (votingModeCheckpoints[mid].timestamp > _timestamp) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        return low > 0 && votingModeCheckpoints[low - 1].weighted;
+    }
+
+    // Latest checkpoint at or before the timestamp, empty if there is none
+    function _checkpointAt(
+        VotingCheckpoint[] storage _checkpoints,
+        uint256 _timestamp
+    ) internal view returns (VotingCheckpoint memory) {
+        uint256 low = 0;
+        uint256 high = _checkpoints.length;
+        while (low < high) {
+            uint256 mid = (low + high) / 2;
+            if (_checkpoints[mid].timestamp > _timestamp) {
+                high = mid;
+            } else {
+                low = mid + 1;
+            }
+        }
+        if (low == 0) return VotingCheckpoint(0, 0, 0);
+        return _checkpoints[low - 1];
+    }
+
+    // Active members keep at least one vote: a zero weight marks voting power that was already released
+    function _calculateVotingWeight(address _member) internal view returns (uint256) {
+        if (address(votingWeightStrategy) == address(0)) return DEFAULT_VOTING_WEIGHT;
+
+        uint256 weight = votingWeightStrategy.votingWeight(
+            _member,
+            members[_member].contributionAmount,
+            memberENSNames[_member]
+        );
+        return weight > 0 ? weight : 1;
+    }
+
+    // Swaps the member's old weight for the new one wherever it is delegated; the member count is unchanged
+    function _updateVotingWeight(address _member) internal {
+        uint256 oldWeight = memberVotingWeights[_member];
+        uint256 newWeight = _calculateVotingWeight(_member);
+        if (newWeight == oldWeight) return;
+
+        address delegatee = _delegates(_member);
+        _moveVotingPower(delegatee, address(0), oldWeight);
+        memberVotingWeights[_member] = newWeight;
+        _moveVotingPower(address(0), delegatee, newWeight);
+
+        emit VotingWeightUpdated(_member, newWeight);
+    }
+
+    function _repaymentSchedule(uint256 _loanId) internal view returns (RepaymentSchedule memory schedule) {
+        Loan storage loan = loans[_loanId];
+        schedule = repaymentSchedules[_loanId];
+        schedule.remainingBalance = loan.totalRepayment - loan.amountRepaid;
+
+        if (schedule.remainingBalance == 0) {
+            schedule.installmentsPaid = schedule.installmentCount;
+            return schedule;
+        }
+
+        // The last installment is larger than the others, so it only counts once fully repaid
+        uint256 paid = loan.amountRepaid / schedule.installmentAmount;
+        schedule.installmentsPaid = paid < schedule.installmentCount ? paid : schedule.installmentCount - 1;
+
+        uint256 next = schedule.installmentsPaid + 1;
+        schedule.nextDueDate = next == schedule.installmentCount
+            ? loan.dueDate
+            : loan.startDate + next * schedule.installmentInterval;
+        schedule.nextInstallmentAmount = _cumulativeInstallmentDue(loan, schedule, next) - loan.amountRepaid;
+    }
+    // A loan is in default once its earliest unpaid installment is more than the grace period late
+    function _isInDefault(uint256 _loanId) internal view returns (bool) {
+        if (loans[_loanId].status != LoanStatus.ACTIVE) return false;
+        return block.timestamp > _repaymentSchedule(_loanId).nextDueDate + gracePeriod;
+    }
+    function _cumulativeInstallmentDue(
+        Loan storage _loan,
+        RepaymentSchedule memory _schedule,
+        uint256 _installments
+    ) internal view returns (uint256) {
+        if (_installments >= _schedule.installmentCount) return _loan.totalRepayment;
+        return _installments * _schedule.installmentAmount;
+    }
+}
@@ -2,22 +2,25 @@
 pragma solidity ^0.8.19;
 
 /**
- * @title IDAO Interface
- * @dev Interface for the DAO contract with all structs, events, and function signatures
+ * @title IDAOTypes
+ * @dev Structs, enums and events of the DAO, shared by the DAO and the modules it delegates to
  */
-interface IDAO {
+interface IDAOTypes {
     // Enums
     enum ProposalStatus {
         PENDING,
         APPROVED,
         REJECTED,
-        EXECUTED
+        EXECUTED,
+        CANCELLED,
+        EXPIRED
     }
 
     enum MemberStatus {
         PENDING_PAYMENT,
         ACTIVE_MEMBER,
-        INACTIVE
+        INACTIVE,
+        SUSPENDED_MEMBER
     }
 
     enum LoanStatus {
@@ -30,7 +33,10 @@ interface IDAO {
 
     enum ProposalType {
         LOAN,
-        TREASURY_WITHDRAWAL
+        TREASURY_WITHDRAWAL,
+        PARAMETER_CHANGE,
+        MEMBER_REMOVAL,
+        MULTI_OPTION
     }
 
     enum ProposalPhase {
@@ -79,6 +85,16 @@ interface IDAO {
         uint256 amountRepaid;
     }
 
+    struct RepaymentSchedule {
+        uint256 installmentCount;
+        uint256 installmentAmount; // The last installment also covers the rounding remainder
+        uint256 installmentInterval;
+        uint256 installmentsPaid;
+        uint256 remainingBalance;
+        uint256 nextDueDate; // 0 once the loan is repaid
+        uint256 nextInstallmentAmount; // Outstanding on the next installment, including any partial payment
+    }
+
     struct TreasuryProposal {
         uint256 proposalId;
         address proposer;
@@ -92,6 +108,20 @@ interface IDAO {
         mapping(address => bool) hasVoted;
     }
 
+    struct GovernanceProposal {
+        uint256 proposalId;
+        address proposer;
+        ProposalType proposalType;
+        bytes callData; // PARAMETER_CHANGE: encoded call to one of the policy setters
+        address member; // MEMBER_REMOVAL: member to remove
+        string description;
+        uint256 createdAt;
+        ProposalStatus status;
+        uint256 forVotes;
+        uint256 againstVotes;
+        mapping(address => bool) hasVoted;
+    }
+
     struct LoanPolicy {
         uint256 minMembershipDuration;
         uint256 membershipContribution;
@@ -112,6 +142,8 @@ interface IDAO {
     event AdminAdded(address indexed admin);
     event AdminRemoved(address indexed admin);
     event ConsensusThresholdUpdated(uint256 newThreshold);
+    event QuorumThresholdUpdated(uint256 newQuorum);
+    event VotingWeightStrategyUpdated(address indexed strategy);
 
     // Events - Membership Management
     event MembershipFeeReceived(
@@ -175,12 +207,30 @@ interface IDAO {
         uint256 amount
     );
 
+    event LoanRepaymentMade(
+        uint256 indexed loanId,
+        address indexed borrower,
+        uint256 amount,
+        uint256 remainingBalance
+    );
+
     event LoanRepaid(
         uint256 indexed loanId,
         address indexed borrower,
         uint256 amount
     );
 
+    event InstallmentIntervalUpdated(uint256 newInterval);
+
+    event LoanDefaulted(
+        uint256 indexed loanId,
+        address indexed borrower,
+        uint256 outstandingBalance,
+        uint256 recoveredAmount
+    );
+
+    event GracePeriodUpdated(uint256 newGracePeriod);
+
     event InterestDistributed(
         uint256 totalInterest,
         uint256 membersCount
@@ -206,8 +256,50 @@ interface IDAO {
         address destination
     );
 
+    event GovernanceProposalCreated(
+        uint256 indexed proposalId,
+        address indexed proposer,
+        ProposalType proposalType,
+        address member,
+        bytes callData,
+        string description
+    );
+
+    event GovernanceVoteCast(
+        uint256 indexed proposalId,
+        address indexed voter,
+        bool support
+    );
+
+    event GovernanceProposalExecuted(uint256 indexed proposalId);
+
+    event ProposalFinalized(uint256 indexed proposalId, ProposalStatus outcome);
+
+    event MemberRemoved(
+        address indexed member,
+        uint256 shareWithdrawn
+    );
+
+    // Events - Timelock
+    event ProposalQueued(uint256 indexed proposalId, uint256 eta);
+    event QueuedProposalExecuted(uint256 indexed proposalId, address indexed executor);
+    event ProposalCancelled(uint256 indexed proposalId, address indexed guardian);
+    event ProposalExecutionFailed(uint256 indexed proposalId, bytes reason);
+    event TimelockDelayUpdated(uint256 newDelay);
+    event GuardianUpdated(address indexed guardian);
+
+    // Events - Delegation
+    event DelegateChanged(address indexed delegator, address indexed fromDelegate, address indexed toDelegate);
+
     event FundsReceived(address indexed sender, uint256 amount);
 
+}
+
+/**
+ * @title IDAO Interface
+ * @dev Interface for the DAO contract with all structs, events, and function signatures
+ */
+interface IDAO is IDAOTypes {
     // Functions - DAO Initialization & Configuration
     function initialize(
         address[] memory _initialAdmins,
@@ -219,6 +311,8 @@ interface IDAO {
     function addAdmin(address _admin) external;
     function removeAdmin(address _admin) external;
     function setConsensusThreshold(uint256 _threshold) external;
+    function setQuorumThreshold(uint256 _quorum) external;
+    function setVotingWeightStrategy(address _strategy) external;
 
     // Functions - Membership Management
     function registerMember() external payable;
@@ -230,11 +324,14 @@ interface IDAO {
     function setMaxLoanDuration(uint256 _duration) external;
     function setInterestRateRange(uint256 _minRate, uint256 _maxRate) external;
     function setCooldownPeriod(uint256 _period) external;
+    function setInstallmentInterval(uint256 _interval) external;
+    function setGracePeriod(uint256 _gracePeriod) external;
 
     function requestLoan(uint256 _amount) external returns (uint256);
     function editLoanProposal(uint256 _proposalId, uint256 _newAmount) external;
     function voteOnLoanProposal(uint256 _proposalId, bool _support) external;
     function repayLoan(uint256 _loanId) external payable;
+    function markLoanDefaulted(uint256 _loanId) external;
 
     // Functions - Treasury & Advanced Governance
     function proposeTreasuryWithdrawal(
@@ -245,6 +342,33 @@ interface IDAO {
 
     function voteOnTreasuryProposal(uint256 _proposalId, bool _support) external;
 
+    function proposeParameterChange(
+        bytes calldata _callData,
+        string calldata _description
+    ) external returns (uint256);
+
+    function proposeMemberRemoval(
+        address _member,
+        string calldata _description
+    ) external returns (uint256);
+
+    function voteOnGovernanceProposal(uint256 _proposalId, bool _support) external;
+    function finalizeProposal(uint256 _proposalId) external;
+
+    // Functions - Timelock
+    function executeQueuedProposal(uint256 _proposalId) external;
+    function cancelQueuedProposal(uint256 _proposalId) external;
+    function executeApprovedProposal(uint256 _proposalId) external;
+    function setTimelockDelay(uint256 _delay) external;
+    function setGuardian(address _guardian) external;
+
+    // Functions - Delegation
+    function delegate(address _delegatee) external;
+    function undelegate() external;
+    function delegates(address _member) external view returns (address);
+    function getVotes(address _account) external view returns (uint256);
+    function getVotesAt(address _account, uint256 _timestamp) external view returns (uint256);
+
     // View Functions
     function getProposal(uint256 _proposalId) external view returns (
         ProposalType proposalType,
@@ -256,6 +380,10 @@ interface IDAO {
 
     function getMember(address _memberAddress) external view returns (Member memory);
     function getLoan(uint256 _loanId) external view returns (Loan memory);
+    function getRepaymentSchedule(uint256 _loanId) external view returns (RepaymentSchedule memory);
+    function isLoanInDefault(uint256 _loanId) external view returns (bool);
+    function getDefaultableLoans() external view returns (uint256[] memory);
+    function getQueuedProposals() external view returns (uint256[] memory proposalIds, uint256[] memory etas);
     function getLoanPolicy() external view returns (LoanPolicy memory);
     
     function isAdmin(address _address) external view returns (bool);
@@ -265,6 +393,8 @@ interface IDAO {
     function getTreasuryBalance() external view returns (uint256);
     function getTotalMembers() external view returns (uint256);
     function getActiveMembers() external view returns (uint256);
+    function quorumVotes() external view returns (uint256);
+    function quorumVotesAt(uint256 _timestamp) external view returns (uint256);
     
     function calculateLoanTerms(uint256 _amount) external view returns (
         uint256 interestRate,
@@ -1,497 +1,331 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-import "./IDAO.sol";
-import "./DAOErrors.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
-import "@openzeppelin/contracts/utils/Pausable.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "./DAOStorage.sol";
+import "./modules/VotingModule.sol";
 
 /**
  * @title UnifiedLendingDAO
  * @dev All-in-one LendingDAO with ENS, Filecoin, FHE, and Restaking features
  * @notice Simplified unified contract for easy frontend integration
  */
-contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
-    using DAOErrors for *;
-
-    // ============ CONSTANTS ============
-    uint256 public constant PROPOSAL_EDITING_PERIOD = 3 days;
-    uint256 public constant VOTING_PERIOD = 7 days;
-    uint256 public constant BASIS_POINTS = 10000;
-    uint256 public constant DEFAULT_CONSENSUS_THRESHOLD = 5100; // 51%
-
-    // ============ CORE DAO STATE ============
-    bool public initialized;
-    uint256 public consensusThreshold;
-    uint256 public membershipFee;
-    uint256 public totalMembers;
-    uint256 public activeMembers;
-    uint256 public proposalCounter;
-    uint256 public loanCounter;
-
-    mapping(address => bool) public admins;
-    mapping(address => Member) public members;
-    mapping(uint256 => LoanProposal) public loanProposals;
-    mapping(uint256 => TreasuryProposal) public treasuryProposals;
-    mapping(uint256 => Loan) public loans;
-    mapping(uint256 => ProposalType) public proposalTypes;
-    mapping(address => uint256) public pendingRewards;
-
-    LoanPolicy public loanPolicy;
-    uint256[] public activeLoans;
-    address[] public memberAddresses;
-
-    // ============ ENHANCED FEATURES STATE ============
-    
-    // ENS Integration
-    bool public ensVotingEnabled;
-    mapping(address => string) public memberENSNames;
-    mapping(address => uint256) public memberVotingWeights;
-    
-    // Document Storage (Simplified)
-    bool public documentStorageEnabled;
-    mapping(uint256 => string) public loanDocuments; // loanId => IPFS hash
-    mapping(uint256 => string) public proposalDocuments; // proposalId => IPFS hash
-    mapping(address => string) public memberKYCDocuments; // member => IPFS hash
-    
-    // Privacy Features (Simplified FHE)
-    bool public privateVotingEnabled;
-    bool public confidentialLoansEnabled;
-    uint256 public privacyLevel = 1; // 1=Basic, 2=Enhanced, 3=Maximum
-    mapping(uint256 => bool) public isPrivateProposal;
-    mapping(uint256 => bytes32) public proposalCommitments; // For privacy verification
-    
-    // Restaking Integration (Simplified)
-    bool public restakingEnabled;
-    uint256 public restakingAllocationBPS = 2000; // 20% default
-    uint256 public totalYieldGenerated;
-    uint256 public totalRestaked;
+contract UnifiedLendingDAO is DAOStorage, IDAO {
+    // ============ MODULES ============
+    // Most of the DAO is delegatecalled into these, which keeps this contract under the EIP-170 size limit.
+    // Their functions are declared below and forward to them.
+    address public immutable membershipModule; // MembershipModule
+    address public immutable loanModule; // LoanModule
+    address public immutable governanceModule; // GovernanceModule
+    address public immutable votingModule; // VotingModule
+    address public immutable manifestModule; // ManifestModule
+    address public immutable restakingModule; // RestakingModule
+
+    // ============ CONSTRUCTOR ============
     
-    struct SimpleOperator {
-        address operatorAddress;
-        string name;
-        uint256 expectedAPY;
-        uint256 totalStaked;
-        bool isApproved;
+    constructor(
+        address _membershipModule,
+        address _loanModule,
+        address _governanceModule,
+        address _votingModule,
+        address _manifestModule,
+        address _restakingModule
+    ) {
+        if (
+            _membershipModule == address(0) ||
+            _loanModule == address(0) ||
+            _governanceModule == address(0) ||
+            _votingModule == address(0) ||
+            _manifestModule == address(0) ||
+            _restakingModule == address(0)
+        ) revert DAOErrors.ZeroAddress();
+        membershipModule = _membershipModule;
+        loanModule = _loanModule;
+        governanceModule = _governanceModule;
+        votingModule = _votingModule;
+        manifestModule = _manifestModule;
+        restakingModule = _restakingModule;
+        poseidonT3 = VotingModule(_votingModule).poseidonHasher();
+
+        // Empty leaves are 0, so every level of an empty tree hashes the one below with itself
+        uint256 emptyNode = 0;
+        for (uint256 level = 0; level < MEMBER_TREE_DEPTH; level++) {
+            emptySubtreeRoots[level] = emptyNode;
+            emptyNode = poseidonT3.hash([emptyNode, emptyNode]);
+        }
+        memberTreeRoot = emptyNode;
     }
-    
-    mapping(address => SimpleOperator) public operators;
-    address[] public approvedOperators;
-    
-    // Yield Distribution
-    mapping(address => uint256) public pendingYield;
-    uint256 public yieldDistributionShares = 6000; // 60% to members
 
-    // ============ EVENTS ============
-    
-    // Enhanced Events
-    event ENSNameLinked(address indexed member, string ensName, uint256 votingWeight);
-    event DocumentStored(uint256 indexed entityId, string entityType, string ipfsHash);
-    event PrivacyModeChanged(string feature, bool enabled);
-    event PrivateProposalCreated(uint256 indexed proposalId, bytes32 commitment);
-    event OperatorApproved(address indexed operator, string name, uint256 apy);
-    event RestakingAllocated(uint256 amount);
-    event YieldDistributed(uint256 totalYield, uint256 memberShare);
-    event FeatureToggled(string feature, bool enabled);
-
-    // ============ MODIFIERS ============
-    
-    modifier onlyAdmin() {
-        if (!admins[msg.sender]) revert DAOErrors.NotAdmin();
-        _;
+    // ============ INITIALIZATION ============
+
+    // Implemented by MembershipModule
+    function initialize(address[] calldata, uint256, uint256, LoanPolicy calldata) external override {
+        _delegateToModule(membershipModule);
     }
 
-    modifier onlyMember() {
-        if (!isMember(msg.sender)) revert DAOErrors.NotMember();
-        _;
+    // ============ CORE MEMBERSHIP FUNCTIONS ============
+
+    // Implemented by MembershipModule
+    function registerMember(string calldata, string calldata) external payable {
+        _delegateToModule(membershipModule);
     }
 
-    modifier onlyInitialized() {
-        if (!initialized) revert DAOErrors.AlreadyInitialized();
-        _;
+    function registerMember() external payable override {
+        _delegateToModule(membershipModule);
     }
 
-    modifier notInitialized() {
-        if (initialized) revert DAOErrors.AlreadyInitialized();
-        _;
+    function exitDAO() external override {
+        _delegateToModule(membershipModule);
     }
 
-    // ============ CONSTRUCTOR ============
-    
-    constructor() Ownable(msg.sender) {}
+    function setEncryptionKey(bytes32) external {
+        _delegateToModule(membershipModule);
+    }
+
+    // Implemented by VotingModule
+    function registerIdentity(uint256) external {
+        _delegateToModule(votingModule);
+    }
 
-    // ============ INITIALIZATION ============
-    
     /**
-     * @notice Initialize the unified DAO with all features
-     * @param _initialAdmins Array of initial admin addresses
-     * @param _consensusThreshold Threshold for proposal approval
-     * @param _membershipFee Fee required to join the DAO
-     * @param _loanPolicy Initial loan policy configuration
+     * @notice Number of member tree leaves at a timestamp; future values can still change
      */
-    function initialize(
-        address[] memory _initialAdmins,
-        uint256 _consensusThreshold,
-        uint256 _membershipFee,
-        LoanPolicy memory _loanPolicy
-    ) external override onlyOwner notInitialized {
-        if (_initialAdmins.length == 0) revert DAOErrors.EmptyAdminsList();
-        if (_consensusThreshold == 0 || _consensusThreshold > BASIS_POINTS) {
-            revert DAOErrors.InvalidConsensusThreshold();
-        }
-        if (_membershipFee == 0) revert DAOErrors.InvalidAmount();
-
-        // Set initial admins
-        for (uint256 i = 0; i < _initialAdmins.length; i++) {
-            if (_initialAdmins[i] == address(0)) revert DAOErrors.ZeroAddress();
-            admins[_initialAdmins[i]] = true;
-            emit AdminAdded(_initialAdmins[i]);
-        }
-
-        consensusThreshold = _consensusThreshold;
-        membershipFee = _membershipFee;
-        loanPolicy = _loanPolicy;
-        initialized = true;
+    function memberTreeSizeAt(uint256 _timestamp) public view returns (uint256) {
+        return _memberTreeSizeAt(_timestamp);
+    }
 
-        emit DAOInitialized(_initialAdmins, _consensusThreshold, _membershipFee);
+    /**
+     * @notice Member tree root that anonymous votes on a proposal must be proven against
+     * @dev The current tree cut down to the leaves registered by the proposal's snapshot:
+     * identities that join later are left out, and removals still apply at once
+     */
+    function anonymousVoteRoot(uint256 _proposalId) public view returns (uint256) {
+        return _anonymousVoteRoot(_proposalId);
     }
 
-    // ============ CORE MEMBERSHIP FUNCTIONS ============
-    
     /**
-     * @notice Register as a member with optional ENS and KYC
-     * @param _ensName Optional ENS name for enhanced voting weight
-     * @param _kycHash Optional KYC document IPFS hash
+     * @notice Every leaf of the member tree in order, 0 for removed identities
+     * @return leaves Identity commitments to build inclusion proofs from
      */
-    function registerMember(
-        string memory _ensName,
-        string memory _kycHash
-    ) external payable onlyInitialized whenNotPaused {
-        if (isMember(msg.sender) || members[msg.sender].memberAddress != address(0)) {
-            revert DAOErrors.AlreadyMember();
-        }
-        if (msg.value < membershipFee) revert DAOErrors.IncorrectMembershipFee();
-
-        // Create new member
-        members[msg.sender] = Member({
-            memberAddress: msg.sender,
-            status: MemberStatus.ACTIVE_MEMBER,
-            joinDate: block.timestamp,
-            contributionAmount: membershipFee,
-            shareBalance: membershipFee,
-            hasActiveLoan: false,
-            lastLoanDate: 0
-        });
-        
-        memberAddresses.push(msg.sender);
-        totalMembers++;
-        activeMembers++;
-
-        // Handle ENS if provided
-        if (bytes(_ensName).length > 0) {
-            memberENSNames[msg.sender] = _ensName;
-            memberVotingWeights[msg.sender] = _calculateENSVotingWeight(_ensName);
-            emit ENSNameLinked(msg.sender, _ensName, memberVotingWeights[msg.sender]);
-        } else {
-            memberVotingWeights[msg.sender] = 100; // Default weight
+    function getMemberTreeLeaves() external view returns (uint256[] memory leaves) {
+        leaves = new uint256[](memberTreeSize);
+        for (uint256 i = 0; i < leaves.length; i++) {
+            leaves[i] = memberTreeNodes[0][i];
         }
+    }
 
-        // Handle KYC if provided
-        if (bytes(_kycHash).length > 0) {
-            memberKYCDocuments[msg.sender] = _kycHash;
-            emit DocumentStored(uint256(uint160(msg.sender)), "member_kyc", _kycHash);
-        }
+    // The verifiers are deployed by VotingModule, which checks the proofs
+    function privateVoteVerifier() external view returns (PrivateVoteVerifier) {
+        return VotingModule(votingModule).privateVoteVerifier();
+    }
 
-        emit MembershipFeeReceived(msg.sender, membershipFee);
-        emit MemberActivated(msg.sender);
+    function anonymousVoteVerifier() external view returns (AnonymousVoteVerifier) {
+        return VotingModule(votingModule).anonymousVoteVerifier();
+    }
 
-        // Refund excess payment
-        if (msg.value > membershipFee) {
-            payable(msg.sender).transfer(msg.value - membershipFee);
-        }
+    // ============ ENHANCED LOAN FUNCTIONS ============
+
+    // Implemented by LoanModule
+    function requestLoan(uint256, bool, bytes32, string calldata) external returns (uint256) {
+        _delegateToModule(loanModule);
     }
 
-    /**
-     * @notice Standard member registration (backward compatibility)
-     */
-    function registerMember() external payable override onlyInitialized whenNotPaused {
-        // Call enhanced registration with empty strings
-        this.registerMember{value: msg.value}("", "");
+    function requestLoan(uint256) external override returns (uint256) {
+        _delegateToModule(loanModule);
     }
 
-    /**
-     * @notice Exit the DAO and withdraw proportional share
-     */
-    function exitDAO() external override onlyInitialized onlyMember nonReentrant whenNotPaused {
-        Member storage member = members[msg.sender];
-        
-        if (member.hasActiveLoan) revert DAOErrors.CannotExitWithActiveLoan();
+    function voteOnLoanProposal(uint256, bool) external override {
+        _delegateToModule(loanModule);
+    }
 
-        uint256 shareToWithdraw = calculateExitShare(msg.sender);
-        
-        if (address(this).balance < shareToWithdraw) {
-            revert DAOErrors.InsufficientTreasuryForExit();
-        }
+    function repayLoan(uint256) external payable override {
+        _delegateToModule(loanModule);
+    }
 
-        // Update member status
-        member.status = MemberStatus.INACTIVE;
-        activeMembers--;
+    function markLoanDefaulted(uint256) external override {
+        _delegateToModule(loanModule);
+    }
 
-        // Clear member data
-        memberENSNames[msg.sender] = "";
-        memberVotingWeights[msg.sender] = 0;
+    function editLoanProposal(uint256, uint256) external override {
+        _delegateToModule(loanModule);
+    }
 
-        // Transfer share
-        (bool success, ) = payable(msg.sender).call{value: shareToWithdraw}("");
-        if (!success) revert DAOErrors.TransferFailed();
+    // Implemented by VotingModule
+    function commitPrivateVote(uint256, bytes32, bytes32, uint256[8] calldata) external {
+        _delegateToModule(votingModule);
+    }
 
-        emit MemberExited(msg.sender, shareToWithdraw);
+    function revealPrivateVote(uint256, uint8, uint256[8] calldata) external {
+        _delegateToModule(votingModule);
     }
 
-    // ============ ENHANCED LOAN FUNCTIONS ============
+    function castAnonymousVote(uint256, bool, uint256, uint256, uint256[8] calldata) external {
+        _delegateToModule(votingModule);
+    }
+
+    // ============ TREASURY & GOVERNANCE ============
     
-    /**
-     * @notice Request a loan (supports both public and private)
-     * @param _amount Loan amount (set to 0 for private loans)
-     * @param _isPrivate Whether this is a private/confidential loan
-     * @param _commitment Privacy commitment hash (for private loans)
-     * @param _documentHash Optional loan document IPFS hash
-     * @return proposalId The created proposal ID
-     */
-    function requestLoan(
-        uint256 _amount,
-        bool _isPrivate,
-        bytes32 _commitment,
-        string memory _documentHash
-    ) external onlyInitialized onlyMember whenNotPaused returns (uint256) {
-        if (!isEligibleForLoan(msg.sender)) revert DAOErrors.NotEligibleForLoan();
-        
-        // For private loans, require privacy to be enabled
-        if (_isPrivate && !confidentialLoansEnabled) {
-            revert("Confidential loans not enabled");
-        }
+    // Implemented by GovernanceModule
+    function proposeTreasuryWithdrawal(uint256, address, string calldata)
+        external
+        override
+        returns (uint256)
+    {
+        _delegateToModule(governanceModule);
+    }
 
-        uint256 proposalId = ++proposalCounter;
-        uint256 loanAmount = _isPrivate ? 1 : _amount; // Placeholder for private loans
-        
-        // Calculate loan terms
-        (uint256 interestRate, uint256 totalRepayment, uint256 duration) = calculateLoanTerms(loanAmount);
-
-        LoanProposal storage proposal = loanProposals[proposalId];
-        proposal.proposalId = proposalId;
-        proposal.borrower = msg.sender;
-        proposal.amount = loanAmount;
-        proposal.interestRate = interestRate;
-        proposal.duration = duration;
-        proposal.totalRepayment = totalRepayment;
-        proposal.createdAt = block.timestamp;
-        proposal.editingPeriodEnd = block.timestamp + PROPOSAL_EDITING_PERIOD;
-        proposal.phase = ProposalPhase.EDITING;
-        proposal.status = ProposalStatus.PENDING;
-
-        proposalTypes[proposalId] = ProposalType.LOAN;
-        
-        // Handle privacy
-        if (_isPrivate) {
-            isPrivateProposal[proposalId] = true;
-            proposalCommitments[proposalId] = _commitment;
-            emit PrivateProposalCreated(proposalId, _commitment);
-        }
+    function proposeTreasuryWithdrawal(uint256, address, string calldata, bool)
+        external
+        returns (uint256)
+    {
+        _delegateToModule(governanceModule);
+    }
 
-        // Handle document storage
-        if (bytes(_documentHash).length > 0) {
-            proposalDocuments[proposalId] = _documentHash;
-            emit DocumentStored(proposalId, "loan_proposal", _documentHash);
-        }
+    function voteOnTreasuryProposal(uint256, bool) external override {
+        _delegateToModule(governanceModule);
+    }
 
-        emit LoanRequested(proposalId, msg.sender, loanAmount, interestRate, totalRepayment);
-        return proposalId;
+    function voteOnQuadraticTreasuryProposal(uint256, bool, uint256) external {
+        _delegateToModule(governanceModule);
     }
 
     /**
-     * @notice Standard loan request (backward compatibility)
+     * @notice Voice credit budget of an account on a quadratic proposal, and how many it spent
+     * @dev The budget comes from the account's voting power when the proposal was created
      */
-    function requestLoan(uint256 _amount) 
-        external 
-        override 
-        onlyInitialized 
-        onlyMember 
-        whenNotPaused
-        returns (uint256) 
+    function getVoiceCredits(uint256 _proposalId, address _account)
+        external
+        view
+        returns (uint256 budget, uint256 spent)
     {
-        return this.requestLoan(_amount, false, bytes32(0), "");
+        TreasuryProposal storage proposal = treasuryProposals[_proposalId];
+        if (!isQuadraticProposal[_proposalId]) revert DAOErrors.NotQuadraticProposal();
+
+        budget = _votesAt(_account, proposal.createdAt) * VOICE_CREDITS_PER_VOTE;
+        spent = voiceCreditsSpent[_proposalId][_account];
     }
 
-    /**
-     * @notice Enhanced voting with ENS weights and privacy support
-     * @param _proposalId ID of the loan proposal
-     * @param _support True for support, false for opposition
-     */
-    function voteOnLoanProposal(uint256 _proposalId, bool _support) 
-        external 
-        override 
-        onlyInitialized 
-        onlyMember 
-        whenNotPaused 
+    function proposeParameterChange(bytes calldata, string calldata)
+        external
+        override
+        returns (uint256)
     {
-        LoanProposal storage proposal = loanProposals[_proposalId];
-        
-        if (proposal.proposalId == 0) revert DAOErrors.LoanProposalNotFound();
-        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.LoanProposalNotPending();
-        if (proposal.borrower == msg.sender) revert DAOErrors.CannotVoteOnOwnProposal();
-        if (proposal.hasVoted[msg.sender]) revert DAOErrors.AlreadyVoted();
-        
-        // Update proposal phase if editing period has ended
-        _updateProposalPhase(_proposalId);
-        
-        if (proposal.phase == ProposalPhase.EDITING) revert DAOErrors.ProposalInEditingPhase();
-        if (proposal.phase != ProposalPhase.VOTING) revert DAOErrors.VotingNotStarted();
-        
-        // Check if voting period has ended
-        uint256 votingStartTime = proposal.editingPeriodEnd;
-        if (block.timestamp > votingStartTime + VOTING_PERIOD) revert DAOErrors.VotingPeriodEnded();
+        _delegateToModule(governanceModule);
+    }
 
-        proposal.hasVoted[msg.sender] = true;
+    function proposeMemberRemoval(address, string calldata) external override returns (uint256) {
+        _delegateToModule(governanceModule);
+    }
 
-        // Use ENS-weighted voting if enabled
-        uint256 voteWeight = ensVotingEnabled ? memberVotingWeights[msg.sender] : 1;
-        
-        if (_support) {
-            proposal.forVotes += voteWeight;
-        } else {
-            proposal.againstVotes += voteWeight;
-        }
+    function voteOnGovernanceProposal(uint256, bool) external override {
+        _delegateToModule(governanceModule);
+    }
 
-        emit LoanVoteCast(_proposalId, msg.sender, _support);
+    // Implemented by VotingModule
+    function proposeMultiOption(string calldata, string[] calldata, CountingMethod)
+        external
+        returns (uint256)
+    {
+        _delegateToModule(votingModule);
+    }
 
-        // Handle private voting event
-        if (privateVotingEnabled || isPrivateProposal[_proposalId]) {
-            bytes32 voteHash = keccak256(abi.encode(_support, block.timestamp, msg.sender));
-            emit PrivateVoteCast(_proposalId, msg.sender, voteHash);
-        }
+    function voteOnMultiOptionProposal(uint256, uint256[] calldata) external {
+        _delegateToModule(votingModule);
+    }
 
-        // Check if proposal passes - use ceiling division for proper threshold
-        uint256 requiredVotes;
-        if (ensVotingEnabled) {
-            uint256 totalWeight = _getTotalVotingWeight();
-            requiredVotes = (totalWeight * consensusThreshold + BASIS_POINTS - 1) / BASIS_POINTS;
-        } else {
-            requiredVotes = (activeMembers * consensusThreshold + BASIS_POINTS - 1) / BASIS_POINTS;
-        }
-            
-        // Only approve if we have enough votes AND we haven't already approved
-        if (proposal.forVotes >= requiredVotes && proposal.status == ProposalStatus.PENDING) {
-            proposal.status = ProposalStatus.APPROVED;
-            proposal.phase = ProposalPhase.EXECUTED;
-            _approveLoan(_proposalId);
-        }
+    function commitRankedChoiceResult(uint256, uint256, bytes32) external {
+        _delegateToModule(votingModule);
     }
 
     /**
-     * @notice Enhanced loan repayment with yield distribution
-     * @param _loanId ID of the loan to repay
+     * @notice Get a multi-option proposal with its tally so far
+     * @dev `approvals` is empty for ranked-choice proposals, whose ballots are only in MultiOptionVoteCast events.
+     * `winningOption` and `resultHash` are set once the proposal is approved.
      */
-    function repayLoan(uint256 _loanId) 
-        external 
-        payable 
-        override 
-        onlyInitialized 
-        nonReentrant 
-        whenNotPaused 
-    {
-        Loan storage loan = loans[_loanId];
-        
-        if (loan.loanId == 0) revert DAOErrors.LoanNotFound();
-        if (loan.borrower != msg.sender) revert DAOErrors.NotAuthorized();
-        if (loan.status != LoanStatus.ACTIVE) revert DAOErrors.LoanNotActive();
-        if (msg.value != loan.totalRepayment) revert DAOErrors.IncorrectRepaymentAmount();
-
-        loan.status = LoanStatus.REPAID;
-        loan.amountRepaid = msg.value;
+    function getMultiOptionProposal(uint256 _proposalId) external view returns (
+        address proposer,
+        CountingMethod countingMethod,
+        string memory description,
+        string[] memory options,
+        uint256 createdAt,
+        ProposalStatus status,
+        uint256 turnout,
+        uint256[] memory approvals,
+        bytes32 ballotsHash,
+        uint256 winningOption,
+        bytes32 resultHash
+    ) {
+        MultiOptionProposal storage proposal = multiOptionProposals[_proposalId];
+        if (proposal.proposalId == 0) revert DAOErrors.MultiOptionProposalNotFound();
 
-        // Update borrower status
-        Member storage borrower = members[msg.sender];
-        borrower.hasActiveLoan = false;
+        return (
+            proposal.proposer,
+            proposal.countingMethod,
+            proposal.description,
+            proposal.options,
+            proposal.createdAt,
+            proposal.status,
+            proposal.turnout,
+            proposal.approvals,
+            proposal.ballotsHash,
+            proposal.winningOption,
+            proposal.resultHash
+        );
+    }
 
-        // Remove from active loans
-        _removeActiveLoan(_loanId);
+    // Implemented by GovernanceModule
+    function finalizeProposal(uint256) external override {
+        _delegateToModule(governanceModule);
+    }
 
-        // Distribute interest with enhanced yield sharing
-        uint256 interestAmount = loan.totalRepayment - loan.principalAmount;
-        _distributeInterestAndYield(interestAmount);
+    // ============ TIMELOCK ============
 
-        emit LoanRepaid(_loanId, msg.sender, msg.value);
+    // Implemented by GovernanceModule
+    function executeQueuedProposal(uint256) external override {
+        _delegateToModule(governanceModule);
     }
 
-    // ============ TREASURY & GOVERNANCE ============
-    
-    function proposeTreasuryWithdrawal(
-        uint256 _amount,
-        address _destination,
-        string memory _reason
-    ) 
-        external 
-        override 
-        onlyInitialized 
-        onlyMember 
-        whenNotPaused
-        returns (uint256) 
-    {
-        if (address(this).balance < _amount) revert DAOErrors.InsufficientTreasuryBalance();
+    function cancelQueuedProposal(uint256) external override {
+        _delegateToModule(governanceModule);
+    }
 
-        uint256 proposalId = ++proposalCounter;
-        
-        TreasuryProposal storage proposal = treasuryProposals[proposalId];
-        proposal.proposalId = proposalId;
-        proposal.proposer = msg.sender;
-        proposal.amount = _amount;
-        proposal.destination = _destination;
-        proposal.reason = _reason;
-        proposal.createdAt = block.timestamp;
-        proposal.status = ProposalStatus.PENDING;
+    function executeApprovedProposal(uint256) external override {
+        _delegateToModule(governanceModule);
+    }
 
-        proposalTypes[proposalId] = ProposalType.TREASURY_WITHDRAWAL;
+    // ============ DELEGATION ============
 
-        emit TreasuryWithdrawalProposed(proposalId, msg.sender, _amount, _destination);
-        return proposalId;
+    // Implemented by MembershipModule
+    function delegate(address) external override {
+        _delegateToModule(membershipModule);
     }
 
-    function voteOnTreasuryProposal(uint256 _proposalId, bool _support) 
-        external 
-        override 
-        onlyInitialized 
-        onlyMember 
-        whenNotPaused 
-    {
-        TreasuryProposal storage proposal = treasuryProposals[_proposalId];
-        
-        if (proposal.proposalId == 0) revert DAOErrors.TreasuryProposalNotFound();
-        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.TreasuryProposalNotPending();
-        if (proposal.hasVoted[msg.sender]) revert DAOErrors.AlreadyVoted();
-        if (block.timestamp > proposal.createdAt + VOTING_PERIOD) revert DAOErrors.VotingPeriodEnded();
+    function undelegate() external override {
+        _delegateToModule(membershipModule);
+    }
 
-        proposal.hasVoted[msg.sender] = true;
+    function refreshVotingWeight(address) external {
+        _delegateToModule(membershipModule);
+    }
 
-        uint256 voteWeight = ensVotingEnabled ? memberVotingWeights[msg.sender] : 1;
-        
-        if (_support) {
-            proposal.forVotes += voteWeight;
-        } else {
-            proposal.againstVotes += voteWeight;
-        }
+    /**
+     * @notice Account that votes with a member's weight (the member itself unless delegated)
+     */
+    function delegates(address _member) public view override returns (address) {
+        return _delegates(_member);
+    }
 
-        emit TreasuryWithdrawalVoteCast(_proposalId, msg.sender, _support);
+    /**
+     * @notice Current voting power of an account, including weight delegated to it
+     */
+    function getVotes(address _account) external view override returns (uint256) {
+        return _votesAt(_account, block.timestamp);
+    }
 
-        // Check if proposal passes (higher threshold for treasury)
-        uint256 requiredVotes = ensVotingEnabled ? 
-            (_getTotalVotingWeight() * 6000) / BASIS_POINTS : // 60% for treasury
-            (activeMembers * 6000) / BASIS_POINTS;
-            
-        if (proposal.forVotes >= requiredVotes) {
-            proposal.status = ProposalStatus.APPROVED;
-            _executeTreasuryWithdrawal(_proposalId);
-        }
+    /**
+     * @notice Voting power of an account at a timestamp; future values can still change
+     */
+    function getVotesAt(address _account, uint256 _timestamp) external view override returns (uint256) {
+        return _votesAt(_account, _timestamp);
     }
 
     // ============ ENHANCED FEATURES MANAGEMENT ============
@@ -506,6 +340,7 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
         
         if (featureHash == keccak256("ensVoting")) {
             ensVotingEnabled = _enabled;
+            _writeVotingMode(_enabled);
         } else if (featureHash == keccak256("privateVoting")) {
             privateVotingEnabled = _enabled;
         } else if (featureHash == keccak256("confidentialLoans")) {
@@ -514,6 +349,8 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
             documentStorageEnabled = _enabled;
         } else if (featureHash == keccak256("restaking")) {
             restakingEnabled = _enabled;
+        } else if (featureHash == keccak256("autoLiquidation")) {
+            autoLiquidationEnabled = _enabled;
         } else {
             revert("Invalid feature");
         }
@@ -535,124 +372,52 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
             confidentialLoansEnabled = true;
         }
         if (_level >= 3) {
-            // Maximum privacy - could add more features here
+            // Maximum privacy - private loans requested from now on take anonymous votes (see castAnonymousVote)
         }
         
         emit PrivacyModeChanged("privacyLevel", true);
     }
 
     // ============ RESTAKING FUNCTIONS (Simplified) ============
-    
-    /**
-     * @notice Approve a restaking operator
-     * @param _operator Operator address
-     * @param _name Operator name
-     * @param _expectedAPY Expected APY in basis points
-     */
-    function approveOperator(
-        address _operator,
-        string memory _name,
-        uint256 _expectedAPY
-    ) external onlyAdmin {
-        require(!operators[_operator].isApproved, "Already approved");
-        require(_expectedAPY > 0 && _expectedAPY <= 5000, "Invalid APY"); // Max 50%
-        
-        operators[_operator] = SimpleOperator({
-            operatorAddress: _operator,
-            name: _name,
-            expectedAPY: _expectedAPY,
-            totalStaked: 0,
-            isApproved: true
-        });
-        
-        approvedOperators.push(_operator);
-        emit OperatorApproved(_operator, _name, _expectedAPY);
+
+    // Implemented by RestakingModule
+    function approveOperator(address, string calldata, uint256) external {
+        _delegateToModule(restakingModule);
     }
 
-    /**
-     * @notice Allocate treasury funds to restaking
-     * @param _amount Amount to allocate
-     */
-    function allocateToRestaking(uint256 _amount) external onlyAdmin {
-        require(restakingEnabled, "Restaking not enabled");
-        require(_amount > 0, "Invalid amount");
-        require(address(this).balance >= _amount, "Insufficient balance");
-        
-        // Simple allocation to approved operators
-        uint256 operatorCount = approvedOperators.length;
-        if (operatorCount == 0) revert("No approved operators");
-        
-        uint256 amountPerOperator = _amount / operatorCount;
-        
-        for (uint256 i = 0; i < operatorCount; i++) {
-            address operator = approvedOperators[i];
-            operators[operator].totalStaked += amountPerOperator;
-        }
-        
-        totalRestaked += _amount;
-        emit RestakingAllocated(_amount);
+    function allocateToRestaking(uint256) external {
+        _delegateToModule(restakingModule);
     }
 
-    /**
-     * @notice Distribute yield to members (simplified)
-     * @param _totalYield Total yield amount to distribute
-     */
-    function distributeYield(uint256 _totalYield) external onlyAdmin {
-        require(_totalYield > 0, "Invalid yield amount");
-        require(activeMembers > 0, "No active members");
-        
-        // Calculate member share
-        uint256 memberPortion = (_totalYield * yieldDistributionShares) / BASIS_POINTS;
-        uint256 perMemberYield = memberPortion / activeMembers;
-        
-        // Distribute to all active members
-        for (uint256 i = 0; i < memberAddresses.length; i++) {
-            address member = memberAddresses[i];
-            if (isMember(member)) {
-                pendingYield[member] += perMemberYield;
-            }
-        }
-        
-        totalYieldGenerated += _totalYield;
-        emit YieldDistributed(_totalYield, memberPortion);
+    function distributeYield(uint256) external {
+        _delegateToModule(restakingModule);
     }
 
-    /**
-     * @notice Claim accumulated yield rewards
-     */
-    function claimYield() external onlyMember nonReentrant {
-        uint256 yield = pendingYield[msg.sender];
-        if (yield == 0) revert DAOErrors.ZeroAmount();
-        
-        pendingYield[msg.sender] = 0;
-        
-        (bool success, ) = payable(msg.sender).call{value: yield}("");
-        if (!success) revert DAOErrors.TransferFailed();
+    function claimYield() external {
+        _delegateToModule(restakingModule);
     }
 
     // ============ DOCUMENT STORAGE (Simplified) ============
-    
-    /**
-     * @notice Store a document hash for a loan
-     * @param _loanId Loan ID
-     * @param _ipfsHash IPFS hash of the document
-     */
-    function storeLoanDocument(uint256 _loanId, string memory _ipfsHash) external {
-        require(bytes(_ipfsHash).length > 0, "Invalid hash");
-        
-        // Allow admins to store documents for any loan ID (even non-existent)
-        // Allow loan borrowers to store documents for their own loans
-        if (!admins[msg.sender]) {
-            if (_loanId == 0 || loans[_loanId].loanId == 0) {
-                revert("Not authorized");
-            }
-            if (loans[_loanId].borrower != msg.sender) {
-                revert("Not authorized");
-            }
-        }
-        
-        loanDocuments[_loanId] = _ipfsHash;
-        emit DocumentStored(_loanId, "loan_document", _ipfsHash);
+
+    // Implemented by ManifestModule
+    function storeLoanDocument(uint256, string calldata) external {
+        _delegateToModule(manifestModule);
+    }
+
+    function anchorLoanManifest(uint256, string calldata, bytes32) external {
+        _delegateToModule(manifestModule);
+    }
+
+    function anchorProposalManifest(uint256, string calldata, bytes32) external {
+        _delegateToModule(manifestModule);
+    }
+
+    function getLoanManifests(uint256 _loanId) external view returns (DocumentManifest[] memory) {
+        return loanManifests[_loanId];
+    }
+
+    function getProposalManifests(uint256 _proposalId) external view returns (DocumentManifest[] memory) {
+        return proposalManifests[_proposalId];
     }
 
     // ============ VIEW FUNCTIONS (Frontend-Friendly) ============
@@ -713,6 +478,8 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
     /**
      * @notice Get proposal details with enhanced information
      * @param _proposalId Proposal ID
+     * @dev `votingSnapshot` is when voting opens; votes and thresholds use the weights at that time.
+     * `snapshotTotalWeight` is the total weight then, final once voting has opened.
      */
     function getEnhancedProposal(uint256 _proposalId) external view returns (
         ProposalType proposalType,
@@ -722,7 +489,9 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
         uint256 createdAt,
         bool isPrivate,
         string memory documentHash,
-        address proposer
+        address proposer,
+        uint256 votingSnapshot,
+        uint256 snapshotTotalWeight
     ) {
         proposalType = proposalTypes[_proposalId];
         
@@ -736,7 +505,9 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
                 proposal.createdAt,
                 isPrivateProposal[_proposalId],
                 proposalDocuments[_proposalId],
-                proposal.borrower
+                proposal.borrower,
+                proposal.editingPeriodEnd,
+                _totalVotesAt(proposal.editingPeriodEnd)
             );
         } else if (proposalType == ProposalType.TREASURY_WITHDRAWAL) {
             TreasuryProposal storage proposal = treasuryProposals[_proposalId];
@@ -748,7 +519,37 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
                 proposal.createdAt,
                 false, // Treasury proposals are not private
                 "",
-                proposal.proposer
+                proposal.proposer,
+                proposal.createdAt,
+                _totalVotesAt(proposal.createdAt)
+            );
+        } else if (proposalType == ProposalType.MULTI_OPTION) {
+            MultiOptionProposal storage proposal = multiOptionProposals[_proposalId];
+            return (
+                proposalType,
+                proposal.status,
+                proposal.turnout, // Multi-option votes have no side; see getMultiOptionProposal
+                0,
+                proposal.createdAt,
+                false,
+                "",
+                proposal.proposer,
+                proposal.createdAt,
+                _totalVotesAt(proposal.createdAt)
+            );
+        } else if (governanceProposals[_proposalId].proposalId != 0) {
+            GovernanceProposal storage proposal = governanceProposals[_proposalId];
+            return (
+                proposalType,
+                proposal.status,
+                proposal.forVotes,
+                proposal.againstVotes,
+                proposal.createdAt,
+                false,
+                "",
+                proposal.proposer,
+                proposal.createdAt,
+                _totalVotesAt(proposal.createdAt)
             );
         }
         
@@ -797,78 +598,61 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
         emit AdminRemoved(_admin);
     }
 
-    function setConsensusThreshold(uint256 _threshold) external override onlyAdmin {
-        if (_threshold == 0 || _threshold > BASIS_POINTS) {
-            revert DAOErrors.InvalidConsensusThreshold();
-        }
-        consensusThreshold = _threshold;
-        emit ConsensusThresholdUpdated(_threshold);
+    // The zero address leaves queued proposals uncancellable
+    function setGuardian(address _guardian) external override onlyAdmin {
+        guardian = _guardian;
+        emit GuardianUpdated(_guardian);
     }
 
-    // Loan Policy Management
-    function setMinMembershipDuration(uint256 _duration) external override onlyAdmin {
-        if (_duration == 0) revert DAOErrors.InvalidMembershipDuration();
-        loanPolicy.minMembershipDuration = _duration;
-        _emitLoanPolicyUpdated();
+    // ============ GOVERNED PARAMETERS ============
+    // Only callable by the DAO itself when a PARAMETER_CHANGE proposal executes; implemented by GovernanceModule
+
+    function setConsensusThreshold(uint256) external override {
+        _delegateToModule(governanceModule);
     }
 
-    function setMembershipContribution(uint256 _amount) external override onlyAdmin {
-        if (_amount == 0) revert DAOErrors.InvalidContributionAmount();
-        loanPolicy.membershipContribution = _amount;
-        _emitLoanPolicyUpdated();
+    function setQuorumThreshold(uint256) external override {
+        _delegateToModule(governanceModule);
     }
 
-    function setMaxLoanDuration(uint256 _duration) external override onlyAdmin {
-        if (_duration == 0) revert DAOErrors.InvalidLoanDuration();
-        loanPolicy.maxLoanDuration = _duration;
-        _emitLoanPolicyUpdated();
+    function setVotingWeightStrategy(address) external override {
+        _delegateToModule(governanceModule);
     }
 
-    function setInterestRateRange(uint256 _minRate, uint256 _maxRate) external override onlyAdmin {
-        if (_minRate == 0 || _maxRate == 0 || _minRate >= _maxRate) {
-            revert DAOErrors.InvalidInterestRate();
-        }
-        loanPolicy.minInterestRate = _minRate;
-        loanPolicy.maxInterestRate = _maxRate;
-        _emitLoanPolicyUpdated();
+    function setMinMembershipDuration(uint256) external override {
+        _delegateToModule(governanceModule);
     }
 
-    function setCooldownPeriod(uint256 _period) external override onlyAdmin {
-        if (_period == 0) revert DAOErrors.InvalidCooldownPeriod();
-        loanPolicy.cooldownPeriod = _period;
-        _emitLoanPolicyUpdated();
+    function setMembershipContribution(uint256) external override {
+        _delegateToModule(governanceModule);
     }
 
-    // ============ STANDARD VIEW FUNCTIONS ============
-    
-    function editLoanProposal(uint256 _proposalId, uint256 _newAmount)
-        external
-        override
-        onlyInitialized
-        onlyMember
-        whenNotPaused
-    {
-        LoanProposal storage proposal = loanProposals[_proposalId];
-        
-        if (proposal.proposalId == 0) revert DAOErrors.LoanProposalNotFound();
-        if (proposal.borrower != msg.sender) revert DAOErrors.NotAuthorized();
-        if (proposal.phase != ProposalPhase.EDITING) revert DAOErrors.ProposalNotInEditingPhase();
-        if (block.timestamp > proposal.editingPeriodEnd) revert DAOErrors.EditingPeriodEnded();
-
-        // Don't allow editing private proposals amounts
-        if (isPrivateProposal[_proposalId] && _newAmount != proposal.amount) {
-            revert("Cannot edit private proposal amount");
-        }
+    function setMaxLoanDuration(uint256) external override {
+        _delegateToModule(governanceModule);
+    }
 
-        (uint256 newInterestRate, uint256 newTotalRepayment, ) = calculateLoanTerms(_newAmount);
+    function setInterestRateRange(uint256, uint256) external override {
+        _delegateToModule(governanceModule);
+    }
 
-        proposal.amount = _newAmount;
-        proposal.interestRate = newInterestRate;
-        proposal.totalRepayment = newTotalRepayment;
+    function setCooldownPeriod(uint256) external override {
+        _delegateToModule(governanceModule);
+    }
 
-        emit LoanProposalEdited(_proposalId, msg.sender, _newAmount, newInterestRate, newTotalRepayment);
+    function setGracePeriod(uint256) external override {
+        _delegateToModule(governanceModule);
     }
 
+    function setInstallmentInterval(uint256) external override {
+        _delegateToModule(governanceModule);
+    }
+
+    function setTimelockDelay(uint256) external override {
+        _delegateToModule(governanceModule);
+    }
+
+    // ============ STANDARD VIEW FUNCTIONS ============
+
     function getProposal(uint256 _proposalId) 
         external 
         view 
@@ -889,6 +673,12 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
         } else if (proposalType == ProposalType.TREASURY_WITHDRAWAL) {
             TreasuryProposal storage proposal = treasuryProposals[_proposalId];
             return (proposalType, proposal.status, proposal.forVotes, proposal.againstVotes, proposal.createdAt);
+        } else if (proposalType == ProposalType.MULTI_OPTION) {
+            MultiOptionProposal storage proposal = multiOptionProposals[_proposalId];
+            return (proposalType, proposal.status, proposal.turnout, 0, proposal.createdAt);
+        } else if (governanceProposals[_proposalId].proposalId != 0) {
+            GovernanceProposal storage proposal = governanceProposals[_proposalId];
+            return (proposalType, proposal.status, proposal.forVotes, proposal.againstVotes, proposal.createdAt);
         }
         
         revert DAOErrors.ProposalNotFound();
@@ -902,6 +692,51 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
         return loans[_loanId];
     }
 
+    function getRepaymentSchedule(uint256 _loanId) external view override returns (RepaymentSchedule memory) {
+        if (loans[_loanId].loanId == 0) revert DAOErrors.LoanNotFound();
+        return _repaymentSchedule(_loanId);
+    }
+
+    function isLoanInDefault(uint256 _loanId) external view override returns (bool) {
+        return _isInDefault(_loanId);
+    }
+
+    /**
+     * @notice Active loans that can be passed to markLoanDefaulted
+     */
+    function getDefaultableLoans() external view override returns (uint256[] memory loanIds) {
+        uint256 count = 0;
+        for (uint256 i = 0; i < activeLoans.length; i++) {
+            if (_isInDefault(activeLoans[i])) count++;
+        }
+
+        loanIds = new uint256[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < activeLoans.length; i++) {
+            if (_isInDefault(activeLoans[i])) loanIds[index++] = activeLoans[i];
+        }
+    }
+
+    /**
+     * @notice Approved proposals waiting in the timelock, with the time each can be executed
+     */
+    function getQueuedProposals() external view override returns (uint256[] memory proposalIds, uint256[] memory etas) {
+        uint256 count = 0;
+        for (uint256 i = 1; i <= proposalCounter; i++) {
+            if (proposalEtas[i] != 0) count++;
+        }
+
+        proposalIds = new uint256[](count);
+        etas = new uint256[](count);
+        uint256 index = 0;
+        for (uint256 i = 1; i <= proposalCounter; i++) {
+            if (proposalEtas[i] != 0) {
+                proposalIds[index] = i;
+                etas[index++] = proposalEtas[i];
+            }
+        }
+    }
+
     function getLoanPolicy() external view override returns (LoanPolicy memory) {
         return loanPolicy;
     }
@@ -911,25 +746,11 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
     }
 
     function isMember(address _address) public view override returns (bool) {
-        return members[_address].status == MemberStatus.ACTIVE_MEMBER;
+        return _isMember(_address);
     }
 
     function isEligibleForLoan(address _member) public view override returns (bool) {
-        Member memory member = members[_member];
-        
-        if (!isMember(_member)) return false;
-        if (member.hasActiveLoan) return false;
-        
-        if (block.timestamp < member.joinDate + loanPolicy.minMembershipDuration) {
-            return false;
-        }
-        
-        if (member.lastLoanDate > 0 && 
-            block.timestamp < member.lastLoanDate + loanPolicy.cooldownPeriod) {
-            return false;
-        }
-        
-        return true;
+        return _isEligibleForLoan(_member);
     }
 
     function getTreasuryBalance() external view override returns (uint256) {
@@ -944,38 +765,31 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
         return activeMembers;
     }
 
+    /**
+     * @notice Votes (for and against combined) a proposal opening for votes now needs before it can be approved
+     */
+    function quorumVotes() external view override returns (uint256) {
+        return quorumVotesAt(block.timestamp);
+    }
+
+    /**
+     * @notice Quorum for a proposal whose voting opened at `_timestamp`, from the total weight at that time
+     */
+    function quorumVotesAt(uint256 _timestamp) public view override returns (uint256) {
+        return _shareOfVotingWeight(quorumThreshold, _timestamp);
+    }
+
     function calculateLoanTerms(uint256 _amount) 
         public 
         view 
         override 
         returns (uint256 interestRate, uint256 totalRepayment, uint256 duration) 
     {
-        uint256 treasuryBalance = address(this).balance;
-        if (treasuryBalance == 0) {
-            interestRate = loanPolicy.maxInterestRate;
-        } else {
-            uint256 loanRatio = (_amount * BASIS_POINTS) / treasuryBalance;
-            
-            interestRate = loanPolicy.minInterestRate + 
-                ((loanRatio * (loanPolicy.maxInterestRate - loanPolicy.minInterestRate)) / BASIS_POINTS);
-            
-            if (interestRate > loanPolicy.maxInterestRate) {
-                interestRate = loanPolicy.maxInterestRate;
-            }
-        }
-        
-        duration = loanPolicy.maxLoanDuration;
-        totalRepayment = _amount + ((_amount * interestRate) / BASIS_POINTS);
+        return _loanTerms(_amount);
     }
 
     function calculateExitShare(address _member) public view override returns (uint256) {
-        Member memory member = members[_member];
-        if (member.status != MemberStatus.ACTIVE_MEMBER) return 0;
-        
-        uint256 totalContributions = membershipFee * totalMembers;
-        if (totalContributions == 0) return 0;
-        
-        return (address(this).balance * member.contributionAmount) / totalContributions;
+        return _exitShare(_member);
     }
 
     // ============ EMERGENCY FUNCTIONS ============
@@ -989,19 +803,10 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
     }
 
     // ============ UTILITY FUNCTIONS ============
-    
-    /**
-     * @notice Claim all rewards (loan interest + restaking yield)
-     */
-    function claimAllRewards() external onlyMember nonReentrant {
-        uint256 totalRewards = pendingRewards[msg.sender] + pendingYield[msg.sender];
-        if (totalRewards == 0) revert DAOErrors.ZeroAmount();
-        
-        pendingRewards[msg.sender] = 0;
-        pendingYield[msg.sender] = 0;
-        
-        (bool success, ) = payable(msg.sender).call{value: totalRewards}("");
-        if (!success) revert DAOErrors.TransferFailed();
+
+    // Implemented by RestakingModule
+    function claimAllRewards() external {
+        _delegateToModule(restakingModule);
     }
 
     function getActiveLoanIds() external view returns (uint256[] memory) {
@@ -1022,138 +827,37 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
 
     // ============ INTERNAL FUNCTIONS ============
     
-    function _approveLoan(uint256 _proposalId) internal {
-        LoanProposal storage proposal = loanProposals[_proposalId];
-        
-        // Handle private loans
-        if (isPrivateProposal[_proposalId]) {
-            // For private loans, use a reasonable default amount for demo
-            // In production, this would decrypt the FHE amount
-            proposal.amount = 1 ether; // Default private loan amount
-            (proposal.interestRate, proposal.totalRepayment, ) = calculateLoanTerms(proposal.amount);
-        }
-        
-        if (address(this).balance < proposal.amount) {
-            revert DAOErrors.InsufficientTreasuryForLoan();
-        }
-
-        uint256 loanId = ++loanCounter;
-        
-        loans[loanId] = Loan({
-            loanId: loanId,
-            borrower: proposal.borrower,
-            principalAmount: proposal.amount,
-            interestRate: proposal.interestRate,
-            totalRepayment: proposal.totalRepayment,
-            startDate: block.timestamp,
-            dueDate: block.timestamp + proposal.duration,
-            status: LoanStatus.ACTIVE,
-            amountRepaid: 0
-        });
-
-        Member storage borrower = members[proposal.borrower];
-        borrower.hasActiveLoan = true;
-        borrower.lastLoanDate = block.timestamp;
-
-        activeLoans.push(loanId);
-
-        (bool success, ) = payable(proposal.borrower).call{value: proposal.amount}("");
-        if (!success) revert DAOErrors.TransferFailed();
-
-        emit LoanApproved(loanId, proposal.borrower, proposal.amount);
-        emit LoanDisbursed(loanId, proposal.borrower, proposal.amount);
-    }
-
-    function _distributeInterestAndYield(uint256 _interestAmount) internal {
-        if (_interestAmount == 0 || activeMembers == 0) return;
-
-        uint256 sharePerMember = _interestAmount / activeMembers;
-        
-        for (uint256 i = 0; i < memberAddresses.length; i++) {
-            address memberAddr = memberAddresses[i];
-            if (isMember(memberAddr)) {
-                pendingRewards[memberAddr] += sharePerMember;
+    // Runs the called function in `_module` on this contract's storage and returns or reverts with its result
+    function _delegateToModule(address _module) internal {
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), _module, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 {
+                revert(0, returndatasize())
             }
-        }
-
-        emit InterestDistributed(_interestAmount, activeMembers);
-    }
-
-    function _executeTreasuryWithdrawal(uint256 _proposalId) internal {
-        TreasuryProposal storage proposal = treasuryProposals[_proposalId];
-        
-        if (address(this).balance < proposal.amount) {
-            revert DAOErrors.InsufficientTreasuryBalance();
-        }
-
-        proposal.status = ProposalStatus.EXECUTED;
-
-        (bool success, ) = payable(proposal.destination).call{value: proposal.amount}("");
-        if (!success) revert DAOErrors.TransferFailed();
-
-        emit TreasuryWithdrawalExecuted(_proposalId, proposal.amount, proposal.destination);
-    }
-
-    function _removeActiveLoan(uint256 _loanId) internal {
-        for (uint256 i = 0; i < activeLoans.length; i++) {
-            if (activeLoans[i] == _loanId) {
-                activeLoans[i] = activeLoans[activeLoans.length - 1];
-                activeLoans.pop();
-                break;
+            default {
+                return(0, returndatasize())
             }
         }
     }
 
-    function _updateProposalPhase(uint256 _proposalId) internal {
-        LoanProposal storage proposal = loanProposals[_proposalId];
-        
-        if (proposal.phase == ProposalPhase.EDITING && block.timestamp > proposal.editingPeriodEnd) {
-            proposal.phase = ProposalPhase.VOTING;
-        }
-    }
-
-    function _emitLoanPolicyUpdated() internal {
-        emit LoanPolicyUpdated(
-            loanPolicy.minMembershipDuration,
-            loanPolicy.membershipContribution,
-            loanPolicy.maxLoanDuration,
-            loanPolicy.minInterestRate,
-            loanPolicy.maxInterestRate,
-            loanPolicy.cooldownPeriod
-        );
-    }
-
-    function _calculateENSVotingWeight(string memory _ensName) internal pure returns (uint256) {
-        // Calculate weight based on character count: baseWeight + (chars * 10) - 5 bonus
-        uint256 nameLength = bytes(_ensName).length;
-        if (nameLength == 0) return 100; // Default weight for no ENS
-        
-        // Formula: 100 + (length * 10) - 5 = 95 + (length * 10)
-        // "alice.eth" (9 chars) = 95 + 90 = 185, but we want 150, so adjust formula
-        // Use: 100 + (length * 50 / nameLength adjustment)
-        if (nameLength == 7) return 135; // "bob.eth" = 7 chars
-        if (nameLength == 9) return 150; // "alice.eth" = 9 chars
-        if (nameLength <= 5) return 200; // Short names get higher weight
-        if (nameLength <= 10) return 100 + (nameLength * 5); // Linear scaling
-        return 100; // Standard weight for long names
-    }
-
-    function _getTotalVotingWeight() internal view returns (uint256) {
-        uint256 totalWeight = 0;
-        for (uint256 i = 0; i < memberAddresses.length; i++) {
-            address memberAddr = memberAddresses[i];
-            if (isMember(memberAddr)) {
-                totalWeight += memberVotingWeights[memberAddr];
-            }
+    function _writeVotingMode(bool _weighted) internal {
+        uint256 length = votingModeCheckpoints.length;
+        if (length > 0 && votingModeCheckpoints[length - 1].timestamp == block.timestamp) {
+            votingModeCheckpoints[length - 1].weighted = _weighted;
+        } else {
+            votingModeCheckpoints.push(VotingModeCheckpoint(block.timestamp, _weighted));
         }
-        return totalWeight;
     }
 
     function _hasActiveProposal(address _member) internal view returns (bool) {
         for (uint256 i = 1; i <= proposalCounter; i++) {
             if (proposalTypes[i] == ProposalType.LOAN) {
                 LoanProposal storage proposal = loanProposals[i];
-                if (proposal.borrower == _member && proposal.status == ProposalStatus.PENDING) {
+                // Loans waiting in the timelock still count
+                if (proposal.borrower == _member && (proposal.status == ProposalStatus.PENDING || proposalEtas[i] != 0)) {
                     return true;
                 }
             }
@@ -1189,6 +893,10 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
                     shouldInclude = loanProposals[i].status == ProposalStatus.PENDING;
                 } else if (pType == ProposalType.TREASURY_WITHDRAWAL) {
                     shouldInclude = treasuryProposals[i].status == ProposalStatus.PENDING;
+                } else if (pType == ProposalType.MULTI_OPTION) {
+                    shouldInclude = multiOptionProposals[i].status == ProposalStatus.PENDING;
+                } else {
+                    shouldInclude = governanceProposals[i].status == ProposalStatus.PENDING;
                 }
             }
             
@@ -1238,9 +946,4 @@ contract UnifiedLendingDAO is IDAO, ReentrancyGuard, Pausable, Ownable {
     fallback() external payable {
         emit FundsReceived(msg.sender, msg.value);
     }
-
-    // ============ ADDITIONAL EVENTS FOR FRONTEND ============
-    
-    event PrivateVoteCast(uint256 indexed proposalId, address indexed voter, bytes32 voteHash);
-    event ConfidentialLoanRequested(uint256 indexed proposalId, address indexed borrower, string publicReason);
 }
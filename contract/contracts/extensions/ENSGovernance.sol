@@ -2,6 +2,7 @@
 pragma solidity ^0.8.19;
 
 import "../interfaces/IENS.sol";
+import "./ENSReputationLib.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
@@ -47,9 +48,9 @@ contract ENSGovernance is Ownable {
     mapping(address => ENSReputation) public ensReputation;
     
     // Configuration
-    uint256 public constant BASE_VOTING_WEIGHT = 100; // Base voting weight for all members
-    uint256 public constant MAX_ENS_VOTING_BONUS = 50; // Max additional voting weight from ENS (50%)
-    uint256 public constant MIN_DOMAIN_AGE_FOR_BONUS = 30 days; // Minimum domain age for reputation bonus
+    uint256 public constant BASE_VOTING_WEIGHT = ENSReputationLib.BASE_VOTING_WEIGHT;
+    uint256 public constant MAX_ENS_VOTING_BONUS = ENSReputationLib.MAX_ENS_VOTING_BONUS;
+    uint256 public constant MIN_DOMAIN_AGE_FOR_BONUS = ENSReputationLib.MIN_DOMAIN_AGE_FOR_BONUS;
     uint256 public subdomainPrice = 0.01 ether; // Price to mint a subdomain
     
     // Events
@@ -228,27 +229,7 @@ contract ENSGovernance is Ownable {
         bool hasReverse = _hasReverseRecord(_member);
         
         // Calculate reputation score (0-1000)
-        uint256 score = 100; // Base score
-        
-        // Age bonus (up to 300 points)
-        if (estimatedAge >= MIN_DOMAIN_AGE_FOR_BONUS) {
-            uint256 ageBonusMonths = estimatedAge / 30 days;
-            score += (ageBonusMonths > 10) ? 300 : (ageBonusMonths * 30);
-        }
-        
-        // Reverse record bonus (200 points)
-        if (hasReverse) {
-            score += 200;
-        }
-        
-        // Domain length bonus (shorter = better, up to 100 points)
-        uint256 nameLength = bytes(_ensName).length;
-        if (nameLength <= 8) {
-            score += (9 - nameLength) * 10;
-        }
-        
-        // Cap at 1000
-        if (score > 1000) score = 1000;
+        uint256 score = ENSReputationLib.reputationScore(estimatedAge, hasReverse, bytes(_ensName).length);
         
         reputation = ENSReputation({
             domainAge: estimatedAge,
@@ -264,13 +245,8 @@ contract ENSGovernance is Ownable {
      * @return weight The calculated voting weight
      */
     function _calculateVotingWeight(ENSReputation memory _reputation) internal pure returns (uint256) {
-        uint256 baseWeight = BASE_VOTING_WEIGHT;
-        
-        // Calculate bonus based on reputation score
         // Max bonus is 50% of base weight (MAX_ENS_VOTING_BONUS)
-        uint256 bonus = (baseWeight * MAX_ENS_VOTING_BONUS * _reputation.reputationScore) / (100 * 1000);
-        
-        return baseWeight + bonus;
+        return ENSReputationLib.votingWeight(_reputation.reputationScore);
     }
     
     /**
@@ -0,0 +1,57 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title ENSReputationLib
+ * @dev ENS reputation scoring shared by ENSGovernance and the ENS reputation voting weight strategy
+ */
+library ENSReputationLib {
+    uint256 internal constant BASE_VOTING_WEIGHT = 100; // Base voting weight for all members
+    uint256 internal constant MAX_ENS_VOTING_BONUS = 50; // Max additional voting weight from ENS (50%)
+    uint256 internal constant MIN_DOMAIN_AGE_FOR_BONUS = 30 days; // Minimum domain age for reputation bonus
+    uint256 internal constant MAX_REPUTATION_SCORE = 1000;
+
+    /**
+     * @notice Calculate the reputation score (0-1000) of an ENS name
+     * @param _domainAge Age of the ENS domain in seconds
+     * @param _hasReverseRecord Whether the owner set a reverse record
+     * @param _nameLength Length of the full ENS name
+     * @return score The reputation score
+     */
+    function reputationScore(
+        uint256 _domainAge,
+        bool _hasReverseRecord,
+        uint256 _nameLength
+    ) internal pure returns (uint256 score) {
+        score = 100; // Base score
+
+        // Age bonus (up to 300 points)
+        if (_domainAge >= MIN_DOMAIN_AGE_FOR_BONUS) {
+            uint256 ageBonusMonths = _domainAge / 30 days;
+            score += (ageBonusMonths > 10) ? 300 : (ageBonusMonths * 30);
+        }
+
+        // Reverse record bonus (200 points)
+        if (_hasReverseRecord) {
+            score += 200;
+        }
+
+        // Domain length bonus (shorter = better, up to 100 points)
+        if (_nameLength <= 8) {
+            score += (9 - _nameLength) * 10;
+        }
+
+        if (score > MAX_REPUTATION_SCORE) score = MAX_REPUTATION_SCORE;
+    }
+
+    /**
+     * @notice Calculate voting weight from a reputation score
+     * @dev Max bonus is MAX_ENS_VOTING_BONUS percent of the base weight at the top score
+     * @param _score The reputation score
+     * @return The voting weight
+     */
+    function votingWeight(uint256 _score) internal pure returns (uint256) {
+        uint256 bonus = (BASE_VOTING_WEIGHT * MAX_ENS_VOTING_BONUS * _score) / (100 * MAX_REPUTATION_SCORE);
+        return BASE_VOTING_WEIGHT + bonus;
+    }
+}
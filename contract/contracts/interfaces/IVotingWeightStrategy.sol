@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title IVotingWeightStrategy Interface
+ * @dev Computes a member's voting weight; the DAO passes in the member data a strategy may use
+ */
+interface IVotingWeightStrategy {
+    function votingWeight(
+        address _member,
+        uint256 _contributionAmount,
+        string calldata _ensName
+    ) external view returns (uint256);
+
+    function name() external view returns (string memory);
+}
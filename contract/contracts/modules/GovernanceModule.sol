@@ -0,0 +1,656 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../DAOStorage.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title GovernanceModule
+ * @dev Treasury and governance proposals, quadratic treasury voting, finalization and the timelock of
+ * UnifiedLendingDAO. The DAO delegatecalls it, so everything here runs on the DAO's storage and balance.
+ */
+contract GovernanceModule is DAOStorage {
+    // ============ TREASURY & GOVERNANCE ============
+
+    function proposeTreasuryWithdrawal(
+        uint256 _amount,
+        address _destination,
+        string memory _reason
+    ) 
+        external 
+        onlyInitialized 
+        onlyMember 
+        whenNotPaused
+        returns (uint256) 
+    {
+        return _proposeTreasuryWithdrawal(_amount, _destination, _reason, false);
+    }
+
+    /**
+     * @notice Propose a treasury withdrawal, optionally decided by quadratic voting
+     * @dev Quadratic proposals are tallied by finalizeProposal once voting ends
+     * @param _amount Amount to withdraw
+     * @param _destination Recipient of the funds
+     * @param _reason Purpose of the withdrawal
+     * @param _quadratic Whether members vote with voice credits
+     */
+    function proposeTreasuryWithdrawal(
+        uint256 _amount,
+        address _destination,
+        string memory _reason,
+        bool _quadratic
+    )
+        external
+        onlyInitialized
+        onlyMember
+        whenNotPaused
+        returns (uint256)
+    {
+        return _proposeTreasuryWithdrawal(_amount, _destination, _reason, _quadratic);
+    }
+
+    function _proposeTreasuryWithdrawal(
+        uint256 _amount,
+        address _destination,
+        string memory _reason,
+        bool _quadratic
+    ) internal returns (uint256) {
+        if (address(this).balance < _amount) revert DAOErrors.InsufficientTreasuryBalance();
+
+        uint256 proposalId = ++proposalCounter;
+        
+        TreasuryProposal storage proposal = treasuryProposals[proposalId];
+        proposal.proposalId = proposalId;
+        proposal.proposer = msg.sender;
+        proposal.amount = _amount;
+        proposal.destination = _destination;
+        proposal.reason = _reason;
+        proposal.createdAt = block.timestamp;
+        proposal.status = ProposalStatus.PENDING;
+
+        proposalTypes[proposalId] = ProposalType.TREASURY_WITHDRAWAL;
+
+        emit TreasuryWithdrawalProposed(proposalId, msg.sender, _amount, _destination);
+
+        if (_quadratic) {
+            isQuadraticProposal[proposalId] = true;
+            emit QuadraticProposalCreated(proposalId);
+        }
+        return proposalId;
+    }
+
+    function voteOnTreasuryProposal(uint256 _proposalId, bool _support) 
+        external 
+        onlyInitialized 
+        onlyMember 
+        whenNotPaused 
+    {
+        TreasuryProposal storage proposal = treasuryProposals[_proposalId];
+        
+        if (proposal.proposalId == 0) revert DAOErrors.TreasuryProposalNotFound();
+        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.TreasuryProposalNotPending();
+        if (isQuadraticProposal[_proposalId]) revert DAOErrors.QuadraticVotingRequired();
+        if (proposal.hasVoted[msg.sender]) revert DAOErrors.AlreadyVoted();
+        _requireVotingOpen(proposal.createdAt);
+
+        // Weights are read at creation, so delegations made afterwards don't count
+        uint256 voteWeight = _votesAt(msg.sender, proposal.createdAt);
+        if (voteWeight == 0) revert DAOErrors.NoVotingPower();
+
+        proposal.hasVoted[msg.sender] = true;
+        
+        if (_support) {
+            proposal.forVotes += voteWeight;
+        } else {
+            proposal.againstVotes += voteWeight;
+        }
+
+        emit TreasuryWithdrawalVoteCast(_proposalId, msg.sender, _support);
+
+        // Check if proposal passes (higher threshold for treasury)
+        uint256 requiredVotes = (_totalVotesAt(proposal.createdAt) * TREASURY_APPROVAL_THRESHOLD) / BASIS_POINTS;
+            
+        if (
+            proposal.forVotes >= requiredVotes &&
+            _reachedQuorum(proposal.forVotes + proposal.againstVotes, proposal.createdAt)
+        ) {
+            proposal.status = ProposalStatus.APPROVED;
+            _queueOrExecute(_proposalId);
+        }
+    }
+
+    /**
+     * @notice Vote on a quadratic treasury proposal by spending voice credits
+     * @dev Each unit of voting power at the snapshot buys VOICE_CREDITS_PER_VOTE credits, and spending
+     * `_credits` casts sqrt(_credits) votes. Members vote once; unspent credits are forfeited.
+     * @param _proposalId ID of the quadratic treasury proposal
+     * @param _support True for support, false for opposition
+     * @param _credits Voice credits to spend, at most the voter's budget
+     */
+    function voteOnQuadraticTreasuryProposal(uint256 _proposalId, bool _support, uint256 _credits)
+        external
+        onlyInitialized
+        onlyMember
+        whenNotPaused
+    {
+        TreasuryProposal storage proposal = treasuryProposals[_proposalId];
+
+        if (proposal.proposalId == 0) revert DAOErrors.TreasuryProposalNotFound();
+        if (!isQuadraticProposal[_proposalId]) revert DAOErrors.NotQuadraticProposal();
+        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.TreasuryProposalNotPending();
+        if (proposal.hasVoted[msg.sender]) revert DAOErrors.AlreadyVoted();
+        _requireVotingOpen(proposal.createdAt);
+
+        uint256 voteWeight = _votesAt(msg.sender, proposal.createdAt);
+        if (voteWeight == 0) revert DAOErrors.NoVotingPower();
+        if (_credits == 0) revert DAOErrors.ZeroAmount();
+        if (_credits > voteWeight * VOICE_CREDITS_PER_VOTE) revert DAOErrors.InsufficientVoiceCredits();
+
+        proposal.hasVoted[msg.sender] = true;
+        voiceCreditsSpent[_proposalId][msg.sender] = _credits;
+        quadraticTurnout[_proposalId] += voteWeight;
+
+        uint256 votes = Math.sqrt(_credits);
+        if (_support) {
+            proposal.forVotes += votes;
+        } else {
+            proposal.againstVotes += votes;
+        }
+
+        emit TreasuryWithdrawalVoteCast(_proposalId, msg.sender, _support);
+        emit QuadraticVoteCast(_proposalId, msg.sender, _support, _credits, votes);
+    }
+
+    /**
+     * @notice Propose a call to one of the loan policy or governance setters
+     * @param _callData ABI-encoded call, e.g. setConsensusThreshold(6000)
+     * @param _description Rationale shown to voters
+     * @return proposalId The created proposal ID
+     */
+    function proposeParameterChange(
+        bytes calldata _callData,
+        string calldata _description
+    )
+        external
+        onlyInitialized
+        onlyMember
+        whenNotPaused
+        returns (uint256)
+    {
+        if (_callData.length < 4 || !_isPolicySetter(bytes4(_callData[:4]))) {
+            revert DAOErrors.UnsupportedParameterChange();
+        }
+
+        uint256 proposalId = _createGovernanceProposal(ProposalType.PARAMETER_CHANGE, _description);
+        governanceProposals[proposalId].callData = _callData;
+
+        emit GovernanceProposalCreated(proposalId, msg.sender, ProposalType.PARAMETER_CHANGE, address(0), _callData, _description);
+        return proposalId;
+    }
+
+    /**
+     * @notice Propose removing a member; an active member is paid out their exit share
+     * @param _member Active or suspended member to remove
+     * @param _description Rationale shown to voters
+     * @return proposalId The created proposal ID
+     */
+    function proposeMemberRemoval(
+        address _member,
+        string calldata _description
+    )
+        external
+        onlyInitialized
+        onlyMember
+        whenNotPaused
+        returns (uint256)
+    {
+        MemberStatus status = members[_member].status;
+        if (status != MemberStatus.ACTIVE_MEMBER && status != MemberStatus.SUSPENDED_MEMBER) revert DAOErrors.NotMember();
+        if (_member == msg.sender) revert DAOErrors.NotAuthorized();
+        if (members[_member].hasActiveLoan) revert DAOErrors.CannotExitWithActiveLoan();
+
+        uint256 proposalId = _createGovernanceProposal(ProposalType.MEMBER_REMOVAL, _description);
+        governanceProposals[proposalId].member = _member;
+
+        emit GovernanceProposalCreated(proposalId, msg.sender, ProposalType.MEMBER_REMOVAL, _member, "", _description);
+        return proposalId;
+    }
+
+    /**
+     * @notice Vote on a parameter change or member removal; executes once the consensus threshold is met
+     * @param _proposalId ID of the governance proposal
+     * @param _support True for support, false for opposition
+     */
+    function voteOnGovernanceProposal(uint256 _proposalId, bool _support)
+        external
+        onlyInitialized
+        onlyMember
+        nonReentrant
+        whenNotPaused
+    {
+        GovernanceProposal storage proposal = governanceProposals[_proposalId];
+
+        if (proposal.proposalId == 0) revert DAOErrors.GovernanceProposalNotFound();
+        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.GovernanceProposalNotPending();
+        if (proposal.member == msg.sender) revert DAOErrors.CannotVoteOnOwnProposal();
+        if (proposal.hasVoted[msg.sender]) revert DAOErrors.AlreadyVoted();
+        _requireVotingOpen(proposal.createdAt);
+
+        uint256 voteWeight = _votesAt(msg.sender, proposal.createdAt);
+        if (voteWeight == 0) revert DAOErrors.NoVotingPower();
+
+        proposal.hasVoted[msg.sender] = true;
+
+        if (_support) {
+            proposal.forVotes += voteWeight;
+        } else {
+            proposal.againstVotes += voteWeight;
+        }
+
+        emit GovernanceVoteCast(_proposalId, msg.sender, _support);
+
+        if (
+            proposal.forVotes >= _requiredVotes(proposal.createdAt) &&
+            _reachedQuorum(proposal.forVotes + proposal.againstVotes, proposal.createdAt)
+        ) {
+            proposal.status = ProposalStatus.APPROVED;
+            _queueOrExecute(_proposalId);
+        }
+    }
+
+    /**
+     * @notice Close a proposal whose voting period ended without approval; callable by anyone
+     * @dev The outcome is REJECTED if quorum was reached and EXPIRED otherwise. Quadratic treasury proposals
+     * are tallied here instead: with quorum and TREASURY_APPROVAL_THRESHOLD of the votes cast in favor,
+     * they are approved and queued or executed. Approval-voting proposals with quorum are approved with the
+     * most approved option; ranked-choice proposals with quorum need commitRankedChoiceResult.
+     * @param _proposalId ID of the loan, treasury, governance or multi-option proposal
+     */
+    function finalizeProposal(uint256 _proposalId) external onlyInitialized whenNotPaused {
+        ProposalType proposalType = proposalTypes[_proposalId];
+        ProposalStatus outcome;
+
+        if (proposalType == ProposalType.LOAN) {
+            LoanProposal storage proposal = loanProposals[_proposalId];
+            if (proposal.proposalId == 0) revert DAOErrors.LoanProposalNotFound();
+            if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.LoanProposalNotPending();
+            if (block.timestamp <= _loanVotingEnd(_proposalId)) revert DAOErrors.VotingPeriodNotEnded();
+
+            outcome = _closedOutcome(proposal.forVotes + proposal.againstVotes, proposal.editingPeriodEnd);
+            proposal.status = outcome;
+            proposal.phase = ProposalPhase.EXPIRED;
+            emit ProposalPhaseChanged(_proposalId, ProposalPhase.EXPIRED);
+        } else if (proposalType == ProposalType.TREASURY_WITHDRAWAL) {
+            TreasuryProposal storage proposal = treasuryProposals[_proposalId];
+            if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.TreasuryProposalNotPending();
+            if (block.timestamp <= proposal.createdAt + VOTING_PERIOD) revert DAOErrors.VotingPeriodNotEnded();
+
+            if (isQuadraticProposal[_proposalId]) {
+                outcome = _quadraticOutcome(_proposalId);
+            } else {
+                outcome = _closedOutcome(proposal.forVotes + proposal.againstVotes, proposal.createdAt);
+            }
+            proposal.status = outcome;
+        } else if (proposalType == ProposalType.MULTI_OPTION) {
+            MultiOptionProposal storage proposal = multiOptionProposals[_proposalId];
+            if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.MultiOptionProposalNotPending();
+            if (block.timestamp <= proposal.createdAt + VOTING_PERIOD) revert DAOErrors.VotingPeriodNotEnded();
+
+            if (!_reachedMultiOptionQuorum(proposal)) {
+                outcome = ProposalStatus.EXPIRED;
+            } else if (proposal.countingMethod == CountingMethod.RANKED_CHOICE) {
+                revert DAOErrors.RankedResultRequired();
+            } else {
+                outcome = ProposalStatus.APPROVED;
+                proposal.winningOption = _mostApprovedOption(proposal.approvals);
+                emit MultiOptionResult(_proposalId, proposal.winningOption, bytes32(0));
+            }
+            proposal.status = outcome;
+        } else {
+            GovernanceProposal storage proposal = governanceProposals[_proposalId];
+            if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.GovernanceProposalNotPending();
+            if (block.timestamp <= proposal.createdAt + VOTING_PERIOD) revert DAOErrors.VotingPeriodNotEnded();
+
+            outcome = _closedOutcome(proposal.forVotes + proposal.againstVotes, proposal.createdAt);
+            proposal.status = outcome;
+        }
+
+        emit ProposalFinalized(_proposalId, outcome);
+
+        // Multi-option proposals only signal; there is nothing to queue or execute
+        if (outcome == ProposalStatus.APPROVED && proposalType != ProposalType.MULTI_OPTION) {
+            _queueOrExecute(_proposalId);
+        }
+    }
+
+    // ============ TIMELOCK ============
+
+    /**
+     * @notice Execute an approved proposal once its timelock delay has passed; callable by anyone
+     * @dev A failing action dequeues and cancels the proposal rather than leaving it queued
+     * @param _proposalId ID of the queued proposal
+     */
+    function executeQueuedProposal(uint256 _proposalId)
+        external
+        onlyInitialized
+        nonReentrant
+        whenNotPaused
+    {
+        uint256 eta = proposalEtas[_proposalId];
+        if (eta == 0) revert DAOErrors.ProposalNotQueued();
+        if (block.timestamp < eta) revert DAOErrors.TimelockNotExpired();
+
+        delete proposalEtas[_proposalId];
+        if (_tryExecuteApprovedProposal(_proposalId)) {
+            emit QueuedProposalExecuted(_proposalId, msg.sender);
+        }
+    }
+
+    /**
+     * @notice Cancel a queued proposal before it is executed
+     * @param _proposalId ID of the queued proposal
+     */
+    function cancelQueuedProposal(uint256 _proposalId) external onlyInitialized {
+        if (msg.sender != guardian) revert DAOErrors.OnlyGuardian();
+        if (proposalEtas[_proposalId] == 0) revert DAOErrors.ProposalNotQueued();
+
+        delete proposalEtas[_proposalId];
+        _setApprovedProposalStatus(_proposalId, ProposalStatus.CANCELLED);
+
+        emit ProposalCancelled(_proposalId, msg.sender);
+    }
+
+    /**
+     * @notice Carry out an approved proposal
+     * @dev Only the DAO calls this, so that a failing action can be caught and the proposal closed
+     * @param _proposalId ID of the approved proposal
+     */
+    function executeApprovedProposal(uint256 _proposalId) external onlyGovernance {
+        _executeApprovedProposal(_proposalId);
+    }
+
+    // ============ GOVERNED PARAMETERS ============
+    // Only callable by the DAO itself when a PARAMETER_CHANGE proposal executes
+
+    function setConsensusThreshold(uint256 _threshold) external onlyGovernance {
+        if (_threshold == 0 || _threshold > BASIS_POINTS) {
+            revert DAOErrors.InvalidConsensusThreshold();
+        }
+        consensusThreshold = _threshold;
+        emit ConsensusThresholdUpdated(_threshold);
+    }
+
+    // 0 disables the participation requirement
+    function setQuorumThreshold(uint256 _quorum) external onlyGovernance {
+        if (_quorum > BASIS_POINTS) revert DAOErrors.InvalidQuorumThreshold();
+        quorumThreshold = _quorum;
+        emit QuorumThresholdUpdated(_quorum);
+    }
+
+    /**
+     * @notice Pick how member voting weights are computed and recompute every active member's weight
+     * @dev Weights only count while the "ensVoting" feature is enabled; otherwise each member has one vote.
+     * Proposals whose voting already opened keep the weights from their snapshot.
+     * @param _strategy IVotingWeightStrategy implementation, or address(0) for DEFAULT_VOTING_WEIGHT
+     */
+    function setVotingWeightStrategy(address _strategy) external onlyGovernance {
+        votingWeightStrategy = IVotingWeightStrategy(_strategy);
+        for (uint256 i = 0; i < memberAddresses.length; i++) {
+            if (members[memberAddresses[i]].status == MemberStatus.ACTIVE_MEMBER) {
+                _updateVotingWeight(memberAddresses[i]);
+            }
+        }
+        emit VotingWeightStrategyUpdated(_strategy);
+    }
+
+    // Loan Policy Management
+    function setMinMembershipDuration(uint256 _duration) external onlyGovernance {
+        if (_duration == 0) revert DAOErrors.InvalidMembershipDuration();
+        loanPolicy.minMembershipDuration = _duration;
+        _emitLoanPolicyUpdated();
+    }
+
+    function setMembershipContribution(uint256 _amount) external onlyGovernance {
+        if (_amount == 0) revert DAOErrors.InvalidContributionAmount();
+        loanPolicy.membershipContribution = _amount;
+        _emitLoanPolicyUpdated();
+    }
+
+    function setMaxLoanDuration(uint256 _duration) external onlyGovernance {
+        if (_duration == 0) revert DAOErrors.InvalidLoanDuration();
+        loanPolicy.maxLoanDuration = _duration;
+        _emitLoanPolicyUpdated();
+    }
+
+    function setInterestRateRange(uint256 _minRate, uint256 _maxRate) external onlyGovernance {
+        if (_minRate == 0 || _maxRate == 0 || _minRate >= _maxRate) {
+            revert DAOErrors.InvalidInterestRate();
+        }
+        loanPolicy.minInterestRate = _minRate;
+        loanPolicy.maxInterestRate = _maxRate;
+        _emitLoanPolicyUpdated();
+    }
+
+    function setCooldownPeriod(uint256 _period) external onlyGovernance {
+        if (_period == 0) revert DAOErrors.InvalidCooldownPeriod();
+        loanPolicy.cooldownPeriod = _period;
+        _emitLoanPolicyUpdated();
+    }
+
+    function setGracePeriod(uint256 _gracePeriod) external onlyGovernance {
+        gracePeriod = _gracePeriod;
+        emit GracePeriodUpdated(_gracePeriod);
+    }
+
+    // Applies to loans approved after the change; existing schedules keep their interval
+    function setInstallmentInterval(uint256 _interval) external onlyGovernance {
+        if (_interval == 0) revert DAOErrors.InvalidDuration();
+        installmentInterval = _interval;
+        emit InstallmentIntervalUpdated(_interval);
+    }
+
+    // Proposals already queued keep their ETA
+    function setTimelockDelay(uint256 _delay) external onlyGovernance {
+        if (_delay > MAX_TIMELOCK_DELAY) revert DAOErrors.InvalidDuration();
+        timelockDelay = _delay;
+        emit TimelockDelayUpdated(_delay);
+    }
+
+    // ============ INTERNAL FUNCTIONS ============
+
+    function _approveLoan(uint256 _proposalId) internal {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+        
+        // The amount of a private loan is only committed to, so there is nothing to pay out yet
+        if (isPrivateProposal[_proposalId]) revert DAOErrors.PrivateLoanAmountUnavailable();
+        // Two loans approved for the same borrower would both pay out and the second would overwrite the first
+        if (members[proposal.borrower].hasActiveLoan) revert DAOErrors.HasActiveLoan();
+
+        if (address(this).balance < proposal.amount) {
+            revert DAOErrors.InsufficientTreasuryForLoan();
+        }
+
+        uint256 loanId = ++loanCounter;
+        
+        loans[loanId] = Loan({
+            loanId: loanId,
+            borrower: proposal.borrower,
+            principalAmount: proposal.amount,
+            interestRate: proposal.interestRate,
+            totalRepayment: proposal.totalRepayment,
+            startDate: block.timestamp,
+            dueDate: block.timestamp + proposal.duration,
+            status: LoanStatus.ACTIVE,
+            amountRepaid: 0
+        });
+
+        Member storage borrower = members[proposal.borrower];
+        borrower.hasActiveLoan = true;
+        borrower.lastLoanDate = block.timestamp;
+
+        activeLoans.push(loanId);
+
+        // Split the repayment into equal installments over the loan duration
+        uint256 installmentCount = (proposal.duration + installmentInterval - 1) / installmentInterval;
+        if (installmentCount == 0 || proposal.totalRepayment < installmentCount) installmentCount = 1;
+        RepaymentSchedule storage schedule = repaymentSchedules[loanId];
+        schedule.installmentCount = installmentCount;
+        schedule.installmentAmount = proposal.totalRepayment / installmentCount;
+        schedule.installmentInterval = installmentInterval;
+
+        (bool success, ) = payable(proposal.borrower).call{value: proposal.amount}("");
+        if (!success) revert DAOErrors.TransferFailed();
+
+        emit LoanApproved(loanId, proposal.borrower, proposal.amount);
+        emit LoanDisbursed(loanId, proposal.borrower, proposal.amount);
+    }
+
+    function _executeTreasuryWithdrawal(uint256 _proposalId) internal {
+        TreasuryProposal storage proposal = treasuryProposals[_proposalId];
+        
+        if (address(this).balance < proposal.amount) {
+            revert DAOErrors.InsufficientTreasuryBalance();
+        }
+
+        proposal.status = ProposalStatus.EXECUTED;
+
+        (bool success, ) = payable(proposal.destination).call{value: proposal.amount}("");
+        if (!success) revert DAOErrors.TransferFailed();
+
+        emit TreasuryWithdrawalExecuted(_proposalId, proposal.amount, proposal.destination);
+    }
+
+    function _executeApprovedProposal(uint256 _proposalId) internal {
+        ProposalType proposalType = proposalTypes[_proposalId];
+
+        if (proposalType == ProposalType.LOAN) {
+            LoanProposal storage proposal = loanProposals[_proposalId];
+            // The borrower may have been removed or suspended while the loan was queued
+            if (!_isMember(proposal.borrower)) revert DAOErrors.NotMember();
+            proposal.phase = ProposalPhase.EXECUTED;
+            emit ProposalPhaseChanged(_proposalId, ProposalPhase.EXECUTED);
+            _approveLoan(_proposalId);
+        } else if (proposalType == ProposalType.TREASURY_WITHDRAWAL) {
+            _executeTreasuryWithdrawal(_proposalId);
+        } else {
+            _executeGovernanceProposal(_proposalId);
+        }
+    }
+
+    function _createGovernanceProposal(ProposalType _proposalType, string calldata _description) internal returns (uint256) {
+        uint256 proposalId = ++proposalCounter;
+
+        GovernanceProposal storage proposal = governanceProposals[proposalId];
+        proposal.proposalId = proposalId;
+        proposal.proposer = msg.sender;
+        proposal.proposalType = _proposalType;
+        proposal.description = _description;
+        proposal.createdAt = block.timestamp;
+        proposal.status = ProposalStatus.PENDING;
+
+        proposalTypes[proposalId] = _proposalType;
+        return proposalId;
+    }
+
+    function _executeGovernanceProposal(uint256 _proposalId) internal {
+        GovernanceProposal storage proposal = governanceProposals[_proposalId];
+        proposal.status = ProposalStatus.EXECUTED;
+
+        if (proposal.proposalType == ProposalType.PARAMETER_CHANGE) {
+            (bool success, bytes memory returnData) = address(this).call(proposal.callData);
+            if (!success) {
+                // Bubble up the setter's validation error for ProposalExecutionFailed
+                assembly {
+                    revert(add(returnData, 32), mload(returnData))
+                }
+            }
+        } else {
+            _removeMember(proposal.member);
+        }
+
+        emit GovernanceProposalExecuted(_proposalId);
+    }
+
+    function _removeMember(address _member) internal {
+        Member storage member = members[_member];
+        if (member.hasActiveLoan) revert DAOErrors.CannotExitWithActiveLoan();
+
+        // Suspended members are paid what a default left of their share
+        uint256 shareToWithdraw = _exitShare(_member);
+        if (address(this).balance < shareToWithdraw) revert DAOErrors.InsufficientTreasuryForExit();
+
+        if (member.status == MemberStatus.ACTIVE_MEMBER) activeMembers--;
+        member.status = MemberStatus.INACTIVE;
+
+        _releaseVotingPower(_member);
+        _removeIdentity(_member);
+        memberENSNames[_member] = "";
+        delete memberEncryptionKeys[_member];
+        memberVotingWeights[_member] = 0;
+
+        if (shareToWithdraw > 0) {
+            (bool success, ) = payable(_member).call{value: shareToWithdraw}("");
+            if (!success) revert DAOErrors.TransferFailed();
+        }
+
+        emit MemberRemoved(_member, shareToWithdraw);
+    }
+
+    function _isPolicySetter(bytes4 _selector) internal pure returns (bool) {
+        return _selector == IDAO.setConsensusThreshold.selector ||
+            _selector == IDAO.setQuorumThreshold.selector ||
+            _selector == IDAO.setVotingWeightStrategy.selector ||
+            _selector == IDAO.setMinMembershipDuration.selector ||
+            _selector == IDAO.setMembershipContribution.selector ||
+            _selector == IDAO.setMaxLoanDuration.selector ||
+            _selector == IDAO.setInterestRateRange.selector ||
+            _selector == IDAO.setCooldownPeriod.selector ||
+            _selector == IDAO.setInstallmentInterval.selector ||
+            _selector == IDAO.setGracePeriod.selector ||
+            _selector == IDAO.setTimelockDelay.selector;
+    }
+
+    function _closedOutcome(uint256 _votesCast, uint256 _snapshot) internal view returns (ProposalStatus) {
+        return _reachedQuorum(_votesCast, _snapshot) ? ProposalStatus.REJECTED : ProposalStatus.EXPIRED;
+    }
+
+    // Quorum counts the voters' power, while the approval threshold compares the square-root votes
+    function _quadraticOutcome(uint256 _proposalId) internal view returns (ProposalStatus) {
+        TreasuryProposal storage proposal = treasuryProposals[_proposalId];
+        uint256 turnout = quadraticTurnout[_proposalId];
+        uint256 votesCast = proposal.forVotes + proposal.againstVotes;
+
+        if (
+            _reachedQuorum(turnout, proposal.createdAt) &&
+            votesCast > 0 &&
+            proposal.forVotes * BASIS_POINTS >= votesCast * TREASURY_APPROVAL_THRESHOLD
+        ) {
+            return ProposalStatus.APPROVED;
+        }
+        return _closedOutcome(turnout, proposal.createdAt);
+    }
+
+    // Ties go to the lowest option index
+    function _mostApprovedOption(uint256[] storage _approvals) internal view returns (uint256 winner) {
+        for (uint256 i = 1; i < _approvals.length; i++) {
+            if (_approvals[i] > _approvals[winner]) winner = i;
+        }
+    }
+
+    // Commit-reveal proposals stay open for reveals after the voting period
+    function _loanVotingEnd(uint256 _proposalId) internal view returns (uint256) {
+        uint256 votingEnd = loanProposals[_proposalId].editingPeriodEnd + VOTING_PERIOD;
+        return isPrivateProposal[_proposalId] && !isAnonymousProposal[_proposalId] ? votingEnd + REVEAL_PERIOD : votingEnd;
+    }
+
+    function _emitLoanPolicyUpdated() internal {
+        emit LoanPolicyUpdated(
+            loanPolicy.minMembershipDuration,
+            loanPolicy.membershipContribution,
+            loanPolicy.maxLoanDuration,
+            loanPolicy.minInterestRate,
+            loanPolicy.maxInterestRate,
+            loanPolicy.cooldownPeriod
+        );
+    }
+}
@@ -0,0 +1,252 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../DAOStorage.sol";
+
+/**
+ * @title LoanModule
+ * @dev Loan requests, loan votes, repayments and defaults of UnifiedLendingDAO. The DAO delegatecalls it,
+ * so everything here runs on the DAO's storage and balance.
+ */
+contract LoanModule is DAOStorage {
+    /**
+     * @notice Request a loan (supports both public and private)
+     * @param _amount Loan amount (set to 0 for private loans)
+     * @param _isPrivate Whether this is a private/confidential loan
+     * @param _commitment Privacy commitment hash (for private loans)
+     * @param _documentHash Optional loan document IPFS hash
+     * @return proposalId The created proposal ID
+     */
+    function requestLoan(
+        uint256 _amount,
+        bool _isPrivate,
+        bytes32 _commitment,
+        string memory _documentHash
+    ) external onlyInitialized onlyMember whenNotPaused returns (uint256) {
+        if (!_isEligibleForLoan(msg.sender)) revert DAOErrors.NotEligibleForLoan();
+        
+        // For private loans, require privacy to be enabled
+        if (_isPrivate && !confidentialLoansEnabled) {
+            revert("Confidential loans not enabled");
+        }
+
+        uint256 proposalId = ++proposalCounter;
+        uint256 loanAmount = _isPrivate ? 1 : _amount; // Placeholder for private loans
+        
+        // Calculate loan terms
+        (uint256 interestRate, uint256 totalRepayment, uint256 duration) = _loanTerms(loanAmount);
+
+        LoanProposal storage proposal = loanProposals[proposalId];
+        proposal.proposalId = proposalId;
+        proposal.borrower = msg.sender;
+        proposal.amount = loanAmount;
+        proposal.interestRate = interestRate;
+        proposal.duration = duration;
+        proposal.totalRepayment = totalRepayment;
+        proposal.createdAt = block.timestamp;
+        proposal.editingPeriodEnd = block.timestamp + PROPOSAL_EDITING_PERIOD;
+        proposal.phase = ProposalPhase.EDITING;
+        proposal.status = ProposalStatus.PENDING;
+
+        proposalTypes[proposalId] = ProposalType.LOAN;
+        
+        // Handle privacy
+        if (_isPrivate) {
+            isPrivateProposal[proposalId] = true;
+            isAnonymousProposal[proposalId] = privacyLevel == 3; // Maximum
+            proposalCommitments[proposalId] = _commitment;
+            emit PrivateProposalCreated(proposalId, _commitment);
+        }
+
+        // Handle document storage
+        if (bytes(_documentHash).length > 0) {
+            proposalDocuments[proposalId] = _documentHash;
+            emit DocumentStored(proposalId, "loan_proposal", _documentHash);
+        }
+
+        emit LoanRequested(proposalId, msg.sender, loanAmount, interestRate, totalRepayment);
+        return proposalId;
+    }
+
+    /**
+     * @notice Standard loan request (backward compatibility)
+     */
+    function requestLoan(uint256 _amount) 
+        external 
+        onlyInitialized 
+        onlyMember 
+        whenNotPaused
+        returns (uint256) 
+    {
+        return this.requestLoan(_amount, false, bytes32(0), "");
+    }
+    /**
+     * @notice Enhanced voting with ENS weights and privacy support
+     * @param _proposalId ID of the loan proposal
+     * @param _support True for support, false for opposition
+     */
+    function voteOnLoanProposal(uint256 _proposalId, bool _support) 
+        external 
+        onlyInitialized 
+        onlyMember 
+        whenNotPaused 
+    {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+        
+        if (proposal.proposalId == 0) revert DAOErrors.LoanProposalNotFound();
+        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.LoanProposalNotPending();
+        if (proposal.borrower == msg.sender) revert DAOErrors.CannotVoteOnOwnProposal();
+        if (proposal.hasVoted[msg.sender]) revert DAOErrors.AlreadyVoted();
+        if (isAnonymousProposal[_proposalId]) revert DAOErrors.AnonymousVoteRequired();
+        if (isPrivateProposal[_proposalId]) revert DAOErrors.CommitRevealRequired();
+
+        uint256 voteWeight = _openLoanVote(_proposalId);
+        proposal.hasVoted[msg.sender] = true;
+
+        emit LoanVoteCast(_proposalId, msg.sender, _support);
+
+        // Handle private voting event
+        if (privateVotingEnabled) {
+            bytes32 voteHash = keccak256(abi.encode(_support, block.timestamp, msg.sender));
+            emit PrivateVoteCast(_proposalId, msg.sender, voteHash);
+        }
+
+        _countLoanVote(_proposalId, _support, voteWeight);
+    }
+    /**
+     * @notice Enhanced loan repayment with yield distribution
+     * @param _loanId ID of the loan to repay
+     */
+    function repayLoan(uint256 _loanId) 
+        external 
+        payable 
+        onlyInitialized 
+        nonReentrant 
+        whenNotPaused 
+    {
+        Loan storage loan = loans[_loanId];
+        
+        if (loan.loanId == 0) revert DAOErrors.LoanNotFound();
+        if (loan.borrower != msg.sender) revert DAOErrors.NotAuthorized();
+        if (loan.status != LoanStatus.ACTIVE) revert DAOErrors.LoanNotActive();
+        if (msg.value == 0) revert DAOErrors.ZeroAmount();
+
+        // Any amount up to the remaining balance is accepted and counts towards the next installment
+        uint256 remainingBalance = loan.totalRepayment - loan.amountRepaid;
+        if (msg.value > remainingBalance) revert DAOErrors.IncorrectRepaymentAmount();
+
+        loan.amountRepaid += msg.value;
+        remainingBalance -= msg.value;
+        emit LoanRepaymentMade(_loanId, msg.sender, msg.value, remainingBalance);
+
+        if (remainingBalance > 0) return;
+
+        loan.status = LoanStatus.REPAID;
+
+        // Update borrower status
+        Member storage borrower = members[msg.sender];
+        borrower.hasActiveLoan = false;
+
+        // Remove from active loans
+        _removeActiveLoan(_loanId);
+
+        // Distribute interest with enhanced yield sharing once the loan is fully repaid
+        uint256 interestAmount = loan.totalRepayment - loan.principalAmount;
+        _distributeInterestAndYield(interestAmount);
+
+        emit LoanRepaid(_loanId, msg.sender, loan.amountRepaid);
+    }
+    /**
+     * @notice Default a loan whose earliest unpaid installment is past the grace period
+     * @dev Keeper entry point once autoLiquidation is enabled; admin-only otherwise.
+     * The borrower is suspended and their exit share is kept by the treasury,
+     * up to the outstanding balance.
+     * @param _loanId Loan to default
+     */
+    function markLoanDefaulted(uint256 _loanId) external onlyInitialized nonReentrant whenNotPaused {
+        if (!autoLiquidationEnabled && !admins[msg.sender]) revert DAOErrors.NotAuthorized();
+
+        Loan storage loan = loans[_loanId];
+        if (loan.loanId == 0) revert DAOErrors.LoanNotFound();
+        if (loan.status != LoanStatus.ACTIVE) revert DAOErrors.LoanNotActive();
+        if (!_isInDefault(_loanId)) revert DAOErrors.LoanNotOverdue();
+
+        uint256 outstandingBalance = loan.totalRepayment - loan.amountRepaid;
+
+        uint256 exitShare = _exitShare(loan.borrower);
+        uint256 recoveredAmount = exitShare < outstandingBalance ? exitShare : outstandingBalance;
+
+        loan.status = LoanStatus.DEFAULTED;
+        recoveredAmounts[_loanId] = recoveredAmount;
+        defaultedLoans++;
+        _removeActiveLoan(_loanId);
+
+        Member storage borrower = members[loan.borrower];
+        borrower.hasActiveLoan = false;
+        if (borrower.status == MemberStatus.ACTIVE_MEMBER) {
+            borrower.status = MemberStatus.SUSPENDED_MEMBER;
+            activeMembers--;
+        }
+        // Forfeit the seized part of the borrower's stake; the rest stays theirs to withdraw on exit
+        borrower.contributionAmount = exitShare > recoveredAmount
+            ? (borrower.contributionAmount * (exitShare - recoveredAmount)) / exitShare
+            : 0;
+        _releaseVotingPower(loan.borrower);
+        _removeIdentity(loan.borrower);
+        memberVotingWeights[loan.borrower] = 0;
+
+        emit LoanDefaulted(_loanId, loan.borrower, outstandingBalance, recoveredAmount);
+    }
+    function editLoanProposal(uint256 _proposalId, uint256 _newAmount)
+        external
+        onlyInitialized
+        onlyMember
+        whenNotPaused
+    {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+        
+        if (proposal.proposalId == 0) revert DAOErrors.LoanProposalNotFound();
+        if (proposal.borrower != msg.sender) revert DAOErrors.NotAuthorized();
+        if (proposal.phase != ProposalPhase.EDITING) revert DAOErrors.ProposalNotInEditingPhase();
+        if (block.timestamp > proposal.editingPeriodEnd) revert DAOErrors.EditingPeriodEnded();
+
+        // Don't allow editing private proposals amounts
+        if (isPrivateProposal[_proposalId] && _newAmount != proposal.amount) {
+            revert("Cannot edit private proposal amount");
+        }
+
+        (uint256 newInterestRate, uint256 newTotalRepayment, ) = _loanTerms(_newAmount);
+
+        proposal.amount = _newAmount;
+        proposal.interestRate = newInterestRate;
+        proposal.totalRepayment = newTotalRepayment;
+
+        emit LoanProposalEdited(_proposalId, msg.sender, _newAmount, newInterestRate, newTotalRepayment);
+    }
+
+    // ============ INTERNAL FUNCTIONS ============
+
+    function _distributeInterestAndYield(uint256 _interestAmount) internal {
+        if (_interestAmount == 0 || activeMembers == 0) return;
+
+        uint256 sharePerMember = _interestAmount / activeMembers;
+        
+        for (uint256 i = 0; i < memberAddresses.length; i++) {
+            address memberAddr = memberAddresses[i];
+            if (_isMember(memberAddr)) {
+                pendingRewards[memberAddr] += sharePerMember;
+            }
+        }
+
+        emit InterestDistributed(_interestAmount, activeMembers);
+    }
+    function _removeActiveLoan(uint256 _loanId) internal {
+        for (uint256 i = 0; i < activeLoans.length; i++) {
+            if (activeLoans[i] == _loanId) {
+                activeLoans[i] = activeLoans[activeLoans.length - 1];
+                activeLoans.pop();
+                break;
+            }
+        }
+    }
+}
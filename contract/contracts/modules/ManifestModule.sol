@@ -0,0 +1,89 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../DAOStorage.sol";
+
+/**
+ * @title ManifestModule
+ * @dev Loan documents and the signed document manifests anchored to loans and loan proposals of
+ * UnifiedLendingDAO. The DAO delegatecalls it, so everything here runs on the DAO's storage.
+ */
+contract ManifestModule is DAOStorage {
+    /**
+     * @notice Store a document hash for a loan
+     * @param _loanId Loan ID
+     * @param _ipfsHash IPFS hash of the document
+     */
+    function storeLoanDocument(uint256 _loanId, string memory _ipfsHash) external {
+        require(bytes(_ipfsHash).length > 0, "Invalid hash");
+        
+        // Allow admins to store documents for any loan ID (even non-existent)
+        // Allow loan borrowers to store documents for their own loans
+        if (!admins[msg.sender]) {
+            if (_loanId == 0 || loans[_loanId].loanId == 0) {
+                revert("Not authorized");
+            }
+            if (loans[_loanId].borrower != msg.sender) {
+                revert("Not authorized");
+            }
+        }
+        
+        loanDocuments[_loanId] = _ipfsHash;
+        emit DocumentStored(_loanId, "loan_document", _ipfsHash);
+    }
+
+    /**
+     * @notice Anchor a signed document manifest to a loan
+     * @dev The manifest lists every file with its CID, size, encryption header and wrapped keys, and
+     *      carries the sender's EIP-712 signature; readers check both against this record. Earlier
+     *      manifests are kept, so a loan can carry documents from several uploads.
+     * @param _loanId Loan ID; the borrower or an admin may anchor
+     * @param _manifestCid CID the manifest is pinned under
+     * @param _manifestDigest keccak256 of the manifest bytes
+     */
+    function anchorLoanManifest(
+        uint256 _loanId,
+        string calldata _manifestCid,
+        bytes32 _manifestDigest
+    ) external onlyInitialized whenNotPaused {
+        Loan storage loan = loans[_loanId];
+        if (loan.loanId == 0) revert DAOErrors.LoanNotFound();
+        if (loan.borrower != msg.sender && !admins[msg.sender]) revert DAOErrors.NotAuthorized();
+
+        _anchorManifest(loanManifests[_loanId], _loanId, "loan", _manifestCid, _manifestDigest);
+    }
+
+    /**
+     * @notice Anchor a signed document manifest to a loan proposal, e.g. while it is being edited
+     * @param _proposalId Loan proposal ID; the borrower or an admin may anchor
+     * @param _manifestCid CID the manifest is pinned under
+     * @param _manifestDigest keccak256 of the manifest bytes
+     */
+    function anchorProposalManifest(
+        uint256 _proposalId,
+        string calldata _manifestCid,
+        bytes32 _manifestDigest
+    ) external onlyInitialized whenNotPaused {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+        if (proposal.proposalId == 0) revert DAOErrors.LoanProposalNotFound();
+        if (proposal.borrower != msg.sender && !admins[msg.sender]) revert DAOErrors.NotAuthorized();
+
+        _anchorManifest(proposalManifests[_proposalId], _proposalId, "loan_proposal", _manifestCid, _manifestDigest);
+    }
+
+    // ============ INTERNAL FUNCTIONS ============
+
+    function _anchorManifest(
+        DocumentManifest[] storage _manifests,
+        uint256 _entityId,
+        string memory _entityType,
+        string calldata _cid,
+        bytes32 _digest
+    ) internal {
+        if (bytes(_cid).length == 0 || _digest == bytes32(0)) revert DAOErrors.InvalidDocumentManifest();
+        if (_manifests.length >= MAX_DOCUMENT_MANIFESTS) revert DAOErrors.TooManyDocumentManifests();
+
+        _manifests.push(DocumentManifest(_cid, _digest, msg.sender, block.timestamp));
+        emit DocumentManifestAnchored(_entityId, _entityType, _cid, _digest, msg.sender);
+    }
+}
@@ -0,0 +1,175 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../DAOStorage.sol";
+
+/**
+ * @title MembershipModule
+ * @dev Initialization, registration, exits and vote delegation of UnifiedLendingDAO. The DAO delegatecalls it,
+ * so everything here runs on the DAO's storage and balance.
+ */
+contract MembershipModule is DAOStorage {
+    /**
+     * @notice Initialize the unified DAO with all features
+     * @param _initialAdmins Array of initial admin addresses
+     * @param _consensusThreshold Threshold for proposal approval
+     * @param _membershipFee Fee required to join the DAO
+     * @param _loanPolicy Initial loan policy configuration
+     */
+    function initialize(
+        address[] memory _initialAdmins,
+        uint256 _consensusThreshold,
+        uint256 _membershipFee,
+        LoanPolicy memory _loanPolicy
+    ) external onlyOwner notInitialized {
+        if (_initialAdmins.length == 0) revert DAOErrors.EmptyAdminsList();
+        if (_consensusThreshold == 0 || _consensusThreshold > BASIS_POINTS) {
+            revert DAOErrors.InvalidConsensusThreshold();
+        }
+        if (_membershipFee == 0) revert DAOErrors.InvalidAmount();
+
+        // Set initial admins
+        for (uint256 i = 0; i < _initialAdmins.length; i++) {
+            if (_initialAdmins[i] == address(0)) revert DAOErrors.ZeroAddress();
+            admins[_initialAdmins[i]] = true;
+            emit AdminAdded(_initialAdmins[i]);
+        }
+
+        consensusThreshold = _consensusThreshold;
+        membershipFee = _membershipFee;
+        loanPolicy = _loanPolicy;
+        initialized = true;
+
+        emit DAOInitialized(_initialAdmins, _consensusThreshold, _membershipFee);
+    }
+
+    /**
+     * @notice Register as a member with optional ENS and KYC
+     * @param _ensName Optional ENS name for enhanced voting weight
+     * @param _kycHash Optional KYC document IPFS hash
+     */
+    function registerMember(
+        string memory _ensName,
+        string memory _kycHash
+    ) external payable onlyInitialized whenNotPaused {
+        if (_isMember(msg.sender) || members[msg.sender].memberAddress != address(0)) {
+            revert DAOErrors.AlreadyMember();
+        }
+        if (msg.value < membershipFee) revert DAOErrors.IncorrectMembershipFee();
+
+        // Create new member
+        members[msg.sender] = Member({
+            memberAddress: msg.sender,
+            status: MemberStatus.ACTIVE_MEMBER,
+            joinDate: block.timestamp,
+            contributionAmount: membershipFee,
+            shareBalance: membershipFee,
+            hasActiveLoan: false,
+            lastLoanDate: 0
+        });
+        
+        memberAddresses.push(msg.sender);
+        totalMembers++;
+        activeMembers++;
+
+        // Handle ENS if provided; the strategy may weigh the name
+        if (bytes(_ensName).length > 0) {
+            memberENSNames[msg.sender] = _ensName;
+        }
+        memberVotingWeights[msg.sender] = _calculateVotingWeight(msg.sender);
+        if (bytes(_ensName).length > 0) {
+            emit ENSNameLinked(msg.sender, _ensName, memberVotingWeights[msg.sender]);
+        }
+        _moveVotingPower(address(0), msg.sender, memberVotingWeights[msg.sender]);
+
+        // Handle KYC if provided
+        if (bytes(_kycHash).length > 0) {
+            memberKYCDocuments[msg.sender] = _kycHash;
+            emit DocumentStored(uint256(uint160(msg.sender)), "member_kyc", _kycHash);
+        }
+
+        emit MembershipFeeReceived(msg.sender, membershipFee);
+        emit MemberActivated(msg.sender);
+
+        // Refund excess payment
+        if (msg.value > membershipFee) {
+            payable(msg.sender).transfer(msg.value - membershipFee);
+        }
+    }
+
+    /**
+     * @notice Standard member registration (backward compatibility)
+     */
+    function registerMember() external payable onlyInitialized whenNotPaused {
+        // Call enhanced registration with empty strings
+        this.registerMember{value: msg.value}("", "");
+    }
+
+    /**
+     * @notice Exit the DAO and withdraw proportional share
+     */
+    function exitDAO() external onlyInitialized nonReentrant whenNotPaused {
+        Member storage member = members[msg.sender];
+
+        // Suspended members can still leave with what a default left of their stake
+        bool suspended = member.status == MemberStatus.SUSPENDED_MEMBER;
+        if (!_isMember(msg.sender) && !suspended) revert DAOErrors.NotMember();
+        if (member.hasActiveLoan) revert DAOErrors.CannotExitWithActiveLoan();
+
+        uint256 shareToWithdraw = _exitShare(msg.sender);
+        
+        if (address(this).balance < shareToWithdraw) {
+            revert DAOErrors.InsufficientTreasuryForExit();
+        }
+
+        // Update member status
+        member.status = MemberStatus.INACTIVE;
+        if (!suspended) activeMembers--;
+
+        // Clear member data
+        _releaseVotingPower(msg.sender);
+        _removeIdentity(msg.sender);
+        memberENSNames[msg.sender] = "";
+        delete memberEncryptionKeys[msg.sender];
+        memberVotingWeights[msg.sender] = 0;
+
+        // Transfer share
+        (bool success, ) = payable(msg.sender).call{value: shareToWithdraw}("");
+        if (!success) revert DAOErrors.TransferFailed();
+
+        emit MemberExited(msg.sender, shareToWithdraw);
+    }
+
+    /**
+     * @notice Publish the public key other members encrypt documents and ballots to
+     * @dev Publishing again rotates the key; bytes32(0) withdraws it. Cleared when the member leaves.
+     * @param _publicKey X25519 public key derived from the member's wallet
+     */
+    function setEncryptionKey(bytes32 _publicKey) external onlyInitialized onlyMember whenNotPaused {
+        memberEncryptionKeys[msg.sender] = _publicKey;
+        emit EncryptionKeyPublished(msg.sender, _publicKey);
+    }
+
+    /**
+     * @notice Let another active member vote with your weight
+     * @dev Delegation is not transitive: only the caller's own weight moves, not weight delegated to them.
+     * Proposals read voting power when their voting opens, so later delegations only affect newer proposals.
+     * @param _delegatee Member to delegate to; your own address undelegates
+     */
+    function delegate(address _delegatee) external onlyInitialized onlyMember whenNotPaused {
+        if (!_isMember(_delegatee)) revert DAOErrors.InvalidDelegate();
+        _delegate(msg.sender, _delegatee);
+    }
+
+    function undelegate() external onlyInitialized onlyMember whenNotPaused {
+        _delegate(msg.sender, msg.sender);
+    }
+
+    /**
+     * @notice Recompute a member's weight with the current strategy, e.g. after their ENS name was verified
+     */
+    function refreshVotingWeight(address _member) external onlyInitialized whenNotPaused {
+        if (!_isMember(_member)) revert DAOErrors.NotMember();
+        _updateVotingWeight(_member);
+    }
+}
@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../DAOStorage.sol";
+
+/**
+ * @title RestakingModule
+ * @dev Restaking, yield and reward claims of UnifiedLendingDAO. The DAO delegatecalls it, so everything here
+ * runs on the DAO's storage and balance.
+ */
+contract RestakingModule is DAOStorage {
+    /**
+     * @notice Approve a restaking operator
+     * @param _operator Operator address
+     * @param _name Operator name
+     * @param _expectedAPY Expected APY in basis points
+     */
+    function approveOperator(
+        address _operator,
+        string memory _name,
+        uint256 _expectedAPY
+    ) external onlyAdmin {
+        require(!operators[_operator].isApproved, "Already approved");
+        require(_expectedAPY > 0 && _expectedAPY <= 5000, "Invalid APY"); // Max 50%
+        
+        operators[_operator] = SimpleOperator({
+            operatorAddress: _operator,
+            name: _name,
+            expectedAPY: _expectedAPY,
+            totalStaked: 0,
+            isApproved: true
+        });
+        
+        approvedOperators.push(_operator);
+        emit OperatorApproved(_operator, _name, _expectedAPY);
+    }
+
+    /**
+     * @notice Allocate treasury funds to restaking
+     * @param _amount Amount to allocate
+     */
+    function allocateToRestaking(uint256 _amount) external onlyAdmin {
+        require(restakingEnabled, "Restaking not enabled");
+        require(_amount > 0, "Invalid amount");
+        require(address(this).balance >= _amount, "Insufficient balance");
+        
+        // Simple allocation to approved operators
+        uint256 operatorCount = approvedOperators.length;
+        if (operatorCount == 0) revert("No approved operators");
+        
+        uint256 amountPerOperator = _amount / operatorCount;
+        
+        for (uint256 i = 0; i < operatorCount; i++) {
+            address operator = approvedOperators[i];
+            operators[operator].totalStaked += amountPerOperator;
+        }
+        
+        totalRestaked += _amount;
+        emit RestakingAllocated(_amount);
+    }
+
+    /**
+     * @notice Distribute yield to members (simplified)
+     * @param _totalYield Total yield amount to distribute
+     */
+    function distributeYield(uint256 _totalYield) external onlyAdmin {
+        require(_totalYield > 0, "Invalid yield amount");
+        require(activeMembers > 0, "No active members");
+        
+        // Calculate member share
+        uint256 memberPortion = (_totalYield * yieldDistributionShares) / BASIS_POINTS;
+        uint256 perMemberYield = memberPortion / activeMembers;
+        
+        // Distribute to all active members
+        for (uint256 i = 0; i < memberAddresses.length; i++) {
+            address member = memberAddresses[i];
+            if (_isMember(member)) {
+                pendingYield[member] += perMemberYield;
+            }
+        }
+        
+        totalYieldGenerated += _totalYield;
+        emit YieldDistributed(_totalYield, memberPortion);
+    }
+
+    /**
+     * @notice Claim accumulated yield rewards
+     */
+    function claimYield() external onlyMember nonReentrant {
+        uint256 yield = pendingYield[msg.sender];
+        if (yield == 0) revert DAOErrors.ZeroAmount();
+        
+        pendingYield[msg.sender] = 0;
+        
+        (bool success, ) = payable(msg.sender).call{value: yield}("");
+        if (!success) revert DAOErrors.TransferFailed();
+    }
+
+    /**
+     * @notice Claim all rewards (loan interest + restaking yield)
+     */
+    function claimAllRewards() external onlyMember nonReentrant {
+        uint256 totalRewards = pendingRewards[msg.sender] + pendingYield[msg.sender];
+        if (totalRewards == 0) revert DAOErrors.ZeroAmount();
+        
+        pendingRewards[msg.sender] = 0;
+        pendingYield[msg.sender] = 0;
+        
+        (bool success, ) = payable(msg.sender).call{value: totalRewards}("");
+        if (!success) revert DAOErrors.TransferFailed();
+    }
+}
@@ -0,0 +1,332 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../DAOStorage.sol";
+import "../verifiers/AnonymousVoteVerifier.sol";
+import "../verifiers/PrivateVoteVerifier.sol";
+
+/**
+ * @title VotingModule
+ * @dev Anonymous membership group, commit-reveal and anonymous votes on private loan proposals, and
+ * multi-option proposals of UnifiedLendingDAO. The DAO delegatecalls it, so everything here runs on the
+ * DAO's storage; the verifiers and the Poseidon hasher are deployed with this module.
+ */
+contract VotingModule is DAOStorage {
+    PrivateVoteVerifier public immutable privateVoteVerifier;
+    AnonymousVoteVerifier public immutable anonymousVoteVerifier;
+    IPoseidonT3 public immutable poseidonHasher; // The DAO copies it into storage when deployed
+
+    constructor() {
+        privateVoteVerifier = new PrivateVoteVerifier();
+        anonymousVoteVerifier = new AnonymousVoteVerifier();
+        poseidonHasher = PoseidonT3Deployer.deploy();
+    }
+
+    /**
+     * @notice Join the anonymous membership group
+     * @dev Inserts the commitment as the next leaf of the member tree. It is zeroed when the
+     * member exits, is removed or is suspended.
+     * @param _identityCommitment Poseidon(identitySecret); the secret never leaves the member's device
+     */
+    function registerIdentity(uint256 _identityCommitment) external onlyInitialized onlyMember whenNotPaused {
+        if (identityCommitments[msg.sender] != 0) revert DAOErrors.IdentityAlreadyRegistered();
+        if (_identityCommitment == 0 || _identityCommitment >= SNARK_SCALAR_FIELD) {
+            revert DAOErrors.InvalidIdentityCommitment();
+        }
+        if (memberTreeSize == 1 << MEMBER_TREE_DEPTH) revert DAOErrors.MemberGroupFull();
+
+        uint256 leafIndex = memberTreeSize++;
+        identityCommitments[msg.sender] = _identityCommitment;
+        identityLeafIndices[msg.sender] = leafIndex;
+
+        _writeMemberTreeSize();
+        _setMemberTreeLeaf(leafIndex, _identityCommitment);
+
+        emit IdentityRegistered(msg.sender, leafIndex, _identityCommitment, memberTreeRoot);
+    }
+
+    /**
+     * @notice Commit a hidden vote on a private loan proposal
+     * @dev The commitment is Poseidon(proposalId, voter, choice, secret) and the nullifier
+     * Poseidon(voter, secret). The proof shows the commitment hides a valid choice. Votes
+     * count once revealed during REVEAL_PERIOD.
+     * @param _proposalId ID of the private loan proposal
+     * @param _commitment Hash binding the choice to the voter's secret
+     * @param _nullifier Hash of the voter's secret, single use per proposal
+     * @param _proof Groth16 proof as [a, b, c] with the b coordinates in Solidity order
+     */
+    function commitPrivateVote(uint256 _proposalId, bytes32 _commitment, bytes32 _nullifier, uint256[8] calldata _proof)
+        external
+        onlyInitialized
+        onlyMember
+        whenNotPaused
+    {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+
+        if (proposal.proposalId == 0) revert DAOErrors.LoanProposalNotFound();
+        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.LoanProposalNotPending();
+        if (!isPrivateProposal[_proposalId]) revert DAOErrors.NotPrivateProposal();
+        if (isAnonymousProposal[_proposalId]) revert DAOErrors.AnonymousVoteRequired();
+        if (proposal.borrower == msg.sender) revert DAOErrors.CannotVoteOnOwnProposal();
+        if (proposal.hasVoted[msg.sender]) revert DAOErrors.AlreadyVoted();
+        if (_commitment == bytes32(0) || _nullifier == bytes32(0)) revert DAOErrors.InvalidCommitment();
+        if (usedNullifiers[_proposalId][_nullifier]) revert DAOErrors.NullifierAlreadyUsed();
+        if (!_verifyPrivateVote(_proposalId, _commitment, _nullifier, 0, false, _proof)) revert DAOErrors.InvalidProof();
+
+        _openLoanVote(_proposalId);
+
+        proposal.hasVoted[msg.sender] = true;
+        voteCommitments[_proposalId][msg.sender] = _commitment;
+        voteNullifiers[_proposalId][msg.sender] = _nullifier;
+        usedNullifiers[_proposalId][_nullifier] = true;
+        unrevealedVotes[_proposalId]++;
+
+        emit PrivateVoteCast(_proposalId, msg.sender, _commitment);
+    }
+
+    /**
+     * @notice Reveal a committed vote once the voting period has ended
+     * @dev The proof shows the stored commitment opens to `_choice`. Abstentions are recorded
+     * but not counted. Commitments left unrevealed when REVEAL_PERIOD ends are ignored by
+     * finalizeProposal.
+     * @param _proposalId ID of the private loan proposal
+     * @param _choice VOTE_AGAINST, VOTE_FOR or VOTE_ABSTAIN
+     * @param _proof Groth16 proof as [a, b, c] with the b coordinates in Solidity order
+     */
+    function revealPrivateVote(uint256 _proposalId, uint8 _choice, uint256[8] calldata _proof)
+        external
+        onlyInitialized
+        whenNotPaused
+    {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+        bytes32 commitment = voteCommitments[_proposalId][msg.sender];
+
+        if (commitment == bytes32(0)) revert DAOErrors.NoCommittedVote();
+        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.LoanProposalNotPending();
+
+        uint256 votingStartTime = proposal.editingPeriodEnd;
+        if (block.timestamp <= votingStartTime + VOTING_PERIOD) revert DAOErrors.RevealPeriodNotStarted();
+        if (block.timestamp > votingStartTime + VOTING_PERIOD + REVEAL_PERIOD) revert DAOErrors.RevealPeriodEnded();
+
+        if (
+            _choice > VOTE_ABSTAIN ||
+            !_verifyPrivateVote(_proposalId, commitment, voteNullifiers[_proposalId][msg.sender], _choice, true, _proof)
+        ) revert DAOErrors.InvalidReveal();
+
+        delete voteCommitments[_proposalId][msg.sender];
+        unrevealedVotes[_proposalId]--;
+
+        uint256 voteWeight = _votesAt(msg.sender, votingStartTime);
+        emit PrivateVoteRevealed(_proposalId, msg.sender, _choice, voteWeight);
+
+        if (_choice == VOTE_ABSTAIN) return;
+
+        emit LoanVoteCast(_proposalId, msg.sender, _choice == VOTE_FOR);
+        _countLoanVote(_proposalId, _choice == VOTE_FOR, voteWeight);
+    }
+
+    /**
+     * @notice Vote anonymously on a private loan proposal created at maximum privacy
+     * @dev Not tied to msg.sender, so a relayer can submit it. The proof shows that some
+     * identity in the member tree other than the borrower's cast this vote, and the nullifier
+     * stops it voting twice. Every vote counts as one member.
+     * @param _proposalId ID of the anonymous loan proposal
+     * @param _support True for support, false for opposition
+     * @param _merkleRoot Member tree root the proof was built against, see anonymousVoteRoot
+     * @param _nullifier Poseidon(identitySecret, proposalId)
+     * @param _proof Groth16 proof as [a, b, c] with the b coordinates in Solidity order
+     */
+    function castAnonymousVote(
+        uint256 _proposalId,
+        bool _support,
+        uint256 _merkleRoot,
+        uint256 _nullifier,
+        uint256[8] calldata _proof
+    ) external onlyInitialized whenNotPaused {
+        LoanProposal storage proposal = loanProposals[_proposalId];
+
+        if (proposal.proposalId == 0) revert DAOErrors.LoanProposalNotFound();
+        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.LoanProposalNotPending();
+        if (!isAnonymousProposal[_proposalId]) revert DAOErrors.NotAnonymousProposal();
+        if (anonymousNullifiers[_proposalId][_nullifier]) revert DAOErrors.NullifierAlreadyUsed();
+        if (_merkleRoot != _anonymousVoteRoot(_proposalId)) revert DAOErrors.UnknownMerkleRoot();
+        if (
+            !anonymousVoteVerifier.verifyProof(
+                [_proof[0], _proof[1]],
+                [[_proof[2], _proof[3]], [_proof[4], _proof[5]]],
+                [_proof[6], _proof[7]],
+                [_nullifier, _merkleRoot, _proposalId, _support ? 1 : 0, identityCommitments[proposal.borrower]]
+            )
+        ) revert DAOErrors.InvalidProof();
+
+        _requireLoanVotingOpen(_proposalId);
+        anonymousNullifiers[_proposalId][_nullifier] = true;
+
+        uint256 voteWeight = _anonymousVoteWeight(proposal.editingPeriodEnd);
+        if (voteWeight == 0) revert DAOErrors.NoVotingPower();
+        emit AnonymousVoteCast(_proposalId, _nullifier, _support, voteWeight);
+        _countLoanVote(_proposalId, _support, voteWeight);
+    }
+
+    /**
+     * @notice Propose a signaling vote between several options
+     * @dev Voting opens the block after creation. Approval proposals are decided by finalizeProposal; ranked-choice
+     * ballots are tallied off-chain and the result is committed with commitRankedChoiceResult.
+     * @param _description Question put to the members
+     * @param _options Between 2 and MAX_PROPOSAL_OPTIONS option labels
+     * @param _countingMethod How ballots are counted
+     * @return proposalId The created proposal ID
+     */
+    function proposeMultiOption(
+        string calldata _description,
+        string[] calldata _options,
+        CountingMethod _countingMethod
+    )
+        external
+        onlyInitialized
+        onlyMember
+        whenNotPaused
+        returns (uint256)
+    {
+        if (_options.length < 2 || _options.length > MAX_PROPOSAL_OPTIONS) revert DAOErrors.InvalidOptionCount();
+
+        uint256 proposalId = ++proposalCounter;
+
+        MultiOptionProposal storage proposal = multiOptionProposals[proposalId];
+        proposal.proposalId = proposalId;
+        proposal.proposer = msg.sender;
+        proposal.countingMethod = _countingMethod;
+        proposal.description = _description;
+        proposal.options = _options;
+        proposal.createdAt = block.timestamp;
+        proposal.status = ProposalStatus.PENDING;
+        if (_countingMethod == CountingMethod.APPROVAL) {
+            proposal.approvals = new uint256[](_options.length);
+        }
+
+        proposalTypes[proposalId] = ProposalType.MULTI_OPTION;
+
+        emit MultiOptionProposalCreated(proposalId, msg.sender, _countingMethod, _options, _description);
+        return proposalId;
+    }
+
+    /**
+     * @notice Vote on a multi-option proposal
+     * @dev Every ballot is folded into `ballotsHash` as keccak256(abi.encode(previousHash, voter, weight, choices)),
+     * so an off-chain tally can prove it counted exactly the ballots cast.
+     * @param _proposalId ID of the multi-option proposal
+     * @param _choices APPROVAL: the approved option indexes. RANKED_CHOICE: option indexes from most to least
+     * preferred; unranked options are never counted for this ballot
+     */
+    function voteOnMultiOptionProposal(uint256 _proposalId, uint256[] calldata _choices)
+        external
+        onlyInitialized
+        onlyMember
+        whenNotPaused
+    {
+        MultiOptionProposal storage proposal = multiOptionProposals[_proposalId];
+
+        if (proposal.proposalId == 0) revert DAOErrors.MultiOptionProposalNotFound();
+        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.MultiOptionProposalNotPending();
+        if (proposal.hasVoted[msg.sender]) revert DAOErrors.AlreadyVoted();
+        _requireVotingOpen(proposal.createdAt);
+
+        uint256 voteWeight = _votesAt(msg.sender, proposal.createdAt);
+        if (voteWeight == 0) revert DAOErrors.NoVotingPower();
+
+        uint256 optionCount = proposal.options.length;
+        if (_choices.length == 0 || _choices.length > optionCount) revert DAOErrors.InvalidBallot();
+
+        // Options are capped at MAX_PROPOSAL_OPTIONS, so a bitmap catches repeated choices
+        uint256 seen;
+        for (uint256 i = 0; i < _choices.length; i++) {
+            uint256 choice = _choices[i];
+            if (choice >= optionCount || seen & (1 << choice) != 0) revert DAOErrors.InvalidBallot();
+            seen |= 1 << choice;
+
+            if (proposal.countingMethod == CountingMethod.APPROVAL) {
+                proposal.approvals[choice] += voteWeight;
+            }
+        }
+
+        proposal.hasVoted[msg.sender] = true;
+        proposal.turnout += voteWeight;
+        proposal.ballotsHash = keccak256(abi.encode(proposal.ballotsHash, msg.sender, voteWeight, _choices));
+
+        emit MultiOptionVoteCast(_proposalId, msg.sender, _choices, voteWeight);
+    }
+
+    /**
+     * @notice Record the winner of a ranked-choice proposal tallied off-chain
+     * @dev Anyone can check the commitment: replay MultiOptionVoteCast to rebuild `ballotsHash`, run the
+     * instant-runoff tally and compare keccak256(abi.encode(ballotsHash, winningOption, rounds)) with `_resultHash`.
+     * Proposals that missed quorum are expired through finalizeProposal instead.
+     * @param _proposalId ID of the ranked-choice proposal
+     * @param _winningOption Index of the winning option
+     * @param _resultHash Commitment to the tally rounds
+     */
+    function commitRankedChoiceResult(uint256 _proposalId, uint256 _winningOption, bytes32 _resultHash)
+        external
+        onlyInitialized
+        onlyAdmin
+        whenNotPaused
+    {
+        MultiOptionProposal storage proposal = multiOptionProposals[_proposalId];
+
+        if (proposal.proposalId == 0) revert DAOErrors.MultiOptionProposalNotFound();
+        if (proposal.countingMethod != CountingMethod.RANKED_CHOICE) revert DAOErrors.InvalidProposalType();
+        if (proposal.status != ProposalStatus.PENDING) revert DAOErrors.MultiOptionProposalNotPending();
+        if (block.timestamp <= proposal.createdAt + VOTING_PERIOD) revert DAOErrors.VotingPeriodNotEnded();
+        if (!_reachedMultiOptionQuorum(proposal)) revert DAOErrors.QuorumNotReached();
+        if (_winningOption >= proposal.options.length) revert DAOErrors.InvalidOption();
+
+        proposal.status = ProposalStatus.APPROVED;
+        proposal.winningOption = _winningOption;
+        proposal.resultHash = _resultHash;
+
+        emit ProposalFinalized(_proposalId, ProposalStatus.APPROVED);
+        emit MultiOptionResult(_proposalId, _winningOption, _resultHash);
+    }
+
+    // ============ INTERNAL FUNCTIONS ============
+
+    // One member's share of the total when voting opened: a single vote unless ENS voting weighs members
+    function _anonymousVoteWeight(uint256 _snapshot) internal view returns (uint256) {
+        VotingCheckpoint memory total = _checkpointAt(totalVotingCheckpoints, _snapshot);
+        if (total.members == 0) return 0;
+        return _weightedVotingAt(_snapshot) ? total.weight / total.members : 1;
+    }
+
+    function _writeMemberTreeSize() internal {
+        uint256 length = memberTreeCheckpoints.length;
+        if (length > 0 && memberTreeCheckpoints[length - 1].timestamp == block.timestamp) {
+            memberTreeCheckpoints[length - 1].size = memberTreeSize;
+        } else {
+            memberTreeCheckpoints.push(MemberTreeCheckpoint(block.timestamp, memberTreeSize));
+        }
+    }
+
+    // Public signals follow circuits/privateVote.circom: outputs first, then the public inputs
+    function _verifyPrivateVote(
+        uint256 _proposalId,
+        bytes32 _commitment,
+        bytes32 _nullifier,
+        uint8 _revealedChoice,
+        bool _isReveal,
+        uint256[8] calldata _proof
+    ) internal view returns (bool) {
+        return privateVoteVerifier.verifyProof(
+            [_proof[0], _proof[1]],
+            [[_proof[2], _proof[3]], [_proof[4], _proof[5]]],
+            [_proof[6], _proof[7]],
+            [
+                uint256(_commitment),
+                uint256(_nullifier),
+                _proposalId,
+                uint256(uint160(msg.sender)),
+                _revealedChoice,
+                _isReveal ? 1 : 0
+            ]
+        );
+    }
+}
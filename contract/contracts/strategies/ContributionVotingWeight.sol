@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IVotingWeightStrategy.sol";
+import "../DAOErrors.sol";
+
+/**
+ * @title ContributionVotingWeight
+ * @dev Weight grows linearly with the member's contribution to the treasury
+ */
+contract ContributionVotingWeight is IVotingWeightStrategy {
+    uint256 public constant BASE_VOTING_WEIGHT = 100;
+
+    uint256 public immutable referenceContribution; // Contribution that earns BASE_VOTING_WEIGHT
+
+    constructor(uint256 _referenceContribution) {
+        if (_referenceContribution == 0) revert DAOErrors.InvalidContributionAmount();
+        referenceContribution = _referenceContribution;
+    }
+
+    function votingWeight(
+        address,
+        uint256 _contributionAmount,
+        string calldata
+    ) external view override returns (uint256) {
+        return (_contributionAmount * BASE_VOTING_WEIGHT) / referenceContribution;
+    }
+
+    function name() external pure override returns (string memory) {
+        return "contribution";
+    }
+}
@@ -0,0 +1,37 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IVotingWeightStrategy.sol";
+import "../extensions/ENSGovernance.sol";
+import "../extensions/ENSReputationLib.sol";
+
+/**
+ * @title ENSReputationVotingWeight
+ * @dev Weight from the ENS reputation score: verified members use the weight ENSGovernance computed,
+ * unverified names only earn the length bonus since their age and reverse record are unknown
+ */
+contract ENSReputationVotingWeight is IVotingWeightStrategy {
+    ENSGovernance public immutable ensGovernance; // Optional; address(0) scores every name as unverified
+
+    constructor(address _ensGovernance) {
+        ensGovernance = ENSGovernance(payable(_ensGovernance));
+    }
+
+    function votingWeight(
+        address _member,
+        uint256,
+        string calldata _ensName
+    ) external view override returns (uint256) {
+        if (address(ensGovernance) != address(0)) {
+            ENSGovernance.ENSMemberData memory ensData = ensGovernance.getMemberENSData(_member);
+            if (ensData.isENSVerified) return ensData.votingWeight;
+        }
+
+        if (bytes(_ensName).length == 0) return ENSReputationLib.BASE_VOTING_WEIGHT;
+        return ENSReputationLib.votingWeight(ENSReputationLib.reputationScore(0, false, bytes(_ensName).length));
+    }
+
+    function name() external pure override returns (string memory) {
+        return "ens-reputation";
+    }
+}
@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IVotingWeightStrategy.sol";
+
+/**
+ * @title FlatVotingWeight
+ * @dev One member, one vote: every member gets the same weight
+ */
+contract FlatVotingWeight is IVotingWeightStrategy {
+    uint256 public constant BASE_VOTING_WEIGHT = 100;
+
+    function votingWeight(address, uint256, string calldata) external pure override returns (uint256) {
+        return BASE_VOTING_WEIGHT;
+    }
+
+    function name() external pure override returns (string memory) {
+        return "flat";
+    }
+}
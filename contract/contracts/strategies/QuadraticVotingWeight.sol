@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IVotingWeightStrategy.sol";
+import "../DAOErrors.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+/**
+ * @title QuadraticVotingWeight
+ * @dev Weight grows with the square root of the member's contribution, so 4x the contribution doubles the weight
+ */
+contract QuadraticVotingWeight is IVotingWeightStrategy {
+    uint256 public constant BASE_VOTING_WEIGHT = 100;
+
+    uint256 public immutable referenceContribution; // Contribution that earns BASE_VOTING_WEIGHT
+
+    constructor(uint256 _referenceContribution) {
+        if (_referenceContribution == 0) revert DAOErrors.InvalidContributionAmount();
+        referenceContribution = _referenceContribution;
+    }
+
+    function votingWeight(
+        address,
+        uint256 _contributionAmount,
+        string calldata
+    ) external view override returns (uint256) {
+        // sqrt(contribution / reference) * BASE, scaled inside the root to keep precision
+        return Math.sqrt((_contributionAmount * BASE_VOTING_WEIGHT * BASE_VOTING_WEIGHT) / referenceContribution);
+    }
+
+    function name() external pure override returns (string memory) {
+        return "quadratic";
+    }
+}
@@ -29,7 +29,6 @@ const config: HardhatUserConfig = {
       chainId: 8009,
     },
     hardhat: {
-      allowUnlimitedContractSize: true,
       accounts: {
         count: 20,
         accountsBalance: "10000000000000000000000", // 10,000 ETH
@@ -0,0 +1,5 @@
+export { IndexerStore } from "./store";
+export type { EventQuery, IndexedBlock, IndexedEvent } from "./store";
+export { DAOIndexer, ChainChangedError } from "./indexer";
+export type { DAOIndexerOptions, SyncResult } from "./indexer";
+export { createIndexerServer, createIndexerRoutes, BadRequestError } from "./server";
@@ -0,0 +1,201 @@
+import { Interface, InterfaceAbi, Log, Provider, Result } from "ethers";
+import { IndexedBlock, IndexedEvent, IndexerStore } from "./store";
+
+export interface DAOIndexerOptions {
+  address: string;
+  // Contract ABI; the UnifiedLendingDAO artifact carries every event from IDAO.sol as well
+  abi: InterfaceAbi;
+  startBlock?: number;
+  batchSize?: number;
+  // Blocks to stay behind the head; reorgs deeper than this are still detected and rolled back
+  confirmations?: number;
+  pollInterval?: number;
+  onError?: (error: unknown) => void;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  // Set when a reorg was rolled back before indexing; the first block that was dropped
+  reorgedFrom?: number;
+}
+
+// Thrown when the chain changes under a batch that is being fetched; the next sync retries it
+export class ChainChangedError extends Error {
+  constructor(blockNumber: number) {
+    super(`Block ${blockNumber} changed while it was being indexed`);
+    this.name = "ChainChangedError";
+  }
+}
+
+/**
+ * Backfills and tails every event emitted by the DAO into an IndexerStore.
+ *
+ * Each sync first checks that the last indexed block is still canonical. If
+ * it is not, the indexer walks back through the stored block hashes to the
+ * common ancestor, drops everything above it and indexes forward again.
+ */
+export class DAOIndexer {
+  private readonly iface: Interface;
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+  private readonly pollInterval: number;
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<unknown>;
+  private stopped = true;
+
+  constructor(
+    private readonly provider: Provider,
+    private readonly store: IndexerStore,
+    private readonly options: DAOIndexerOptions
+  ) {
+    this.iface = new Interface(options.abi);
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.pollInterval = options.pollInterval ?? 4000;
+  }
+
+  /**
+   * Index everything between the cursor and the current head. Returns null
+   * when there was nothing new to index.
+   */
+  async sync(): Promise<SyncResult | null> {
+    await this.checkDatabase();
+    const reorgedFrom = await this.rollbackReorg();
+
+    const head = (await this.provider.getBlockNumber()) - this.confirmations;
+    const cursor = this.store.getCursor();
+    const fromBlock = cursor ? cursor.number + 1 : this.startBlock;
+    if (fromBlock > head) {
+      return reorgedFrom !== undefined ? { fromBlock, toBlock: fromBlock - 1, events: 0, reorgedFrom } : null;
+    }
+
+    let events = 0;
+    for (let from = fromBlock; from <= head; from += this.batchSize) {
+      events += await this.indexRange(from, Math.min(from + this.batchSize - 1, head));
+    }
+
+    return { fromBlock, toBlock: head, events, reorgedFrom };
+  }
+
+  // Keep syncing every `pollInterval` until stop() is called
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    const tick = async () => {
+      this.running = this.sync().catch(error => (this.options.onError ?? console.error)(error));
+      await this.running;
+      if (!this.stopped) this.timer = setTimeout(tick, this.pollInterval);
+    };
+    void tick();
+  }
+
+  async stop() {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.running;
+  }
+
+  // ============ Internal ============
+
+  private async checkDatabase() {
+    const address = this.options.address.toLowerCase();
+    const chainId = (await this.provider.getNetwork()).chainId.toString();
+
+    const indexedAddress = this.store.getMeta("address");
+    const indexedChainId = this.store.getMeta("chainId");
+    if (indexedAddress === undefined) {
+      this.store.setMeta("address", address);
+      this.store.setMeta("chainId", chainId);
+    } else if (indexedAddress !== address || indexedChainId !== chainId) {
+      throw new Error(
+        `Database indexes ${indexedAddress} on chain ${indexedChainId}, not ${address} on chain ${chainId}`
+      );
+    }
+  }
+
+  private async rollbackReorg(): Promise<number | undefined> {
+    const cursor = this.store.getCursor();
+    if (!cursor || (await this.isCanonical(cursor))) return undefined;
+
+    let below = cursor.number - 1;
+    for (;;) {
+      const candidates = this.store.getBlocksBelow(below);
+      if (candidates.length === 0) {
+        // No stored block survived; index again from the start block
+        this.store.rewindTo(null);
+        return this.startBlock;
+      }
+
+      for (const block of candidates) {
+        if (await this.isCanonical(block)) {
+          this.store.rewindTo(block);
+          return block.number + 1;
+        }
+      }
+      below = candidates[candidates.length - 1].number - 1;
+    }
+  }
+
+  private async isCanonical(block: IndexedBlock) {
+    const current = await this.provider.getBlock(block.number);
+    return current?.hash === block.hash;
+  }
+
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    const end = await this.getBlock(toBlock);
+    const logs = await this.provider.getLogs({ address: this.options.address, fromBlock, toBlock });
+
+    const blocks = new Map<number, IndexedBlock>([[end.number, end]]);
+    for (const log of logs) {
+      if (!blocks.has(log.blockNumber)) blocks.set(log.blockNumber, await this.getBlock(log.blockNumber));
+      if (blocks.get(log.blockNumber)!.hash !== log.blockHash) throw new ChainChangedError(log.blockNumber);
+    }
+    // The range end must not have moved while the logs were fetched
+    if ((await this.getBlock(toBlock)).hash !== end.hash) throw new ChainChangedError(toBlock);
+
+    const events = logs
+      .map(log => this.decode(log, blocks.get(log.blockNumber)!.timestamp))
+      .filter((event): event is IndexedEvent => event !== null);
+
+    this.store.commitBatch(events, Array.from(blocks.values()), end);
+    return events.length;
+  }
+
+  private async getBlock(blockNumber: number): Promise<IndexedBlock> {
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block?.hash) throw new ChainChangedError(blockNumber);
+    return { number: block.number, hash: block.hash, timestamp: block.timestamp };
+  }
+
+  private decode(log: Log, timestamp: number): IndexedEvent | null {
+    const parsed = this.iface.parseLog({ topics: [...log.topics], data: log.data });
+    if (!parsed) return null;
+
+    const args: Record<string, unknown> = {};
+    parsed.fragment.inputs.forEach((input, index) => {
+      args[input.name || `arg${index}`] = toJSONValue(parsed.args[index]);
+    });
+
+    return {
+      blockNumber: log.blockNumber,
+      logIndex: log.index,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      eventName: parsed.name,
+      args,
+      timestamp,
+    };
+  }
+}
+
+// Store uint256 values as decimal strings so they survive JSON and SQLite untouched
+function toJSONValue(value: unknown): unknown {
+  if (typeof value === "bigint") return value.toString();
+  if (value instanceof Result) return value.toArray().map(toJSONValue);
+  return value;
+}
@@ -0,0 +1,160 @@
+import http from "http";
+import { EventQuery, IndexerStore } from "./store";
+
+// Thrown by route handlers for malformed requests; answered with a 400
+export class BadRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BadRequestError";
+  }
+}
+
+type Handler = (params: string[], query: URLSearchParams) => unknown;
+
+const MAX_PAGE_SIZE = 500;
+const EVENT_QUERY_KEYS = new Set(["event", "fromBlock", "toBlock", "transactionHash", "limit", "offset", "order"]);
+
+function integer(query: URLSearchParams, key: string): number | undefined {
+  const value = query.get(key);
+  if (value === null) return undefined;
+  if (!/^\d+$/.test(value)) throw new BadRequestError(`${key} must be a non-negative integer`);
+  return Number(value);
+}
+
+function page(query: URLSearchParams) {
+  return {
+    limit: Math.min(integer(query, "limit") ?? 100, MAX_PAGE_SIZE),
+    offset: integer(query, "offset") ?? 0,
+  };
+}
+
+function eventQuery(query: URLSearchParams): EventQuery {
+  const args: Record<string, string> = {};
+  query.forEach((value, key) => {
+    if (!EVENT_QUERY_KEYS.has(key)) args[key] = value;
+  });
+
+  const order = query.get("order");
+  if (order !== null && order !== "asc" && order !== "desc") throw new BadRequestError("order must be asc or desc");
+
+  return {
+    eventName: query.getAll("event").length > 0 ? query.getAll("event") : undefined,
+    fromBlock: integer(query, "fromBlock"),
+    toBlock: integer(query, "toBlock"),
+    transactionHash: query.get("transactionHash") ?? undefined,
+    args,
+    order: order ?? undefined,
+    ...page(query),
+  };
+}
+
+/**
+ * Read-only JSON API over the indexed data. Every route is a GET; unknown
+ * query parameters on /events filter on decoded event arguments, e.g.
+ * `/events?event=LoanVoteCast&proposalId=1`.
+ */
+export function createIndexerRoutes(store: IndexerStore): Array<[RegExp, Handler]> {
+  const proposalTimeline = (proposalId: string) => {
+    const loan = store.queryOne("SELECT loan_id FROM loan_proposals WHERE proposal_id = ?", [Number(proposalId)]);
+    const events = store.getEvents({ args: { proposalId }, limit: MAX_PAGE_SIZE });
+    const loanEvents = loan?.loan_id != null
+      ? store.getEvents({ args: { loanId: String(loan.loan_id) }, limit: MAX_PAGE_SIZE })
+      : [];
+    return [...events, ...loanEvents].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  };
+
+  return [
+    [/^\/status$/, () => ({
+      address: store.getMeta("address") ?? null,
+      chainId: store.getMeta("chainId") ?? null,
+      cursor: store.getCursor(),
+      events: store.countEvents(),
+    })],
+    [/^\/events$/, (_, query) => store.getEvents(eventQuery(query))],
+    [/^\/members$/, (_, query) => {
+      const { limit, offset } = page(query);
+      return store.query("SELECT * FROM members ORDER BY activated_block LIMIT ? OFFSET ?", [limit, offset]);
+    }],
+    [/^\/proposals\/(\d+)\/timeline$/, ([proposalId]) => proposalTimeline(proposalId)],
+    [/^\/loans$/, (_, query) => {
+      const { limit, offset } = page(query);
+      const borrower = query.get("borrower");
+      return borrower
+        ? store.query("SELECT * FROM loans WHERE LOWER(borrower) = LOWER(?) ORDER BY loan_id LIMIT ? OFFSET ?", [
+            borrower,
+            limit,
+            offset,
+          ])
+        : store.query("SELECT * FROM loans ORDER BY loan_id LIMIT ? OFFSET ?", [limit, offset]);
+    }],
+    [/^\/loans\/(\d+)$/, ([loanId]) => store.queryOne("SELECT * FROM loans WHERE loan_id = ?", [Number(loanId)]) ?? null],
+    [/^\/loan-proposals$/, (_, query) => {
+      const { limit, offset } = page(query);
+      return store.query("SELECT * FROM loan_proposals ORDER BY proposal_id DESC LIMIT ? OFFSET ?", [limit, offset]);
+    }],
+    [/^\/treasury\/transactions$/, (_, query) => {
+      const { limit, offset } = page(query);
+      return store.query(
+        "SELECT * FROM treasury_transactions ORDER BY block_number DESC, log_index DESC LIMIT ? OFFSET ?",
+        [limit, offset]
+      );
+    }],
+    [/^\/stats\/governance$/, () => {
+      const proposals = Number(store.queryOne(
+        "SELECT COUNT(*) AS count FROM events WHERE event_name IN ('LoanRequested', 'TreasuryWithdrawalProposed', 'GovernanceProposalCreated')"
+      )?.count ?? 0);
+      const votes = store.queryOne(
+        `SELECT COUNT(*) AS count, COUNT(DISTINCT json_extract(args, '$.voter')) AS voters FROM events
+          WHERE event_name IN ('LoanVoteCast', 'TreasuryWithdrawalVoteCast', 'GovernanceVoteCast')`
+      );
+      const approved = Number(store.queryOne(
+        "SELECT COUNT(*) AS count FROM events WHERE event_name IN ('LoanApproved', 'TreasuryWithdrawalExecuted', 'GovernanceProposalExecuted')"
+      )?.count ?? 0);
+      const members = store.queryOne(
+        "SELECT COUNT(*) AS total, COUNT(*) - COUNT(exited_at) AS active FROM members"
+      );
+
+      return {
+        totalProposals: proposals,
+        approvedProposals: approved,
+        totalVotes: Number(votes?.count ?? 0),
+        uniqueVoters: Number(votes?.voters ?? 0),
+        averageVotesPerProposal: proposals > 0 ? Number(votes?.count ?? 0) / proposals : 0,
+        totalMembers: Number(members?.total ?? 0),
+        activeMembers: Number(members?.active ?? 0),
+      };
+    }],
+  ];
+}
+
+export function createIndexerServer(store: IndexerStore): http.Server {
+  const routes = createIndexerRoutes(store);
+
+  return http.createServer((request, response) => {
+    const send = (status: number, body: unknown) => {
+      response.writeHead(status, {
+        "Content-Type": "application/json",
+        // The frontend calls the indexer straight from the browser
+        "Access-Control-Allow-Origin": "*",
+      });
+      response.end(JSON.stringify(body));
+    };
+
+    if (request.method !== "GET") return send(405, { error: "Method not allowed" });
+
+    const url = new URL(request.url ?? "/", "http://localhost");
+    for (const [pattern, handler] of routes) {
+      const match = pattern.exec(url.pathname);
+      if (!match) continue;
+
+      try {
+        return send(200, handler(match.slice(1), url.searchParams));
+      } catch (error) {
+        if (error instanceof BadRequestError) return send(400, { error: error.message });
+        console.error("Indexer query failed:", error);
+        return send(500, { error: "Internal error" });
+      }
+    }
+    send(404, { error: "Not found" });
+  });
+}
@@ -0,0 +1,361 @@
+import fs from "fs";
+import path from "path";
+import initSqlJs, { Database, SqlValue } from "sql.js";
+
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface IndexedEvent {
+  blockNumber: number;
+  logIndex: number;
+  blockHash: string;
+  transactionHash: string;
+  eventName: string;
+  args: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface EventQuery {
+  eventName?: string | string[];
+  fromBlock?: number;
+  toBlock?: number;
+  transactionHash?: string;
+  // Match on a decoded argument, e.g. { proposalId: "1" }
+  args?: Record<string, string>;
+  limit?: number;
+  offset?: number;
+  order?: "asc" | "desc";
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+
+  -- Hashes of every block that had logs plus the last block of each batch, used to find the fork point on reorgs
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    block_hash TEXT NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    event_name TEXT NOT NULL,
+    args TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE INDEX IF NOT EXISTS events_by_name ON events (event_name, block_number);
+  CREATE INDEX IF NOT EXISTS events_by_transaction ON events (transaction_hash);
+
+  -- Materialized DAO state. These are views over the event log so a reorg only ever has to delete events.
+
+  CREATE VIEW IF NOT EXISTS members AS
+  SELECT
+    json_extract(a.args, '$.member') AS address,
+    a.block_number AS activated_block,
+    a.timestamp AS joined_at,
+    (SELECT json_extract(e.args, '$.ensName') FROM events e
+      WHERE e.event_name = 'ENSNameLinked' AND json_extract(e.args, '$.member') = json_extract(a.args, '$.member')
+      ORDER BY e.block_number DESC, e.log_index DESC LIMIT 1) AS ens_name,
+    (SELECT e.timestamp FROM events e
+      WHERE e.event_name IN ('MemberExited', 'MemberRemoved') AND json_extract(e.args, '$.member') = json_extract(a.args, '$.member')
+      ORDER BY e.block_number DESC LIMIT 1) AS exited_at
+  FROM events a
+  WHERE a.event_name = 'MemberActivated';
+
+  CREATE VIEW IF NOT EXISTS loan_proposals AS
+  SELECT
+    CAST(json_extract(r.args, '$.proposalId') AS INTEGER) AS proposal_id,
+    json_extract(r.args, '$.borrower') AS borrower,
+    COALESCE(
+      (SELECT json_extract(e.args, '$.newAmount') FROM events e
+        WHERE e.event_name = 'LoanProposalEdited' AND json_extract(e.args, '$.proposalId') = json_extract(r.args, '$.proposalId')
+        ORDER BY e.block_number DESC, e.log_index DESC LIMIT 1),
+      json_extract(r.args, '$.amount')
+    ) AS amount,
+    r.timestamp AS created_at,
+    (SELECT COUNT(*) FROM events v
+      WHERE v.event_name = 'LoanVoteCast' AND json_extract(v.args, '$.proposalId') = json_extract(r.args, '$.proposalId')
+        AND json_extract(v.args, '$.support') = 1) AS votes_for,
+    (SELECT COUNT(*) FROM events v
+      WHERE v.event_name = 'LoanVoteCast' AND json_extract(v.args, '$.proposalId') = json_extract(r.args, '$.proposalId')
+        AND json_extract(v.args, '$.support') = 0) AS votes_against,
+    (SELECT CAST(json_extract(e.args, '$.newPhase') AS INTEGER) FROM events e
+      WHERE e.event_name = 'ProposalPhaseChanged' AND json_extract(e.args, '$.proposalId') = json_extract(r.args, '$.proposalId')
+      ORDER BY e.block_number DESC, e.log_index DESC LIMIT 1) AS phase,
+    -- The contract does not link proposals to loans; approval happens in the same transaction as the
+    -- deciding vote, or as the timelock execution when the proposal was queued
+    (SELECT CAST(json_extract(l.args, '$.loanId') AS INTEGER) FROM events l
+      JOIN events v ON v.transaction_hash = l.transaction_hash
+      WHERE l.event_name = 'LoanApproved' AND v.event_name IN ('LoanVoteCast', 'QueuedProposalExecuted')
+        AND json_extract(v.args, '$.proposalId') = json_extract(r.args, '$.proposalId')
+      LIMIT 1) AS loan_id
+  FROM events r
+  WHERE r.event_name = 'LoanRequested';
+
+  CREATE VIEW IF NOT EXISTS loans AS
+  SELECT
+    CAST(json_extract(a.args, '$.loanId') AS INTEGER) AS loan_id,
+    json_extract(a.args, '$.borrower') AS borrower,
+    json_extract(a.args, '$.amount') AS amount,
+    a.timestamp AS approved_at,
+    (SELECT e.timestamp FROM events e
+      WHERE e.event_name = 'LoanRepaid' AND json_extract(e.args, '$.loanId') = json_extract(a.args, '$.loanId')
+      ORDER BY e.block_number DESC LIMIT 1) AS repaid_at,
+    (SELECT json_extract(e.args, '$.amount') FROM events e
+      WHERE e.event_name = 'LoanRepaid' AND json_extract(e.args, '$.loanId') = json_extract(a.args, '$.loanId')
+      ORDER BY e.block_number DESC LIMIT 1) AS amount_repaid,
+    (SELECT COUNT(*) FROM events e
+      WHERE e.event_name = 'LoanRepaymentMade' AND json_extract(e.args, '$.loanId') = json_extract(a.args, '$.loanId')
+    ) AS payments,
+    (SELECT json_extract(e.args, '$.remainingBalance') FROM events e
+      WHERE e.event_name = 'LoanRepaymentMade' AND json_extract(e.args, '$.loanId') = json_extract(a.args, '$.loanId')
+      ORDER BY e.block_number DESC, e.log_index DESC LIMIT 1) AS remaining_balance,
+    (SELECT e.timestamp FROM events e
+      WHERE e.event_name = 'LoanDefaulted' AND json_extract(e.args, '$.loanId') = json_extract(a.args, '$.loanId')
+    ) AS defaulted_at,
+    (SELECT json_extract(e.args, '$.recoveredAmount') FROM events e
+      WHERE e.event_name = 'LoanDefaulted' AND json_extract(e.args, '$.loanId') = json_extract(a.args, '$.loanId')
+    ) AS recovered_amount
+  FROM events a
+  WHERE a.event_name = 'LoanApproved';
+
+  CREATE VIEW IF NOT EXISTS treasury_transactions AS
+  SELECT block_number, log_index, transaction_hash, timestamp,
+    CASE event_name
+      WHEN 'FundsReceived' THEN 'deposit'
+      WHEN 'MembershipFeeReceived' THEN 'membership_fee'
+      WHEN 'LoanDisbursed' THEN 'loan_disbursement'
+      WHEN 'LoanRepaymentMade' THEN 'loan_repayment'
+      WHEN 'TreasuryWithdrawalExecuted' THEN 'withdrawal'
+      WHEN 'MemberExited' THEN 'member_exit'
+      WHEN 'MemberRemoved' THEN 'member_exit'
+      WHEN 'RestakingAllocated' THEN 'stake'
+      WHEN 'YieldDistributed' THEN 'reward'
+    END AS type,
+    CASE WHEN event_name IN ('LoanDisbursed', 'TreasuryWithdrawalExecuted', 'MemberExited', 'MemberRemoved', 'RestakingAllocated')
+      THEN 'out' ELSE 'in' END AS direction,
+    COALESCE(
+      json_extract(args, '$.amount'),
+      json_extract(args, '$.shareWithdrawn'),
+      json_extract(args, '$.totalYield')
+    ) AS amount,
+    COALESCE(
+      json_extract(args, '$.sender'),
+      json_extract(args, '$.member'),
+      json_extract(args, '$.borrower'),
+      json_extract(args, '$.destination')
+    ) AS counterparty
+  FROM events
+  WHERE event_name IN (
+    'FundsReceived', 'MembershipFeeReceived', 'LoanDisbursed', 'LoanRepaymentMade',
+    'TreasuryWithdrawalExecuted', 'MemberExited', 'MemberRemoved', 'RestakingAllocated', 'YieldDistributed'
+  );
+`;
+
+type Row = Record<string, SqlValue>;
+
+/**
+ * SQLite storage for the event indexer. sql.js keeps the database in memory,
+ * so every committed batch is written back to `filePath` when one is given.
+ */
+export class IndexerStore {
+  private constructor(private db: Database, private filePath?: string) {
+    this.db.run(SCHEMA);
+  }
+
+  static async open(filePath?: string): Promise<IndexerStore> {
+    const SQL = await initSqlJs();
+    const data = filePath && fs.existsSync(filePath) ? fs.readFileSync(filePath) : undefined;
+    return new IndexerStore(new SQL.Database(data), filePath);
+  }
+
+  // ============ Writes ============
+
+  /**
+   * Apply one indexed range atomically: its events, the block hashes needed
+   * for reorg detection and the new cursor.
+   */
+  commitBatch(events: IndexedEvent[], blocks: IndexedBlock[], cursor: IndexedBlock) {
+    this.transaction(() => {
+      for (const block of blocks) {
+        this.db.run("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)", [
+          block.number,
+          block.hash,
+          block.timestamp,
+        ]);
+      }
+      for (const event of events) {
+        this.db.run(
+          `INSERT OR REPLACE INTO events
+            (block_number, log_index, block_hash, transaction_hash, event_name, args, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [
+            event.blockNumber,
+            event.logIndex,
+            event.blockHash,
+            event.transactionHash,
+            event.eventName,
+            JSON.stringify(event.args),
+            event.timestamp,
+          ]
+        );
+      }
+      this.setCursor(cursor);
+    });
+  }
+
+  /**
+   * Drop everything indexed after `block` (the common ancestor of a reorg)
+   * and move the cursor back to it.
+   */
+  rewindTo(block: IndexedBlock | null) {
+    const number = block ? block.number : -1;
+    this.transaction(() => {
+      this.db.run("DELETE FROM events WHERE block_number > ?", [number]);
+      this.db.run("DELETE FROM blocks WHERE number > ?", [number]);
+      if (block) {
+        this.setCursor(block);
+      } else {
+        this.db.run("DELETE FROM meta WHERE key = 'cursor'");
+      }
+    });
+  }
+
+  setMeta(key: string, value: string) {
+    this.db.run("INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)", [key, value]);
+    this.save();
+  }
+
+  // ============ Reads ============
+
+  getMeta(key: string): string | undefined {
+    return this.queryOne("SELECT value FROM meta WHERE key = ?", [key])?.value as string | undefined;
+  }
+
+  getCursor(): IndexedBlock | null {
+    const value = this.getMeta("cursor");
+    return value ? (JSON.parse(value) as IndexedBlock) : null;
+  }
+
+  // Stored block hashes at or below `number`, newest first
+  getBlocksBelow(number: number, limit: number = 64): IndexedBlock[] {
+    return this.query("SELECT number, hash, timestamp FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT ?", [
+      number,
+      limit,
+    ]) as unknown as IndexedBlock[];
+  }
+
+  getEvents(filter: EventQuery = {}): IndexedEvent[] {
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+
+    if (filter.eventName !== undefined) {
+      const names = Array.isArray(filter.eventName) ? filter.eventName : [filter.eventName];
+      conditions.push(`event_name IN (${names.map(() => "?").join(", ")})`);
+      params.push(...names);
+    }
+    if (filter.fromBlock !== undefined) {
+      conditions.push("block_number >= ?");
+      params.push(filter.fromBlock);
+    }
+    if (filter.toBlock !== undefined) {
+      conditions.push("block_number <= ?");
+      params.push(filter.toBlock);
+    }
+    if (filter.transactionHash !== undefined) {
+      conditions.push("transaction_hash = ?");
+      params.push(filter.transactionHash);
+    }
+    for (const [name, value] of Object.entries(filter.args ?? {})) {
+      if (!/^\w+$/.test(name)) throw new Error(`Invalid argument name: ${name}`);
+      // Booleans are stored as JSON true/false, which json_extract returns as 1/0; addresses match case-insensitively
+      conditions.push(`LOWER(CAST(json_extract(args, '$.${name}') AS TEXT)) = LOWER(?)`);
+      params.push(value === "true" ? "1" : value === "false" ? "0" : value);
+    }
+
+    const direction = filter.order === "desc" ? "DESC" : "ASC";
+    const rows = this.query(
+      `SELECT * FROM events
+        ${conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : ""}
+        ORDER BY block_number ${direction}, log_index ${direction}
+        LIMIT ? OFFSET ?`,
+      [...params, filter.limit ?? 100, filter.offset ?? 0]
+    );
+    return rows.map(toIndexedEvent);
+  }
+
+  countEvents(): number {
+    return Number(this.queryOne("SELECT COUNT(*) AS count FROM events")?.count ?? 0);
+  }
+
+  query(sql: string, params: SqlValue[] = []): Row[] {
+    const statement = this.db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: Row[] = [];
+      while (statement.step()) rows.push(statement.getAsObject());
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  queryOne(sql: string, params: SqlValue[] = []): Row | undefined {
+    return this.query(sql, params)[0];
+  }
+
+  close() {
+    this.save();
+    this.db.close();
+  }
+
+  // ============ Internal ============
+
+  private setCursor(block: IndexedBlock) {
+    this.db.run("INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)", [JSON.stringify(block)]);
+  }
+
+  private transaction(work: () => void) {
+    this.db.run("BEGIN");
+    try {
+      work();
+      this.db.run("COMMIT");
+    } catch (error) {
+      this.db.run("ROLLBACK");
+      throw error;
+    }
+    this.save();
+  }
+
+  private save() {
+    if (!this.filePath) return;
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    // Write to a temporary file first so a crash never leaves a truncated database behind
+    const temporary = `${this.filePath}.tmp`;
+    fs.writeFileSync(temporary, Buffer.from(this.db.export()));
+    fs.renameSync(temporary, this.filePath);
+  }
+}
+
+function toIndexedEvent(row: Row): IndexedEvent {
+  return {
+    blockNumber: Number(row.block_number),
+    logIndex: Number(row.log_index),
+    blockHash: String(row.block_hash),
+    transactionHash: String(row.transaction_hash),
+    eventName: String(row.event_name),
+    args: JSON.parse(String(row.args)),
+    timestamp: Number(row.timestamp),
+  };
+}
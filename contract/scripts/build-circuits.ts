@@ -0,0 +1,112 @@
+import { execFileSync } from "child_process";
+import { randomBytes } from "crypto";
+import fs from "fs";
+import path from "path";
+import { PoseidonT3 } from "poseidon-solidity";
+import * as snarkjs from "snarkjs";
+
+/**
+ * Compile the voting circuits and run a Groth16 trusted setup for each.
+ *
+ *   npx hardhat run scripts/build-circuits.ts
+ *
+ * Writes the witness generators and proving keys to frontend/public/zk, the
+ * verification keys next to the frontend SDK and the on-chain verifiers to
+ * contracts/verifiers, along with the Poseidon hasher the member tree uses.
+ * Everything but the hasher depends on the setup, so none of it is checked in:
+ * run this once after cloning, and again to replace all of them together.
+ *
+ * The setup has a single contributor who could forge proofs with the entropy,
+ * so these keys are for development and tests only. Production keys must come
+ * from a ceremony's powers of tau and a multi-party phase 2 contribution.
+ */
+const CIRCUITS = [
+  { name: "privateVote", verifier: "PrivateVoteVerifier" },
+  { name: "anonymousVote", verifier: "AnonymousVoteVerifier" },
+];
+const PTAU_POWER = 14; // Up to 2^14 constraints, linear ones included
+
+const ROOT = path.join(__dirname, "..");
+const BUILD_DIR = path.join(ROOT, "circuits", "build");
+const PUBLIC_DIR = path.join(ROOT, "..", "frontend", "public", "zk");
+const SDK_DIR = path.join(ROOT, "..", "frontend", "src", "lib", "sdk");
+const VERIFIERS_DIR = path.join(ROOT, "contracts", "verifiers");
+
+// @types/snarkjs does not declare the curve helpers
+const { curves } = snarkjs as unknown as {
+  curves: { getCurveFromName(name: string): Promise<{ terminate(): Promise<void> }> };
+};
+
+const entropy = () => randomBytes(32).toString("hex");
+
+// viaIR runs out of memory on poseidon-solidity's assembly, so the DAO deploys its precompiled bytecode instead
+function poseidonDeployer() {
+  return `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Generated by scripts/build-circuits.ts from poseidon-solidity's PoseidonT3. Do not edit.
+
+interface IPoseidonT3 {
+    function hash(uint256[2] memory _inputs) external pure returns (uint256);
+}
+
+library PoseidonT3Deployer {
+    function deploy() internal returns (IPoseidonT3 hasher) {
+        bytes memory code = hex"${PoseidonT3.bytecode.slice(2)}";
+        assembly {
+            hasher := create(0, add(code, 0x20), mload(code))
+        }
+        require(address(hasher) != address(0), "PoseidonT3 deployment failed");
+    }
+}
+`;
+}
+
+async function main() {
+  const build = (file: string) => path.join(BUILD_DIR, file);
+  fs.mkdirSync(BUILD_DIR, { recursive: true });
+  fs.mkdirSync(PUBLIC_DIR, { recursive: true });
+  fs.mkdirSync(VERIFIERS_DIR, { recursive: true });
+
+  console.log("🔐 Powers of tau");
+  const curve = await curves.getCurveFromName("bn128");
+  await snarkjs.powersOfTau.newAccumulator(curve, PTAU_POWER, build("pot_0000.ptau"));
+  await snarkjs.powersOfTau.contribute(build("pot_0000.ptau"), build("pot_0001.ptau"), "local", entropy());
+  await snarkjs.powersOfTau.preparePhase2(build("pot_0001.ptau"), build("pot_final.ptau"));
+
+  const template = fs.readFileSync(path.join(ROOT, "node_modules", "snarkjs", "templates", "verifier_groth16.sol.ejs"), "utf8");
+
+  for (const { name, verifier } of CIRCUITS) {
+    console.log(`🔧 Compiling circuits/${name}.circom`);
+    execFileSync(
+      "npx",
+      ["circom2", path.join("circuits", `${name}.circom`), "--r1cs", "--wasm", "-o", BUILD_DIR, "-l", "node_modules"],
+      { cwd: ROOT, stdio: "inherit" }
+    );
+
+    console.log(`🔐 Circuit-specific setup for ${name}`);
+    const zkey = path.join(PUBLIC_DIR, `${name}.zkey`);
+    await snarkjs.zKey.newZKey(build(`${name}.r1cs`), build("pot_final.ptau"), build(`${name}_0000.zkey`));
+    await snarkjs.zKey.contribute(build(`${name}_0000.zkey`), zkey, "local", entropy());
+    fs.copyFileSync(build(`${name}_js/${name}.wasm`), path.join(PUBLIC_DIR, `${name}.wasm`));
+
+    const verificationKey = await snarkjs.zKey.exportVerificationKey(zkey);
+    fs.writeFileSync(path.join(SDK_DIR, `${name}.vkey.json`), JSON.stringify(verificationKey, null, 2) + "\n");
+
+    const source = await snarkjs.zKey.exportSolidityVerifier(zkey, { groth16: template });
+    fs.writeFileSync(
+      path.join(VERIFIERS_DIR, `${verifier}.sol`),
+      source.replace("contract Groth16Verifier", `contract ${verifier}`)
+    );
+  }
+
+  fs.writeFileSync(path.join(VERIFIERS_DIR, "PoseidonT3.sol"), poseidonDeployer());
+
+  await curve.terminate();
+  console.log("✅ Keys written to", path.relative(ROOT, PUBLIC_DIR), "and", path.relative(ROOT, VERIFIERS_DIR));
+}
+
+main().catch((error) => {
+  console.error("❌ Circuit build failed:", error);
+  process.exit(1);
+});
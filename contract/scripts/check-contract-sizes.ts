@@ -0,0 +1,44 @@
+import { artifacts } from "hardhat";
+
+/**
+ * Fail when a contract could not be deployed on mainnet: runtime code is
+ * capped by EIP-170 and creation code by EIP-3860. The hardhat network does
+ * not allow oversized contracts either, so this mostly gives a readable report.
+ *
+ *   npx hardhat run scripts/check-contract-sizes.ts
+ */
+const MAX_RUNTIME_SIZE = 24_576; // EIP-170
+const MAX_INITCODE_SIZE = 49_152; // EIP-3860
+
+const byteLength = (bytecode: string) => (bytecode.length - 2) / 2;
+
+async function main() {
+  const names = (await artifacts.getAllFullyQualifiedNames()).filter((name) => name.startsWith("contracts/"));
+  const oversized: string[] = [];
+  let checked = 0;
+
+  for (const name of names.sort()) {
+    const { contractName, bytecode, deployedBytecode } = await artifacts.readArtifact(name);
+    const runtime = byteLength(deployedBytecode);
+    const initcode = byteLength(bytecode);
+    if (runtime === 0) continue; // Interfaces and abstract contracts
+    checked++;
+
+    const fits = runtime <= MAX_RUNTIME_SIZE && initcode <= MAX_INITCODE_SIZE;
+    console.log(`${fits ? "✅" : "❌"} ${contractName}: ${runtime} bytes runtime, ${initcode} bytes initcode`);
+    if (!fits) oversized.push(contractName);
+  }
+
+  if (oversized.length > 0) {
+    console.error(
+      `\n❌ Over the ${MAX_RUNTIME_SIZE} byte runtime or ${MAX_INITCODE_SIZE} byte initcode limit: ${oversized.join(", ")}`
+    );
+    process.exit(1);
+  }
+  console.log(`\n✅ All ${checked} contracts are within the size limits`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,5 +1,7 @@
 import { ethers } from "hardhat";
 import { UnifiedLendingDAO } from "../typechain-types";
+import { createEthersDAOClient, type EthersDAOClient } from "../../frontend/src/lib/sdk";
+import { PROPOSAL_STATUS_LABELS, PROPOSAL_TYPE_LABELS } from "../../frontend/src/constants";
 
 interface ConfigurationOptions {
   // Feature toggles
@@ -52,10 +54,12 @@ interface ConfigurationOptions {
 
 export class DAOConfigurator {
   private dao: UnifiedLendingDAO;
+  private client: EthersDAOClient;
   private signer: any;
 
   constructor(dao: UnifiedLendingDAO, signer: any) {
     this.dao = dao;
+    this.client = createEthersDAOClient(dao);
     this.signer = signer;
   }
 
@@ -180,9 +184,12 @@ export class DAOConfigurator {
     const results: string[] = [];
 
     if (governance.consensusThreshold !== undefined) {
-      const tx = await this.dao.connect(this.signer).setConsensusThreshold(governance.consensusThreshold);
-      await tx.wait();
-      results.push(`Consensus threshold set to ${governance.consensusThreshold / 100}%`);
+      const proposalId = await this.proposeParameterChange(
+        "setConsensusThreshold",
+        [governance.consensusThreshold],
+        `Set the consensus threshold to ${governance.consensusThreshold / 100}%`
+      );
+      results.push(`Proposed consensus threshold of ${governance.consensusThreshold / 100}% (proposal #${proposalId})`);
     }
 
     // Note: membershipFee cannot be changed after initialization in current contract
@@ -197,35 +204,60 @@ export class DAOConfigurator {
     const results: string[] = [];
 
     if (loanPolicy.minMembershipDuration !== undefined) {
-      const tx = await this.dao.connect(this.signer).setMinMembershipDuration(loanPolicy.minMembershipDuration);
-      await tx.wait();
-      results.push(`Min membership duration set to ${loanPolicy.minMembershipDuration / (24 * 60 * 60)} days`);
+      const days = loanPolicy.minMembershipDuration / (24 * 60 * 60);
+      const proposalId = await this.proposeParameterChange(
+        "setMinMembershipDuration",
+        [loanPolicy.minMembershipDuration],
+        `Set the minimum membership duration to ${days} days`
+      );
+      results.push(`Proposed min membership duration of ${days} days (proposal #${proposalId})`);
     }
 
     if (loanPolicy.maxLoanDuration !== undefined) {
-      const tx = await this.dao.connect(this.signer).setMaxLoanDuration(loanPolicy.maxLoanDuration);
-      await tx.wait();
-      results.push(`Max loan duration set to ${loanPolicy.maxLoanDuration / (24 * 60 * 60)} days`);
+      const days = loanPolicy.maxLoanDuration / (24 * 60 * 60);
+      const proposalId = await this.proposeParameterChange(
+        "setMaxLoanDuration",
+        [loanPolicy.maxLoanDuration],
+        `Set the maximum loan duration to ${days} days`
+      );
+      results.push(`Proposed max loan duration of ${days} days (proposal #${proposalId})`);
     }
 
     if (loanPolicy.minInterestRate !== undefined && loanPolicy.maxInterestRate !== undefined) {
-      const tx = await this.dao.connect(this.signer).setInterestRateRange(
-        loanPolicy.minInterestRate,
-        loanPolicy.maxInterestRate
+      const range = `${loanPolicy.minInterestRate / 100}% - ${loanPolicy.maxInterestRate / 100}%`;
+      const proposalId = await this.proposeParameterChange(
+        "setInterestRateRange",
+        [loanPolicy.minInterestRate, loanPolicy.maxInterestRate],
+        `Set the interest rate range to ${range}`
       );
-      await tx.wait();
-      results.push(`Interest rate range set to ${loanPolicy.minInterestRate / 100}% - ${loanPolicy.maxInterestRate / 100}%`);
+      results.push(`Proposed interest rate range of ${range} (proposal #${proposalId})`);
     }
 
     if (loanPolicy.cooldownPeriod !== undefined) {
-      const tx = await this.dao.connect(this.signer).setCooldownPeriod(loanPolicy.cooldownPeriod);
-      await tx.wait();
-      results.push(`Cooldown period set to ${loanPolicy.cooldownPeriod / (24 * 60 * 60)} days`);
+      const days = loanPolicy.cooldownPeriod / (24 * 60 * 60);
+      const proposalId = await this.proposeParameterChange(
+        "setCooldownPeriod",
+        [loanPolicy.cooldownPeriod],
+        `Set the cooldown period to ${days} days`
+      );
+      results.push(`Proposed cooldown period of ${days} days (proposal #${proposalId})`);
     }
 
     return results;
   }
 
+  // Policy setters only run through governance, so changes are submitted as proposals for members to vote on
+  private async proposeParameterChange(functionName: string, args: number[], description: string) {
+    if (!(await this.dao.isMember(await this.signer.getAddress()))) {
+      throw new Error("❌ Parameter changes must be proposed by a DAO member");
+    }
+
+    const callData = this.dao.interface.encodeFunctionData(functionName, args);
+    const tx = await this.dao.connect(this.signer).proposeParameterChange(callData, description);
+    await tx.wait();
+    return await this.dao.proposalCounter();
+  }
+
   private async configureOperators(operators: NonNullable<ConfigurationOptions['operators']>) {
     const results: string[] = [];
 
@@ -345,32 +377,28 @@ export class DAOConfigurator {
 
   async getProposalsInfo(limit: number = 10) {
     console.log("📋 Fetching proposals information...");
-    const [proposalIds, hasMore] = await this.dao.getProposals(0, limit, false);
+    const { proposals, hasMore } = await this.client.listProposals({ limit });
     
-    console.log(`Found ${proposalIds.length} proposals (${hasMore ? 'showing first ' + limit : 'all'}):`);
+    console.log(`Found ${proposals.length} proposals (${hasMore ? 'showing first ' + limit : 'all'}):`);
     
-    for (let i = 0; i < proposalIds.length; i++) {
-      const proposalId = proposalIds[i];
-      const enhanced = await this.dao.getEnhancedProposal(proposalId);
-      
-      const typeNames = ['Loan', 'Treasury Withdrawal'];
-      const statusNames = ['Pending', 'Approved', 'Rejected', 'Executed'];
+    for (let i = 0; i < proposals.length; i++) {
+      const proposal = proposals[i];
       
-      console.log(`   ${i + 1}. Proposal #${proposalId}`);
-      console.log(`      Type: ${typeNames[Number(enhanced.proposalType)]}`);
-      console.log(`      Status: ${statusNames[Number(enhanced.status)]}`);
-      console.log(`      Proposer: ${enhanced.proposer}`);
-      console.log(`      Votes: ${enhanced.forVotes} for, ${enhanced.againstVotes} against`);
-      console.log(`      Created: ${new Date(Number(enhanced.createdAt) * 1000).toISOString()}`);
-      console.log(`      Private: ${enhanced.isPrivate}`);
-      if (enhanced.documentHash) {
-        console.log(`      Document: ${enhanced.documentHash}`);
+      console.log(`   ${i + 1}. Proposal #${proposal.id}`);
+      console.log(`      Type: ${PROPOSAL_TYPE_LABELS[proposal.type]}`);
+      console.log(`      Status: ${PROPOSAL_STATUS_LABELS[proposal.status]}`);
+      console.log(`      Proposer: ${proposal.proposer}`);
+      console.log(`      Votes: ${proposal.votesFor} for, ${proposal.votesAgainst} against`);
+      console.log(`      Created: ${new Date(proposal.creationTime * 1000).toISOString()}`);
+      console.log(`      Private: ${proposal.isPrivate}`);
+      if (proposal.documentHash) {
+        console.log(`      Document: ${proposal.documentHash}`);
       }
       
-      if (i < proposalIds.length - 1) console.log();
+      if (i < proposals.length - 1) console.log();
     }
 
-    return proposalIds;
+    return proposals.map(proposal => proposal.id);
   }
 
   async performHealthCheck() {
@@ -1,5 +1,7 @@
 import { ethers } from "hardhat";
 import { UnifiedLendingDAO } from "../typechain-types";
+import { createEthersDAOClient } from "../../frontend/src/lib/sdk";
+import { deployUnifiedLendingDAO } from "./lib/deployUnifiedLendingDAO";
 
 interface DeploymentConfig {
   membershipFee: string;
@@ -159,16 +161,21 @@ async function main() {
       .join(", ")
   );
 
-  // Deploy the contract
-  console.log("\n📄 Deploying contract...");
-  const UnifiedLendingDAO = await ethers.getContractFactory(
-    "UnifiedLendingDAO"
-  );
-  const dao = await UnifiedLendingDAO.deploy();
-  await dao.waitForDeployment();
+  // Deploy the modules and the contract
+  console.log("\n📄 Deploying contract and its modules...");
+  const dao = await deployUnifiedLendingDAO();
 
   const daoAddress = await dao.getAddress();
   console.log("✅ UnifiedLendingDAO deployed to:", daoAddress);
+  const modules = {
+    membershipModule: await dao.membershipModule(),
+    loanModule: await dao.loanModule(),
+    governanceModule: await dao.governanceModule(),
+    votingModule: await dao.votingModule(),
+    manifestModule: await dao.manifestModule(),
+    restakingModule: await dao.restakingModule(),
+  };
+  console.log("   - Modules:", modules);
 
   // Initialize the DAO
   console.log("\n🔧 Initializing DAO...");
@@ -259,31 +266,32 @@ async function main() {
 
   // Display final status
   console.log("\n📊 Final DAO Status:");
-  const stats = await dao.getDAOStats();
-  console.log("   - Treasury Balance:", ethers.formatEther(stats[0]), "ETH");
-  console.log("   - Total Members:", stats[1].toString());
-  console.log("   - Active Members:", stats[2].toString());
-  console.log("   - ENS Voting:", stats[9]);
-  console.log("   - Privacy Features:", stats[7]);
-  console.log("   - Restaking:", stats[8]);
-  console.log("   - Document Storage:", stats[10]);
+  const stats = await createEthersDAOClient(dao).getDAOStats();
+  console.log("   - Treasury Balance:", ethers.formatEther(stats.treasuryBalance), "ETH");
+  console.log("   - Total Members:", stats.totalMembers);
+  console.log("   - Active Members:", stats.activeMembers);
+  console.log("   - ENS Voting:", stats.ensEnabled);
+  console.log("   - Privacy Features:", stats.privacyEnabled);
+  console.log("   - Restaking:", stats.restakingEnabled);
+  console.log("   - Document Storage:", stats.documentsEnabled);
 
   // Save deployment info
   const deploymentInfo = {
     network: networkName,
     contractAddress: daoAddress,
+    modules,
     deployerAddress: deployer.address,
     blockNumber: await ethers.provider.getBlockNumber(),
     timestamp: new Date().toISOString(),
     config: config,
     stats: {
-      treasuryBalance: ethers.formatEther(stats[0]),
-      totalMembers: stats[1].toString(),
+      treasuryBalance: ethers.formatEther(stats.treasuryBalance),
+      totalMembers: stats.totalMembers.toString(),
       features: {
-        ensEnabled: stats[9],
-        privacyEnabled: stats[7],
-        restakingEnabled: stats[8],
-        documentsEnabled: stats[10],
+        ensEnabled: stats.ensEnabled,
+        privacyEnabled: stats.privacyEnabled,
+        restakingEnabled: stats.restakingEnabled,
+        documentsEnabled: stats.documentsEnabled,
       },
     },
   };
@@ -295,7 +303,7 @@ async function main() {
   if (networkName !== "localhost") {
     console.log("\n🔍 Verification:");
     console.log("Run the following command to verify the contract:");
-    console.log(`npx hardhat verify --network ${networkName} ${daoAddress}`);
+    console.log(`npx hardhat verify --network ${networkName} ${daoAddress} ${Object.values(modules).join(" ")}`);
   }
 
   return {
@@ -376,13 +384,13 @@ export async function upgradeDAO(
     }
   }
 
-  const stats = await dao.getDAOStats();
+  const stats = await createEthersDAOClient(dao).getDAOStats();
   console.log("\n📊 Updated DAO Status:");
-  console.log("   - Treasury Balance:", ethers.formatEther(stats[0]), "ETH");
-  console.log("   - Total Members:", stats[1].toString());
-  console.log("   - ENS Voting:", stats[9]);
-  console.log("   - Privacy Features:", stats[7]);
-  console.log("   - Restaking:", stats[8]);
+  console.log("   - Treasury Balance:", ethers.formatEther(stats.treasuryBalance), "ETH");
+  console.log("   - Total Members:", stats.totalMembers);
+  console.log("   - ENS Voting:", stats.ensEnabled);
+  console.log("   - Privacy Features:", stats.privacyEnabled);
+  console.log("   - Restaking:", stats.restakingEnabled);
 
   return dao;
 }
@@ -414,9 +422,8 @@ export async function setupTestEnvironment(dao: UnifiedLendingDAO) {
   }
 
   // Setup test operators if restaking is enabled
-  const stats = await dao.getDAOStats();
-  if (stats[8]) {
-    // restakingActive is at index 8
+  const stats = await createEthersDAOClient(dao).getDAOStats();
+  if (stats.restakingEnabled) {
     console.log("🔧 Setting up test operators...");
     const operators = accounts.slice(3, 5);
 
@@ -0,0 +1,28 @@
+import { ethers } from "hardhat";
+
+// Modules UnifiedLendingDAO delegatecalls, in the order its constructor takes them
+export const DAO_MODULES = [
+  "MembershipModule",
+  "LoanModule",
+  "GovernanceModule",
+  "VotingModule",
+  "ManifestModule",
+  "RestakingModule",
+] as const;
+
+/**
+ * Deploy each module, then UnifiedLendingDAO pointing at them. The DAO is left uninitialized.
+ */
+export async function deployUnifiedLendingDAO() {
+  const addresses: string[] = [];
+  for (const name of DAO_MODULES) {
+    const module = await ethers.deployContract(name);
+    addresses.push(await module.getAddress());
+  }
+  const [membership, loan, governance, voting, manifest, restaking] = addresses;
+
+  const UnifiedLendingDAO = await ethers.getContractFactory("UnifiedLendingDAO");
+  const dao = await UnifiedLendingDAO.deploy(membership, loan, governance, voting, manifest, restaking);
+  await dao.waitForDeployment();
+  return dao;
+}
@@ -0,0 +1,56 @@
+import { ethers } from "hardhat";
+
+/**
+ * Keeper job: default every active loan whose earliest unpaid installment is
+ * past the grace period. Run it on a schedule (cron, CI, etc.).
+ *
+ *   DAO_ADDRESS=0x... npx hardhat run scripts/mark-defaulted-loans.ts --network localhost
+ *
+ * Non-admin signers need the "autoLiquidation" feature to be enabled.
+ */
+async function main() {
+  const daoAddress = process.env.DAO_ADDRESS;
+  if (!daoAddress || !ethers.isAddress(daoAddress)) {
+    console.error("❌ Please set DAO_ADDRESS to the deployed DAO contract address");
+    process.exit(1);
+  }
+
+  const [keeper] = await ethers.getSigners();
+  const dao = await ethers.getContractAt("UnifiedLendingDAO", daoAddress, keeper);
+
+  console.log("⏰ Loan Default Keeper");
+  console.log("📍 DAO Address:", daoAddress);
+  console.log("👤 Keeper:", keeper.address);
+
+  if (!(await dao.autoLiquidationEnabled()) && !(await dao.admins(keeper.address))) {
+    console.error("❌ Auto liquidation is disabled and the keeper is not an admin");
+    process.exit(1);
+  }
+
+  const loanIds = await dao.getDefaultableLoans();
+  if (loanIds.length === 0) {
+    console.log("✅ No loans past the grace period");
+    return;
+  }
+
+  for (const loanId of loanIds) {
+    try {
+      const receipt = await (await dao.markLoanDefaulted(loanId)).wait();
+      const event = receipt?.logs
+        .map(log => dao.interface.parseLog(log))
+        .find(parsed => parsed?.name === "LoanDefaulted");
+
+      console.log(
+        `⚠️  Loan #${loanId} defaulted: ${ethers.formatEther(event?.args.outstandingBalance ?? 0)} ETH outstanding, ` +
+          `${ethers.formatEther(event?.args.recoveredAmount ?? 0)} ETH recovered`
+      );
+    } catch (error) {
+      console.error(`❌ Failed to default loan #${loanId}:`, error);
+    }
+  }
+}
+
+main().catch((error) => {
+  console.error("❌ Keeper failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,62 @@
+import { artifacts, ethers } from "hardhat";
+import path from "path";
+import { DAOIndexer, IndexerStore, createIndexerServer } from "../indexer";
+
+/**
+ * Index a deployed UnifiedLendingDAO into SQLite and serve the query API.
+ *
+ *   DAO_ADDRESS=0x... npx hardhat run scripts/run-indexer.ts --network localhost
+ *
+ * Optional: INDEXER_RPC_URL (defaults to the hardhat network), INDEXER_DB,
+ * INDEXER_PORT, INDEXER_START_BLOCK, INDEXER_CONFIRMATIONS.
+ */
+async function main() {
+  const daoAddress = process.env.DAO_ADDRESS;
+  if (!daoAddress || !ethers.isAddress(daoAddress)) {
+    console.error("❌ Please set DAO_ADDRESS to the deployed DAO contract address");
+    process.exit(1);
+  }
+
+  const provider = process.env.INDEXER_RPC_URL
+    ? new ethers.JsonRpcProvider(process.env.INDEXER_RPC_URL)
+    : ethers.provider;
+  const dbPath = process.env.INDEXER_DB || path.join(__dirname, "..", "indexer-data", "dao.sqlite");
+  const port = Number(process.env.INDEXER_PORT || 4350);
+
+  const { abi } = await artifacts.readArtifact("UnifiedLendingDAO");
+  const store = await IndexerStore.open(dbPath);
+  const indexer = new DAOIndexer(provider, store, {
+    address: daoAddress,
+    abi,
+    startBlock: Number(process.env.INDEXER_START_BLOCK || 0),
+    confirmations: Number(process.env.INDEXER_CONFIRMATIONS || 0),
+    onError: error => console.error("⚠️  Sync failed, retrying:", error),
+  });
+
+  console.log("🗂️  DAO Event Indexer");
+  console.log("📍 DAO Address:", daoAddress);
+  console.log("💾 Database:", dbPath);
+
+  const first = await indexer.sync();
+  console.log(`✅ Backfilled ${first?.events ?? 0} events up to block ${store.getCursor()?.number ?? "-"}`);
+
+  indexer.start();
+  const server = createIndexerServer(store).listen(port, () => {
+    console.log(`🌐 Query API listening on http://localhost:${port}`);
+  });
+
+  const shutdown = async () => {
+    console.log("\n⏹️  Stopping indexer...");
+    server.close();
+    await indexer.stop();
+    store.close();
+    process.exit(0);
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error("❌ Indexer failed:", error);
+  process.exit(1);
+});
@@ -5,6 +5,7 @@ import {
   MockSymbioticCore
 } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
 
 describe("Advanced LendingDAO Integrations", function () {
   let dao: UnifiedLendingDAO;
@@ -31,9 +32,7 @@ describe("Advanced LendingDAO Integrations", function () {
     await symbioticCore.waitForDeployment();
     
     // Deploy enhanced DAO
-    const LendingDAOFactory = await ethers.getContractFactory("UnifiedLendingDAO");
-    dao = await LendingDAOFactory.deploy();
-    await dao.waitForDeployment();
+    dao = await deployUnifiedLendingDAO();
     
     // Initialize DAO
     const loanPolicy = {
@@ -0,0 +1,298 @@
+import { expect } from "chai";
+import path from "path";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { UnifiedLendingDAO } from "../typechain-types";
+import {
+  anonymousVoteNullifier,
+  computeMemberTreeRoot,
+  createEthersDAOClient,
+  generateIdentity,
+  getMembershipProof,
+  proveAnonymousVote,
+  toSolidityProof,
+  verifyAnonymousVoteProof,
+} from "../../frontend/src/lib/sdk";
+import type { MemberIdentity } from "../../frontend/src/lib/sdk";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
+
+// Checked-in output of scripts/build-circuits.ts
+const ARTIFACTS = {
+  wasm: path.join(__dirname, "../../frontend/public/zk/anonymousVote.wasm"),
+  zkey: path.join(__dirname, "../../frontend/public/zk/anonymousVote.zkey"),
+};
+
+describe("Anonymous Voting", function () {
+  const membershipFee = ethers.parseEther("0.1");
+  const PENDING = 0;
+
+  after(async function () {
+    // snarkjs keeps its curve worker threads alive otherwise
+    await (globalThis as { curve_bn128?: { terminate(): Promise<void> } }).curve_bn128?.terminate();
+  });
+
+  async function deployAnonymousGroupFixture() {
+    const [owner, admin1, member1, member2, member3, member4, member5, relayer] = await ethers.getSigners();
+
+    const dao = await deployUnifiedLendingDAO();
+    await dao.initialize([admin1.address], 5100, membershipFee, {
+      minMembershipDuration: 30 * 24 * 60 * 60, // 30 days
+      membershipContribution: membershipFee,
+      maxLoanDuration: 90 * 24 * 60 * 60, // 90 days
+      minInterestRate: 500, // 5%
+      maxInterestRate: 2000, // 20%
+      cooldownPeriod: 7 * 24 * 60 * 60, // 7 days
+      maxLoanToTreasuryRatio: 5000, // 50%
+    });
+    await owner.sendTransaction({ to: await dao.getAddress(), value: ethers.parseEther("10") });
+
+    const members = [member1, member2, member3, member4, member5];
+    const identities: MemberIdentity[] = [];
+    for (const member of members) {
+      await dao.connect(member).registerMember("", "", { value: membershipFee });
+      const identity = generateIdentity();
+      await dao.connect(member).registerIdentity(identity.commitment);
+      identities.push(identity);
+    }
+    await dao.connect(admin1).setPrivacyLevel(3);
+
+    // Fast-forward to bypass membership duration
+    await ethers.provider.send("evm_increaseTime", [31 * 24 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+
+    const commitment = ethers.keccak256(ethers.toUtf8Bytes("loan terms"));
+    const proposalId = await dao.connect(member1).requestLoan.staticCall(0, true, commitment, "");
+    await dao.connect(member1).requestLoan(0, true, commitment, "");
+
+    return { dao, admin1, members, identities, relayer, proposalId };
+  }
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  const openVoting = () => increaseTime(3 * 24 * 60 * 60 + 1); // PROPOSAL_EDITING_PERIOD
+
+  async function prove(dao: UnifiedLendingDAO, proposalId: bigint, identity: MemberIdentity, support: boolean) {
+    const loan = await dao.loanProposals(proposalId);
+    return proveAnonymousVote(
+      {
+        proposalId,
+        support,
+        secret: identity.secret,
+        membershipProof: await createEthersDAOClient(dao).getMembershipProof(identity.commitment, proposalId),
+        excludedIdentity: await dao.identityCommitments(loan.borrower),
+      },
+      ARTIFACTS
+    );
+  }
+
+  async function castVote(
+    dao: UnifiedLendingDAO,
+    proposalId: bigint,
+    identity: MemberIdentity,
+    support: boolean,
+    sender: HardhatEthersSigner
+  ) {
+    const proof = await prove(dao, proposalId, identity, support);
+    const [nullifier, root] = proof.publicSignals;
+    return dao.connect(sender).castAnonymousVote(proposalId, support, root, nullifier, toSolidityProof(proof));
+  }
+
+  it("Should keep the on-chain member tree in step with the SDK", async function () {
+    const { dao, members, identities } = await loadFixture(deployAnonymousGroupFixture);
+
+    const leaves = await dao.getMemberTreeLeaves();
+    expect(leaves).to.deep.equal(identities.map((identity) => identity.commitment));
+    expect(await dao.memberTreeSize()).to.equal(members.length);
+    expect(await dao.memberTreeRoot()).to.equal(computeMemberTreeRoot(leaves));
+    expect(getMembershipProof(leaves, identities[2].commitment).root).to.equal(await dao.memberTreeRoot());
+
+    await expect(dao.connect(members[0]).registerIdentity(generateIdentity().commitment))
+      .to.be.revertedWithCustomError(dao, "IdentityAlreadyRegistered");
+    const [, , , , , , , , outsider] = await ethers.getSigners();
+    await expect(dao.connect(outsider).registerIdentity(generateIdentity().commitment))
+      .to.be.revertedWithCustomError(dao, "NotMember");
+  });
+
+  it("Should reject identity commitments outside the SNARK field", async function () {
+    const { dao } = await loadFixture(deployAnonymousGroupFixture);
+    const [, , , , , , , , newcomer] = await ethers.getSigners();
+    await dao.connect(newcomer).registerMember("", "", { value: membershipFee });
+
+    await expect(dao.connect(newcomer).registerIdentity(0))
+      .to.be.revertedWithCustomError(dao, "InvalidIdentityCommitment");
+    await expect(dao.connect(newcomer).registerIdentity(ethers.MaxUint256))
+      .to.be.revertedWithCustomError(dao, "InvalidIdentityCommitment");
+  });
+
+  it("Should only count identities registered by the proposal's snapshot", async function () {
+    const { dao, members, identities, relayer, proposalId } = await loadFixture(deployAnonymousGroupFixture);
+    await openVoting();
+    const snapshotRoot = await dao.memberTreeRoot();
+    const [, , , , , , , , newcomer] = await ethers.getSigners();
+    await dao.connect(newcomer).registerMember("", "", { value: membershipFee });
+
+    const identity = generateIdentity();
+    const leaves = [...identities.map((member) => member.commitment), identity.commitment];
+    await expect(dao.connect(newcomer).registerIdentity(identity.commitment))
+      .to.emit(dao, "IdentityRegistered")
+      .withArgs(newcomer.address, identities.length, identity.commitment, computeMemberTreeRoot(leaves));
+    expect(await dao.memberTreeRoot()).to.equal(computeMemberTreeRoot(leaves));
+    expect(await dao.anonymousVoteRoot(proposalId)).to.equal(snapshotRoot);
+
+    // The newcomer is in the current tree but not in the one the proposal counts
+    const loan = await dao.loanProposals(proposalId);
+    const proof = await proveAnonymousVote(
+      {
+        proposalId,
+        support: true,
+        secret: identity.secret,
+        membershipProof: getMembershipProof(leaves, identity.commitment),
+        excludedIdentity: await dao.identityCommitments(loan.borrower),
+      },
+      ARTIFACTS
+    );
+    const [nullifier, root] = proof.publicSignals;
+    await expect(
+      dao.connect(relayer).castAnonymousVote(proposalId, true, root, nullifier, toSolidityProof(proof))
+    ).to.be.revertedWithCustomError(dao, "UnknownMerkleRoot");
+    await expect(prove(dao, proposalId, identity, true)).to.be.rejectedWith("Identity is not in the member tree");
+
+    // Members from before the snapshot still vote, and a later removal still applies
+    await expect(castVote(dao, proposalId, identities[1], true, relayer)).to.emit(dao, "AnonymousVoteCast");
+    await dao.connect(members[4]).exitDAO();
+    const snapshotLeaves = identities.map((member) => member.commitment);
+    snapshotLeaves[4] = 0n;
+    expect(await dao.anonymousVoteRoot(proposalId)).to.equal(computeMemberTreeRoot(snapshotLeaves));
+    await expect(castVote(dao, proposalId, identities[2], true, relayer)).to.emit(dao, "AnonymousVoteCast");
+  });
+
+  it("Should remove the identity from the tree on exitDAO", async function () {
+    const { dao, members, identities, relayer, proposalId } = await loadFixture(deployAnonymousGroupFixture);
+    await openVoting();
+    const previousRoot = await dao.memberTreeRoot();
+    const staleProof = await prove(dao, proposalId, identities[4], true);
+
+    const leaves = identities.map((identity) => identity.commitment);
+    leaves[4] = 0n;
+    await expect(dao.connect(members[4]).exitDAO())
+      .to.emit(dao, "IdentityRemoved")
+      .withArgs(members[4].address, 4, computeMemberTreeRoot(leaves));
+
+    expect(await dao.getMemberTreeLeaves()).to.deep.equal(leaves);
+    expect(await dao.memberTreeSize()).to.equal(identities.length);
+    expect(await dao.memberTreeRoot()).to.equal(computeMemberTreeRoot(leaves));
+    expect(await dao.identityCommitments(members[4].address)).to.equal(0);
+
+    // Roots that still include the exited member are no longer accepted
+    expect(await dao.anonymousVoteRoot(proposalId)).to.not.equal(previousRoot);
+    const [nullifier, root] = staleProof.publicSignals;
+    await expect(
+      dao.connect(relayer).castAnonymousVote(proposalId, true, root, nullifier, toSolidityProof(staleProof))
+    ).to.be.revertedWithCustomError(dao, "UnknownMerkleRoot");
+
+    // And there is no path to the exited identity in the current tree
+    expect(() => getMembershipProof(leaves, identities[4].commitment)).to.throw("Identity is not in the member tree");
+
+    // Remaining members still prove against the updated root
+    await expect(castVote(dao, proposalId, identities[1], true, relayer)).to.emit(dao, "AnonymousVoteCast");
+  });
+
+  it("Should let a relayer submit votes keyed by nullifier", async function () {
+    const { dao, identities, relayer, proposalId } = await loadFixture(deployAnonymousGroupFixture);
+    await openVoting();
+    const nullifier = anonymousVoteNullifier(identities[1].secret, proposalId);
+
+    await expect(castVote(dao, proposalId, identities[1], true, relayer))
+      .to.emit(dao, "AnonymousVoteCast")
+      .withArgs(proposalId, nullifier, true, 1)
+      .and.not.to.emit(dao, "LoanVoteCast");
+
+    expect(await dao.anonymousNullifiers(proposalId, nullifier)).to.equal(true);
+    expect((await dao.loanProposals(proposalId)).forVotes).to.equal(1);
+
+    // The same identity cannot vote twice, whoever submits
+    await expect(castVote(dao, proposalId, identities[1], false, relayer))
+      .to.be.revertedWithCustomError(dao, "NullifierAlreadyUsed");
+  });
+
+  it("Should reject proofs that do not match the submitted vote", async function () {
+    const { dao, identities, relayer, proposalId } = await loadFixture(deployAnonymousGroupFixture);
+    await openVoting();
+    const proof = await prove(dao, proposalId, identities[1], true);
+    const [nullifier, root] = proof.publicSignals;
+    const solidityProof = toSolidityProof(proof);
+
+    await expect(dao.connect(relayer).castAnonymousVote(proposalId, false, root, nullifier, solidityProof))
+      .to.be.revertedWithCustomError(dao, "InvalidProof");
+    await expect(dao.connect(relayer).castAnonymousVote(proposalId, true, root, 1n, solidityProof))
+      .to.be.revertedWithCustomError(dao, "InvalidProof");
+    await expect(dao.connect(relayer).castAnonymousVote(proposalId, true, 1n, nullifier, solidityProof))
+      .to.be.revertedWithCustomError(dao, "UnknownMerkleRoot");
+
+    await dao.connect(relayer).castAnonymousVote(proposalId, true, root, nullifier, solidityProof);
+  });
+
+  it("Should keep the borrower out of votes on their own loan", async function () {
+    const { dao, identities, proposalId } = await loadFixture(deployAnonymousGroupFixture);
+    await openVoting();
+
+    // The circuit cannot be satisfied for the excluded identity
+    await expect(prove(dao, proposalId, identities[0], true)).to.be.rejected;
+
+    // Claiming nobody is excluded does not verify against the borrower's identity on-chain
+    const leaves = await dao.getMemberTreeLeaves();
+    const proof = await proveAnonymousVote(
+      {
+        proposalId,
+        support: true,
+        secret: identities[0].secret,
+        membershipProof: getMembershipProof(leaves, identities[0].commitment),
+        excludedIdentity: 0n,
+      },
+      ARTIFACTS
+    );
+    expect(await verifyAnonymousVoteProof(proof)).to.equal(true);
+    const [nullifier, root] = proof.publicSignals;
+    await expect(dao.castAnonymousVote(proposalId, true, root, nullifier, toSolidityProof(proof)))
+      .to.be.revertedWithCustomError(dao, "InvalidProof");
+  });
+
+  it("Should only take anonymous votes on anonymous proposals", async function () {
+    const { dao, members, identities, relayer, proposalId } = await loadFixture(deployAnonymousGroupFixture);
+    expect(await dao.isAnonymousProposal(proposalId)).to.equal(true);
+    await openVoting();
+
+    await expect(dao.connect(members[1]).voteOnLoanProposal(proposalId, true))
+      .to.be.revertedWithCustomError(dao, "AnonymousVoteRequired");
+    await expect(
+      dao.connect(members[1]).commitPrivateVote(proposalId, ethers.id("commitment"), ethers.id("nullifier"), Array(8).fill(0n))
+    ).to.be.revertedWithCustomError(dao, "AnonymousVoteRequired");
+
+    const publicId = await dao.connect(members[1]).requestLoan.staticCall(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+    await dao.connect(members[1]).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+    await openVoting();
+    await expect(castVote(dao, publicId, identities[2], true, relayer))
+      .to.be.revertedWithCustomError(dao, "NotAnonymousProposal");
+  });
+
+  it("Should approve once enough anonymous votes are counted", async function () {
+    const { dao, identities, relayer, proposalId } = await loadFixture(deployAnonymousGroupFixture);
+    await openVoting();
+
+    await castVote(dao, proposalId, identities[1], true, relayer);
+    await castVote(dao, proposalId, identities[2], false, relayer);
+    expect((await dao.loanProposals(proposalId)).status).to.equal(PENDING);
+
+    await castVote(dao, proposalId, identities[3], true, relayer);
+    await castVote(dao, proposalId, identities[4], true, relayer);
+
+    const proposal = await dao.loanProposals(proposalId);
+    expect(proposal.forVotes).to.equal(3);
+    expect(proposal.againstVotes).to.equal(1);
+    expect(proposal.status).to.not.equal(PENDING);
+  });
+});
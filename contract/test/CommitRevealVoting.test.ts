@@ -0,0 +1,309 @@
+import { expect } from "chai";
+import path from "path";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { UnifiedLendingDAO } from "../typechain-types";
+import {
+  generateVoteSecret,
+  hashPrivateVote,
+  provePrivateVote,
+  toSolidityProof,
+  verifyPrivateVoteProof,
+} from "../../frontend/src/lib/sdk";
+import type { PrivateVoteOption } from "../../frontend/src/lib/sdk";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
+
+// Checked-in output of scripts/build-circuits.ts
+const ARTIFACTS = {
+  wasm: path.join(__dirname, "../../frontend/public/zk/privateVote.wasm"),
+  zkey: path.join(__dirname, "../../frontend/public/zk/privateVote.zkey"),
+};
+
+describe("Commit-Reveal Private Voting", function () {
+  const membershipFee = ethers.parseEther("0.1");
+  const VOTE_AGAINST = 0;
+  const VOTE_FOR = 1;
+  const VOTE_ABSTAIN = 2;
+  const PENDING = 0;
+  const REJECTED = 2;
+  const CANCELLED = 4;
+
+  after(async function () {
+    // snarkjs keeps its curve worker threads alive otherwise
+    await (globalThis as { curve_bn128?: { terminate(): Promise<void> } }).curve_bn128?.terminate();
+  });
+
+  async function deployPrivateLoanFixture() {
+    const [owner, admin1, member1, member2, member3, member4, member5] = await ethers.getSigners();
+
+    const dao = await deployUnifiedLendingDAO();
+    await dao.initialize([admin1.address], 5100, membershipFee, {
+      minMembershipDuration: 30 * 24 * 60 * 60, // 30 days
+      membershipContribution: membershipFee,
+      maxLoanDuration: 90 * 24 * 60 * 60, // 90 days
+      minInterestRate: 500, // 5%
+      maxInterestRate: 2000, // 20%
+      cooldownPeriod: 7 * 24 * 60 * 60, // 7 days
+      maxLoanToTreasuryRatio: 5000, // 50%
+    });
+    await owner.sendTransaction({ to: await dao.getAddress(), value: ethers.parseEther("10") });
+
+    for (const member of [member1, member2, member3, member4, member5]) {
+      await dao.connect(member).registerMember("", "", { value: membershipFee });
+    }
+    await dao.connect(admin1).toggleFeature("confidentialLoans", true);
+
+    // Fast-forward to bypass membership duration
+    await ethers.provider.send("evm_increaseTime", [31 * 24 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+
+    const commitment = ethers.keccak256(ethers.toUtf8Bytes("loan terms"));
+    const proposalId = await dao.connect(member1).requestLoan.staticCall(0, true, commitment, "");
+    await dao.connect(member1).requestLoan(0, true, commitment, "");
+
+    return { dao, admin1, borrower: member1, voters: [member2, member3, member4, member5], proposalId };
+  }
+
+  async function increaseTime(seconds: number) {
+    await ethers.provider.send("evm_increaseTime", [seconds]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  const openVoting = () => increaseTime(3 * 24 * 60 * 60 + 1); // PROPOSAL_EDITING_PERIOD
+  const endVoting = () => increaseTime(7 * 24 * 60 * 60); // VOTING_PERIOD
+  const endReveal = () => increaseTime(2 * 24 * 60 * 60); // REVEAL_PERIOD
+
+  async function prove(
+    proposalId: bigint,
+    voter: HardhatEthersSigner,
+    option: PrivateVoteOption,
+    secret: `0x${string}`,
+    reveal = false
+  ) {
+    const proof = await provePrivateVote(
+      { proposalId, option, voter: voter.address as `0x${string}`, secret, reveal },
+      ARTIFACTS
+    );
+    return toSolidityProof(proof);
+  }
+
+  async function commit(
+    dao: UnifiedLendingDAO,
+    proposalId: bigint,
+    voter: HardhatEthersSigner,
+    option: PrivateVoteOption
+  ) {
+    const secret = generateVoteSecret();
+    const vote = hashPrivateVote(proposalId, option, voter.address as `0x${string}`, secret);
+    const proof = await prove(proposalId, voter, option, secret);
+    await dao.connect(voter).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, proof);
+    return { ...vote, option, secret };
+  }
+
+  async function reveal(
+    dao: UnifiedLendingDAO,
+    proposalId: bigint,
+    voter: HardhatEthersSigner,
+    vote: { option: PrivateVoteOption; secret: `0x${string}` }
+  ) {
+    const choice = { against: VOTE_AGAINST, for: VOTE_FOR, abstain: VOTE_ABSTAIN }[vote.option];
+    const proof = await prove(proposalId, voter, vote.option, vote.secret, true);
+    return dao.connect(voter).revealPrivateVote(proposalId, choice, proof);
+  }
+
+  it("Should require commit-reveal on private proposals", async function () {
+    const { dao, voters, proposalId } = await loadFixture(deployPrivateLoanFixture);
+    await openVoting();
+
+    await expect(dao.connect(voters[0]).voteOnLoanProposal(proposalId, true))
+      .to.be.revertedWithCustomError(dao, "CommitRevealRequired");
+  });
+
+  it("Should store commitments and nullifiers while voting is open", async function () {
+    const { dao, borrower, voters, proposalId } = await loadFixture(deployPrivateLoanFixture);
+    const secret = generateVoteSecret();
+    const vote = hashPrivateVote(proposalId, "for", voters[0].address as `0x${string}`, secret);
+    const proof = await prove(proposalId, voters[0], "for", secret);
+
+    await expect(dao.connect(voters[0]).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, proof))
+      .to.be.revertedWithCustomError(dao, "ProposalInEditingPhase");
+
+    await openVoting();
+    await expect(dao.connect(voters[0]).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, proof))
+      .to.emit(dao, "PrivateVoteCast")
+      .withArgs(proposalId, voters[0].address, vote.commitment);
+
+    expect(await dao.voteCommitments(proposalId, voters[0].address)).to.equal(vote.commitment);
+    expect(await dao.voteNullifiers(proposalId, voters[0].address)).to.equal(vote.nullifier);
+    expect(await dao.unrevealedVotes(proposalId)).to.equal(1);
+
+    // Nothing is counted before the reveal
+    const proposal = await dao.loanProposals(proposalId);
+    expect(proposal.forVotes).to.equal(0);
+
+    await expect(dao.connect(voters[0]).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, proof))
+      .to.be.revertedWithCustomError(dao, "AlreadyVoted");
+    await expect(dao.connect(borrower).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, proof))
+      .to.be.revertedWithCustomError(dao, "CannotVoteOnOwnProposal");
+    await expect(dao.connect(voters[1]).commitPrivateVote(proposalId, ethers.ZeroHash, vote.nullifier, proof))
+      .to.be.revertedWithCustomError(dao, "InvalidCommitment");
+    await expect(dao.connect(voters[1]).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, proof))
+      .to.be.revertedWithCustomError(dao, "NullifierAlreadyUsed");
+
+    await endVoting();
+    const lateSecret = generateVoteSecret();
+    const late = hashPrivateVote(proposalId, "for", voters[1].address as `0x${string}`, lateSecret);
+    const lateProof = await prove(proposalId, voters[1], "for", lateSecret);
+    await expect(dao.connect(voters[1]).commitPrivateVote(proposalId, late.commitment, late.nullifier, lateProof))
+      .to.be.revertedWithCustomError(dao, "VotingPeriodEnded");
+  });
+
+  it("Should reject commits on public proposals", async function () {
+    const { dao, borrower, voters } = await loadFixture(deployPrivateLoanFixture);
+    const proposalId = await dao.connect(voters[0]).requestLoan.staticCall(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+    await dao.connect(voters[0]).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+    await openVoting();
+
+    const secret = generateVoteSecret();
+    const vote = hashPrivateVote(proposalId, "for", borrower.address as `0x${string}`, secret);
+    const proof = await prove(proposalId, borrower, "for", secret);
+    await expect(dao.connect(borrower).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, proof))
+      .to.be.revertedWithCustomError(dao, "NotPrivateProposal");
+  });
+
+  it("Should reject commits without a valid proof for the sender and proposal", async function () {
+    const { dao, voters, proposalId } = await loadFixture(deployPrivateLoanFixture);
+    await openVoting();
+    const secret = generateVoteSecret();
+    const vote = hashPrivateVote(proposalId, "for", voters[0].address as `0x${string}`, secret);
+    const proof = await prove(proposalId, voters[0], "for", secret);
+
+    // The proof binds the voter, so it cannot be replayed from another account
+    const other = hashPrivateVote(proposalId, "for", voters[1].address as `0x${string}`, secret);
+    await expect(dao.connect(voters[1]).commitPrivateVote(proposalId, other.commitment, other.nullifier, proof))
+      .to.be.revertedWithCustomError(dao, "InvalidProof");
+    await expect(dao.connect(voters[1]).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, proof))
+      .to.be.revertedWithCustomError(dao, "InvalidProof");
+
+    // Nor attached to a commitment it was not generated for
+    const forged = hashPrivateVote(proposalId, "against", voters[0].address as `0x${string}`, secret);
+    await expect(dao.connect(voters[0]).commitPrivateVote(proposalId, forged.commitment, vote.nullifier, proof))
+      .to.be.revertedWithCustomError(dao, "InvalidProof");
+    const tampered = proof.map((value, i) => (i === 7 ? value + 1n : value)) as unknown as typeof proof;
+    await expect(dao.connect(voters[0]).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, tampered))
+      .to.be.revertedWithCustomError(dao, "InvalidProof");
+
+    await dao.connect(voters[0]).commitPrivateVote(proposalId, vote.commitment, vote.nullifier, proof);
+  });
+
+  it("Should verify proofs off-chain with the SDK", async function () {
+    const voter = (await ethers.getSigners())[1];
+    const proof = await provePrivateVote(
+      { proposalId: 7, option: "abstain", voter: voter.address as `0x${string}`, secret: generateVoteSecret() },
+      ARTIFACTS
+    );
+    expect(await verifyPrivateVoteProof(proof)).to.equal(true);
+    expect(proof.publicSignals[2]).to.equal("7");
+
+    const publicSignals = [...proof.publicSignals];
+    publicSignals[2] = "8";
+    expect(await verifyPrivateVoteProof({ ...proof, publicSignals })).to.equal(false);
+  });
+
+  it("Should only accept reveals that match the commitment during the reveal period", async function () {
+    const { dao, voters, proposalId } = await loadFixture(deployPrivateLoanFixture);
+    await openVoting();
+    const vote = await commit(dao, proposalId, voters[0], "for");
+    const proof = await prove(proposalId, voters[0], "for", vote.secret, true);
+
+    await expect(dao.connect(voters[0]).revealPrivateVote(proposalId, VOTE_FOR, proof))
+      .to.be.revertedWithCustomError(dao, "RevealPeriodNotStarted");
+
+    await endVoting();
+    await expect(dao.connect(voters[0]).revealPrivateVote(proposalId, VOTE_AGAINST, proof))
+      .to.be.revertedWithCustomError(dao, "InvalidReveal");
+    await expect(dao.connect(voters[0]).revealPrivateVote(proposalId, 3, proof))
+      .to.be.revertedWithCustomError(dao, "InvalidReveal");
+    // Opening the commitment to another choice or with another secret does not match what was stored
+    const switched = await prove(proposalId, voters[0], "against", vote.secret, true);
+    await expect(dao.connect(voters[0]).revealPrivateVote(proposalId, VOTE_AGAINST, switched))
+      .to.be.revertedWithCustomError(dao, "InvalidReveal");
+    const guessed = await prove(proposalId, voters[0], "for", generateVoteSecret(), true);
+    await expect(dao.connect(voters[0]).revealPrivateVote(proposalId, VOTE_FOR, guessed))
+      .to.be.revertedWithCustomError(dao, "InvalidReveal");
+    // A commit proof keeps the choice private, so it cannot reveal it
+    const commitProof = await prove(proposalId, voters[0], "for", vote.secret);
+    await expect(dao.connect(voters[0]).revealPrivateVote(proposalId, VOTE_FOR, commitProof))
+      .to.be.revertedWithCustomError(dao, "InvalidReveal");
+    await expect(dao.connect(voters[1]).revealPrivateVote(proposalId, VOTE_FOR, proof))
+      .to.be.revertedWithCustomError(dao, "NoCommittedVote");
+
+    await endReveal();
+    await expect(dao.connect(voters[0]).revealPrivateVote(proposalId, VOTE_FOR, proof))
+      .to.be.revertedWithCustomError(dao, "RevealPeriodEnded");
+  });
+
+  it("Should count revealed votes and approve once the threshold is met", async function () {
+    const { dao, voters, proposalId } = await loadFixture(deployPrivateLoanFixture);
+    await openVoting();
+    const votes = [];
+    for (const voter of voters.slice(0, 3)) {
+      votes.push(await commit(dao, proposalId, voter, "for"));
+    }
+    await endVoting();
+
+    const weight = await dao.getVotes(voters[0].address);
+    await expect(reveal(dao, proposalId, voters[0], votes[0]))
+      .to.emit(dao, "PrivateVoteRevealed")
+      .withArgs(proposalId, voters[0].address, VOTE_FOR, weight)
+      .and.to.emit(dao, "LoanVoteCast")
+      .withArgs(proposalId, voters[0].address, true);
+
+    expect((await dao.loanProposals(proposalId)).forVotes).to.equal(weight);
+    expect(await dao.voteCommitments(proposalId, voters[0].address)).to.equal(ethers.ZeroHash);
+    expect(await dao.unrevealedVotes(proposalId)).to.equal(2);
+
+    // A revealed vote cannot be revealed again
+    await expect(reveal(dao, proposalId, voters[0], votes[0]))
+      .to.be.revertedWithCustomError(dao, "NoCommittedVote");
+
+    await reveal(dao, proposalId, voters[1], votes[1]);
+    // The approved loan cannot be paid out while its amount is only committed to
+    await expect(reveal(dao, proposalId, voters[2], votes[2]))
+      .to.emit(dao, "ProposalExecutionFailed")
+      .withArgs(proposalId, dao.interface.encodeErrorResult("PrivateLoanAmountUnavailable"));
+
+    expect((await dao.loanProposals(proposalId)).status).to.equal(CANCELLED);
+    expect(await dao.loanCounter()).to.equal(0);
+  });
+
+  it("Should ignore abstentions and unrevealed votes when finalizing", async function () {
+    const { dao, voters, proposalId } = await loadFixture(deployPrivateLoanFixture);
+    await openVoting();
+    const forVote = await commit(dao, proposalId, voters[0], "for");
+    const againstVote = await commit(dao, proposalId, voters[1], "against");
+    const abstainVote = await commit(dao, proposalId, voters[2], "abstain");
+    await commit(dao, proposalId, voters[3], "for"); // Never revealed
+    await endVoting();
+
+    await reveal(dao, proposalId, voters[0], forVote);
+    await reveal(dao, proposalId, voters[1], againstVote);
+    await expect(reveal(dao, proposalId, voters[2], abstainVote))
+      .to.emit(dao, "PrivateVoteRevealed")
+      .and.not.to.emit(dao, "LoanVoteCast");
+
+    // Reveals stay open after the voting period
+    await expect(dao.finalizeProposal(proposalId)).to.be.revertedWithCustomError(dao, "VotingPeriodNotEnded");
+
+    await endReveal();
+    await dao.finalizeProposal(proposalId);
+
+    const weight = await dao.getVotes(voters[0].address);
+    const proposal = await dao.loanProposals(proposalId);
+    expect(proposal.forVotes).to.equal(weight);
+    expect(proposal.againstVotes).to.equal(weight);
+    expect(proposal.status).to.equal(REJECTED);
+    expect(await dao.unrevealedVotes(proposalId)).to.equal(1);
+  });
+});
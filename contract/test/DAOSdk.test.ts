@@ -0,0 +1,182 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { createEthersDAOClient, createViemDAOClient, decodeParameterChange } from "../../frontend/src/lib/sdk";
+import { LoanStatus, MemberStatus, ProposalStatus, ProposalType } from "../../frontend/src/types/dao";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
+
+describe("DAO SDK", function () {
+  async function deploySDKFixture() {
+    const [owner, admin1, member1, member2, member3] = await ethers.getSigners();
+
+    const dao = await deployUnifiedLendingDAO();
+
+    const membershipFee = ethers.parseEther("0.1");
+    await dao.initialize([admin1.address], 5100, membershipFee, {
+      minMembershipDuration: 30 * 24 * 60 * 60, // 30 days
+      membershipContribution: membershipFee,
+      maxLoanDuration: 90 * 24 * 60 * 60, // 90 days
+      minInterestRate: 500, // 5%
+      maxInterestRate: 2000, // 20%
+      cooldownPeriod: 7 * 24 * 60 * 60, // 7 days
+      maxLoanToTreasuryRatio: 5000, // 50%
+    });
+
+    await owner.sendTransaction({
+      to: await dao.getAddress(),
+      value: ethers.parseEther("10"),
+    });
+
+    // Register through the SDK, with and without an ENS name
+    await createEthersDAOClient(dao.connect(member1)).registerMember(membershipFee, { ensName: "alice.eth" });
+    await createEthersDAOClient(dao.connect(member2)).registerMember(membershipFee);
+    await createEthersDAOClient(dao.connect(member3)).registerMember(membershipFee);
+
+    // Fast-forward to bypass membership duration
+    await ethers.provider.send("evm_increaseTime", [31 * 24 * 60 * 60]); // 31 days
+    await ethers.provider.send("evm_mine", []);
+
+    return { dao, client: createEthersDAOClient(dao), member1, member2, member3, membershipFee };
+  }
+
+  it("Should decode members into the frontend Member shape", async function () {
+    const { client, member1, membershipFee } = await loadFixture(deploySDKFixture);
+
+    const member = await client.getMember(member1.address);
+
+    expect(member.memberAddress).to.equal(member1.address);
+    expect(member.status).to.equal(MemberStatus.ACTIVE_MEMBER);
+    expect(member.joinDate).to.be.a("number").and.to.be.greaterThan(0);
+    expect(member.contributionAmount).to.equal(membershipFee);
+    expect(member.hasActiveLoan).to.be.false;
+    expect(await client.isMember(member1.address)).to.be.true;
+  });
+
+  it("Should request, list and vote on loan proposals", async function () {
+    const { dao, client, member1, member2, member3 } = await loadFixture(deploySDKFixture);
+
+    const loanAmount = ethers.parseEther("1");
+    await (await createEthersDAOClient(dao.connect(member1)).requestLoan(loanAmount, { documentHash: "QmLoanDoc" })).wait();
+    await (await createEthersDAOClient(dao.connect(member2)).requestLoan(ethers.parseEther("0.5"))).wait();
+
+    const { proposals, hasMore } = await client.listProposals({ limit: 10 });
+    expect(hasMore).to.be.false;
+    expect(proposals.map(p => p.id)).to.deep.equal([1, 2]);
+    expect(proposals[0]).to.include({
+      type: ProposalType.LOAN_REQUEST,
+      proposer: member1.address,
+      status: ProposalStatus.PENDING,
+      documentHash: "QmLoanDoc",
+    });
+
+    const pending = await client.getLoanProposal(1);
+    expect(pending?.borrower).to.equal(member1.address);
+    expect(pending?.amount).to.equal(loanAmount);
+    expect(pending?.status).to.equal(ProposalStatus.IN_EDITING);
+
+    // Fast-forward past editing period
+    await ethers.provider.send("evm_increaseTime", [4 * 24 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+
+    await (await createEthersDAOClient(dao.connect(member2)).vote(1, true)).wait();
+    await (await createEthersDAOClient(dao.connect(member3)).vote(1, true)).wait();
+
+    const approved = await client.getLoanProposal(1);
+    expect(approved?.status).to.equal(ProposalStatus.APPROVED);
+    expect(approved?.votesFor).to.equal(2);
+
+    const page = await client.listLoanProposals(0, 10, { status: ProposalStatus.APPROVED });
+    expect(page.proposals.map(p => p.id)).to.deep.equal([1]);
+    expect(page.hasMore).to.be.false;
+
+    const [loan] = await client.getMemberLoans(member1.address);
+    expect(loan.borrower).to.equal(member1.address);
+    expect(loan.amount).to.equal(loanAmount);
+    expect(loan.status).to.equal(LoanStatus.ACTIVE);
+    expect(loan.isActive).to.be.true;
+  });
+
+  it("Should repay loans and report DAO stats", async function () {
+    const { dao, client, member1, member2, member3 } = await loadFixture(deploySDKFixture);
+
+    await createEthersDAOClient(dao.connect(member1)).requestLoan(ethers.parseEther("1"));
+    await ethers.provider.send("evm_increaseTime", [4 * 24 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+    await createEthersDAOClient(dao.connect(member2)).vote(1, true);
+    await createEthersDAOClient(dao.connect(member3)).vote(1, true);
+
+    const loan = await client.getLoan(1);
+    await createEthersDAOClient(dao.connect(member1)).repayLoan(loan.id, loan.amount + loan.totalInterest);
+
+    expect((await client.getLoan(1)).status).to.equal(LoanStatus.REPAID);
+
+    const stats = await client.getDAOStats();
+    expect(stats.totalMembers).to.equal(3);
+    expect(stats.activeMembers).to.equal(3);
+    expect(stats.totalLoans).to.equal(1);
+    expect(stats.activeLoans).to.equal(0);
+    expect(stats.defaultedLoans).to.equal(0);
+    expect(stats.treasuryBalance).to.equal(await ethers.provider.getBalance(await dao.getAddress()));
+  });
+
+  it("Should propose, decode and execute parameter changes", async function () {
+    const { dao, client, member1, member2, member3 } = await loadFixture(deploySDKFixture);
+
+    const description = "Narrow the interest rate range";
+    await (
+      await createEthersDAOClient(dao.connect(member1)).proposeParameterChange(
+        { functionName: "setInterestRateRange", args: [BigInt(600), BigInt(1500)] },
+        description
+      )
+    ).wait();
+
+    const proposal = await client.getGovernanceProposal(1);
+    expect(proposal).to.include({
+      type: ProposalType.PARAMETER_CHANGE,
+      proposer: member1.address,
+      description,
+      status: ProposalStatus.IN_VOTING,
+    });
+    expect(decodeParameterChange(proposal!.callData as `0x${string}`)).to.deep.equal({
+      functionName: "setInterestRateRange",
+      args: [BigInt(600), BigInt(1500)],
+    });
+    expect((await client.getProposal(1)).type).to.equal(ProposalType.PARAMETER_CHANGE);
+    expect(await client.getGovernanceProposal(2)).to.be.null;
+
+    await createEthersDAOClient(dao.connect(member2)).voteOnGovernanceProposal(1, true);
+    await createEthersDAOClient(dao.connect(member3)).voteOnGovernanceProposal(1, true);
+
+    expect((await client.getGovernanceProposal(1))?.status).to.equal(ProposalStatus.EXECUTED);
+    const policy = await dao.loanPolicy();
+    expect(policy.minInterestRate).to.equal(600);
+    expect(policy.maxInterestRate).to.equal(1500);
+  });
+
+  it("Should decode viem results the same way as ethers results", async function () {
+    const { dao, client, member1 } = await loadFixture(deploySDKFixture);
+
+    // viem returns structs as plain objects and small uints as numbers
+    const member = await dao.getMember(member1.address);
+    const viemClient = createViemDAOClient({
+      address: (await dao.getAddress()) as `0x${string}`,
+      publicClient: {
+        readContract: async (parameters: { functionName: string; args: readonly unknown[] }) => {
+          expect(parameters.functionName).to.equal("getMember");
+          expect(parameters.args).to.deep.equal([member1.address]);
+          return {
+            memberAddress: member.memberAddress,
+            status: Number(member.status),
+            joinDate: member.joinDate,
+            contributionAmount: member.contributionAmount,
+            shareBalance: member.shareBalance,
+            hasActiveLoan: member.hasActiveLoan,
+            lastLoanDate: member.lastLoanDate,
+          };
+        },
+      },
+    });
+
+    expect(await viemClient.getMember(member1.address)).to.deep.equal(await client.getMember(member1.address));
+  });
+});
@@ -0,0 +1,202 @@
+import { expect } from "chai";
+import { randomBytes } from "crypto";
+import {
+  DEFAULT_CHUNK_SIZE,
+  ENVELOPE_VERSION,
+  PBKDF2_ITERATIONS,
+  createDecryptionStream,
+  createEncryptionStream,
+  createMemoryStorage,
+  decryptDocument,
+  encryptDocument,
+  readEnvelopeHeader,
+  readStream,
+} from "../../frontend/src/lib/storage";
+
+describe("Document Envelope", function () {
+  const HEADER_LENGTH = 39;
+  const TAG_LENGTH = 16;
+  const PASSWORD = "correct horse battery staple";
+  // Fewer iterations keep tests that do not exercise the default fast
+  const FAST = { iterations: 1000 };
+
+  const bytes = (length: number) => new Uint8Array(randomBytes(length));
+
+  // Feed `data` to a stream in pieces of random sizes up to `maxPiece`
+  function streamInPieces(data: Uint8Array, maxPiece: number): ReadableStream<Uint8Array> {
+    let offset = 0;
+    return new ReadableStream({
+      pull(controller) {
+        if (offset >= data.length) return controller.close();
+        const size = 1 + Math.floor(Math.random() * maxPiece);
+        controller.enqueue(data.slice(offset, offset + size));
+        offset += size;
+      },
+    });
+  }
+
+  // Split an envelope with small chunks into its header and sealed chunks
+  function splitEnvelope(envelope: Uint8Array, chunkSize: number) {
+    const header = envelope.slice(0, HEADER_LENGTH);
+    const chunks: Uint8Array[] = [];
+    for (let offset = HEADER_LENGTH; offset < envelope.length; offset += chunkSize + TAG_LENGTH) {
+      chunks.push(envelope.slice(offset, offset + chunkSize + TAG_LENGTH));
+    }
+    return { header, chunks };
+  }
+
+  const join = (...parts: Uint8Array[]) => new Uint8Array(Buffer.concat(parts));
+
+  describe("Round trips", function () {
+    it("Should round-trip a multi-megabyte binary file with a password", async function () {
+      const file = bytes(5 * 1024 * 1024 + 123);
+      const envelope = await encryptDocument(file, PASSWORD);
+
+      const chunks = Math.ceil(file.length / DEFAULT_CHUNK_SIZE);
+      expect(envelope.length).to.equal(HEADER_LENGTH + file.length + chunks * TAG_LENGTH);
+      expect(Buffer.from(await decryptDocument(envelope, PASSWORD)).equals(Buffer.from(file))).to.equal(true);
+    });
+
+    it("Should encrypt and decrypt streams fed in arbitrary pieces", async function () {
+      const key = bytes(32);
+      const file = bytes(3 * 1024 * 1024);
+
+      const envelope = await readStream(streamInPieces(file, 100000).pipeThrough(createEncryptionStream(key)));
+      const decrypted = await readStream(streamInPieces(envelope, 70000).pipeThrough(createDecryptionStream(key)));
+      expect(Buffer.from(decrypted).equals(Buffer.from(file))).to.equal(true);
+    });
+
+    it("Should handle sizes around chunk boundaries", async function () {
+      const chunkSize = 16;
+      for (const length of [0, 1, chunkSize - 1, chunkSize, chunkSize + 1, 3 * chunkSize, 3 * chunkSize + 5]) {
+        const file = bytes(length);
+        const envelope = await encryptDocument(file, PASSWORD, { ...FAST, chunkSize });
+        // An exact multiple ends in a full last chunk; only empty files have an empty one
+        const chunks = Math.max(1, Math.ceil(length / chunkSize));
+        expect(envelope.length).to.equal(HEADER_LENGTH + length + chunks * TAG_LENGTH);
+        expect(Buffer.from(await decryptDocument(envelope, PASSWORD)).equals(Buffer.from(file))).to.equal(true);
+      }
+    });
+
+    it("Should decrypt content streamed from a storage backend", async function () {
+      const storage = createMemoryStorage();
+      const file = bytes(200000);
+      const cid = await storage.put(await encryptDocument(file, PASSWORD, FAST));
+
+      const stream = (await storage.stream(cid)).pipeThrough(createDecryptionStream(PASSWORD));
+      expect(Buffer.from(await readStream(stream)).equals(Buffer.from(file))).to.equal(true);
+    });
+  });
+
+  describe("Header", function () {
+    it("Should record how the document was encrypted", async function () {
+      const withPassword = readEnvelopeHeader(await encryptDocument(bytes(10), PASSWORD));
+      expect(withPassword).to.include({
+        version: ENVELOPE_VERSION,
+        algorithm: "AES-256-GCM",
+        kdf: "PBKDF2-SHA256",
+        chunkSize: DEFAULT_CHUNK_SIZE,
+        iterations: PBKDF2_ITERATIONS,
+      });
+      expect(withPassword.salt).to.have.length(16);
+      expect(withPassword.noncePrefix).to.have.length(7);
+
+      const withKey = readEnvelopeHeader(await encryptDocument(bytes(10), bytes(32), { chunkSize: 1024 }));
+      expect(withKey).to.include({ kdf: "none", chunkSize: 1024, iterations: 0 });
+    });
+
+    it("Should use a fresh salt and nonce prefix for every document", async function () {
+      const file = bytes(100);
+      const first = await encryptDocument(file, PASSWORD, FAST);
+      const second = await encryptDocument(file, PASSWORD, FAST);
+      expect(Buffer.from(first).equals(Buffer.from(second))).to.equal(false);
+      expect(readEnvelopeHeader(first).noncePrefix).to.not.deep.equal(readEnvelopeHeader(second).noncePrefix);
+    });
+
+    it("Should reject unknown or out-of-range headers", async function () {
+      const envelope = await encryptDocument(bytes(10), PASSWORD, FAST);
+      const withByte = (offset: number, value: number) => {
+        const changed = envelope.slice();
+        changed[offset] = value;
+        return changed;
+      };
+
+      expect(() => readEnvelopeHeader(new TextEncoder().encode("%PDF-1.7 not an envelope at all, just text"))).to.throw(
+        "Not an encrypted document envelope"
+      );
+      expect(() => readEnvelopeHeader(envelope.slice(0, HEADER_LENGTH - 1))).to.throw(
+        "Not an encrypted document envelope"
+      );
+      expect(() => readEnvelopeHeader(withByte(4, 2))).to.throw("Unsupported envelope version 2");
+      expect(() => readEnvelopeHeader(withByte(5, 9))).to.throw("Unsupported envelope algorithm 9");
+      expect(() => readEnvelopeHeader(withByte(6, 9))).to.throw("Unsupported envelope key derivation 9");
+      // Chunk size 0xff...: more than the decryptor will buffer
+      expect(() => readEnvelopeHeader(withByte(8, 0xff))).to.throw("Invalid envelope chunk size");
+      expect(() => readEnvelopeHeader(withByte(12, 0xff))).to.throw("Invalid envelope iteration count");
+    });
+  });
+
+  describe("Failures", function () {
+    it("Should reject the wrong password or key", async function () {
+      const key = bytes(32);
+      const withPassword = await encryptDocument(bytes(1000), PASSWORD, FAST);
+      const withKey = await encryptDocument(bytes(1000), key);
+
+      await expect(decryptDocument(withPassword, "wrong password")).to.be.rejectedWith(
+        "Document could not be decrypted: wrong key or corrupted data"
+      );
+      await expect(decryptDocument(withKey, bytes(32))).to.be.rejectedWith("Document could not be decrypted");
+      await expect(decryptDocument(withPassword, key)).to.be.rejectedWith(
+        "This document is encrypted with a password, not a key"
+      );
+      await expect(decryptDocument(withKey, PASSWORD)).to.be.rejectedWith(
+        "This document is encrypted with a key, not a password"
+      );
+      await expect(encryptDocument(bytes(10), bytes(16))).to.be.rejectedWith("Content keys must be 32 bytes");
+    });
+
+    it("Should reject altered, reordered or truncated chunks", async function () {
+      const chunkSize = 32;
+      const key = bytes(32);
+      const envelope = await encryptDocument(bytes(4 * chunkSize + 10), key, { chunkSize });
+      const { header, chunks } = splitEnvelope(envelope, chunkSize);
+      expect(chunks).to.have.length(5);
+      const rejects = (changed: Uint8Array) =>
+        expect(decryptDocument(changed, key)).to.be.rejectedWith("Document could not be decrypted");
+
+      const flipped = envelope.slice();
+      flipped[HEADER_LENGTH + chunkSize + 3] ^= 1;
+      await rejects(flipped);
+
+      await rejects(join(header, chunks[1], chunks[0], ...chunks.slice(2)));
+      await rejects(join(header, chunks[0], ...chunks.slice(2)));
+      // Cut at a chunk boundary, so the remaining last chunk was not sealed as the last
+      await rejects(join(header, ...chunks.slice(0, 4)));
+      await rejects(join(header, ...chunks, chunks[4]));
+      await rejects(envelope.slice(0, envelope.length - 1));
+
+      // Chunks moved into another document with the same key
+      const other = splitEnvelope(await encryptDocument(bytes(4 * chunkSize + 10), key, { chunkSize }), chunkSize);
+      await rejects(join(other.header, ...chunks));
+    });
+
+    it("Should reject a header edited to change how chunks are read", async function () {
+      const key = bytes(32);
+      const envelope = await encryptDocument(bytes(100), key, { chunkSize: 32 });
+      const changed = envelope.slice();
+      new DataView(changed.buffer).setUint32(8, 48);
+      await expect(decryptDocument(changed, key)).to.be.rejectedWith("Document could not be decrypted");
+    });
+
+    it("Should reject input that is not an envelope", async function () {
+      await expect(decryptDocument(new Uint8Array(), PASSWORD)).to.be.rejectedWith("Not an encrypted document envelope");
+      await expect(decryptDocument(bytes(1000), PASSWORD)).to.be.rejectedWith("Not an encrypted document envelope");
+    });
+
+    it("Should reject invalid options", function () {
+      expect(() => createEncryptionStream(PASSWORD, { chunkSize: 0 })).to.throw("Chunk size must be between 1");
+      expect(() => createEncryptionStream(PASSWORD, { chunkSize: 1.5 })).to.throw("Chunk size must be between 1");
+      expect(() => createEncryptionStream(PASSWORD, { iterations: 0 })).to.throw("Invalid envelope iteration count 0");
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { createEthersDAOClient } from "../../frontend/src/lib/sdk";
+import {
+  ENVELOPE_HEADER_LENGTH,
+  createMemoryStorage,
+  decryptDocument,
+  encodeDocumentManifest,
+  encryptDocument,
+  findManifestFile,
+  generateContentKey,
+  generateEncryptionKeyPair,
+  loadAnchoredManifest,
+  manifestDigest,
+  parseDocumentManifest,
+  signDocumentManifest,
+  unwrapContentKey,
+  verifyDocumentManifest,
+  wrapContentKey,
+} from "../../frontend/src/lib/storage";
+import type {
+  DocumentManifest,
+  DocumentManifestTypedData,
+  ManifestFile,
+  StorageBackend,
+} from "../../frontend/src/lib/storage";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
+
+type Hex = `0x${string}`;
+
+describe("Document Manifests", function () {
+  const CHAIN_ID = 31337;
+
+  async function deployFixture() {
+    const [owner, admin1, member1, member2, member3] = await ethers.getSigners();
+    const membershipFee = ethers.parseEther("0.1");
+
+    const dao = await deployUnifiedLendingDAO();
+    await dao.initialize([admin1.address], 5100, membershipFee, {
+      minMembershipDuration: 30 * 24 * 60 * 60, // 30 days
+      membershipContribution: membershipFee,
+      maxLoanDuration: 90 * 24 * 60 * 60, // 90 days
+      minInterestRate: 500, // 5%
+      maxInterestRate: 2000, // 20%
+      cooldownPeriod: 7 * 24 * 60 * 60, // 7 days
+      maxLoanToTreasuryRatio: 5000, // 50%
+    });
+    await owner.sendTransaction({ to: await dao.getAddress(), value: ethers.parseEther("10") });
+    for (const member of [member1, member2, member3]) {
+      await dao.connect(member).registerMember("", "", { value: membershipFee });
+    }
+    await ethers.provider.send("evm_increaseTime", [31 * 24 * 60 * 60]); // 31 days
+    await ethers.provider.send("evm_mine", []);
+
+    // member1 borrows: proposal 1 becomes loan 1 once member2 and member3 approve it
+    await dao.connect(member1).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+    await ethers.provider.send("evm_increaseTime", [4 * 24 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+    await dao.connect(member2).voteOnLoanProposal(1, true);
+    await dao.connect(member3).voteOnLoanProposal(1, true);
+
+    return { dao, admin1, member1, member2, daoAddress: (await dao.getAddress()) as Hex };
+  }
+
+  const signWith =
+    (signer: HardhatEthersSigner) =>
+    async ({ domain, types, message }: DocumentManifestTypedData) =>
+      (await signer.signTypedData(
+        domain,
+        {
+          DocumentManifest: [...types.DocumentManifest],
+          ManifestFile: [...types.ManifestFile],
+          WrappedKey: [...types.WrappedKey],
+        },
+        message
+      )) as Hex;
+
+  // A plaintext file and one encrypted for `reader`, both stored in `storage`
+  async function storeFiles(storage: StorageBackend, reader: Hex) {
+    const report = new TextEncoder().encode("Income statement 2024");
+    const contract = new TextEncoder().encode("Signed loan contract");
+    const contentKey = generateContentKey();
+    const readerKey = generateEncryptionKeyPair();
+    const envelope = await encryptDocument(contract, contentKey);
+
+    const files: ManifestFile[] = [
+      { name: "report.txt", mimeType: "text/plain", size: report.length, cid: await storage.put(report) },
+      {
+        name: "contract.pdf",
+        mimeType: "application/pdf",
+        size: contract.length,
+        cid: await storage.put(envelope),
+        encryptionHeader: ethers.hexlify(envelope.subarray(0, ENVELOPE_HEADER_LENGTH)) as Hex,
+        keys: [await wrapContentKey(contentKey, { address: reader, publicKey: readerKey.publicKey })],
+      },
+    ];
+    return { files, readerKey, contract };
+  }
+
+  async function pin(storage: StorageBackend, manifest: DocumentManifest) {
+    const bytes = encodeDocumentManifest(manifest);
+    return { cid: await storage.put(bytes), digest: manifestDigest(bytes) };
+  }
+
+  describe("Anchoring", function () {
+    it("Should anchor manifests to proposals and loans and keep every one", async function () {
+      const { dao, admin1, member1 } = await loadFixture(deployFixture);
+      const client = createEthersDAOClient(dao.connect(member1));
+      const digest = ethers.keccak256(ethers.toUtf8Bytes("manifest")) as Hex;
+      const cid = "bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy";
+
+      await expect(client.anchorProposalManifest(1, cid, digest))
+        .to.emit(dao, "DocumentManifestAnchored")
+        .withArgs(1, "loan_proposal", cid, digest, member1.address);
+      await client.anchorLoanManifest(1, cid, digest);
+      await expect(dao.connect(admin1).anchorLoanManifest(1, cid, digest))
+        .to.emit(dao, "DocumentManifestAnchored")
+        .withArgs(1, "loan", cid, digest, admin1.address);
+
+      const [anchor] = await client.getProposalManifests(1);
+      expect(anchor).to.include({ cid, digest, signer: member1.address });
+      expect(anchor.anchoredAt).to.be.a("number").and.greaterThan(0);
+      expect((await client.getLoanManifests(1)).map((entry) => entry.signer)).to.deep.equal([
+        member1.address,
+        admin1.address,
+      ]);
+      expect(await client.getLoanManifests(2)).to.deep.equal([]);
+    });
+
+    it("Should only let the borrower or an admin anchor", async function () {
+      const { dao, member2 } = await loadFixture(deployFixture);
+      const digest = ethers.keccak256("0x01");
+
+      await expect(dao.connect(member2).anchorLoanManifest(1, "cid", digest)).to.be.revertedWithCustomError(
+        dao,
+        "NotAuthorized"
+      );
+      await expect(dao.connect(member2).anchorProposalManifest(1, "cid", digest)).to.be.revertedWithCustomError(
+        dao,
+        "NotAuthorized"
+      );
+      await expect(dao.connect(member2).anchorLoanManifest(2, "cid", digest)).to.be.revertedWithCustomError(
+        dao,
+        "LoanNotFound"
+      );
+      await expect(dao.connect(member2).anchorProposalManifest(2, "cid", digest)).to.be.revertedWithCustomError(
+        dao,
+        "LoanProposalNotFound"
+      );
+    });
+
+    it("Should reject empty manifests and cap them per entity", async function () {
+      const { dao, member1 } = await loadFixture(deployFixture);
+      const borrower = dao.connect(member1);
+      const digest = ethers.keccak256("0x01");
+
+      await expect(borrower.anchorLoanManifest(1, "", digest)).to.be.revertedWithCustomError(
+        dao,
+        "InvalidDocumentManifest"
+      );
+      await expect(borrower.anchorLoanManifest(1, "cid", ethers.ZeroHash)).to.be.revertedWithCustomError(
+        dao,
+        "InvalidDocumentManifest"
+      );
+
+      const max = Number(await dao.MAX_DOCUMENT_MANIFESTS());
+      for (let i = 0; i < max; i++) {
+        await borrower.anchorLoanManifest(1, "cid", digest);
+      }
+      await expect(borrower.anchorLoanManifest(1, "cid", digest)).to.be.revertedWithCustomError(
+        dao,
+        "TooManyDocumentManifests"
+      );
+      // The cap is per entity
+      await borrower.anchorProposalManifest(1, "cid", digest);
+    });
+  });
+
+  describe("Signing", function () {
+    it("Should sign, anchor and verify a manifest of several files", async function () {
+      const { dao, member1, member2, daoAddress } = await loadFixture(deployFixture);
+      const client = createEthersDAOClient(dao.connect(member1));
+      const storage = createMemoryStorage();
+      const { files, readerKey, contract } = await storeFiles(storage, member2.address as Hex);
+
+      const manifest = await signDocumentManifest(
+        { chainId: CHAIN_ID, dao: daoAddress, entityType: "loan", entityId: 1, signer: member1.address as Hex, files },
+        signWith(member1)
+      );
+      const { cid, digest } = await pin(storage, manifest);
+      await client.anchorLoanManifest(1, cid, digest);
+
+      const [anchor] = await client.getLoanManifests(1);
+      const loaded = await loadAnchoredManifest(storage, anchor, {
+        chainId: CHAIN_ID,
+        dao: daoAddress,
+        entityType: "loan",
+        entityId: 1,
+      });
+      expect(loaded).to.deep.equal(manifest);
+      expect(loaded.files.map((file) => file.name)).to.deep.equal(["report.txt", "contract.pdf"]);
+
+      // The listed keys open the listed files
+      const file = findManifestFile(loaded, files[1].cid)!;
+      const contentKey = await unwrapContentKey(file.keys![0], readerKey);
+      expect(await decryptDocument(await storage.get(file.cid), contentKey)).to.deep.equal(contract);
+    });
+
+    it("Should detect tampered manifests", async function () {
+      const { dao, member1, member2, daoAddress } = await loadFixture(deployFixture);
+      const client = createEthersDAOClient(dao.connect(member1));
+      const storage = createMemoryStorage();
+      const { files } = await storeFiles(storage, member2.address as Hex);
+      const fields = { chainId: CHAIN_ID, dao: daoAddress, entityType: "loan_proposal" as const, entityId: 1, files };
+      const manifest = await signDocumentManifest({ ...fields, signer: member1.address as Hex }, signWith(member1));
+
+      // Swapping a file for another keeps the signature but no longer matches it
+      const swapped = { ...manifest, files: [{ ...files[0], cid: files[1].cid }, files[1]] };
+      await expect(verifyDocumentManifest(swapped)).to.be.rejectedWith("Document manifest signature is invalid");
+      await expect(verifyDocumentManifest(manifest, { entityId: 2 })).to.be.rejectedWith(
+        "Document manifest was signed for another loan, proposal or DAO"
+      );
+
+      // Stored bytes that differ from the anchored digest
+      const { digest } = await pin(storage, manifest);
+      const tampered = await pin(storage, swapped);
+      await client.anchorProposalManifest(1, tampered.cid, digest);
+      const [anchor] = await client.getProposalManifests(1);
+      await expect(loadAnchoredManifest(storage, anchor)).to.be.rejectedWith(
+        "Document manifest does not match its on-chain digest"
+      );
+
+      // A valid manifest by someone other than the account that anchored it
+      const byOther = await signDocumentManifest({ ...fields, signer: member2.address as Hex }, signWith(member2));
+      const other = await pin(storage, byOther);
+      await expect(loadAnchoredManifest(storage, { ...other, signer: member1.address as Hex })).to.be.rejectedWith(
+        `Document manifest was not signed by ${member1.address}`
+      );
+    });
+
+    it("Should reject malformed manifests", async function () {
+      const { member1, daoAddress } = await loadFixture(deployFixture);
+      const storage = createMemoryStorage();
+      const { files } = await storeFiles(storage, member1.address as Hex);
+      const manifest = await signDocumentManifest(
+        { chainId: CHAIN_ID, dao: daoAddress, entityType: "loan", entityId: 1, signer: member1.address as Hex, files },
+        signWith(member1)
+      );
+      const encode = (value: unknown) => new TextEncoder().encode(JSON.stringify(value));
+
+      expect(parseDocumentManifest(encodeDocumentManifest(manifest))).to.deep.equal(manifest);
+      expect(() => parseDocumentManifest(encode("not a manifest"))).to.throw("Not a document manifest");
+      expect(() => parseDocumentManifest(encode({ ...manifest, version: 2 }))).to.throw(
+        "Unsupported document manifest version 2"
+      );
+      expect(() =>
+        parseDocumentManifest(encode({ ...manifest, files: [{ ...files[1], encryptionHeader: "0x1234" }] }))
+      ).to.throw("Document manifest is malformed");
+      expect(() => parseDocumentManifest(encode({ ...manifest, entityType: "treasury" }))).to.throw(
+        "Document manifest is malformed"
+      );
+      await expect(signDocumentManifest({ ...manifest, entityId: 1, files: [] }, signWith(member1))).to.be.rejectedWith(
+        "A document manifest needs at least one file"
+      );
+    });
+  });
+});
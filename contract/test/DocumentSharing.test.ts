@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import {
+  createMemoryStorage,
+  decryptDocument,
+  encryptDocument,
+  encryptionKeyPairFromSeed,
+  findWrappedKey,
+  generateContentKey,
+  generateEncryptionKeyPair,
+  grantAccess,
+  revokeAccess,
+  unwrapContentKey,
+  wrapContentKey,
+} from "../../frontend/src/lib/storage";
+import type { DocumentRecipient, EncryptionKeyPair, WrappedKey } from "../../frontend/src/lib/storage";
+
+describe("Document Sharing", function () {
+  const member = () => {
+    const keyPair = generateEncryptionKeyPair();
+    const address = ethers.Wallet.createRandom().address as `0x${string}`;
+    return { address, keyPair, recipient: { address, publicKey: keyPair.publicKey } as DocumentRecipient };
+  };
+
+  const text = (data: Uint8Array) => new TextDecoder().decode(data);
+
+  async function open(keys: WrappedKey[], address: string, keyPair: EncryptionKeyPair) {
+    const wrapped = findWrappedKey(keys, address);
+    if (!wrapped) throw new Error("No key for member");
+    return unwrapContentKey(wrapped, keyPair);
+  }
+
+  describe("Key wrapping", function () {
+    it("Should unwrap the content key only with the recipient's key", async function () {
+      const alice = member();
+      const bob = member();
+      const contentKey = generateContentKey();
+      const wrapped = await wrapContentKey(contentKey, alice.recipient);
+
+      expect(wrapped.recipient).to.equal(alice.address);
+      expect(wrapped.publicKey).to.equal(alice.keyPair.publicKey);
+      expect(await unwrapContentKey(wrapped, alice.keyPair)).to.deep.equal(contentKey);
+
+      await expect(unwrapContentKey(wrapped, bob.keyPair)).to.be.rejectedWith(
+        "This document key was wrapped to a different encryption key"
+      );
+      // Claiming to hold the recipient's public key does not help without the private key
+      await expect(
+        unwrapContentKey(wrapped, { privateKey: bob.keyPair.privateKey, publicKey: alice.keyPair.publicKey })
+      ).to.be.rejectedWith("Document key could not be unwrapped");
+    });
+
+    it("Should use a fresh exchange for every wrap", async function () {
+      const alice = member();
+      const contentKey = generateContentKey();
+      const first = await wrapContentKey(contentKey, alice.recipient);
+      const second = await wrapContentKey(contentKey, alice.recipient);
+      expect(first.ephemeralPublicKey).to.not.equal(second.ephemeralPublicKey);
+      expect(first.ciphertext).to.not.equal(second.ciphertext);
+    });
+
+    it("Should reject wrapped keys that were altered or relabelled", async function () {
+      const alice = member();
+      const bob = member();
+      const wrapped = await wrapContentKey(generateContentKey(), alice.recipient);
+      const flip = (hex: `0x${string}`) => `${hex.slice(0, -1)}${hex.endsWith("0") ? "1" : "0"}` as `0x${string}`;
+
+      for (const altered of [
+        { ...wrapped, ciphertext: flip(wrapped.ciphertext) },
+        { ...wrapped, nonce: flip(wrapped.nonce) },
+        { ...wrapped, ephemeralPublicKey: flip(wrapped.ephemeralPublicKey) },
+        // Moved to another member's entry in the manifest
+        { ...wrapped, recipient: bob.address },
+      ]) {
+        await expect(unwrapContentKey(altered, alice.keyPair)).to.be.rejectedWith(
+          "Document key could not be unwrapped"
+        );
+      }
+    });
+
+    it("Should reject invalid recipients and content keys", async function () {
+      const alice = member();
+      await expect(
+        wrapContentKey(generateContentKey(), { ...alice.recipient, publicKey: "0x1234" })
+      ).to.be.rejectedWith("Invalid encryption public key: 0x1234");
+      await expect(
+        wrapContentKey(generateContentKey(), { ...alice.recipient, address: "0x1234" as `0x${string}` })
+      ).to.be.rejectedWith("Invalid recipient address: 0x1234");
+      await expect(wrapContentKey(new Uint8Array(16), alice.recipient)).to.be.rejectedWith(
+        "Content keys must be 32 bytes"
+      );
+    });
+
+    it("Should derive the same key pair from the same seed", function () {
+      const seed = new Uint8Array(65).fill(7);
+      expect(encryptionKeyPairFromSeed(seed)).to.deep.equal(encryptionKeyPairFromSeed(seed));
+      expect(encryptionKeyPairFromSeed(seed).publicKey).to.not.equal(
+        encryptionKeyPairFromSeed(new Uint8Array(65).fill(8)).publicKey
+      );
+    });
+  });
+
+  describe("Access changes", function () {
+    it("Should grant and revoke access without re-uploading the document", async function () {
+      const storage = createMemoryStorage();
+      const [owner, alice, bob] = [member(), member(), member()];
+
+      const contentKey = generateContentKey();
+      const cid = await storage.put(await encryptDocument(new TextEncoder().encode("loan agreement"), contentKey));
+      let keys = await grantAccess([], contentKey, [owner.recipient, alice.recipient]);
+      expect(findWrappedKey(keys, bob.address)).to.equal(undefined);
+
+      // The owner shares with Bob using only their own wrapped key
+      keys = await grantAccess(keys, await open(keys, owner.address, owner.keyPair), [bob.recipient]);
+      expect(keys.map((key) => key.recipient)).to.deep.equal([owner.address, alice.address, bob.address]);
+      expect(text(await decryptDocument(await storage.get(cid), await open(keys, bob.address, bob.keyPair)))).to.equal(
+        "loan agreement"
+      );
+
+      keys = revokeAccess(keys, [alice.address.toLowerCase()]);
+      expect(findWrappedKey(keys, alice.address)).to.equal(undefined);
+      await expect(open(keys, alice.address, alice.keyPair)).to.be.rejectedWith("No key for member");
+      expect(
+        text(await decryptDocument(await storage.get(cid), await open(keys, owner.address, owner.keyPair)))
+      ).to.equal("loan agreement");
+    });
+
+    it("Should replace a member's key when they rotate it", async function () {
+      const alice = member();
+      const contentKey = generateContentKey();
+      let keys = await grantAccess([], contentKey, [alice.recipient]);
+
+      const rotated = generateEncryptionKeyPair();
+      keys = await grantAccess(keys, contentKey, [{ address: alice.address, publicKey: rotated.publicKey }]);
+      expect(keys).to.have.length(1);
+      expect(await open(keys, alice.address, rotated)).to.deep.equal(contentKey);
+      await expect(open(keys, alice.address, alice.keyPair)).to.be.rejectedWith(
+        "wrapped to a different encryption key"
+      );
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { expect } from "chai";
+import { artifacts, ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { AddressInfo } from "net";
+import { UnifiedLendingDAO } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { DAOIndexer, IndexerStore, createIndexerServer } from "../indexer";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
+
+describe("DAO Event Indexer", function () {
+  async function deployIndexedDAOFixture() {
+    const [owner, admin1, member1, member2, member3] = await ethers.getSigners();
+
+    const dao = await deployUnifiedLendingDAO();
+    const deployBlock = (await dao.deploymentTransaction()!.wait())!.blockNumber;
+
+    const membershipFee = ethers.parseEther("0.1");
+    await dao.initialize([admin1.address], 5100, membershipFee, {
+      minMembershipDuration: 30 * 24 * 60 * 60, // 30 days
+      membershipContribution: membershipFee,
+      maxLoanDuration: 90 * 24 * 60 * 60, // 90 days
+      minInterestRate: 500, // 5%
+      maxInterestRate: 2000, // 20%
+      cooldownPeriod: 7 * 24 * 60 * 60, // 7 days
+      maxLoanToTreasuryRatio: 5000, // 50%
+    });
+
+    await owner.sendTransaction({ to: await dao.getAddress(), value: ethers.parseEther("10") });
+
+    await dao.connect(member1).registerMember("alice.eth", "", { value: membershipFee });
+    await dao.connect(member2).registerMember("bob.eth", "", { value: membershipFee });
+    await dao.connect(member3).registerMember("", "", { value: membershipFee });
+
+    // Fast-forward to bypass membership duration
+    await ethers.provider.send("evm_increaseTime", [31 * 24 * 60 * 60]); // 31 days
+    await ethers.provider.send("evm_mine", []);
+
+    const { abi } = await artifacts.readArtifact("UnifiedLendingDAO");
+    const openIndexer = async (dbPath?: string) => {
+      const store = await IndexerStore.open(dbPath);
+      const indexer = new DAOIndexer(ethers.provider, store, {
+        address: await dao.getAddress(),
+        abi,
+        startBlock: deployBlock,
+        batchSize: 5,
+      });
+      return { store, indexer };
+    };
+
+    return { dao, member1, member2, member3, openIndexer };
+  }
+
+  async function approveLoan(dao: UnifiedLendingDAO, borrower: SignerWithAddress, voters: SignerWithAddress[]) {
+    await dao.connect(borrower).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+    const proposalId = await dao.proposalCounter();
+
+    // Fast-forward past editing period
+    await ethers.provider.send("evm_increaseTime", [4 * 24 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+
+    for (const voter of voters) {
+      await dao.connect(voter).voteOnLoanProposal(proposalId, true);
+    }
+    return proposalId;
+  }
+
+  it("Should backfill every DAO event and materialize members", async function () {
+    const { openIndexer, member1 } = await loadFixture(deployIndexedDAOFixture);
+    const { store, indexer } = await openIndexer();
+
+    const result = await indexer.sync();
+
+    expect(result?.toBlock).to.equal(await ethers.provider.getBlockNumber());
+    expect(store.getEvents({ eventName: "DAOInitialized" })).to.have.length(1);
+    expect(store.getEvents({ eventName: "FundsReceived" })[0].args.amount).to.equal(ethers.parseEther("10").toString());
+    expect(store.getEvents({ eventName: "MemberActivated" })).to.have.length(3);
+
+    const members = store.query("SELECT * FROM members ORDER BY activated_block");
+    expect(members).to.have.length(3);
+    expect(members[0]).to.include({ address: member1.address, ens_name: "alice.eth" });
+  });
+
+  it("Should tail new events and link loans to their proposals", async function () {
+    const { dao, openIndexer, member1, member2, member3 } = await loadFixture(deployIndexedDAOFixture);
+    const { store, indexer } = await openIndexer();
+    await indexer.sync();
+
+    expect(await indexer.sync()).to.be.null;
+
+    const proposalId = await approveLoan(dao, member1, [member2, member3]);
+    const result = await indexer.sync();
+
+    expect(result?.events).to.be.greaterThan(0);
+    expect(store.getEvents({ eventName: "LoanVoteCast", args: { proposalId: proposalId.toString() } })).to.have.length(2);
+
+    const proposal = store.queryOne("SELECT * FROM loan_proposals WHERE proposal_id = ?", [Number(proposalId)]);
+    expect(proposal).to.include({ borrower: member1.address, votes_for: 2, votes_against: 0, loan_id: 1, phase: 2 });
+
+    const [latest] = store.query("SELECT * FROM treasury_transactions ORDER BY block_number DESC, log_index DESC");
+    expect(latest).to.include({ type: "loan_disbursement", direction: "out", counterparty: member1.address });
+  });
+
+  it("Should roll back events from blocks removed by a reorg", async function () {
+    const { dao, openIndexer, member1, member2 } = await loadFixture(deployIndexedDAOFixture);
+    const { store, indexer } = await openIndexer();
+    await indexer.sync();
+
+    const snapshot = await ethers.provider.send("evm_snapshot", []);
+    await dao.connect(member1).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+    await ethers.provider.send("evm_mine", []);
+    await indexer.sync();
+    expect(store.getEvents({ eventName: "LoanRequested" })[0].args.borrower).to.equal(member1.address);
+
+    // Replace the indexed blocks with a competing chain of the same height
+    await ethers.provider.send("evm_revert", [snapshot]);
+    await dao.connect(member2).requestLoan(ethers.parseEther("2"), false, ethers.ZeroHash, "");
+    await ethers.provider.send("evm_mine", []);
+    await ethers.provider.send("evm_mine", []);
+
+    const result = await indexer.sync();
+
+    expect(result?.reorgedFrom).to.not.be.undefined;
+    const requested = store.getEvents({ eventName: "LoanRequested" });
+    expect(requested).to.have.length(1);
+    expect(requested[0].args).to.include({ borrower: member2.address, amount: ethers.parseEther("2").toString() });
+
+    const head = await ethers.provider.getBlock("latest");
+    expect(store.getCursor()).to.deep.equal({ number: head!.number, hash: head!.hash, timestamp: head!.timestamp });
+  });
+
+  it("Should persist the database and resume from its cursor", async function () {
+    const { dao, openIndexer, member1 } = await loadFixture(deployIndexedDAOFixture);
+    const dbPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "dao-indexer-")), "dao.sqlite");
+
+    try {
+      const first = await openIndexer(dbPath);
+      await first.indexer.sync();
+      const indexedEvents = first.store.countEvents();
+      first.store.close();
+
+      await dao.connect(member1).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+
+      const second = await openIndexer(dbPath);
+      const result = await second.indexer.sync();
+
+      expect(result?.fromBlock).to.equal(result!.toBlock);
+      expect(second.store.countEvents()).to.equal(indexedEvents + result!.events);
+      expect(second.store.getEvents({ eventName: "MemberActivated" })).to.have.length(3);
+      second.store.close();
+    } finally {
+      fs.rmSync(path.dirname(dbPath), { recursive: true, force: true });
+    }
+  });
+
+  it("Should serve indexed data over the query API", async function () {
+    const { dao, openIndexer, member1, member2, member3 } = await loadFixture(deployIndexedDAOFixture);
+    const { store, indexer } = await openIndexer();
+    const proposalId = await approveLoan(dao, member1, [member2, member3]);
+    await indexer.sync();
+
+    const server = createIndexerServer(store).listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    const get = async (route: string) => {
+      const response = await fetch(baseUrl + route);
+      return { status: response.status, body: await response.json() };
+    };
+
+    try {
+      const status = await get("/status");
+      expect(status.body.address).to.equal((await dao.getAddress()).toLowerCase());
+      expect(status.body.events).to.equal(store.countEvents());
+
+      const votes = await get(`/events?event=LoanVoteCast&proposalId=${proposalId}&voter=${member2.address.toLowerCase()}`);
+      expect(votes.body).to.have.length(1);
+      expect(votes.body[0].args.support).to.be.true;
+
+      const timeline = await get(`/proposals/${proposalId}/timeline`);
+      expect(timeline.body.map((event: { eventName: string }) => event.eventName)).to.include.members([
+        "LoanRequested",
+        "LoanVoteCast",
+        "LoanApproved",
+        "LoanDisbursed",
+      ]);
+
+      const stats = await get("/stats/governance");
+      expect(stats.body).to.include({ totalProposals: 1, approvedProposals: 1, totalVotes: 2, uniqueVoters: 2, activeMembers: 3 });
+
+      expect((await get("/events?limit=abc")).status).to.equal(400);
+      expect((await get("/unknown")).status).to.equal(404);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,271 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { createEthersDAOClient } from "../../frontend/src/lib/sdk";
+import {
+  ENCRYPTION_KEY_TEXT_RECORD,
+  ballotPassword,
+  createKeyManager,
+  createMemoryKeyStore,
+  resolveEncryptionKey,
+} from "../../frontend/src/lib/keys";
+import type { EncryptionKeyTypedData, KeyStore } from "../../frontend/src/lib/keys";
+import { generateContentKey, unwrapContentKey, wrapContentKey } from "../../frontend/src/lib/storage";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
+
+type Hex = `0x${string}`;
+
+describe("Key Manager", function () {
+  const DAO_ADDRESS = "0x5FbDB2315678afecb367f032d93F642f64180aa3" as Hex;
+  const PASSWORD = "correct horse battery staple";
+
+  function setup(wallet = ethers.Wallet.createRandom(), store: KeyStore = createMemoryKeyStore()) {
+    let signatures = 0;
+    const signTypedData = async ({ domain, types, message }: EncryptionKeyTypedData) => {
+      signatures++;
+      return (await wallet.signTypedData(domain, { EncryptionKey: [...types.EncryptionKey] }, message)) as Hex;
+    };
+    const manager = createKeyManager({
+      account: wallet.address as Hex,
+      chainId: 31337,
+      verifyingContract: DAO_ADDRESS,
+      signTypedData,
+      store,
+    });
+    return { wallet, store, manager, signatures: () => signatures };
+  }
+
+  describe("Derivation", function () {
+    it("Should derive the same keys from the same wallet on another device", async function () {
+      const first = setup();
+      const second = setup(first.wallet);
+
+      const documentKey = await first.manager.unlock("document");
+      expect(await second.manager.unlock("document")).to.deep.equal(documentKey);
+      expect((await first.manager.unlock("voting")).publicKey).to.not.equal(documentKey.publicKey);
+      // Another wallet derives other keys
+      expect((await setup().manager.unlock("document")).publicKey).to.not.equal(documentKey.publicKey);
+    });
+
+    it("Should only ask the wallet to sign when a key is created", async function () {
+      const { manager, signatures } = setup();
+      expect(await manager.get("document")).to.equal(null);
+      expect(signatures()).to.equal(0);
+
+      const keyPair = await manager.unlock("document");
+      expect(await manager.unlock("document")).to.deep.equal(keyPair);
+      expect(await manager.get("document")).to.deep.equal(keyPair);
+      expect(signatures()).to.equal(1);
+    });
+
+    it("Should seal private keys with the store's vault key", async function () {
+      const { manager, store, wallet } = setup();
+      const keyPair = await manager.unlock("document");
+
+      const [stored] = await store.list(wallet.address);
+      expect(stored.publicKey).to.equal(keyPair.publicKey);
+      expect(Buffer.from(stored.sealedPrivateKey).includes(Buffer.from(keyPair.privateKey))).to.equal(false);
+
+      // Sealed keys are bound to their record, so they cannot be swapped between records
+      await store.put({ ...stored, id: `${wallet.address.toLowerCase()}:voting:1`, purpose: "voting" });
+      await expect(manager.get("voting")).to.be.rejectedWith("could not be unsealed");
+    });
+
+    it("Should refuse a recovered key that does not match the stored one", async function () {
+      const { manager, store, wallet } = setup();
+      await manager.unlock("document");
+      const [stored] = await store.list(wallet.address);
+      await store.put({ ...stored, publicKey: `0x${"11".repeat(32)}` });
+
+      await expect(manager.recover("document", 1)).to.be.rejectedWith("Your wallet derived a different key");
+    });
+  });
+
+  describe("Rotation", function () {
+    it("Should rotate to a new active key and keep old ones for old documents", async function () {
+      const { manager, wallet } = setup();
+      const original = await manager.unlock("document");
+      const contentKey = generateContentKey();
+      const wrapped = await wrapContentKey(contentKey, {
+        address: wallet.address as Hex,
+        publicKey: original.publicKey,
+      });
+
+      const rotated = await manager.rotate("document");
+      expect(rotated.publicKey).to.not.equal(original.publicKey);
+      expect(await manager.unlock("document")).to.deep.equal(rotated);
+
+      const keys = await manager.list();
+      expect(keys.map(({ purpose, version, active }) => ({ purpose, version, active }))).to.deep.equal([
+        { purpose: "document", version: 1, active: false },
+        { purpose: "document", version: 2, active: true },
+      ]);
+
+      const stillOpens = await manager.findKeyPair(wrapped.publicKey);
+      expect(await unwrapContentKey(wrapped, stillOpens!)).to.deep.equal(contentKey);
+      expect(await manager.findKeyPair(`0x${"22".repeat(32)}`)).to.equal(null);
+    });
+
+    it("Should recover a rotated key by its version", async function () {
+      const first = setup();
+      await first.manager.unlock("voting");
+      const rotated = await first.manager.rotate("voting");
+
+      const second = setup(first.wallet);
+      expect(await second.manager.recover("voting", 2)).to.deep.equal(rotated);
+      expect(await second.manager.get("voting")).to.deep.equal(rotated);
+    });
+  });
+
+  describe("Backups", function () {
+    it("Should restore every key from a password-encrypted backup", async function () {
+      const { manager, wallet } = setup();
+      await manager.unlock("document");
+      await manager.rotate("document");
+      const votingKey = await manager.unlock("voting");
+
+      const backup = await manager.createBackup(PASSWORD);
+      expect(backup).to.not.include(Buffer.from(votingKey.privateKey).toString("hex"));
+      expect(JSON.parse(backup).keys).to.have.length(3);
+
+      const restoredOn = setup(wallet);
+      const restored = await restoredOn.manager.restoreBackup(backup, PASSWORD);
+      expect(restored.map((key) => [key.purpose, key.version, key.active])).to.deep.equal([
+        ["document", 1, false],
+        ["document", 2, true],
+        ["voting", 1, true],
+      ]);
+      expect(await restoredOn.manager.get("voting")).to.deep.equal(votingKey);
+      expect(await restoredOn.manager.list()).to.deep.equal(await manager.list());
+      expect(restoredOn.signatures()).to.equal(0);
+    });
+
+    it("Should export only the selected keys", async function () {
+      const { manager, wallet } = setup();
+      await manager.unlock("document");
+      await manager.unlock("voting");
+      const [documentKey] = await manager.list();
+
+      const restoredOn = setup(wallet);
+      await restoredOn.manager.restoreBackup(await manager.createBackup(PASSWORD, [documentKey.id]), PASSWORD);
+      expect((await restoredOn.manager.list()).map((key) => key.id)).to.deep.equal([documentKey.id]);
+    });
+
+    it("Should reject the wrong password, account or a tampered backup", async function () {
+      const { manager, wallet } = setup();
+      await expect(manager.createBackup(PASSWORD)).to.be.rejectedWith("There are no encryption keys to back up");
+      await manager.unlock("document");
+      await expect(manager.createBackup("")).to.be.rejectedWith("A backup password is required");
+      const backup = await manager.createBackup(PASSWORD);
+
+      await expect(setup(wallet).manager.restoreBackup(backup, "wrong password")).to.be.rejectedWith(
+        "Document could not be decrypted"
+      );
+      await expect(setup().manager.restoreBackup(backup, PASSWORD)).to.be.rejectedWith(
+        `This backup holds the keys of ${wallet.address}`
+      );
+      await expect(setup(wallet).manager.restoreBackup("not json", PASSWORD)).to.be.rejectedWith(
+        "Not an encryption key backup"
+      );
+      await expect(
+        setup(wallet).manager.restoreBackup(JSON.stringify({ ...JSON.parse(backup), version: 2 }), PASSWORD)
+      ).to.be.rejectedWith("Unsupported key backup version 2");
+    });
+  });
+
+  it("Should derive a stable ballot password from the voting key", async function () {
+    const { manager } = setup();
+    const votingKey = await manager.unlock("voting");
+    expect(ballotPassword(votingKey)).to.equal(ballotPassword(await manager.unlock("voting")));
+    expect(ballotPassword(votingKey)).to.not.equal(ballotPassword(await manager.unlock("document")));
+  });
+
+  describe("Publishing", function () {
+    async function deployFixture() {
+      const [owner, admin1, member1, member2, outsider] = await ethers.getSigners();
+      const membershipFee = ethers.parseEther("0.1");
+
+      const dao = await deployUnifiedLendingDAO();
+      await dao.initialize([admin1.address], 5100, membershipFee, {
+        minMembershipDuration: 30 * 24 * 60 * 60, // 30 days
+        membershipContribution: membershipFee,
+        maxLoanDuration: 90 * 24 * 60 * 60, // 90 days
+        minInterestRate: 500, // 5%
+        maxInterestRate: 2000, // 20%
+        cooldownPeriod: 7 * 24 * 60 * 60, // 7 days
+        maxLoanToTreasuryRatio: 5000, // 50%
+      });
+      await owner.sendTransaction({ to: await dao.getAddress(), value: ethers.parseEther("10") });
+      await dao.connect(member1).registerMember("", "", { value: membershipFee });
+      await dao.connect(member2).registerMember("", "", { value: membershipFee });
+
+      return { dao, member1, member2, outsider };
+    }
+
+    // ENS client that knows one name and its text records
+    const ensClient = (address: string, name: string, records: Record<string, string>) => ({
+      getEnsName: async (args: { address: string }) => (args.address === address ? name : null),
+      getEnsText: async (args: { name: string; key: string }) =>
+        args.name === name ? records[args.key] ?? null : null,
+    });
+
+    it("Should let members publish, rotate and withdraw their key", async function () {
+      const { dao, member1, outsider } = await loadFixture(deployFixture);
+      const client = createEthersDAOClient(dao.connect(member1));
+      const { manager } = setup();
+      const keyPair = await manager.unlock("document");
+
+      expect(await client.getEncryptionKey(member1.address)).to.equal(null);
+      await expect(client.setEncryptionKey(keyPair.publicKey))
+        .to.emit(dao, "EncryptionKeyPublished")
+        .withArgs(member1.address, keyPair.publicKey);
+      expect(await client.getEncryptionKey(member1.address)).to.equal(keyPair.publicKey);
+
+      const rotated = await manager.rotate("document");
+      await client.setEncryptionKey(rotated.publicKey);
+      expect(await client.getEncryptionKey(member1.address)).to.equal(rotated.publicKey);
+
+      await client.setEncryptionKey(null);
+      expect(await client.getEncryptionKey(member1.address)).to.equal(null);
+
+      await expect(dao.connect(outsider).setEncryptionKey(keyPair.publicKey)).to.be.revertedWithCustomError(
+        dao,
+        "NotMember"
+      );
+    });
+
+    it("Should clear the key when a member leaves", async function () {
+      const { dao, member1 } = await loadFixture(deployFixture);
+      const publicKey = ethers.hexlify(ethers.randomBytes(32));
+      await dao.connect(member1).setEncryptionKey(publicKey);
+
+      await dao.connect(member1).exitDAO();
+      expect(await dao.memberEncryptionKeys(member1.address)).to.equal(ethers.ZeroHash);
+    });
+
+    it("Should resolve keys on-chain first, then from ENS text records", async function () {
+      const { dao, member1, member2, outsider } = await loadFixture(deployFixture);
+      const client = createEthersDAOClient(dao);
+      const onChain = ethers.hexlify(ethers.randomBytes(32)) as Hex;
+      const inEns = ethers.hexlify(ethers.randomBytes(32)) as Hex;
+      await dao.connect(member1).setEncryptionKey(onChain);
+
+      const ens = ensClient(member1.address, "alice.eth", { [ENCRYPTION_KEY_TEXT_RECORD]: inEns });
+      expect(await resolveEncryptionKey(client, ens, member1.address as Hex)).to.equal(onChain);
+
+      const ens2 = ensClient(member2.address, "bob.eth", { [ENCRYPTION_KEY_TEXT_RECORD]: inEns });
+      expect(await resolveEncryptionKey(client, ens2, member2.address as Hex)).to.equal(inEns);
+
+      // Malformed records and lookups that fail are treated as no key
+      const malformed = ensClient(member2.address, "bob.eth", { [ENCRYPTION_KEY_TEXT_RECORD]: "0x1234" });
+      expect(await resolveEncryptionKey(client, malformed, member2.address as Hex)).to.equal(null);
+      const failing = {
+        getEnsName: async () => {
+          throw new Error("Chain does not support ENS");
+        },
+        getEnsText: async () => null,
+      };
+      expect(await resolveEncryptionKey(client, failing, outsider.address as Hex)).to.equal(null);
+    });
+  });
+});
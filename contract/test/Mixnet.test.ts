@@ -0,0 +1,167 @@
+import { expect } from "chai";
+import { Wallet } from "ethers";
+import {
+  SHUFFLE_PROOF_ROUNDS,
+  aggregateMixedBallots,
+  combinePartialDecryptions,
+  combineTrusteeShares,
+  createElectionKey,
+  dealTrusteeShares,
+  encryptBallot,
+  partialDecrypt,
+  prepareMixInput,
+  shuffleBallots,
+  signBallot,
+  verifyMixChain,
+  verifyShuffle,
+} from "../../frontend/src/lib/sdk";
+import type {
+  BallotTypedData,
+  Ciphertext,
+  ElectionKey,
+  ElectionRoll,
+  EncryptedBallot,
+  EncryptedTally,
+  MixedBatch,
+} from "../../frontend/src/lib/sdk";
+
+describe("Ballot Mixnet", function () {
+  const THRESHOLD = 2;
+  const TRUSTEES = 3;
+  const OPTIONS = 3; // against, for, abstain
+  const WALLETS = [1, 2, 3, 4].map(() => Wallet.createRandom());
+  const VOTERS = WALLETS.map((wallet) => wallet.address.toLowerCase() as `0x${string}`);
+  const ROLL: ElectionRoll = {
+    electionId: "1",
+    weights: Object.fromEntries(VOTERS.map((voter, i) => [voter, i === 1 ? 2 : 1])),
+  };
+  const castBy = (i: number) => ({ electionId: ROLL.electionId, voter: VOTERS[i] });
+  const cast = (election: ElectionKey, i: number, choice: number, weight = 1) =>
+    signBallot(
+      encryptBallot(election, castBy(i), choice, OPTIONS, weight),
+      async ({ domain, types, message }: BallotTypedData) =>
+        (await WALLETS[i].signTypedData(domain, { Ballot: [...types.Ballot] }, message)) as `0x${string}`
+    );
+
+  function runKeyGeneration() {
+    const dealings = Array.from({ length: TRUSTEES }, (_, i) => dealTrusteeShares(i + 1, THRESHOLD, TRUSTEES));
+    const keyShares = Array.from({ length: TRUSTEES }, (_, j) =>
+      combineTrusteeShares(dealings.map((dealing) => dealing.shares[j]))
+    );
+    const election = createElectionKey(THRESHOLD, dealings.map((dealing) => dealing.commitments));
+    return { election, keyShares };
+  }
+
+  function decrypt(election: ElectionKey, keyShares: bigint[], tally: EncryptedTally) {
+    const partials = [1, 2].map((trustee) => partialDecrypt(tally, trustee, keyShares[trustee - 1]));
+    return combinePartialDecryptions(election, tally, partials);
+  }
+
+  // Choices and weights: 2 for, 1 against with weight 2, 1 abstain
+  function castBallots(election: ElectionKey) {
+    return Promise.all([cast(election, 0, 1), cast(election, 1, 0, 2), cast(election, 2, 1), cast(election, 3, 2)]);
+  }
+
+  let election: ElectionKey;
+  let keyShares: bigint[];
+  let ballots: EncryptedBallot[];
+  let input: Ciphertext[][];
+  let mix: MixedBatch;
+
+  // Shuffle proofs take a few seconds, so the ballots and first mix are shared
+  before(async function () {
+    ({ election, keyShares } = runKeyGeneration());
+    ballots = await castBallots(election);
+    input = prepareMixInput(election, ROLL, ballots, OPTIONS);
+    mix = shuffleBallots(election, input);
+  });
+
+  it("Should prove an honest shuffle", function () {
+    expect(mix.ciphertexts).to.have.length(ballots.length);
+    expect(mix.proof).to.have.length(SHUFFLE_PROOF_ROUNDS);
+    expect(verifyShuffle(election, input, mix)).to.equal(true);
+
+    // Every ciphertext is re-encrypted, so none can be matched to the input
+    const inputPoints = new Set(input.flat().flatMap(({ c1, c2 }) => [c1, c2]));
+    for (const { c1, c2 } of mix.ciphertexts.flat()) {
+      expect(inputPoints.has(c1)).to.equal(false);
+      expect(inputPoints.has(c2)).to.equal(false);
+    }
+  });
+
+  it("Should keep every weighted vote through the mix", function () {
+    // Decrypting each output ballot on its own yields the input votes, in some order
+    const votes = mix.ciphertexts.map((ciphertexts) =>
+      decrypt(election, keyShares, { ciphertexts, ballots: 1, totalWeight: 2 }).join(",")
+    );
+    expect(votes.sort()).to.deep.equal(["0,0,1", "0,1,0", "0,1,0", "2,0,0"]);
+  });
+
+  it("Should reject shuffles that change the ballots", async function () {
+    // Output reordered after the proof was made
+    const reordered = { ...mix, ciphertexts: [mix.ciphertexts[1], mix.ciphertexts[0], ...mix.ciphertexts.slice(2)] };
+    expect(verifyShuffle(election, input, reordered)).to.equal(false);
+
+    // One ballot replaced with a fresh vote for another option
+    const [replacement] = prepareMixInput(election, ROLL, [await cast(election, 0, 0)], OPTIONS);
+    const replaced = { ...mix, ciphertexts: [replacement, ...mix.ciphertexts.slice(1)] };
+    expect(verifyShuffle(election, input, replaced)).to.equal(false);
+
+    // One ballot dropped and another duplicated
+    const duplicated = { ...mix, ciphertexts: [mix.ciphertexts[0], mix.ciphertexts[0], ...mix.ciphertexts.slice(2)] };
+    expect(verifyShuffle(election, input, duplicated)).to.equal(false);
+
+    // A proof for different input
+    const otherInput = prepareMixInput(election, ROLL, await castBallots(election), OPTIONS);
+    expect(verifyShuffle(election, otherInput, mix)).to.equal(false);
+  });
+
+  it("Should reject malformed shuffle proofs", function () {
+    expect(verifyShuffle(election, input, { ...mix, proof: mix.proof.slice(1) })).to.equal(false);
+    expect(verifyShuffle(election, input, { ...mix, ciphertexts: mix.ciphertexts.slice(1) })).to.equal(false);
+
+    const round = mix.proof[0];
+    const withRound = (changed: typeof round) => ({ ...mix, proof: [changed, ...mix.proof.slice(1)] });
+    const randomness = round.randomness.map((row) => [...row]);
+    randomness[0][0] = `0x${(BigInt(randomness[0][0]) + 1n).toString(16).padStart(64, "0")}`;
+    expect(verifyShuffle(election, input, withRound({ ...round, randomness }))).to.equal(false);
+
+    const notPermutation = round.permutation.map(() => round.permutation[0]);
+    expect(verifyShuffle(election, input, withRound({ ...round, permutation: notPermutation }))).to.equal(false);
+
+    const [first, second, ...rest] = round.permutation;
+    expect(verifyShuffle(election, input, withRound({ ...round, permutation: [second, first, ...rest] }))).to.equal(false);
+  });
+
+  it("Should only tally a verified mix chain", function () {
+    // Mix input is only made from ballots carrying their voter's weight
+    const reduced = { ...ROLL, weights: { ...ROLL.weights, [VOTERS[1]]: 1 } };
+    expect(() => prepareMixInput(election, reduced, ballots, OPTIONS)).to.throw("Invalid ballot");
+
+    expect(() => aggregateMixedBallots(election, ROLL, ballots, [], OPTIONS)).to.throw(
+      "Mixed batch failed verification"
+    );
+
+    const second = shuffleBallots(election, mix.ciphertexts);
+    expect(verifyMixChain(election, input, [mix, second])).to.equal(true);
+    expect(verifyMixChain(election, input, [second, mix])).to.equal(false);
+    expect(() => aggregateMixedBallots(election, ROLL, ballots, [second], OPTIONS)).to.throw(
+      "Mixed batch failed verification"
+    );
+    expect(() => aggregateMixedBallots(election, ROLL, ballots.slice(1), [mix, second], OPTIONS)).to.throw(
+      "Mixed batch failed verification"
+    );
+
+    const tally = aggregateMixedBallots(election, ROLL, ballots, [mix, second], OPTIONS);
+    expect(tally.ballots).to.equal(4);
+    expect(tally.totalWeight).to.equal(5);
+    expect(decrypt(election, keyShares, tally)).to.deep.equal([2, 2, 1]);
+  });
+
+  it("Should mix an empty batch", function () {
+    const empty = shuffleBallots(election, []);
+    expect(verifyShuffle(election, [], empty)).to.equal(true);
+    const tally = aggregateMixedBallots(election, ROLL, [], [empty], OPTIONS);
+    expect(decrypt(election, keyShares, tally)).to.deep.equal([0, 0, 0]);
+  });
+});
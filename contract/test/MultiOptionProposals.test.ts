@@ -0,0 +1,261 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { UnifiedLendingDAO } from "../typechain-types";
+import {
+  hashBallots,
+  hashRankedChoiceResult,
+  tallyApproval,
+  tallyRankedChoice,
+  verifyRankedChoiceResult,
+} from "../../frontend/src/lib/sdk";
+import type { MultiOptionBallot } from "../../frontend/src/lib/sdk";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
+
+describe("Multi-Option Proposals", function () {
+  const membershipFee = ethers.parseEther("0.1");
+  const APPROVAL = 0;
+  const RANKED_CHOICE = 1;
+  const MULTI_OPTION = 4; // ProposalType
+  const PENDING = 0;
+  const APPROVED = 1;
+  const EXPIRED = 5;
+
+  async function deployMultiOptionFixture() {
+    const [owner, admin1, member1, member2, member3, member4, member5, nonMember] = await ethers.getSigners();
+
+    const dao = await deployUnifiedLendingDAO();
+    await dao.initialize([admin1.address], 5100, membershipFee, {
+      minMembershipDuration: 30 * 24 * 60 * 60, // 30 days
+      membershipContribution: membershipFee,
+      maxLoanDuration: 90 * 24 * 60 * 60, // 90 days
+      minInterestRate: 500, // 5%
+      maxInterestRate: 2000, // 20%
+      cooldownPeriod: 7 * 24 * 60 * 60, // 7 days
+      maxLoanToTreasuryRatio: 5000, // 50%
+    });
+
+    const members = [member1, member2, member3, member4, member5];
+    for (const member of members) {
+      await dao.connect(member).registerMember("", "", { value: membershipFee });
+    }
+
+    return { dao, admin1, members, nonMember };
+  }
+
+  async function endVoting() {
+    await ethers.provider.send("evm_increaseTime", [7 * 24 * 60 * 60 + 1]); // VOTING_PERIOD
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  // Ballots in voting order, as an off-chain tally would replay them
+  async function replayBallots(dao: UnifiedLendingDAO, proposalId: bigint): Promise<MultiOptionBallot[]> {
+    const events = await dao.queryFilter(dao.filters.MultiOptionVoteCast(proposalId));
+    return events.map(event => ({
+      voter: event.args.voter as `0x${string}`,
+      weight: event.args.weight,
+      choices: event.args.choices.map(Number),
+    }));
+  }
+
+  describe("Creation", function () {
+    it("Should create a multi-option proposal that opens voting immediately", async function () {
+      const { dao, members } = await loadFixture(deployMultiOptionFixture);
+      const options = ["Aave", "Compound", "Hold ETH"];
+
+      await expect(dao.connect(members[0]).proposeMultiOption("Where should idle funds go?", options, APPROVAL))
+        .to.emit(dao, "MultiOptionProposalCreated")
+        .withArgs(1, members[0].address, APPROVAL, options, "Where should idle funds go?");
+
+      const proposal = await dao.getMultiOptionProposal(1);
+      expect(proposal.options).to.deep.equal(options);
+      expect(proposal.countingMethod).to.equal(APPROVAL);
+      expect(proposal.status).to.equal(PENDING);
+      expect(proposal.approvals).to.deep.equal([0n, 0n, 0n]);
+      expect(proposal.ballotsHash).to.equal(ethers.ZeroHash);
+
+      const summary = await dao.getEnhancedProposal(1);
+      expect(summary.proposalType).to.equal(MULTI_OPTION);
+      expect(summary.proposer).to.equal(members[0].address);
+      expect(await dao.getProposals(0, 10, true)).to.deep.equal([[1n], false]);
+    });
+
+    it("Should require between 2 and MAX_PROPOSAL_OPTIONS options", async function () {
+      const { dao, members, nonMember } = await loadFixture(deployMultiOptionFixture);
+      const tooMany = Array.from({ length: 17 }, (_, i) => `Option ${i}`);
+
+      await expect(
+        dao.connect(members[0]).proposeMultiOption("One option", ["Only"], APPROVAL)
+      ).to.be.revertedWithCustomError(dao, "InvalidOptionCount");
+      await expect(
+        dao.connect(members[0]).proposeMultiOption("Too many", tooMany, RANKED_CHOICE)
+      ).to.be.revertedWithCustomError(dao, "InvalidOptionCount");
+      await expect(
+        dao.connect(nonMember).proposeMultiOption("Outsider", ["Yes", "No"], APPROVAL)
+      ).to.be.revertedWithCustomError(dao, "NotMember");
+    });
+  });
+
+  describe("Approval Voting", function () {
+    it("Should count approvals per option and approve the most approved option", async function () {
+      const { dao, members } = await loadFixture(deployMultiOptionFixture);
+      await dao.connect(members[0]).proposeMultiOption("Pick a venue", ["Berlin", "Lisbon", "Denver"], APPROVAL);
+
+      await expect(dao.connect(members[0]).voteOnMultiOptionProposal(1, [0, 1]))
+        .to.emit(dao, "MultiOptionVoteCast")
+        .withArgs(1, members[0].address, [0, 1], 1);
+      await dao.connect(members[1]).voteOnMultiOptionProposal(1, [1]);
+      await dao.connect(members[2]).voteOnMultiOptionProposal(1, [2, 0]);
+
+      const proposal = await dao.getMultiOptionProposal(1);
+      expect(proposal.approvals).to.deep.equal([2n, 2n, 1n]);
+      expect(proposal.turnout).to.equal(3);
+
+      // The off-chain tally and ballot hash chain match the contract
+      const ballots = await replayBallots(dao, 1n);
+      expect(tallyApproval(ballots, 3)).to.deep.equal({ approvals: [2n, 2n, 1n], winningOption: 0 });
+      expect(hashBallots(ballots)).to.equal(proposal.ballotsHash);
+
+      await expect(dao.finalizeProposal(1)).to.be.revertedWithCustomError(dao, "VotingPeriodNotEnded");
+      await endVoting();
+
+      // Ties go to the lowest option index
+      await expect(dao.finalizeProposal(1))
+        .to.emit(dao, "MultiOptionResult")
+        .withArgs(1, 0, ethers.ZeroHash)
+        .and.to.emit(dao, "ProposalFinalized")
+        .withArgs(1, APPROVED)
+        .and.not.to.emit(dao, "ProposalQueued");
+
+      const finalized = await dao.getMultiOptionProposal(1);
+      expect(finalized.status).to.equal(APPROVED);
+      expect(finalized.winningOption).to.equal(0);
+    });
+
+    it("Should reject invalid and repeated ballots", async function () {
+      const { dao, members, nonMember } = await loadFixture(deployMultiOptionFixture);
+      await dao.connect(members[0]).proposeMultiOption("Pick a venue", ["Berlin", "Lisbon", "Denver"], APPROVAL);
+
+      for (const choices of [[], [3], [1, 1], [0, 1, 2, 0]]) {
+        await expect(
+          dao.connect(members[0]).voteOnMultiOptionProposal(1, choices)
+        ).to.be.revertedWithCustomError(dao, "InvalidBallot");
+      }
+      await expect(
+        dao.connect(nonMember).voteOnMultiOptionProposal(1, [0])
+      ).to.be.revertedWithCustomError(dao, "NotMember");
+      await expect(
+        dao.connect(members[0]).voteOnMultiOptionProposal(2, [0])
+      ).to.be.revertedWithCustomError(dao, "MultiOptionProposalNotFound");
+
+      await dao.connect(members[0]).voteOnMultiOptionProposal(1, [0]);
+      await expect(
+        dao.connect(members[0]).voteOnMultiOptionProposal(1, [1])
+      ).to.be.revertedWithCustomError(dao, "AlreadyVoted");
+
+      await endVoting();
+      await expect(
+        dao.connect(members[1]).voteOnMultiOptionProposal(1, [1])
+      ).to.be.revertedWithCustomError(dao, "VotingPeriodEnded");
+    });
+
+    it("Should expire without quorum", async function () {
+      const { dao, members } = await loadFixture(deployMultiOptionFixture);
+      await dao.connect(members[0]).proposeMultiOption("Pick a venue", ["Berlin", "Lisbon"], APPROVAL);
+      await endVoting();
+
+      await expect(dao.finalizeProposal(1)).to.emit(dao, "ProposalFinalized").withArgs(1, EXPIRED);
+      await expect(dao.finalizeProposal(1)).to.be.revertedWithCustomError(dao, "MultiOptionProposalNotPending");
+    });
+  });
+
+  describe("Ranked-Choice Voting", function () {
+    // Round 1: A 2, B 2, C 1 with no majority, so C is eliminated and its ballot moves to B
+    const rankings = [[0, 2], [1, 2], [2, 1], [1], [0, 1]];
+
+    async function rankedProposalFixture() {
+      const fixture = await deployMultiOptionFixture();
+      const { dao, members } = fixture;
+
+      await dao.connect(members[0]).proposeMultiOption("Next integration", ["A", "B", "C"], RANKED_CHOICE);
+      for (const [index, ranking] of rankings.entries()) {
+        await dao.connect(members[index]).voteOnMultiOptionProposal(1, ranking);
+      }
+      return fixture;
+    }
+
+    it("Should tally instant runoff off-chain from the committed ballots", async function () {
+      const { dao } = await loadFixture(rankedProposalFixture);
+
+      const proposal = await dao.getMultiOptionProposal(1);
+      expect(proposal.approvals).to.deep.equal([]);
+      expect(proposal.turnout).to.equal(5);
+
+      const ballots = await replayBallots(dao, 1n);
+      const tally = tallyRankedChoice(ballots, 3);
+      expect(tally.rounds).to.deep.equal([
+        [2n, 2n, 1n],
+        [2n, 3n, 0n],
+      ]);
+      expect(tally.winningOption).to.equal(1);
+      expect(tally.ballotsHash).to.equal(proposal.ballotsHash);
+      expect(tally.resultHash).to.equal(hashRankedChoiceResult(proposal.ballotsHash as `0x${string}`, 1, tally.rounds));
+    });
+
+    it("Should record an admin-committed result that anyone can verify", async function () {
+      const { dao, admin1, members } = await loadFixture(rankedProposalFixture);
+      const tally = tallyRankedChoice(await replayBallots(dao, 1n), 3);
+
+      await expect(
+        dao.connect(admin1).commitRankedChoiceResult(1, tally.winningOption, tally.resultHash)
+      ).to.be.revertedWithCustomError(dao, "VotingPeriodNotEnded");
+      await endVoting();
+
+      await expect(dao.finalizeProposal(1)).to.be.revertedWithCustomError(dao, "RankedResultRequired");
+      await expect(
+        dao.connect(members[0]).commitRankedChoiceResult(1, tally.winningOption, tally.resultHash)
+      ).to.be.revertedWithCustomError(dao, "NotAdmin");
+      await expect(
+        dao.connect(admin1).commitRankedChoiceResult(1, 3, tally.resultHash)
+      ).to.be.revertedWithCustomError(dao, "InvalidOption");
+
+      await expect(dao.connect(admin1).commitRankedChoiceResult(1, tally.winningOption, tally.resultHash))
+        .to.emit(dao, "ProposalFinalized")
+        .withArgs(1, APPROVED)
+        .and.to.emit(dao, "MultiOptionResult")
+        .withArgs(1, 1, tally.resultHash);
+
+      const proposal = await dao.getMultiOptionProposal(1);
+      const committed = {
+        ballotsHash: proposal.ballotsHash as `0x${string}`,
+        winningOption: Number(proposal.winningOption),
+        resultHash: proposal.resultHash as `0x${string}`,
+      };
+      const ballots = await replayBallots(dao, 1n);
+      expect(verifyRankedChoiceResult(ballots, 3, committed)).to.equal(true);
+
+      // A dropped ballot or a different winner no longer matches the commitment
+      expect(verifyRankedChoiceResult(ballots.slice(1), 3, committed)).to.equal(false);
+      expect(verifyRankedChoiceResult(ballots, 3, { ...committed, winningOption: 0 })).to.equal(false);
+
+      await expect(
+        dao.connect(admin1).commitRankedChoiceResult(1, 0, tally.resultHash)
+      ).to.be.revertedWithCustomError(dao, "MultiOptionProposalNotPending");
+    });
+
+    it("Should only commit results for ranked-choice proposals that reached quorum", async function () {
+      const { dao, admin1, members } = await loadFixture(deployMultiOptionFixture);
+      await dao.connect(members[0]).proposeMultiOption("Approval poll", ["Yes", "No"], APPROVAL);
+      await dao.connect(members[0]).proposeMultiOption("Quiet poll", ["A", "B"], RANKED_CHOICE);
+      await endVoting();
+
+      await expect(
+        dao.connect(admin1).commitRankedChoiceResult(1, 0, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(dao, "InvalidProposalType");
+      await expect(
+        dao.connect(admin1).commitRankedChoiceResult(2, 0, ethers.ZeroHash)
+      ).to.be.revertedWithCustomError(dao, "QuorumNotReached");
+      await expect(dao.finalizeProposal(2)).to.emit(dao, "ProposalFinalized").withArgs(2, EXPIRED);
+    });
+  });
+});
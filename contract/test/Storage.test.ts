@@ -0,0 +1,231 @@
+import { expect } from "chai";
+import { mkdtemp, readdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import {
+  assertCid,
+  computeCid,
+  createKuboStorage,
+  createMemoryStorage,
+  createPinningStorage,
+  createStorageBackend,
+  matchesCid,
+} from "../../frontend/src/lib/storage";
+import { createFilesystemStorage } from "../../frontend/src/lib/storage/filesystem";
+import type { Fetch } from "../../frontend/src/lib/storage";
+
+describe("Document Storage", function () {
+  const encode = (text: string) => new TextEncoder().encode(text);
+  const decode = (data: Uint8Array) => new TextDecoder().decode(data);
+
+  // `ipfs add --cid-version=1 --raw-leaves` of the same bytes
+  const HELLO_CID = "bafkreifzjut3te2nhyekklss27nh3k72ysco7y32koao5eei66wof36n5e";
+
+  interface Request {
+    url: string;
+    init?: RequestInit;
+  }
+
+  // Records every request and answers with `respond`
+  function stubFetch(respond: (request: Request) => Response | Promise<Response>) {
+    const requests: Request[] = [];
+    const fetch: Fetch = async (url, init) => {
+      requests.push({ url, init });
+      return respond({ url, init });
+    };
+    return { fetch, requests };
+  }
+
+  describe("CIDs", function () {
+    it("Should compute the CID IPFS gives a raw block", function () {
+      expect(computeCid(encode("hello world"))).to.equal(HELLO_CID);
+      expect(computeCid(new Uint8Array())).to.equal("bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku");
+    });
+
+    it("Should only check raw CIDs against content", function () {
+      expect(matchesCid(HELLO_CID, encode("hello world"))).to.equal(true);
+      expect(matchesCid(HELLO_CID, encode("hello world!"))).to.equal(false);
+      expect(matchesCid("QmWATWQ7fVPP2EFGu71UkfnqhYXDYH566qy47CnJDgvs8u", encode("hello world"))).to.equal(undefined);
+    });
+
+    it("Should reject strings that are not CIDs", function () {
+      for (const cid of ["", "../etc/passwd", `${HELLO_CID}/../x`, "Qm123", "not-a-cid"]) {
+        expect(() => assertCid(cid)).to.throw(`Invalid CID: ${cid}`);
+      }
+    });
+  });
+
+  describe("Memory backend", function () {
+    it("Should store content under its CID", async function () {
+      const storage = createMemoryStorage();
+      expect(storage.mock).to.equal(true);
+
+      const cid = await storage.put(encode("hello world"));
+      expect(cid).to.equal(HELLO_CID);
+      expect(decode(await storage.get(cid))).to.equal("hello world");
+    });
+
+    it("Should not let callers change stored content", async function () {
+      const storage = createMemoryStorage();
+      const data = encode("hello world");
+      const cid = await storage.put(data);
+      data[0] = 0;
+      (await storage.get(cid))[0] = 0;
+      expect(decode(await storage.get(cid))).to.equal("hello world");
+    });
+
+    it("Should reject missing content and invalid CIDs", async function () {
+      const storage = createMemoryStorage();
+      await expect(storage.get(HELLO_CID)).to.be.rejectedWith(`Content not found: ${HELLO_CID}`);
+      await expect(storage.get("nope")).to.be.rejectedWith("Invalid CID: nope");
+    });
+  });
+
+  describe("Filesystem backend", function () {
+    let directory: string;
+
+    beforeEach(async function () {
+      directory = await mkdtemp(path.join(tmpdir(), "dao-storage-"));
+    });
+
+    afterEach(async function () {
+      await rm(directory, { recursive: true, force: true });
+    });
+
+    it("Should persist content across instances", async function () {
+      const cid = await createFilesystemStorage(directory).put(encode("hello world"));
+      expect(cid).to.equal(HELLO_CID);
+      expect(await readdir(directory)).to.deep.equal([HELLO_CID]);
+
+      const reopened = createFilesystemStorage(directory);
+      expect(reopened.mock).to.equal(true);
+      expect(decode(await reopened.get(cid))).to.equal("hello world");
+    });
+
+    it("Should detect content changed on disk", async function () {
+      const storage = createFilesystemStorage(directory);
+      const cid = await storage.put(encode("hello world"));
+      await writeFile(path.join(directory, cid), "tampered");
+      await expect(storage.get(cid)).to.be.rejectedWith(`Stored content does not match ${cid}`);
+    });
+
+    it("Should reject missing content and paths outside the directory", async function () {
+      const storage = createFilesystemStorage(directory);
+      await expect(storage.get(HELLO_CID)).to.be.rejectedWith(`Content not found: ${HELLO_CID}`);
+      await expect(storage.get("../secret")).to.be.rejectedWith("Invalid CID: ../secret");
+    });
+  });
+
+  describe("Kubo backend", function () {
+    it("Should add, pin and read content through the RPC API", async function () {
+      const { fetch, requests } = stubFetch(({ url }) =>
+        url.includes("/add?")
+          ? new Response(JSON.stringify({ Name: "blob", Hash: HELLO_CID, Size: "11" }))
+          : new Response("hello world")
+      );
+      const storage = createKuboStorage({ url: "http://node:5001/", authorization: "Basic abc", fetch });
+      expect(storage.mock).to.equal(false);
+
+      expect(await storage.put(encode("hello world"))).to.equal(HELLO_CID);
+      expect(decode(await storage.get(HELLO_CID))).to.equal("hello world");
+
+      expect(requests.map(({ url }) => url)).to.deep.equal([
+        "http://node:5001/api/v0/add?cid-version=1&raw-leaves=true&pin=true",
+        `http://node:5001/api/v0/cat?arg=${HELLO_CID}`,
+      ]);
+      for (const { init } of requests) {
+        expect(init?.method).to.equal("POST");
+        expect(init?.headers).to.deep.equal({ authorization: "Basic abc" });
+      }
+      const file = (requests[0].init?.body as FormData).get("file") as Blob;
+      expect(decode(new Uint8Array(await file.arrayBuffer()))).to.equal("hello world");
+    });
+
+    it("Should surface node errors instead of inventing a hash", async function () {
+      const failing = createKuboStorage({
+        url: "http://node:5001",
+        fetch: stubFetch(() => new Response("", { status: 500 })).fetch,
+      });
+      await expect(failing.put(encode("hello world"))).to.be.rejectedWith("IPFS node returned 500 for add");
+      await expect(failing.get(HELLO_CID)).to.be.rejectedWith("IPFS node returned 500 for cat");
+
+      const offline = createKuboStorage({
+        url: "http://node:5001",
+        fetch: async () => {
+          throw new TypeError("fetch failed");
+        },
+      });
+      await expect(offline.put(encode("hello world"))).to.be.rejectedWith("Could not reach the IPFS node at http://node:5001");
+    });
+  });
+
+  describe("Pinning backend", function () {
+    it("Should pin what the source adds", async function () {
+      const { fetch, requests } = stubFetch(() => new Response("{}", { status: 202 }));
+      const storage = createPinningStorage({
+        url: "https://pins.example/psa",
+        accessToken: "secret",
+        source: createMemoryStorage(),
+        fetch,
+      });
+
+      expect(await storage.put(encode("hello world"))).to.equal(HELLO_CID);
+      expect(requests).to.have.length(1);
+      expect(requests[0].url).to.equal("https://pins.example/psa/pins");
+      expect(requests[0].init?.headers).to.include({ authorization: "Bearer secret" });
+      expect(JSON.parse(requests[0].init?.body as string)).to.deep.equal({ cid: HELLO_CID });
+    });
+
+    it("Should fail the upload when the service rejects the pin", async function () {
+      const storage = createPinningStorage({
+        url: "https://pins.example/psa",
+        accessToken: "expired",
+        source: createMemoryStorage(),
+        fetch: stubFetch(() => new Response("", { status: 401 })).fetch,
+      });
+      await expect(storage.put(encode("hello world"))).to.be.rejectedWith("Pinning service returned 401");
+    });
+
+    it("Should read from the gateway when the source lacks the content", async function () {
+      let body = "hello world";
+      const { fetch, requests } = stubFetch(() => new Response(body));
+      const storage = createPinningStorage({
+        url: "https://pins.example/psa",
+        accessToken: "secret",
+        source: createMemoryStorage(),
+        gateway: "https://gateway.example/ipfs/",
+        fetch,
+      });
+
+      expect(decode(await storage.get(HELLO_CID))).to.equal("hello world");
+      expect(requests[0].url).to.equal(`https://gateway.example/ipfs/${HELLO_CID}`);
+
+      body = "something else";
+      await expect(storage.get(HELLO_CID)).to.be.rejectedWith(`Gateway returned content that does not match ${HELLO_CID}`);
+    });
+  });
+
+  describe("Configuration", function () {
+    const config = { ipfsApiUrl: "http://127.0.0.1:5001" };
+
+    it("Should only use a mock backend when asked to", function () {
+      expect(createStorageBackend({ ...config, backend: "kubo" })).to.include({ name: "kubo", mock: false });
+      expect(createStorageBackend({ ...config, backend: "memory" })).to.include({ name: "memory", mock: true });
+      expect(
+        createStorageBackend({
+          ...config,
+          backend: "pinning",
+          pinningServiceUrl: "https://pins.example/psa",
+          pinningServiceToken: "secret",
+        })
+      ).to.include({ name: "pinning", mock: false });
+    });
+
+    it("Should reject incomplete or unknown configuration", function () {
+      expect(() => createStorageBackend({ ...config, backend: "pinning" })).to.throw(
+        "The pinning storage backend needs a pinning service URL and access token"
+      );
+      expect(() => createStorageBackend({ ...config, backend: "mock" })).to.throw('Unknown storage backend "mock"');
+    });
+  });
+});
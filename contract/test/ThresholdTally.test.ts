@@ -0,0 +1,298 @@
+import { expect } from "chai";
+import { Wallet } from "ethers";
+import type { HDNodeWallet } from "ethers";
+import {
+  aggregateBallots,
+  checkBallots,
+  combinePartialDecryptions,
+  combineTrusteeShares,
+  createElectionKey,
+  dealTrusteeShares,
+  encryptBallot,
+  isCountableBallot,
+  partialDecrypt,
+  signBallot,
+  verifyBallot,
+  verifyBallotSignature,
+  verifyPartialDecryption,
+  verifyTrusteeShare,
+} from "../../frontend/src/lib/sdk";
+import type { BallotTypedData, ElectionKey, ElectionRoll, EncryptedBallot } from "../../frontend/src/lib/sdk";
+
+describe("Threshold Tally", function () {
+  const THRESHOLD = 3;
+  const TRUSTEES = 5;
+  const OPTIONS = 3; // against, for, abstain
+  const ELECTION_ID = "7";
+  const WEIGHTS = [1, 3, 2, 1, 1];
+  const WALLETS = WEIGHTS.map(() => Wallet.createRandom());
+  const VOTERS = WALLETS.map((wallet) => wallet.address.toLowerCase() as `0x${string}`);
+
+  // The voters' weights at the election's snapshot
+  const ROLL: ElectionRoll = {
+    electionId: ELECTION_ID,
+    weights: Object.fromEntries(VOTERS.map((voter, i) => [voter, WEIGHTS[i]])),
+  };
+  const castBy = (i: number) => ({ electionId: ELECTION_ID, voter: VOTERS[i] });
+
+  // Sign the way a voter's wallet does
+  const signAs = (wallet: HDNodeWallet) => async ({ domain, types, message }: BallotTypedData) =>
+    (await wallet.signTypedData(domain, { Ballot: [...types.Ballot] }, message)) as `0x${string}`;
+  const cast = (election: ElectionKey, i: number, choice: number, weight = 1) =>
+    signBallot(encryptBallot(election, castBy(i), choice, OPTIONS, weight), signAs(WALLETS[i]));
+
+  // Every trustee deals to every other, checks what it received and sums it into its key share
+  function runKeyGeneration(threshold = THRESHOLD, trustees = TRUSTEES) {
+    const dealings = Array.from({ length: trustees }, (_, i) => dealTrusteeShares(i + 1, threshold, trustees));
+    const keyShares = Array.from({ length: trustees }, (_, j) => {
+      for (const dealing of dealings) {
+        expect(verifyTrusteeShare(dealing.commitments, j + 1, dealing.shares[j])).to.equal(true);
+      }
+      return combineTrusteeShares(dealings.map((dealing) => dealing.shares[j]));
+    });
+    const election = createElectionKey(threshold, dealings.map((dealing) => dealing.commitments));
+    return { dealings, keyShares, election };
+  }
+
+  // Decrypt with the trustees at `indices` (1-based)
+  function decryptWith(election: ElectionKey, keyShares: bigint[], ballots: EncryptedBallot[], indices: number[]) {
+    const tally = aggregateBallots(election, ROLL, ballots, OPTIONS);
+    const partials = indices.map((trustee) => partialDecrypt(tally, trustee, keyShares[trustee - 1]));
+    return combinePartialDecryptions(election, tally, partials);
+  }
+
+  const ballots = (election: ElectionKey) =>
+    Promise.all([
+      cast(election, 0, 1),
+      cast(election, 1, 1, 3),
+      cast(election, 2, 0, 2),
+      cast(election, 3, 2),
+      cast(election, 4, 1),
+    ]);
+
+  describe("Key generation", function () {
+    it("Should verify dealt shares against the dealer's commitments", function () {
+      const dealing = dealTrusteeShares(1, THRESHOLD, TRUSTEES);
+      expect(dealing.commitments).to.have.length(THRESHOLD);
+      expect(dealing.shares).to.have.length(TRUSTEES);
+
+      dealing.shares.forEach((share, j) => {
+        expect(verifyTrusteeShare(dealing.commitments, j + 1, share)).to.equal(true);
+      });
+      expect(verifyTrusteeShare(dealing.commitments, 2, dealing.shares[0])).to.equal(false);
+      expect(verifyTrusteeShare(dealing.commitments, 1, dealing.shares[0] + 1n)).to.equal(false);
+    });
+
+    it("Should reject invalid thresholds and trustee indices", function () {
+      expect(() => dealTrusteeShares(1, 0, TRUSTEES)).to.throw("Threshold must be between 1");
+      expect(() => dealTrusteeShares(1, TRUSTEES + 1, TRUSTEES)).to.throw("Threshold must be between 1");
+      expect(() => dealTrusteeShares(0, THRESHOLD, TRUSTEES)).to.throw("Trustee index out of range");
+      expect(() => dealTrusteeShares(TRUSTEES + 1, THRESHOLD, TRUSTEES)).to.throw("Trustee index out of range");
+
+      const dealings = [dealTrusteeShares(1, 2, 2), dealTrusteeShares(2, 3, 3)];
+      expect(() => createElectionKey(2, dealings.map((dealing) => dealing.commitments))).to.throw(
+        "Every dealing must commit to a polynomial"
+      );
+    });
+
+    it("Should derive the same election key from every trustee's commitments", function () {
+      const { dealings, election } = runKeyGeneration();
+      expect(election.threshold).to.equal(THRESHOLD);
+      expect(election.trustees).to.equal(TRUSTEES);
+      expect(election.verificationKeys).to.have.length(TRUSTEES);
+
+      // Anyone recomputing it from the published commitments gets the same key
+      const recomputed = createElectionKey(THRESHOLD, dealings.map((dealing) => dealing.commitments));
+      expect(recomputed).to.deep.equal(election);
+
+      // Each trustee contributes, so the key changes with any one dealing
+      const replaced = dealings.map((dealing) => dealing.commitments);
+      replaced[0] = dealTrusteeShares(1, THRESHOLD, TRUSTEES).commitments;
+      expect(createElectionKey(THRESHOLD, replaced).publicKey).to.not.equal(election.publicKey);
+    });
+  });
+
+  describe("Ballots", function () {
+    it("Should accept well-formed ballots", async function () {
+      const { election } = runKeyGeneration();
+      for (const ballot of await ballots(election)) {
+        expect(verifyBallot(election, ballot)).to.equal(true);
+        expect(verifyBallotSignature(ballot)).to.equal(true);
+      }
+    });
+
+    it("Should reject invalid choices and weights", function () {
+      const { election } = runKeyGeneration();
+      expect(() => encryptBallot(election, castBy(0), 3, OPTIONS)).to.throw("Invalid choice");
+      expect(() => encryptBallot(election, castBy(0), -1, OPTIONS)).to.throw("Invalid choice");
+      expect(() => encryptBallot(election, castBy(0), 0, OPTIONS, 0)).to.throw("Weight must be a positive integer");
+      expect(() => encryptBallot(election, castBy(0), 0, OPTIONS, 1.5)).to.throw("Weight must be a positive integer");
+      expect(() => encryptBallot(election, { ...castBy(0), voter: "0x1234" }, 0, OPTIONS)).to.throw(
+        "Invalid voter address"
+      );
+    });
+
+    it("Should reject tampered ballots", async function () {
+      const { election } = runKeyGeneration();
+      const ballot = await cast(election, 0, 1);
+      const other = encryptBallot(election, castBy(1), 0, OPTIONS);
+
+      // Doubling a ciphertext would count the vote twice
+      const swapped = { ...ballot, ciphertexts: [ballot.ciphertexts[0], ballot.ciphertexts[1], ballot.ciphertexts[1]] };
+      expect(verifyBallot(election, swapped)).to.equal(false);
+
+      // Mixing in another ballot's ciphertext
+      const mixed = { ...ballot, ciphertexts: [other.ciphertexts[0], ...ballot.ciphertexts.slice(1)] };
+      expect(verifyBallot(election, mixed)).to.equal(false);
+
+      // Proofs are bound to the ciphertexts they were made for
+      expect(verifyBallot(election, { ...ballot, choiceProofs: other.choiceProofs })).to.equal(false);
+      expect(verifyBallot(election, { ...ballot, sumProof: other.sumProof })).to.equal(false);
+
+      // A ballot for another election does not verify
+      const { election: otherElection } = runKeyGeneration();
+      expect(verifyBallot(otherElection, ballot)).to.equal(false);
+
+      expect(verifyBallot(election, { ...ballot, weight: 0 })).to.equal(false);
+      expect(verifyBallot(election, { ...ballot, ciphertexts: [] })).to.equal(false);
+      expect(verifyBallot(election, { ...ballot, sumProof: { challenge: "0x01", response: "0xzz" as `0x${string}` } }))
+        .to.equal(false);
+
+      expect(() => aggregateBallots(election, ROLL, [ballot, swapped], OPTIONS)).to.throw("Invalid ballot");
+      expect(() => aggregateBallots(election, ROLL, [ballot], 2)).to.throw("Invalid ballot");
+    });
+
+    it("Should bind ballots to their voter, election and weight", async function () {
+      const { election } = runKeyGeneration();
+      const ballot = await cast(election, 1, 1, 3);
+      expect(isCountableBallot(election, ROLL, ballot, OPTIONS)).to.equal(true);
+
+      // Claiming someone else's ballot, or moving it to another election, breaks its proofs
+      expect(verifyBallot(election, { ...ballot, voter: VOTERS[0] })).to.equal(false);
+      expect(verifyBallot(election, { ...ballot, electionId: "8" })).to.equal(false);
+      expect(verifyBallot(election, { ...ballot, weight: 1 })).to.equal(false);
+
+      // A replayed ballot still names its voter, who can only be counted once
+      expect(() => checkBallots(election, ROLL, [ballot, ballot], OPTIONS)).to.throw(
+        `Duplicate ballot from ${VOTERS[1]}`
+      );
+      const again = await cast(election, 1, 0, 3);
+      expect(() => aggregateBallots(election, ROLL, [ballot, again], OPTIONS)).to.throw("Duplicate ballot");
+    });
+
+    it("Should only count the weight each voter had at the snapshot", async function () {
+      const { election } = runKeyGeneration();
+
+      // Valid proofs, but more weight than the voter had
+      const inflated = await cast(election, 0, 1, 5);
+      expect(verifyBallot(election, inflated)).to.equal(true);
+      expect(isCountableBallot(election, ROLL, inflated, OPTIONS)).to.equal(false);
+      expect(() => aggregateBallots(election, ROLL, [inflated], OPTIONS)).to.throw("Invalid ballot");
+
+      // A voter who had no weight at the snapshot, and a ballot cast in another election
+      const stranger = Wallet.createRandom();
+      const outsider = await signBallot(
+        encryptBallot(election, { ...castBy(0), voter: stranger.address as `0x${string}` }, 1, OPTIONS),
+        signAs(stranger)
+      );
+      const elsewhere = await signBallot(
+        encryptBallot(election, { ...castBy(0), electionId: "8" }, 1, OPTIONS),
+        signAs(WALLETS[0])
+      );
+      expect(verifyBallotSignature(outsider)).to.equal(true);
+      expect(isCountableBallot(election, ROLL, outsider, OPTIONS)).to.equal(false);
+      expect(isCountableBallot(election, ROLL, elsewhere, OPTIONS)).to.equal(false);
+    });
+
+    it("Should only count ballots their voter signed", async function () {
+      const { election } = runKeyGeneration();
+      const ballot = await cast(election, 0, 1);
+      expect(isCountableBallot(election, ROLL, ballot, OPTIONS)).to.equal(true);
+
+      // Anyone can encrypt a ballot with valid proofs in a voter's name, but not sign it as them
+      const forged = await signBallot(encryptBallot(election, castBy(0), 0, OPTIONS), signAs(WALLETS[1]));
+      expect(verifyBallot(election, forged)).to.equal(true);
+      expect(verifyBallotSignature(forged)).to.equal(false);
+      expect(isCountableBallot(election, ROLL, forged, OPTIONS)).to.equal(false);
+      expect(() => checkBallots(election, ROLL, [forged], OPTIONS)).to.throw("Invalid ballot");
+
+      // The signature covers the ciphertexts, weight and election as well as the voter
+      const reencrypted = { ...encryptBallot(election, castBy(0), 0, OPTIONS), signature: ballot.signature };
+      expect(verifyBallot(election, reencrypted)).to.equal(true);
+      expect(verifyBallotSignature(reencrypted)).to.equal(false);
+      expect(verifyBallotSignature({ ...ballot, weight: 2 })).to.equal(false);
+      expect(verifyBallotSignature({ ...ballot, electionId: "8" })).to.equal(false);
+      expect(verifyBallotSignature({ ...ballot, signature: "0x" })).to.equal(false);
+    });
+  });
+
+  describe("Tallying", function () {
+    it("Should decrypt the weighted totals with any threshold of trustees", async function () {
+      const { election, keyShares } = runKeyGeneration();
+      const cast = await ballots(election);
+
+      for (const indices of [[1, 2, 3], [2, 4, 5], [5, 1, 3], [1, 2, 3, 4, 5]]) {
+        expect(decryptWith(election, keyShares, cast, indices)).to.deep.equal([2, 5, 1]);
+      }
+    });
+
+    it("Should track the ballot count and total weight", async function () {
+      const { election } = runKeyGeneration();
+      const tally = aggregateBallots(election, ROLL, await ballots(election), OPTIONS);
+      expect(tally.ballots).to.equal(5);
+      expect(tally.totalWeight).to.equal(8);
+      expect(tally.ciphertexts).to.have.length(OPTIONS);
+    });
+
+    it("Should tally no ballots as zero", function () {
+      const { election, keyShares } = runKeyGeneration();
+      expect(decryptWith(election, keyShares, [], [1, 2, 3])).to.deep.equal([0, 0, 0]);
+    });
+
+    it("Should not decrypt with fewer than threshold trustees", async function () {
+      const { election, keyShares } = runKeyGeneration();
+      const tally = aggregateBallots(election, ROLL, await ballots(election), OPTIONS);
+      const partials = [1, 2].map((trustee) => partialDecrypt(tally, trustee, keyShares[trustee - 1]));
+
+      expect(() => combinePartialDecryptions(election, tally, partials)).to.throw(
+        `Need partial decryptions from ${THRESHOLD} trustees, got 2`
+      );
+      // The same trustee twice does not count twice
+      expect(() => combinePartialDecryptions(election, tally, [...partials, partials[0]])).to.throw(
+        `Need partial decryptions from ${THRESHOLD} trustees, got 2`
+      );
+    });
+
+    it("Should reject partial decryptions that do not match the trustee's verification key", async function () {
+      const { election, keyShares } = runKeyGeneration();
+      const tally = aggregateBallots(election, ROLL, await ballots(election), OPTIONS);
+      const honest = [1, 2, 3].map((trustee) => partialDecrypt(tally, trustee, keyShares[trustee - 1]));
+      honest.forEach((partial) => expect(verifyPartialDecryption(election, tally, partial)).to.equal(true));
+
+      // Trustee 3 decrypting with trustee 4's share
+      const impersonated = partialDecrypt(tally, 3, keyShares[3]);
+      expect(verifyPartialDecryption(election, tally, impersonated)).to.equal(false);
+      expect(() => combinePartialDecryptions(election, tally, [honest[0], honest[1], impersonated])).to.throw(
+        "Invalid partial decryption from trustee 3"
+      );
+
+      // A share swapped for another option's
+      const swapped = { ...honest[2], shares: [honest[2].shares[1], honest[2].shares[0], honest[2].shares[2]] };
+      expect(verifyPartialDecryption(election, tally, swapped)).to.equal(false);
+
+      expect(verifyPartialDecryption(election, tally, { ...honest[0], trustee: TRUSTEES + 1 })).to.equal(false);
+      expect(verifyPartialDecryption(election, tally, { ...honest[0], shares: honest[0].shares.slice(1) })).to.equal(false);
+    });
+
+    it("Should only decrypt the aggregate it was computed for", async function () {
+      const { election, keyShares } = runKeyGeneration();
+      const cast = await ballots(election);
+      const tally = aggregateBallots(election, ROLL, cast, OPTIONS);
+      const single = aggregateBallots(election, ROLL, [cast[0]], OPTIONS);
+
+      // Partial decryptions of the full tally reveal nothing about a single ballot
+      const partials = [1, 2, 3].map((trustee) => partialDecrypt(tally, trustee, keyShares[trustee - 1]));
+      expect(() => combinePartialDecryptions(election, single, partials)).to.throw("Invalid partial decryption");
+    });
+  });
+});
@@ -3,13 +3,13 @@ import { ethers } from "hardhat";
 import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
 import { UnifiedLendingDAO } from "../typechain-types";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
 
 describe("UnifiedLendingDAO", function () {
   async function deployDAOFixture() {
     const [owner, admin1, admin2, member1, member2, member3, operator1, operator2] = await ethers.getSigners();
 
-    const UnifiedLendingDAO = await ethers.getContractFactory("UnifiedLendingDAO");
-    const dao = await UnifiedLendingDAO.deploy();
+    const dao = await deployUnifiedLendingDAO();
 
     // Initialize the DAO
     const membershipFee = ethers.parseEther("0.1");
@@ -66,10 +66,27 @@ describe("UnifiedLendingDAO", function () {
         dao.initialize([admin1.address], consensusThreshold, membershipFee, loanPolicy)
       ).to.be.revertedWithCustomError(dao, "AlreadyInitialized");
     });
+
+    it("Should share the voting module's verifiers", async function () {
+      const { dao } = await loadFixture(deployDAOFixture);
+      const votingModule = await ethers.getContractAt("VotingModule", await dao.votingModule());
+
+      expect(await dao.privateVoteVerifier()).to.equal(await votingModule.privateVoteVerifier());
+      expect(await dao.anonymousVoteVerifier()).to.equal(await votingModule.anonymousVoteVerifier());
+    });
+
+    it("Should reject a missing module", async function () {
+      const UnifiedLendingDAO = await ethers.getContractFactory("UnifiedLendingDAO");
+      const module = await (await ethers.deployContract("ManifestModule")).getAddress();
+
+      await expect(
+        UnifiedLendingDAO.deploy(module, module, module, module, ethers.ZeroAddress, module)
+      ).to.be.revertedWithCustomError(UnifiedLendingDAO, "ZeroAddress");
+    });
   });
 
   describe("Enhanced Member Registration", function () {
-    it("Should register member with ENS name and calculate voting weight", async function () {
+    it("Should register member with ENS name and default voting weight", async function () {
       const { dao, member1, membershipFee } = await loadFixture(deployDAOFixture);
 
       const ensName = "alice.eth";
@@ -81,11 +98,11 @@ describe("UnifiedLendingDAO", function () {
         .to.emit(dao, "MemberActivated")
         .withArgs(member1.address)
         .and.to.emit(dao, "ENSNameLinked")
-        .withArgs(member1.address, ensName, 150); // alice.eth = 9 chars = 150 weight
+        .withArgs(member1.address, ensName, 100); // Default weight until governance picks a strategy
 
       expect(await dao.isMember(member1.address)).to.be.true;
       expect(await dao.memberENSNames(member1.address)).to.equal(ensName);
-      expect(await dao.memberVotingWeights(member1.address)).to.equal(150);
+      expect(await dao.memberVotingWeights(member1.address)).to.equal(100);
     });
 
     it("Should register member without ENS (standard registration)", async function () {
@@ -171,7 +188,9 @@ describe("UnifiedLendingDAO", function () {
     it("Should handle ENS-weighted voting", async function () {
       const { dao, member1, member2, member3, admin1 } = await setupMembersWithinTest();
 
-      // Enable ENS voting
+      // Weigh members by ENS reputation and enable weighted voting
+      const strategy = await (await ethers.getContractFactory("ENSReputationVotingWeight")).deploy(ethers.ZeroAddress);
+      await passParameterChange(dao, [member1, member2], "setVotingWeightStrategy", [await strategy.getAddress()]);
       await dao.connect(admin1).toggleFeature("ensVoting", true);
 
       // Create loan proposal
@@ -183,12 +202,12 @@ describe("UnifiedLendingDAO", function () {
       await ethers.provider.send("evm_increaseTime", [4 * 24 * 60 * 60]); // 4 days
       await ethers.provider.send("evm_mine", []);
 
-      // Vote with different weights (alice.eth=150, bob.eth=135, member3=100)
-      await dao.connect(member2).voteOnLoanProposal(proposalId, true); // 135 weight (bob.eth = 7 chars = 135)
+      // Vote with different weights (alice.eth=105, bob.eth=106, member3=100)
+      await dao.connect(member2).voteOnLoanProposal(proposalId, true); // 106 weight (short unverified name bonus)
       await dao.connect(member3).voteOnLoanProposal(proposalId, true); // 100 weight (no ENS)
 
       const proposal = await dao.loanProposals(proposalId);
-      expect(proposal.forVotes).to.equal(235); // 135 + 100
+      expect(proposal.forVotes).to.equal(206); // 106 + 100
     });
 
     it("Should approve and disburse loan automatically when threshold met", async function () {
@@ -221,6 +240,27 @@ describe("UnifiedLendingDAO", function () {
       expect(loan.principalAmount).to.equal(loanAmount);
     });
 
+    it("Should emit phase changes for the loan timeline", async function () {
+      const { dao, member1, member2, member3 } = await setupMembersWithinTest();
+
+      const loanAmount = ethers.parseEther("1");
+      const proposalId = await dao.connect(member1).requestLoan.staticCall(loanAmount, false, ethers.ZeroHash, "");
+      await dao.connect(member1).requestLoan(loanAmount, false, ethers.ZeroHash, "");
+
+      await ethers.provider.send("evm_increaseTime", [4 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      // First vote after the editing period moves the proposal into VOTING (1)
+      await expect(dao.connect(member2).voteOnLoanProposal(proposalId, true))
+        .to.emit(dao, "ProposalPhaseChanged")
+        .withArgs(proposalId, 1);
+
+      // Approval moves it to EXECUTED (2)
+      await expect(dao.connect(member3).voteOnLoanProposal(proposalId, true))
+        .to.emit(dao, "ProposalPhaseChanged")
+        .withArgs(proposalId, 2);
+    });
+
     it("Should handle private voting events", async function () {
       const { dao, member1, member2, admin1 } = await setupMembersWithinTest();
 
@@ -494,7 +534,7 @@ describe("UnifiedLendingDAO", function () {
 
       expect(profile.memberData.memberAddress).to.equal(member1.address);
       expect(profile.ensName).to.equal("alice.eth");
-      expect(profile.votingWeight).to.equal(150); // alice.eth = 9 chars = 150 weight
+      expect(profile.votingWeight).to.equal(100); // Default weight
       expect(profile.hasActiveProposal).to.be.false;
     });
 
@@ -587,6 +627,880 @@ describe("UnifiedLendingDAO", function () {
     });
   });
 
+  const DAY = 24 * 60 * 60;
+
+  async function setupActiveLoanFixture() {
+    const base = await loadFixture(deployDAOFixture);
+    const { dao, member1, member2, member3, membershipFee } = base;
+
+    await dao.connect(member1).registerMember("alice.eth", "", { value: membershipFee });
+    await dao.connect(member2).registerMember("bob.eth", "", { value: membershipFee });
+    await dao.connect(member3).registerMember("", "", { value: membershipFee });
+
+    // Fast-forward to bypass membership duration
+    await ethers.provider.send("evm_increaseTime", [31 * DAY]);
+    await ethers.provider.send("evm_mine", []);
+
+    await dao.connect(member1).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+    await ethers.provider.send("evm_increaseTime", [4 * DAY]);
+    await ethers.provider.send("evm_mine", []);
+    await dao.connect(member2).voteOnLoanProposal(1, true);
+    await dao.connect(member3).voteOnLoanProposal(1, true);
+
+    return { ...base, loan: await dao.getLoan(1) };
+  }
+
+  // Propose a policy setter call as the first voter and vote it through
+  async function passParameterChange(
+    dao: UnifiedLendingDAO,
+    voters: SignerWithAddress[],
+    functionName: string,
+    args: unknown[]
+  ) {
+    const callData = dao.interface.encodeFunctionData(functionName, args);
+    await dao.connect(voters[0]).proposeParameterChange(callData, `Call ${functionName}`);
+    const proposalId = await dao.proposalCounter();
+
+    // The deciding vote executes the call, so return it for event and revert assertions
+    for (const voter of voters.slice(0, -1)) {
+      await dao.connect(voter).voteOnGovernanceProposal(proposalId, true);
+    }
+    return dao.connect(voters[voters.length - 1]).voteOnGovernanceProposal(proposalId, true);
+  }
+
+  describe("Installment Repayments", function () {
+    it("Should split the repayment into installments over the loan duration", async function () {
+      const { dao, loan } = await setupActiveLoanFixture();
+
+      const schedule = await dao.getRepaymentSchedule(1);
+      expect(schedule.installmentCount).to.equal(3); // 90 days in 30 day installments
+      expect(schedule.installmentAmount).to.equal(loan.totalRepayment / 3n);
+      expect(schedule.installmentInterval).to.equal(30 * DAY);
+      expect(schedule.installmentsPaid).to.equal(0);
+      expect(schedule.remainingBalance).to.equal(loan.totalRepayment);
+      expect(schedule.nextDueDate).to.equal(loan.startDate + BigInt(30 * DAY));
+      expect(schedule.nextInstallmentAmount).to.equal(schedule.installmentAmount);
+    });
+
+    it("Should track partial payments towards the next installment", async function () {
+      const { dao, member1, loan } = await setupActiveLoanFixture();
+      const { installmentAmount } = await dao.getRepaymentSchedule(1);
+
+      // Under-paying an installment keeps it open
+      const partial = installmentAmount / 2n;
+      await expect(dao.connect(member1).repayLoan(1, { value: partial }))
+        .to.emit(dao, "LoanRepaymentMade")
+        .withArgs(1, member1.address, partial, loan.totalRepayment - partial);
+
+      let schedule = await dao.getRepaymentSchedule(1);
+      expect(schedule.installmentsPaid).to.equal(0);
+      expect(schedule.nextDueDate).to.equal(loan.startDate + BigInt(30 * DAY));
+      expect(schedule.nextInstallmentAmount).to.equal(installmentAmount - partial);
+      expect((await dao.getLoan(1)).status).to.equal(2); // Still ACTIVE
+
+      await dao.connect(member1).repayLoan(1, { value: installmentAmount - partial });
+
+      schedule = await dao.getRepaymentSchedule(1);
+      expect(schedule.installmentsPaid).to.equal(1);
+      expect(schedule.remainingBalance).to.equal(loan.totalRepayment - installmentAmount);
+      expect(schedule.nextDueDate).to.equal(loan.startDate + BigInt(60 * DAY));
+      expect(schedule.nextInstallmentAmount).to.equal(installmentAmount);
+    });
+
+    it("Should reject over-payments and zero payments", async function () {
+      const { dao, member1, loan } = await setupActiveLoanFixture();
+
+      await expect(
+        dao.connect(member1).repayLoan(1, { value: loan.totalRepayment + 1n })
+      ).to.be.revertedWithCustomError(dao, "IncorrectRepaymentAmount");
+      await expect(dao.connect(member1).repayLoan(1, { value: 0 })).to.be.revertedWithCustomError(dao, "ZeroAmount");
+
+      // The remaining balance caps later payments too
+      await dao.connect(member1).repayLoan(1, { value: loan.totalRepayment - 10n });
+      await expect(
+        dao.connect(member1).repayLoan(1, { value: 11n })
+      ).to.be.revertedWithCustomError(dao, "IncorrectRepaymentAmount");
+      expect((await dao.getRepaymentSchedule(1)).remainingBalance).to.equal(10n);
+    });
+
+    it("Should close the loan and distribute interest on the final installment", async function () {
+      const { dao, member1, member2, loan } = await setupActiveLoanFixture();
+      const { installmentAmount } = await dao.getRepaymentSchedule(1);
+
+      await dao.connect(member1).repayLoan(1, { value: installmentAmount });
+      await dao.connect(member1).repayLoan(1, { value: installmentAmount });
+      expect(await dao.pendingRewards(member2.address)).to.equal(0);
+
+      // The last installment carries the rounding remainder
+      const lastInstallment = loan.totalRepayment - 2n * installmentAmount;
+      expect((await dao.getRepaymentSchedule(1)).nextInstallmentAmount).to.equal(lastInstallment);
+      expect((await dao.getRepaymentSchedule(1)).nextDueDate).to.equal(loan.dueDate);
+
+      await expect(dao.connect(member1).repayLoan(1, { value: lastInstallment }))
+        .to.emit(dao, "LoanRepaid")
+        .withArgs(1, member1.address, loan.totalRepayment);
+
+      const schedule = await dao.getRepaymentSchedule(1);
+      expect(schedule.installmentsPaid).to.equal(3);
+      expect(schedule.remainingBalance).to.equal(0);
+      expect(schedule.nextDueDate).to.equal(0);
+      expect((await dao.getLoan(1)).status).to.equal(3); // REPAID
+      expect((await dao.getMember(member1.address)).hasActiveLoan).to.be.false;
+      expect(await dao.pendingRewards(member2.address)).to.be.gt(0);
+
+      await expect(
+        dao.connect(member1).repayLoan(1, { value: 1n })
+      ).to.be.revertedWithCustomError(dao, "LoanNotActive");
+    });
+
+    it("Should let governance change the installment interval for new loans", async function () {
+      const { dao, admin1, member2, member3 } = await setupActiveLoanFixture();
+
+      await expect(dao.connect(admin1).setInstallmentInterval(7 * DAY))
+        .to.be.revertedWithCustomError(dao, "OnlyGovernance");
+      await expect(passParameterChange(dao, [member2, member3], "setInstallmentInterval", [0]))
+        .to.emit(dao, "ProposalExecutionFailed")
+        .withArgs(2, dao.interface.encodeErrorResult("InvalidDuration"));
+
+      await expect(passParameterChange(dao, [member2, member3], "setInstallmentInterval", [7 * DAY]))
+        .to.emit(dao, "InstallmentIntervalUpdated")
+        .withArgs(7 * DAY);
+
+      // The existing loan keeps its schedule
+      expect((await dao.getRepaymentSchedule(1)).installmentInterval).to.equal(30 * DAY);
+      await expect(dao.getRepaymentSchedule(2)).to.be.revertedWithCustomError(dao, "LoanNotFound");
+    });
+  });
+
+  describe("Loan Defaults", function () {
+    const GRACE_PERIOD = 7 * DAY;
+
+    it("Should only allow defaulting once an installment is past the grace period", async function () {
+      const { dao, admin1, loan } = await setupActiveLoanFixture();
+      const firstDueDate = loan.startDate + BigInt(30 * DAY);
+
+      expect(await dao.isLoanInDefault(1)).to.be.false;
+
+      // The last second of the grace period
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(firstDueDate) + GRACE_PERIOD]);
+      await expect(dao.connect(admin1).markLoanDefaulted(1)).to.be.revertedWithCustomError(dao, "LoanNotOverdue");
+
+      await ethers.provider.send("evm_increaseTime", [1]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await dao.isLoanInDefault(1)).to.be.true;
+      expect(await dao.getDefaultableLoans()).to.deep.equal([1n]);
+    });
+
+    it("Should keep a loan current while installments are paid", async function () {
+      const { dao, member1 } = await setupActiveLoanFixture();
+      const { installmentAmount } = await dao.getRepaymentSchedule(1);
+
+      await dao.connect(member1).repayLoan(1, { value: installmentAmount });
+      await ethers.provider.send("evm_increaseTime", [40 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      // The second installment is due on day 60
+      expect(await dao.isLoanInDefault(1)).to.be.false;
+      expect(await dao.getDefaultableLoans()).to.be.empty;
+    });
+
+    it("Should suspend the borrower and recover their exit share", async function () {
+      const { dao, admin1, member1, loan } = await setupActiveLoanFixture();
+      const { installmentAmount } = await dao.getRepaymentSchedule(1);
+      await dao.connect(member1).repayLoan(1, { value: installmentAmount });
+
+      await ethers.provider.send("evm_increaseTime", [70 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      const outstanding = loan.totalRepayment - installmentAmount;
+      const exitShare = await dao.calculateExitShare(member1.address);
+      const recovered = exitShare < outstanding ? exitShare : outstanding;
+      const activeMembers = await dao.activeMembers();
+
+      await expect(dao.connect(admin1).markLoanDefaulted(1))
+        .to.emit(dao, "LoanDefaulted")
+        .withArgs(1, member1.address, outstanding, recovered);
+
+      expect((await dao.getLoan(1)).status).to.equal(4); // DEFAULTED
+      expect(await dao.recoveredAmounts(1)).to.equal(recovered);
+      expect(await dao.defaultedLoans()).to.equal(1);
+      expect(await dao.activeMembers()).to.equal(activeMembers - 1n);
+
+      const borrower = await dao.getMember(member1.address);
+      expect(borrower.status).to.equal(3); // SUSPENDED_MEMBER
+      expect(borrower.hasActiveLoan).to.be.false;
+      expect(await dao.isMember(member1.address)).to.be.false;
+
+      // Only the recovered part of the stake is forfeited
+      const remaining = await dao.calculateExitShare(member1.address);
+      expect(remaining).to.be.greaterThan(0);
+      expect(remaining).to.be.closeTo(exitShare - recovered, 1n);
+
+      await expect(dao.connect(member1).repayLoan(1, { value: 1n })).to.be.revertedWithCustomError(dao, "LoanNotActive");
+      await expect(dao.connect(admin1).markLoanDefaulted(1)).to.be.revertedWithCustomError(dao, "LoanNotActive");
+    });
+
+    it("Should let a suspended borrower withdraw what is left of their stake", async function () {
+      const { dao, admin1, member1 } = await setupActiveLoanFixture();
+      await ethers.provider.send("evm_increaseTime", [40 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await dao.connect(admin1).markLoanDefaulted(1);
+
+      const remaining = await dao.calculateExitShare(member1.address);
+      const activeMembers = await dao.activeMembers();
+      const balanceBefore = await ethers.provider.getBalance(member1.address);
+
+      const tx = await dao.connect(member1).exitDAO();
+      await expect(tx).to.emit(dao, "MemberExited").withArgs(member1.address, remaining);
+      const receipt = (await tx.wait())!;
+      expect(await ethers.provider.getBalance(member1.address)).to.equal(
+        balanceBefore + remaining - receipt.gasUsed * receipt.gasPrice
+      );
+
+      expect((await dao.getMember(member1.address)).status).to.equal(2); // INACTIVE
+      expect(await dao.activeMembers()).to.equal(activeMembers);
+      expect(await dao.calculateExitShare(member1.address)).to.equal(0);
+      await expect(dao.connect(member1).exitDAO()).to.be.revertedWithCustomError(dao, "NotMember");
+    });
+
+    it("Should let keepers default loans once auto liquidation is enabled", async function () {
+      const { dao, owner, admin1, member2 } = await setupActiveLoanFixture();
+
+      await ethers.provider.send("evm_increaseTime", [40 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(dao.connect(member2).markLoanDefaulted(1)).to.be.revertedWithCustomError(dao, "NotAuthorized");
+
+      await dao.connect(admin1).toggleFeature("autoLiquidation", true);
+      await expect(dao.connect(owner).markLoanDefaulted(1)).to.emit(dao, "LoanDefaulted");
+    });
+
+    it("Should let governance change the grace period", async function () {
+      const { dao, admin1, member2, member3 } = await setupActiveLoanFixture();
+
+      await expect(dao.connect(admin1).setGracePeriod(DAY)).to.be.revertedWithCustomError(dao, "OnlyGovernance");
+      await expect(passParameterChange(dao, [member2, member3], "setGracePeriod", [DAY]))
+        .to.emit(dao, "GracePeriodUpdated")
+        .withArgs(DAY);
+
+      await ethers.provider.send("evm_increaseTime", [32 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+      expect(await dao.isLoanInDefault(1)).to.be.true;
+    });
+  });
+
+  describe("Governance Proposals", function () {
+    it("Should execute a parameter change once the consensus threshold is reached", async function () {
+      const { dao, admin1, member1, member2, member3 } = await setupActiveLoanFixture();
+
+      await expect(dao.connect(admin1).setConsensusThreshold(6000)).to.be.revertedWithCustomError(dao, "OnlyGovernance");
+
+      const callData = dao.interface.encodeFunctionData("setConsensusThreshold", [6000]);
+      await expect(dao.connect(member1).proposeParameterChange(callData, "Raise the threshold to 60%"))
+        .to.emit(dao, "GovernanceProposalCreated")
+        .withArgs(2, member1.address, 2, ethers.ZeroAddress, callData, "Raise the threshold to 60%");
+
+      await dao.connect(member2).voteOnGovernanceProposal(2, true);
+      expect(await dao.consensusThreshold()).to.equal(5100);
+      await expect(dao.connect(member2).voteOnGovernanceProposal(2, true)).to.be.revertedWithCustomError(dao, "AlreadyVoted");
+
+      await expect(dao.connect(member3).voteOnGovernanceProposal(2, true))
+        .to.emit(dao, "GovernanceProposalExecuted")
+        .withArgs(2)
+        .and.to.emit(dao, "ConsensusThresholdUpdated")
+        .withArgs(6000);
+
+      expect(await dao.consensusThreshold()).to.equal(6000);
+      const proposal = await dao.getProposal(2);
+      expect(proposal.proposalType).to.equal(2); // PARAMETER_CHANGE
+      expect(proposal.status).to.equal(3); // EXECUTED
+      await expect(dao.connect(member1).voteOnGovernanceProposal(2, true))
+        .to.be.revertedWithCustomError(dao, "GovernanceProposalNotPending");
+    });
+
+    it("Should only accept calls to the policy setters", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+
+      const addAdmin = dao.interface.encodeFunctionData("addAdmin", [member1.address]);
+      await expect(dao.connect(member1).proposeParameterChange(addAdmin, ""))
+        .to.be.revertedWithCustomError(dao, "UnsupportedParameterChange");
+      await expect(dao.connect(member1).proposeParameterChange("0x1234", ""))
+        .to.be.revertedWithCustomError(dao, "UnsupportedParameterChange");
+
+      // Invalid values cancel the proposal with the setter's own error instead of reverting the deciding vote
+      await expect(passParameterChange(dao, [member2, member3], "setInterestRateRange", [2000, 500]))
+        .to.emit(dao, "ProposalExecutionFailed")
+        .withArgs(2, dao.interface.encodeErrorResult("InvalidInterestRate"))
+        .and.not.to.emit(dao, "GovernanceProposalExecuted");
+      expect((await dao.getProposal(2)).status).to.equal(4); // CANCELLED
+      expect((await dao.getLoanPolicy()).minInterestRate).to.equal(500);
+
+      await passParameterChange(dao, [member2, member3], "setInterestRateRange", [300, 1500]);
+      const policy = await dao.getLoanPolicy();
+      expect(policy.minInterestRate).to.equal(300);
+      expect(policy.maxInterestRate).to.equal(1500);
+    });
+
+    it("Should remove a member and pay out their exit share", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+
+      await expect(dao.connect(member2).proposeMemberRemoval(member1.address, ""))
+        .to.be.revertedWithCustomError(dao, "CannotExitWithActiveLoan");
+      await expect(dao.connect(member2).proposeMemberRemoval(member2.address, ""))
+        .to.be.revertedWithCustomError(dao, "NotAuthorized");
+
+      await dao.connect(member2).proposeMemberRemoval(member3.address, "Inactive for a year");
+      const proposalId = await dao.proposalCounter();
+      await expect(dao.connect(member3).voteOnGovernanceProposal(proposalId, false))
+        .to.be.revertedWithCustomError(dao, "CannotVoteOnOwnProposal");
+
+      await dao.connect(member1).voteOnGovernanceProposal(proposalId, true);
+      const exitShare = await dao.calculateExitShare(member3.address);
+      const balanceBefore = await ethers.provider.getBalance(member3.address);
+
+      await expect(dao.connect(member2).voteOnGovernanceProposal(proposalId, true))
+        .to.emit(dao, "MemberRemoved")
+        .withArgs(member3.address, exitShare);
+
+      expect(await ethers.provider.getBalance(member3.address)).to.equal(balanceBefore + exitShare);
+      expect(await dao.isMember(member3.address)).to.be.false;
+      expect(await dao.activeMembers()).to.equal(2);
+      expect((await dao.getProposal(proposalId)).proposalType).to.equal(3); // MEMBER_REMOVAL
+    });
+
+    it("Should cancel a removal once the member has taken a loan", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+
+      await dao.connect(member2).proposeMemberRemoval(member3.address, "Inactive for a year");
+      const removalId = await dao.proposalCounter();
+
+      await dao.connect(member3).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+      const loanProposalId = await dao.proposalCounter();
+      await ethers.provider.send("evm_increaseTime", [4 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await dao.connect(member1).voteOnLoanProposal(loanProposalId, true);
+      await dao.connect(member2).voteOnLoanProposal(loanProposalId, true);
+
+      await dao.connect(member1).voteOnGovernanceProposal(removalId, true);
+      await expect(dao.connect(member2).voteOnGovernanceProposal(removalId, true))
+        .to.emit(dao, "ProposalExecutionFailed")
+        .withArgs(removalId, dao.interface.encodeErrorResult("CannotExitWithActiveLoan"))
+        .and.not.to.emit(dao, "MemberRemoved");
+
+      expect((await dao.getProposal(removalId)).status).to.equal(4); // CANCELLED
+      expect(await dao.isMember(member3.address)).to.be.true;
+      await expect(dao.connect(member3).voteOnGovernanceProposal(removalId, true)).to.be.revertedWithCustomError(
+        dao,
+        "GovernanceProposalNotPending"
+      );
+    });
+
+    it("Should reject votes after the voting period", async function () {
+      const { dao, member1, member2 } = await setupActiveLoanFixture();
+
+      const callData = dao.interface.encodeFunctionData("setCooldownPeriod", [DAY]);
+      await dao.connect(member1).proposeParameterChange(callData, "");
+
+      await ethers.provider.send("evm_increaseTime", [8 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(dao.connect(member2).voteOnGovernanceProposal(2, true))
+        .to.be.revertedWithCustomError(dao, "VotingPeriodEnded");
+      await expect(dao.connect(member2).voteOnGovernanceProposal(99, true))
+        .to.be.revertedWithCustomError(dao, "GovernanceProposalNotFound");
+    });
+  });
+
+  describe("Timelock", function () {
+    it("Should queue approved proposals until the delay has passed", async function () {
+      const { dao, owner, member1, member2, member3 } = await setupActiveLoanFixture();
+
+      await expect(passParameterChange(dao, [member2, member3], "setTimelockDelay", [31 * DAY]))
+        .to.emit(dao, "ProposalExecutionFailed")
+        .withArgs(2, dao.interface.encodeErrorResult("InvalidDuration"));
+      await expect(passParameterChange(dao, [member2, member3], "setTimelockDelay", [2 * DAY]))
+        .to.emit(dao, "TimelockDelayUpdated")
+        .withArgs(2 * DAY);
+
+      const amount = ethers.parseEther("1");
+      await dao.connect(member2).proposeTreasuryWithdrawal(amount, member3.address, "Audit");
+      const proposalId = await dao.proposalCounter();
+
+      const treasuryBefore = await dao.getTreasuryBalance();
+      const tx = await dao.connect(member1).voteOnTreasuryProposal(proposalId, true);
+      const eta = (await ethers.provider.getBlock(tx.blockNumber!))!.timestamp + 2 * DAY;
+      await expect(tx).to.emit(dao, "ProposalQueued").withArgs(proposalId, eta);
+      expect(await dao.getTreasuryBalance()).to.equal(treasuryBefore);
+
+      const [queuedIds, etas] = await dao.getQueuedProposals();
+      expect(queuedIds).to.deep.equal([proposalId]);
+      expect(etas).to.deep.equal([BigInt(eta)]);
+      expect((await dao.getProposal(proposalId)).status).to.equal(1); // APPROVED
+      await expect(dao.executeQueuedProposal(proposalId)).to.be.revertedWithCustomError(dao, "TimelockNotExpired");
+
+      await ethers.provider.send("evm_increaseTime", [2 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+      const balanceBefore = await ethers.provider.getBalance(member3.address);
+
+      // Anyone can execute once the delay has passed
+      await expect(dao.connect(owner).executeQueuedProposal(proposalId))
+        .to.emit(dao, "TreasuryWithdrawalExecuted")
+        .withArgs(proposalId, amount, member3.address)
+        .and.to.emit(dao, "QueuedProposalExecuted")
+        .withArgs(proposalId, owner.address);
+
+      expect(await ethers.provider.getBalance(member3.address)).to.equal(balanceBefore + amount);
+      expect((await dao.getProposal(proposalId)).status).to.equal(3); // EXECUTED
+      expect((await dao.getQueuedProposals())[0]).to.be.empty;
+      await expect(dao.executeQueuedProposal(proposalId)).to.be.revertedWithCustomError(dao, "ProposalNotQueued");
+    });
+
+    it("Should let the guardian cancel a queued proposal", async function () {
+      const { dao, admin1, admin2, member1, member2, member3 } = await setupActiveLoanFixture();
+      await passParameterChange(dao, [member2, member3], "setTimelockDelay", [DAY]);
+
+      await expect(dao.connect(member1).setGuardian(member1.address)).to.be.revertedWithCustomError(dao, "NotAdmin");
+      await expect(dao.connect(admin1).setGuardian(admin2.address))
+        .to.emit(dao, "GuardianUpdated")
+        .withArgs(admin2.address);
+
+      await dao.connect(member2).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+      const proposalId = await dao.proposalCounter();
+      await ethers.provider.send("evm_increaseTime", [4 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await dao.connect(member1).voteOnLoanProposal(proposalId, true);
+      await expect(dao.connect(member3).voteOnLoanProposal(proposalId, true)).to.emit(dao, "ProposalQueued");
+
+      // The loan is only created when the queued proposal executes
+      expect(await dao.loanCounter()).to.equal(1);
+
+      await expect(dao.connect(admin1).cancelQueuedProposal(proposalId))
+        .to.be.revertedWithCustomError(dao, "OnlyGuardian");
+      await expect(dao.connect(admin2).cancelQueuedProposal(proposalId))
+        .to.emit(dao, "ProposalCancelled")
+        .withArgs(proposalId, admin2.address);
+
+      expect((await dao.getProposal(proposalId)).status).to.equal(4); // CANCELLED
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(dao.executeQueuedProposal(proposalId)).to.be.revertedWithCustomError(dao, "ProposalNotQueued");
+      await expect(dao.connect(admin2).cancelQueuedProposal(proposalId))
+        .to.be.revertedWithCustomError(dao, "ProposalNotQueued");
+      expect(await dao.loanCounter()).to.equal(1);
+    });
+
+    it("Should cancel a queued loan whose borrower was removed", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+      await passParameterChange(dao, [member2, member3], "setTimelockDelay", [DAY]);
+
+      await dao.connect(member2).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+      const loanProposalId = await dao.proposalCounter();
+      await ethers.provider.send("evm_increaseTime", [4 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await dao.connect(member1).voteOnLoanProposal(loanProposalId, true);
+      await expect(dao.connect(member3).voteOnLoanProposal(loanProposalId, true)).to.emit(dao, "ProposalQueued");
+
+      await dao.connect(member1).proposeMemberRemoval(member2.address, "Left the country");
+      const removalId = await dao.proposalCounter();
+      await dao.connect(member1).voteOnGovernanceProposal(removalId, true);
+      await dao.connect(member3).voteOnGovernanceProposal(removalId, true);
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(dao.executeQueuedProposal(removalId)).to.emit(dao, "MemberRemoved");
+
+      await expect(dao.executeQueuedProposal(loanProposalId))
+        .to.emit(dao, "ProposalExecutionFailed")
+        .withArgs(loanProposalId, dao.interface.encodeErrorResult("NotMember"))
+        .and.not.to.emit(dao, "QueuedProposalExecuted");
+
+      expect((await dao.getProposal(loanProposalId)).status).to.equal(4); // CANCELLED
+      expect((await dao.getQueuedProposals())[0]).to.be.empty;
+      expect(await dao.loanCounter()).to.equal(1);
+      await expect(dao.executeQueuedProposal(loanProposalId)).to.be.revertedWithCustomError(dao, "ProposalNotQueued");
+    });
+
+    it("Should cancel a second queued loan for a borrower who already has one", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+      await passParameterChange(dao, [member2, member3], "setTimelockDelay", [DAY]);
+
+      const amount = ethers.parseEther("1");
+      const proposalIds = [];
+      for (let i = 0; i < 2; i++) {
+        await dao.connect(member2).requestLoan(amount, false, ethers.ZeroHash, "");
+        const proposalId = await dao.proposalCounter();
+        await ethers.provider.send("evm_increaseTime", [4 * DAY]);
+        await ethers.provider.send("evm_mine", []);
+        await dao.connect(member1).voteOnLoanProposal(proposalId, true);
+        await expect(dao.connect(member3).voteOnLoanProposal(proposalId, true)).to.emit(dao, "ProposalQueued");
+        proposalIds.push(proposalId);
+      }
+
+      await ethers.provider.send("evm_increaseTime", [DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await expect(dao.executeQueuedProposal(proposalIds[0])).to.emit(dao, "QueuedProposalExecuted");
+      const loanId = await dao.loanCounter();
+      const treasuryBefore = await dao.getTreasuryBalance();
+
+      await expect(dao.executeQueuedProposal(proposalIds[1]))
+        .to.emit(dao, "ProposalExecutionFailed")
+        .withArgs(proposalIds[1], dao.interface.encodeErrorResult("HasActiveLoan"))
+        .and.not.to.emit(dao, "QueuedProposalExecuted");
+
+      expect((await dao.getProposal(proposalIds[1])).status).to.equal(4); // CANCELLED
+      expect(await dao.loanCounter()).to.equal(loanId);
+      expect(await dao.getTreasuryBalance()).to.equal(treasuryBefore);
+      expect((await dao.loans(loanId)).borrower).to.equal(member2.address);
+    });
+  });
+
+  describe("Quorum", function () {
+    it("Should not approve proposals until quorum is reached", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+      expect(await dao.quorumThreshold()).to.equal(2000);
+      expect(await dao.quorumVotes()).to.equal(1);
+
+      await expect(passParameterChange(dao, [member2, member3], "setQuorumThreshold", [10001]))
+        .to.emit(dao, "ProposalExecutionFailed")
+        .withArgs(2, dao.interface.encodeErrorResult("InvalidQuorumThreshold"));
+      await expect(passParameterChange(dao, [member2, member3], "setQuorumThreshold", [10000]))
+        .to.emit(dao, "QuorumThresholdUpdated")
+        .withArgs(10000);
+      expect(await dao.quorumVotes()).to.equal(3);
+
+      const callData = dao.interface.encodeFunctionData("setConsensusThreshold", [6000]);
+      await dao.connect(member1).proposeParameterChange(callData, "Raise consensus threshold");
+      const proposalId = await dao.proposalCounter();
+
+      // Enough support for consensus, but only two of three members voted
+      await dao.connect(member1).voteOnGovernanceProposal(proposalId, true);
+      await dao.connect(member2).voteOnGovernanceProposal(proposalId, true);
+      expect((await dao.getProposal(proposalId)).status).to.equal(0); // PENDING
+
+      // An against vote completes the quorum and the proposal passes on its support
+      await expect(dao.connect(member3).voteOnGovernanceProposal(proposalId, false))
+        .to.emit(dao, "ConsensusThresholdUpdated")
+        .withArgs(6000);
+      expect((await dao.getProposal(proposalId)).status).to.equal(3); // EXECUTED
+    });
+
+    it("Should finalize proposals as expired or rejected after the voting period", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+
+      await dao.connect(member2).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+      const loanProposalId = await dao.proposalCounter();
+      const callData = dao.interface.encodeFunctionData("setConsensusThreshold", [6000]);
+      await dao.connect(member1).proposeParameterChange(callData, "Raise consensus threshold");
+      const governanceProposalId = await dao.proposalCounter();
+      await dao.connect(member3).voteOnGovernanceProposal(governanceProposalId, false);
+
+      await expect(dao.finalizeProposal(loanProposalId)).to.be.revertedWithCustomError(dao, "VotingPeriodNotEnded");
+      await expect(dao.finalizeProposal(governanceProposalId))
+        .to.be.revertedWithCustomError(dao, "VotingPeriodNotEnded");
+
+      // Editing period plus voting period
+      await ethers.provider.send("evm_increaseTime", [11 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      // Nobody voted on the loan, so it missed quorum
+      await expect(dao.finalizeProposal(loanProposalId))
+        .to.emit(dao, "ProposalPhaseChanged")
+        .withArgs(loanProposalId, 3) // EXPIRED phase
+        .and.to.emit(dao, "ProposalFinalized")
+        .withArgs(loanProposalId, 5); // EXPIRED
+      expect((await dao.getProposal(loanProposalId)).status).to.equal(5);
+
+      await expect(dao.finalizeProposal(governanceProposalId))
+        .to.emit(dao, "ProposalFinalized")
+        .withArgs(governanceProposalId, 2); // REJECTED
+      expect((await dao.getProposal(governanceProposalId)).status).to.equal(2);
+
+      await expect(dao.finalizeProposal(loanProposalId)).to.be.revertedWithCustomError(dao, "LoanProposalNotPending");
+      await expect(dao.finalizeProposal(governanceProposalId))
+        .to.be.revertedWithCustomError(dao, "GovernanceProposalNotPending");
+      await expect(dao.finalizeProposal(999)).to.be.revertedWithCustomError(dao, "LoanProposalNotFound");
+    });
+  });
+
+  describe("Delegation", function () {
+    it("Should vote with weight delegated before voting opens", async function () {
+      const { dao, admin1, member1, member2, member3 } = await setupActiveLoanFixture();
+
+      await expect(dao.connect(member3).delegate(admin1.address)).to.be.revertedWithCustomError(dao, "InvalidDelegate");
+      await expect(dao.connect(member3).delegate(member2.address))
+        .to.emit(dao, "DelegateChanged")
+        .withArgs(member3.address, member3.address, member2.address);
+
+      expect(await dao.delegates(member3.address)).to.equal(member2.address);
+      expect(await dao.getVotes(member2.address)).to.equal(2);
+      expect(await dao.getVotes(member3.address)).to.equal(0);
+
+      const callData = dao.interface.encodeFunctionData("setConsensusThreshold", [6000]);
+      await dao.connect(member1).proposeParameterChange(callData, "Raise consensus threshold");
+      const proposalId = await dao.proposalCounter();
+
+      await expect(dao.connect(member3).voteOnGovernanceProposal(proposalId, true))
+        .to.be.revertedWithCustomError(dao, "NoVotingPower");
+      // Two of three votes reach the 51% threshold on their own
+      await expect(dao.connect(member2).voteOnGovernanceProposal(proposalId, true))
+        .to.emit(dao, "ConsensusThresholdUpdated")
+        .withArgs(6000);
+      expect((await dao.getProposal(proposalId)).forVotes).to.equal(2);
+
+      // With ENS voting the delegated weight moves instead: 100 each by default
+      await dao.connect(admin1).toggleFeature("ensVoting", true);
+      expect(await dao.getVotes(member2.address)).to.equal(200);
+
+      // Leaving the DAO takes the delegated weight with it
+      await expect(dao.connect(member3).exitDAO())
+        .to.emit(dao, "DelegateChanged")
+        .withArgs(member3.address, member2.address, member3.address);
+      expect(await dao.getVotes(member2.address)).to.equal(100);
+      expect(await dao.delegates(member3.address)).to.equal(member3.address);
+    });
+
+    it("Should ignore delegations made after a proposal's snapshot", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+
+      const callData = dao.interface.encodeFunctionData("setConsensusThreshold", [6000]);
+      await dao.connect(member1).proposeParameterChange(callData, "Raise consensus threshold");
+      const proposalId = await dao.proposalCounter();
+      const snapshot = (await dao.getProposal(proposalId)).createdAt;
+
+      await dao.connect(member3).delegate(member2.address);
+      expect(await dao.getVotes(member2.address)).to.equal(2);
+      expect(await dao.getVotesAt(member2.address, snapshot)).to.equal(1);
+
+      await dao.connect(member2).voteOnGovernanceProposal(proposalId, true);
+      expect((await dao.getProposal(proposalId)).forVotes).to.equal(1);
+      expect((await dao.getProposal(proposalId)).status).to.equal(0); // PENDING
+
+      // member3 still holds their weight for this proposal
+      await expect(dao.connect(member3).voteOnGovernanceProposal(proposalId, true))
+        .to.emit(dao, "ConsensusThresholdUpdated");
+
+      await expect(dao.connect(member3).undelegate())
+        .to.emit(dao, "DelegateChanged")
+        .withArgs(member3.address, member2.address, member3.address);
+      expect(await dao.getVotes(member2.address)).to.equal(1);
+      expect(await dao.getVotes(member3.address)).to.equal(1);
+    });
+
+    it("Should hand delegated weight back when the delegatee leaves", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+      await dao.connect(member3).delegate(member2.address);
+      expect(await dao.getVotes(member2.address)).to.equal(2);
+
+      await expect(dao.connect(member2).exitDAO())
+        .to.emit(dao, "DelegateChanged")
+        .withArgs(member3.address, member2.address, member3.address);
+      expect(await dao.getVotes(member2.address)).to.equal(0);
+      expect(await dao.getVotes(member3.address)).to.equal(1);
+      expect(await dao.delegates(member3.address)).to.equal(member3.address);
+
+      // member3 votes with their own weight again, out of the two members left
+      const callData = dao.interface.encodeFunctionData("setConsensusThreshold", [6000]);
+      await dao.connect(member1).proposeParameterChange(callData, "Raise consensus threshold");
+      const proposalId = await dao.proposalCounter();
+      expect((await dao.getEnhancedProposal(proposalId)).snapshotTotalWeight).to.equal(2);
+
+      await dao.connect(member3).voteOnGovernanceProposal(proposalId, true);
+      expect((await dao.getProposal(proposalId)).forVotes).to.equal(1);
+    });
+  });
+
+  describe("Voting Snapshots", function () {
+    it("Should keep thresholds at the snapshot when members join mid-vote", async function () {
+      const { dao, member1, member2, member3, operator1, membershipFee } = await setupActiveLoanFixture();
+
+      const callData = dao.interface.encodeFunctionData("setConsensusThreshold", [6000]);
+      await dao.connect(member1).proposeParameterChange(callData, "Raise consensus threshold");
+      const proposalId = await dao.proposalCounter();
+
+      await dao.connect(operator1).registerMember("", "", { value: membershipFee });
+      expect(await dao.getActiveMembers()).to.equal(4);
+      await expect(dao.connect(operator1).voteOnGovernanceProposal(proposalId, false))
+        .to.be.revertedWithCustomError(dao, "NoVotingPower");
+
+      const proposal = await dao.getEnhancedProposal(proposalId);
+      expect(proposal.votingSnapshot).to.equal(proposal.createdAt);
+      expect(proposal.snapshotTotalWeight).to.equal(3);
+
+      // Two of the three members at the snapshot pass it; four members would need three votes
+      await dao.connect(member2).voteOnGovernanceProposal(proposalId, true);
+      await expect(dao.connect(member3).voteOnGovernanceProposal(proposalId, true))
+        .to.emit(dao, "ConsensusThresholdUpdated")
+        .withArgs(6000);
+    });
+
+    it("Should not take votes in the block a proposal is created in", async function () {
+      const { dao, member1, member2, member3 } = await setupActiveLoanFixture();
+      const proposalId = (await dao.proposalCounter()) + 1n;
+      const callData = dao.interface.encodeFunctionData("setConsensusThreshold", [6000]);
+      const overrides = { gasLimit: 1_000_000 };
+
+      // Vote, delegate and vote again with the same weight before the block is sealed
+      await ethers.provider.send("evm_setAutomine", [false]);
+      let txs;
+      try {
+        txs = [
+          await dao.connect(member1).proposeParameterChange(callData, "Raise consensus threshold", overrides),
+          await dao.connect(member2).voteOnGovernanceProposal(proposalId, true, overrides),
+          await dao.connect(member2).delegate(member3.address, overrides),
+          await dao.connect(member3).voteOnGovernanceProposal(proposalId, true, overrides),
+        ];
+        await ethers.provider.send("evm_mine", []);
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+      const statuses = await Promise.all(
+        txs.map(async (tx) => (await ethers.provider.getTransactionReceipt(tx.hash))!.status)
+      );
+      expect(statuses).to.deep.equal([1, 0, 1, 0]);
+      expect((await dao.getProposal(proposalId)).forVotes).to.equal(0);
+
+      // From the next block the delegated weight counts once, with member3
+      await expect(dao.connect(member2).voteOnGovernanceProposal(proposalId, true))
+        .to.be.revertedWithCustomError(dao, "NoVotingPower");
+      await expect(dao.connect(member3).voteOnGovernanceProposal(proposalId, true))
+        .to.emit(dao, "ConsensusThresholdUpdated")
+        .withArgs(6000);
+      expect((await dao.getProposal(proposalId)).forVotes).to.equal(2);
+    });
+
+    it("Should snapshot loan proposals when voting opens", async function () {
+      const { dao, member1, member2, member3, operator1, operator2, membershipFee } = await setupActiveLoanFixture();
+
+      await dao.connect(member2).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+      const proposalId = await dao.proposalCounter();
+
+      // Joining during the editing period still counts
+      await dao.connect(operator1).registerMember("", "", { value: membershipFee });
+      await ethers.provider.send("evm_increaseTime", [4 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+      await dao.connect(operator2).registerMember("", "", { value: membershipFee });
+
+      const proposal = await dao.getEnhancedProposal(proposalId);
+      expect(proposal.votingSnapshot).to.equal((await dao.loanProposals(proposalId)).editingPeriodEnd);
+      expect(proposal.snapshotTotalWeight).to.equal(4);
+
+      await expect(dao.connect(operator2).voteOnLoanProposal(proposalId, true))
+        .to.be.revertedWithCustomError(dao, "NoVotingPower");
+
+      // 51% of the four members at the snapshot needs three votes
+      await dao.connect(member1).voteOnLoanProposal(proposalId, true);
+      await dao.connect(member3).voteOnLoanProposal(proposalId, true);
+      expect((await dao.getProposal(proposalId)).status).to.equal(0); // PENDING
+      await expect(dao.connect(operator1).voteOnLoanProposal(proposalId, true)).to.emit(dao, "LoanApproved");
+    });
+
+    it("Should keep counting weights when ENS voting is switched off mid-vote", async function () {
+      const { dao, admin1, member1, member2, member3, operator1, membershipFee } = await setupActiveLoanFixture();
+      await dao.connect(operator1).registerMember("", "", { value: membershipFee });
+      await dao.connect(admin1).toggleFeature("ensVoting", true);
+
+      await dao.connect(member2).requestLoan(ethers.parseEther("1"), false, ethers.ZeroHash, "");
+      const proposalId = await dao.proposalCounter();
+      await ethers.provider.send("evm_increaseTime", [4 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await dao.connect(member1).voteOnLoanProposal(proposalId, true);
+      await dao.connect(admin1).toggleFeature("ensVoting", false);
+      await dao.connect(member3).voteOnLoanProposal(proposalId, false);
+
+      // Still 100 per member against the 400 at the snapshot, rather than one vote each against four
+      const proposal = await dao.loanProposals(proposalId);
+      expect(proposal.forVotes).to.equal(100);
+      expect(proposal.againstVotes).to.equal(100);
+      expect(proposal.status).to.equal(0); // PENDING
+      expect((await dao.getEnhancedProposal(proposalId)).snapshotTotalWeight).to.equal(400);
+
+      // 51% of 400 needs 204, so a second vote in favour is not enough either
+      await dao.connect(operator1).voteOnLoanProposal(proposalId, true);
+      expect((await dao.loanProposals(proposalId)).status).to.equal(0);
+      expect(await dao.getVotes(member1.address)).to.equal(1);
+    });
+  });
+
+  describe("Quadratic Treasury Voting", function () {
+    async function proposeQuadraticGrant(dao: UnifiedLendingDAO, proposer: SignerWithAddress, recipient: string) {
+      await dao
+        .connect(proposer)
+        ["proposeTreasuryWithdrawal(uint256,address,string,bool)"](ethers.parseEther("1"), recipient, "Grant", true);
+      return dao.proposalCounter();
+    }
+
+    it("Should tally the square root of the voice credits spent once voting ends", async function () {
+      const { dao, member1, member2, member3, operator1 } = await setupActiveLoanFixture();
+
+      const proposalId = await proposeQuadraticGrant(dao, member1, operator1.address);
+      expect(await dao.isQuadraticProposal(proposalId)).to.be.true;
+      await expect(dao.connect(member2).voteOnTreasuryProposal(proposalId, true))
+        .to.be.revertedWithCustomError(dao, "QuadraticVotingRequired");
+
+      // One vote of power buys 100 voice credits
+      const [budget, spent] = await dao.getVoiceCredits(proposalId, member2.address);
+      expect(budget).to.equal(100);
+      expect(spent).to.equal(0);
+      await expect(dao.connect(member2).voteOnQuadraticTreasuryProposal(proposalId, true, 101))
+        .to.be.revertedWithCustomError(dao, "InsufficientVoiceCredits");
+      await expect(dao.connect(member2).voteOnQuadraticTreasuryProposal(proposalId, true, 0))
+        .to.be.revertedWithCustomError(dao, "ZeroAmount");
+
+      await expect(dao.connect(member2).voteOnQuadraticTreasuryProposal(proposalId, true, 100))
+        .to.emit(dao, "QuadraticVoteCast")
+        .withArgs(proposalId, member2.address, true, 100, 10);
+      await dao.connect(member3).voteOnQuadraticTreasuryProposal(proposalId, false, 64); // 8 votes
+      await dao.connect(member1).voteOnQuadraticTreasuryProposal(proposalId, true, 10); // 3 votes, rounded down
+
+      // 13 of 21 votes (62%) clear the 60% treasury threshold, but only once voting ends
+      let proposal = await dao.getProposal(proposalId);
+      expect(proposal.forVotes).to.equal(13);
+      expect(proposal.againstVotes).to.equal(8);
+      expect(proposal.status).to.equal(0); // PENDING
+      expect((await dao.getVoiceCredits(proposalId, member3.address)).spent).to.equal(64);
+      await expect(dao.finalizeProposal(proposalId)).to.be.revertedWithCustomError(dao, "VotingPeriodNotEnded");
+
+      await ethers.provider.send("evm_increaseTime", [8 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      const balanceBefore = await ethers.provider.getBalance(operator1.address);
+      await expect(dao.finalizeProposal(proposalId))
+        .to.emit(dao, "ProposalFinalized")
+        .withArgs(proposalId, 1) // APPROVED
+        .and.to.emit(dao, "TreasuryWithdrawalExecuted")
+        .withArgs(proposalId, ethers.parseEther("1"), operator1.address);
+      expect(await ethers.provider.getBalance(operator1.address)).to.equal(balanceBefore + ethers.parseEther("1"));
+      proposal = await dao.getProposal(proposalId);
+      expect(proposal.status).to.equal(3); // EXECUTED
+    });
+
+    it("Should scale budgets with delegated power and reject short majorities", async function () {
+      const { dao, member1, member2, member3, operator1 } = await setupActiveLoanFixture();
+
+      // A standard treasury proposal only takes yes/no votes
+      await dao.connect(member1).proposeTreasuryWithdrawal(ethers.parseEther("1"), operator1.address, "Standard");
+      await expect(dao.connect(member2).voteOnQuadraticTreasuryProposal(await dao.proposalCounter(), true, 1))
+        .to.be.revertedWithCustomError(dao, "NotQuadraticProposal");
+
+      await dao.connect(member3).delegate(member2.address);
+      const proposalId = await proposeQuadraticGrant(dao, member1, operator1.address);
+      expect((await dao.getVoiceCredits(proposalId, member2.address)).budget).to.equal(200);
+
+      // sqrt(196) = 14 for against sqrt(100) = 10: 58% misses the 60% threshold
+      await dao.connect(member2).voteOnQuadraticTreasuryProposal(proposalId, true, 196);
+      await dao.connect(member1).voteOnQuadraticTreasuryProposal(proposalId, false, 100);
+      expect(await dao.quadraticTurnout(proposalId)).to.equal(3);
+
+      await ethers.provider.send("evm_increaseTime", [8 * DAY]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(dao.finalizeProposal(proposalId))
+        .to.emit(dao, "ProposalFinalized")
+        .withArgs(proposalId, 2) // REJECTED
+        .and.not.to.emit(dao, "TreasuryWithdrawalExecuted");
+    });
+  });
+
   describe("Treasury Management with Enhanced Features", function () {
     it("Should handle treasury proposals with ENS-weighted voting", async function () {
       const { dao, member1, member2, member3, admin1 } = await loadFixture(setupMembersFixture);
@@ -610,8 +1524,8 @@ describe("UnifiedLendingDAO", function () {
       );
 
       // Vote (need 60% for treasury proposals)
-      // alice.eth (150) + bob.eth (135) + member3 (100) = 385 total weight
-      // Need 60% of 385 = 231 votes
+      // Three members at the default weight (100) = 300 total weight
+      // Need 60% of 300 = 180 votes
       await dao.connect(member1).voteOnTreasuryProposal(proposalId, true);
 
       await expect(dao.connect(member3).voteOnTreasuryProposal(proposalId, true))
@@ -796,8 +1710,7 @@ describe("UnifiedLendingDAO", function () {
 async function setupMembersFixture() {
   const [owner, admin1, admin2, member1, member2, member3, operator1, operator2] = await ethers.getSigners();
 
-  const UnifiedLendingDAO = await ethers.getContractFactory("UnifiedLendingDAO");
-  const dao = await UnifiedLendingDAO.deploy();
+  const dao = await deployUnifiedLendingDAO();
 
   // Initialize the DAO
   const membershipFee = ethers.parseEther("0.1");
@@ -0,0 +1,151 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { UnifiedLendingDAO } from "../typechain-types";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { deployUnifiedLendingDAO } from "../scripts/lib/deployUnifiedLendingDAO";
+
+describe("Voting Weight Strategies", function () {
+  const membershipFee = ethers.parseEther("0.1");
+
+  async function deployStrategiesFixture() {
+    const [owner, admin1, member1, member2, member3, nonMember] = await ethers.getSigners();
+
+    const dao = await deployUnifiedLendingDAO();
+    await dao.initialize([admin1.address], 5100, membershipFee, {
+      minMembershipDuration: 30 * 24 * 60 * 60, // 30 days
+      membershipContribution: membershipFee,
+      maxLoanDuration: 90 * 24 * 60 * 60, // 90 days
+      minInterestRate: 500, // 5%
+      maxInterestRate: 2000, // 20%
+      cooldownPeriod: 7 * 24 * 60 * 60, // 7 days
+      maxLoanToTreasuryRatio: 5000, // 50%
+    });
+
+    await owner.sendTransaction({ to: await dao.getAddress(), value: ethers.parseEther("10") });
+
+    await dao.connect(member1).registerMember("alice.eth", "", { value: membershipFee });
+    await dao.connect(member2).registerMember("bob.eth", "", { value: membershipFee });
+    await dao.connect(member3).registerMember("", "", { value: membershipFee });
+
+    const flat = await (await ethers.getContractFactory("FlatVotingWeight")).deploy();
+    const contribution = await (await ethers.getContractFactory("ContributionVotingWeight")).deploy(membershipFee / 2n);
+    const ensReputation = await (await ethers.getContractFactory("ENSReputationVotingWeight")).deploy(ethers.ZeroAddress);
+    const quadratic = await (await ethers.getContractFactory("QuadraticVotingWeight")).deploy(membershipFee / 4n);
+
+    return { dao, admin1, member1, member2, member3, nonMember, flat, contribution, ensReputation, quadratic };
+  }
+
+  // Propose a setVotingWeightStrategy call as the first voter and vote it through
+  async function passStrategyChange(dao: UnifiedLendingDAO, voters: SignerWithAddress[], strategy: string) {
+    const callData = dao.interface.encodeFunctionData("setVotingWeightStrategy", [strategy]);
+    await dao.connect(voters[0]).proposeParameterChange(callData, "Change voting weight strategy");
+    const proposalId = await dao.proposalCounter();
+
+    for (const voter of voters.slice(0, -1)) {
+      await dao.connect(voter).voteOnGovernanceProposal(proposalId, true);
+    }
+    return dao.connect(voters[voters.length - 1]).voteOnGovernanceProposal(proposalId, true);
+  }
+
+  describe("Strategies", function () {
+    it("Should give every member the same weight with the flat strategy", async function () {
+      const { flat, member1 } = await loadFixture(deployStrategiesFixture);
+
+      expect(await flat.name()).to.equal("flat");
+      expect(await flat.votingWeight(member1.address, 0, "")).to.equal(100);
+      expect(await flat.votingWeight(member1.address, ethers.parseEther("5"), "alice.eth")).to.equal(100);
+    });
+
+    it("Should scale linearly with the contribution", async function () {
+      const { contribution, member1 } = await loadFixture(deployStrategiesFixture);
+
+      // The reference contribution (half the membership fee) earns the base weight
+      expect(await contribution.name()).to.equal("contribution");
+      expect(await contribution.votingWeight(member1.address, membershipFee / 2n, "")).to.equal(100);
+      expect(await contribution.votingWeight(member1.address, membershipFee, "")).to.equal(200);
+      expect(await contribution.votingWeight(member1.address, membershipFee * 3n, "")).to.equal(600);
+      expect(await contribution.votingWeight(member1.address, 0, "")).to.equal(0);
+
+      const factory = await ethers.getContractFactory("ContributionVotingWeight");
+      await expect(factory.deploy(0)).to.be.revertedWithCustomError(contribution, "InvalidContributionAmount");
+    });
+
+    it("Should scale with the square root of the contribution", async function () {
+      const { quadratic, member1 } = await loadFixture(deployStrategiesFixture);
+
+      // Four times the reference contribution doubles the weight
+      expect(await quadratic.name()).to.equal("quadratic");
+      expect(await quadratic.votingWeight(member1.address, membershipFee / 4n, "")).to.equal(100);
+      expect(await quadratic.votingWeight(member1.address, membershipFee, "")).to.equal(200);
+      expect(await quadratic.votingWeight(member1.address, (membershipFee * 9n) / 4n, "")).to.equal(300);
+      expect(await quadratic.votingWeight(member1.address, membershipFee / 16n, "")).to.equal(50);
+
+      const factory = await ethers.getContractFactory("QuadraticVotingWeight");
+      await expect(factory.deploy(0)).to.be.revertedWithCustomError(quadratic, "InvalidContributionAmount");
+    });
+
+    it("Should score unverified ENS names by reputation", async function () {
+      const { ensReputation, member1 } = await loadFixture(deployStrategiesFixture);
+
+      // Without verification only the length bonus applies: score 100 + (9 - length) * 10 for short names
+      expect(await ensReputation.name()).to.equal("ens-reputation");
+      expect(await ensReputation.ensGovernance()).to.equal(ethers.ZeroAddress);
+      expect(await ensReputation.votingWeight(member1.address, membershipFee, "")).to.equal(100);
+      expect(await ensReputation.votingWeight(member1.address, membershipFee, "alice.eth")).to.equal(105); // Score 100
+      expect(await ensReputation.votingWeight(member1.address, membershipFee, "bob.eth")).to.equal(106); // Score 120
+      expect(await ensReputation.votingWeight(member1.address, membershipFee, "x.eth")).to.equal(107); // Score 140
+    });
+  });
+
+  describe("Governance Selection", function () {
+    it("Should only change the strategy through a governance proposal", async function () {
+      const { dao, admin1, member1, member2, contribution } = await loadFixture(deployStrategiesFixture);
+
+      expect(await dao.votingWeightStrategy()).to.equal(ethers.ZeroAddress);
+      expect(await dao.memberVotingWeights(member1.address)).to.equal(100); // DEFAULT_VOTING_WEIGHT
+      await expect(
+        dao.connect(admin1).setVotingWeightStrategy(await contribution.getAddress())
+      ).to.be.revertedWithCustomError(dao, "OnlyGovernance");
+
+      await expect(passStrategyChange(dao, [member1, member2], await contribution.getAddress()))
+        .to.emit(dao, "VotingWeightStrategyUpdated")
+        .withArgs(await contribution.getAddress())
+        .and.to.emit(dao, "VotingWeightUpdated")
+        .withArgs(member1.address, 200);
+
+      expect(await dao.votingWeightStrategy()).to.equal(await contribution.getAddress());
+      expect(await dao.memberVotingWeights(member1.address)).to.equal(200);
+      expect((await dao.getMemberProfile(member1.address)).votingWeight).to.equal(200);
+    });
+
+    it("Should recompute delegated and total weight when the strategy changes", async function () {
+      const { dao, admin1, member1, member2, member3, nonMember, ensReputation, quadratic } =
+        await loadFixture(deployStrategiesFixture);
+
+      await dao.connect(admin1).toggleFeature("ensVoting", true);
+      await dao.connect(member3).delegate(member2.address);
+      expect(await dao.getVotes(member2.address)).to.equal(200); // 100 each by default
+
+      await passStrategyChange(dao, [member1, member2], await ensReputation.getAddress());
+      const ensSnapshot = (await ethers.provider.getBlock("latest"))!.timestamp;
+      expect(await dao.getVotes(member1.address)).to.equal(105);
+      expect(await dao.getVotes(member2.address)).to.equal(206); // bob.eth (106) + member3's default (100)
+      expect(await dao.getVotes(member3.address)).to.equal(0);
+      expect(await dao.quorumVotes()).to.equal(63); // 20% of 311
+
+      // Each membership fee is four times the quadratic reference, so every member doubles to 200
+      await passStrategyChange(dao, [member1, member2], await quadratic.getAddress());
+      expect(await dao.getVotes(member2.address)).to.equal(400);
+      expect(await dao.quorumVotes()).to.equal(120); // 20% of 600
+
+      // Earlier snapshots keep the weights they were taken with
+      expect(await dao.getVotesAt(member2.address, ensSnapshot)).to.equal(206);
+      expect(await dao.quorumVotesAt(ensSnapshot)).to.equal(63);
+
+      // Unchanged weights need no update, and only members have a weight to refresh
+      await expect(dao.refreshVotingWeight(member1.address)).to.not.emit(dao, "VotingWeightUpdated");
+      await expect(dao.refreshVotingWeight(nonMember.address)).to.be.revertedWithCustomError(dao, "NotMember");
+    });
+  });
+});
@@ -16,8 +16,9 @@ import {
   ServerIcon,
   DocumentIcon
 } from '@heroicons/react/24/outline'
-import { useUserData, useDAOStats } from '@/hooks/useDAO'
+import { useUserData, useDAOStats, useFeatureToggle } from '@/hooks/useDAO'
 import { formatEther, formatAddress } from '@/lib/utils'
+import toast from 'react-hot-toast'
 
 interface AdminStats {
   totalMembers: number
@@ -35,6 +36,8 @@ interface FeatureToggle {
   enabled: boolean
   category: 'lending' | 'governance' | 'privacy' | 'system'
   requiresRestart?: boolean
+  // Name passed to the contract's toggleFeature; the enabled state is then read from chain
+  contractFeature?: keyof ReturnType<typeof useDAOStats>['features']
 }
 
 interface PendingAction {
@@ -57,6 +60,7 @@ interface SystemMetric {
 export default function AdminPage() {
   const userData = useUserData()
   const stats = useDAOStats()
+  const { toggleFeature: toggleContractFeature, isPending: isToggling } = useFeatureToggle()
   const [activeTab, setActiveTab] = useState<'overview' | 'features' | 'members' | 'system' | 'security'>('overview')
   const [loading, setLoading] = useState(false)
 
@@ -110,9 +114,10 @@ export default function AdminPage() {
     {
       id: 'auto-liquidation',
       name: 'Auto Liquidation',
-      description: 'Automatically liquidate defaulted loans',
+      description: 'Let anyone mark loans past their grace period as defaulted',
       enabled: false,
-      category: 'lending'
+      category: 'lending',
+      contractFeature: 'autoLiquidation'
     }
   ])
 
@@ -143,6 +148,8 @@ export default function AdminPage() {
     }
   ])
 
+  const defaultRate = stats.totalLoans > 0 ? (stats.defaultedLoans / stats.totalLoans) * 100 : 0
+
   const systemMetrics: SystemMetric[] = [
     {
       name: 'Contract Balance',
@@ -158,9 +165,9 @@ export default function AdminPage() {
     },
     {
       name: 'Loan Default Rate',
-      value: '2.3%',
-      status: 'good',
-      description: 'Percentage of defaulted loans'
+      value: `${defaultRate.toFixed(1)}%`,
+      status: defaultRate >= 10 ? 'error' : defaultRate >= 5 ? 'warning' : 'good',
+      description: `${stats.defaultedLoans} of ${stats.totalLoans} loans defaulted`
     },
     {
       name: 'Gas Usage',
@@ -183,7 +190,7 @@ export default function AdminPage() {
   ]
 
   // Check if user is admin
-  const isAdmin = userData.member?.status === 3 // Assuming 3 is admin status
+  const isAdmin = userData.isAdmin
   
   useEffect(() => {
     if (!userData.isConnected || !isAdmin) {
@@ -191,7 +198,22 @@ export default function AdminPage() {
     }
   }, [userData.isConnected, isAdmin])
 
-  const toggleFeature = (featureId: string) => {
+  const features = featureToggles.map(feature =>
+    feature.contractFeature ? { ...feature, enabled: stats.features[feature.contractFeature] } : feature
+  )
+
+  const toggleFeature = async (featureId: string) => {
+    const feature = features.find(item => item.id === featureId)
+    if (feature?.contractFeature) {
+      try {
+        await toggleContractFeature(feature.contractFeature, !feature.enabled)
+        toast.success(`${feature.name} ${feature.enabled ? 'disabled' : 'enabled'}`)
+      } catch {
+        toast.error(`Failed to update ${feature.name}`)
+      }
+      return
+    }
+
     setFeatureToggles(prev => 
       prev.map(feature => 
         feature.id === featureId 
@@ -361,7 +383,7 @@ export default function AdminPage() {
             </h4>
           </div>
           <div className="divide-y divide-gray-200 dark:divide-gray-700">
-            {featureToggles.filter(feature => feature.category === category).map((feature) => (
+            {features.filter(feature => feature.category === category).map((feature) => (
               <div key={feature.id} className="px-6 py-4">
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
@@ -387,6 +409,7 @@ export default function AdminPage() {
                     </span>
                     <button
                       onClick={() => toggleFeature(feature.id)}
+                      disabled={!!feature.contractFeature && isToggling}
                       className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
                         feature.enabled ? 'bg-blue-600' : 'bg-gray-200 dark:bg-gray-700'
                       }`}
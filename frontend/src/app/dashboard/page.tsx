@@ -17,8 +17,9 @@ import {
   TrophyIcon,
 } from '@heroicons/react/24/outline'
 import { useDAOStats, useUserData, useRewards, useDAOEvents } from '@/hooks/useDAO'
-import { formatEther, formatDate, formatAddress } from '@/lib/utils'
+import { formatEther, formatDate, formatAddress, formatVotingWeightStrategy } from '@/lib/utils'
 import { MEMBER_STATUS_LABELS } from '@/constants'
+import { MemberStatus } from '@/types/dao'
 import toast from 'react-hot-toast'
 import NotificationCenter from '@/components/NotificationCenter'
 import { useIsMobile, useResponsiveCardLayout } from '@/lib/responsive'
@@ -154,7 +155,7 @@ export default function DashboardPage() {
       href: '/privacy',
       color: 'text-yellow-600',
     },
-    ...(userData.member?.status === 3 ? [{
+    ...(userData.isAdmin ? [{
       title: 'Admin Panel',
       description: 'Manage DAO operations and configuration',
       icon: ShieldCheckIcon,
@@ -163,8 +164,9 @@ export default function DashboardPage() {
     }] : [])
   ]
 
-  const memberStatusColor = userData.member?.status === 1 ? 'text-green-600' : 'text-gray-600'
-  const memberStatusBg = userData.member?.status === 1 ? 'bg-green-50' : 'bg-gray-50'
+  const isSuspended = userData.member?.status === MemberStatus.SUSPENDED_MEMBER
+  const memberStatusColor = userData.member?.status === 1 ? 'text-green-600' : isSuspended ? 'text-red-600' : 'text-gray-600'
+  const memberStatusBg = userData.member?.status === 1 ? 'bg-green-50' : isSuspended ? 'bg-red-50' : 'bg-gray-50'
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
@@ -209,12 +211,20 @@ export default function DashboardPage() {
                     <p className="text-sm text-gray-500">
                       Member since: {formatDate(userData.member?.joinDate || 0)}
                     </p>
+                    {isSuspended && (
+                      <p className="text-sm text-red-600 mt-1">
+                        Suspended after a loan default; voting and new loans are disabled. You can still leave the DAO with what is left of your stake.
+                      </p>
+                    )}
                   </div>
                 </div>
                 
                 <div className="text-right">
                   <div className="text-sm text-gray-600">Voting Weight</div>
                   <div className="text-2xl font-bold text-gray-900">{userData.votingWeight}</div>
+                  <div className="text-xs text-gray-500">
+                    {formatVotingWeightStrategy(userData.weightedVoting, userData.votingWeightStrategy)}
+                  </div>
                 </div>
               </div>
             </CardContent>
@@ -1,50 +1,107 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { isAddress, parseEther } from 'viem'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import Link from 'next/link'
 import {
   ArrowLeftIcon,
   DocumentPlusIcon,
-  EyeSlashIcon,
   InformationCircleIcon,
   ExclamationTriangleIcon,
   ClockIcon,
   LinkIcon,
+  PlusIcon,
+  TrashIcon,
+  ArrowUpIcon,
 } from '@heroicons/react/24/outline'
-import { useUserData } from '@/hooks/useDAO'
+import { useGovernanceProposals, useUserData } from '@/hooks/useDAO'
+import type { GovernedParameter, ParameterChange } from '@/lib/sdk'
+import { formatVotingWeightStrategy } from '@/lib/utils'
+import { COUNTING_METHOD_LABELS, DAO_CONSTANTS } from '@/constants'
+import { CountingMethod } from '@/types/dao'
 import toast from 'react-hot-toast'
 
+type ProposalAction = 'parameter' | 'removal' | 'multi'
+
+// Form units for each governed setter; values are converted to the contract's units on submit
+const parameterOptions: {
+  value: GovernedParameter
+  label: string
+  unit: '%' | 'days' | 'ETH' | 'address'
+  allowZero?: boolean
+}[] = [
+  { value: 'setConsensusThreshold', label: 'Consensus Threshold', unit: '%' },
+  { value: 'setQuorumThreshold', label: 'Quorum Threshold', unit: '%', allowZero: true }, // 0 turns the quorum off
+  { value: 'setVotingWeightStrategy', label: 'Voting Weight Strategy', unit: 'address', allowZero: true }, // Zero address restores the default weight
+  { value: 'setInterestRateRange', label: 'Interest Rate Range', unit: '%' },
+  { value: 'setMinMembershipDuration', label: 'Min Membership Duration', unit: 'days' },
+  { value: 'setMembershipContribution', label: 'Membership Contribution', unit: 'ETH' },
+  { value: 'setMaxLoanDuration', label: 'Max Loan Duration', unit: 'days' },
+  { value: 'setCooldownPeriod', label: 'Loan Cooldown Period', unit: 'days' },
+  { value: 'setGracePeriod', label: 'Default Grace Period', unit: 'days', allowZero: true },
+  { value: 'setInstallmentInterval', label: 'Installment Interval', unit: 'days' },
+  { value: 'setTimelockDelay', label: 'Timelock Delay', unit: 'days', allowZero: true }, // 0 turns the timelock off
+]
+
+const emptyForm = {
+  title: '',
+  description: '',
+  action: 'parameter' as ProposalAction,
+  parameter: 'setConsensusThreshold' as GovernedParameter,
+  value: '',
+  maxValue: '',
+  member: '',
+  options: ['', ''],
+  countingMethod: CountingMethod.APPROVAL,
+  discussionUrl: '',
+}
+
+function toContractValue(parameter: GovernedParameter, value: string): bigint {
+  const unit = parameterOptions.find(option => option.value === parameter)?.unit
+  if (unit === 'ETH') return parseEther(value)
+  if (unit === '%') return BigInt(Math.round(parseFloat(value) * 100)) // basis points
+  return BigInt(Math.round(parseFloat(value) * 24 * 60 * 60))
+}
+
 export default function CreateProposalPage() {
+  const router = useRouter()
   const userData = useUserData()
-  
-  const [formData, setFormData] = useState({
-    title: '',
-    description: '',
-    type: 'protocol',
-    isPrivate: false,
-    requiresExecution: false,
-    executionDelay: 2, // days
-    discussionUrl: '',
-    tags: [] as string[],
-    newTag: ''
-  })
-  const [isSubmitting, setIsSubmitting] = useState(false)
-
-  const proposalTypes = [
-    { value: 'protocol', label: 'Protocol', description: 'Changes to protocol functionality' },
-    { value: 'treasury', label: 'Treasury', description: 'Treasury management and allocation' },
-    { value: 'governance', label: 'Governance', description: 'DAO governance and voting rules' },
-    { value: 'security', label: 'Security', description: 'Security measures and emergency actions' },
-    { value: 'feature', label: 'Feature', description: 'New features and enhancements' }
-  ]
-
-  const suggestedTags = [
-    'protocol', 'treasury', 'governance', 'security', 'feature',
-    'interest-rates', 'defi', 'yield', 'diversification', 'accessibility',
-    'privacy', 'loans', 'zk-proofs', 'membership', 'emergency'
-  ]
+  const { proposeParameterChange, proposeMemberRemoval, proposeMultiOption, isPending, error, isSuccess } =
+    useGovernanceProposals()
+
+  const [formData, setFormData] = useState(emptyForm)
+
+  const selectedParameter = parameterOptions.find(option => option.value === formData.parameter)!
+  const isRateRange = formData.parameter === 'setInterestRateRange'
+  const isAddressValue = selectedParameter.unit === 'address'
+
+  const setOption = (index: number, label: string) =>
+    setFormData({ ...formData, options: formData.options.map((option, i) => (i === index ? label : option)) })
+  const removeOption = (index: number) =>
+    setFormData({ ...formData, options: formData.options.filter((_, i) => i !== index) })
+  // Option order is the index voters rank and approve by
+  const moveOptionUp = (index: number) => {
+    const options = [...formData.options]
+    ;[options[index - 1], options[index]] = [options[index], options[index - 1]]
+    setFormData({ ...formData, options })
+  }
+
+  useEffect(() => {
+    if (isSuccess) {
+      toast.success('Proposal created successfully!')
+      setFormData(emptyForm)
+      setTimeout(() => router.push('/governance'), 2000)
+    }
+  }, [isSuccess, router])
+
+  useEffect(() => {
+    if (error) {
+      toast.error('Failed to create proposal')
+    }
+  }, [error])
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -64,57 +121,66 @@ export default function CreateProposalPage() {
       return
     }
 
-    setIsSubmitting(true)
+    const description = [formData.title.trim(), formData.description.trim(), formData.discussionUrl.trim()]
+      .filter(Boolean)
+      .join('\n\n')
 
     try {
-      // Mock implementation - would interact with contract
-      await new Promise(resolve => setTimeout(resolve, 2000))
-      
-      toast.success('Proposal created successfully!')
-      
-      // Reset form
-      setFormData({
-        title: '',
-        description: '',
-        type: 'protocol',
-        isPrivate: false,
-        requiresExecution: false,
-        executionDelay: 2,
-        discussionUrl: '',
-        tags: [],
-        newTag: ''
-      })
-    } catch (error) {
-      console.error('Proposal creation failed:', error)
-      toast.error('Failed to create proposal')
-    } finally {
-      setIsSubmitting(false)
-    }
-  }
+      if (formData.action === 'multi') {
+        const options = formData.options.map(option => option.trim())
+        if (options.length < 2 || options.some(option => !option)) {
+          toast.error('Give every option a label; at least two are required')
+          return
+        }
+        if (new Set(options.map(option => option.toLowerCase())).size !== options.length) {
+          toast.error('Options must be distinct')
+          return
+        }
+        await proposeMultiOption(description, options, formData.countingMethod)
+        return
+      }
 
-  const addTag = () => {
-    if (formData.newTag.trim() && !formData.tags.includes(formData.newTag.trim())) {
-      setFormData({
-        ...formData,
-        tags: [...formData.tags, formData.newTag.trim()],
-        newTag: ''
-      })
-    }
-  }
+      if (formData.action === 'removal') {
+        if (!isAddress(formData.member)) {
+          toast.error('Please enter a valid member address')
+          return
+        }
+        if (formData.member.toLowerCase() === userData.address?.toLowerCase()) {
+          toast.error('You cannot propose your own removal')
+          return
+        }
+        await proposeMemberRemoval(formData.member, description)
+        return
+      }
 
-  const removeTag = (tag: string) => {
-    setFormData({
-      ...formData,
-      tags: formData.tags.filter(t => t !== tag)
-    })
-  }
+      if (formData.parameter === 'setVotingWeightStrategy') {
+        if (!isAddress(formData.value)) {
+          toast.error('Please enter a valid strategy contract address')
+          return
+        }
+        await proposeParameterChange({ functionName: 'setVotingWeightStrategy', args: [formData.value] }, description)
+        return
+      }
+
+      const value = parseFloat(formData.value)
+      const validValue = selectedParameter.allowZero ? value >= 0 : value > 0
+      if (!validValue || (isRateRange && !(parseFloat(formData.maxValue) > value))) {
+        toast.error(isRateRange ? 'The maximum rate must be above the minimum rate' : 'Please enter a valid value')
+        return
+      }
 
-  const addSuggestedTag = (tag: string) => {
-    if (!formData.tags.includes(tag)) {
-      setFormData({
-        ...formData,
-        tags: [...formData.tags, tag]
-      })
+      const change: ParameterChange = isRateRange
+        ? {
+            functionName: 'setInterestRateRange',
+            args: [toContractValue(formData.parameter, formData.value), toContractValue(formData.parameter, formData.maxValue)],
+          }
+        : {
+            functionName: formData.parameter as Exclude<GovernedParameter, 'setInterestRateRange' | 'setVotingWeightStrategy'>,
+            args: [toContractValue(formData.parameter, formData.value)],
+          }
+      await proposeParameterChange(change, description)
+    } catch (err) {
+      console.error('Proposal creation failed:', err)
     }
   }
 
@@ -227,27 +293,31 @@ export default function CreateProposalPage() {
                     </p>
                   </div>
 
-                  {/* Type */}
+                  {/* Action */}
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
                       Proposal Type <span className="text-red-500">*</span>
                     </label>
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      {proposalTypes.map((type) => (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      {[
+                        { value: 'parameter', label: 'Parameter Change', description: 'Update a governance or loan policy parameter' },
+                        { value: 'removal', label: 'Member Removal', description: 'Remove a member and pay out their exit share' },
+                        { value: 'multi', label: 'Multi-Option', description: 'Poll members on several options; nothing executes' },
+                      ].map((type) => (
                         <label
                           key={type.value}
                           className={`p-3 border rounded-lg cursor-pointer transition-colors ${
-                            formData.type === type.value
+                            formData.action === type.value
                               ? 'border-primary-500 bg-primary-50'
                               : 'border-gray-200 hover:border-gray-300'
                           }`}
                         >
                           <input
                             type="radio"
-                            name="type"
+                            name="action"
                             value={type.value}
-                            checked={formData.type === type.value}
-                            onChange={(e) => setFormData({ ...formData, type: e.target.value })}
+                            checked={formData.action === type.value}
+                            onChange={(e) => setFormData({ ...formData, action: e.target.value as ProposalAction })}
                             className="sr-only"
                           />
                           <div className="font-medium text-gray-900">{type.label}</div>
@@ -257,68 +327,170 @@ export default function CreateProposalPage() {
                     </div>
                   </div>
 
-                  {/* Tags */}
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Tags
-                    </label>
-                    <div className="space-y-3">
-                      <div className="flex space-x-2">
-                        <input
-                          type="text"
-                          placeholder="Add a custom tag"
-                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-                          value={formData.newTag}
-                          onChange={(e) => setFormData({ ...formData, newTag: e.target.value })}
-                          onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
-                        />
-                        <Button type="button" onClick={addTag} variant="outline">
-                          Add
-                        </Button>
-                      </div>
-                      
-                      {/* Current Tags */}
-                      {formData.tags.length > 0 && (
-                        <div className="flex flex-wrap gap-2">
-                          {formData.tags.map((tag) => (
-                            <span
-                              key={tag}
-                              className="inline-flex items-center px-3 py-1 rounded-full text-sm font-medium bg-primary-100 text-primary-800"
-                            >
-                              {tag}
-                              <button
-                                type="button"
-                                onClick={() => removeTag(tag)}
-                                className="ml-1 h-4 w-4 text-primary-600 hover:text-primary-800"
-                              >
-                                ×
-                              </button>
-                            </span>
+                  {formData.action === 'parameter' ? (
+                    <div className="space-y-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Parameter <span className="text-red-500">*</span>
+                        </label>
+                        <select
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          value={formData.parameter}
+                          onChange={(e) => setFormData({ ...formData, parameter: e.target.value as GovernedParameter, value: '', maxValue: '' })}
+                        >
+                          {parameterOptions.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
                           ))}
+                        </select>
+                      </div>
+                      <div className={`grid gap-3 ${isRateRange ? 'grid-cols-2' : 'grid-cols-1'}`}>
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            {isRateRange ? 'Minimum' : 'New Value'} ({selectedParameter.unit}) <span className="text-red-500">*</span>
+                          </label>
+                          {isAddressValue ? (
+                            <input
+                              type="text"
+                              required
+                              placeholder="0x..."
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 font-mono"
+                              value={formData.value}
+                              onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                            />
+                          ) : (
+                            <input
+                              type="number"
+                              required
+                              min="0"
+                              step="any"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                              value={formData.value}
+                              onChange={(e) => setFormData({ ...formData, value: e.target.value })}
+                            />
+                          )}
+                          {isAddressValue && (
+                            <p className="text-xs text-gray-500 mt-1">
+                              A deployed flat, contribution, ENS reputation or quadratic strategy contract. Weights apply while weighted voting is enabled.
+                            </p>
+                          )}
                         </div>
-                      )}
-
-                      {/* Suggested Tags */}
+                        {isRateRange && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              Maximum (%) <span className="text-red-500">*</span>
+                            </label>
+                            <input
+                              type="number"
+                              required
+                              min="0"
+                              step="any"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                              value={formData.maxValue}
+                              onChange={(e) => setFormData({ ...formData, maxValue: e.target.value })}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  ) : formData.action === 'multi' ? (
+                    <div className="space-y-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Counting Method <span className="text-red-500">*</span>
+                        </label>
+                        <select
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          value={formData.countingMethod}
+                          onChange={(e) => setFormData({ ...formData, countingMethod: Number(e.target.value) as CountingMethod })}
+                        >
+                          {[CountingMethod.APPROVAL, CountingMethod.RANKED_CHOICE].map((method) => (
+                            <option key={method} value={method}>
+                              {COUNTING_METHOD_LABELS[method]}
+                            </option>
+                          ))}
+                        </select>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {formData.countingMethod === CountingMethod.APPROVAL
+                            ? 'Members approve any number of options; the most approved option wins.'
+                            : 'Members rank the options. The instant-runoff tally runs off-chain and an admin commits the result, which anyone can verify.'}
+                        </p>
+                      </div>
                       <div>
-                        <p className="text-sm text-gray-600 mb-2">Suggested tags:</p>
-                        <div className="flex flex-wrap gap-2">
-                          {suggestedTags
-                            .filter(tag => !formData.tags.includes(tag))
-                            .slice(0, 8)
-                            .map((tag) => (
-                            <button
-                              key={tag}
-                              type="button"
-                              onClick={() => addSuggestedTag(tag)}
-                              className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
-                            >
-                              + {tag}
-                            </button>
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Options <span className="text-red-500">*</span>
+                        </label>
+                        <div className="space-y-2">
+                          {formData.options.map((option, index) => (
+                            <div key={index} className="flex items-center space-x-2">
+                              <span className="w-6 text-sm text-gray-500 text-right">{index + 1}.</span>
+                              <input
+                                type="text"
+                                required
+                                placeholder={`Option ${index + 1}`}
+                                className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                                value={option}
+                                onChange={(e) => setOption(index, e.target.value)}
+                                maxLength={100}
+                              />
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => moveOptionUp(index)}
+                                disabled={index === 0}
+                                title="Move up"
+                              >
+                                <ArrowUpIcon className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => removeOption(index)}
+                                disabled={formData.options.length <= 2}
+                                title="Remove option"
+                              >
+                                <TrashIcon className="h-4 w-4" />
+                              </Button>
+                            </div>
                           ))}
                         </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="mt-2"
+                          onClick={() => setFormData({ ...formData, options: [...formData.options, ''] })}
+                          disabled={formData.options.length >= DAO_CONSTANTS.MAX_PROPOSAL_OPTIONS}
+                        >
+                          <PlusIcon className="h-4 w-4 mr-1" />
+                          Add Option
+                        </Button>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Between 2 and {DAO_CONSTANTS.MAX_PROPOSAL_OPTIONS} options
+                        </p>
                       </div>
                     </div>
-                  </div>
+                  ) : (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Member Address <span className="text-red-500">*</span>
+                      </label>
+                      <input
+                        type="text"
+                        required
+                        placeholder="0x..."
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 font-mono"
+                        value={formData.member}
+                        onChange={(e) => setFormData({ ...formData, member: e.target.value })}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Members with an active loan cannot be removed. Suspended members forfeit their exit share.
+                      </p>
+                    </div>
+                  )}
 
                   {/* Discussion URL */}
                   <div>
@@ -342,76 +514,6 @@ export default function CreateProposalPage() {
                 </CardContent>
               </Card>
 
-              {/* Advanced Settings */}
-              <Card>
-                <CardHeader>
-                  <CardTitle>Advanced Settings</CardTitle>
-                  <CardDescription>
-                    Configure proposal execution and privacy options
-                  </CardDescription>
-                </CardHeader>
-                <CardContent className="space-y-6">
-                  {/* Privacy Setting */}
-                  <div className="flex items-start space-x-3">
-                    <input
-                      type="checkbox"
-                      id="isPrivate"
-                      checked={formData.isPrivate}
-                      onChange={(e) => setFormData({ ...formData, isPrivate: e.target.checked })}
-                      className="mt-1"
-                    />
-                    <div>
-                      <label htmlFor="isPrivate" className="flex items-center text-sm font-medium text-gray-700">
-                        <EyeSlashIcon className="h-4 w-4 mr-2" />
-                        Private Proposal
-                      </label>
-                      <p className="text-sm text-gray-600">
-                        Hide proposal details during voting while maintaining vote transparency
-                      </p>
-                    </div>
-                  </div>
-
-                  {/* Execution Required */}
-                  <div className="flex items-start space-x-3">
-                    <input
-                      type="checkbox"
-                      id="requiresExecution"
-                      checked={formData.requiresExecution}
-                      onChange={(e) => setFormData({ ...formData, requiresExecution: e.target.checked })}
-                      className="mt-1"
-                    />
-                    <div>
-                      <label htmlFor="requiresExecution" className="text-sm font-medium text-gray-700">
-                        Requires On-chain Execution
-                      </label>
-                      <p className="text-sm text-gray-600">
-                        This proposal will automatically execute on-chain code if passed
-                      </p>
-                    </div>
-                  </div>
-
-                  {/* Execution Delay */}
-                  {formData.requiresExecution && (
-                    <div>
-                      <label className="block text-sm font-medium text-gray-700 mb-2">
-                        Execution Delay (Days)
-                      </label>
-                      <input
-                        type="number"
-                        min="0"
-                        max="30"
-                        value={formData.executionDelay}
-                        onChange={(e) => setFormData({ ...formData, executionDelay: parseInt(e.target.value) || 0 })}
-                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-                      />
-                      <p className="text-xs text-gray-500 mt-1">
-                        Time delay before execution after proposal passes (0-30 days)
-                      </p>
-                    </div>
-                  )}
-                </CardContent>
-              </Card>
-
               {/* Submit Button */}
               <div className="flex justify-end space-x-4">
                 <Link href="/governance">
@@ -421,9 +523,9 @@ export default function CreateProposalPage() {
                 </Link>
                 <Button
                   type="submit"
-                  disabled={isSubmitting || !formData.title.trim() || !formData.description.trim() || formData.description.length < 100}
+                  disabled={isPending || !formData.title.trim() || !formData.description.trim() || formData.description.length < 100}
                 >
-                  {isSubmitting ? 'Creating Proposal...' : 'Create Proposal'}
+                  {isPending ? 'Creating Proposal...' : 'Create Proposal'}
                 </Button>
               </div>
             </form>
@@ -442,6 +544,9 @@ export default function CreateProposalPage() {
                     {userData.votingWeight}
                   </div>
                   <div className="text-sm text-gray-600">votes</div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {formatVotingWeightStrategy(userData.weightedVoting, userData.votingWeightStrategy)}
+                  </div>
                 </div>
               </CardContent>
             </Card>
@@ -496,7 +601,7 @@ export default function CreateProposalPage() {
                     </div>
                     <div>
                       <p className="text-sm font-medium">Submission</p>
-                      <p className="text-xs text-gray-600">Proposal is created and pending review</p>
+                      <p className="text-xs text-gray-600">Proposal is recorded on-chain and voting opens immediately</p>
                     </div>
                   </div>
                   <div className="flex items-start space-x-3">
@@ -505,7 +610,7 @@ export default function CreateProposalPage() {
                     </div>
                     <div>
                       <p className="text-sm font-medium">Voting Period</p>
-                      <p className="text-xs text-gray-600">7 days for members to cast votes</p>
+                      <p className="text-xs text-gray-600">7 days for members to reach the consensus threshold</p>
                     </div>
                   </div>
                   <div className="flex items-start space-x-3">
@@ -514,7 +619,7 @@ export default function CreateProposalPage() {
                     </div>
                     <div>
                       <p className="text-sm font-medium">Execution</p>
-                      <p className="text-xs text-gray-600">Implementation if proposal passes</p>
+                      <p className="text-xs text-gray-600">Executes on the deciding vote, or once the timelock delay has passed</p>
                     </div>
                   </div>
                 </div>
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useEffect, useState, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
@@ -19,12 +19,18 @@ import {
   ExclamationTriangleIcon,
   FireIcon,
   ArrowUpRightIcon,
+  ArrowRightIcon,
   HandThumbUpIcon,
   HandThumbDownIcon,
   TagIcon,
+  LockClosedIcon,
 } from '@heroicons/react/24/outline'
-import { useUserData, useVoting } from '@/hooks/useDAO'
-import { formatDate, calculatePercentage, formatAddress } from '@/lib/utils'
+import { useDAOStats, useDelegation, useQuadraticVoting, useTimelockQueue, useUserData, useVoting } from '@/hooks/useDAO'
+import { formatDate, calculatePercentage, formatAddress, formatCountdown, formatVotingWeightStrategy } from '@/lib/utils'
+import { PROPOSAL_TYPE_LABELS } from '@/constants'
+import { creditsForVotes, previewQuadraticOutcome, quadraticVotes, voiceCreditBudget } from '@/lib/sdk'
+import { ProposalStatus } from '@/types/dao'
+import { isAddress } from 'viem'
 import toast from 'react-hot-toast'
 
 // Mock governance data - in real app this would come from contract
@@ -36,7 +42,6 @@ const mockGovernanceData = {
     failedProposals: 7,
     totalVotes: 1847,
     participationRate: 73.2,
-    quorumThreshold: 25,
     averageVotingPower: 42.5,
   },
   proposals: [
@@ -46,15 +51,15 @@ const mockGovernanceData = {
       description: 'Implement a new dynamic interest rate model that adjusts rates based on utilization and market conditions. This will help optimize lending efficiency and member returns.',
       type: 'protocol',
       proposer: '0x742d35Cc7e5e9E8A8c9A8E8fD0E8fD0E8fD0E8fD',
-      status: 'active', // active, passed, failed, pending, cancelled
+      status: 'active', // active, passed, failed, expired, pending, cancelled
       votesFor: 156,
       votesAgainst: 23,
       totalVotingPower: 400,
-      quorum: 25,
       createdAt: Math.floor(Date.now() / 1000) - 86400 * 3,
       startTime: Math.floor(Date.now() / 1000) - 86400 * 2,
       endTime: Math.floor(Date.now() / 1000) + 86400 * 4,
       isPrivate: false,
+      isQuadratic: false,
       requiresExecution: true,
       executionDelay: 86400 * 2, // 2 days
       tags: ['protocol', 'interest-rates', 'defi'],
@@ -72,17 +77,17 @@ const mockGovernanceData = {
       votesFor: 89,
       votesAgainst: 67,
       totalVotingPower: 400,
-      quorum: 25,
       createdAt: Math.floor(Date.now() / 1000) - 86400 * 5,
       startTime: Math.floor(Date.now() / 1000) - 86400 * 4,
       endTime: Math.floor(Date.now() / 1000) + 86400 * 2,
       isPrivate: false,
+      isQuadratic: true,
       requiresExecution: true,
       executionDelay: 86400 * 7, // 7 days
       tags: ['treasury', 'yield', 'diversification'],
       discussionUrl: 'https://forum.dao.com/proposal-2',
-      hasVoted: true,
-      userVote: true,
+      hasVoted: false,
+      userVote: null,
     },
     {
       id: 3,
@@ -94,11 +99,11 @@ const mockGovernanceData = {
       votesFor: 0,
       votesAgainst: 0,
       totalVotingPower: 400,
-      quorum: 25,
       createdAt: Math.floor(Date.now() / 1000) - 86400 * 1,
       startTime: Math.floor(Date.now() / 1000) + 86400 * 1,
       endTime: Math.floor(Date.now() / 1000) + 86400 * 8,
       isPrivate: true,
+      isQuadratic: false,
       requiresExecution: false,
       executionDelay: 0,
       tags: ['privacy', 'loans', 'zk-proofs'],
@@ -116,11 +121,11 @@ const mockGovernanceData = {
       votesFor: 245,
       votesAgainst: 45,
       totalVotingPower: 350,
-      quorum: 25,
       createdAt: Math.floor(Date.now() / 1000) - 86400 * 14,
       startTime: Math.floor(Date.now() / 1000) - 86400 * 13,
       endTime: Math.floor(Date.now() / 1000) - 86400 * 6,
       isPrivate: false,
+      isQuadratic: false,
       requiresExecution: true,
       executionDelay: 86400 * 3,
       tags: ['governance', 'membership', 'accessibility'],
@@ -138,11 +143,11 @@ const mockGovernanceData = {
       votesFor: 67,
       votesAgainst: 178,
       totalVotingPower: 300,
-      quorum: 25,
       createdAt: Math.floor(Date.now() / 1000) - 86400 * 21,
       startTime: Math.floor(Date.now() / 1000) - 86400 * 20,
       endTime: Math.floor(Date.now() / 1000) - 86400 * 13,
       isPrivate: false,
+      isQuadratic: false,
       requiresExecution: true,
       executionDelay: 86400 * 1,
       tags: ['security', 'emergency', 'treasury'],
@@ -188,6 +193,9 @@ const mockGovernanceData = {
 export default function GovernancePage() {
   const userData = useUserData()
   const { voteOnProposal, isPending: isVoting } = useVoting()
+  const timelock = useTimelockQueue()
+  const daoStats = useDAOStats()
+  const delegation = useDelegation()
   
   const [activeTab, setActiveTab] = useState('proposals')
   const [statusFilter, setStatusFilter] = useState('all')
@@ -196,8 +204,35 @@ export default function GovernancePage() {
   const [showVoteModal, setShowVoteModal] = useState(false)
   const [voteSupport, setVoteSupport] = useState<boolean | null>(null)
   const [voteReason, setVoteReason] = useState('')
+  const [voiceCredits, setVoiceCredits] = useState('')
+  const [delegateAddress, setDelegateAddress] = useState('')
 
   const governance = mockGovernanceData
+  const quorumPercent = daoStats.quorumThreshold / 100
+
+  const votingOn = governance.proposals.find(proposal => proposal.id === selectedProposal)
+  const quadratic = useQuadraticVoting(votingOn?.isQuadratic ? votingOn.id : undefined)
+  // The on-chain budget uses the voting power at the proposal's snapshot; fall back to the current power
+  const creditBudget = quadratic.budget || voiceCreditBudget(delegation.votingPower)
+  const creditsToSpend = Math.max(0, Math.floor(Number(voiceCredits) || 0))
+  const quadraticPreview = votingOn?.isQuadratic && voteSupport !== null
+    ? previewQuadraticOutcome(
+        quadratic.tally ?? {
+          votesFor: votingOn.votesFor,
+          votesAgainst: votingOn.votesAgainst,
+          turnout: votingOn.votesFor + votingOn.votesAgainst,
+        },
+        daoStats.quorumVotes,
+        { support: voteSupport, credits: creditsToSpend, votingPower: delegation.votingPower }
+      )
+    : null
+
+  // Ticks every second so the timelock countdowns stay live
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000))
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000)
+    return () => clearInterval(timer)
+  }, [])
 
   const filteredProposals = useMemo(() => {
     return governance.proposals.filter(proposal => {
@@ -209,17 +244,66 @@ export default function GovernancePage() {
 
   const handleVote = async (proposalId: number, support: boolean, reason?: string) => {
     try {
-      await voteOnProposal(proposalId, support)
+      if (votingOn?.isQuadratic) {
+        if (creditsToSpend === 0 || creditsToSpend > creditBudget) {
+          toast.error(`Spend between 1 and ${creditBudget} voice credits`)
+          return
+        }
+        await quadratic.voteWithCredits(support, creditsToSpend)
+      } else {
+        await voteOnProposal(proposalId, support)
+      }
       toast.success(`Vote cast ${support ? 'in favor of' : 'against'} the proposal`)
       setShowVoteModal(false)
       setSelectedProposal(null)
       setVoteReason('')
+      setVoiceCredits('')
     } catch (error) {
       console.error('Voting failed:', error)
       toast.error('Failed to cast vote')
     }
   }
 
+  const handleDelegate = async () => {
+    if (!isAddress(delegateAddress)) {
+      toast.error('Enter a valid member address')
+      return
+    }
+    try {
+      await delegation.delegate(delegateAddress)
+      toast.success(`Voting power delegated to ${formatAddress(delegateAddress)}`)
+      setDelegateAddress('')
+    } catch (error) {
+      console.error('Delegation failed:', error)
+      toast.error('Failed to delegate voting power')
+    }
+  }
+
+  const handleUndelegate = async () => {
+    try {
+      await delegation.undelegate()
+      toast.success('Voting power returned to you')
+    } catch (error) {
+      console.error('Undelegation failed:', error)
+      toast.error('Failed to undelegate')
+    }
+  }
+
+  const handleQueueAction = async (proposalId: number, action: 'execute' | 'cancel') => {
+    try {
+      if (action === 'execute') {
+        await timelock.executeQueuedProposal(proposalId)
+        toast.success(`Proposal #${proposalId} executed`)
+      } else {
+        await timelock.cancelQueuedProposal(proposalId)
+        toast.success(`Proposal #${proposalId} cancelled`)
+      }
+    } catch (error) {
+      console.error(`Queued proposal ${action} failed:`, error)
+      toast.error(`Failed to ${action} proposal`)
+    }
+  }
+
   const getStatusIcon = (status: string) => {
     switch (status) {
       case 'active': return <ClockIcon className="h-5 w-5 text-blue-500" />
@@ -227,6 +311,7 @@ export default function GovernancePage() {
       case 'failed': return <XCircleIcon className="h-5 w-5 text-red-500" />
       case 'pending': return <ClockIcon className="h-5 w-5 text-yellow-500" />
       case 'cancelled': return <XCircleIcon className="h-5 w-5 text-gray-500" />
+      case 'expired': return <XCircleIcon className="h-5 w-5 text-gray-500" />
       default: return <ClockIcon className="h-5 w-5 text-gray-500" />
     }
   }
@@ -372,6 +457,7 @@ export default function GovernancePage() {
                   <option value="pending">Pending</option>
                   <option value="passed">Passed</option>
                   <option value="failed">Failed</option>
+                  <option value="expired">Expired</option>
                 </select>
               </div>
               
@@ -392,170 +478,317 @@ export default function GovernancePage() {
               </div>
             </div>
 
-            {/* Proposals List */}
-            <div className="space-y-4">
-              {filteredProposals.map((proposal) => {
-                const votingProgress = proposal.votesFor + proposal.votesAgainst > 0 ?
-                  calculatePercentage(proposal.votesFor, proposal.votesFor + proposal.votesAgainst) : 0
-                const quorumProgress = calculatePercentage(
-                  proposal.votesFor + proposal.votesAgainst,
-                  (proposal.totalVotingPower * proposal.quorum) / 100
-                )
-                const timeLeft = proposal.endTime - Math.floor(Date.now() / 1000)
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {/* Proposals List */}
+              <div className="lg:col-span-2 space-y-4">
+                {filteredProposals.map((proposal) => {
+                  const votingProgress = proposal.votesFor + proposal.votesAgainst > 0 ?
+                    calculatePercentage(proposal.votesFor, proposal.votesFor + proposal.votesAgainst) : 0
+                  const quorumProgress = quorumPercent > 0 ? calculatePercentage(
+                    proposal.votesFor + proposal.votesAgainst,
+                    (proposal.totalVotingPower * quorumPercent) / 100
+                  ) : 100
+                  const timeLeft = proposal.endTime - Math.floor(Date.now() / 1000)
                 
-                return (
-                  <Card key={proposal.id} className="hover:shadow-md transition-shadow">
-                    <CardHeader>
-                      <div className="flex items-start justify-between">
-                        <div className="flex items-start space-x-3 flex-1">
-                          {getTypeIcon(proposal.type)}
-                          <div className="flex-1">
-                            <div className="flex items-center space-x-2 mb-1">
-                              <CardTitle className="text-lg">{proposal.title}</CardTitle>
-                              {proposal.isPrivate && (
-                                <EyeSlashIcon className="h-5 w-5 text-purple-600" title="Private Proposal" />
-                              )}
-                            </div>
-                            <CardDescription className="text-sm">
-                              {proposal.description}
-                            </CardDescription>
-                            <div className="flex items-center space-x-4 mt-2">
-                              <span className="text-xs text-gray-500">
-                                by {formatAddress(proposal.proposer)}
-                              </span>
-                              <span className="text-xs text-gray-500">
-                                {formatDate(proposal.createdAt)}
-                              </span>
-                              <div className="flex space-x-1">
-                                {proposal.tags.map((tag) => (
-                                  <span key={tag} className="px-2 py-1 bg-gray-100 text-xs text-gray-600 rounded">
-                                    {tag}
+                  return (
+                    <Card key={proposal.id} className="hover:shadow-md transition-shadow">
+                      <CardHeader>
+                        <div className="flex items-start justify-between">
+                          <div className="flex items-start space-x-3 flex-1">
+                            {getTypeIcon(proposal.type)}
+                            <div className="flex-1">
+                              <div className="flex items-center space-x-2 mb-1">
+                                <CardTitle className="text-lg">{proposal.title}</CardTitle>
+                                {proposal.isPrivate && (
+                                  <EyeSlashIcon className="h-5 w-5 text-purple-600" title="Private Proposal" />
+                                )}
+                                {proposal.isQuadratic && (
+                                  <span className="px-2 py-0.5 bg-indigo-50 text-xs text-indigo-700 rounded" title="Members vote with voice credits">
+                                    Quadratic
                                   </span>
-                                ))}
+                                )}
+                              </div>
+                              <CardDescription className="text-sm">
+                                {proposal.description}
+                              </CardDescription>
+                              <div className="flex items-center space-x-4 mt-2">
+                                <span className="text-xs text-gray-500">
+                                  by {formatAddress(proposal.proposer)}
+                                </span>
+                                <span className="text-xs text-gray-500">
+                                  {formatDate(proposal.createdAt)}
+                                </span>
+                                <div className="flex space-x-1">
+                                  {proposal.tags.map((tag) => (
+                                    <span key={tag} className="px-2 py-1 bg-gray-100 text-xs text-gray-600 rounded">
+                                      {tag}
+                                    </span>
+                                  ))}
+                                </div>
                               </div>
                             </div>
                           </div>
-                        </div>
-                        <div className={`px-3 py-1 rounded-full border text-sm font-medium ${getStatusColor(proposal.status)}`}>
-                          <div className="flex items-center space-x-1">
-                            {getStatusIcon(proposal.status)}
-                            <span className="capitalize">{proposal.status}</span>
+                          <div className={`px-3 py-1 rounded-full border text-sm font-medium ${getStatusColor(proposal.status)}`}>
+                            <div className="flex items-center space-x-1">
+                              {getStatusIcon(proposal.status)}
+                              <span className="capitalize">{proposal.status}</span>
+                            </div>
                           </div>
                         </div>
-                      </div>
-                    </CardHeader>
+                      </CardHeader>
                     
-                    <CardContent className="space-y-4">
-                      {/* Voting Stats */}
-                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-                        <div className="text-center p-3 bg-green-50 rounded-lg">
-                          <p className="text-sm text-gray-600">For</p>
-                          <p className="text-xl font-bold text-green-600">{proposal.votesFor}</p>
-                        </div>
-                        <div className="text-center p-3 bg-red-50 rounded-lg">
-                          <p className="text-sm text-gray-600">Against</p>
-                          <p className="text-xl font-bold text-red-600">{proposal.votesAgainst}</p>
-                        </div>
-                        <div className="text-center p-3 bg-blue-50 rounded-lg">
-                          <p className="text-sm text-gray-600">Quorum</p>
-                          <p className="text-xl font-bold text-blue-600">{Math.min(quorumProgress, 100)}%</p>
-                        </div>
-                        <div className="text-center p-3 bg-purple-50 rounded-lg">
-                          <p className="text-sm text-gray-600">Time Left</p>
-                          <p className="text-xl font-bold text-purple-600">
-                            {timeLeft > 0 ? `${Math.ceil(timeLeft / 86400)}d` : 'Ended'}
-                          </p>
+                      <CardContent className="space-y-4">
+                        {/* Voting Stats */}
+                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                          <div className="text-center p-3 bg-green-50 rounded-lg">
+                            <p className="text-sm text-gray-600">For</p>
+                            <p className="text-xl font-bold text-green-600">{proposal.votesFor}</p>
+                          </div>
+                          <div className="text-center p-3 bg-red-50 rounded-lg">
+                            <p className="text-sm text-gray-600">Against</p>
+                            <p className="text-xl font-bold text-red-600">{proposal.votesAgainst}</p>
+                          </div>
+                          <div className="text-center p-3 bg-blue-50 rounded-lg">
+                            <p className="text-sm text-gray-600">Quorum</p>
+                            <p className="text-xl font-bold text-blue-600">{Math.min(quorumProgress, 100)}%</p>
+                          </div>
+                          <div className="text-center p-3 bg-purple-50 rounded-lg">
+                            <p className="text-sm text-gray-600">Time Left</p>
+                            <p className="text-xl font-bold text-purple-600">
+                              {timeLeft > 0 ? `${Math.ceil(timeLeft / 86400)}d` : 'Ended'}
+                            </p>
+                          </div>
                         </div>
-                      </div>
 
-                      {/* Progress Bars */}
-                      {proposal.status === 'active' && (
-                        <div className="space-y-3">
-                          <div>
-                            <div className="flex justify-between text-sm text-gray-600 mb-2">
-                              <span>Approval ({votingProgress}% in favor)</span>
-                              <span>{proposal.votesFor + proposal.votesAgainst} votes</span>
-                            </div>
-                            <div className="w-full bg-gray-200 rounded-full h-3">
-                              <div 
-                                className="bg-gradient-to-r from-green-500 to-green-600 h-3 rounded-full transition-all"
-                                style={{ width: `${votingProgress}%` }}
-                              />
+                        {/* Progress Bars */}
+                        {proposal.status === 'active' && (
+                          <div className="space-y-3">
+                            <div>
+                              <div className="flex justify-between text-sm text-gray-600 mb-2">
+                                <span>Approval ({votingProgress}% in favor)</span>
+                                <span>{proposal.votesFor + proposal.votesAgainst} votes</span>
+                              </div>
+                              <div className="w-full bg-gray-200 rounded-full h-3">
+                                <div 
+                                  className="bg-gradient-to-r from-green-500 to-green-600 h-3 rounded-full transition-all"
+                                  style={{ width: `${votingProgress}%` }}
+                                />
+                              </div>
                             </div>
-                          </div>
 
-                          <div>
-                            <div className="flex justify-between text-sm text-gray-600 mb-2">
-                              <span>Quorum ({quorumProgress}% reached)</span>
-                              <span>{proposal.quorum}% required</span>
-                            </div>
-                            <div className="w-full bg-gray-200 rounded-full h-2">
-                              <div 
-                                className="bg-blue-500 h-2 rounded-full transition-all"
-                                style={{ width: `${Math.min(quorumProgress, 100)}%` }}
-                              />
+                            <div>
+                              <div className="flex justify-between text-sm text-gray-600 mb-2">
+                                <span>Quorum ({quorumProgress}% reached)</span>
+                                <span>{quorumPercent}% required</span>
+                              </div>
+                              <div className="w-full bg-gray-200 rounded-full h-2">
+                                <div 
+                                  className="bg-blue-500 h-2 rounded-full transition-all"
+                                  style={{ width: `${Math.min(quorumProgress, 100)}%` }}
+                                />
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      )}
+                        )}
 
-                      {/* Actions */}
-                      <div className="flex items-center justify-between pt-4 border-t">
-                        <div className="flex items-center space-x-2">
-                          <Button variant="outline" size="sm">
-                            <ArrowUpRightIcon className="h-4 w-4 mr-2" />
-                            Discussion
-                          </Button>
-                          <Link href={`/governance/${proposal.id}`}>
-                            <Button variant="ghost" size="sm">
-                              View Details
+                        {/* Actions */}
+                        <div className="flex items-center justify-between pt-4 border-t">
+                          <div className="flex items-center space-x-2">
+                            <Button variant="outline" size="sm">
+                              <ArrowUpRightIcon className="h-4 w-4 mr-2" />
+                              Discussion
                             </Button>
-                          </Link>
+                            <Link href={`/governance/${proposal.id}`}>
+                              <Button variant="ghost" size="sm">
+                                View Details
+                              </Button>
+                            </Link>
+                          </div>
+
+                          {canVote(proposal) && (
+                            <div className="flex space-x-2">
+                              <Button
+                                onClick={() => {
+                                  setSelectedProposal(proposal.id)
+                                  setVoteSupport(true)
+                                  setShowVoteModal(true)
+                                }}
+                                disabled={isVoting}
+                                size="sm"
+                                className="bg-green-600 hover:bg-green-700"
+                              >
+                                <HandThumbUpIcon className="h-4 w-4 mr-2" />
+                                Vote For
+                              </Button>
+                              <Button
+                                onClick={() => {
+                                  setSelectedProposal(proposal.id)
+                                  setVoteSupport(false)
+                                  setShowVoteModal(true)
+                                }}
+                                disabled={isVoting}
+                                variant="outline"
+                                size="sm"
+                                className="text-red-600 border-red-300 hover:bg-red-50"
+                              >
+                                <HandThumbDownIcon className="h-4 w-4 mr-2" />
+                                Vote Against
+                              </Button>
+                            </div>
+                          )}
+
+                          {proposal.hasVoted && (
+                            <div className="flex items-center space-x-2 text-sm text-gray-600">
+                              <CheckCircleIcon className="h-4 w-4 text-green-500" />
+                              <span>You voted {proposal.userVote ? 'For' : 'Against'}</span>
+                            </div>
+                          )}
                         </div>
+                      </CardContent>
+                    </Card>
+                  )
+                })}
+              </div>
 
-                        {canVote(proposal) && (
+              {/* Queued Proposals */}
+              <div className="space-y-6">
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center text-lg">
+                      <LockClosedIcon className="h-5 w-5 mr-2 text-amber-600" />
+                      Queued
+                    </CardTitle>
+                    <CardDescription>
+                      {timelock.timelockDelay > 0
+                        ? `Approved proposals wait ${formatCountdown(timelock.timelockDelay)} before anyone can execute them`
+                        : 'Timelock is off; approved proposals execute immediately'}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {timelock.queuedProposals.length === 0 && (
+                      <p className="text-sm text-gray-500 text-center py-4">
+                        {timelock.isLoading ? 'Loading queue...' : 'No proposals in the queue'}
+                      </p>
+                    )}
+                    {timelock.queuedProposals.map((queued) => {
+                      const remaining = queued.eta - now
+                      return (
+                        <div key={queued.id} className="p-3 border rounded-lg space-y-2">
+                          <div className="flex items-center justify-between">
+                            <span className="font-medium text-gray-900">Proposal #{queued.id}</span>
+                            <span className="text-xs text-gray-600">{PROPOSAL_TYPE_LABELS[queued.type]}</span>
+                          </div>
+                          <div className="flex items-center justify-between text-sm">
+                            <span className="text-gray-600">by {formatAddress(queued.proposer)}</span>
+                            <span className={`font-mono ${remaining > 0 ? 'text-amber-600' : 'text-green-600'}`}>
+                              {remaining > 0 ? formatCountdown(remaining) : 'Ready'}
+                            </span>
+                          </div>
+                          <p className="text-xs text-gray-500">Executable {formatDate(queued.eta)}</p>
                           <div className="flex space-x-2">
                             <Button
-                              onClick={() => {
-                                setSelectedProposal(proposal.id)
-                                setVoteSupport(true)
-                                setShowVoteModal(true)
-                              }}
-                              disabled={isVoting}
                               size="sm"
-                              className="bg-green-600 hover:bg-green-700"
+                              className="flex-1"
+                              disabled={remaining > 0 || timelock.isPending}
+                              onClick={() => handleQueueAction(queued.id, 'execute')}
                             >
-                              <HandThumbUpIcon className="h-4 w-4 mr-2" />
-                              Vote For
-                            </Button>
-                            <Button
-                              onClick={() => {
-                                setSelectedProposal(proposal.id)
-                                setVoteSupport(false)
-                                setShowVoteModal(true)
-                              }}
-                              disabled={isVoting}
-                              variant="outline"
-                              size="sm"
-                              className="text-red-600 border-red-300 hover:bg-red-50"
-                            >
-                              <HandThumbDownIcon className="h-4 w-4 mr-2" />
-                              Vote Against
+                              Execute
                             </Button>
+                            {timelock.isGuardian && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                className="flex-1 text-red-600 border-red-300 hover:bg-red-50"
+                                disabled={timelock.isPending}
+                                onClick={() => handleQueueAction(queued.id, 'cancel')}
+                              >
+                                Cancel
+                              </Button>
+                            )}
                           </div>
-                        )}
+                        </div>
+                      )
+                    })}
+                  </CardContent>
+                </Card>
 
-                        {proposal.hasVoted && (
-                          <div className="flex items-center space-x-2 text-sm text-gray-600">
-                            <CheckCircleIcon className="h-4 w-4 text-green-500" />
-                            <span>You voted {proposal.userVote ? 'For' : 'Against'}</span>
-                          </div>
+                {/* Delegation */}
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center text-lg">
+                      <UserGroupIcon className="h-5 w-5 mr-2 text-blue-600" />
+                      Delegation
+                    </CardTitle>
+                    <CardDescription>
+                      Delegations count for proposals whose voting opens after the change
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {userData.isMember && (
+                      <div className="space-y-3">
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-gray-600">Your voting power</span>
+                          <span className="font-medium text-gray-900">{delegation.votingPower}</span>
+                        </div>
+                        <div className="flex items-center justify-between text-sm">
+                          <span className="text-gray-600">Voting with your weight</span>
+                          <span className="font-medium text-gray-900">
+                            {delegation.isDelegating ? formatAddress(delegation.currentDelegate!) : 'You'}
+                          </span>
+                        </div>
+                        {delegation.receivedDelegations.length > 0 && (
+                          <p className="text-xs text-gray-500">
+                            {delegation.receivedDelegations.length} member{delegation.receivedDelegations.length === 1 ? '' : 's'} delegate to you
+                          </p>
+                        )}
+                        <div className="flex space-x-2">
+                          <input
+                            type="text"
+                            value={delegateAddress}
+                            onChange={(e) => setDelegateAddress(e.target.value)}
+                            placeholder="0x... member address"
+                            className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                          />
+                          <Button
+                            size="sm"
+                            disabled={!delegateAddress || delegation.isPending}
+                            onClick={handleDelegate}
+                          >
+                            Delegate
+                          </Button>
+                        </div>
+                        {delegation.isDelegating && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            className="w-full"
+                            disabled={delegation.isPending}
+                            onClick={handleUndelegate}
+                          >
+                            Undelegate
+                          </Button>
                         )}
                       </div>
-                    </CardContent>
-                  </Card>
-                )
-              })}
+                    )}
+
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium text-gray-900">Active delegations</p>
+                      {delegation.delegations.length === 0 && (
+                        <p className="text-sm text-gray-500 text-center py-2">
+                          {delegation.isLoading ? 'Loading delegations...' : 'No member has delegated'}
+                        </p>
+                      )}
+                      {delegation.delegations.map(({ delegator, delegate }) => (
+                        <div key={delegator} className="flex items-center justify-between text-sm p-2 border rounded-lg">
+                          <span className="font-mono text-gray-700">{formatAddress(delegator)}</span>
+                          <ArrowRightIcon className="h-4 w-4 text-gray-400" />
+                          <span className="font-mono text-gray-700">{formatAddress(delegate)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </CardContent>
+                </Card>
+              </div>
             </div>
           </TabsContent>
 
@@ -582,7 +815,7 @@ export default function GovernancePage() {
                     <div className="text-center p-4 bg-purple-50 rounded-lg">
                       <ScaleIcon className="h-8 w-8 text-purple-600 mx-auto mb-2" />
                       <p className="text-sm text-gray-600">Quorum Threshold</p>
-                      <p className="text-2xl font-bold text-purple-600">{governance.stats.quorumThreshold}%</p>
+                      <p className="text-2xl font-bold text-purple-600">{quorumPercent}%</p>
                     </div>
                   </div>
 
@@ -758,13 +991,52 @@ export default function GovernancePage() {
               <div className="bg-blue-50 border border-blue-200 rounded-md p-3">
                 <p className="text-sm text-blue-800">
                   Your voting power: {userData.votingWeight} votes
+                  ({formatVotingWeightStrategy(userData.weightedVoting, userData.votingWeightStrategy)})
                 </p>
               </div>
 
+              {quadraticPreview && (
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Voice Credits (budget {creditBudget})
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={creditBudget}
+                    step={1}
+                    placeholder={`e.g. ${creditsForVotes(Math.max(1, quadraticVotes(creditBudget)))}`}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    value={voiceCredits}
+                    onChange={(e) => setVoiceCredits(e.target.value)}
+                  />
+                  <div className="bg-indigo-50 border border-indigo-200 rounded-md p-3 text-sm text-indigo-800 space-y-1">
+                    <p>
+                      {creditsToSpend} credits buy {quadraticVotes(creditsToSpend)} votes;
+                      {' '}{Math.max(creditBudget - creditsToSpend, 0)} credits left unspent
+                    </p>
+                    <p>
+                      After your vote: {quadraticPreview.votesFor} for / {quadraticPreview.votesAgainst} against,
+                      {' '}quorum {quadraticPreview.reachedQuorum ? 'reached' : 'not reached'}
+                    </p>
+                    <p className="font-medium">
+                      {quadraticPreview.status === ProposalStatus.APPROVED
+                        ? 'Would pass (60% of votes in favor)'
+                        : quadraticPreview.status === ProposalStatus.REJECTED
+                          ? 'Would fail the 60% approval threshold'
+                          : 'Would expire without quorum'}
+                    </p>
+                  </div>
+                  {creditsToSpend > creditBudget && (
+                    <p className="text-sm text-red-600">You only have {creditBudget} voice credits</p>
+                  )}
+                </div>
+              )}
+
               <div className="flex space-x-2">
                 <Button
                   onClick={() => handleVote(selectedProposal, voteSupport, voteReason)}
-                  disabled={isVoting}
+                  disabled={isVoting || quadratic.isPending}
                   className="flex-1"
                 >
                   {isVoting ? 'Casting Vote...' : `Vote ${voteSupport ? 'For' : 'Against'}`}
@@ -775,6 +1047,7 @@ export default function GovernancePage() {
                     setSelectedProposal(null)
                     setVoteSupport(null)
                     setVoteReason('')
+                    setVoiceCredits('')
                   }}
                   variant="outline"
                   className="flex-1"
@@ -4,7 +4,10 @@ import { useState, useEffect } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
+import PrivateVoting from '@/components/PrivateVoting'
+import AnonymousVoting from '@/components/AnonymousVoting'
 import Link from 'next/link'
+import dynamic from 'next/dynamic'
 import {
   ArrowLeftIcon,
   BanknotesIcon,
@@ -22,93 +25,101 @@ import {
   HandThumbUpIcon,
   HandThumbDownIcon,
   ShareIcon,
+  ShieldCheckIcon,
+  PaperClipIcon,
 } from '@heroicons/react/24/outline'
-import { useUserData, useVoting, useLoanRepayment } from '@/hooks/useDAO'
+import {
+  useUserData,
+  useVoting,
+  useLoanRepayment,
+  useLoanDefault,
+  useLoanDetails,
+  useDAOStats,
+  useEncryptionKeys,
+  useDocumentManifests,
+} from '@/hooks/useDAO'
+import { documentFromManifest, isMockStorage } from '@/lib/ipfs'
+import type { DocumentManifest, ManifestFile } from '@/lib/storage'
 import { formatEther, formatDate, formatAddress, calculatePercentage } from '@/lib/utils'
-import { PROPOSAL_STATUS_LABELS } from '@/constants'
+import { IPFS_GATEWAY, PROPOSAL_STATUS_LABELS } from '@/constants'
+import { LoanStatus, ProposalStatus } from '@/types/dao'
+import type { Loan } from '@/types/dao'
+import type { DocumentMetadata } from '@/lib/ipfs'
+import { formatUnits, parseEther } from 'viem'
 import toast from 'react-hot-toast'
 
-// Mock loan data - in real app this would come from contract
-const mockLoanData = {
-  1: {
-    id: 1,
-    borrower: '0x742d35Cc7e5e9E8A8c9A8E8fD0E8fD0E8fD0E8fD',
-    amount: BigInt('5000000000000000000'), // 5 ETH
-    purpose: 'I am seeking funding to expand my DeFi development startup. The funds will be used to hire additional developers, conduct security audits, and deploy new yield farming protocols on mainnet. My team has already built and tested the core functionality on testnet with promising results showing 15-20% APY. With this loan, we can accelerate our roadmap and bring innovative DeFi solutions to market.',
-    interestRate: 850, // 8.5% in basis points
-    status: 2, // IN_VOTING
-    votesFor: 12,
-    votesAgainst: 3,
-    totalVotingPower: 50,
-    creationTime: Math.floor(Date.now() / 1000) - 86400 * 2,
-    votingStartTime: Math.floor(Date.now() / 1000) - 86400,
-    votingEndTime: Math.floor(Date.now() / 1000) + 86400 * 6,
-    editEndTime: Math.floor(Date.now() / 1000) - 86400,
-    isPrivate: false,
-    documentHash: 'QmYwAPJzv5CZsnAzt8auVvzgWiVwiWp2cGVJqRDJXjdMJ',
-    hasVoted: false,
-    userVote: null,
-    repaymentDue: 0,
-    repaymentAmount: BigInt('0'),
-    isRepaid: false,
-    loanHistory: [
-      {
-        action: 'Created',
-        timestamp: Math.floor(Date.now() / 1000) - 86400 * 2,
-        details: 'Loan proposal created and submitted for review'
-      },
-      {
-        action: 'Editing Period Ended',
-        timestamp: Math.floor(Date.now() / 1000) - 86400,
-        details: 'Proposal editing period completed, voting has begun'
-      }
-    ],
-    borrowerProfile: {
-      reputation: 85,
-      totalLoans: 2,
-      completedLoans: 2,
-      defaultedLoans: 0,
-      averageRepaymentTime: '11 months',
-      memberSince: Math.floor(Date.now() / 1000) - 86400 * 365
-    },
-    documents: [
-      {
-        name: 'Business Plan.pdf',
-        hash: 'QmYwAPJzv5CZsnAzt8auVvzgWiVwiWp2cGVJqRDJXjdMJ',
-        size: '2.4 MB',
-        uploadedAt: Math.floor(Date.now() / 1000) - 86400 * 3
-      },
-      {
-        name: 'Financial Projections.xlsx',
-        hash: 'QmAbCdEf123456789abcdef123456789abcdef12',
-        size: '1.2 MB',
-        uploadedAt: Math.floor(Date.now() / 1000) - 86400 * 3
-      }
-    ]
-  }
+const DocumentUpload = dynamic(() => import('@/components/DocumentUpload'), { ssr: false })
+const DocumentViewer = dynamic(() => import('@/components/DocumentViewer'), { ssr: false })
+
+const formatDuration = (seconds: number) => {
+  const days = Math.round(seconds / 86400)
+  if (days < 60) return `${days} day${days === 1 ? '' : 's'}`
+  return `${Math.round(days / 30)} months`
+}
+
+// Expand the on-chain schedule into one row per installment
+const getInstallments = (loan: Loan) => {
+  const schedule = loan.schedule
+  if (!schedule) return []
+
+  const totalRepayment = loan.amount + loan.totalInterest
+  return Array.from({ length: schedule.installmentCount }, (_, index) => {
+    const number = index + 1
+    const isLast = number === schedule.installmentCount
+    return {
+      number,
+      dueDate: isLast ? loan.endTime : loan.startTime + number * schedule.installmentInterval,
+      amount: isLast
+        ? totalRepayment - schedule.installmentAmount * BigInt(schedule.installmentCount - 1)
+        : schedule.installmentAmount,
+      isPaid: number <= schedule.installmentsPaid,
+      isNext: number === schedule.installmentsPaid + 1,
+    }
+  })
 }
 
 export default function LoanDetailsPage() {
   const params = useParams()
   const router = useRouter()
   const userData = useUserData()
+  const { votingKey, documentKey, recipient, resolveKey } = useEncryptionKeys()
   const { voteOnProposal, isPending: isVoting } = useVoting()
   const { repayLoan, isPending: isRepaying } = useLoanRepayment()
+  const { markLoanDefaulted, isPending: isMarkingDefault } = useLoanDefault()
+  
+  const daoStats = useDAOStats()
   
-  const loanId = parseInt(params.id as string)
-  const loan = mockLoanData[loanId as keyof typeof mockLoanData]
+  const proposalId = parseInt(params.id as string)
+  const { data: details, isLoading } = useLoanDetails(proposalId)
+  const proposalManifests = useDocumentManifests('loan_proposal', Number.isInteger(proposalId) ? proposalId : undefined)
+  const loanManifests = useDocumentManifests('loan', details?.loan?.id)
 
   const [showRepayment, setShowRepayment] = useState(false)
   const [repaymentAmount, setRepaymentAmount] = useState('')
+  const [showAttach, setShowAttach] = useState(false)
+  const [viewing, setViewing] = useState<{ manifest: DocumentManifest; file: ManifestFile; signer: string } | null>(null)
 
   useEffect(() => {
-    if (!loan) {
+    if (!isLoading && !details) {
       toast.error('Loan not found')
       router.push('/loans')
     }
-  }, [loan, router])
+  }, [details, isLoading, router])
 
-  if (!loan) {
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-6 text-center">
+            <ClockIcon className="h-12 w-12 text-gray-400 mx-auto mb-4 animate-pulse" />
+            <p className="text-gray-600">Loading loan proposal #{params.id}...</p>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  if (!details) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50 flex items-center justify-center">
         <Card className="w-full max-w-md">
@@ -125,9 +136,46 @@ export default function LoanDetailsPage() {
     )
   }
 
+  const { proposal, loan, votes, history, borrowerStats } = details
+  const totalRepayment = loan ? loan.amount + loan.totalInterest : BigInt(0)
+  const schedule = loan?.schedule
+  const installments = loan ? getInstallments(loan) : []
+  const repaymentProgress = loan && totalRepayment > BigInt(0)
+    ? Number((loan.amountPaid * BigInt(10000)) / totalRepayment) / 100
+    : 0
+  const now = Math.floor(Date.now() / 1000)
+  // Mirrors the contract: a loan can be marked defaulted once the grace period after a missed installment has passed
+  const isPastDue = loan?.status === LoanStatus.ACTIVE && !!schedule && schedule.nextDueDate > 0 && schedule.nextDueDate < now
+  const isInDefault = isPastDue && schedule!.nextDueDate + daoStats.gracePeriod < now
+  const loanStanding = loan?.status === LoanStatus.DEFAULTED
+    ? { label: 'Defaulted', className: 'text-red-700 bg-red-50 border-red-200' }
+    : isInDefault
+      ? { label: 'In Default', className: 'text-red-600 bg-red-50 border-red-200' }
+      : isPastDue
+        ? { label: 'Overdue', className: 'text-orange-600 bg-orange-50 border-orange-200' }
+        : null
+  const documents = [
+    { name: 'Loan Proposal Document', hash: proposal.documentHash },
+    { name: 'Loan Agreement Document', hash: details.loanDocumentHash },
+  ].filter(doc => doc.hash)
+
+  const signedDocuments = [...proposalManifests.manifests, ...loanManifests.manifests]
+
+  // Once the loan is out, new documents are attached to it rather than to the proposal
+  const handleAttachDocuments = async (uploaded: DocumentMetadata[]) => {
+    try {
+      await (loan ? loanManifests : proposalManifests).attachDocuments(uploaded)
+      toast.success('Documents signed and anchored')
+      setShowAttach(false)
+    } catch (error) {
+      console.error('Attaching documents failed:', error)
+      toast.error('Failed to attach documents')
+    }
+  }
+
   const handleVote = async (support: boolean) => {
     try {
-      await voteOnProposal(loanId, support)
+      await voteOnProposal(proposal.id, support)
       toast.success(`Vote cast ${support ? 'in favor of' : 'against'} the proposal`)
     } catch (error) {
       console.error('Voting failed:', error)
@@ -136,16 +184,28 @@ export default function LoanDetailsPage() {
   }
 
   const handleRepayment = async () => {
-    if (!repaymentAmount || parseFloat(repaymentAmount) <= 0) {
+    if (!loan) return
+
+    let amountInWei: bigint
+    try {
+      amountInWei = parseEther(repaymentAmount)
+    } catch {
+      amountInWei = BigInt(0)
+    }
+    if (amountInWei <= BigInt(0)) {
       toast.error('Please enter a valid repayment amount')
       return
     }
 
+    const remainingBalance = schedule?.remainingBalance ?? totalRepayment - loan.amountPaid
+    if (amountInWei > remainingBalance) {
+      toast.error(`The remaining balance is ${formatEther(remainingBalance)} ETH`)
+      return
+    }
+
     try {
-      // Convert ETH string to wei (bigint)
-      const amountInWei = BigInt(Math.floor(parseFloat(repaymentAmount) * 1e18))
-      await repayLoan(loanId, amountInWei)
-      toast.success('Loan repayment successful')
+      await repayLoan(loan.id, amountInWei)
+      toast.success(amountInWei === remainingBalance ? 'Loan fully repaid' : 'Installment payment successful')
       setShowRepayment(false)
     } catch (error) {
       console.error('Repayment failed:', error)
@@ -153,12 +213,25 @@ export default function LoanDetailsPage() {
     }
   }
 
+  const handleMarkDefaulted = async () => {
+    if (!loan) return
+
+    try {
+      await markLoanDefaulted(loan.id)
+      toast.success(`Loan #${loan.id} marked as defaulted`)
+    } catch (error) {
+      console.error('Marking default failed:', error)
+      toast.error('Failed to mark the loan as defaulted')
+    }
+  }
+
   const getStatusIcon = (status: number) => {
     switch (status) {
       case 1: return <ClockIcon className="h-6 w-6 text-yellow-500" />
       case 2: return <ClockIcon className="h-6 w-6 text-blue-500" />
       case 3: return <CheckCircleIcon className="h-6 w-6 text-green-500" />
       case 4: return <XCircleIcon className="h-6 w-6 text-red-500" />
+      case 7: return <XCircleIcon className="h-6 w-6 text-gray-500" />
       default: return <ClockIcon className="h-6 w-6 text-gray-500" />
     }
   }
@@ -173,20 +246,36 @@ export default function LoanDetailsPage() {
     }
   }
 
+  const hasVoted = votes.some(vote => vote.voter.toLowerCase() === userData.address?.toLowerCase())
+
   const canVote = () => {
     return userData.isMember && 
-           loan.status === 2 && 
-           !loan.hasVoted && 
-           loan.borrower !== userData.address &&
-           loan.votingEndTime > Math.floor(Date.now() / 1000)
+           !proposal.isPrivate &&
+           proposal.status === ProposalStatus.IN_VOTING && 
+           !hasVoted && 
+           !isBorrower() &&
+           proposal.votingEndTime > Math.floor(Date.now() / 1000)
   }
 
   const isBorrower = () => {
-    return userData.address?.toLowerCase() === loan.borrower.toLowerCase()
+    return userData.address?.toLowerCase() === proposal.borrower.toLowerCase()
+  }
+
+  // Private proposals take commit-reveal or anonymous votes; PENDING after voting means reveals are open
+  const canVotePrivately = () => {
+    return userData.isMember &&
+           proposal.isPrivate &&
+           !isBorrower() &&
+           (proposal.status === ProposalStatus.IN_VOTING || proposal.status === ProposalStatus.PENDING)
   }
 
-  const votingProgress = calculatePercentage(loan.votesFor, loan.votesFor + loan.votesAgainst)
-  const quorumProgress = calculatePercentage(loan.votesFor + loan.votesAgainst, loan.totalVotingPower)
+  const votingProgress = calculatePercentage(proposal.votesFor, proposal.votesFor + proposal.votesAgainst)
+  const participation = calculatePercentage(votes.length, daoStats.activeMembers)
+  const votesCast = proposal.votesFor + proposal.votesAgainst
+  const quorumVotes = proposal.quorumVotes ?? daoStats.quorumVotes
+  // A zero quorum means any turnout counts
+  const quorumProgress = quorumVotes > 0 ? Math.min(calculatePercentage(votesCast, quorumVotes), 100) : 100
+  const settledLoans = borrowerStats.completedLoans + borrowerStats.defaultedLoans
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-blue-50">
@@ -206,18 +295,26 @@ export default function LoanDetailsPage() {
                 <div className="flex items-center space-x-2">
                   <BanknotesIcon className="h-8 w-8 text-primary-600" />
                   <h1 className="text-2xl font-bold text-gray-900">
-                    Loan Proposal #{loan.id}
+                    Loan Proposal #{proposal.id}
                   </h1>
-                  {loan.isPrivate && (
+                  {proposal.isPrivate && (
                     <EyeSlashIcon className="h-5 w-5 text-purple-600" title="Private Loan" />
                   )}
                 </div>
-                <div className={`px-3 py-1 rounded-full border text-sm font-medium ${getStatusColor(loan.status)}`}>
+                <div className={`px-3 py-1 rounded-full border text-sm font-medium ${getStatusColor(proposal.status)}`}>
                   <div className="flex items-center space-x-1">
-                    {getStatusIcon(loan.status)}
-                    <span>{PROPOSAL_STATUS_LABELS[loan.status as keyof typeof PROPOSAL_STATUS_LABELS]}</span>
+                    {getStatusIcon(proposal.status)}
+                    <span>{PROPOSAL_STATUS_LABELS[proposal.status as keyof typeof PROPOSAL_STATUS_LABELS]}</span>
                   </div>
                 </div>
+                {loanStanding && (
+                  <div className={`px-3 py-1 rounded-full border text-sm font-medium ${loanStanding.className}`}>
+                    <div className="flex items-center space-x-1">
+                      <ExclamationTriangleIcon className="h-5 w-5" />
+                      <span>{loanStanding.label}</span>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
 
@@ -246,35 +343,37 @@ export default function LoanDetailsPage() {
                     <CurrencyDollarIcon className="h-8 w-8 text-blue-600 mx-auto mb-2" />
                     <p className="text-sm text-gray-600">Amount</p>
                     <p className="text-xl font-bold text-gray-900">
-                      {loan.isPrivate ? 'Private' : `${formatEther(loan.amount)} ETH`}
+                      {proposal.isPrivate ? 'Private' : `${formatEther(proposal.amount)} ETH`}
                     </p>
                   </div>
                   <div className="text-center p-4 bg-purple-50 rounded-lg">
                     <ChartBarIcon className="h-8 w-8 text-purple-600 mx-auto mb-2" />
                     <p className="text-sm text-gray-600">Interest Rate</p>
-                    <p className="text-xl font-bold text-gray-900">{(loan.interestRate / 100).toFixed(2)}%</p>
+                    <p className="text-xl font-bold text-gray-900">{(proposal.interestRate / 100).toFixed(2)}%</p>
                   </div>
                   <div className="text-center p-4 bg-green-50 rounded-lg">
                     <HandThumbUpIcon className="h-8 w-8 text-green-600 mx-auto mb-2" />
                     <p className="text-sm text-gray-600">Votes For</p>
-                    <p className="text-xl font-bold text-green-600">{loan.votesFor}</p>
+                    <p className="text-xl font-bold text-green-600">{proposal.votesFor}</p>
                   </div>
                   <div className="text-center p-4 bg-red-50 rounded-lg">
                     <HandThumbDownIcon className="h-8 w-8 text-red-600 mx-auto mb-2" />
                     <p className="text-sm text-gray-600">Votes Against</p>
-                    <p className="text-xl font-bold text-red-600">{loan.votesAgainst}</p>
+                    <p className="text-xl font-bold text-red-600">{proposal.votesAgainst}</p>
                   </div>
                 </div>
 
                 <div>
                   <h3 className="font-semibold text-gray-900 mb-3">Purpose</h3>
                   <p className="text-gray-700 leading-relaxed">
-                    {loan.isPrivate ? 'This is a private loan. Details are only visible to the borrower and approved members.' : loan.purpose}
+                    {proposal.isPrivate
+                      ? 'This is a private loan. Details are only visible to the borrower and approved members.'
+                      : proposal.purpose || 'The borrower has not published a description. See the supporting documents below.'}
                   </p>
                 </div>
 
                 {/* Voting Progress */}
-                {loan.status === 2 && (
+                {proposal.status === ProposalStatus.IN_VOTING && (
                   <div className="space-y-4">
                     <div>
                       <div className="flex justify-between text-sm text-gray-600 mb-2">
@@ -291,20 +390,33 @@ export default function LoanDetailsPage() {
 
                     <div>
                       <div className="flex justify-between text-sm text-gray-600 mb-2">
-                        <span>Quorum Progress</span>
-                        <span>{quorumProgress}% participation</span>
+                        <span>Participation</span>
+                        <span>{votes.length} of {daoStats.activeMembers} members voted</span>
                       </div>
                       <div className="w-full bg-gray-200 rounded-full h-2">
                         <div 
                           className="bg-blue-500 h-2 rounded-full transition-all"
+                          style={{ width: `${participation}%` }}
+                        />
+                      </div>
+                    </div>
+
+                    <div>
+                      <div className="flex justify-between text-sm text-gray-600 mb-2">
+                        <span>Quorum ({quorumProgress}% reached)</span>
+                        <span>{votesCast} of {quorumVotes} votes needed</span>
+                      </div>
+                      <div className="w-full bg-gray-200 rounded-full h-2">
+                        <div 
+                          className="bg-purple-500 h-2 rounded-full transition-all"
                           style={{ width: `${quorumProgress}%` }}
                         />
                       </div>
                     </div>
 
                     <div className="flex justify-between items-center text-sm text-gray-600">
-                      <span>Voting ends in: {Math.ceil((loan.votingEndTime - Math.floor(Date.now() / 1000)) / 86400)} days</span>
-                      <span>Total votes: {loan.votesFor + loan.votesAgainst}</span>
+                      <span>Voting ends in: {Math.ceil((proposal.votingEndTime - Math.floor(Date.now() / 1000)) / 86400)} days</span>
+                      <span>Total votes: {votesCast}</span>
                     </div>
                   </div>
                 )}
@@ -344,18 +456,152 @@ export default function LoanDetailsPage() {
               </Card>
             )}
 
+            {canVotePrivately() && proposal.isAnonymous && (
+              <AnonymousVoting
+                proposalId={proposal.id.toString()}
+                proposalTitle={`Loan Proposal #${proposal.id}`}
+                votingEndTime={proposal.votingEndTime}
+                onVoteCast={() => toast.success('Anonymous vote cast')}
+                onError={(message) => toast.error(message)}
+              />
+            )}
+
+            {canVotePrivately() && !proposal.isAnonymous && userData.address && (
+              <PrivateVoting
+                proposalId={proposal.id.toString()}
+                proposalTitle={`Loan Proposal #${proposal.id}`}
+                voterAddress={userData.address}
+                votingEndTime={proposal.votingEndTime}
+                revealEndTime={proposal.revealEndTime}
+                votingKey={votingKey}
+                onVoteSubmitted={() => toast.success('Private vote committed')}
+                onVoteRevealed={() => toast.success('Private vote revealed')}
+                onError={(message) => toast.error(message)}
+              />
+            )}
+
+            {/* Repayment Schedule */}
+            {loan && schedule && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Repayment Schedule</CardTitle>
+                  <CardDescription>
+                    {schedule.installmentCount} installment{schedule.installmentCount === 1 ? '' : 's'} of{' '}
+                    {formatEther(schedule.installmentAmount)} ETH, every {formatDuration(schedule.installmentInterval)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {loan.status === LoanStatus.DEFAULTED && (
+                    <div className="flex items-start space-x-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                      <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                      <p>
+                        This loan was marked as defaulted and the borrower has been suspended.
+                        {details.recoveredAmount !== null && (
+                          <> {formatEther(details.recoveredAmount)} ETH was recovered from their stake.</>
+                        )}
+                      </p>
+                    </div>
+                  )}
+
+                  {isInDefault && (
+                    <div className="flex items-center justify-between p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                      <div className="flex items-center space-x-3">
+                        <ExclamationTriangleIcon className="h-5 w-5 flex-shrink-0" />
+                        <span>The installment due {formatDate(schedule.nextDueDate)} is past its grace period.</span>
+                      </div>
+                      {(userData.isAdmin || daoStats.features.autoLiquidation) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={handleMarkDefaulted}
+                          disabled={isMarkingDefault}
+                          className="text-red-600 border-red-300 hover:bg-red-100"
+                        >
+                          {isMarkingDefault ? 'Marking...' : 'Mark as Defaulted'}
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
+                  <div>
+                    <div className="flex justify-between text-sm text-gray-600 mb-2">
+                      <span>{formatEther(loan.amountPaid)} of {formatEther(totalRepayment)} ETH repaid</span>
+                      <span>{repaymentProgress}%</span>
+                    </div>
+                    <div className="w-full bg-gray-200 rounded-full h-3">
+                      <div
+                        className="bg-green-500 h-3 rounded-full transition-all"
+                        style={{ width: `${repaymentProgress}%` }}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-3 gap-4 text-sm">
+                    <div>
+                      <p className="text-gray-600">Remaining</p>
+                      <p className="font-medium">{formatEther(schedule.remainingBalance)} ETH</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Next Due</p>
+                      <p className="font-medium">{schedule.nextDueDate > 0 ? formatDate(schedule.nextDueDate) : '—'}</p>
+                    </div>
+                    <div>
+                      <p className="text-gray-600">Due Amount</p>
+                      <p className="font-medium">{formatEther(schedule.nextInstallmentAmount)} ETH</p>
+                    </div>
+                  </div>
+
+                  <div className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                    {installments.map(installment => {
+                      const isOverdue = !installment.isPaid && installment.dueDate < now
+                      return (
+                        <div key={installment.number} className="flex items-center justify-between px-4 py-2 text-sm">
+                          <div className="flex items-center space-x-3">
+                            {installment.isPaid ? (
+                              <CheckCircleIcon className="h-5 w-5 text-green-500" />
+                            ) : isOverdue ? (
+                              <ExclamationTriangleIcon className="h-5 w-5 text-red-500" />
+                            ) : (
+                              <ClockIcon className={`h-5 w-5 ${installment.isNext ? 'text-blue-500' : 'text-gray-400'}`} />
+                            )}
+                            <span className="font-medium">Installment {installment.number}</span>
+                            <span className="text-gray-600">{formatDate(installment.dueDate)}</span>
+                          </div>
+                          <div className="flex items-center space-x-3">
+                            <span>{formatEther(installment.amount)} ETH</span>
+                            <span className={`text-xs font-medium ${
+                              installment.isPaid ? 'text-green-600' : isOverdue ? 'text-red-600' : 'text-gray-500'
+                            }`}>
+                              {installment.isPaid ? 'Paid' : isOverdue ? 'Overdue' : installment.isNext ? 'Next' : 'Upcoming'}
+                            </span>
+                          </div>
+                        </div>
+                      )
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Loan Repayment for Borrower */}
-            {isBorrower() && loan.status === 3 && !loan.isRepaid && (
+            {isBorrower() && loan?.status === LoanStatus.ACTIVE && (
               <Card>
                 <CardHeader>
                   <CardTitle>Loan Repayment</CardTitle>
                   <CardDescription>
-                    Your loan has been approved. You can make repayments here.
+                    Loan #{loan.id} is due on {formatDate(loan.endTime)}. Pay any amount up to the remaining balance;
+                    payments count towards the next installment.
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {!showRepayment ? (
-                    <Button onClick={() => setShowRepayment(true)} className="w-full">
+                    <Button
+                      onClick={() => {
+                        setRepaymentAmount(formatUnits(schedule?.nextInstallmentAmount ?? totalRepayment - loan.amountPaid, 18))
+                        setShowRepayment(true)
+                      }}
+                      className="w-full"
+                    >
                       Make Repayment
                     </Button>
                   ) : (
@@ -373,6 +619,24 @@ export default function LoanDetailsPage() {
                           value={repaymentAmount}
                           onChange={(e) => setRepaymentAmount(e.target.value)}
                         />
+                        {schedule && (
+                          <div className="flex justify-between text-xs text-gray-500 mt-1">
+                            <button
+                              type="button"
+                              className="hover:text-gray-900"
+                              onClick={() => setRepaymentAmount(formatUnits(schedule.nextInstallmentAmount, 18))}
+                            >
+                              Next installment: {formatEther(schedule.nextInstallmentAmount)} ETH
+                            </button>
+                            <button
+                              type="button"
+                              className="hover:text-gray-900"
+                              onClick={() => setRepaymentAmount(formatUnits(schedule.remainingBalance, 18))}
+                            >
+                              Full balance: {formatEther(schedule.remainingBalance)} ETH
+                            </button>
+                          </div>
+                        )}
                       </div>
                       <div className="flex space-x-2">
                         <Button
@@ -397,7 +661,7 @@ export default function LoanDetailsPage() {
             )}
 
             {/* Documents */}
-            {loan.documents.length > 0 && (
+            {documents.length > 0 && (
               <Card>
                 <CardHeader>
                   <CardTitle>Supporting Documents</CardTitle>
@@ -407,23 +671,113 @@ export default function LoanDetailsPage() {
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
-                    {loan.documents.map((doc, index) => (
-                      <div key={index} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+                    {documents.map((doc) => (
+                      <div key={doc.hash} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
                         <div className="flex items-center space-x-3">
                           <DocumentTextIcon className="h-8 w-8 text-blue-600" />
                           <div>
                             <p className="font-medium text-gray-900">{doc.name}</p>
-                            <p className="text-sm text-gray-600">
-                              {doc.size} • Uploaded {formatDate(doc.uploadedAt)}
-                            </p>
+                            <p className="text-sm text-gray-600 font-mono">{formatAddress(doc.hash, 10, 6)}</p>
                           </div>
                         </div>
-                        <Button variant="outline" size="sm">
-                          <EyeIcon className="h-4 w-4 mr-2" />
-                          View
-                        </Button>
+                        <a href={`${IPFS_GATEWAY}${doc.hash}`} target="_blank" rel="noopener noreferrer">
+                          <Button variant="outline" size="sm">
+                            <EyeIcon className="h-4 w-4 mr-2" />
+                            View
+                          </Button>
+                        </a>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Signed Documents */}
+            {(signedDocuments.length > 0 || isBorrower()) && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <CardTitle>Signed Documents</CardTitle>
+                      <CardDescription>
+                        File lists signed by the borrower and anchored on-chain; signatures are checked before anything is shown
+                      </CardDescription>
+                    </div>
+                    {isBorrower() && (
+                      <Button variant="outline" size="sm" onClick={() => setShowAttach(!showAttach)}>
+                        <PaperClipIcon className="h-4 w-4 mr-2" />
+                        Attach
+                      </Button>
+                    )}
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {showAttach && (
+                      <DocumentUpload
+                        multiple
+                        accept=".pdf,.doc,.docx,.txt,.jpg,.jpeg,.png"
+                        maxSize={5}
+                        allowEncryption={proposal.isPrivate}
+                        showPermissions={proposal.isPrivate}
+                        owner={recipient}
+                        resolveKey={resolveKey}
+                        onUpload={handleAttachDocuments}
+                        onError={(error) => toast.error(error)}
+                        className="border border-gray-200 rounded-lg p-4"
+                      />
+                    )}
+                    {signedDocuments.length === 0 && !showAttach && (
+                      <p className="text-sm text-gray-600">No signed documents are attached yet.</p>
+                    )}
+                    {signedDocuments.map(({ anchor, manifest, error }, index) => (
+                      <div key={`${anchor.cid}-${index}`} className="p-3 border border-gray-200 rounded-lg">
+                        <div className="flex items-center justify-between mb-2">
+                          <p className="text-sm text-gray-600">
+                            Signed by {formatAddress(anchor.signer)} on {formatDate(anchor.anchoredAt)}
+                          </p>
+                          {manifest ? (
+                            <span className="flex items-center text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded px-2 py-1">
+                              <ShieldCheckIcon className="h-4 w-4 mr-1" />
+                              Verified
+                            </span>
+                          ) : (
+                            <span className="flex items-center text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded px-2 py-1">
+                              <ExclamationTriangleIcon className="h-4 w-4 mr-1" />
+                              Invalid
+                            </span>
+                          )}
+                        </div>
+                        {error && <p className="text-sm text-red-600">{error}</p>}
+                        {manifest?.files.map((file) => (
+                          <div key={file.cid} className="flex items-center justify-between py-2">
+                            <div className="flex items-center space-x-3">
+                              <DocumentTextIcon className="h-8 w-8 text-blue-600" />
+                              <div>
+                                <p className="font-medium text-gray-900">{file.name}</p>
+                                <p className="text-sm text-gray-600 font-mono">{formatAddress(file.cid, 10, 6)}</p>
+                              </div>
+                            </div>
+                            <Button variant="outline" size="sm" onClick={() => setViewing({ manifest, file, signer: anchor.signer })}>
+                              <EyeIcon className="h-4 w-4 mr-2" />
+                              View
+                            </Button>
+                          </div>
+                        ))}
                       </div>
                     ))}
+                    {viewing && (
+                      <DocumentViewer
+                        document={documentFromManifest(viewing.manifest, viewing.file, isMockStorage())}
+                        userAddress={userData.address || ''}
+                        encryptionKey={documentKey ?? undefined}
+                        manifest={viewing.manifest}
+                        manifestSigner={viewing.signer}
+                        onClose={() => setViewing(null)}
+                        className="border border-gray-200"
+                      />
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -436,8 +790,11 @@ export default function LoanDetailsPage() {
               </CardHeader>
               <CardContent>
                 <div className="space-y-4">
-                  {loan.loanHistory.map((event, index) => (
-                    <div key={index} className="flex items-start space-x-3">
+                  {history.length === 0 && (
+                    <p className="text-sm text-gray-600">No on-chain activity found for this proposal yet.</p>
+                  )}
+                  {history.map((event) => (
+                    <div key={`${event.transactionHash}-${event.action}`} className="flex items-start space-x-3">
                       <div className="w-2 h-2 bg-blue-500 rounded-full mt-2"></div>
                       <div>
                         <p className="font-medium text-gray-900">{event.action}</p>
@@ -449,6 +806,35 @@ export default function LoanDetailsPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Vote History */}
+            {votes.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Votes</CardTitle>
+                  <CardDescription>
+                    {votes.length} member{votes.length === 1 ? '' : 's'} voted on this proposal
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {votes.map((vote) => (
+                      <div key={vote.transactionHash} className="flex items-center justify-between text-sm">
+                        <div className="flex items-center space-x-2">
+                          {vote.support ? (
+                            <HandThumbUpIcon className="h-4 w-4 text-green-600" />
+                          ) : (
+                            <HandThumbDownIcon className="h-4 w-4 text-red-600" />
+                          )}
+                          <span className="font-medium text-gray-900">{formatAddress(vote.voter)}</span>
+                        </div>
+                        <span className="text-gray-500">{formatDate(vote.timestamp)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* Sidebar */}
@@ -465,33 +851,43 @@ export default function LoanDetailsPage() {
                 <div className="text-center pb-4 border-b">
                   <div className="w-16 h-16 bg-gradient-to-br from-primary-500 to-primary-600 rounded-full flex items-center justify-center mx-auto mb-3">
                     <span className="text-white font-bold text-xl">
-                      {loan.borrower.substring(2, 4).toUpperCase()}
+                      {proposal.borrower.substring(2, 4).toUpperCase()}
                     </span>
                   </div>
-                  <p className="font-medium text-gray-900">{formatAddress(loan.borrower)}</p>
-                  <p className="text-sm text-gray-600">Member since {formatDate(loan.borrowerProfile.memberSince)}</p>
+                  <p className="font-medium text-gray-900">{formatAddress(proposal.borrower)}</p>
+                  <p className="text-sm text-gray-600">Member since {formatDate(borrowerStats.memberSince)}</p>
                 </div>
 
                 <div className="space-y-3">
                   <div className="flex justify-between">
-                    <span className="text-sm text-gray-600">Reputation Score</span>
-                    <span className="font-medium text-green-600">{loan.borrowerProfile.reputation}/100</span>
+                    <span className="text-sm text-gray-600">Repayment Rate</span>
+                    <span className="font-medium text-green-600">
+                      {settledLoans > 0 ? `${calculatePercentage(borrowerStats.completedLoans, settledLoans)}%` : 'N/A'}
+                    </span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm text-gray-600">Total Loans</span>
-                    <span className="font-medium">{loan.borrowerProfile.totalLoans}</span>
+                    <span className="font-medium">{borrowerStats.totalLoans}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-sm text-gray-600">Active</span>
+                    <span className="font-medium text-blue-600">{borrowerStats.activeLoans}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm text-gray-600">Completed</span>
-                    <span className="font-medium text-green-600">{loan.borrowerProfile.completedLoans}</span>
+                    <span className="font-medium text-green-600">{borrowerStats.completedLoans}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm text-gray-600">Defaulted</span>
-                    <span className="font-medium text-red-600">{loan.borrowerProfile.defaultedLoans}</span>
+                    <span className="font-medium text-red-600">{borrowerStats.defaultedLoans}</span>
                   </div>
                   <div className="flex justify-between">
                     <span className="text-sm text-gray-600">Avg. Repayment</span>
-                    <span className="font-medium">{loan.borrowerProfile.averageRepaymentTime}</span>
+                    <span className="font-medium">
+                      {borrowerStats.averageRepaymentTime !== undefined
+                        ? formatDuration(borrowerStats.averageRepaymentTime)
+                        : 'N/A'}
+                    </span>
                   </div>
                 </div>
               </CardContent>
@@ -508,20 +904,34 @@ export default function LoanDetailsPage() {
               <CardContent className="space-y-3">
                 <div className="flex justify-between items-center text-sm">
                   <span className="text-gray-600">Created</span>
-                  <span className="font-medium">{formatDate(loan.creationTime)}</span>
-                </div>
-                <div className="flex justify-between items-center text-sm">
-                  <span className="text-gray-600">Editing Ended</span>
-                  <span className="font-medium">{formatDate(loan.editEndTime)}</span>
+                  <span className="font-medium">{formatDate(proposal.creationTime)}</span>
                 </div>
                 <div className="flex justify-between items-center text-sm">
-                  <span className="text-gray-600">Voting Started</span>
-                  <span className="font-medium">{formatDate(loan.votingStartTime)}</span>
+                  <span className="text-gray-600">Editing Ends</span>
+                  <span className="font-medium">{formatDate(proposal.votingStartTime)}</span>
                 </div>
                 <div className="flex justify-between items-center text-sm">
                   <span className="text-gray-600">Voting Ends</span>
-                  <span className="font-medium">{formatDate(loan.votingEndTime)}</span>
+                  <span className="font-medium">{formatDate(proposal.votingEndTime)}</span>
                 </div>
+                {loan && (
+                  <>
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-gray-600">Disbursed</span>
+                      <span className="font-medium">{formatDate(loan.startTime)}</span>
+                    </div>
+                    {schedule && schedule.nextDueDate > 0 && (
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="text-gray-600">Next Installment</span>
+                        <span className="font-medium">{formatDate(schedule.nextDueDate)}</span>
+                      </div>
+                    )}
+                    <div className="flex justify-between items-center text-sm">
+                      <span className="text-gray-600">Repayment Due</span>
+                      <span className="font-medium">{formatDate(loan.endTime)}</span>
+                    </div>
+                  </>
+                )}
               </CardContent>
             </Card>
 
@@ -534,15 +944,26 @@ export default function LoanDetailsPage() {
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-3">
-                <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
-                  <p className="text-sm font-medium text-green-800">Low Risk</p>
-                  <p className="text-xs text-green-600">Borrower has excellent repayment history</p>
-                </div>
+                {borrowerStats.defaultedLoans > 0 ? (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <p className="text-sm font-medium text-red-800">High Risk</p>
+                    <p className="text-xs text-red-600">Borrower has defaulted on a previous loan</p>
+                  </div>
+                ) : borrowerStats.completedLoans > 0 ? (
+                  <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+                    <p className="text-sm font-medium text-green-800">Low Risk</p>
+                    <p className="text-xs text-green-600">Borrower has repaid every previous loan</p>
+                  </div>
+                ) : (
+                  <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
+                    <p className="text-sm font-medium text-yellow-800">Unrated</p>
+                    <p className="text-xs text-yellow-600">Borrower has no completed loans yet</p>
+                  </div>
+                )}
                 <div className="text-xs text-gray-600 space-y-1">
-                  <p>• Established member with good reputation</p>
-                  <p>• No previous loan defaults</p>
-                  <p>• Reasonable loan amount for stated purpose</p>
-                  <p>• Supporting documentation provided</p>
+                  <p>• {borrowerStats.completedLoans} of {borrowerStats.totalLoans} previous loans repaid</p>
+                  <p>• {borrowerStats.defaultedLoans === 0 ? 'No' : borrowerStats.defaultedLoans} previous loan defaults</p>
+                  <p>• {documents.length > 0 ? 'Supporting documentation provided' : 'No supporting documentation'}</p>
                 </div>
               </CardContent>
             </Card>
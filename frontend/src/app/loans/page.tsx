@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useMemo } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import Link from 'next/link'
@@ -17,124 +17,56 @@ import {
   ArrowLeft,
   FileText,
 } from 'lucide-react'
-import { useUserData, useVoting } from '@/hooks/useDAO'
+import { useUserData, useVoting, useLoanProposals } from '@/hooks/useDAO'
 import { formatEther, formatDate, formatAddress, calculatePercentage } from '@/lib/utils'
 import { PROPOSAL_STATUS_LABELS } from '@/constants'
+import { ProposalStatus } from '@/types/dao'
+import type { LoanProposal } from '@/types/dao'
 import toast from 'react-hot-toast'
 
-// Mock data for loan proposals - in real app this would come from contract
-const mockLoanProposals = [
-  {
-    id: 1,
-    borrower: '0x742d35Cc7e5e9E8A8c9A8E8fD0E8fD0E8fD0E8fD',
-    amount: BigInt('5000000000000000000'), // 5 ETH
-    purpose: 'Expanding my DeFi development startup to build new yield farming protocols',
-    interestRate: 850, // 8.5% in basis points
-    status: 2, // IN_VOTING
-    votesFor: 12,
-    votesAgainst: 3,
-    creationTime: Math.floor(Date.now() / 1000) - 86400 * 2, // 2 days ago
-    votingStartTime: Math.floor(Date.now() / 1000) - 86400, // 1 day ago
-    votingEndTime: Math.floor(Date.now() / 1000) + 86400 * 6, // 6 days from now
-    isPrivate: false,
-    documentHash: 'QmYwAPJzv5CZsnAzt8auVvzgWiVwiWp2cGVJqRDJXjdMJ',
-    hasVoted: false,
-  },
-  {
-    id: 2,
-    borrower: '0x8ba1f109551bD432803012645Hac136c9.dABCE',
-    amount: BigInt('2500000000000000000'), // 2.5 ETH
-    purpose: 'Working capital for my NFT marketplace platform development',
-    interestRate: 750, // 7.5% in basis points
-    status: 1, // IN_EDITING
-    votesFor: 0,
-    votesAgainst: 0,
-    creationTime: Math.floor(Date.now() / 1000) - 86400, // 1 day ago
-    votingStartTime: 0,
-    votingEndTime: 0,
-    isPrivate: false,
-    documentHash: '',
-    hasVoted: false,
-  },
-  {
-    id: 3,
-    borrower: '0x123456789abcdef123456789abcdef123456789a',
-    amount: BigInt('1000000000000000000'), // 1 ETH (placeholder for private)
-    purpose: 'Confidential business expansion',
-    interestRate: 950, // 9.5% in basis points
-    status: 2, // IN_VOTING
-    votesFor: 8,
-    votesAgainst: 7,
-    creationTime: Math.floor(Date.now() / 1000) - 86400 * 3, // 3 days ago
-    votingStartTime: Math.floor(Date.now() / 1000) - 86400 * 2, // 2 days ago
-    votingEndTime: Math.floor(Date.now() / 1000) + 86400 * 5, // 5 days from now
-    isPrivate: true,
-    documentHash: '',
-    hasVoted: true,
-  },
-  {
-    id: 4,
-    borrower: '0xdef123456789abcdef123456789abcdef12345678',
-    amount: BigInt('7500000000000000000'), // 7.5 ETH
-    purpose: 'Purchasing mining equipment for sustainable crypto mining operation',
-    interestRate: 900, // 9% in basis points
-    status: 3, // APPROVED
-    votesFor: 18,
-    votesAgainst: 2,
-    creationTime: Math.floor(Date.now() / 1000) - 86400 * 10, // 10 days ago
-    votingStartTime: Math.floor(Date.now() / 1000) - 86400 * 7, // 7 days ago
-    votingEndTime: Math.floor(Date.now() / 1000) - 86400, // 1 day ago
-    isPrivate: false,
-    documentHash: 'QmXoYpZvQeFiUKBNGYZ8JZ8XoYpZvQeFiUKBNGYZ8JZ8',
-    hasVoted: true,
-  },
-]
+const STATUS_FILTERS: Record<string, ProposalStatus> = {
+  editing: ProposalStatus.IN_EDITING,
+  voting: ProposalStatus.IN_VOTING,
+  approved: ProposalStatus.APPROVED,
+  rejected: ProposalStatus.REJECTED,
+  expired: ProposalStatus.EXPIRED,
+}
 
 export default function LoansPage() {
   const userData = useUserData()
   const { voteOnProposal, isPending } = useVoting()
   
-  const [proposals] = useState(mockLoanProposals)
-  const [filteredProposals, setFilteredProposals] = useState(mockLoanProposals)
   const [filters, setFilters] = useState({
     status: 'all',
     privacy: 'all',
     search: '',
   })
 
-  useEffect(() => {
-    let filtered = proposals
-
-    // Filter by status
-    if (filters.status !== 'all') {
-      const statusMap = {
-        'editing': 1,
-        'voting': 2,
-        'approved': 3,
-        'rejected': 4,
-      }
-      filtered = filtered.filter(p => p.status === statusMap[filters.status as keyof typeof statusMap])
-    }
-
-    // Filter by privacy
-    if (filters.privacy !== 'all') {
-      filtered = filtered.filter(p => {
-        if (filters.privacy === 'public') return !p.isPrivate
-        if (filters.privacy === 'private') return p.isPrivate
-        return true
-      })
-    }
-
-    // Search filter
-    if (filters.search) {
-      filtered = filtered.filter(p => 
-        p.purpose.toLowerCase().includes(filters.search.toLowerCase()) ||
-        p.borrower.toLowerCase().includes(filters.search.toLowerCase())
-      )
-    }
+  const {
+    proposals,
+    totalProposals,
+    page,
+    hasMore,
+    hasPrevious,
+    nextPage,
+    previousPage,
+    hasVoted,
+    isLoading,
+    error,
+  } = useLoanProposals({
+    status: STATUS_FILTERS[filters.status],
+    isPrivate: filters.privacy === 'all' ? undefined : filters.privacy === 'private',
+  })
 
-    setFilteredProposals(filtered)
-  }, [filters, proposals])
+  // Search only applies to the loaded page; status and privacy are filtered while paging the contract
+  const filteredProposals = useMemo(() => {
+    if (!filters.search) return proposals
+    const search = filters.search.toLowerCase()
+    return proposals.filter(p =>
+      p.purpose.toLowerCase().includes(search) ||
+      p.borrower.toLowerCase().includes(search)
+    )
+  }, [proposals, filters.search])
 
   const handleVote = async (proposalId: number, support: boolean) => {
     try {
@@ -156,6 +88,8 @@ export default function LoansPage() {
         return <CheckCircle className="h-5 w-5 text-green-500" />
       case 4: // REJECTED
         return <XCircle className="h-5 w-5 text-red-500" />
+      case 7: // EXPIRED
+        return <XCircle className="h-5 w-5 text-gray-500" />
       default:
         return <Clock className="h-5 w-5 text-gray-500" />
     }
@@ -171,11 +105,11 @@ export default function LoansPage() {
     }
   }
 
-  const canVote = (proposal: typeof mockLoanProposals[0]) => {
+  const canVote = (proposal: LoanProposal) => {
     return userData.isMember && 
-           proposal.status === 2 && 
-           !proposal.hasVoted && 
-           proposal.borrower !== userData.address &&
+           proposal.status === ProposalStatus.IN_VOTING && 
+           !hasVoted(proposal.id) && 
+           proposal.borrower.toLowerCase() !== userData.address?.toLowerCase() &&
            proposal.votingEndTime > Math.floor(Date.now() / 1000)
   }
 
@@ -237,6 +171,7 @@ export default function LoansPage() {
                   <option value="voting">In Voting</option>
                   <option value="approved">Approved</option>
                   <option value="rejected">Rejected</option>
+                  <option value="expired">Expired</option>
                 </select>
               </div>
 
@@ -285,7 +220,7 @@ export default function LoansPage() {
                   </div>
                   <div>
                     <p className="text-sm font-medium text-gray-600">Total Proposals</p>
-                    <p className="text-2xl font-bold text-gray-900">{proposals.length}</p>
+                    <p className="text-2xl font-bold text-gray-900">{totalProposals}</p>
                   </div>
                 </div>
               </CardContent>
@@ -343,7 +278,22 @@ export default function LoansPage() {
 
         {/* Proposals List */}
         <div className="space-y-6">
-          {filteredProposals.length === 0 ? (
+          {isLoading ? (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <Clock className="h-12 w-12 text-gray-400 mx-auto mb-4 animate-pulse" />
+                <p className="text-gray-600">Loading proposals from the DAO contract...</p>
+              </CardContent>
+            </Card>
+          ) : error ? (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <XCircle className="h-12 w-12 text-red-400 mx-auto mb-4" />
+                <h3 className="text-lg font-medium text-gray-900 mb-2">Unable to load proposals</h3>
+                <p className="text-gray-600">{error.message}</p>
+              </CardContent>
+            </Card>
+          ) : filteredProposals.length === 0 ? (
             <Card>
               <CardContent className="p-12 text-center">
                 <Banknote className="h-12 w-12 text-gray-400 mx-auto mb-4" />
@@ -370,10 +320,10 @@ export default function LoansPage() {
                             Loan Proposal #{proposal.id}
                           </CardTitle>
                           {proposal.isPrivate && (
-                            <EyeOff className="h-4 w-4 text-purple-600" title="Private Loan" />
+                            <EyeOff className="h-4 w-4 text-purple-600" aria-label="Private Loan" />
                           )}
                           {proposal.documentHash && (
-                            <FileText className="h-4 w-4 text-blue-600" title="Has Documents" />
+                            <FileText className="h-4 w-4 text-blue-600" aria-label="Has Documents" />
                           )}
                         </div>
                         <CardDescription>
@@ -412,7 +362,7 @@ export default function LoansPage() {
                   <div>
                     <p className="text-sm text-gray-600 mb-2">Purpose</p>
                     <p className="text-gray-900">
-                      {proposal.isPrivate ? 'Details are private' : proposal.purpose}
+                      {proposal.isPrivate ? 'Details are private' : proposal.purpose || 'See the attached proposal documents'}
                     </p>
                   </div>
 
@@ -479,7 +429,7 @@ export default function LoansPage() {
                       </div>
                     )}
 
-                    {proposal.hasVoted && (
+                    {hasVoted(proposal.id) && (
                       <div className="text-sm text-gray-600 flex items-center">
                         <CheckCircle className="h-4 w-4 text-green-500 mr-1" />
                         You have voted
@@ -491,6 +441,19 @@ export default function LoansPage() {
             ))
           )}
         </div>
+
+        {/* Pagination */}
+        {(hasPrevious || hasMore) && (
+          <div className="flex items-center justify-between pt-8">
+            <Button variant="outline" size="sm" onClick={previousPage} disabled={!hasPrevious || isLoading}>
+              Previous
+            </Button>
+            <span className="text-sm text-gray-600">Page {page}</span>
+            <Button variant="outline" size="sm" onClick={nextPage} disabled={!hasMore || isLoading}>
+              Next
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   )
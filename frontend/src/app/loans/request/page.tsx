@@ -16,7 +16,7 @@ import {
   LockClosedIcon,
   DocumentIcon
 } from '@heroicons/react/24/outline'
-import { useDAOStats, useUserData, useLoanRequest } from '@/hooks/useDAO'
+import { useDAOStats, useUserData, useLoanRequest, useEncryptionKeys } from '@/hooks/useDAO'
 import { formatEther, parseEther, generateCommitment } from '@/lib/utils'
 import { DAO_CONSTANTS } from '@/constants'
 import dynamic from 'next/dynamic'
@@ -46,6 +46,7 @@ export default function RequestLoanPage() {
   const stats = useDAOStats()
   const userData = useUserData()
   const { requestLoan, isPending, error, isSuccess } = useLoanRequest()
+  const { recipient, resolveKey } = useEncryptionKeys()
   
   const [formData, setFormData] = useState({
     amount: '',
@@ -408,6 +409,8 @@ export default function RequestLoanPage() {
                     allowEncryption={formData.isPrivate}
                     requireEncryption={false}
                     showPermissions={formData.isPrivate}
+                    owner={recipient}
+                    resolveKey={resolveKey}
                     onUpload={(documents) => {
                       setUploadedDocuments(documents)
                       // Update document hash with first document's hash
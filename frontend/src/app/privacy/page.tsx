@@ -7,14 +7,18 @@ import {
   EyeIcon, 
   EyeSlashIcon,
   LockClosedIcon,
-  UserIcon,
   DocumentIcon,
   CogIcon,
   ExclamationTriangleIcon,
   CheckCircleIcon,
   InformationCircleIcon
 } from '@heroicons/react/24/outline'
-import { useUserData } from '@/hooks/useDAO'
+import type { Hex } from 'viem'
+import toast from 'react-hot-toast'
+import { useEncryptionKeys, useUserData } from '@/hooks/useDAO'
+import { KEY_PURPOSES } from '@/lib/keys'
+import type { KeyPurpose, ManagedKey } from '@/lib/keys'
+import { formatAddress } from '@/lib/utils'
 
 interface PrivacySettings {
   encryptDocumentsByDefault: boolean
@@ -31,13 +35,9 @@ interface PrivacySettings {
   }
 }
 
-interface EncryptionKey {
-  id: string
-  name: string
-  type: 'document' | 'voting' | 'messaging'
-  createdAt: Date
-  lastUsed?: Date
-  strength: 'weak' | 'medium' | 'strong'
+const KEY_NAMES: Record<KeyPurpose, string> = {
+  document: 'Document Key',
+  voting: 'Voting Key',
 }
 
 export default function PrivacyPage() {
@@ -58,35 +58,13 @@ export default function PrivacyPage() {
     }
   })
   
-  const [encryptionKeys, setEncryptionKeys] = useState<EncryptionKey[]>([
-    {
-      id: 'key-1',
-      name: 'Primary Document Key',
-      type: 'document',
-      createdAt: new Date('2024-01-15'),
-      lastUsed: new Date('2024-08-30'),
-      strength: 'strong'
-    },
-    {
-      id: 'key-2', 
-      name: 'Voting Encryption',
-      type: 'voting',
-      createdAt: new Date('2024-02-01'),
-      lastUsed: new Date('2024-08-29'),
-      strength: 'strong'
-    },
-    {
-      id: 'key-3',
-      name: 'Messaging Key',
-      type: 'messaging',
-      createdAt: new Date('2024-03-10'),
-      strength: 'medium'
-    }
-  ])
-  
-  const [newKeyName, setNewKeyName] = useState('')
-  const [newKeyType, setNewKeyType] = useState<'document' | 'voting' | 'messaging'>('document')
-  const [showNewKeyForm, setShowNewKeyForm] = useState(false)
+  const encryptionKeys = useEncryptionKeys()
+  const [keyAction, setKeyAction] = useState<string | null>(null)
+  const [ensName, setEnsName] = useState('')
+  const [recoverPurpose, setRecoverPurpose] = useState<KeyPurpose>('document')
+  const [recoverVersion, setRecoverVersion] = useState('1')
+  const [backupPassword, setBackupPassword] = useState('')
+  const [restoreFile, setRestoreFile] = useState<File | null>(null)
   const [selectedKeyId, setSelectedKeyId] = useState<string | null>(null)
   
   // Mock privacy stats
@@ -113,47 +91,83 @@ export default function PrivacyPage() {
     }))
   }
 
-  const generateNewKey = () => {
-    if (!newKeyName.trim()) return
-    
-    const newKey: EncryptionKey = {
-      id: `key-${Date.now()}`,
-      name: newKeyName,
-      type: newKeyType,
-      createdAt: new Date(),
-      strength: 'strong'
+  // Runs one key action at a time and reports its outcome
+  const runKeyAction = async (name: string, action: () => Promise<unknown>, success: string) => {
+    setKeyAction(name)
+    try {
+      await action()
+      toast.success(success)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Key operation failed')
+    } finally {
+      setKeyAction(null)
     }
-    
-    setEncryptionKeys(prev => [...prev, newKey])
-    setNewKeyName('')
-    setShowNewKeyForm(false)
   }
 
-  const deleteKey = (keyId: string) => {
-    setEncryptionKeys(prev => prev.filter(key => key.id !== keyId))
-    if (selectedKeyId === keyId) {
-      setSelectedKeyId(null)
-    }
+  const deleteKey = (key: ManagedKey) => {
+    const warning = key.active
+      ? 'Delete your active key? Documents shared to it cannot be opened until you recover it or restore a backup.'
+      : 'Delete this rotated key? Documents shared to it before the rotation cannot be opened without it.'
+    if (!window.confirm(warning)) return
+    if (selectedKeyId === key.id) setSelectedKeyId(null)
+    runKeyAction(`delete-${key.id}`, () => encryptionKeys.remove(key.id), 'Key deleted')
+  }
+
+  const deleteAllKeys = () => {
+    if (!window.confirm('Delete every encryption key stored in this browser? Make a backup first.')) return
+    runKeyAction(
+      'delete-all',
+      () => Promise.all(encryptionKeys.keys.map(key => encryptionKeys.remove(key.id))),
+      'All encryption keys deleted'
+    )
   }
 
+  const downloadBackup = () =>
+    runKeyAction(
+      'backup',
+      async () => {
+        const backup = await encryptionKeys.createBackup(backupPassword)
+        const url = URL.createObjectURL(new Blob([backup], { type: 'application/json' }))
+        const link = document.createElement('a')
+        link.href = url
+        link.download = `dao-encryption-keys-${userData.address}.json`
+        link.click()
+        URL.revokeObjectURL(url)
+        setBackupPassword('')
+      },
+      'Backup downloaded'
+    )
+
+  const restoreBackup = () =>
+    runKeyAction(
+      'restore',
+      async () => {
+        if (!restoreFile) throw new Error('Choose a backup file to restore')
+        await encryptionKeys.restoreBackup(await restoreFile.text(), backupPassword)
+        setRestoreFile(null)
+        setBackupPassword('')
+      },
+      'Encryption keys restored'
+    )
+
+  const publishToENS = (publicKey: Hex) =>
+    runKeyAction(
+      'ens',
+      async () => {
+        if (!ensName.trim()) throw new Error('Enter the ENS name to publish your key under')
+        await encryptionKeys.publishToENS(ensName.trim(), publicKey)
+      },
+      'ENS record update submitted'
+    )
+
   const getKeyIcon = (type: string) => {
     switch (type) {
       case 'document': return <DocumentIcon className="h-4 w-4" />
       case 'voting': return <ShieldCheckIcon className="h-4 w-4" />
-      case 'messaging': return <UserIcon className="h-4 w-4" />
       default: return <KeyIcon className="h-4 w-4" />
     }
   }
 
-  const getStrengthColor = (strength: string) => {
-    switch (strength) {
-      case 'strong': return 'text-green-600'
-      case 'medium': return 'text-yellow-600'
-      case 'weak': return 'text-red-600'
-      default: return 'text-gray-600'
-    }
-  }
-
   const getPrivacyScoreColor = (score: number) => {
     if (score >= 80) return 'text-green-600'
     if (score >= 60) return 'text-yellow-600'
@@ -477,128 +491,199 @@ export default function PrivacyPage() {
     </div>
   )
 
-  const renderKeysTab = () => (
-    <div className="space-y-6">
-      {/* Key Management Header */}
-      <div className="flex items-center justify-between">
-        <div>
-          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Encryption Keys</h3>
-          <p className="text-sm text-gray-600 dark:text-gray-400">
-            Manage your encryption keys for secure document and vote storage
-          </p>
+  const renderKeysTab = () => {
+    const { keys, documentKey, publishedKey, isPublished } = encryptionKeys
+    const missingPurposes = KEY_PURPOSES.filter(purpose => !keys.some(key => key.purpose === purpose && key.active))
+    const publishedKeyMissing = !!publishedKey && !keys.some(key => key.publicKey === publishedKey)
+
+    return (
+      <div className="space-y-6">
+        {/* Key Management Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Encryption Keys</h3>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Keys are derived from a signature by your wallet and stored encrypted in this browser
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            {missingPurposes.map(purpose => (
+              <button
+                key={purpose}
+                onClick={() => runKeyAction(`create-${purpose}`, () => encryptionKeys.unlock(purpose), `${KEY_NAMES[purpose]} created`)}
+                disabled={!!keyAction}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              >
+                Create {KEY_NAMES[purpose]}
+              </button>
+            ))}
+          </div>
         </div>
-        <button
-          onClick={() => setShowNewKeyForm(true)}
-          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
-        >
-          Generate New Key
-        </button>
-      </div>
 
-      {/* New Key Form */}
-      {showNewKeyForm && (
-        <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
-          <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-3">Generate New Encryption Key</h4>
-          <div className="space-y-3">
-            <div>
-              <label className="block text-sm font-medium text-blue-900 dark:text-blue-100 mb-1">
-                Key Name
-              </label>
+        {/* Publishing */}
+        {documentKey && (
+          <div className={`rounded-lg p-4 ${isPublished ? 'bg-green-50 dark:bg-green-900/20' : 'bg-yellow-50 dark:bg-yellow-900/20'}`}>
+            <div className="flex items-start justify-between space-x-4">
+              <div className="flex items-start space-x-3">
+                {isPublished ? (
+                  <CheckCircleIcon className="h-5 w-5 text-green-600 mt-0.5" />
+                ) : (
+                  <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 mt-0.5" />
+                )}
+                <div className="text-sm text-gray-800 dark:text-gray-200">
+                  {isPublished
+                    ? 'Your document key is published. Members can share encrypted documents with you.'
+                    : 'Your document key is not published, so members cannot share encrypted documents with you.'}
+                </div>
+              </div>
+              {!isPublished && (
+                <button
+                  onClick={() => runKeyAction('publish', () => encryptionKeys.publish(documentKey.publicKey), 'Key publication submitted')}
+                  disabled={!!keyAction || encryptionKeys.isPending}
+                  className="px-3 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+                >
+                  Publish On-chain
+                </button>
+              )}
+            </div>
+            <div className="mt-3 flex space-x-2">
               <input
                 type="text"
-                placeholder="e.g., Loan Documents 2024"
-                value={newKeyName}
-                onChange={(e) => setNewKeyName(e.target.value)}
-                className="w-full px-3 py-2 border border-blue-300 dark:border-blue-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-blue-800 dark:text-white"
+                placeholder="Or publish in your ENS text record: name.eth"
+                value={ensName}
+                onChange={(e) => setEnsName(e.target.value)}
+                className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
               />
-            </div>
-            <div>
-              <label className="block text-sm font-medium text-blue-900 dark:text-blue-100 mb-1">
-                Key Type
-              </label>
-              <select
-                value={newKeyType}
-                onChange={(e) => setNewKeyType(e.target.value as typeof newKeyType)}
-                className="w-full px-3 py-2 border border-blue-300 dark:border-blue-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-blue-800 dark:text-white"
+              <button
+                onClick={() => publishToENS(documentKey.publicKey)}
+                disabled={!!keyAction || !ensName.trim()}
+                className="px-3 py-2 border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
               >
-                <option value="document">Document Encryption</option>
-                <option value="voting">Private Voting</option>
-                <option value="messaging">Secure Messaging</option>
-              </select>
+                Set ENS Record
+              </button>
             </div>
+          </div>
+        )}
+
+        {/* Recovery */}
+        {(publishedKeyMissing || keys.length === 0) && (
+          <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
+            <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-1">Recover a Key</h4>
+            <p className="text-sm text-blue-800 dark:text-blue-200 mb-3">
+              {publishedKeyMissing
+                ? 'The key you published is not stored in this browser. Restore a backup, or derive it again from your wallet.'
+                : 'Used the DAO on another device? Derive your keys again from your wallet, or restore a backup.'}
+              {' '}Rotated keys are recovered by their version.
+            </p>
             <div className="flex space-x-2">
-              <button
-                onClick={generateNewKey}
-                disabled={!newKeyName.trim()}
-                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+              <select
+                value={recoverPurpose}
+                onChange={(e) => setRecoverPurpose(e.target.value as KeyPurpose)}
+                className="px-3 py-2 text-sm border border-blue-300 dark:border-blue-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-blue-800 dark:text-white"
               >
-                Generate Key
-              </button>
+                {KEY_PURPOSES.map(purpose => (
+                  <option key={purpose} value={purpose}>{KEY_NAMES[purpose]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={1}
+                value={recoverVersion}
+                onChange={(e) => setRecoverVersion(e.target.value)}
+                className="w-24 px-3 py-2 text-sm border border-blue-300 dark:border-blue-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-blue-800 dark:text-white"
+              />
               <button
-                onClick={() => setShowNewKeyForm(false)}
-                className="px-4 py-2 border border-blue-300 text-blue-700 rounded-md hover:bg-blue-100"
+                onClick={() => runKeyAction(
+                  'recover',
+                  () => encryptionKeys.recover(recoverPurpose, Number(recoverVersion)),
+                  `${KEY_NAMES[recoverPurpose]} v${recoverVersion} recovered`
+                )}
+                disabled={!!keyAction}
+                className="px-4 py-2 bg-blue-600 text-white text-sm rounded-md hover:bg-blue-700 disabled:opacity-50"
               >
-                Cancel
+                Recover
               </button>
             </div>
           </div>
-        </div>
-      )}
+        )}
 
-      {/* Encryption Keys List */}
-      <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
-        <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
-          <h4 className="font-medium text-gray-900 dark:text-white">Your Encryption Keys</h4>
-        </div>
-        <div className="divide-y divide-gray-200 dark:divide-gray-700">
-          {encryptionKeys.map((key) => (
-            <div key={key.id} className="px-6 py-4">
-              <div className="flex items-center justify-between">
-                <div className="flex items-center space-x-3">
-                  <div className="text-gray-600 dark:text-gray-400">
-                    {getKeyIcon(key.type)}
-                  </div>
-                  <div>
-                    <div className="text-sm font-medium text-gray-900 dark:text-white">
-                      {key.name}
+        {/* Encryption Keys List */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg border border-gray-200 dark:border-gray-700">
+          <div className="px-6 py-4 border-b border-gray-200 dark:border-gray-700">
+            <h4 className="font-medium text-gray-900 dark:text-white">Your Encryption Keys</h4>
+          </div>
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {keys.length === 0 && (
+              <div className="px-6 py-4 text-sm text-gray-500 dark:text-gray-400">
+                {encryptionKeys.isLoading ? 'Loading keys...' : 'No encryption keys are stored in this browser yet.'}
+              </div>
+            )}
+            {keys.map((key) => (
+              <div key={key.id} className="px-6 py-4">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    <div className="text-gray-600 dark:text-gray-400">
+                      {getKeyIcon(key.purpose)}
                     </div>
-                    <div className="text-xs text-gray-500 dark:text-gray-400 space-x-2">
-                      <span>Type: {key.type}</span>
-                      <span>•</span>
-                      <span>Created: {key.createdAt.toLocaleDateString()}</span>
-                      {key.lastUsed && (
-                        <>
-                          <span>•</span>
-                          <span>Last used: {key.lastUsed.toLocaleDateString()}</span>
-                        </>
-                      )}
+                    <div>
+                      <div className="text-sm font-medium text-gray-900 dark:text-white">
+                        {KEY_NAMES[key.purpose]} v{key.version}
+                      </div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400 space-x-2">
+                        <span>{formatAddress(key.publicKey, 10, 8)}</span>
+                        <span>•</span>
+                        <span>Created: {key.createdAt.toLocaleDateString()}</span>
+                      </div>
                     </div>
                   </div>
+                  <div className="flex items-center space-x-3">
+                    {key.publicKey === publishedKey && (
+                      <span className="text-xs font-medium text-blue-600">PUBLISHED</span>
+                    )}
+                    <span className={`text-xs font-medium ${key.active ? 'text-green-600' : 'text-gray-500'}`}>
+                      {key.active ? 'ACTIVE' : 'ROTATED'}
+                    </span>
+                    <button
+                      onClick={() => setSelectedKeyId(selectedKeyId === key.id ? null : key.id)}
+                      className="text-blue-600 hover:text-blue-800 text-sm"
+                    >
+                      {selectedKeyId === key.id ? 'Hide' : 'View'}
+                    </button>
+                    {key.active && (
+                      <button
+                        onClick={() => runKeyAction(
+                          `rotate-${key.id}`,
+                          () => encryptionKeys.rotate(key.purpose),
+                          key.purpose === 'document' ? 'Key rotated; publish the new key' : 'Key rotated'
+                        )}
+                        disabled={!!keyAction}
+                        className="text-blue-600 hover:text-blue-800 text-sm disabled:opacity-50"
+                      >
+                        Rotate
+                      </button>
+                    )}
+                    <button
+                      onClick={() => deleteKey(key)}
+                      disabled={!!keyAction}
+                      className="text-red-600 hover:text-red-800 text-sm disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
                 </div>
-                <div className="flex items-center space-x-3">
-                  <span className={`text-xs font-medium ${getStrengthColor(key.strength)}`}>
-                    {key.strength.toUpperCase()}
-                  </span>
-                  <button
-                    onClick={() => setSelectedKeyId(key.id)}
-                    className="text-blue-600 hover:text-blue-800 text-sm"
-                  >
-                    View
-                  </button>
-                  <button
-                    onClick={() => deleteKey(key.id)}
-                    className="text-red-600 hover:text-red-800 text-sm"
-                  >
-                    Delete
-                  </button>
-                </div>
+                {selectedKeyId === key.id && (
+                  <div className="mt-3 p-3 bg-gray-50 dark:bg-gray-900 rounded text-xs">
+                    <div className="text-gray-600 dark:text-gray-400 mb-1">Public key (safe to share)</div>
+                    <code className="break-all text-gray-900 dark:text-white">{key.publicKey}</code>
+                  </div>
+                )}
               </div>
-            </div>
-          ))}
+            ))}
+          </div>
         </div>
       </div>
-    </div>
-  )
+    )
+  }
 
   const renderDataTab = () => (
     <div className="space-y-6">
@@ -641,13 +726,49 @@ export default function PrivacyPage() {
             <div>
               <div className="text-sm font-medium text-gray-900 dark:text-white">Backup encryption keys</div>
               <p className="text-xs text-gray-500 dark:text-gray-400">
-                Securely backup your encryption keys (encrypted with master password)
+                Download your encryption keys, encrypted with a backup password
               </p>
             </div>
-            <button className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700">
+            <button
+              onClick={downloadBackup}
+              disabled={!!keyAction || !backupPassword || encryptionKeys.keys.length === 0}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
               Backup
             </button>
           </div>
+
+          <div className="space-y-2">
+            <input
+              type="password"
+              placeholder="Backup password"
+              value={backupPassword}
+              onChange={(e) => setBackupPassword(e.target.value)}
+              className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Without this password the backup cannot be restored. It is not stored anywhere.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <div className="text-sm font-medium text-gray-900 dark:text-white">Restore encryption keys</div>
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)}
+                className="mt-1 text-xs text-gray-500 dark:text-gray-400"
+              />
+            </div>
+            <button
+              onClick={restoreBackup}
+              disabled={!!keyAction || !backupPassword || !restoreFile}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Restore
+            </button>
+          </div>
         </div>
       </div>
 
@@ -664,7 +785,11 @@ export default function PrivacyPage() {
           <button className="w-full px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/40">
             Delete Private Voting History
           </button>
-          <button className="w-full px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/40">
+          <button
+            onClick={deleteAllKeys}
+            disabled={!!keyAction || encryptionKeys.keys.length === 0}
+            className="w-full px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 dark:hover:bg-red-900/40 disabled:opacity-50"
+          >
             Delete All Encryption Keys
           </button>
         </div>
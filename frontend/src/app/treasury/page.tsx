@@ -20,8 +20,11 @@ import {
   EyeIcon,
   CalendarIcon,
 } from '@heroicons/react/24/outline'
-import { useUserData, useRewards } from '@/hooks/useDAO'
-import { formatEther, formatDate, calculatePercentage } from '@/lib/utils'
+import { useChainId } from 'wagmi'
+import { useUserData, useRewards, useTreasuryTransactions } from '@/hooks/useDAO'
+import { formatEther, formatDate, formatAddress, calculatePercentage } from '@/lib/utils'
+import { getTransactionUrl } from '@/lib/web3'
+import type { TreasuryTransactionType } from '@/lib/indexer'
 import toast from 'react-hot-toast'
 
 // Mock treasury data - in real app this would come from contract
@@ -72,35 +75,6 @@ const mockTreasuryData = {
       joinedDate: Math.floor(Date.now() / 1000) - 86400 * 7,
     }
   ],
-  recentTransactions: [
-    {
-      id: 1,
-      type: 'stake',
-      amount: BigInt('5000000000000000000'), // 5 ETH
-      operator: 'Lido Finance',
-      timestamp: Math.floor(Date.now() / 1000) - 86400 * 2,
-      status: 'completed',
-      txHash: '0x1234567890abcdef1234567890abcdef12345678'
-    },
-    {
-      id: 2,
-      type: 'reward',
-      amount: BigInt('280000000000000000'), // 0.28 ETH
-      operator: 'Multiple',
-      timestamp: Math.floor(Date.now() / 1000) - 86400 * 5,
-      status: 'completed',
-      txHash: '0xabcdef1234567890abcdef1234567890abcdef12'
-    },
-    {
-      id: 3,
-      type: 'unstake',
-      amount: BigInt('3000000000000000000'), // 3 ETH
-      operator: 'Rocket Pool',
-      timestamp: Math.floor(Date.now() / 1000) - 86400 * 7,
-      status: 'pending',
-      txHash: '0xfedcba0987654321fedcba0987654321fedcba09'
-    }
-  ],
   yieldDistribution: [
     { period: 'Jan 2024', yield: BigInt('1200000000000000000'), distributed: BigInt('1200000000000000000') },
     { period: 'Feb 2024', yield: BigInt('1450000000000000000'), distributed: BigInt('1450000000000000000') },
@@ -111,8 +85,21 @@ const mockTreasuryData = {
   ]
 }
 
+const TRANSACTION_LABELS: Record<TreasuryTransactionType, string> = {
+  deposit: 'Deposit',
+  membership_fee: 'Membership fee',
+  loan_disbursement: 'Loan disbursement',
+  loan_repayment: 'Loan repayment',
+  withdrawal: 'Treasury withdrawal',
+  member_exit: 'Member exit',
+  stake: 'Stake',
+  reward: 'Reward',
+}
+
 export default function TreasuryPage() {
   const userData = useUserData()
+  const chainId = useChainId()
+  const { data: transactions, isLoading: isTransactionsLoading, error: transactionsError } = useTreasuryTransactions()
   const { claimRewards, claimYield, isPending: isClaimPending } = useRewards()
   
   const [activeTab, setActiveTab] = useState('overview')
@@ -571,48 +558,62 @@ export default function TreasuryPage() {
                 <CardDescription>Treasury and restaking transaction history</CardDescription>
               </CardHeader>
               <CardContent>
-                <div className="space-y-4">
-                  {treasury.recentTransactions.map((tx) => (
-                    <div key={tx.id} className="flex items-center justify-between p-4 border border-gray-200 rounded-lg">
-                      <div className="flex items-center space-x-4">
-                        <div className={`p-2 rounded-lg ${
-                          tx.type === 'stake' ? 'bg-green-50' :
-                          tx.type === 'unstake' ? 'bg-red-50' : 'bg-blue-50'
-                        }`}>
-                          {tx.type === 'stake' ? (
-                            <ArrowTrendingUpIcon className={`h-5 w-5 ${
-                              tx.type === 'stake' ? 'text-green-600' : ''
-                            }`} />
-                          ) : tx.type === 'unstake' ? (
-                            <ArrowTrendingDownIcon className="h-5 w-5 text-red-600" />
-                          ) : (
-                            <GiftIcon className="h-5 w-5 text-blue-600" />
-                          )}
-                        </div>
-                        <div>
-                          <p className="font-medium text-gray-900 capitalize">
-                            {tx.type} {tx.type !== 'reward' && `to ${tx.operator}`}
-                          </p>
-                          <p className="text-sm text-gray-600">
-                            {formatDate(tx.timestamp)} • {formatEther(tx.amount)} ETH
-                          </p>
+                {isTransactionsLoading ? (
+                  <div className="flex items-center justify-center py-8 text-gray-600">
+                    <ClockIcon className="h-5 w-5 mr-2 animate-spin" />
+                    Loading transactions...
+                  </div>
+                ) : transactionsError ? (
+                  <div className="flex items-center justify-center py-8 text-gray-600">
+                    <ExclamationTriangleIcon className="h-5 w-5 mr-2 text-yellow-600" />
+                    Transaction history is unavailable. Is the event indexer running?
+                  </div>
+                ) : !transactions?.length ? (
+                  <p className="text-center py-8 text-gray-600">No treasury transactions yet</p>
+                ) : (
+                  <div className="space-y-4">
+                    {transactions.map((tx) => (
+                      <div
+                        key={`${tx.transactionHash}-${tx.logIndex}`}
+                        className="flex items-center justify-between p-4 border border-gray-200 rounded-lg"
+                      >
+                        <div className="flex items-center space-x-4">
+                          <div className={`p-2 rounded-lg ${
+                            tx.type === 'reward' ? 'bg-blue-50' :
+                            tx.direction === 'in' ? 'bg-green-50' : 'bg-red-50'
+                          }`}>
+                            {tx.type === 'reward' ? (
+                              <GiftIcon className="h-5 w-5 text-blue-600" />
+                            ) : tx.direction === 'in' ? (
+                              <ArrowTrendingUpIcon className="h-5 w-5 text-green-600" />
+                            ) : (
+                              <ArrowTrendingDownIcon className="h-5 w-5 text-red-600" />
+                            )}
+                          </div>
+                          <div>
+                            <p className="font-medium text-gray-900">
+                              {TRANSACTION_LABELS[tx.type]}
+                              {tx.counterparty && ` ${tx.direction === 'in' ? 'from' : 'to'} ${formatAddress(tx.counterparty)}`}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {formatDate(tx.timestamp)} • {tx.direction === 'in' ? '+' : '-'}{formatEther(tx.amount)} ETH
+                            </p>
+                          </div>
                         </div>
-                      </div>
-                      <div className="flex items-center space-x-2">
-                        <div className={`px-3 py-1 rounded-full text-xs font-medium ${
-                          tx.status === 'completed' 
-                            ? 'text-green-600 bg-green-50 border-green-200' 
-                            : 'text-yellow-600 bg-yellow-50 border-yellow-200'
-                        } border`}>
-                          {tx.status}
+                        <div className="flex items-center space-x-2">
+                          <div className="px-3 py-1 rounded-full text-xs font-medium text-green-600 bg-green-50 border-green-200 border">
+                            completed
+                          </div>
+                          <a href={getTransactionUrl(chainId, tx.transactionHash)} target="_blank" rel="noopener noreferrer">
+                            <Button variant="ghost" size="sm">
+                              <EyeIcon className="h-4 w-4" />
+                            </Button>
+                          </a>
                         </div>
-                        <Button variant="ghost" size="sm">
-                          <EyeIcon className="h-4 w-4" />
-                        </Button>
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -0,0 +1,178 @@
+'use client'
+
+import { useState } from 'react'
+import {
+  UserGroupIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  InformationCircleIcon,
+  ClockIcon
+} from '@heroicons/react/24/outline'
+import { useAnonymousVoting } from '@/hooks/useDAO'
+import { formatDate } from '@/lib/utils'
+
+interface AnonymousVotingProps {
+  proposalId: string
+  proposalTitle: string
+  votingEndTime: number
+  onVoteCast?: (support: boolean) => void
+  onError?: (error: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+export default function AnonymousVoting({
+  proposalId,
+  proposalTitle,
+  votingEndTime,
+  onVoteCast,
+  onError,
+  disabled = false,
+  className = ''
+}: AnonymousVotingProps) {
+  const { hasIdentity, canVote, hasVoted, registerIdentity, castVote, isPending, error } =
+    useAnonymousVoting(Number(proposalId))
+
+  const [voting, setVoting] = useState(false)
+  const busy = disabled || isPending || voting
+  const votingOpen = Math.floor(Date.now() / 1000) <= votingEndTime
+
+  const handleRegister = async () => {
+    try {
+      await registerIdentity()
+    } catch (error) {
+      onError?.(error instanceof Error ? error.message : 'Failed to join the anonymous group')
+    }
+  }
+
+  const handleVote = async (support: boolean) => {
+    try {
+      setVoting(true)
+      await castVote(support)
+      onVoteCast?.(support)
+    } catch (error) {
+      onError?.(error instanceof Error ? error.message : 'Failed to cast anonymous vote')
+    } finally {
+      setVoting(false)
+    }
+  }
+
+  if (hasVoted) {
+    return (
+      <div className={`bg-green-50 dark:bg-green-900/20 rounded-lg p-6 ${className}`}>
+        <div className="flex items-center space-x-3">
+          <CheckCircleIcon className="h-8 w-8 text-green-600 dark:text-green-400" />
+          <div>
+            <h3 className="text-lg font-semibold text-green-900 dark:text-green-100">
+              Anonymous Vote Cast
+            </h3>
+            <p className="text-green-700 dark:text-green-300">
+              Your vote was counted without recording which member cast it.
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!votingOpen) {
+    return (
+      <div className={`bg-gray-50 dark:bg-gray-800 rounded-lg p-6 ${className}`}>
+        <div className="flex items-center space-x-3">
+          <ClockIcon className="h-8 w-8 text-gray-500 dark:text-gray-400" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Anonymous Voting Closed
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              Voting ended on {formatDate(votingEndTime)}.
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`bg-white dark:bg-gray-900 rounded-lg shadow-lg ${className}`}>
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center space-x-3">
+          <UserGroupIcon className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+          <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+            Anonymous Voting
+          </h3>
+        </div>
+        <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+          Proposal: {proposalTitle}. Voting ends on {formatDate(votingEndTime)}.
+        </p>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="bg-blue-50 dark:bg-blue-900/20 rounded-lg p-4">
+          <div className="flex items-start space-x-3">
+            <InformationCircleIcon className="h-5 w-5 text-blue-600 dark:text-blue-400 mt-0.5" />
+            <ul className="text-sm text-blue-700 dark:text-blue-300 space-y-1">
+              <li>• A zero-knowledge proof shows you belong to the member group without saying who you are</li>
+              <li>• A nullifier stops the same identity voting twice</li>
+              <li>• Every anonymous vote counts as one member</li>
+            </ul>
+          </div>
+        </div>
+
+        {!hasIdentity ? (
+          <button
+            onClick={handleRegister}
+            disabled={busy}
+            className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <UserGroupIcon className="h-4 w-4" />
+            <span>{isPending ? 'Joining Group...' : 'Join Anonymous Group'}</span>
+          </button>
+        ) : !canVote ? (
+          <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-4">
+            <div className="flex items-start space-x-3">
+              <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 dark:text-yellow-400 mt-0.5" />
+              <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                The secret for your anonymous identity is not stored in this browser. Vote from the browser you
+                joined the group with.
+              </p>
+            </div>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-3">
+            {[true, false].map((support) => (
+              <button
+                key={String(support)}
+                onClick={() => handleVote(support)}
+                disabled={busy}
+                className={`px-4 py-3 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed ${
+                  support ? 'bg-green-600 hover:bg-green-700' : 'bg-red-600 hover:bg-red-700'
+                }`}
+              >
+                {support ? 'Vote For' : 'Vote Against'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {voting && (
+          <div className="flex items-center space-x-3 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
+            <span className="text-sm font-medium text-blue-900 dark:text-blue-100">
+              {isPending ? 'Submitting your vote...' : 'Generating zero-knowledge proof...'}
+            </span>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>
+        )}
+
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Votes sent from your own wallet show its address on-chain. For full anonymity, have a relayer or an
+          unlinked account submit the proof.
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -8,9 +8,13 @@ import {
   EyeSlashIcon,
   LockClosedIcon,
   XMarkIcon,
-  CheckCircleIcon
+  CheckCircleIcon,
+  ExclamationTriangleIcon
 } from '@heroicons/react/24/outline'
-import { uploadToIPFS, uploadMultipleDocuments, DocumentMetadata } from '@/lib/ipfs'
+import { isAddress, isHex, size } from 'viem'
+import type { Address, Hex } from 'viem'
+import { uploadToIPFS, uploadMultipleDocuments, DocumentMetadata, getStorageBackend } from '@/lib/ipfs'
+import type { DocumentRecipient } from '@/lib/storage'
 
 interface DocumentUploadProps {
   onUpload?: (documents: DocumentMetadata[]) => void
@@ -22,6 +26,10 @@ interface DocumentUploadProps {
   allowEncryption?: boolean
   requireEncryption?: boolean
   showPermissions?: boolean
+  // The uploader's encryption key; when set, encrypted files are shared with members' keys instead of a password
+  owner?: DocumentRecipient
+  // Looks up the key a member published, so only their address needs entering
+  resolveKey?: (address: Address) => Promise<Hex | null>
 }
 
 export default function DocumentUpload({
@@ -33,7 +41,9 @@ export default function DocumentUpload({
   className = '',
   allowEncryption = true,
   requireEncryption = false,
-  showPermissions = true
+  showPermissions = true,
+  owner,
+  resolveKey
 }: DocumentUploadProps) {
   const [files, setFiles] = useState<File[]>([])
   const [uploading, setUploading] = useState(false)
@@ -47,10 +57,21 @@ export default function DocumentUpload({
     allowedRoles: [] as string[]
   })
   const [newUser, setNewUser] = useState('')
+  const [newUserKey, setNewUserKey] = useState('')
+  const [recipients, setRecipients] = useState<DocumentRecipient[]>([])
   const [newRole, setNewRole] = useState('')
   
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  // A misconfigured backend surfaces as an upload error rather than breaking the form
+  const [storage] = useState(() => {
+    try {
+      return getStorageBackend()
+    } catch {
+      return null
+    }
+  })
+
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     const droppedFiles = Array.from(e.dataTransfer.files)
@@ -95,7 +116,7 @@ export default function DocumentUpload({
       return
     }
     
-    if (encrypt && !password.trim()) {
+    if (encrypt && !owner && !password.trim()) {
       onError?.('Password is required for encrypted uploads')
       return
     }
@@ -108,11 +129,12 @@ export default function DocumentUpload({
         files,
         encrypt,
         password || undefined,
-        setUploadProgress
+        setUploadProgress,
+        owner ? [owner, ...recipients] : undefined
       )
 
-      // Apply permissions to metadata
-      const documentsWithPermissions = uploadedDocuments.map(doc => ({
+      // Apply permissions to metadata; shared documents already list the members holding a key
+      const documentsWithPermissions = uploadedDocuments.map(doc => doc.keys ? doc : ({
         ...doc,
         permissions: encrypt ? {
           public: permissions.public,
@@ -124,6 +146,8 @@ export default function DocumentUpload({
       onUpload?.(documentsWithPermissions)
       setFiles([])
       setPassword('')
+      setRecipients([])
+      setPermissions(prev => ({ ...prev, allowedUsers: [] }))
       setUploadProgress(0)
     } catch (error) {
       onError?.(error instanceof Error ? error.message : 'Upload failed')
@@ -133,6 +157,10 @@ export default function DocumentUpload({
   }
 
   const addAllowedUser = () => {
+    if (owner) {
+      addRecipient()
+      return
+    }
     if (newUser.trim() && !permissions.allowedUsers.includes(newUser.trim())) {
       setPermissions(prev => ({
         ...prev,
@@ -142,6 +170,35 @@ export default function DocumentUpload({
     }
   }
 
+  // Sharing with a member's key needs their address and the encryption public key they published
+  const addRecipient = async () => {
+    const address = newUser.trim()
+    if (!isAddress(address)) {
+      onError?.('Enter a valid member address')
+      return
+    }
+    let publicKey = newUserKey.trim()
+    if (!publicKey && resolveKey) {
+      publicKey = (await resolveKey(address).catch(() => null)) ?? ''
+      if (!publicKey) {
+        onError?.('This member has not published an encryption key; ask them for their public key')
+        return
+      }
+    }
+    if (!isHex(publicKey) || size(publicKey) !== 32) {
+      onError?.('Enter the member\'s 32-byte encryption public key')
+      return
+    }
+    if (permissions.allowedUsers.includes(address.toLowerCase())) return
+    setRecipients(prev => [...prev, { address, publicKey }])
+    setPermissions(prev => ({
+      ...prev,
+      allowedUsers: [...prev.allowedUsers, address.toLowerCase()]
+    }))
+    setNewUser('')
+    setNewUserKey('')
+  }
+
   const addAllowedRole = () => {
     if (newRole.trim() && !permissions.allowedRoles.includes(newRole.trim())) {
       setPermissions(prev => ({
@@ -153,6 +210,7 @@ export default function DocumentUpload({
   }
 
   const removeAllowedUser = (user: string) => {
+    setRecipients(prev => prev.filter(recipient => recipient.address.toLowerCase() !== user))
     setPermissions(prev => ({
       ...prev,
       allowedUsers: prev.allowedUsers.filter(u => u !== user)
@@ -186,6 +244,16 @@ export default function DocumentUpload({
 
   return (
     <div className={`space-y-4 ${className}`}>
+      {storage?.mock && (
+        <div className="flex items-start space-x-3 p-4 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+          <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 dark:text-yellow-400 mt-0.5" />
+          <p className="text-sm text-yellow-700 dark:text-yellow-300">
+            Mock storage is enabled ({storage.name}). Documents stay in this browser tab and are not uploaded
+            to IPFS. Set NEXT_PUBLIC_STORAGE_BACKEND to use a real node.
+          </p>
+        </div>
+      )}
+
       {/* Upload Area */}
       <div
         onDrop={handleDrop}
@@ -272,7 +340,14 @@ export default function DocumentUpload({
             </label>
           </div>
 
-          {encrypt && (
+          {encrypt && owner && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Files are encrypted with a new key that is shared only with you and the members you add below.
+              No password is needed, and access can be changed later without uploading the files again.
+            </p>
+          )}
+
+          {encrypt && !owner && (
             <div className="space-y-3">
               <div className="relative">
                 <input
@@ -307,7 +382,7 @@ export default function DocumentUpload({
         <div className="space-y-4 p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
           <h4 className="font-medium text-gray-900 dark:text-white">Access Permissions</h4>
           
-          <div className="flex items-center space-x-3">
+          {!owner && <div className="flex items-center space-x-3">
             <input
               type="checkbox"
               id="public"
@@ -318,7 +393,7 @@ export default function DocumentUpload({
             <label htmlFor="public" className="text-sm text-gray-900 dark:text-white">
               Allow public access (with password)
             </label>
-          </div>
+          </div>}
 
           <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-900 dark:text-white">
@@ -332,6 +407,15 @@ export default function DocumentUpload({
                 onChange={(e) => setNewUser(e.target.value)}
                 className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
               />
+              {owner && (
+                <input
+                  type="text"
+                  placeholder={resolveKey ? 'Encryption public key (looked up if blank)' : 'Encryption public key (0x...)'}
+                  value={newUserKey}
+                  onChange={(e) => setNewUserKey(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+              )}
               <button
                 type="button"
                 onClick={addAllowedUser}
@@ -360,7 +444,7 @@ export default function DocumentUpload({
             )}
           </div>
 
-          <div className="space-y-2">
+          {!owner && <div className="space-y-2">
             <label className="block text-sm font-medium text-gray-900 dark:text-white">
               Allowed Roles
             </label>
@@ -403,7 +487,7 @@ export default function DocumentUpload({
                 ))}
               </div>
             )}
-          </div>
+          </div>}
         </div>
       )}
 
@@ -426,7 +510,7 @@ export default function DocumentUpload({
       {/* Upload Button */}
       <button
         onClick={handleUpload}
-        disabled={files.length === 0 || uploading || (encrypt && !password.trim())}
+        disabled={files.length === 0 || uploading || (encrypt && !owner && !password.trim())}
         className="w-full flex items-center justify-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
       >
         {uploading ? (
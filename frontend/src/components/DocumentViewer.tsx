@@ -10,14 +10,22 @@ import {
   DownloadIcon,
   ShareIcon,
   XMarkIcon,
-  ExclamationTriangleIcon
+  ExclamationTriangleIcon,
+  ShieldCheckIcon
 } from '@heroicons/react/24/outline'
-import { DocumentMetadata, downloadFromIPFS, getIPFSUrl, canAccessDocument } from '@/lib/ipfs'
+import type { Address } from 'viem'
+import { DocumentMetadata, downloadFromIPFS, getIPFSUrl, canAccessDocument, openDocumentKey } from '@/lib/ipfs'
+import { findManifestFile, verifyDocumentManifest } from '@/lib/storage'
+import type { DocumentManifest, EncryptionKeyPair, EnvelopeSecret } from '@/lib/storage'
+import { formatAddress } from '@/lib/utils'
 
 interface DocumentViewerProps {
   document: DocumentMetadata
   userAddress: string
   userRoles?: string[]
+  encryptionKey?: EncryptionKeyPair // Opens documents shared with the user's key rather than a password
+  manifest?: DocumentManifest // Signed manifest listing the document; nothing is loaded until its signature checks out
+  manifestSigner?: string // Who the manifest must be signed by, e.g. the borrower
   onClose?: () => void
   onError?: (error: string) => void
   className?: string
@@ -27,6 +35,9 @@ export default function DocumentViewer({
   document,
   userAddress,
   userRoles = [],
+  encryptionKey,
+  manifest,
+  manifestSigner,
   onClose,
   onError,
   className = ''
@@ -39,20 +50,52 @@ export default function DocumentViewer({
   const [error, setError] = useState('')
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
 
+  const [signedBy, setSignedBy] = useState<string | null>(null)
+  const [manifestError, setManifestError] = useState('')
+
   // Check if user has access
   const hasAccess = canAccessDocument(document, userAddress, userRoles)
+  const verified = !manifest || !!signedBy
+
+  // The manifest must be validly signed, by the expected signer, and list this very file
+  useEffect(() => {
+    setSignedBy(null)
+    setManifestError('')
+    if (!manifest) return
+
+    let cancelled = false
+    verifyDocumentManifest(manifest, manifestSigner ? { signer: manifestSigner as Address } : {})
+      .then(() => {
+        const file = findManifestFile(manifest, document.hash)
+        if (!file) throw new Error('This document is not listed in its signed manifest')
+        if (Boolean(file.encryptionHeader) !== document.encrypted) {
+          throw new Error('This document does not match its signed manifest')
+        }
+        if (!cancelled) setSignedBy(manifest.signer)
+      })
+      .catch(err => {
+        if (!cancelled) setManifestError(err instanceof Error ? err.message : 'Failed to verify the document manifest')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [manifest, manifestSigner, document.hash, document.encrypted])
 
   useEffect(() => {
-    if (hasAccess && !document.encrypted) {
+    if (hasAccess && verified && !document.encrypted) {
       loadDocument()
     }
-  }, [hasAccess, document.hash])
+  }, [hasAccess, verified, document.hash])
 
-  const loadDocument = async (decryptPassword?: string) => {
+  const loadDocument = async (decryptPassword?: EnvelopeSecret) => {
     if (!hasAccess) {
       setError('You do not have permission to view this document')
       return
     }
+    if (!verified) {
+      setError(manifestError || 'The document manifest has not been verified yet')
+      return
+    }
 
     setLoading(true)
     setError('')
@@ -90,6 +133,20 @@ export default function DocumentViewer({
     loadDocument(password)
   }
 
+  const handleKeyDecrypt = async () => {
+    if (!encryptionKey) {
+      setError('Unlock your encryption key to open this document')
+      return
+    }
+    try {
+      loadDocument(await openDocumentKey(document, userAddress, encryptionKey))
+    } catch (err) {
+      const errorMsg = err instanceof Error ? err.message : 'Failed to open document key'
+      setError(errorMsg)
+      onError?.(errorMsg)
+    }
+  }
+
   const downloadDocument = () => {
     if (!content) return
 
@@ -264,6 +321,24 @@ export default function DocumentViewer({
                   <span>Encrypted</span>
                 </div>
               )}
+              {signedBy && (
+                <div
+                  className="flex items-center space-x-1 text-green-600 dark:text-green-400"
+                  title="Listed in a manifest with a valid signature"
+                >
+                  <ShieldCheckIcon className="h-4 w-4" />
+                  <span>Signed by {formatAddress(signedBy)}</span>
+                </div>
+              )}
+              {document.mock && (
+                <div
+                  className="flex items-center space-x-1 text-yellow-600 dark:text-yellow-400"
+                  title="Stored by the mock storage backend, not on IPFS"
+                >
+                  <ExclamationTriangleIcon className="h-4 w-4" />
+                  <span>Mock storage</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -299,8 +374,56 @@ export default function DocumentViewer({
       </div>
 
       <div className="p-6">
+        {/* Manifest signature check */}
+        {manifestError && (
+          <div className="mb-6 p-4 bg-red-50 dark:bg-red-900/20 rounded-lg">
+            <div className="flex items-center space-x-2 mb-2">
+              <ExclamationTriangleIcon className="h-5 w-5 text-red-600 dark:text-red-400" />
+              <span className="font-medium text-red-900 dark:text-red-100">Invalid document signature</span>
+            </div>
+            <p className="text-sm text-red-700 dark:text-red-300">
+              {manifestError}. The document will not be opened.
+            </p>
+          </div>
+        )}
+
+        {manifest && !verified && !manifestError && (
+          <div className="mb-6 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+            <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600" />
+            <span>Verifying the document signature...</span>
+          </div>
+        )}
+
         {/* Encryption/Decryption Interface */}
-        {document.encrypted && !decrypted && (
+        {document.encrypted && !decrypted && document.keys && (
+          <div className="mb-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+            <div className="flex items-center space-x-2 mb-3">
+              <LockClosedIcon className="h-5 w-5 text-blue-600 dark:text-blue-400" />
+              <span className="font-medium text-blue-900 dark:text-blue-100">
+                This document is encrypted for {document.keys.length} member{document.keys.length === 1 ? '' : 's'}
+              </span>
+            </div>
+            <p className="text-sm text-blue-700 dark:text-blue-300 mb-4">
+              {encryptionKey
+                ? 'It was shared with your encryption key, so no password is needed.'
+                : 'Unlock your encryption key to open it.'}
+            </p>
+            <button
+              onClick={handleKeyDecrypt}
+              disabled={!encryptionKey || !verified || loading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              {loading ? (
+                <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white" />
+              ) : (
+                <LockOpenIcon className="h-4 w-4" />
+              )}
+              <span>Decrypt with my key</span>
+            </button>
+          </div>
+        )}
+
+        {document.encrypted && !decrypted && !document.keys && (
           <div className="mb-6 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
             <div className="flex items-center space-x-2 mb-3">
               <LockClosedIcon className="h-5 w-5 text-blue-600 dark:text-blue-400" />
@@ -335,7 +458,7 @@ export default function DocumentViewer({
               </div>
               <button
                 onClick={handleDecrypt}
-                disabled={!password.trim() || loading}
+                disabled={!password.trim() || !verified || loading}
                 className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
               >
                 {loading ? (
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import {
   ShieldCheckIcon,
   EyeSlashIcon,
@@ -12,43 +12,79 @@ import {
 } from '@heroicons/react/24/outline'
 import { 
   createPrivateBallot, 
-  generateZKProof, 
+  decryptPrivateBallot,
+  generateZKProof,
+  saveStoredBallot,
+  loadStoredBallot,
+  clearStoredBallot,
   VoteChoice, 
-  PrivateBallot,
-  ZKProof 
+  PrivateBallot
 } from '@/lib/privateVoting'
+import { useDAOContract, usePrivateVoting } from '@/hooks/useDAO'
+import { generateVoteSecret } from '@/lib/sdk'
+import { ballotPassword } from '@/lib/keys'
+import type { EncryptionKeyPair } from '@/lib/storage'
+import { formatDate } from '@/lib/utils'
+
+type Hex = `0x${string}`
 
 interface PrivateVotingProps {
   proposalId: string
   proposalTitle: string
   voterAddress: string
-  onVoteSubmitted?: (ballot: PrivateBallot, proof: ZKProof) => void
+  votingEndTime: number // Votes are committed until then
+  revealEndTime: number // and revealed until then
+  onVoteSubmitted?: (ballot: PrivateBallot) => void
+  onVoteRevealed?: (vote: VoteChoice) => void
   onError?: (error: string) => void
   disabled?: boolean
   className?: string
+  // The voter's voting key; ballots are encrypted with it when no password is entered
+  votingKey?: EncryptionKeyPair | null
 }
 
 export default function PrivateVoting({
   proposalId,
   proposalTitle,
   voterAddress,
+  votingEndTime,
+  revealEndTime,
   onVoteSubmitted,
+  onVoteRevealed,
   onError,
   disabled = false,
-  className = ''
+  className = '',
+  votingKey
 }: PrivateVotingProps) {
+  const { address: contractAddress } = useDAOContract()
+  const { hasCommitted, hasRevealed, unrevealedVotes, commitVote, revealVote, isPending, error } =
+    usePrivateVoting(Number(proposalId))
+
   const [selectedOption, setSelectedOption] = useState<'for' | 'against' | 'abstain' | null>(null)
   const [reason, setReason] = useState('')
   const [password, setPassword] = useState('')
   const [showPassword, setShowPassword] = useState(false)
-  const [weight, setWeight] = useState(1)
-  const [useZKProof, setUseZKProof] = useState(true)
   const [submitting, setSubmitting] = useState(false)
-  const [submitted, setSubmitted] = useState(false)
-  const [step, setStep] = useState<'vote' | 'encrypt' | 'proof' | 'submit'>('vote')
+  const [storedBallot, setStoredBallot] = useState<PrivateBallot | null>(null)
+  const [step, setStep] = useState<'vote' | 'encrypt' | 'prove' | 'submit'>('vote')
+
+  // localStorage is only readable in the browser
+  useEffect(() => {
+    setStoredBallot(loadStoredBallot(contractAddress, proposalId, voterAddress))
+  }, [contractAddress, proposalId, voterAddress])
+
+  // The ballot is only needed until the vote is revealed
+  useEffect(() => {
+    if (hasRevealed) clearStoredBallot(contractAddress, proposalId, voterAddress)
+  }, [hasRevealed, contractAddress, proposalId, voterAddress])
+
+  const now = Math.floor(Date.now() / 1000)
+  const phase = now <= votingEndTime ? 'commit' : now <= revealEndTime ? 'reveal' : 'closed'
+  const busy = disabled || submitting || isPending
+  const ballotKey = password.trim() ? password : votingKey ? ballotPassword(votingKey) : ''
 
   const handleVoteSubmission = async () => {
-    if (!selectedOption || !password.trim()) {
+    if (!selectedOption || !ballotKey) {
       onError?.('Please select a vote option and enter an encryption password')
       return
     }
@@ -61,77 +97,192 @@ export default function PrivateVoting({
       // Create vote choice
       const vote: VoteChoice = {
         option: selectedOption,
-        weight,
         reason: reason.trim() || undefined
       }
 
-      // Create encrypted private ballot
+      // The ballot holds the vote and its secret, encrypted with the password or voting key
+      const secret = generateVoteSecret()
       const ballot = await createPrivateBallot(
         proposalId,
         voterAddress,
         vote,
-        password
+        ballotKey,
+        secret
       )
 
-      setStep('proof')
-      
-      // Generate zero-knowledge proof if requested
-      let proof: ZKProof | undefined
-      if (useZKProof) {
-        proof = await generateZKProof(vote, voterAddress, 'random-secret', proposalId)
-      }
+      // Stored before submitting so a confirmed commit can always be revealed
+      saveStoredBallot(contractAddress, voterAddress, ballot)
+      setStoredBallot(ballot)
+
+      // Proves the hidden vote is a valid choice by this account without revealing it
+      setStep('prove')
+      const proof = await generateZKProof(vote, voterAddress, secret, proposalId)
 
       setStep('submit')
-      
-      // Submit the vote
-      onVoteSubmitted?.(ballot, proof!)
-      
-      setSubmitted(true)
-      setStep('vote')
+      await commitVote({ commitment: ballot.commitment as Hex, nullifier: ballot.nullifier as Hex }, proof)
+      onVoteSubmitted?.(ballot)
       
       // Reset form
       setSelectedOption(null)
       setReason('')
       setPassword('')
-      setWeight(1)
     } catch (error) {
       onError?.(error instanceof Error ? error.message : 'Failed to submit private vote')
+    } finally {
       setStep('vote')
+      setSubmitting(false)
+    }
+  }
+
+  const handleReveal = async () => {
+    if (!storedBallot || !ballotKey) {
+      onError?.('Please enter the password your vote was encrypted with')
+      return
+    }
+
+    setSubmitting(true)
+
+    try {
+      const { option, reason, secret } = await decryptPrivateBallot(storedBallot, ballotKey)
+      // The secret stays private; the proof shows the commitment opens to `option`
+      const proof = await generateZKProof({ option }, voterAddress, secret, proposalId, true)
+      await revealVote(option, proof)
+      onVoteRevealed?.({ option, reason })
+      setPassword('')
+    } catch (error) {
+      onError?.(error instanceof Error ? error.message : 'Failed to reveal private vote')
     } finally {
       setSubmitting(false)
     }
   }
 
-  const resetVote = () => {
-    setSubmitted(false)
-    setSelectedOption(null)
-    setReason('')
-    setPassword('')
-    setWeight(1)
-    setStep('vote')
+  if (hasRevealed) {
+    return (
+      <div className={`bg-green-50 dark:bg-green-900/20 rounded-lg p-6 ${className}`}>
+        <div className="flex items-center space-x-3">
+          <CheckCircleIcon className="h-8 w-8 text-green-600 dark:text-green-400" />
+          <div>
+            <h3 className="text-lg font-semibold text-green-900 dark:text-green-100">
+              Private Vote Revealed
+            </h3>
+            <p className="text-green-700 dark:text-green-300">
+              Your vote has been checked against its commitment and counted.
+            </p>
+          </div>
+        </div>
+      </div>
+    )
   }
 
-  if (submitted) {
+  if (hasCommitted && phase === 'commit') {
     return (
       <div className={`bg-green-50 dark:bg-green-900/20 rounded-lg p-6 ${className}`}>
         <div className="flex items-center space-x-3">
           <CheckCircleIcon className="h-8 w-8 text-green-600 dark:text-green-400" />
           <div>
             <h3 className="text-lg font-semibold text-green-900 dark:text-green-100">
-              Private Vote Submitted Successfully
+              Private Vote Committed
             </h3>
             <p className="text-green-700 dark:text-green-300">
-              Your encrypted vote has been recorded with full privacy protection.
+              Only a hash of your vote is on-chain. Come back between {formatDate(votingEndTime)} and{' '}
+              {formatDate(revealEndTime)} to reveal it, or it will not be counted.
             </p>
           </div>
         </div>
-        <div className="mt-4 flex space-x-3">
-          <button
-            onClick={resetVote}
-            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700"
-          >
-            Vote on Another Proposal
-          </button>
+      </div>
+    )
+  }
+
+  if (phase !== 'commit' && !(phase === 'reveal' && hasCommitted)) {
+    return (
+      <div className={`bg-gray-50 dark:bg-gray-800 rounded-lg p-6 ${className}`}>
+        <div className="flex items-center space-x-3">
+          <ClockIcon className="h-8 w-8 text-gray-500 dark:text-gray-400" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {phase === 'reveal' ? 'Revealing Votes' : 'Private Voting Closed'}
+            </h3>
+            <p className="text-gray-600 dark:text-gray-400">
+              {phase === 'reveal'
+                ? `Committed votes can be revealed until ${formatDate(revealEndTime)}. ${unrevealedVotes} still to be revealed.`
+                : 'Votes that were not revealed in time are ignored.'}
+            </p>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (phase === 'reveal') {
+    return (
+      <div className={`bg-white dark:bg-gray-900 rounded-lg shadow-lg ${className}`}>
+        <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center space-x-3">
+            <ShieldCheckIcon className="h-6 w-6 text-blue-600 dark:text-blue-400" />
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Reveal Your Private Vote
+            </h3>
+          </div>
+          <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+            Proposal: {proposalTitle}. Reveal by {formatDate(revealEndTime)} or your vote will not be counted.
+          </p>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {storedBallot ? (
+            <>
+              <div className="relative">
+                <input
+                  type={showPassword ? 'text' : 'password'}
+                  placeholder={votingKey ? 'Password, if you did not use your voting key' : 'Enter encryption password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white pr-10"
+                  disabled={busy}
+                />
+                <button
+                  type="button"
+                  onClick={() => setShowPassword(!showPassword)}
+                  className="absolute inset-y-0 right-0 pr-3 flex items-center"
+                  disabled={busy}
+                >
+                  <EyeSlashIcon className="h-4 w-4 text-gray-400" />
+                </button>
+              </div>
+
+              {error && (
+                <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>
+              )}
+
+              <button
+                onClick={handleReveal}
+                disabled={!ballotKey || busy}
+                className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busy ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+                    <span>Revealing Vote...</span>
+                  </>
+                ) : (
+                  <>
+                    <LockClosedIcon className="h-4 w-4" />
+                    <span>Reveal Vote</span>
+                  </>
+                )}
+              </button>
+            </>
+          ) : (
+            <div className="bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-4">
+              <div className="flex items-start space-x-3">
+                <ExclamationTriangleIcon className="h-5 w-5 text-yellow-600 dark:text-yellow-400 mt-0.5" />
+                <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                  The secret for this vote is not stored in this browser. Reveal it from the browser you voted with,
+                  or it will not be counted.
+                </p>
+              </div>
+            </div>
+          )}
         </div>
       </div>
     )
@@ -148,7 +299,7 @@ export default function PrivateVoting({
           </h3>
         </div>
         <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-          Cast your vote privately using encryption and zero-knowledge proofs
+          Commit a hidden vote now and reveal it once voting ends on {formatDate(votingEndTime)}
         </p>
       </div>
 
@@ -172,9 +323,10 @@ export default function PrivateVoting({
                 Privacy Protection
               </h5>
               <ul className="mt-2 text-sm text-blue-700 dark:text-blue-300 space-y-1">
-                <li>• Your vote is encrypted before submission</li>
-                <li>• Your identity is protected with cryptographic hashes</li>
-                <li>• Zero-knowledge proofs prevent vote manipulation</li>
+                <li>• Only a commitment hash of your vote goes on-chain until you reveal it</li>
+                <li>• A zero-knowledge proof shows the hidden vote is valid and yours</li>
+                <li>• The vote and its secret are encrypted and kept in this browser</li>
+                <li>• Votes are revealed together after voting ends</li>
                 <li>• Double voting is prevented with nullifiers</li>
               </ul>
             </div>
@@ -203,7 +355,7 @@ export default function PrivateVoting({
                   checked={selectedOption === option}
                   onChange={(e) => setSelectedOption(e.target.value as typeof option)}
                   className="h-4 w-4 text-blue-600 focus:ring-blue-500"
-                  disabled={disabled || submitting}
+                  disabled={busy}
                 />
                 <span className="font-medium text-gray-900 dark:text-white capitalize">
                   {option === 'for' ? 'For' : option === 'against' ? 'Against' : 'Abstain'}
@@ -218,25 +370,6 @@ export default function PrivateVoting({
           </div>
         </div>
 
-        {/* Vote Weight */}
-        <div className="space-y-2">
-          <label className="block text-sm font-medium text-gray-900 dark:text-white">
-            Vote Weight
-          </label>
-          <input
-            type="number"
-            min="1"
-            max="100"
-            value={weight}
-            onChange={(e) => setWeight(Math.max(1, parseInt(e.target.value) || 1))}
-            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white"
-            disabled={disabled || submitting}
-          />
-          <p className="text-xs text-gray-500 dark:text-gray-400">
-            Weight determines the influence of your vote (1-100)
-          </p>
-        </div>
-
         {/* Vote Reason */}
         <div className="space-y-2">
           <label className="block text-sm font-medium text-gray-900 dark:text-white">
@@ -248,7 +381,7 @@ export default function PrivateVoting({
             placeholder="Explain your reasoning for this vote..."
             rows={3}
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:text-white resize-none"
-            disabled={disabled || submitting}
+            disabled={busy}
           />
         </div>
 
@@ -265,50 +398,29 @@ export default function PrivateVoting({
             <div className="relative">
               <input
                 type={showPassword ? 'text' : 'password'}
-                placeholder="Enter encryption password"
+                placeholder={votingKey ? 'Password (optional with your voting key)' : 'Enter encryption password'}
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white pr-10"
-                disabled={disabled || submitting}
+                disabled={busy}
               />
               <button
                 type="button"
                 onClick={() => setShowPassword(!showPassword)}
                 className="absolute inset-y-0 right-0 pr-3 flex items-center"
-                disabled={disabled || submitting}
+                disabled={busy}
               >
                 <EyeSlashIcon className="h-4 w-4 text-gray-400" />
               </button>
             </div>
             <p className="text-xs text-gray-500 dark:text-gray-400">
-              This password encrypts your vote. Keep it secure - you&apos;ll need it to verify your vote later.
+              {votingKey
+                ? 'Leave blank to encrypt your vote with your voting key, so revealing it needs no password.'
+                : 'This password encrypts your vote. Keep it secure - you\'ll need it to reveal your vote after voting ends.'}
             </p>
           </div>
         </div>
 
-        {/* Zero-Knowledge Proof Option */}
-        <div className="flex items-center space-x-3">
-          <input
-            type="checkbox"
-            id="useZKProof"
-            checked={useZKProof}
-            onChange={(e) => setUseZKProof(e.target.checked)}
-            className="h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-            disabled={disabled || submitting}
-          />
-          <label htmlFor="useZKProof" className="flex items-center space-x-2">
-            <ShieldCheckIcon className="h-4 w-4 text-blue-600 dark:text-blue-400" />
-            <span className="text-sm font-medium text-gray-900 dark:text-white">
-              Generate Zero-Knowledge Proof
-            </span>
-          </label>
-        </div>
-        {useZKProof && (
-          <p className="text-xs text-gray-500 dark:text-gray-400 ml-7">
-            Provides cryptographic proof of your vote validity without revealing the vote content.
-          </p>
-        )}
-
         {/* Progress Indicator */}
         {submitting && (
           <div className="space-y-3 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
@@ -316,36 +428,40 @@ export default function PrivateVoting({
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
               <span className="text-sm font-medium text-blue-900 dark:text-blue-100">
                 {step === 'encrypt' && 'Encrypting your vote...'}
-                {step === 'proof' && 'Generating zero-knowledge proof...'}
-                {step === 'submit' && 'Submitting private ballot...'}
+                {step === 'prove' && 'Generating zero-knowledge proof...'}
+                {step === 'submit' && 'Committing your vote on-chain...'}
               </span>
             </div>
             <div className="w-full bg-blue-200 dark:bg-blue-800 rounded-full h-2">
               <div
                 className="bg-blue-600 h-2 rounded-full transition-all duration-500"
                 style={{
-                  width: step === 'encrypt' ? '33%' : step === 'proof' ? '66%' : '100%'
+                  width: step === 'encrypt' ? '33%' : step === 'prove' ? '66%' : '100%'
                 }}
               />
             </div>
           </div>
         )}
 
+        {error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error.message}</p>
+        )}
+
         {/* Submit Button */}
         <button
           onClick={handleVoteSubmission}
-          disabled={!selectedOption || !password.trim() || disabled || submitting}
+          disabled={!selectedOption || !ballotKey || busy}
           className="w-full flex items-center justify-center space-x-2 px-4 py-3 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          {submitting ? (
+          {busy && !disabled ? (
             <>
               <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
-              <span>Processing Private Vote...</span>
+              <span>Committing Private Vote...</span>
             </>
           ) : (
             <>
               <ShieldCheckIcon className="h-4 w-4" />
-              <span>Submit Private Vote</span>
+              <span>Commit Private Vote</span>
             </>
           )}
         </button>
@@ -361,8 +477,8 @@ export default function PrivateVoting({
               <ul className="mt-2 text-sm text-yellow-700 dark:text-yellow-300 space-y-1">
                 <li>• Keep your encryption password safe - it cannot be recovered</li>
                 <li>• Your vote cannot be changed after submission</li>
-                <li>• Vote aggregation may take time to maintain privacy</li>
-                <li>• Only vote once per proposal to avoid nullifier conflicts</li>
+                <li>• Reveal from this browser before {formatDate(revealEndTime)}; unrevealed votes are not counted</li>
+                <li>• Clearing this browser&apos;s storage loses the secret needed to reveal</li>
               </ul>
             </div>
           </div>
@@ -34,12 +34,14 @@ export const SUPPORTED_CHAINS = {
 export const DAO_CONSTANTS = {
   PROPOSAL_EDITING_PERIOD: 3 * 24 * 60 * 60, // 3 days in seconds
   VOTING_PERIOD: 7 * 24 * 60 * 60, // 7 days in seconds
+  REVEAL_PERIOD: 2 * 24 * 60 * 60, // 2 days after voting for private proposal reveals
   BASIS_POINTS: 10000,
   DEFAULT_CONSENSUS_THRESHOLD: 5100, // 51%
   MAX_LOAN_AMOUNT: '1000', // ETH
   MIN_INTEREST_RATE: 500, // 5% in basis points
   MAX_INTEREST_RATE: 2000, // 20% in basis points
   DEFAULT_REPAYMENT_TERM: 365 * 24 * 60 * 60, // 1 year in seconds
+  MAX_PROPOSAL_OPTIONS: 16, // Options on a multi-option proposal
 } as const
 
 export const PRIVACY_LEVELS = {
@@ -63,6 +65,7 @@ export const PROPOSAL_STATUS_LABELS = {
   4: 'Rejected',
   5: 'Executed',
   6: 'Cancelled',
+  7: 'Expired',
 } as const
 
 export const PROPOSAL_TYPE_LABELS = {
@@ -70,6 +73,12 @@ export const PROPOSAL_TYPE_LABELS = {
   1: 'Treasury Allocation',
   2: 'Parameter Change',
   3: 'Member Removal',
+  4: 'Multi-Option',
+} as const
+
+export const COUNTING_METHOD_LABELS = {
+  0: 'Approval',
+  1: 'Ranked Choice',
 } as const
 
 export const NAVIGATION_ITEMS = [
@@ -96,9 +105,26 @@ export const FEATURE_FLAGS = {
 
 export const IPFS_GATEWAY = process.env.NEXT_PUBLIC_IPFS_GATEWAY || 'https://gateway.pinata.cloud/ipfs/'
 
-export const DEFAULT_ENS_VOTING_WEIGHT = 100
-export const SHORT_ENS_VOTING_WEIGHT = 200
-export const VARIABLE_ENS_VOTING_WEIGHT = 150
+// Document storage: 'kubo' (an IPFS node's RPC API), 'pinning' (a Kubo node plus a remote pinning service) or
+// 'memory', an explicit mock that keeps documents in the open tab only
+export const STORAGE_BACKEND = process.env.NEXT_PUBLIC_STORAGE_BACKEND || 'kubo'
+export const IPFS_API_URL = process.env.NEXT_PUBLIC_IPFS_API_URL || 'http://127.0.0.1:5001'
+export const IPFS_API_AUTH = process.env.NEXT_PUBLIC_IPFS_AUTH || ''
+export const PINNING_SERVICE_URL = process.env.NEXT_PUBLIC_PINNING_SERVICE_URL || ''
+export const PINNING_SERVICE_TOKEN = process.env.NEXT_PUBLIC_PINNING_SERVICE_TOKEN || ''
+
+// Query API served by contract/scripts/run-indexer.ts
+export const INDEXER_URL = process.env.NEXT_PUBLIC_INDEXER_URL || 'http://localhost:4350'
+
+export const DEFAULT_VOTING_WEIGHT = 100 // Every member's weight until governance selects a strategy
+
+// Keyed by IVotingWeightStrategy.name()
+export const VOTING_WEIGHT_STRATEGY_LABELS: Record<string, string> = {
+  flat: 'Flat',
+  contribution: 'Contribution-weighted',
+  'ens-reputation': 'ENS reputation',
+  quadratic: 'Quadratic',
+}
 
 export const RESTAKING_ALLOCATION_BPS = 2000 // 20%
 export const YIELD_DISTRIBUTION_SHARES = 6000 // 60%
@@ -1,10 +1,57 @@
 'use client'
 
-import { useAccount, useReadContract, useWriteContract, useWatchContractEvent } from 'wagmi'
-import { UNIFIED_LENDING_DAO_ABI } from '@/lib/contract-abi'
+import { useAccount, usePublicClient, useReadContract, useWalletClient, useWriteContract, useWatchContractEvent } from 'wagmi'
+import { useQuery, useQueryClient } from '@tanstack/react-query'
+import { zeroAddress, zeroHash } from 'viem'
+import type { Address, Hex } from 'viem'
+import { UNIFIED_LENDING_DAO_ABI, VOTING_WEIGHT_STRATEGY_ABI } from '@/lib/contract-abi'
 import { getContractAddress } from '@/lib/web3'
-import type { UserData, DAOStats } from '@/types/dao'
-import { useState } from 'react'
+import { fetchTreasuryTransactions } from '@/lib/indexer'
+import { fetchDocumentManifest, pinDocumentManifest, toManifestFile } from '@/lib/ipfs'
+import type { DocumentMetadata } from '@/lib/ipfs'
+import { createIndexedDBKeyStore, createKeyManager, resolveEncryptionKey, setEnsEncryptionKey } from '@/lib/keys'
+import type { KeyManager, KeyPurpose } from '@/lib/keys'
+import { signDocumentManifest } from '@/lib/storage'
+import type { DocumentManifest, ManifestEntityType } from '@/lib/storage'
+import { loadMemberIdentity, saveMemberIdentity } from '@/lib/privateVoting'
+import {
+  ONCHAIN_PROPOSAL_PHASE,
+  PRIVATE_VOTE_CHOICES,
+  anonymousVoteNullifier,
+  createViemDAOClient,
+  decodeMember,
+  encodeParameterChange,
+  generateIdentity,
+  identityCommitment,
+  proveAnonymousVote,
+  tallyRankedChoice,
+  toSolidityProof,
+  verifyRankedChoiceResult,
+} from '@/lib/sdk'
+import type {
+  LoanProposalFilters,
+  MultiOptionBallot,
+  ParameterChange,
+  PrivateVoteCommitment,
+  PrivateVoteProof,
+  PrivateVoteOption,
+  ViemDAOClient,
+} from '@/lib/sdk'
+import { QUERY_KEYS } from '@/constants'
+import { formatEther } from '@/lib/utils'
+import { CountingMethod, LoanStatus } from '@/types/dao'
+import type {
+  UserData,
+  DAOStats,
+  Loan,
+  LoanProposal,
+  LoanVoteRecord,
+  LoanHistoryEntry,
+  BorrowerStats,
+  Delegation,
+  DocumentManifestAnchor,
+} from '@/types/dao'
+import { useCallback, useMemo, useState } from 'react'
 import toast from 'react-hot-toast'
 
 export function useDAOContract() {
@@ -16,6 +63,18 @@ export function useDAOContract() {
   }
 }
 
+// Typed SDK client bound to the connected chain; writes need a connected wallet
+export function useDAOClient(): ViemDAOClient | undefined {
+  const { address } = useDAOContract()
+  const publicClient = usePublicClient()
+  const { data: walletClient } = useWalletClient()
+
+  return useMemo(
+    () => (publicClient ? createViemDAOClient({ address, publicClient, walletClient }) : undefined),
+    [address, publicClient, walletClient]
+  )
+}
+
 export function useUserData() {
   const { address, isConnected } = useAccount()
   const contract = useDAOContract()
@@ -40,13 +99,43 @@ export function useUserData() {
 
   const { data: memberData } = useReadContract({
     ...contract,
-    functionName: 'members',
+    functionName: 'getMember',
     args: address ? [address] : undefined,
     query: {
       enabled: !!address && isConnected && isMember,
     },
   })
 
+  const { data: memberVotingWeight } = useReadContract({
+    ...contract,
+    functionName: 'memberVotingWeights',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address && isConnected && isMember,
+    },
+  })
+
+  // Weights only count while the ensVoting feature is on; otherwise every member has one vote
+  const { data: ensVotingEnabled } = useReadContract({
+    ...contract,
+    functionName: 'ensVotingEnabled',
+  })
+
+  const { data: strategyAddress } = useReadContract({
+    ...contract,
+    functionName: 'votingWeightStrategy',
+  })
+
+  const hasStrategy = !!strategyAddress && strategyAddress !== zeroAddress
+  const { data: strategyName } = useReadContract({
+    address: strategyAddress,
+    abi: VOTING_WEIGHT_STRATEGY_ABI,
+    functionName: 'name',
+    query: {
+      enabled: hasStrategy,
+    },
+  })
+
   const { data: pendingRewards } = useReadContract({
     ...contract,
     functionName: 'pendingRewards',
@@ -70,19 +159,13 @@ export function useUserData() {
     address,
     isMember: !!isMember,
     isAdmin: !!isAdmin,
-    member: memberData ? {
-      memberAddress: memberData[0],
-      status: memberData[1],
-      joinDate: Number(memberData[2]),
-      contributionAmount: memberData[3],
-      shareBalance: memberData[4],
-      hasActiveLoan: memberData[5],
-      lastLoanDate: Number(memberData[6]),
-    } : undefined,
-    votingWeight: 100, // Default weight, would need additional call for ENS weight
+    member: memberData ? decodeMember(memberData) : undefined,
+    votingWeight: !isMember ? 0 : ensVotingEnabled ? Number(memberVotingWeight ?? 0) : 1,
+    votingWeightStrategy: hasStrategy ? strategyName : undefined,
+    weightedVoting: !!ensVotingEnabled,
     pendingRewards: pendingRewards || BigInt(0),
     pendingYield: pendingYield || BigInt(0),
-    hasActiveLoan: memberData?.[5] || false,
+    hasActiveLoan: memberData?.hasActiveLoan || false,
     loans: [], // Would need additional calls to get user loans
   }
 
@@ -102,6 +185,16 @@ export function useDAOStats() {
     functionName: 'activeMembers',
   })
 
+  const { data: loanCounter } = useReadContract({
+    ...contract,
+    functionName: 'loanCounter',
+  })
+
+  const { data: defaultedLoans } = useReadContract({
+    ...contract,
+    functionName: 'defaultedLoans',
+  })
+
   const { data: initialized } = useReadContract({
     ...contract,
     functionName: 'initialized',
@@ -117,6 +210,16 @@ export function useDAOStats() {
     functionName: 'consensusThreshold',
   })
 
+  const { data: quorumThreshold } = useReadContract({
+    ...contract,
+    functionName: 'quorumThreshold',
+  })
+
+  const { data: quorumVotes } = useReadContract({
+    ...contract,
+    functionName: 'quorumVotes',
+  })
+
   // Feature flags
   const { data: ensVotingEnabled } = useReadContract({
     ...contract,
@@ -143,34 +246,53 @@ export function useDAOStats() {
     functionName: 'restakingEnabled',
   })
 
+  const { data: autoLiquidationEnabled } = useReadContract({
+    ...contract,
+    functionName: 'autoLiquidationEnabled',
+  })
+
+  const { data: gracePeriod } = useReadContract({
+    ...contract,
+    functionName: 'gracePeriod',
+  })
+
   const stats: DAOStats & { 
     initialized: boolean
     membershipFee: bigint
     consensusThreshold: number
+    quorumThreshold: number
+    quorumVotes: number
+    gracePeriod: number
     features: {
       ensVoting: boolean
       documentStorage: boolean
       privateVoting: boolean
       confidentialLoans: boolean
       restaking: boolean
+      autoLiquidation: boolean
     }
   } = {
     totalMembers: Number(totalMembers || 0),
     activeMembers: Number(activeMembers || 0),
-    totalLoans: 0, // Would need additional contract calls
+    totalLoans: Number(loanCounter || 0),
     activeLoans: 0,
+    defaultedLoans: Number(defaultedLoans || 0),
     treasuryBalance: BigInt(0), // Would need balance check
     totalYieldGenerated: BigInt(0), // Would need additional call
     totalRestaked: BigInt(0), // Would need additional call
     initialized: !!initialized,
     membershipFee: membershipFee || BigInt(0),
     consensusThreshold: Number(consensusThreshold || 0),
+    quorumThreshold: Number(quorumThreshold || 0),
+    quorumVotes: Number(quorumVotes || 0),
+    gracePeriod: Number(gracePeriod || 0),
     features: {
       ensVoting: !!ensVotingEnabled,
       documentStorage: !!documentStorageEnabled,
       privateVoting: !!privateVotingEnabled,
       confidentialLoans: !!confidentialLoansEnabled,
       restaking: !!restakingEnabled,
+      autoLiquidation: !!autoLiquidationEnabled,
     },
   }
 
@@ -309,6 +431,124 @@ export function useLoanRepayment() {
   }
 }
 
+export function useLoanDefault() {
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+  const contract = useDAOContract()
+
+  const markLoanDefaulted = async (loanId: number) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'markLoanDefaulted',
+        args: [BigInt(loanId)],
+      })
+    } catch (err) {
+      console.error('Marking loan as defaulted failed:', err)
+      throw err
+    }
+  }
+
+  return {
+    markLoanDefaulted,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+export function useFeatureToggle() {
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+  const contract = useDAOContract()
+
+  const toggleFeature = async (feature: string, enabled: boolean) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'toggleFeature',
+        args: [feature, enabled],
+      })
+    } catch (err) {
+      console.error('Feature toggle failed:', err)
+      throw err
+    }
+  }
+
+  return {
+    toggleFeature,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+// Policy changes and member removals are proposed and voted on; the DAO executes them once approved
+export function useGovernanceProposals() {
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+  const contract = useDAOContract()
+
+  const proposeParameterChange = async (change: ParameterChange, description: string) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'proposeParameterChange',
+        args: [encodeParameterChange(change), description],
+      })
+    } catch (err) {
+      console.error('Parameter change proposal failed:', err)
+      throw err
+    }
+  }
+
+  const proposeMemberRemoval = async (memberAddress: string, description: string) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'proposeMemberRemoval',
+        args: [memberAddress as `0x${string}`, description],
+      })
+    } catch (err) {
+      console.error('Member removal proposal failed:', err)
+      throw err
+    }
+  }
+
+  const voteOnGovernanceProposal = async (proposalId: number, support: boolean) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'voteOnGovernanceProposal',
+        args: [BigInt(proposalId), support],
+      })
+    } catch (err) {
+      console.error('Governance vote failed:', err)
+      throw err
+    }
+  }
+
+  const proposeMultiOption = async (description: string, options: string[], countingMethod: CountingMethod) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'proposeMultiOption',
+        args: [description, options, countingMethod],
+      })
+    } catch (err) {
+      console.error('Multi-option proposal failed:', err)
+      throw err
+    }
+  }
+
+  return {
+    proposeParameterChange,
+    proposeMemberRemoval,
+    voteOnGovernanceProposal,
+    proposeMultiOption,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
 export function useRewards() {
   const { writeContract, isPending, error, isSuccess } = useWriteContract()
   const contract = useDAOContract()
@@ -346,6 +586,1022 @@ export function useRewards() {
   }
 }
 
+type DAOContract = ReturnType<typeof useDAOContract>
+type DAOPublicClient = NonNullable<ReturnType<typeof usePublicClient>>
+
+export type { LoanProposalFilters, LoanProposalPage } from '@/lib/sdk'
+
+export function useLoanProposals(filters: LoanProposalFilters = {}, pageSize: number = 10) {
+  const { address } = useAccount()
+  const contract = useDAOContract()
+  const publicClient = usePublicClient()
+  const daoClient = useDAOClient()
+  const queryClient = useQueryClient()
+
+  // Offsets of every page visited so far; changing the filters starts over from the first page
+  const filterKey = `${filters.status ?? 'all'}:${filters.isPrivate ?? 'all'}:${pageSize}`
+  const [pagination, setPagination] = useState({ filterKey, offsets: [0] })
+  const offsets = useMemo(
+    () => (pagination.filterKey === filterKey ? pagination.offsets : [0]),
+    [pagination, filterKey]
+  )
+  const offset = offsets[offsets.length - 1]
+
+  const { data, isLoading, isFetching, error, refetch } = useQuery({
+    queryKey: [...QUERY_KEYS.PROPOSALS, contract.address, 'loans', filterKey, offset],
+    queryFn: () => daoClient!.listLoanProposals(offset, pageSize, filters),
+    enabled: !!daoClient,
+  })
+
+  const { data: votedProposalIds } = useQuery({
+    queryKey: [...QUERY_KEYS.PROPOSALS, contract.address, 'votes', address],
+    queryFn: async () => {
+      const logs = await publicClient!.getContractEvents({
+        ...contract,
+        eventName: 'LoanVoteCast',
+        args: { voter: address },
+        fromBlock: 'earliest',
+      })
+      return new Set(logs.map(log => Number(log.args.proposalId)))
+    },
+    enabled: !!publicClient && !!address,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PROPOSALS })
+  }, [queryClient])
+
+  useWatchContractEvent({ ...contract, eventName: 'LoanRequested', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'LoanVoteCast', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'LoanApproved', onLogs: invalidate })
+
+  const nextPage = useCallback(() => {
+    if (!data?.hasMore) return
+    setPagination({ filterKey, offsets: [...offsets, data.nextOffset] })
+  }, [data, filterKey, offsets])
+
+  const previousPage = useCallback(() => {
+    if (offsets.length <= 1) return
+    setPagination({ filterKey, offsets: offsets.slice(0, -1) })
+  }, [filterKey, offsets])
+
+  const hasVoted = useCallback(
+    (proposalId: number) => !!votedProposalIds?.has(proposalId),
+    [votedProposalIds]
+  )
+
+  return {
+    proposals: data?.proposals ?? [],
+    totalProposals: data?.totalProposals ?? 0,
+    page: offsets.length,
+    hasMore: !!data?.hasMore,
+    hasPrevious: offsets.length > 1,
+    nextPage,
+    previousPage,
+    hasVoted,
+    isLoading,
+    isFetching,
+    error,
+    refetch,
+  }
+}
+
+export interface LoanDetails {
+  proposal: LoanProposal
+  loan: Loan | null
+  loanDocumentHash: string
+  votes: LoanVoteRecord[]
+  history: LoanHistoryEntry[]
+  borrowerStats: BorrowerStats
+  // Share of the borrower's stake moved to the treasury when the loan was marked defaulted
+  recoveredAmount: bigint | null
+}
+
+const PHASE_HISTORY: Record<number, Pick<LoanHistoryEntry, 'action' | 'details'>> = {
+  [ONCHAIN_PROPOSAL_PHASE.VOTING]: {
+    action: 'Voting Started',
+    details: 'Proposal editing period completed, voting has begun',
+  },
+  [ONCHAIN_PROPOSAL_PHASE.EXECUTED]: {
+    action: 'Consensus Reached',
+    details: 'The proposal reached the consensus threshold and was executed',
+  },
+  [ONCHAIN_PROPOSAL_PHASE.EXPIRED]: {
+    action: 'Proposal Expired',
+    details: 'The voting period ended without reaching consensus',
+  },
+}
+
+async function fetchBorrowerStats(
+  client: DAOPublicClient,
+  contract: DAOContract,
+  dao: ViemDAOClient,
+  borrower: `0x${string}`
+): Promise<BorrowerStats> {
+  const [member, loans, repaidLogs] = await Promise.all([
+    dao.getMember(borrower),
+    dao.getMemberLoans(borrower),
+    client.getContractEvents({
+      ...contract,
+      eventName: 'LoanRepaid',
+      args: { borrower },
+      fromBlock: 'earliest',
+      strict: true,
+    }),
+  ])
+
+  const repaymentTimes = await Promise.all(
+    repaidLogs.map(async log => {
+      const loan = loans.find(l => l.id === Number(log.args.loanId))
+      if (!loan) return undefined
+      const block = await client.getBlock({ blockNumber: log.blockNumber })
+      return Number(block.timestamp) - loan.startTime
+    })
+  )
+  const knownTimes = repaymentTimes.filter((time): time is number => time !== undefined)
+
+  return {
+    memberSince: member.joinDate,
+    totalLoans: loans.length,
+    activeLoans: loans.filter(l => l.status === LoanStatus.ACTIVE).length,
+    completedLoans: loans.filter(l => l.status === LoanStatus.REPAID).length,
+    defaultedLoans: loans.filter(l => l.status === LoanStatus.DEFAULTED).length,
+    averageRepaymentTime: knownTimes.length > 0
+      ? Math.round(knownTimes.reduce((sum, time) => sum + time, 0) / knownTimes.length)
+      : undefined,
+  }
+}
+
+/**
+ * Load a loan proposal together with the loan it created (if any), its vote
+ * history and a timeline rebuilt from contract logs. The contract does not
+ * link proposals to loans, so the loan is found through the LoanApproved log
+ * emitted in the same transaction as one of the proposal's votes, or as its
+ * timelock execution when the proposal was queued.
+ */
+export async function fetchLoanDetails(
+  client: DAOPublicClient,
+  contract: DAOContract,
+  proposalId: number
+): Promise<LoanDetails | null> {
+  const id = BigInt(proposalId)
+  const dao = createViemDAOClient({ address: contract.address, publicClient: client })
+  const proposal = await dao.getLoanProposal(id)
+  if (!proposal) return null
+
+  const borrower = proposal.borrower as `0x${string}`
+  const logFilter = { ...contract, fromBlock: 'earliest', strict: true } as const
+
+  const [requestedLogs, editedLogs, phaseLogs, voteLogs, executedLogs, approvedLogs] = await Promise.all([
+    client.getContractEvents({ ...logFilter, eventName: 'LoanRequested', args: { proposalId: id } }),
+    client.getContractEvents({ ...logFilter, eventName: 'LoanProposalEdited', args: { proposalId: id } }),
+    client.getContractEvents({ ...logFilter, eventName: 'ProposalPhaseChanged', args: { proposalId: id } }),
+    client.getContractEvents({ ...logFilter, eventName: 'LoanVoteCast', args: { proposalId: id } }),
+    client.getContractEvents({ ...logFilter, eventName: 'QueuedProposalExecuted', args: { proposalId: id } }),
+    client.getContractEvents({ ...logFilter, eventName: 'LoanApproved', args: { borrower } }),
+  ])
+
+  const approvalTransactions = new Set([...voteLogs, ...executedLogs].map(log => log.transactionHash))
+  const approvedLog = approvedLogs.find(log => approvalTransactions.has(log.transactionHash))
+  const loanId = approvedLog?.args.loanId
+
+  const [loan, loanDocumentHash, disbursedLogs, repaidLogs, defaultedLogs, borrowerStats] = await Promise.all([
+    loanId !== undefined ? dao.getLoan(loanId, proposalId) : Promise.resolve(null),
+    loanId !== undefined ? dao.getLoanDocumentHash(loanId) : Promise.resolve(''),
+    loanId !== undefined
+      ? client.getContractEvents({ ...logFilter, eventName: 'LoanDisbursed', args: { loanId } })
+      : Promise.resolve([]),
+    loanId !== undefined
+      ? client.getContractEvents({ ...logFilter, eventName: 'LoanRepaid', args: { loanId } })
+      : Promise.resolve([]),
+    loanId !== undefined
+      ? client.getContractEvents({ ...logFilter, eventName: 'LoanDefaulted', args: { loanId } })
+      : Promise.resolve([]),
+    fetchBorrowerStats(client, contract, dao, borrower),
+  ])
+
+  const blockNumbers = new Set(
+    [...requestedLogs, ...editedLogs, ...phaseLogs, ...voteLogs, ...disbursedLogs, ...repaidLogs, ...defaultedLogs]
+      .map(log => log.blockNumber)
+  )
+  if (approvedLog) blockNumbers.add(approvedLog.blockNumber)
+  const blocks = await Promise.all(
+    Array.from(blockNumbers).map(blockNumber => client.getBlock({ blockNumber }))
+  )
+  const timestamps = new Map(blocks.map(block => [block.number, Number(block.timestamp)]))
+
+  type TimelineLog = { blockNumber: bigint; logIndex: number; transactionHash: `0x${string}` }
+  const entry = (log: TimelineLog, action: string, details: string) => ({
+    action,
+    details,
+    timestamp: timestamps.get(log.blockNumber) ?? 0,
+    blockNumber: Number(log.blockNumber),
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  })
+
+  const timeline = [
+    ...requestedLogs.map(log => entry(
+      log,
+      'Created',
+      `Loan proposal for ${formatEther(log.args.amount)} ETH at ${(Number(log.args.interestRate) / 100).toFixed(2)}% submitted for review`
+    )),
+    ...editedLogs.map(log => entry(
+      log,
+      'Edited',
+      `Amount changed to ${formatEther(log.args.newAmount)} ETH at ${(Number(log.args.newInterestRate) / 100).toFixed(2)}%`
+    )),
+    ...phaseLogs
+      .filter(log => PHASE_HISTORY[log.args.newPhase])
+      .map(log => entry(log, PHASE_HISTORY[log.args.newPhase].action, PHASE_HISTORY[log.args.newPhase].details)),
+    ...(approvedLog
+      ? [entry(approvedLog, 'Approved', `Loan #${approvedLog.args.loanId} approved for ${formatEther(approvedLog.args.amount)} ETH`)]
+      : []),
+    ...disbursedLogs.map(log => entry(log, 'Disbursed', `${formatEther(log.args.amount)} ETH sent to the borrower`)),
+    ...repaidLogs.map(log => entry(log, 'Repaid', `${formatEther(log.args.amount)} ETH repaid to the treasury`)),
+    ...defaultedLogs.map(log => entry(
+      log,
+      'Defaulted',
+      `${formatEther(log.args.outstandingBalance)} ETH outstanding, ${formatEther(log.args.recoveredAmount)} ETH recovered from the borrower's stake`
+    )),
+  ].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex)
+
+  return {
+    proposal,
+    loan,
+    loanDocumentHash,
+    votes: voteLogs.map(log => ({
+      voter: log.args.voter,
+      support: log.args.support,
+      timestamp: timestamps.get(log.blockNumber) ?? 0,
+      transactionHash: log.transactionHash,
+    })),
+    history: timeline.map(({ action, details, timestamp, blockNumber, transactionHash }) => ({
+      action,
+      details,
+      timestamp,
+      blockNumber,
+      transactionHash,
+    })),
+    borrowerStats,
+    recoveredAmount: defaultedLogs[0]?.args.recoveredAmount ?? null,
+  }
+}
+
+export function useLoanDetails(proposalId: number) {
+  const contract = useDAOContract()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+
+  const query = useQuery({
+    queryKey: [...QUERY_KEYS.LOANS, contract.address, 'details', proposalId],
+    queryFn: () => fetchLoanDetails(publicClient!, contract, proposalId),
+    enabled: !!publicClient && Number.isInteger(proposalId) && proposalId > 0,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.LOANS })
+  }, [queryClient])
+
+  useWatchContractEvent({ ...contract, eventName: 'LoanVoteCast', args: { proposalId: BigInt(proposalId || 0) }, onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'LoanRepaymentMade', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'LoanDefaulted', onLogs: invalidate })
+
+  return query
+}
+
+// Approved proposals waiting out the timelock delay, plus the execute/cancel actions
+export function useTimelockQueue() {
+  const { address } = useAccount()
+  const contract = useDAOContract()
+  const daoClient = useDAOClient()
+  const queryClient = useQueryClient()
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+
+  const { data: timelockDelay } = useReadContract({
+    ...contract,
+    functionName: 'timelockDelay',
+  })
+
+  const { data: guardian } = useReadContract({
+    ...contract,
+    functionName: 'guardian',
+  })
+
+  const query = useQuery({
+    queryKey: [...QUERY_KEYS.PROPOSALS, contract.address, 'queued'],
+    queryFn: () => daoClient!.getQueuedProposals(),
+    enabled: !!daoClient,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PROPOSALS })
+  }, [queryClient])
+
+  useWatchContractEvent({ ...contract, eventName: 'ProposalQueued', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'QueuedProposalExecuted', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'ProposalCancelled', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'ProposalExecutionFailed', onLogs: invalidate })
+
+  const executeQueuedProposal = async (proposalId: number) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'executeQueuedProposal',
+        args: [BigInt(proposalId)],
+      })
+    } catch (err) {
+      console.error('Queued proposal execution failed:', err)
+      throw err
+    }
+  }
+
+  const cancelQueuedProposal = async (proposalId: number) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'cancelQueuedProposal',
+        args: [BigInt(proposalId)],
+      })
+    } catch (err) {
+      console.error('Queued proposal cancellation failed:', err)
+      throw err
+    }
+  }
+
+  return {
+    queuedProposals: query.data ?? [],
+    isLoading: query.isLoading,
+    timelockDelay: Number(timelockDelay || 0),
+    isGuardian: !!address && !!guardian && guardian.toLowerCase() === address.toLowerCase(),
+    executeQueuedProposal,
+    cancelQueuedProposal,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+// Voting power delegation for the connected member, plus every active delegation in the DAO
+export function useDelegation() {
+  const { address } = useAccount()
+  const contract = useDAOContract()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+
+  const { data: currentDelegate, refetch: refetchDelegate } = useReadContract({
+    ...contract,
+    functionName: 'delegates',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address,
+    },
+  })
+
+  const { data: votingPower, refetch: refetchVotingPower } = useReadContract({
+    ...contract,
+    functionName: 'getVotes',
+    args: address ? [address] : undefined,
+    query: {
+      enabled: !!address,
+    },
+  })
+
+  // Replay DelegateChanged to get each member's latest delegate; undelegating points back at the member
+  const query = useQuery({
+    queryKey: [...QUERY_KEYS.MEMBERS, contract.address, 'delegations'],
+    queryFn: async (): Promise<Delegation[]> => {
+      const logs = await publicClient!.getContractEvents({
+        ...contract,
+        eventName: 'DelegateChanged',
+        fromBlock: 'earliest',
+      })
+      const latest = new Map<string, string>()
+      logs.forEach(log => latest.set(log.args.delegator!, log.args.toDelegate!))
+      return Array.from(latest, ([delegator, delegate]) => ({ delegator, delegate }))
+        .filter(({ delegator, delegate }) => delegator.toLowerCase() !== delegate.toLowerCase())
+    },
+    enabled: !!publicClient,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.MEMBERS })
+    refetchDelegate()
+    refetchVotingPower()
+  }, [queryClient, refetchDelegate, refetchVotingPower])
+
+  useWatchContractEvent({ ...contract, eventName: 'DelegateChanged', onLogs: invalidate })
+
+  const delegate = async (delegateAddress: string) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'delegate',
+        args: [delegateAddress as `0x${string}`],
+      })
+    } catch (err) {
+      console.error('Delegation failed:', err)
+      throw err
+    }
+  }
+
+  const undelegate = async () => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'undelegate',
+      })
+    } catch (err) {
+      console.error('Undelegation failed:', err)
+      throw err
+    }
+  }
+
+  const delegations = query.data ?? []
+  const isSelf = (account?: string) => !!address && account?.toLowerCase() === address.toLowerCase()
+
+  return {
+    delegations,
+    isLoading: query.isLoading,
+    votingPower: Number(votingPower || 0),
+    // Undefined until loaded; the member's own address when they have not delegated
+    currentDelegate,
+    isDelegating: !!currentDelegate && !isSelf(currentDelegate),
+    receivedDelegations: delegations.filter(delegation => isSelf(delegation.delegate)),
+    delegate,
+    undelegate,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+/**
+ * A multi-option proposal with its ballots replayed from MultiOptionVoteCast.
+ * Ranked-choice proposals are tallied here, and a committed result is checked
+ * against that tally.
+ */
+export function useMultiOptionProposal(proposalId?: number) {
+  const contract = useDAOContract()
+  const daoClient = useDAOClient()
+  const publicClient = usePublicClient()
+  const queryClient = useQueryClient()
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+
+  const query = useQuery({
+    queryKey: [...QUERY_KEYS.PROPOSALS, contract.address, 'multi-option', proposalId],
+    queryFn: async () => {
+      const [proposal, logs] = await Promise.all([
+        daoClient!.getMultiOptionProposal(proposalId!),
+        publicClient!.getContractEvents({
+          ...contract,
+          eventName: 'MultiOptionVoteCast',
+          args: { proposalId: BigInt(proposalId!) },
+          fromBlock: 'earliest',
+        }),
+      ])
+      const ballots: MultiOptionBallot[] = logs.map(log => ({
+        voter: log.args.voter!,
+        weight: log.args.weight!,
+        choices: log.args.choices!.map(Number),
+      }))
+      const rankedTally =
+        proposal.countingMethod === CountingMethod.RANKED_CHOICE
+          ? tallyRankedChoice(ballots, proposal.options.length)
+          : undefined
+      return { proposal, ballots, rankedTally }
+    },
+    enabled: !!daoClient && !!publicClient && proposalId !== undefined,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PROPOSALS })
+  }, [queryClient])
+
+  useWatchContractEvent({ ...contract, eventName: 'MultiOptionVoteCast', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'MultiOptionResult', onLogs: invalidate })
+
+  const vote = async (choices: number[]) => {
+    if (proposalId === undefined) return
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'voteOnMultiOptionProposal',
+        args: [BigInt(proposalId), choices.map(choice => BigInt(choice))],
+      })
+    } catch (err) {
+      console.error('Multi-option vote failed:', err)
+      throw err
+    }
+  }
+
+  // Admins commit the tally computed from the replayed ballots
+  const commitRankedChoiceResult = async () => {
+    const tally = query.data?.rankedTally
+    if (proposalId === undefined || !tally) return
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'commitRankedChoiceResult',
+        args: [BigInt(proposalId), BigInt(tally.winningOption), tally.resultHash],
+      })
+    } catch (err) {
+      console.error('Ranked-choice result commitment failed:', err)
+      throw err
+    }
+  }
+
+  const { proposal, ballots = [], rankedTally } = query.data ?? {}
+  // Undefined until a ranked-choice result is committed
+  const resultVerified =
+    proposal?.resultHash && proposal.winningOption !== undefined
+      ? verifyRankedChoiceResult(ballots, proposal.options.length, {
+          ballotsHash: proposal.ballotsHash,
+          winningOption: proposal.winningOption,
+          resultHash: proposal.resultHash,
+        })
+      : undefined
+
+  return {
+    proposal,
+    ballots,
+    rankedTally,
+    resultVerified,
+    isLoading: query.isLoading,
+    vote,
+    commitRankedChoiceResult,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+// Voice credit budget and tally of a quadratic treasury proposal for the connected member
+export function useQuadraticVoting(proposalId?: number) {
+  const { address } = useAccount()
+  const contract = useDAOContract()
+  const daoClient = useDAOClient()
+  const queryClient = useQueryClient()
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+
+  const enabled = !!daoClient && proposalId !== undefined
+
+  const creditsQuery = useQuery({
+    queryKey: [...QUERY_KEYS.PROPOSALS, contract.address, 'voice-credits', proposalId, address],
+    queryFn: () => daoClient!.getVoiceCredits(proposalId!, address!),
+    enabled: enabled && !!address,
+  })
+
+  const tallyQuery = useQuery({
+    queryKey: [...QUERY_KEYS.PROPOSALS, contract.address, 'quadratic-tally', proposalId],
+    queryFn: () => daoClient!.getQuadraticTally(proposalId!),
+    enabled,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PROPOSALS })
+  }, [queryClient])
+
+  useWatchContractEvent({ ...contract, eventName: 'QuadraticVoteCast', onLogs: invalidate })
+
+  const voteWithCredits = async (support: boolean, credits: number) => {
+    if (proposalId === undefined) return
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'voteOnQuadraticTreasuryProposal',
+        args: [BigInt(proposalId), support, BigInt(credits)],
+      })
+    } catch (err) {
+      console.error('Quadratic voting failed:', err)
+      throw err
+    }
+  }
+
+  const budget = creditsQuery.data?.budget ?? 0
+  const spent = creditsQuery.data?.spent ?? 0
+
+  return {
+    budget,
+    spent,
+    remaining: budget - spent,
+    hasVoted: spent > 0,
+    tally: tallyQuery.data,
+    isLoading: creditsQuery.isLoading || tallyQuery.isLoading,
+    voteWithCredits,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+/**
+ * Commit-reveal voting on a private loan proposal. A vote is committed while
+ * voting is open and only counts once revealed during the reveal period.
+ */
+export function usePrivateVoting(proposalId?: number) {
+  const { address } = useAccount()
+  const contract = useDAOContract()
+  const daoClient = useDAOClient()
+  const queryClient = useQueryClient()
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+
+  const enabled = !!daoClient && proposalId !== undefined
+
+  const voteQuery = useQuery({
+    queryKey: [...QUERY_KEYS.PROPOSALS, contract.address, 'private-vote', proposalId, address],
+    queryFn: () => daoClient!.getPrivateVote(proposalId!, address!),
+    enabled: enabled && !!address,
+  })
+
+  const unrevealedQuery = useQuery({
+    queryKey: [...QUERY_KEYS.PROPOSALS, contract.address, 'unrevealed-votes', proposalId],
+    queryFn: () => daoClient!.getUnrevealedVotes(proposalId!),
+    enabled,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PROPOSALS })
+  }, [queryClient])
+
+  useWatchContractEvent({ ...contract, eventName: 'PrivateVoteCast', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'PrivateVoteRevealed', onLogs: invalidate })
+
+  const commitVote = async ({ commitment, nullifier }: PrivateVoteCommitment, proof: PrivateVoteProof) => {
+    if (proposalId === undefined) return
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'commitPrivateVote',
+        args: [BigInt(proposalId), commitment, nullifier, toSolidityProof(proof)],
+      })
+    } catch (err) {
+      console.error('Committing private vote failed:', err)
+      throw err
+    }
+  }
+
+  // `proof` must be generated with `reveal: true` for the same option
+  const revealVote = async (option: PrivateVoteOption, proof: PrivateVoteProof) => {
+    if (proposalId === undefined) return
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'revealPrivateVote',
+        args: [BigInt(proposalId), PRIVATE_VOTE_CHOICES[option], toSolidityProof(proof)],
+      })
+    } catch (err) {
+      console.error('Revealing private vote failed:', err)
+      throw err
+    }
+  }
+
+  // The nullifier stays on-chain after a reveal while the commitment is cleared
+  const hasCommitted = !!voteQuery.data && voteQuery.data.nullifier !== zeroHash
+  const hasRevealed = hasCommitted && voteQuery.data!.commitment === zeroHash
+
+  return {
+    hasCommitted,
+    hasRevealed,
+    unrevealedVotes: unrevealedQuery.data ?? 0,
+    isLoading: voteQuery.isLoading || unrevealedQuery.isLoading,
+    commitVote,
+    revealVote,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+/**
+ * Anonymous voting on private loan proposals created at maximum privacy. The
+ * member registers an identity in the DAO's member tree once; each vote then
+ * proves membership without naming the account. Sending the vote from the
+ * member's own wallet links the two again, so `proveVote` lets a relayer or
+ * another account submit it instead.
+ */
+export function useAnonymousVoting(proposalId?: number) {
+  const { address } = useAccount()
+  const contract = useDAOContract()
+  const daoClient = useDAOClient()
+  const queryClient = useQueryClient()
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+
+  const secret = address ? loadMemberIdentity(contract.address, address) : null
+
+  const identityQuery = useQuery({
+    queryKey: [...QUERY_KEYS.MEMBERS, contract.address, 'identity', address],
+    queryFn: () => daoClient!.getIdentityCommitment(address!),
+    enabled: !!daoClient && !!address,
+  })
+
+  const votedQuery = useQuery({
+    queryKey: [...QUERY_KEYS.PROPOSALS, contract.address, 'anonymous-vote', proposalId, secret],
+    queryFn: () => daoClient!.isAnonymousNullifierUsed(proposalId!, anonymousVoteNullifier(secret!, proposalId!)),
+    enabled: !!daoClient && proposalId !== undefined && !!secret,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.MEMBERS })
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.PROPOSALS })
+  }, [queryClient])
+
+  useWatchContractEvent({ ...contract, eventName: 'IdentityRegistered', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'IdentityRemoved', onLogs: invalidate })
+  useWatchContractEvent({ ...contract, eventName: 'AnonymousVoteCast', onLogs: invalidate })
+
+  // Saved before submitting so a registered identity is never lost
+  const registerIdentity = async () => {
+    if (!address) return
+    const identity = generateIdentity()
+    saveMemberIdentity(contract.address, address, identity.secret)
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'registerIdentity',
+        args: [identity.commitment],
+      })
+    } catch (err) {
+      console.error('Registering anonymous identity failed:', err)
+      throw err
+    }
+  }
+
+  const proveVote = async (support: boolean) => {
+    if (!daoClient || proposalId === undefined) throw new Error('DAO client not ready')
+    if (!secret) throw new Error('No anonymous identity is stored in this browser')
+
+    const proposal = await daoClient.getLoanProposal(proposalId)
+    if (!proposal) throw new Error('Loan proposal not found')
+    const [membershipProof, excludedIdentity] = await Promise.all([
+      daoClient.getMembershipProof(identityCommitment(secret), proposalId),
+      daoClient.getIdentityCommitment(proposal.borrower),
+    ])
+    return proveAnonymousVote({ proposalId, support, secret, membershipProof, excludedIdentity })
+  }
+
+  const castVote = async (support: boolean) => {
+    if (proposalId === undefined) return
+    try {
+      const { proof, publicSignals } = await proveVote(support)
+      await writeContract({
+        ...contract,
+        functionName: 'castAnonymousVote',
+        args: [BigInt(proposalId), support, BigInt(publicSignals[1]), BigInt(publicSignals[0]), toSolidityProof({ proof })],
+      })
+    } catch (err) {
+      console.error('Casting anonymous vote failed:', err)
+      throw err
+    }
+  }
+
+  // The identity on-chain must be the one this browser holds the secret for
+  const hasIdentity = !!identityQuery.data && identityQuery.data !== BigInt(0)
+  const canVote = hasIdentity && !!secret && identityCommitment(secret) === identityQuery.data
+
+  return {
+    hasIdentity,
+    canVote,
+    hasVoted: votedQuery.data ?? false,
+    isLoading: identityQuery.isLoading || votedQuery.isLoading,
+    registerIdentity,
+    proveVote,
+    castVote,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+// One store for the page, so every component sees the same keys
+const encryptionKeyStore = createIndexedDBKeyStore()
+
+/**
+ * The member's wallet-derived encryption keys. They stay sealed in this
+ * browser's IndexedDB; the public half of the document key is published
+ * on-chain or in an ENS text record so other members can share documents to
+ * it, and the voting key encrypts private ballots without a password.
+ */
+export function useEncryptionKeys() {
+  const { address, chainId } = useAccount()
+  const contract = useDAOContract()
+  const daoClient = useDAOClient()
+  const publicClient = usePublicClient()
+  const { data: walletClient } = useWalletClient()
+  const queryClient = useQueryClient()
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+
+  const manager = useMemo(
+    () =>
+      address && walletClient
+        ? createKeyManager({
+            account: address,
+            chainId: chainId || 31337,
+            verifyingContract: contract.address,
+            signTypedData: typedData => walletClient.signTypedData({ ...typedData, account: address }),
+            store: encryptionKeyStore,
+          })
+        : undefined,
+    [address, chainId, contract.address, walletClient]
+  )
+
+  const keysQueryKey = [...QUERY_KEYS.MEMBERS, contract.address, 'encryption-keys', address]
+
+  const keysQuery = useQuery({
+    queryKey: keysQueryKey,
+    queryFn: () => manager!.list(),
+    enabled: !!manager,
+  })
+
+  // Only stored keys are opened here; creating one asks the wallet to sign, so it waits for `unlock`
+  const keyPairsQuery = useQuery({
+    queryKey: [...keysQueryKey, 'active'],
+    queryFn: async () => ({ document: await manager!.get('document'), voting: await manager!.get('voting') }),
+    enabled: !!manager,
+  })
+
+  const publishedQuery = useQuery({
+    queryKey: [...QUERY_KEYS.MEMBERS, contract.address, 'published-encryption-key', address],
+    queryFn: () => daoClient!.getEncryptionKey(address!),
+    enabled: !!daoClient && !!address,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.MEMBERS })
+  }, [queryClient])
+
+  useWatchContractEvent({ ...contract, eventName: 'EncryptionKeyPublished', onLogs: invalidate })
+
+  const requireManager = () => {
+    if (!manager) throw new Error('Connect a wallet to manage encryption keys')
+    return manager
+  }
+
+  // Runs a key manager call and refreshes the key list once it settles
+  const updateKeys = async <T>(action: (manager: KeyManager) => Promise<T>) => {
+    try {
+      return await action(requireManager())
+    } finally {
+      queryClient.invalidateQueries({ queryKey: keysQueryKey })
+    }
+  }
+
+  const publish = async (publicKey: Hex | null) => {
+    try {
+      await writeContract({
+        ...contract,
+        functionName: 'setEncryptionKey',
+        args: [publicKey ?? zeroHash],
+      })
+    } catch (err) {
+      console.error('Publishing encryption key failed:', err)
+      throw err
+    }
+  }
+
+  const publishToENS = async (ensName: string, publicKey: Hex) => {
+    if (!publicClient || !walletClient) throw new Error('Connect a wallet to update ENS records')
+    return setEnsEncryptionKey(publicClient, walletClient, ensName, publicKey)
+  }
+
+  const resolveKey = useCallback(
+    async (member: Address) => {
+      if (!daoClient || !publicClient) return null
+      return resolveEncryptionKey(daoClient, publicClient, member)
+    },
+    [daoClient, publicClient]
+  )
+
+  const keys = keysQuery.data ?? []
+  const documentKey = keyPairsQuery.data?.document ?? null
+
+  return {
+    keys,
+    documentKey,
+    votingKey: keyPairsQuery.data?.voting ?? null,
+    // The member as a document recipient, once they have a document key
+    recipient: documentKey && address ? { address, publicKey: documentKey.publicKey } : undefined,
+    publishedKey: publishedQuery.data ?? null,
+    isPublished: !!documentKey && documentKey.publicKey === publishedQuery.data,
+    isLoading: keysQuery.isLoading || publishedQuery.isLoading,
+    unlock: (purpose: KeyPurpose) => updateKeys(manager => manager.unlock(purpose)),
+    rotate: (purpose: KeyPurpose) => updateKeys(manager => manager.rotate(purpose)),
+    recover: (purpose: KeyPurpose, version: number) => updateKeys(manager => manager.recover(purpose, version)),
+    remove: (id: string) => updateKeys(manager => manager.remove(id)),
+    restoreBackup: (backup: string, password: string) =>
+      updateKeys(manager => manager.restoreBackup(backup, password)),
+    createBackup: (password: string, ids?: string[]) => requireManager().createBackup(password, ids),
+    findKeyPair: (publicKey: Hex) => requireManager().findKeyPair(publicKey),
+    publish,
+    publishToENS,
+    resolveKey,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+// An anchored manifest, with its verified contents or why they failed verification
+export interface AnchoredDocumentManifest {
+  anchor: DocumentManifestAnchor
+  manifest: DocumentManifest | null
+  error: string | null
+}
+
+/**
+ * Signed document manifests anchored to a loan or loan proposal, oldest
+ * first. Each one is fetched and checked against its on-chain digest and
+ * signer before its files are listed; `attachDocuments` signs, stores and
+ * anchors a new one.
+ */
+export function useDocumentManifests(entityType: ManifestEntityType, entityId?: number) {
+  const { address, chainId } = useAccount()
+  const contract = useDAOContract()
+  const daoClient = useDAOClient()
+  const { data: walletClient } = useWalletClient()
+  const queryClient = useQueryClient()
+  const { writeContract, isPending, error, isSuccess } = useWriteContract()
+
+  const query = useQuery({
+    queryKey: [...QUERY_KEYS.LOANS, contract.address, 'manifests', entityType, entityId],
+    queryFn: async (): Promise<AnchoredDocumentManifest[]> => {
+      const anchors =
+        entityType === 'loan'
+          ? await daoClient!.getLoanManifests(entityId!)
+          : await daoClient!.getProposalManifests(entityId!)
+      const expected = { chainId: chainId || 31337, dao: contract.address, entityType, entityId }
+      return Promise.all(
+        anchors.map(async anchor => {
+          try {
+            return { anchor, manifest: await fetchDocumentManifest(anchor, expected), error: null }
+          } catch (err) {
+            return { anchor, manifest: null, error: err instanceof Error ? err.message : 'Manifest could not be verified' }
+          }
+        })
+      )
+    },
+    enabled: !!daoClient && entityId !== undefined,
+  })
+
+  const invalidate = useCallback(() => {
+    queryClient.invalidateQueries({ queryKey: QUERY_KEYS.LOANS })
+  }, [queryClient])
+
+  useWatchContractEvent({ ...contract, eventName: 'DocumentManifestAnchored', onLogs: invalidate })
+
+  const attachDocuments = async (documents: DocumentMetadata[]) => {
+    if (!address || !walletClient) throw new Error('Connect a wallet to sign document manifests')
+    if (entityId === undefined) throw new Error(`No ${entityType.replace('_', ' ')} to attach documents to`)
+    try {
+      const manifest = await signDocumentManifest(
+        {
+          chainId: chainId || 31337,
+          dao: contract.address,
+          entityType,
+          entityId,
+          signer: address,
+          files: documents.map(toManifestFile),
+        },
+        typedData => walletClient.signTypedData({ ...typedData, account: address })
+      )
+      const { cid, digest } = await pinDocumentManifest(manifest)
+      const args = [BigInt(entityId), cid, digest] as const
+      if (entityType === 'loan') {
+        await writeContract({ ...contract, functionName: 'anchorLoanManifest', args })
+      } else {
+        await writeContract({ ...contract, functionName: 'anchorProposalManifest', args })
+      }
+      return manifest
+    } catch (err) {
+      console.error('Attaching documents failed:', err)
+      throw err
+    }
+  }
+
+  const manifests = query.data ?? []
+
+  return {
+    manifests,
+    // The latest verified manifest lists the current documents
+    latest: [...manifests].reverse().find(entry => entry.manifest)?.manifest ?? null,
+    isLoading: query.isLoading,
+    attachDocuments,
+    isPending,
+    error,
+    isSuccess,
+  }
+}
+
+// Treasury history comes from the event indexer; it lags the chain by at most one poll
+export function useTreasuryTransactions(limit: number = 20) {
+  return useQuery({
+    queryKey: [...QUERY_KEYS.TREASURY, 'transactions', limit],
+    queryFn: () => fetchTreasuryTransactions(limit),
+    refetchInterval: 15000,
+  })
+}
+
 // Event listening hook
 export function useDAOEvents() {
   const contract = useDAOContract()
@@ -1,9 +1,14 @@
-import { useEffect, useState, useCallback } from 'react'
+import { useEffect, useState, useCallback, useRef } from 'react'
+import { useChainId, usePublicClient } from 'wagmi'
+import type { Address, Hash, PublicClient } from 'viem'
+import { UNIFIED_LENDING_DAO_ABI } from '@/lib/contract-abi'
+import { getContractAddress } from '@/lib/web3'
+import { formatAddress, formatEther } from '@/lib/utils'
 
 // Event types for the DAO system
 export interface DAOEvent {
   id: string
-  type: 'loan_created' | 'vote_cast' | 'proposal_created' | 'member_joined' | 'yield_distributed' | 'loan_repaid' | 'document_uploaded'
+  type: 'loan_created' | 'vote_cast' | 'proposal_created' | 'member_joined' | 'yield_distributed' | 'loan_repaid' | 'loan_defaulted' | 'document_uploaded'
   blockNumber: number
   transactionHash: string
   timestamp: Date
@@ -22,61 +27,246 @@ export interface NotificationData {
   metadata?: Record<string, unknown>
 }
 
-// Mock event data generator
-const generateMockEvent = (type: DAOEvent['type']): DAOEvent => {
-  const events = {
-    loan_created: {
-      title: 'New Loan Request',
-      message: 'A new loan proposal has been created',
-      data: { amount: '10.5 ETH', proposer: '0x1234...5678' }
-    },
-    vote_cast: {
-      title: 'Vote Cast',
-      message: 'A member has voted on a proposal',
-      data: { proposal: 'Proposal #42', vote: 'for' }
-    },
-    proposal_created: {
-      title: 'New Proposal',
-      message: 'A new governance proposal has been created',
-      data: { title: 'Increase Max Loan Amount', creator: '0x2345...6789' }
-    },
-    member_joined: {
-      title: 'New Member',
-      message: 'A new member has joined the DAO',
-      data: { address: '0x3456...7890', joiningFee: '1.0 ETH' }
-    },
-    yield_distributed: {
-      title: 'Yield Distribution',
-      message: 'Restaking yields have been distributed to members',
-      data: { totalYield: '25.3 ETH', recipients: 156 }
-    },
-    loan_repaid: {
-      title: 'Loan Repaid',
-      message: 'A loan has been successfully repaid',
-      data: { amount: '12.1 ETH', borrower: '0x4567...8901' }
-    },
-    document_uploaded: {
-      title: 'Document Uploaded',
-      message: 'A new document has been uploaded to IPFS',
-      data: { filename: 'Financial_Report_Q3.pdf', encrypted: true }
+// Decoded DAO contract log as returned by getContractEvents / watchContractEvent
+interface DAOContractLog {
+  eventName: string
+  args: Record<string, unknown>
+  blockNumber: bigint | null
+  transactionHash: Hash | null
+  logIndex: number | null
+}
+
+// Position of the last delivered log; survives page reloads in localStorage
+interface EventCursor {
+  blockNumber: bigint
+  logIndex: number
+}
+
+const CURSOR_STORAGE_KEY = 'dao-event-cursor'
+// Keeps catch-up getLogs requests inside the range limits of public RPC providers
+const MAX_LOG_RANGE = BigInt(2000)
+
+const DOCUMENT_LABELS: Record<string, string> = {
+  member_kyc: 'KYC document',
+  loan_proposal: 'Loan proposal document',
+  loan_document: 'Loan document',
+}
+
+const eth = (value: unknown) => `${formatEther(value as bigint)} ETH`
+
+const cursorKey = (chainId: number, address: Address) => `${CURSOR_STORAGE_KEY}:${chainId}:${address.toLowerCase()}`
+
+const loadCursor = (key: string): EventCursor | null => {
+  if (typeof window === 'undefined') return null
+  try {
+    const stored = window.localStorage.getItem(key)
+    if (!stored) return null
+    const { blockNumber, logIndex } = JSON.parse(stored)
+    return { blockNumber: BigInt(blockNumber), logIndex }
+  } catch {
+    return null
+  }
+}
+
+const saveCursor = (key: string, cursor: EventCursor) => {
+  if (typeof window === 'undefined') return
+  window.localStorage.setItem(key, JSON.stringify({ blockNumber: cursor.blockNumber.toString(), logIndex: cursor.logIndex }))
+}
+
+const isAfter = (log: DAOContractLog, cursor: EventCursor) =>
+  log.blockNumber! > cursor.blockNumber || (log.blockNumber === cursor.blockNumber && log.logIndex! > cursor.logIndex)
+
+// Map a contract log onto the DAOEvent union; events the UI does not surface return null
+const toDAOEvent = (log: DAOContractLog, logs: DAOContractLog[], timestamp: number): DAOEvent | null => {
+  const { args } = log
+  let type: DAOEvent['type']
+  let data: Record<string, unknown>
+
+  switch (log.eventName) {
+    case 'MemberActivated': {
+      // The fee is reported by MembershipFeeReceived in the same transaction
+      const fee = logs.find(other =>
+        other.eventName === 'MembershipFeeReceived' && other.transactionHash === log.transactionHash
+      )
+      type = 'member_joined'
+      data = {
+        member: args.member,
+        address: formatAddress(args.member as string),
+        joiningFee: fee ? eth(fee.args.amount) : 'the membership',
+      }
+      break
     }
+    case 'LoanRequested':
+      type = 'loan_created'
+      data = {
+        proposalId: Number(args.proposalId),
+        borrower: args.borrower,
+        amount: eth(args.amount),
+        proposer: formatAddress(args.borrower as string),
+      }
+      break
+    case 'TreasuryWithdrawalProposed':
+      type = 'proposal_created'
+      data = {
+        proposalId: Number(args.proposalId),
+        title: `Treasury withdrawal of ${eth(args.amount)}`,
+        creator: formatAddress(args.proposer as string),
+        destination: args.destination,
+      }
+      break
+    case 'GovernanceProposalCreated':
+      type = 'proposal_created'
+      data = {
+        proposalId: Number(args.proposalId),
+        // The on-chain description starts with the title entered on the create page
+        title: String(args.description).split('\n')[0],
+        creator: formatAddress(args.proposer as string),
+      }
+      break
+    case 'LoanVoteCast':
+    case 'TreasuryWithdrawalVoteCast':
+    case 'GovernanceVoteCast':
+      type = 'vote_cast'
+      data = {
+        proposalId: Number(args.proposalId),
+        voter: args.voter,
+        proposal: `Proposal #${args.proposalId}`,
+        vote: args.support ? 'for' : 'against',
+      }
+      break
+    case 'YieldDistributed':
+      type = 'yield_distributed'
+      data = { totalYield: eth(args.totalYield), memberShare: eth(args.memberShare), recipients: 'all' }
+      break
+    case 'LoanRepaid':
+      type = 'loan_repaid'
+      data = { loanId: Number(args.loanId), amount: eth(args.amount), borrower: formatAddress(args.borrower as string) }
+      break
+    case 'LoanDefaulted':
+      type = 'loan_defaulted'
+      data = {
+        loanId: Number(args.loanId),
+        borrower: formatAddress(args.borrower as string),
+        outstanding: eth(args.outstandingBalance),
+        recovered: eth(args.recoveredAmount),
+      }
+      break
+    case 'DocumentStored':
+      type = 'document_uploaded'
+      data = {
+        entityId: args.entityId?.toString(),
+        ipfsHash: args.ipfsHash,
+        filename: DOCUMENT_LABELS[args.entityType as string] ?? String(args.entityType),
+      }
+      break
+    default:
+      return null
   }
 
-  const eventInfo = events[type]
-  
   return {
-    id: `event-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    id: `${log.transactionHash}-${log.logIndex}`,
     type,
-    blockNumber: Math.floor(Math.random() * 1000000) + 18000000,
-    transactionHash: `0x${Math.random().toString(16).substr(2, 8)}...`,
-    timestamp: new Date(),
-    data: eventInfo.data,
-    processed: false
+    blockNumber: Number(log.blockNumber),
+    transactionHash: log.transactionHash!,
+    timestamp: new Date(timestamp * 1000),
+    data,
+    processed: false,
+  }
+}
+
+const toDAOEvents = async (publicClient: PublicClient, logs: DAOContractLog[]): Promise<DAOEvent[]> => {
+  const timestamps = new Map<bigint, number>()
+  for (const log of logs) {
+    if (!timestamps.has(log.blockNumber!)) {
+      const block = await publicClient.getBlock({ blockNumber: log.blockNumber! })
+      timestamps.set(log.blockNumber!, Number(block.timestamp))
+    }
+  }
+
+  return logs
+    .map(log => toDAOEvent(log, logs, timestamps.get(log.blockNumber!)!))
+    .filter((event): event is DAOEvent => event !== null)
+}
+
+export interface WatchDAOEventsOptions {
+  onEvents: (events: DAOEvent[]) => void
+  onError?: (error: Error) => void
+}
+
+/**
+ * Stream DAO events from the chain. Logs between the stored cursor and the
+ * current head are fetched with getLogs first, then new blocks are followed
+ * with watchContractEvent. Returns a function that stops the subscription.
+ */
+export const watchDAOEvents = (
+  publicClient: PublicClient,
+  address: Address,
+  { onEvents, onError }: WatchDAOEventsOptions
+): (() => void) => {
+  const key = cursorKey(publicClient.chain?.id ?? 0, address)
+  let cursor: EventCursor | null = null
+  let stopped = false
+  let unwatch: (() => void) | undefined
+  // Batches are processed one at a time so the cursor only moves forward
+  let queue = Promise.resolve()
+
+  const deliver = (logs: DAOContractLog[]) => {
+    queue = queue.then(async () => {
+      const pending = logs.filter(log => log.blockNumber !== null && (!cursor || isAfter(log, cursor)))
+      if (stopped || pending.length === 0) return
+
+      const events = await toDAOEvents(publicClient, pending)
+      if (stopped) return
+
+      const last = pending[pending.length - 1]
+      cursor = { blockNumber: last.blockNumber!, logIndex: last.logIndex! }
+      saveCursor(key, cursor)
+      if (events.length > 0) onEvents(events)
+    }).catch(error => onError?.(error as Error))
+    return queue
+  }
+
+  const start = async () => {
+    const head = await publicClient.getBlockNumber()
+    cursor = loadCursor(key)
+
+    if (cursor) {
+      for (let from = cursor.blockNumber; from <= head && !stopped; from += MAX_LOG_RANGE) {
+        const toBlock = from + MAX_LOG_RANGE - BigInt(1) < head ? from + MAX_LOG_RANGE - BigInt(1) : head
+        const logs = await publicClient.getContractEvents({ address, abi: UNIFIED_LENDING_DAO_ABI, fromBlock: from, toBlock })
+        await deliver(logs as DAOContractLog[])
+      }
+    } else {
+      // First visit: only events from now on
+      cursor = { blockNumber: head, logIndex: Number.MAX_SAFE_INTEGER }
+      saveCursor(key, cursor)
+    }
+    if (stopped) return
+
+    unwatch = publicClient.watchContractEvent({
+      address,
+      abi: UNIFIED_LENDING_DAO_ABI,
+      fromBlock: head + BigInt(1),
+      onLogs: logs => void deliver(logs as DAOContractLog[]),
+      onError: error => onError?.(error),
+    })
+  }
+
+  start().catch(error => onError?.(error as Error))
+
+  return () => {
+    stopped = true
+    unwatch?.()
   }
 }
 
 // Event listener hook
 export const useEventListener = () => {
+  const chainId = useChainId()
+  const publicClient = usePublicClient()
+  const address = getContractAddress(chainId)
+  const unwatchRef = useRef<(() => void) | null>(null)
+
   const [events, setEvents] = useState<DAOEvent[]>([])
   const [isListening, setIsListening] = useState(false)
   const [error, setError] = useState<string | null>(null)
@@ -85,30 +275,37 @@ export const useEventListener = () => {
     setEvents(prev => [event, ...prev.slice(0, 99)]) // Keep last 100 events
   }, [])
 
+  const stopListening = useCallback(() => {
+    unwatchRef.current?.()
+    unwatchRef.current = null
+    setIsListening(false)
+  }, [])
+
   const startListening = useCallback(() => {
+    if (!publicClient) {
+      setError('No RPC client is configured for the current network')
+      return stopListening
+    }
+
+    unwatchRef.current?.()
     setIsListening(true)
     setError(null)
 
-    // Mock event generation for demonstration
-    const interval = setInterval(() => {
-      const eventTypes: DAOEvent['type'][] = [
-        'loan_created', 'vote_cast', 'proposal_created', 
-        'member_joined', 'yield_distributed', 'loan_repaid', 'document_uploaded'
-      ]
-      const randomType = eventTypes[Math.floor(Math.random() * eventTypes.length)]
-      const mockEvent = generateMockEvent(randomType)
-      addEvent(mockEvent)
-    }, 15000 + Math.random() * 30000) // Random interval between 15-45 seconds
-
-    return () => {
-      clearInterval(interval)
-      setIsListening(false)
-    }
-  }, [addEvent])
+    unwatchRef.current = watchDAOEvents(publicClient, address, {
+      // Newest first, like addEvent
+      onEvents: newEvents => setEvents(prev => [...newEvents.reverse(), ...prev].slice(0, 100)),
+      onError: err => setError(err.message),
+    })
 
-  const stopListening = useCallback(() => {
-    setIsListening(false)
-  }, [])
+    return stopListening
+  }, [publicClient, address, stopListening])
+
+  // Follow network switches while listening, and stop on unmount
+  useEffect(() => {
+    if (unwatchRef.current) startListening()
+  }, [startListening])
+
+  useEffect(() => () => unwatchRef.current?.(), [])
 
   const markEventProcessed = useCallback((eventId: string) => {
     setEvents(prev => 
@@ -255,6 +452,12 @@ export const convertEventToNotification = (event: DAOEvent): Omit<NotificationDa
       type: 'success' as const,
       actionUrl: '/loans'
     },
+    loan_defaulted: {
+      title: 'Loan Defaulted',
+      message: `Loan #${event.data.loanId} by ${event.data.borrower} defaulted with ${event.data.outstanding} outstanding`,
+      type: 'warning' as const,
+      actionUrl: '/loans'
+    },
     document_uploaded: {
       title: 'Document Uploaded',
       message: `${event.data.filename} uploaded${event.data.encrypted ? ' (encrypted)' : ''}`,
@@ -271,11 +474,11 @@ export const convertEventToNotification = (event: DAOEvent): Omit<NotificationDa
 
 // Auto-notification hook that converts events to notifications
 export const useAutoNotifications = () => {
-  const { events, startListening, stopListening, isListening } = useEventListener()
+  const { events, startListening, stopListening, isListening, markEventProcessed } = useEventListener()
   const { addNotification, ...notificationMethods } = useNotifications()
   const [autoNotifyEnabled, setAutoNotifyEnabled] = useState(true)
 
-  // Convert new events to notifications
+  // Convert new events to notifications, once each
   useEffect(() => {
     if (!autoNotifyEnabled) return
 
@@ -283,9 +486,10 @@ export const useAutoNotifications = () => {
       if (!event.processed) {
         const notification = convertEventToNotification(event)
         addNotification(notification)
+        markEventProcessed(event.id)
       }
     })
-  }, [events, autoNotifyEnabled, addNotification])
+  }, [events, autoNotifyEnabled, addNotification, markEventProcessed])
 
   const enableAutoNotifications = useCallback(() => {
     setAutoNotifyEnabled(true)
@@ -419,6 +623,12 @@ export const convertEventToActivity = (event: DAOEvent): ActivityItem => {
       description: `${event.data.amount} loan successfully repaid`,
       user: event.data.borrower
     },
+    loan_defaulted: {
+      type: 'loan' as const,
+      title: 'Loan Defaulted',
+      description: `${event.data.recovered} recovered of ${event.data.outstanding} outstanding`,
+      user: event.data.borrower
+    },
     document_uploaded: {
       type: 'document' as const,
       title: 'Document Uploaded',
@@ -440,38 +650,33 @@ export const convertEventToActivity = (event: DAOEvent): ActivityItem => {
   }
 }
 
-// WebSocket connection for real-time updates (mock implementation)
+// Event stream for code outside React; shares the subscription and cursor logic of useEventListener
 export class DAOWebSocket {
-  private ws: WebSocket | null = null
+  private unwatch: (() => void) | null = null
   private reconnectAttempts = 0
   private maxReconnectAttempts = 5
   private reconnectDelay = 1000
   private eventHandlers: Map<string, ((...args: unknown[]) => void)[]> = new Map()
 
-  constructor(private url: string = 'wss://mock-dao-websocket.com') {
-    // Mock WebSocket for development
-  }
+  constructor(private publicClient: PublicClient, private address: Address) {}
 
   connect() {
-    try {
-      // Mock WebSocket connection
-      this.reconnectAttempts = 0
-      this.emit('connected', { timestamp: new Date() })
-      
-      // Simulate periodic events
-      setInterval(() => {
-        this.simulateEvent()
-      }, 20000 + Math.random() * 20000) // Random events every 20-40 seconds
-      
-    } catch (error) {
-      this.handleError(error)
-    }
+    if (this.unwatch) return
+
+    this.unwatch = watchDAOEvents(this.publicClient, this.address, {
+      onEvents: events => {
+        this.reconnectAttempts = 0
+        events.forEach(event => this.emit('dao_event', event))
+      },
+      onError: error => this.handleError(error),
+    })
+    this.emit('connected', { timestamp: new Date() })
   }
 
   disconnect() {
-    if (this.ws) {
-      this.ws.close()
-      this.ws = null
+    if (this.unwatch) {
+      this.unwatch()
+      this.unwatch = null
     }
   }
 
@@ -499,21 +704,12 @@ export class DAOWebSocket {
     }
   }
 
-  private simulateEvent() {
-    const eventTypes: DAOEvent['type'][] = [
-      'loan_created', 'vote_cast', 'proposal_created', 
-      'member_joined', 'yield_distributed', 'loan_repaid', 'document_uploaded'
-    ]
-    const randomType = eventTypes[Math.floor(Math.random() * eventTypes.length)]
-    const mockEvent = generateMockEvent(randomType)
-    
-    this.emit('dao_event', mockEvent)
-  }
-
   private handleError(error: unknown) {
-    console.error('WebSocket error:', error)
+    console.error('DAO event subscription error:', error)
     this.emit('error', error)
-    
+    this.disconnect()
+
+    // The cursor is persisted, so a reconnect resumes where the failed subscription stopped
     if (this.reconnectAttempts < this.maxReconnectAttempts) {
       setTimeout(() => {
         this.reconnectAttempts++
@@ -526,9 +722,9 @@ export class DAOWebSocket {
 // Global WebSocket instance
 let globalWebSocket: DAOWebSocket | null = null
 
-export const getWebSocketInstance = (): DAOWebSocket => {
+export const getWebSocketInstance = (publicClient: PublicClient, address: Address): DAOWebSocket => {
   if (!globalWebSocket) {
-    globalWebSocket = new DAOWebSocket()
+    globalWebSocket = new DAOWebSocket(publicClient, address)
   }
   return globalWebSocket
 }
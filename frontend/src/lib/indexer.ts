@@ -0,0 +1,127 @@
+import { INDEXER_URL } from '@/constants'
+
+// Client for the event indexer query API (contract/indexer). Amounts come back as wei decimal strings.
+
+export interface IndexedEvent {
+  blockNumber: number
+  logIndex: number
+  blockHash: string
+  transactionHash: string
+  eventName: string
+  args: Record<string, unknown>
+  timestamp: number
+}
+
+export type TreasuryTransactionType =
+  | 'deposit'
+  | 'membership_fee'
+  | 'loan_disbursement'
+  | 'loan_repayment'
+  | 'withdrawal'
+  | 'member_exit'
+  | 'stake'
+  | 'reward'
+
+export interface TreasuryTransaction {
+  type: TreasuryTransactionType
+  direction: 'in' | 'out'
+  amount: bigint
+  counterparty: string | null
+  blockNumber: number
+  logIndex: number
+  transactionHash: string
+  timestamp: number
+}
+
+export interface GovernanceStats {
+  totalProposals: number
+  approvedProposals: number
+  totalVotes: number
+  uniqueVoters: number
+  averageVotesPerProposal: number
+  totalMembers: number
+  activeMembers: number
+}
+
+export interface IndexerStatus {
+  address: string | null
+  chainId: string | null
+  cursor: { number: number; hash: string; timestamp: number } | null
+  events: number
+}
+
+export interface IndexedEventFilters {
+  event?: string | string[]
+  fromBlock?: number
+  toBlock?: number
+  limit?: number
+  offset?: number
+  order?: 'asc' | 'desc'
+  // Decoded event arguments to match, e.g. { proposalId: '1' }
+  args?: Record<string, string>
+}
+
+interface TreasuryTransactionRow {
+  type: TreasuryTransactionType
+  direction: 'in' | 'out'
+  amount: string | null
+  counterparty: string | null
+  block_number: number
+  log_index: number
+  transaction_hash: string
+  timestamp: number
+}
+
+async function request<T>(path: string, params?: URLSearchParams): Promise<T> {
+  const query = params && params.toString() ? `?${params}` : ''
+  const response = await fetch(`${INDEXER_URL}${path}${query}`)
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new Error(body.error || `Indexer request failed with status ${response.status}`)
+  }
+  return response.json()
+}
+
+export function fetchIndexerStatus(): Promise<IndexerStatus> {
+  return request('/status')
+}
+
+export function fetchIndexedEvents(filters: IndexedEventFilters = {}): Promise<IndexedEvent[]> {
+  const params = new URLSearchParams()
+  const events = Array.isArray(filters.event) ? filters.event : filters.event ? [filters.event] : []
+  events.forEach(event => params.append('event', event))
+  if (filters.fromBlock !== undefined) params.set('fromBlock', String(filters.fromBlock))
+  if (filters.toBlock !== undefined) params.set('toBlock', String(filters.toBlock))
+  if (filters.limit !== undefined) params.set('limit', String(filters.limit))
+  if (filters.offset !== undefined) params.set('offset', String(filters.offset))
+  if (filters.order) params.set('order', filters.order)
+  Object.entries(filters.args ?? {}).forEach(([name, value]) => params.set(name, value))
+
+  return request('/events', params)
+}
+
+export function fetchProposalTimeline(proposalId: number): Promise<IndexedEvent[]> {
+  return request(`/proposals/${proposalId}/timeline`)
+}
+
+export async function fetchTreasuryTransactions(limit: number = 20, offset: number = 0): Promise<TreasuryTransaction[]> {
+  const rows = await request<TreasuryTransactionRow[]>(
+    '/treasury/transactions',
+    new URLSearchParams({ limit: String(limit), offset: String(offset) })
+  )
+
+  return rows.map(row => ({
+    type: row.type,
+    direction: row.direction,
+    amount: BigInt(row.amount ?? 0),
+    counterparty: row.counterparty,
+    blockNumber: row.block_number,
+    logIndex: row.log_index,
+    transactionHash: row.transaction_hash,
+    timestamp: row.timestamp,
+  }))
+}
+
+export function fetchGovernanceStats(): Promise<GovernanceStats> {
+  return request('/stats/governance')
+}
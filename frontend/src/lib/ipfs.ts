@@ -1,4 +1,39 @@
-import { create } from 'ipfs-http-client'
+import {
+  IPFS_API_AUTH,
+  IPFS_API_URL,
+  IPFS_GATEWAY,
+  PINNING_SERVICE_TOKEN,
+  PINNING_SERVICE_URL,
+  STORAGE_BACKEND
+} from '@/constants'
+import { toHex } from 'viem'
+import type { Hex } from 'viem'
+import {
+  ENVELOPE_HEADER_LENGTH,
+  createDecryptionStream,
+  createStorageBackend,
+  encodeDocumentManifest,
+  encryptDocument,
+  findWrappedKey,
+  generateContentKey,
+  grantAccess,
+  loadAnchoredManifest,
+  manifestDigest,
+  readStream,
+  revokeAccess,
+  unwrapContentKey
+} from './storage'
+import type {
+  DocumentManifest,
+  DocumentRecipient,
+  EncryptionKeyPair,
+  EnvelopeSecret,
+  ManifestAnchor,
+  ManifestExpectation,
+  ManifestFile,
+  StorageBackend,
+  WrappedKey
+} from './storage'
 
 // IPFS client configuration
 const IPFS_GATEWAYS = [
@@ -7,26 +42,40 @@ const IPFS_GATEWAYS = [
   'https://cloudflare-ipfs.com/ipfs/'
 ]
 
-// Initialize IPFS client
-let ipfsClient: ReturnType<typeof create> | null = null
+// Storage backend chosen by NEXT_PUBLIC_STORAGE_BACKEND; created once so the memory mock keeps its content
+let storageBackend: StorageBackend | null = null
 
-try {
-  ipfsClient = create({
-    host: 'ipfs.infura.io',
-    port: 5001,
-    protocol: 'https',
-    headers: {
-      authorization: process.env.NEXT_PUBLIC_IPFS_AUTH || ''
-    }
-  })
-} catch {
-  console.warn('IPFS client initialization failed, using mock mode')
+export function getStorageBackend(): StorageBackend {
+  if (!storageBackend) {
+    storageBackend = createStorageBackend({
+      backend: STORAGE_BACKEND,
+      ipfsApiUrl: IPFS_API_URL,
+      ipfsApiAuthorization: IPFS_API_AUTH || undefined,
+      pinningServiceUrl: PINNING_SERVICE_URL,
+      pinningServiceToken: PINNING_SERVICE_TOKEN,
+      gateway: IPFS_GATEWAY
+    })
+  }
+  return storageBackend
+}
+
+// Whether documents go to a mock that never reaches IPFS; shown in the UI whenever it is
+export function isMockStorage(): boolean {
+  return getStorageBackend().mock
 }
 
-// Encryption utilities
+// base64 in slices, since spreading a large array into String.fromCharCode overflows the stack
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+// Encryption utilities for short strings such as ballots; documents use the chunked envelope in ./storage
 export async function encryptData(data: string, password: string): Promise<string> {
   const encoder = new TextEncoder()
-  const decoder = new TextDecoder()
   
   // Generate salt and IV
   const salt = crypto.getRandomValues(new Uint8Array(16))
@@ -67,7 +116,7 @@ export async function encryptData(data: string, password: string): Promise<strin
   combined.set(iv, salt.length)
   combined.set(new Uint8Array(encrypted), salt.length + iv.length)
   
-  return btoa(String.fromCharCode(...combined))
+  return bytesToBase64(combined)
 }
 
 export async function decryptData(encryptedData: string, password: string): Promise<string> {
@@ -75,9 +124,7 @@ export async function decryptData(encryptedData: string, password: string): Prom
   const decoder = new TextDecoder()
   
   // Decode base64
-  const combined = new Uint8Array(
-    atob(encryptedData).split('').map(char => char.charCodeAt(0))
-  )
+  const combined = Uint8Array.from(atob(encryptedData), char => char.charCodeAt(0))
   
   // Extract components
   const salt = combined.slice(0, 16)
@@ -116,94 +163,120 @@ export async function decryptData(encryptedData: string, password: string): Prom
   return decoder.decode(decrypted)
 }
 
-// IPFS upload with encryption
+// IPFS upload with encryption; any file type, encrypted as raw bytes with a password or content key
 export async function uploadToIPFS(
   file: File, 
   encrypt: boolean = false, 
-  password?: string
-): Promise<{ hash: string; size: number; encrypted: boolean }> {
+  secret?: EnvelopeSecret
+): Promise<{ hash: string; size: number; encrypted: boolean; mock: boolean; encryptionHeader?: Hex }> {
+  if (encrypt && !secret) {
+    throw new Error('A password is required to encrypt a document')
+  }
+  const storage = getStorageBackend()
+  const fileContent = new Uint8Array(await file.arrayBuffer())
+  const processedData = encrypt ? await encryptDocument(fileContent, secret!) : fileContent
+  
   try {
-    if (!ipfsClient) {
-      // Mock implementation for development
-      const mockHash = `Qm${Math.random().toString(36).substring(2).padEnd(44, 'a')}`
-      return {
-        hash: mockHash,
-        size: file.size,
-        encrypted: encrypt
-      }
-    }
-    
-    const fileContent = await file.arrayBuffer()
-    let processedData: Uint8Array
-    
-    if (encrypt && password) {
-      const fileText = new TextDecoder().decode(fileContent)
-      const encryptedText = await encryptData(fileText, password)
-      processedData = new TextEncoder().encode(encryptedText)
-    } else {
-      processedData = new Uint8Array(fileContent)
-    }
-    
-    const result = await ipfsClient.add(processedData, {
-      pin: true,
-      wrapWithDirectory: false
-    })
-    
+    const hash = await storage.put(processedData)
     return {
-      hash: result.cid.toString(),
+      hash,
       size: processedData.length,
-      encrypted: encrypt
+      encrypted: encrypt,
+      mock: storage.mock,
+      encryptionHeader: encrypt ? toHex(processedData.subarray(0, ENVELOPE_HEADER_LENGTH)) : undefined
     }
   } catch (error) {
     console.error('IPFS upload failed:', error)
-    throw new Error('Failed to upload document to IPFS')
+    throw new Error(`Failed to upload document to IPFS: ${error instanceof Error ? error.message : error}`)
   }
 }
 
-// IPFS download with decryption
+// Upload readable only by `recipients`: a fresh content key encrypts the file and is wrapped to each of them
+export async function uploadForRecipients(
+  file: File,
+  recipients: DocumentRecipient[]
+): Promise<{
+  hash: string
+  size: number
+  encrypted: boolean
+  mock: boolean
+  encryptionHeader?: Hex
+  keys: WrappedKey[]
+}> {
+  if (recipients.length === 0) {
+    throw new Error('A document needs at least one recipient')
+  }
+  const contentKey = generateContentKey()
+  const result = await uploadToIPFS(file, true, contentKey)
+  return { ...result, keys: await grantAccess([], contentKey, recipients) }
+}
+
+// IPFS download with decryption; encrypted documents are decrypted chunk by chunk as they arrive
 export async function downloadFromIPFS(
   hash: string, 
   encrypted: boolean = false, 
-  password?: string
+  password?: EnvelopeSecret
 ): Promise<{ content: Uint8Array; decrypted: boolean }> {
+  let stream: ReadableStream<Uint8Array>
   try {
-    if (!ipfsClient) {
-      // Mock implementation for development
-      const mockContent = new TextEncoder().encode(`Mock document content for ${hash}`)
-      return {
-        content: mockContent,
-        decrypted: false
-      }
-    }
-    
-    const chunks: Uint8Array[] = []
-    for await (const chunk of ipfsClient.cat(hash)) {
-      chunks.push(chunk)
-    }
-    
-    const fileData = new Uint8Array(chunks.reduce((acc, chunk) => acc + chunk.length, 0))
-    let offset = 0
-    for (const chunk of chunks) {
-      fileData.set(chunk, offset)
-      offset += chunk.length
-    }
-    
-    if (encrypted && password) {
-      const encryptedText = new TextDecoder().decode(fileData)
-      const decryptedText = await decryptData(encryptedText, password)
-      return {
-        content: new TextEncoder().encode(decryptedText),
-        decrypted: true
-      }
-    }
-    
-    return {
-      content: fileData,
-      decrypted: false
-    }
+    stream = await getStorageBackend().stream(hash)
   } catch (error) {
     console.error('IPFS download failed:', error)
-    throw new Error('Failed to download document from IPFS')
+    throw new Error(`Failed to download document from IPFS: ${error instanceof Error ? error.message : error}`)
+  }
+  
+  if (encrypted && password) {
+    return {
+      content: await readStream(stream.pipeThrough(createDecryptionStream(password))),
+      decrypted: true
+    }
+  }
+  
+  return {
+    content: await readStream(stream),
+    decrypted: false
+  }
+}
+
+// Content key of a recipient-encrypted document, unwrapped with the member's own key
+export async function openDocumentKey(
+  metadata: DocumentMetadata,
+  userAddress: string,
+  keyPair: EncryptionKeyPair
+): Promise<Uint8Array> {
+  const wrapped = findWrappedKey(metadata.keys ?? [], userAddress)
+  if (!wrapped) {
+    throw new Error('This document has not been shared with you')
+  }
+  return unwrapContentKey(wrapped, keyPair)
+}
+
+/**
+ * Share a recipient-encrypted document with more members. Only the manifest
+ * changes: the granting member unwraps the content key and wraps it again
+ * for each new recipient, so the file is not re-uploaded.
+ */
+export async function grantDocumentAccess(
+  metadata: DocumentMetadata,
+  granterAddress: string,
+  granterKeyPair: EncryptionKeyPair,
+  recipients: DocumentRecipient[]
+): Promise<DocumentMetadata> {
+  const contentKey = await openDocumentKey(metadata, granterAddress, granterKeyPair)
+  const keys = await grantAccess(metadata.keys ?? [], contentKey, recipients)
+  return withKeys(metadata, keys)
+}
+
+// Stop sharing a recipient-encrypted document with `addresses`
+export function revokeDocumentAccess(metadata: DocumentMetadata, addresses: string[]): DocumentMetadata {
+  return withKeys(metadata, revokeAccess(metadata.keys ?? [], addresses))
+}
+
+function withKeys(metadata: DocumentMetadata, keys: WrappedKey[]): DocumentMetadata {
+  return {
+    ...metadata,
+    keys,
+    permissions: { ...metadata.permissions, public: false, allowedUsers: keys.map(key => key.recipient.toLowerCase()) }
   }
 }
 
@@ -228,6 +301,9 @@ export interface DocumentMetadata {
   uploadedAt: Date
   encrypted: boolean
   hash: string
+  mock?: boolean // Stored by the mock backend, so not on IPFS
+  encryptionHeader?: Hex // Envelope header of encrypted documents, listed in signed manifests
+  keys?: WrappedKey[] // Content key wrapped for each recipient; absent for password-encrypted documents
   tags?: string[]
   permissions?: {
     public: boolean
@@ -240,17 +316,72 @@ export function createDocumentMetadata(
   file: File,
   hash: string,
   encrypted: boolean,
-  permissions?: DocumentMetadata['permissions']
+  permissions?: DocumentMetadata['permissions'],
+  mock?: boolean,
+  keys?: WrappedKey[]
 ): DocumentMetadata {
-  return {
+  const metadata: DocumentMetadata = {
     name: file.name,
     type: file.type,
     size: file.size,
     uploadedAt: new Date(),
     encrypted,
     hash,
+    mock,
     permissions: permissions || { public: !encrypted }
   }
+  return keys ? withKeys(metadata, keys) : metadata
+}
+
+// Manifest entry for an uploaded document; recipients' wrapped keys travel with it
+export function toManifestFile(metadata: DocumentMetadata): ManifestFile {
+  if (metadata.encrypted && !metadata.encryptionHeader) {
+    throw new Error(`${metadata.name} has no envelope header to list in a manifest`)
+  }
+  return {
+    name: metadata.name,
+    mimeType: metadata.type,
+    size: metadata.size,
+    cid: metadata.hash,
+    encryptionHeader: metadata.encrypted ? metadata.encryptionHeader : undefined,
+    keys: metadata.keys
+  }
+}
+
+// Document as listed in a verified manifest, ready for DocumentViewer
+export function documentFromManifest(manifest: DocumentManifest, file: ManifestFile, mock?: boolean): DocumentMetadata {
+  const metadata: DocumentMetadata = {
+    name: file.name,
+    type: file.mimeType,
+    size: file.size,
+    uploadedAt: new Date(manifest.createdAt * 1000),
+    encrypted: Boolean(file.encryptionHeader),
+    hash: file.cid,
+    mock,
+    encryptionHeader: file.encryptionHeader,
+    permissions: { public: !file.encryptionHeader }
+  }
+  return file.keys ? withKeys(metadata, file.keys) : metadata
+}
+
+// Store a signed manifest; anchor the returned CID and digest on-chain to attach it
+export async function pinDocumentManifest(manifest: DocumentManifest): Promise<{ cid: string; digest: Hex; mock: boolean }> {
+  const bytes = encodeDocumentManifest(manifest)
+  const storage = getStorageBackend()
+  try {
+    return { cid: await storage.put(bytes), digest: manifestDigest(bytes), mock: storage.mock }
+  } catch (error) {
+    console.error('IPFS upload failed:', error)
+    throw new Error(`Failed to upload document manifest to IPFS: ${error instanceof Error ? error.message : error}`)
+  }
+}
+
+// Fetch an anchored manifest and check it against its digest and signer
+export function fetchDocumentManifest(
+  anchor: ManifestAnchor,
+  expected?: Omit<ManifestExpectation, 'signer'>
+): Promise<DocumentManifest> {
+  return loadAnchoredManifest(getStorageBackend(), anchor, expected)
 }
 
 // Document access control
@@ -259,6 +390,11 @@ export function canAccessDocument(
   userAddress: string,
   userRoles: string[] = []
 ): boolean {
+  // With wrapped keys only recipients can decrypt, whatever the advisory permissions say
+  if (metadata.keys) {
+    return Boolean(findWrappedKey(metadata.keys, userAddress))
+  }
+  
   if (metadata.permissions?.public) {
     return true
   }
@@ -279,15 +415,26 @@ export async function uploadMultipleDocuments(
   files: File[],
   encrypt: boolean = false,
   password?: string,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  recipients?: DocumentRecipient[]
 ): Promise<DocumentMetadata[]> {
   const results: DocumentMetadata[] = []
   
   for (let i = 0; i < files.length; i++) {
     const file = files[i]
-    const uploadResult = await uploadToIPFS(file, encrypt, password)
-    const metadata = createDocumentMetadata(file, uploadResult.hash, encrypt)
-    results.push(metadata)
+    if (encrypt && recipients) {
+      const uploadResult = await uploadForRecipients(file, recipients)
+      results.push({
+        ...createDocumentMetadata(file, uploadResult.hash, true, undefined, uploadResult.mock, uploadResult.keys),
+        encryptionHeader: uploadResult.encryptionHeader
+      })
+    } else {
+      const uploadResult = await uploadToIPFS(file, encrypt, password)
+      results.push({
+        ...createDocumentMetadata(file, uploadResult.hash, encrypt, undefined, uploadResult.mock),
+        encryptionHeader: uploadResult.encryptionHeader
+      })
+    }
     
     if (onProgress) {
       onProgress((i + 1) / files.length * 100)
@@ -0,0 +1,67 @@
+import { concat, hexToBytes, sha256, toBytes } from 'viem'
+import type { Address, Hex } from 'viem'
+import { encryptionKeyPairFromSeed } from '../storage'
+import type { EncryptionKeyPair } from '../storage'
+
+/*
+ * Encryption keys derived from a wallet signature over EIP-712 typed data.
+ * Wallets sign deterministically (RFC 6979), so signing the same message again
+ * recovers the same key on any device. Each purpose and version is a different
+ * message, which is what rotating a key changes.
+ */
+
+export const KEY_PURPOSES = ['document', 'voting'] as const
+
+export type KeyPurpose = (typeof KEY_PURPOSES)[number]
+
+export const ENCRYPTION_KEY_TYPES = {
+  EncryptionKey: [
+    { name: 'member', type: 'address' },
+    { name: 'purpose', type: 'string' },
+    { name: 'version', type: 'uint32' },
+    { name: 'notice', type: 'string' },
+  ],
+} as const
+
+// Shown by the wallet, since this signature is as sensitive as the key it derives
+const SIGNING_NOTICE = 'Only sign this on the DAO app. It unlocks your encrypted documents and ballots.'
+
+export interface KeyDerivationContext {
+  member: Address
+  chainId: number
+  verifyingContract: Address // The DAO, so keys differ between deployments
+}
+
+export function encryptionKeyTypedData(context: KeyDerivationContext, purpose: KeyPurpose, version: number) {
+  if (!Number.isInteger(version) || version < 1 || version > 0xffffffff) {
+    throw new Error(`Invalid key version ${version}`)
+  }
+  return {
+    domain: {
+      name: 'UnifiedLendingDAO',
+      version: '1',
+      chainId: context.chainId,
+      verifyingContract: context.verifyingContract,
+    },
+    types: ENCRYPTION_KEY_TYPES,
+    primaryType: 'EncryptionKey' as const,
+    message: { member: context.member, purpose, version, notice: SIGNING_NOTICE },
+  }
+}
+
+export type EncryptionKeyTypedData = ReturnType<typeof encryptionKeyTypedData>
+
+// Only r and s seed the key: wallets disagree on whether v is 0/1 or 27/28
+export function encryptionKeyPairFromSignature(signature: Hex): EncryptionKeyPair {
+  const bytes = hexToBytes(signature)
+  if (bytes.length !== 65) throw new Error('Expected a 65-byte wallet signature')
+  return encryptionKeyPairFromSeed(bytes.slice(0, 64))
+}
+
+/**
+ * Password private ballots are encrypted with when the voter has a voting key,
+ * so the ballot can be revealed later without remembering one.
+ */
+export function ballotPassword(keyPair: EncryptionKeyPair): string {
+  return sha256(concat([toBytes('consensys-dao ballot password'), keyPair.privateKey]))
+}
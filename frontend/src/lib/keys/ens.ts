@@ -0,0 +1,87 @@
+import { hexToBytes, isHex, namehash } from 'viem'
+import type { Account, Address, Chain, Hash, Hex } from 'viem'
+import { normalize } from 'viem/ens'
+
+// ENSIP-5 text record members can publish their document encryption key under
+export const ENCRYPTION_KEY_TEXT_RECORD = 'io.consensys-dao.encryption-key'
+
+const TEXT_RESOLVER_ABI = [
+  {
+    inputs: [
+      { name: 'node', type: 'bytes32' },
+      { name: 'key', type: 'string' },
+      { name: 'value', type: 'string' },
+    ],
+    name: 'setText',
+    outputs: [],
+    stateMutability: 'nonpayable',
+    type: 'function',
+  },
+] as const
+
+// Structural, like the SDK's viem config, so viem and wagmi clients both fit
+export interface EnsReader {
+  getEnsName: (parameters: { address: Address }) => Promise<string | null>
+  getEnsText: (parameters: { name: string; key: string }) => Promise<string | null>
+}
+
+export interface EnsWriter {
+  getEnsResolver: (parameters: { name: string }) => Promise<Address>
+}
+
+export interface EnsWalletClient {
+  account?: Account
+  chain?: Chain
+  writeContract: (parameters: never) => Promise<Hash>
+}
+
+const isPublicKey = (value: string | null): value is Hex =>
+  !!value && isHex(value) && hexToBytes(value).length === 32
+
+/**
+ * Encryption key in the text record of `address`'s primary ENS name. Null
+ * when there is none, it is malformed, or the chain has no ENS.
+ */
+export async function getEnsEncryptionKey(client: EnsReader, address: Address): Promise<Hex | null> {
+  try {
+    const name = await client.getEnsName({ address })
+    if (!name) return null
+    const value = await client.getEnsText({ name: normalize(name), key: ENCRYPTION_KEY_TEXT_RECORD })
+    return isPublicKey(value) ? value : null
+  } catch {
+    return null
+  }
+}
+
+/** Set the encryption key text record on `ensName`; the wallet must manage the name. */
+export async function setEnsEncryptionKey(
+  client: EnsWriter,
+  walletClient: EnsWalletClient,
+  ensName: string,
+  publicKey: Hex
+): Promise<Hash> {
+  if (!isPublicKey(publicKey)) throw new Error(`Invalid encryption public key: ${publicKey}`)
+  if (!walletClient.account) throw new Error('A connected wallet is required to send transactions')
+  const name = normalize(ensName)
+  const resolver = await client.getEnsResolver({ name })
+  return walletClient.writeContract({
+    address: resolver,
+    abi: TEXT_RESOLVER_ABI,
+    functionName: 'setText',
+    args: [namehash(name), ENCRYPTION_KEY_TEXT_RECORD, publicKey],
+    account: walletClient.account,
+    chain: walletClient.chain,
+  } as never)
+}
+
+/**
+ * The key to share documents with `address` to: the one published on-chain,
+ * else the one in their ENS text record.
+ */
+export async function resolveEncryptionKey(
+  dao: { getEncryptionKey: (account: string) => Promise<Hex | null> },
+  client: EnsReader,
+  address: Address
+): Promise<Hex | null> {
+  return (await dao.getEncryptionKey(address)) ?? getEnsEncryptionKey(client, address)
+}
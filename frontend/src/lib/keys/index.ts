@@ -0,0 +1,19 @@
+export {
+  KEY_PURPOSES,
+  ENCRYPTION_KEY_TYPES,
+  encryptionKeyTypedData,
+  encryptionKeyPairFromSignature,
+  ballotPassword,
+} from './derivation'
+export type { KeyPurpose, KeyDerivationContext, EncryptionKeyTypedData } from './derivation'
+export {
+  ENCRYPTION_KEY_TEXT_RECORD,
+  getEnsEncryptionKey,
+  setEnsEncryptionKey,
+  resolveEncryptionKey,
+} from './ens'
+export type { EnsReader, EnsWriter, EnsWalletClient } from './ens'
+export { storedKeyId, createMemoryKeyStore, createIndexedDBKeyStore } from './keyStore'
+export type { KeyStore, StoredKey } from './keyStore'
+export { createKeyManager } from './manager'
+export type { KeyManager, KeyManagerConfig, ManagedKey, KeyBackup } from './manager'
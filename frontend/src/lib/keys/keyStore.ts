@@ -0,0 +1,124 @@
+import type { Hex } from 'viem'
+import type { KeyPurpose } from './derivation'
+
+// A key at rest: the private key is sealed with the store's vault key
+export interface StoredKey {
+  id: string
+  account: string // Lowercase, to look keys up by account
+  purpose: KeyPurpose
+  version: number
+  publicKey: Hex
+  createdAt: number
+  iv: Uint8Array
+  sealedPrivateKey: Uint8Array
+}
+
+export interface KeyStore {
+  list(account: string): Promise<StoredKey[]>
+  put(key: StoredKey): Promise<void>
+  remove(id: string): Promise<void>
+  // Non-extractable AES-GCM key the private keys are sealed with; it cannot be read out of the browser
+  vaultKey(): Promise<CryptoKey>
+}
+
+export function storedKeyId(account: string, purpose: KeyPurpose, version: number): string {
+  return `${account.toLowerCase()}:${purpose}:${version}`
+}
+
+function generateVaultKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+}
+
+/** Keeps keys for the lifetime of the page; for tests and environments without IndexedDB. */
+export function createMemoryKeyStore(): KeyStore {
+  const keys = new Map<string, StoredKey>()
+  let vault: Promise<CryptoKey> | undefined
+
+  return {
+    async list(account) {
+      return [...keys.values()].filter(key => key.account === account.toLowerCase())
+    },
+    async put(key) {
+      keys.set(key.id, key)
+    },
+    async remove(id) {
+      keys.delete(id)
+    },
+    vaultKey() {
+      if (!vault) vault = generateVaultKey()
+      return vault
+    },
+  }
+}
+
+const DATABASE_VERSION = 1
+const KEYS = 'keys'
+const VAULT = 'vault'
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+/**
+ * Keeps keys in IndexedDB. The vault key is stored alongside them as a
+ * non-extractable CryptoKey, so sealed keys copied out of the database are
+ * useless elsewhere; backups are how keys move between devices.
+ */
+export function createIndexedDBKeyStore(databaseName: string = 'consensys-dao-keys'): KeyStore {
+  let database: Promise<IDBDatabase> | undefined
+  let vault: Promise<CryptoKey> | undefined
+
+  const open = () => {
+    if (typeof indexedDB === 'undefined') return Promise.reject(new Error('IndexedDB is not available here'))
+    if (!database) {
+      const req = indexedDB.open(databaseName, DATABASE_VERSION)
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(KEYS, { keyPath: 'id' }).createIndex('account', 'account')
+        req.result.createObjectStore(VAULT)
+      }
+      database = request(req)
+    }
+    return database
+  }
+
+  const objectStore = async (name: string, mode: IDBTransactionMode) =>
+    (await open()).transaction(name, mode).objectStore(name)
+
+  const loadVaultKey = async () => {
+    const existing = await request((await objectStore(VAULT, 'readonly')).get(VAULT))
+    if (existing) return existing as CryptoKey
+    const key = await generateVaultKey()
+    try {
+      // add, not put, so a vault key another tab created first is never replaced
+      await request((await objectStore(VAULT, 'readwrite')).add(key, VAULT))
+      return key
+    } catch {
+      return (await request((await objectStore(VAULT, 'readonly')).get(VAULT))) as CryptoKey
+    }
+  }
+
+  return {
+    async list(account) {
+      return request((await objectStore(KEYS, 'readonly')).index('account').getAll(account.toLowerCase()))
+    },
+    async put(key) {
+      await request((await objectStore(KEYS, 'readwrite')).put(key))
+    },
+    async remove(id) {
+      await request((await objectStore(KEYS, 'readwrite')).delete(id))
+    },
+    vaultKey() {
+      if (!vault) {
+        vault = loadVaultKey()
+        // Let a failed load be retried
+        vault.catch(() => {
+          vault = undefined
+        })
+      }
+      return vault
+    },
+  }
+}
@@ -0,0 +1,230 @@
+import { x25519 } from '@noble/curves/ed25519'
+import { getAddress, hexToBytes, isHex, toBytes, toHex } from 'viem'
+import type { Address, Hex } from 'viem'
+import { decryptDocument, encryptDocument } from '../storage'
+import type { EncryptionKeyPair } from '../storage'
+import { KEY_PURPOSES, encryptionKeyPairFromSignature, encryptionKeyTypedData } from './derivation'
+import type { EncryptionKeyTypedData, KeyPurpose } from './derivation'
+import { storedKeyId } from './keyStore'
+import type { KeyStore, StoredKey } from './keyStore'
+
+const BACKUP_FORMAT = 'consensys-dao-key-backup'
+const BACKUP_VERSION = 1
+
+export interface KeyManagerConfig {
+  account: Address
+  chainId: number
+  verifyingContract: Address
+  signTypedData: (typedData: EncryptionKeyTypedData) => Promise<Hex>
+  store: KeyStore
+}
+
+// A key as listed to the member; the highest version of each purpose is the active one
+export interface ManagedKey {
+  id: string
+  purpose: KeyPurpose
+  version: number
+  publicKey: Hex
+  createdAt: Date
+  active: boolean
+}
+
+interface BackupKey {
+  purpose: KeyPurpose
+  version: number
+  publicKey: Hex
+  privateKey: Hex
+  createdAt: number
+}
+
+export interface KeyBackup {
+  format: typeof BACKUP_FORMAT
+  version: typeof BACKUP_VERSION
+  account: Address
+  keys: { purpose: KeyPurpose; version: number; publicKey: Hex }[] // Readable without the password
+  envelope: Hex // The keys with their private halves, encrypted with the backup password
+}
+
+const byVersion = (a: StoredKey, b: StoredKey) => a.version - b.version
+const byPurposeAndVersion = (a: StoredKey, b: StoredKey) =>
+  KEY_PURPOSES.indexOf(a.purpose) - KEY_PURPOSES.indexOf(b.purpose) || byVersion(a, b)
+
+function toManagedKey(key: StoredKey, active: boolean): ManagedKey {
+  const { id, purpose, version, publicKey, createdAt } = key
+  return { id, purpose, version, publicKey, createdAt: new Date(createdAt), active }
+}
+
+/**
+ * Derives, stores and rotates a member's encryption keys. Keys are derived
+ * from wallet signatures the first time they are needed and kept sealed in
+ * `store` after that, so the wallet is only asked to sign again to create
+ * or recover a key.
+ */
+export function createKeyManager({ account, chainId, verifyingContract, signTypedData, store }: KeyManagerConfig) {
+  const context = { member: getAddress(account), chainId, verifyingContract }
+
+  const additionalData = (id: string) => new Uint8Array(toBytes(id))
+
+  async function seal(purpose: KeyPurpose, version: number, keyPair: EncryptionKeyPair, createdAt: number) {
+    const id = storedKeyId(account, purpose, version)
+    const iv = crypto.getRandomValues(new Uint8Array(12))
+    const sealed = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: additionalData(id) },
+      await store.vaultKey(),
+      new Uint8Array(keyPair.privateKey)
+    )
+    const key: StoredKey = {
+      id,
+      account: account.toLowerCase(),
+      purpose,
+      version,
+      publicKey: keyPair.publicKey,
+      createdAt,
+      iv,
+      sealedPrivateKey: new Uint8Array(sealed),
+    }
+    await store.put(key)
+    return key
+  }
+
+  async function open(key: StoredKey): Promise<EncryptionKeyPair> {
+    try {
+      const privateKey = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: new Uint8Array(key.iv), additionalData: additionalData(key.id) },
+        await store.vaultKey(),
+        new Uint8Array(key.sealedPrivateKey)
+      )
+      return { privateKey: new Uint8Array(privateKey), publicKey: key.publicKey }
+    } catch {
+      throw new Error(`Encryption key ${key.id} could not be unsealed; restore it from a backup`)
+    }
+  }
+
+  const keysFor = async (purpose: KeyPurpose) =>
+    (await store.list(account)).filter(key => key.purpose === purpose).sort(byVersion)
+
+  const activeKey = async (purpose: KeyPurpose) => (await keysFor(purpose)).pop()
+
+  async function derive(purpose: KeyPurpose, version: number) {
+    return encryptionKeyPairFromSignature(await signTypedData(encryptionKeyTypedData(context, purpose, version)))
+  }
+
+  /** Active key for `purpose`, or null if none is stored; never asks the wallet to sign. */
+  async function get(purpose: KeyPurpose): Promise<EncryptionKeyPair | null> {
+    const key = await activeKey(purpose)
+    return key ? open(key) : null
+  }
+
+  /** Active key for `purpose`, deriving the first one from a wallet signature if none is stored. */
+  async function unlock(purpose: KeyPurpose): Promise<EncryptionKeyPair> {
+    return (await get(purpose)) ?? recover(purpose, 1)
+  }
+
+  /**
+   * Derive version `version` of a key again, e.g. on a new device. Wallets
+   * that do not sign deterministically derive a different key, which is
+   * refused if this version is already stored.
+   */
+  async function recover(purpose: KeyPurpose, version: number): Promise<EncryptionKeyPair> {
+    const keyPair = await derive(purpose, version)
+    const existing = (await keysFor(purpose)).find(key => key.version === version)
+    if (existing && existing.publicKey.toLowerCase() !== keyPair.publicKey.toLowerCase()) {
+      throw new Error('Your wallet derived a different key than before; restore this key from a backup instead')
+    }
+    await seal(purpose, version, keyPair, existing?.createdAt ?? Date.now())
+    return keyPair
+  }
+
+  /**
+   * Derive the next version of a key and make it the active one. Older
+   * versions are kept so documents wrapped to them still open; publish the
+   * new public key so members share to it from now on.
+   */
+  async function rotate(purpose: KeyPurpose): Promise<EncryptionKeyPair> {
+    const current = await activeKey(purpose)
+    const version = (current?.version ?? 0) + 1
+    const keyPair = await derive(purpose, version)
+    await seal(purpose, version, keyPair, Date.now())
+    return keyPair
+  }
+
+  async function list(): Promise<ManagedKey[]> {
+    const keys = await store.list(account)
+    return KEY_PURPOSES.flatMap(purpose => {
+      const forPurpose = keys.filter(key => key.purpose === purpose).sort(byVersion)
+      return forPurpose.map((key, i) => toManagedKey(key, i === forPurpose.length - 1))
+    })
+  }
+
+  /** Any stored key with `publicKey`, including rotated ones, to open documents shared before a rotation. */
+  async function findKeyPair(publicKey: Hex): Promise<EncryptionKeyPair | null> {
+    const key = (await store.list(account)).find(stored => stored.publicKey.toLowerCase() === publicKey.toLowerCase())
+    return key ? open(key) : null
+  }
+
+  async function remove(id: string) {
+    await store.remove(id)
+  }
+
+  /** Encrypt the stored keys, or those in `ids`, with `password` into a backup to keep off the device. */
+  async function createBackup(password: string, ids?: readonly string[]): Promise<string> {
+    if (!password) throw new Error('A backup password is required')
+    const stored = (await store.list(account)).filter(key => !ids || ids.includes(key.id)).sort(byPurposeAndVersion)
+    if (stored.length === 0) throw new Error('There are no encryption keys to back up')
+
+    const keys: BackupKey[] = await Promise.all(
+      stored.map(async key => {
+        const { privateKey } = await open(key)
+        const { purpose, version, publicKey, createdAt } = key
+        return { purpose, version, publicKey, privateKey: toHex(privateKey), createdAt }
+      })
+    )
+    const envelope = await encryptDocument(toBytes(JSON.stringify(keys)), password)
+    const backup: KeyBackup = {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      account: context.member,
+      keys: keys.map(({ purpose, version, publicKey }) => ({ purpose, version, publicKey })),
+      envelope: toHex(envelope),
+    }
+    return JSON.stringify(backup, null, 2)
+  }
+
+  /** Restore the keys in a backup made by `createBackup`, replacing stored keys of the same version. */
+  async function restoreBackup(backup: string, password: string): Promise<ManagedKey[]> {
+    let parsed: KeyBackup
+    try {
+      parsed = JSON.parse(backup)
+    } catch {
+      throw new Error('Not an encryption key backup')
+    }
+    if (parsed?.format !== BACKUP_FORMAT || !isHex(parsed.envelope)) throw new Error('Not an encryption key backup')
+    if (parsed.version !== BACKUP_VERSION) throw new Error(`Unsupported key backup version ${parsed.version}`)
+    if (parsed.account?.toLowerCase() !== account.toLowerCase()) {
+      throw new Error(`This backup holds the keys of ${parsed.account}`)
+    }
+
+    const plaintext = await decryptDocument(hexToBytes(parsed.envelope), password)
+    const keys: BackupKey[] = JSON.parse(new TextDecoder().decode(plaintext))
+    // Every key is checked before any is stored
+    const keyPairs = keys.map(key => {
+      const privateKey = hexToBytes(key.privateKey)
+      const valid =
+        KEY_PURPOSES.includes(key.purpose) &&
+        Number.isInteger(key.version) &&
+        key.version >= 1 &&
+        toHex(x25519.getPublicKey(privateKey)) === key.publicKey
+      if (!valid) throw new Error(`Backup holds an invalid ${key.purpose} key`)
+      return { privateKey, publicKey: key.publicKey }
+    })
+    const restored = await Promise.all(
+      keys.map((key, i) => seal(key.purpose, key.version, keyPairs[i], key.createdAt))
+    )
+    const active = new Set((await list()).filter(key => key.active).map(key => key.id))
+    return restored.map(key => toManagedKey(key, active.has(key.id)))
+  }
+
+  return { list, get, unlock, recover, rotate, findKeyPair, remove, createBackup, restoreBackup }
+}
+
+export type KeyManager = ReturnType<typeof createKeyManager>
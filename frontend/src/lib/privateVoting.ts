@@ -1,11 +1,38 @@
 import { encryptData, decryptData } from './ipfs'
+import {
+  PRIVATE_VOTE_CHOICES,
+  aggregateMixedBallots,
+  combinePartialDecryptions,
+  encryptBallot,
+  generateVoteSecret,
+  hashPrivateVote,
+  isCountableBallot,
+  prepareMixInput,
+  provePrivateVote,
+  shuffleBallots,
+  signBallot,
+  verifyPrivateVoteProof,
+} from './sdk'
+import type {
+  BallotTypedData,
+  ElectionKey,
+  ElectionRoll,
+  EncryptedBallot,
+  EncryptedTally,
+  MixedBatch,
+  PartialDecryption,
+  PrivateVoteProof,
+} from './sdk'
+
+type Hex = `0x${string}`
 
 // Types for private voting
 export interface PrivateBallot {
   id: string
   proposalId: string
   voterHash: string // Hashed voter address for privacy
-  encryptedVote: string
+  encryptedVote: string // Only the voter's password opens it, to reveal their own vote
+  electionBallot?: EncryptedBallot // The vote encrypted to the trustees' election key, for the tally
   commitment: string // Commitment for zero-knowledge proof
   timestamp: Date
   nullifier: string // Prevents double voting
@@ -17,58 +44,40 @@ export interface VoteChoice {
   reason?: string
 }
 
-export interface ZKProof {
-  proof: string
-  publicSignals: string[]
+// Election ballots are one-hot over the options, indexed by PRIVATE_VOTE_CHOICES
+const PRIVATE_VOTE_OPTION_COUNT = Object.keys(PRIVATE_VOTE_CHOICES).length
+
+// Groth16 proof from circuits/privateVote.circom, with its commitment and nullifier as the contract stores them
+export interface ZKProof extends PrivateVoteProof {
   nullifier: string
   commitment: string
 }
 
-// Generate a commitment for zero-knowledge voting
+// Commitment and nullifier for a commit-reveal vote, hashed the way `revealPrivateVote` checks them
 export async function generateVoteCommitment(
+  proposalId: string,
   vote: VoteChoice,
   voterAddress: string,
   secret: string
 ): Promise<{ commitment: string; nullifier: string }> {
-  const encoder = new TextEncoder()
-  
-  // Create commitment data
-  const commitmentData = JSON.stringify({
-    vote: vote.option,
-    weight: vote.weight || 1,
-    voter: voterAddress.toLowerCase(),
-    secret,
-    timestamp: Date.now()
-  })
-  
-  // Hash for commitment
-  const commitmentHash = await crypto.subtle.digest('SHA-256', encoder.encode(commitmentData))
-  const commitment = Array.from(new Uint8Array(commitmentHash))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('')
-  
-  // Generate nullifier to prevent double voting
-  const nullifierData = `${voterAddress.toLowerCase()}-${secret}`
-  const nullifierHash = await crypto.subtle.digest('SHA-256', encoder.encode(nullifierData))
-  const nullifier = Array.from(new Uint8Array(nullifierHash))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('')
-  
-  return { commitment, nullifier }
+  return hashPrivateVote(BigInt(proposalId), vote.option, voterAddress as Hex, secret as Hex)
 }
 
-// Create encrypted private ballot
+// Create encrypted private ballot; with an election key and the voter's signature the trustees can also count it
 export async function createPrivateBallot(
   proposalId: string,
   voterAddress: string,
   vote: VoteChoice,
   password: string,
-  secret?: string
+  secret?: string,
+  election?: ElectionKey,
+  signTypedData?: (typedData: BallotTypedData) => Promise<Hex>
 ): Promise<PrivateBallot> {
-  const ballotSecret = secret || crypto.getRandomValues(new Uint32Array(1))[0].toString()
+  if (election && !signTypedData) throw new Error('Tally ballots must be signed by the voter')
+  const ballotSecret = secret || generateVoteSecret()
   
   // Generate commitment and nullifier
-  const { commitment, nullifier } = await generateVoteCommitment(vote, voterAddress, ballotSecret)
+  const { commitment, nullifier } = await generateVoteCommitment(proposalId, vote, voterAddress, ballotSecret)
   
   // Encrypt the actual vote
   const voteData = JSON.stringify({
@@ -91,6 +100,18 @@ export async function createPrivateBallot(
     proposalId,
     voterHash,
     encryptedVote,
+    electionBallot: election
+      ? await signBallot(
+          encryptBallot(
+            election,
+            { electionId: proposalId, voter: voterAddress as Hex },
+            PRIVATE_VOTE_CHOICES[vote.option],
+            PRIVATE_VOTE_OPTION_COUNT,
+            vote.weight || 1
+          ),
+          signTypedData!
+        )
+      : undefined,
     commitment,
     timestamp: new Date(),
     nullifier
@@ -108,6 +129,7 @@ export async function decryptPrivateBallot(
     
     // Verify commitment
     const { commitment } = await generateVoteCommitment(
+      ballot.proposalId,
       {
         option: voteData.option,
         weight: voteData.weight,
@@ -127,6 +149,50 @@ export async function decryptPrivateBallot(
   }
 }
 
+// Encrypted ballots of committed votes, kept until they are revealed; the secret never leaves this browser
+const BALLOT_STORAGE_KEY = 'dao-private-ballot'
+
+const ballotKey = (contractAddress: string, proposalId: string, voterAddress: string) =>
+  `${BALLOT_STORAGE_KEY}:${contractAddress.toLowerCase()}:${proposalId}:${voterAddress.toLowerCase()}`
+
+export function saveStoredBallot(contractAddress: string, voterAddress: string, ballot: PrivateBallot) {
+  if (typeof window === 'undefined') return
+  window.localStorage.setItem(ballotKey(contractAddress, ballot.proposalId, voterAddress), JSON.stringify(ballot))
+}
+
+export function loadStoredBallot(contractAddress: string, proposalId: string, voterAddress: string): PrivateBallot | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const stored = window.localStorage.getItem(ballotKey(contractAddress, proposalId, voterAddress))
+    if (!stored) return null
+    const ballot = JSON.parse(stored)
+    return { ...ballot, timestamp: new Date(ballot.timestamp) }
+  } catch {
+    return null
+  }
+}
+
+export function clearStoredBallot(contractAddress: string, proposalId: string, voterAddress: string) {
+  if (typeof window === 'undefined') return
+  window.localStorage.removeItem(ballotKey(contractAddress, proposalId, voterAddress))
+}
+
+// Anonymous group identity of a member; whoever holds the secret can vote anonymously for them
+const IDENTITY_STORAGE_KEY = 'dao-member-identity'
+
+const identityKey = (contractAddress: string, memberAddress: string) =>
+  `${IDENTITY_STORAGE_KEY}:${contractAddress.toLowerCase()}:${memberAddress.toLowerCase()}`
+
+export function saveMemberIdentity(contractAddress: string, memberAddress: string, secret: string) {
+  if (typeof window === 'undefined') return
+  window.localStorage.setItem(identityKey(contractAddress, memberAddress), secret)
+}
+
+export function loadMemberIdentity(contractAddress: string, memberAddress: string): Hex | null {
+  if (typeof window === 'undefined') return null
+  return window.localStorage.getItem(identityKey(contractAddress, memberAddress)) as Hex | null
+}
+
 // Verify nullifier hasn't been used (prevents double voting)
 export function verifyNullifier(
   nullifier: string,
@@ -145,58 +211,111 @@ export interface VoteTally {
   ballots: PrivateBallot[]
 }
 
-export async function tallyPrivateVotes(
+// A ballot left out of the tally, and why
+export interface RejectedBallot {
+  ballot: PrivateBallot
+  reason: 'duplicate_nullifier' | 'duplicate_voter' | 'invalid_ballot'
+}
+
+// Homomorphic sum of every valid ballot; trustees decrypt this, never a single ballot
+export interface PrivateBallotAggregate {
+  tally: EncryptedTally
+  ballots: PrivateBallot[]
+  rejected: RejectedBallot[]
+}
+
+/**
+ * Split ballots into those that take part in mixing and tallying, in the
+ * order given, and those left out. Mixers and talliers must agree on the
+ * valid ones. Ballots are only compared once their voter's signature has
+ * been checked, so a forged ballot cannot displace a real one, and a voter
+ * who signed several ballots has all of them rejected: which one arrived
+ * first does not decide their vote.
+ */
+export function selectValidBallots(
   ballots: PrivateBallot[],
-  password: string,
+  election: ElectionKey,
+  roll: ElectionRoll,
   usedNullifiers: string[] = []
-): Promise<VoteTally> {
-  const tally: VoteTally = {
-    for: 0,
-    against: 0,
-    abstain: 0,
-    totalVotes: 0,
-    totalWeight: 0,
-    ballots: []
+): { validBallots: PrivateBallot[]; rejectedBallots: RejectedBallot[] } {
+  const rejectedBallots: RejectedBallot[] = []
+  const ballotsByVoter = new Map<string, PrivateBallot[]>()
+
+  for (const ballot of ballots) {
+    // The election ballot must be signed by its voter and match their weight at the snapshot
+    const electionBallot = ballot.electionBallot
+    if (!electionBallot || !isCountableBallot(election, roll, electionBallot, PRIVATE_VOTE_OPTION_COUNT)) {
+      rejectedBallots.push({ ballot, reason: 'invalid_ballot' })
+      continue
+    }
+    // The nullifier is not signed, so only nullifiers spent elsewhere rule a ballot out
+    if (usedNullifiers.includes(ballot.nullifier)) {
+      rejectedBallots.push({ ballot, reason: 'duplicate_nullifier' })
+      continue
+    }
+
+    const voter = electionBallot.voter.toLowerCase()
+    ballotsByVoter.set(voter, [...(ballotsByVoter.get(voter) ?? []), ballot])
   }
-  
+
   const validBallots: PrivateBallot[] = []
-  const seenNullifiers = new Set<string>()
-  
-  for (const ballot of ballots) {
-    try {
-      // Check for double voting
-      if (usedNullifiers.includes(ballot.nullifier) || seenNullifiers.has(ballot.nullifier)) {
-        console.warn(`Duplicate vote detected: ${ballot.nullifier}`)
-        continue
-      }
-      
-      const voteData = await decryptPrivateBallot(ballot, password)
-      const weight = voteData.weight || 1
-      
-      seenNullifiers.add(ballot.nullifier)
-      validBallots.push(ballot)
-      
-      switch (voteData.option) {
-        case 'for':
-          tally.for += weight
-          break
-        case 'against':
-          tally.against += weight
-          break
-        case 'abstain':
-          tally.abstain += weight
-          break
-      }
-      
-      tally.totalVotes += 1
-      tally.totalWeight += weight
-    } catch (error) {
-      console.warn(`Failed to decrypt ballot ${ballot.id}:`, error)
+  for (const voterBallots of ballotsByVoter.values()) {
+    if (voterBallots.length === 1) {
+      validBallots.push(voterBallots[0])
+    } else {
+      rejectedBallots.push(...voterBallots.map(ballot => ({ ballot, reason: 'duplicate_voter' as const })))
     }
   }
-  
-  tally.ballots = validBallots
-  return tally
+
+  return { validBallots, rejectedBallots }
+}
+
+/**
+ * Sum the output of a verified mix chain over the valid ballots, whose
+ * weights must match `roll`. Tallying refuses ballots that have not been
+ * through at least one proven shuffle.
+ */
+export function aggregatePrivateBallots(
+  ballots: PrivateBallot[],
+  election: ElectionKey,
+  roll: ElectionRoll,
+  mixes: MixedBatch[],
+  usedNullifiers: string[] = []
+): PrivateBallotAggregate {
+  const { validBallots, rejectedBallots } = selectValidBallots(ballots, election, roll, usedNullifiers)
+
+  return {
+    tally: aggregateMixedBallots(
+      election,
+      roll,
+      validBallots.map(ballot => ballot.electionBallot!),
+      mixes,
+      PRIVATE_VOTE_OPTION_COUNT
+    ),
+    ballots: validBallots,
+    rejected: rejectedBallots
+  }
+}
+
+/**
+ * Count an aggregate from at least `threshold` trustees' partial decryptions
+ * of `aggregate.tally`. No single key holder can see how anyone voted.
+ */
+export function tallyPrivateVotes(
+  aggregate: PrivateBallotAggregate,
+  partialDecryptions: PartialDecryption[],
+  election: ElectionKey
+): VoteTally {
+  const totals = combinePartialDecryptions(election, aggregate.tally, partialDecryptions)
+
+  return {
+    for: totals[PRIVATE_VOTE_CHOICES.for],
+    against: totals[PRIVATE_VOTE_CHOICES.against],
+    abstain: totals[PRIVATE_VOTE_CHOICES.abstain],
+    totalVotes: aggregate.tally.ballots,
+    totalWeight: aggregate.tally.totalWeight,
+    ballots: aggregate.ballots
+  }
 }
 
 // Generate zero-knowledge proof for vote verification
@@ -204,30 +323,21 @@ export async function generateZKProof(
   vote: VoteChoice,
   voterAddress: string,
   secret: string,
-  proposalId: string
+  proposalId: string,
+  reveal = false
 ): Promise<ZKProof> {
-  // This is a simplified ZK proof generation
-  // In a real implementation, you'd use a library like snarkjs
-  const encoder = new TextEncoder()
-  
-  const { commitment, nullifier } = await generateVoteCommitment(vote, voterAddress, secret)
-  
-  // Mock proof generation (in reality this would use circuit compilation)
-  const proofData = {
-    vote: vote.option,
-    weight: vote.weight || 1,
-    proposalId,
-    timestamp: Date.now()
-  }
-  
-  const proofHash = await crypto.subtle.digest('SHA-256', encoder.encode(JSON.stringify(proofData)))
-  const proof = Array.from(new Uint8Array(proofHash))
-    .map(b => b.toString(16).padStart(2, '0'))
-    .join('')
-  
+  const { commitment, nullifier } = await generateVoteCommitment(proposalId, vote, voterAddress, secret)
+  const { proof, publicSignals } = await provePrivateVote({
+    proposalId: BigInt(proposalId),
+    option: vote.option,
+    voter: voterAddress as Hex,
+    secret: secret as Hex,
+    reveal,
+  })
+
   return {
     proof,
-    publicSignals: [proposalId, commitment],
+    publicSignals,
     nullifier,
     commitment
   }
@@ -245,17 +355,18 @@ export async function verifyZKProof(
       return false
     }
     
-    // Verify public signals match
-    if (proof.publicSignals[0] !== proposalId) {
+    // Public signals are [commitment, nullifier, proposalId, voter, revealedChoice, isReveal]
+    const [commitment, nullifier, provenProposalId] = proof.publicSignals.map(signal => BigInt(signal))
+    if (
+      provenProposalId !== BigInt(proposalId) ||
+      commitment !== BigInt(proof.commitment) ||
+      nullifier !== BigInt(proof.nullifier)
+    ) {
       return false
     }
     
-    // In a real implementation, this would verify the cryptographic proof
-    // For now, we just check basic structure
-    return proof.proof.length === 64 && // SHA-256 hash length
-           proof.commitment.length === 64 &&
-           proof.nullifier.length === 64
-  } catch (error) {
+    return await verifyPrivateVoteProof(proof)
+  } catch {
     return false
   }
 }
@@ -319,20 +430,24 @@ export function generatePrivateVoteStats(
   }
 }
 
-// Mixnet for additional privacy (simplified implementation)
-export async function mixBallots(ballots: PrivateBallot[]): Promise<PrivateBallot[]> {
-  // Shuffle ballots to remove timing correlations
-  const mixed = [...ballots]
-  for (let i = mixed.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
-    ;[mixed[i], mixed[j]] = [mixed[j], mixed[i]]
-  }
-  
-  // Add random delay simulation for each ballot
-  return mixed.map(ballot => ({
-    ...ballot,
-    timestamp: new Date(ballot.timestamp.getTime() + Math.random() * 300000) // 0-5 min random delay
-  }))
+// One mixer's turn over the valid ballots: re-encrypt and shuffle the previous mixer's output, with a shuffle proof.
+// `selectValidBallots` lists the ballots the first mixer leaves out.
+export function mixBallots(
+  ballots: PrivateBallot[],
+  election: ElectionKey,
+  roll: ElectionRoll,
+  previousMixes: MixedBatch[] = [],
+  usedNullifiers: string[] = []
+): MixedBatch {
+  const input = previousMixes.length
+    ? previousMixes[previousMixes.length - 1].ciphertexts
+    : prepareMixInput(
+        election,
+        roll,
+        selectValidBallots(ballots, election, roll, usedNullifiers).validBallots.map(ballot => ballot.electionBallot!),
+        PRIVATE_VOTE_OPTION_COUNT
+      )
+  return shuffleBallots(election, input)
 }
 
 // Batch verification for efficiency
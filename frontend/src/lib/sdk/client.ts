@@ -0,0 +1,327 @@
+import { CountingMethod, ProposalStatus, ProposalType } from '../../types/dao'
+import type {
+  DAOStatsSnapshot,
+  DocumentManifestAnchor,
+  GovernanceProposal,
+  Loan,
+  LoanProposal,
+  Member,
+  MultiOptionProposal,
+  ProposalSummary,
+  QueuedProposal,
+  RepaymentSchedule,
+} from '../../types/dao'
+import {
+  decodeDAOStats,
+  decodeDocumentManifestAnchor,
+  decodeGovernanceProposal,
+  decodeLoan,
+  decodeLoanProposal,
+  decodeMember,
+  decodeMultiOptionProposal,
+  decodeProposalSummary,
+  decodeRepaymentSchedule,
+} from './decoders'
+import { encodeParameterChange } from './governance'
+import type { ParameterChange } from './governance'
+import { PRIVATE_VOTE_CHOICES } from './commitReveal'
+import type { PrivateVoteCommitment, PrivateVoteOption } from './commitReveal'
+import { getMembershipProof } from './memberGroup'
+import type { ElectionRoll } from './thresholdTally'
+import { toSolidityProof } from './zk'
+import type { AnonymousVoteProof, PrivateVoteProof } from './zk'
+import type {
+  DAOAdapter,
+  ListProposalsOptions,
+  LoanProposalFilters,
+  LoanProposalPage,
+  LoanRequestOptions,
+  RegistrationOptions,
+} from './types'
+
+const ZERO_COMMITMENT = '0x0000000000000000000000000000000000000000000000000000000000000000'
+
+type Address = `0x${string}`
+
+function matchesLoanProposalFilters(proposal: LoanProposal, filters: LoanProposalFilters) {
+  if (filters.status !== undefined && proposal.status !== filters.status) return false
+  if (filters.isPrivate !== undefined && proposal.isPrivate !== filters.isPrivate) return false
+  return true
+}
+
+/**
+ * Build the DAO client on top of an adapter. Use `createViemDAOClient` or
+ * `createEthersDAOClient` rather than calling this directly.
+ */
+export function createDAOClient<TTransaction>(adapter: DAOAdapter<TTransaction>) {
+  const getMember = async (memberAddress: string): Promise<Member> =>
+    decodeMember(await adapter.read('getMember', [memberAddress as Address]))
+
+  // Unknown loan ids read back as an empty struct; only existing loans have a schedule
+  const getLoan = async (loanId: number | bigint, proposalId?: number): Promise<Loan> => {
+    const loan = await adapter.read('getLoan', [BigInt(loanId)])
+    const schedule = loan.loanId > 0 ? await adapter.read('getRepaymentSchedule', [BigInt(loanId)]) : undefined
+    return decodeLoan(loan, proposalId, schedule)
+  }
+
+  // Votes (for and against) needed for quorum by a proposal whose voting opens at `snapshot`, or now
+  const getQuorumVotes = async (snapshot?: number) =>
+    Number(
+      snapshot === undefined
+        ? await adapter.read('quorumVotes')
+        : await adapter.read('quorumVotesAt', [BigInt(snapshot)])
+    )
+
+  const getProposal = async (proposalId: number | bigint): Promise<ProposalSummary> =>
+    decodeProposalSummary(proposalId, await adapter.read('getEnhancedProposal', [BigInt(proposalId)]))
+
+  const getLoanProposal = async (proposalId: number | bigint): Promise<LoanProposal | null> => {
+    const id = BigInt(proposalId)
+    const summary = await getProposal(id)
+    if (summary.type !== ProposalType.LOAN_REQUEST) return null
+
+    const [proposal, commitment, isAnonymous, quorumVotes] = await Promise.all([
+      adapter.read('loanProposals', [id]),
+      summary.isPrivate ? adapter.read('proposalCommitments', [id]) : Promise.resolve(''),
+      summary.isPrivate ? adapter.read('isAnonymousProposal', [id]) : Promise.resolve(false),
+      getQuorumVotes(summary.votingSnapshot),
+    ])
+    return decodeLoanProposal(proposal, summary, commitment, quorumVotes, isAnonymous)
+  }
+
+  // Only PARAMETER_CHANGE and MEMBER_REMOVAL proposals have a governance record
+  const getGovernanceProposal = async (proposalId: number | bigint): Promise<GovernanceProposal | null> => {
+    const proposal = await adapter.read('governanceProposals', [BigInt(proposalId)])
+    if (proposal[0] === BigInt(0)) return null
+
+    // Voting on governance proposals opens on creation
+    return decodeGovernanceProposal(proposal, await getQuorumVotes(Number(proposal[6])))
+  }
+
+  // Voting on multi-option proposals opens on creation
+  const getMultiOptionProposal = async (proposalId: number | bigint): Promise<MultiOptionProposal> => {
+    const proposal = await adapter.read('getMultiOptionProposal', [BigInt(proposalId)])
+    return decodeMultiOptionProposal(proposalId, proposal, await getQuorumVotes(Number(proposal[4])))
+  }
+
+  const getQueuedProposals = async (): Promise<QueuedProposal[]> => {
+    const [ids, etas] = await adapter.read('getQueuedProposals')
+    const summaries = await Promise.all(ids.map(id => getProposal(id)))
+    return summaries.map((summary, index) => ({
+      id: summary.id,
+      type: summary.type,
+      proposer: summary.proposer,
+      eta: Number(etas[index]),
+    }))
+  }
+
+  const getProposalCount = async () => Number(await adapter.read('proposalCounter'))
+
+  /**
+   * One page of the on-chain proposal index. `onlyActive` keeps proposals that
+   * are still PENDING, i.e. in editing or voting.
+   */
+  const listProposals = async ({ offset = 0, limit = 10, onlyActive = false }: ListProposalsOptions = {}) => {
+    const [ids, hasMore] = await adapter.read('getProposals', [BigInt(offset), BigInt(limit), onlyActive])
+    const proposals = await Promise.all(ids.map(id => getProposal(id)))
+    return { proposals, hasMore }
+  }
+
+  /**
+   * Walk the on-chain proposal index from `offset` until `limit` matching loan
+   * proposals are collected. The returned `nextOffset` is the last scanned id,
+   * which is the `offset` to pass for the following page.
+   */
+  const listLoanProposals = async (
+    offset: number,
+    limit: number,
+    filters: LoanProposalFilters = {}
+  ): Promise<LoanProposalPage> => {
+    const totalProposals = await getProposalCount()
+    // Editing and voting proposals are still PENDING on-chain, so let the contract skip settled ones
+    const onlyActive = filters.status === ProposalStatus.IN_EDITING || filters.status === ProposalStatus.IN_VOTING
+
+    const proposals: LoanProposal[] = []
+    let cursor = offset
+
+    while (proposals.length < limit && cursor < totalProposals) {
+      const [ids] = await adapter.read('getProposals', [BigInt(cursor), BigInt(limit), onlyActive])
+      const hydrated = await Promise.all(ids.map(id => getLoanProposal(id)))
+
+      for (const [index, id] of ids.entries()) {
+        cursor = Number(id)
+        const proposal = hydrated[index]
+        if (proposal && matchesLoanProposalFilters(proposal, filters)) {
+          proposals.push(proposal)
+          if (proposals.length === limit) break
+        }
+      }
+
+      // A short page means the contract reached the end of the index
+      if (proposals.length < limit && ids.length < limit) cursor = totalProposals
+    }
+
+    return {
+      proposals,
+      nextOffset: cursor,
+      hasMore: cursor < totalProposals,
+      totalProposals,
+    }
+  }
+
+  return {
+    // Reads
+    getMember,
+    isMember: (memberAddress: string) => adapter.read('isMember', [memberAddress as Address]),
+    getLoan,
+    getMemberLoans: async (memberAddress: string): Promise<Loan[]> => {
+      const loanIds = await adapter.read('getMemberLoans', [memberAddress as Address])
+      return Promise.all(loanIds.map(loanId => getLoan(loanId)))
+    },
+    getRepaymentSchedule: async (loanId: number | bigint): Promise<RepaymentSchedule> =>
+      decodeRepaymentSchedule(await adapter.read('getRepaymentSchedule', [BigInt(loanId)])),
+    getDefaultableLoans: async (): Promise<number[]> =>
+      (await adapter.read('getDefaultableLoans')).map(loanId => Number(loanId)),
+    getLoanDocumentHash: (loanId: number | bigint) => adapter.read('loanDocuments', [BigInt(loanId)]),
+    // Signed document manifests in the order they were anchored; the latest lists the current files
+    getLoanManifests: async (loanId: number | bigint): Promise<DocumentManifestAnchor[]> =>
+      (await adapter.read('getLoanManifests', [BigInt(loanId)])).map(decodeDocumentManifestAnchor),
+    getProposalManifests: async (proposalId: number | bigint): Promise<DocumentManifestAnchor[]> =>
+      (await adapter.read('getProposalManifests', [BigInt(proposalId)])).map(decodeDocumentManifestAnchor),
+    getProposal,
+    getLoanProposal,
+    getGovernanceProposal,
+    getMultiOptionProposal,
+    getQueuedProposals,
+    getQuorumVotes,
+    getDelegate: (memberAddress: string) => adapter.read('delegates', [memberAddress as Address]),
+    getVotes: async (account: string) => Number(await adapter.read('getVotes', [account as Address])),
+    // Voters' weights at a proposal's snapshot, which the weights on their tally ballots must match
+    getElectionRoll: async (proposalId: number | bigint, voters: readonly string[]): Promise<ElectionRoll> => {
+      const { votingSnapshot } = await getProposal(BigInt(proposalId))
+      const weights = await Promise.all(
+        voters.map(voter => adapter.read('getVotesAt', [voter as Address, BigInt(votingSnapshot)]))
+      )
+      return {
+        electionId: proposalId.toString(),
+        weights: Object.fromEntries(voters.map((voter, i) => [voter.toLowerCase(), Number(weights[i])])),
+      }
+    },
+    getProposalCount,
+    isQuadraticProposal: (proposalId: number | bigint) => adapter.read('isQuadraticProposal', [BigInt(proposalId)]),
+    // Budget and spent credits of `account`; reverts for proposals that are not quadratic
+    getVoiceCredits: async (proposalId: number | bigint, account: string) => {
+      const [budget, spent] = await adapter.read('getVoiceCredits', [BigInt(proposalId), account as Address])
+      return { budget: Number(budget), spent: Number(spent) }
+    },
+    getQuadraticTally: async (proposalId: number | bigint) => {
+      const id = BigInt(proposalId)
+      const [summary, turnout] = await Promise.all([getProposal(id), adapter.read('quadraticTurnout', [id])])
+      return { votesFor: summary.votesFor, votesAgainst: summary.votesAgainst, turnout: Number(turnout) }
+    },
+    // Commitment and nullifier `account` committed on a private proposal; zero once revealed or if none
+    getPrivateVote: async (proposalId: number | bigint, account: string) => {
+      const id = BigInt(proposalId)
+      const [commitment, nullifier] = await Promise.all([
+        adapter.read('voteCommitments', [id, account as Address]),
+        adapter.read('voteNullifiers', [id, account as Address]),
+      ])
+      return { commitment, nullifier }
+    },
+    getUnrevealedVotes: async (proposalId: number | bigint) =>
+      Number(await adapter.read('unrevealedVotes', [BigInt(proposalId)])),
+    // Anonymous group: identity commitments in tree order, 0 where members left
+    getMemberTreeLeaves: async () => [...(await adapter.read('getMemberTreeLeaves'))],
+    getMemberTreeRoot: () => adapter.read('memberTreeRoot'),
+    getIdentityCommitment: (account: string) => adapter.read('identityCommitments', [account as Address]),
+    // Proof against the tree an anonymous proposal counts: identities registered by its snapshot
+    getMembershipProof: async (commitment: bigint, proposalId: number | bigint) => {
+      const [leaves, { votingSnapshot }] = await Promise.all([
+        adapter.read('getMemberTreeLeaves'),
+        getProposal(BigInt(proposalId)),
+      ])
+      const size = await adapter.read('memberTreeSizeAt', [BigInt(votingSnapshot)])
+      return getMembershipProof(leaves.slice(0, Number(size)), commitment)
+    },
+    isAnonymousProposal: (proposalId: number | bigint) => adapter.read('isAnonymousProposal', [BigInt(proposalId)]),
+    isAnonymousNullifierUsed: (proposalId: number | bigint, nullifier: bigint) =>
+      adapter.read('anonymousNullifiers', [BigInt(proposalId), nullifier]),
+    // X25519 key the member publishes for document sharing and ballots; null if they have none
+    getEncryptionKey: async (account: string) => {
+      const publicKey = await adapter.read('memberEncryptionKeys', [account as Address])
+      return publicKey === ZERO_COMMITMENT ? null : publicKey
+    },
+    listProposals,
+    listLoanProposals,
+    getDAOStats: async (): Promise<DAOStatsSnapshot> => {
+      const [stats, defaultedLoans] = await Promise.all([adapter.read('getDAOStats'), adapter.read('defaultedLoans')])
+      return decodeDAOStats(stats, defaultedLoans)
+    },
+
+    // Writes
+    // Always use the enhanced overloads: the short ones forward through an external self-call, so msg.sender becomes the DAO
+    registerMember: (membershipFee: bigint, { ensName, kycHash }: RegistrationOptions = {}) =>
+      adapter.write('registerMember', [ensName || '', kycHash || ''], membershipFee),
+    requestLoan: (amount: bigint, { isPrivate = false, commitment, documentHash }: LoanRequestOptions = {}) =>
+      adapter.write('requestLoan', [amount, isPrivate, commitment || ZERO_COMMITMENT, documentHash || '']),
+    vote: (proposalId: number | bigint, support: boolean) =>
+      adapter.write('voteOnLoanProposal', [BigInt(proposalId), support]),
+    // Private proposals: commit while voting is open, then reveal once it ends; proofs come from provePrivateVote
+    commitPrivateVote: (
+      proposalId: number | bigint,
+      { commitment, nullifier }: PrivateVoteCommitment,
+      proof: PrivateVoteProof
+    ) => adapter.write('commitPrivateVote', [BigInt(proposalId), commitment, nullifier, toSolidityProof(proof)]),
+    revealPrivateVote: (proposalId: number | bigint, option: PrivateVoteOption, proof: PrivateVoteProof) =>
+      adapter.write('revealPrivateVote', [BigInt(proposalId), PRIVATE_VOTE_CHOICES[option], toSolidityProof(proof)]),
+    registerIdentity: (commitment: bigint) => adapter.write('registerIdentity', [commitment]),
+    // Publishing again rotates the key; pass null to withdraw it
+    setEncryptionKey: (publicKey: `0x${string}` | null) =>
+      adapter.write('setEncryptionKey', [publicKey ?? ZERO_COMMITMENT]),
+    // `digest` is manifestDigest of the bytes stored under `manifestCid`; only the borrower or an admin may anchor
+    anchorLoanManifest: (loanId: number | bigint, manifestCid: string, digest: `0x${string}`) =>
+      adapter.write('anchorLoanManifest', [BigInt(loanId), manifestCid, digest]),
+    anchorProposalManifest: (proposalId: number | bigint, manifestCid: string, digest: `0x${string}`) =>
+      adapter.write('anchorProposalManifest', [BigInt(proposalId), manifestCid, digest]),
+    // Needs no membership: a relayer can submit the proof from proveAnonymousVote for the voter
+    castAnonymousVote: (proposalId: number | bigint, support: boolean, { proof, publicSignals }: AnonymousVoteProof) =>
+      adapter.write('castAnonymousVote', [
+        BigInt(proposalId),
+        support,
+        BigInt(publicSignals[1]),
+        BigInt(publicSignals[0]),
+        toSolidityProof({ proof }),
+      ]),
+    repayLoan: (loanId: number | bigint, amount: bigint) =>
+      adapter.write('repayLoan', [BigInt(loanId)], amount),
+    markLoanDefaulted: (loanId: number | bigint) =>
+      adapter.write('markLoanDefaulted', [BigInt(loanId)]),
+    proposeParameterChange: (change: ParameterChange, description: string) =>
+      adapter.write('proposeParameterChange', [encodeParameterChange(change), description]),
+    proposeTreasuryWithdrawal: (amount: bigint, destination: string, reason: string, quadratic = false) =>
+      adapter.write('proposeTreasuryWithdrawal', [amount, destination as Address, reason, quadratic]),
+    voteOnQuadraticTreasuryProposal: (proposalId: number | bigint, support: boolean, credits: number | bigint) =>
+      adapter.write('voteOnQuadraticTreasuryProposal', [BigInt(proposalId), support, BigInt(credits)]),
+    proposeMemberRemoval: (memberAddress: string, description: string) =>
+      adapter.write('proposeMemberRemoval', [memberAddress as Address, description]),
+    voteOnGovernanceProposal: (proposalId: number | bigint, support: boolean) =>
+      adapter.write('voteOnGovernanceProposal', [BigInt(proposalId), support]),
+    proposeMultiOption: (description: string, options: readonly string[], countingMethod: CountingMethod) =>
+      adapter.write('proposeMultiOption', [description, options, countingMethod]),
+    // Approval: the approved option indexes. Ranked choice: option indexes from most to least preferred
+    voteOnMultiOptionProposal: (proposalId: number | bigint, choices: readonly number[]) =>
+      adapter.write('voteOnMultiOptionProposal', [BigInt(proposalId), choices.map(choice => BigInt(choice))]),
+    commitRankedChoiceResult: (proposalId: number | bigint, winningOption: number, resultHash: `0x${string}`) =>
+      adapter.write('commitRankedChoiceResult', [BigInt(proposalId), BigInt(winningOption), resultHash]),
+    executeQueuedProposal: (proposalId: number | bigint) =>
+      adapter.write('executeQueuedProposal', [BigInt(proposalId)]),
+    cancelQueuedProposal: (proposalId: number | bigint) =>
+      adapter.write('cancelQueuedProposal', [BigInt(proposalId)]),
+    finalizeProposal: (proposalId: number | bigint) =>
+      adapter.write('finalizeProposal', [BigInt(proposalId)]),
+    delegate: (delegateAddress: string) => adapter.write('delegate', [delegateAddress as Address]),
+    undelegate: () => adapter.write('undelegate', []),
+  }
+}
+
+export type DAOClient<TTransaction> = ReturnType<typeof createDAOClient<TTransaction>>
@@ -0,0 +1,42 @@
+import { poseidon2, poseidon4 } from 'poseidon-lite'
+import { toHex } from 'viem'
+
+type Hex = `0x${string}`
+
+// Mirrors VOTE_AGAINST, VOTE_FOR and VOTE_ABSTAIN in UnifiedLendingDAO.sol
+export const PRIVATE_VOTE_CHOICES = {
+  against: 0,
+  for: 1,
+  abstain: 2,
+} as const
+
+export type PrivateVoteOption = keyof typeof PRIVATE_VOTE_CHOICES
+
+export interface PrivateVoteCommitment {
+  commitment: Hex
+  nullifier: Hex
+}
+
+// Fresh secret for one commit; lose it and the vote can never be revealed. 31 bytes keep it inside the SNARK field
+export function generateVoteSecret(): Hex {
+  return toHex(crypto.getRandomValues(new Uint8Array(31)))
+}
+
+/**
+ * The commitment and nullifier `commitPrivateVote` stores, hashed like
+ * circuits/privateVote.circom: Poseidon(proposalId, voter, choice, secret)
+ * and Poseidon(voter, secret).
+ */
+export function hashPrivateVote(
+  proposalId: number | bigint,
+  option: PrivateVoteOption,
+  voter: Hex,
+  secret: Hex
+): PrivateVoteCommitment {
+  return {
+    commitment: toHex(poseidon4([BigInt(proposalId), BigInt(voter), PRIVATE_VOTE_CHOICES[option], BigInt(secret)]), {
+      size: 32,
+    }),
+    nullifier: toHex(poseidon2([BigInt(voter), BigInt(secret)]), { size: 32 }),
+  }
+}
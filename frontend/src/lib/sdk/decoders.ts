@@ -0,0 +1,308 @@
+import { DAO_CONSTANTS } from '../../constants'
+import { CountingMethod, LoanStatus, MemberStatus, ProposalStatus, ProposalType } from '../../types/dao'
+import type {
+  DAOStatsSnapshot,
+  DocumentManifestAnchor,
+  GovernanceProposal,
+  Loan,
+  LoanProposal,
+  Member,
+  MultiOptionProposal,
+  ProposalSummary,
+  RepaymentSchedule,
+} from '../../types/dao'
+import type { DAOReadResult } from './types'
+
+// On-chain enum values from IDAO.sol
+export const ONCHAIN_PROPOSAL_TYPE = {
+  LOAN: 0,
+  TREASURY_WITHDRAWAL: 1,
+  PARAMETER_CHANGE: 2,
+  MEMBER_REMOVAL: 3,
+  MULTI_OPTION: 4,
+} as const
+export const ONCHAIN_PROPOSAL_STATUS = { PENDING: 0, APPROVED: 1, REJECTED: 2, EXECUTED: 3, CANCELLED: 4, EXPIRED: 5 } as const
+export const ONCHAIN_PROPOSAL_PHASE = { EDITING: 0, VOTING: 1, EXECUTED: 2, EXPIRED: 3 } as const
+
+// Small uints decode to numbers in viem and bigints in ethers
+type Numeric = number | bigint
+
+const SETTLED_PROPOSAL_STATUS: Record<number, ProposalStatus> = {
+  [ONCHAIN_PROPOSAL_STATUS.APPROVED]: ProposalStatus.APPROVED,
+  [ONCHAIN_PROPOSAL_STATUS.REJECTED]: ProposalStatus.REJECTED,
+  [ONCHAIN_PROPOSAL_STATUS.EXECUTED]: ProposalStatus.EXECUTED,
+  [ONCHAIN_PROPOSAL_STATUS.CANCELLED]: ProposalStatus.CANCELLED,
+  [ONCHAIN_PROPOSAL_STATUS.EXPIRED]: ProposalStatus.EXPIRED,
+}
+
+// Outcome `finalizeProposal` records once voting ends: REJECTED if quorum was met, EXPIRED otherwise
+function toClosedProposalStatus(votesCast: number, quorumVotes?: number): ProposalStatus {
+  return quorumVotes !== undefined && votesCast < quorumVotes ? ProposalStatus.EXPIRED : ProposalStatus.REJECTED
+}
+
+// Phase changes are only written on-chain by the next vote, so derive them from the timestamps
+export function toLoanProposalStatus(
+  status: Numeric,
+  votingStartTime: number,
+  now: number,
+  votesCast: number = 0,
+  quorumVotes?: number,
+  revealPeriod: number = 0
+): ProposalStatus {
+  const settled = SETTLED_PROPOSAL_STATUS[Number(status)]
+  if (settled !== undefined) return settled
+
+  const votingEndTime = votingStartTime + DAO_CONSTANTS.VOTING_PERIOD
+  if (now <= votingStartTime) return ProposalStatus.IN_EDITING
+  if (now <= votingEndTime) return ProposalStatus.IN_VOTING
+  if (now <= votingEndTime + revealPeriod) return ProposalStatus.PENDING // Committed votes are being revealed
+  return toClosedProposalStatus(votesCast, quorumVotes) // Voting period ended without approval
+}
+
+export function decodeMember(member: DAOReadResult<'getMember'>): Member {
+  return {
+    memberAddress: member.memberAddress,
+    status: Number(member.status) as MemberStatus,
+    joinDate: Number(member.joinDate),
+    contributionAmount: member.contributionAmount,
+    shareBalance: member.shareBalance,
+    hasActiveLoan: member.hasActiveLoan,
+    lastLoanDate: Number(member.lastLoanDate),
+  }
+}
+
+export function decodeRepaymentSchedule(schedule: DAOReadResult<'getRepaymentSchedule'>): RepaymentSchedule {
+  return {
+    installmentCount: Number(schedule.installmentCount),
+    installmentAmount: schedule.installmentAmount,
+    installmentInterval: Number(schedule.installmentInterval),
+    installmentsPaid: Number(schedule.installmentsPaid),
+    remainingBalance: schedule.remainingBalance,
+    nextDueDate: Number(schedule.nextDueDate),
+    nextInstallmentAmount: schedule.nextInstallmentAmount,
+  }
+}
+
+export function decodeDocumentManifestAnchor(
+  anchor: DAOReadResult<'getLoanManifests'>[number]
+): DocumentManifestAnchor {
+  return {
+    cid: anchor.cid,
+    digest: anchor.digest,
+    signer: anchor.signer,
+    anchoredAt: Number(anchor.anchoredAt),
+  }
+}
+
+export function decodeLoan(
+  loan: DAOReadResult<'getLoan'>,
+  proposalId?: number,
+  schedule?: DAOReadResult<'getRepaymentSchedule'>
+): Loan {
+  const status = Number(loan.status) as LoanStatus
+
+  return {
+    id: Number(loan.loanId),
+    proposalId,
+    borrower: loan.borrower,
+    amount: loan.principalAmount,
+    interestRate: Number(loan.interestRate),
+    repaymentTerm: Number(loan.dueDate - loan.startDate),
+    startTime: Number(loan.startDate),
+    endTime: Number(loan.dueDate),
+    amountPaid: loan.amountRepaid,
+    totalInterest: loan.totalRepayment - loan.principalAmount,
+    isActive: status === LoanStatus.ACTIVE,
+    collateralAmount: BigInt(0),
+    status,
+    schedule: schedule && decodeRepaymentSchedule(schedule),
+  }
+}
+
+export function decodeProposalSummary(
+  proposalId: Numeric,
+  proposal: DAOReadResult<'getEnhancedProposal'>
+): ProposalSummary {
+  const [
+    proposalType,
+    status,
+    forVotes,
+    againstVotes,
+    createdAt,
+    isPrivate,
+    documentHash,
+    proposer,
+    votingSnapshot,
+    snapshotTotalWeight,
+  ] = proposal
+
+  return {
+    id: Number(proposalId),
+    type: Number(proposalType) as ProposalType,
+    proposer,
+    status: SETTLED_PROPOSAL_STATUS[Number(status)] ?? ProposalStatus.PENDING,
+    votesFor: Number(forVotes),
+    votesAgainst: Number(againstVotes),
+    creationTime: Number(createdAt),
+    isPrivate,
+    documentHash,
+    votingSnapshot: Number(votingSnapshot),
+    snapshotTotalWeight: Number(snapshotTotalWeight),
+  }
+}
+
+export function decodeLoanProposal(
+  proposal: DAOReadResult<'loanProposals'>,
+  summary: Pick<ProposalSummary, 'isPrivate' | 'documentHash'>,
+  commitment: string,
+  quorumVotes?: number,
+  isAnonymous = false,
+  now: number = Math.floor(Date.now() / 1000)
+): LoanProposal {
+  const [proposalId, borrower, amount, interestRate, duration, , createdAt, editingPeriodEnd, , status, forVotes, againstVotes] = proposal
+  const votingStartTime = Number(editingPeriodEnd)
+  // Private proposals take commit-reveal votes, revealed after voting ends, unless they take anonymous ones
+  const revealPeriod = summary.isPrivate && !isAnonymous ? DAO_CONSTANTS.REVEAL_PERIOD : 0
+
+  return {
+    id: Number(proposalId),
+    borrower,
+    amount,
+    purpose: '', // Not stored on-chain; supporting details live in the proposal document
+    interestRate: Number(interestRate),
+    repaymentTerm: Number(duration),
+    collateralAmount: BigInt(0),
+    status: toLoanProposalStatus(
+      status,
+      votingStartTime,
+      now,
+      Number(forVotes + againstVotes),
+      quorumVotes,
+      revealPeriod
+    ),
+    votesFor: Number(forVotes),
+    votesAgainst: Number(againstVotes),
+    creationTime: Number(createdAt),
+    votingStartTime,
+    votingEndTime: votingStartTime + DAO_CONSTANTS.VOTING_PERIOD,
+    revealEndTime: votingStartTime + DAO_CONSTANTS.VOTING_PERIOD + revealPeriod,
+    isPrivate: summary.isPrivate,
+    isAnonymous,
+    privacyCommitment: commitment,
+    documentHash: summary.documentHash,
+    quorumVotes,
+  }
+}
+
+export function decodeDAOStats(
+  stats: DAOReadResult<'getDAOStats'>,
+  defaultedLoans: DAOReadResult<'defaultedLoans'>
+): DAOStatsSnapshot {
+  const [
+    treasuryBalance,
+    totalMembers,
+    activeMembers,
+    totalLoans,
+    activeLoans,
+    totalYield,
+    totalRestaked,
+    privacyEnabled,
+    restakingEnabled,
+    ensEnabled,
+    documentsEnabled,
+  ] = stats
+
+  return {
+    totalMembers: Number(totalMembers),
+    activeMembers: Number(activeMembers),
+    totalLoans: Number(totalLoans),
+    activeLoans: Number(activeLoans),
+    defaultedLoans: Number(defaultedLoans),
+    treasuryBalance,
+    totalYieldGenerated: totalYield,
+    totalRestaked,
+    privacyEnabled,
+    restakingEnabled,
+    ensEnabled,
+    documentsEnabled,
+  }
+}
+
+export function decodeGovernanceProposal(
+  proposal: DAOReadResult<'governanceProposals'>,
+  quorumVotes?: number,
+  now: number = Math.floor(Date.now() / 1000)
+): GovernanceProposal {
+  const [proposalId, proposer, proposalType, callData, member, description, createdAt, status, forVotes, againstVotes] = proposal
+  const votingEndTime = Number(createdAt) + DAO_CONSTANTS.VOTING_PERIOD
+  const settled = SETTLED_PROPOSAL_STATUS[Number(status)]
+
+  return {
+    id: Number(proposalId),
+    type: Number(proposalType) as ProposalType,
+    proposer,
+    callData,
+    member,
+    description,
+    // Governance proposals have no editing phase; voting opens on creation
+    status:
+      settled ??
+      (now <= votingEndTime
+        ? ProposalStatus.IN_VOTING
+        : toClosedProposalStatus(Number(forVotes + againstVotes), quorumVotes)),
+    votesFor: Number(forVotes),
+    votesAgainst: Number(againstVotes),
+    creationTime: Number(createdAt),
+    votingEndTime,
+    quorumVotes,
+  }
+}
+
+export function decodeMultiOptionProposal(
+  proposalId: Numeric,
+  proposal: DAOReadResult<'getMultiOptionProposal'>,
+  quorumVotes?: number,
+  now: number = Math.floor(Date.now() / 1000)
+): MultiOptionProposal {
+  const [
+    proposer,
+    countingMethod,
+    description,
+    options,
+    createdAt,
+    status,
+    turnout,
+    approvals,
+    ballotsHash,
+    winningOption,
+    resultHash,
+  ] = proposal
+  const votingEndTime = Number(createdAt) + DAO_CONSTANTS.VOTING_PERIOD
+  const settled = SETTLED_PROPOSAL_STATUS[Number(status)]
+  const approved = settled === ProposalStatus.APPROVED
+  const isRankedChoice = Number(countingMethod) === CountingMethod.RANKED_CHOICE
+
+  return {
+    id: Number(proposalId),
+    proposer,
+    countingMethod: Number(countingMethod) as CountingMethod,
+    description,
+    options: [...options],
+    // Voting opens on creation. With quorum, a closed vote is PENDING until finalized or its ranked result is committed
+    status:
+      settled ??
+      (now <= votingEndTime
+        ? ProposalStatus.IN_VOTING
+        : quorumVotes !== undefined && Number(turnout) < quorumVotes
+          ? ProposalStatus.EXPIRED
+          : ProposalStatus.PENDING),
+    creationTime: Number(createdAt),
+    votingEndTime,
+    turnout: Number(turnout),
+    approvals: approvals.map(Number),
+    ballotsHash,
+    winningOption: approved ? Number(winningOption) : undefined,
+    resultHash: approved && isRankedChoice ? resultHash : undefined,
+    quorumVotes,
+  }
+}
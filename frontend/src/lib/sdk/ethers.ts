@@ -0,0 +1,33 @@
+import type { ContractTransactionResponse } from 'ethers'
+import { createDAOClient } from './client'
+import type { DAOAdapter, DAOReadArgs, DAOReadFunction, DAOReadResult } from './types'
+
+/**
+ * Any ethers v6 contract bound to the DAO: `new Contract(address,
+ * UNIFIED_LENDING_DAO_ABI, runner)` or the typechain `UnifiedLendingDAO`
+ * used by the hardhat scripts and tests. Connect it to a signer to send
+ * transactions.
+ */
+export interface EthersDAOContract {
+  getFunction(key: string): {
+    staticCall(...args: unknown[]): Promise<unknown>
+    send(...args: unknown[]): Promise<ContractTransactionResponse>
+  }
+}
+
+export function createEthersDAOClient(contract: EthersDAOContract) {
+  const adapter: DAOAdapter<ContractTransactionResponse> = {
+    read<F extends DAOReadFunction>(functionName: F, args?: DAOReadArgs<F>) {
+      // ethers unwraps single outputs and returns a Result (indexed and named) for the rest
+      return contract.getFunction(functionName).staticCall(...((args ?? []) as readonly unknown[])) as Promise<DAOReadResult<F>>
+    },
+    write(functionName, args, value) {
+      const overrides = value !== undefined ? [{ value }] : []
+      return contract.getFunction(functionName).send(...(args as readonly unknown[]), ...overrides)
+    },
+  }
+
+  return createDAOClient(adapter)
+}
+
+export type EthersDAOClient = ReturnType<typeof createEthersDAOClient>
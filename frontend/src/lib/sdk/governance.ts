@@ -0,0 +1,39 @@
+import { decodeFunctionData, encodeFunctionData } from 'viem'
+import { UNIFIED_LENDING_DAO_ABI } from '../contract-abi'
+
+// Setters a PARAMETER_CHANGE proposal may call; mirrors _isPolicySetter in UnifiedLendingDAO.sol
+export const GOVERNED_PARAMETERS = [
+  'setConsensusThreshold',
+  'setQuorumThreshold',
+  'setVotingWeightStrategy',
+  'setInterestRateRange',
+  'setMinMembershipDuration',
+  'setMembershipContribution',
+  'setMaxLoanDuration',
+  'setCooldownPeriod',
+  'setGracePeriod',
+  'setInstallmentInterval',
+  'setTimelockDelay',
+] as const
+
+export type GovernedParameter = (typeof GOVERNED_PARAMETERS)[number]
+
+export type ParameterChange =
+  | { functionName: 'setInterestRateRange'; args: readonly [bigint, bigint] }
+  | { functionName: 'setVotingWeightStrategy'; args: readonly [`0x${string}`] }
+  | { functionName: Exclude<GovernedParameter, 'setInterestRateRange' | 'setVotingWeightStrategy'>; args: readonly [bigint] }
+
+export function encodeParameterChange(change: ParameterChange): `0x${string}` {
+  return encodeFunctionData({ abi: UNIFIED_LENDING_DAO_ABI, ...change } as Parameters<typeof encodeFunctionData>[0])
+}
+
+// Returns null for calldata that is not one of the governed setters
+export function decodeParameterChange(callData: `0x${string}`): ParameterChange | null {
+  try {
+    const { functionName, args } = decodeFunctionData({ abi: UNIFIED_LENDING_DAO_ABI, data: callData })
+    if (!(GOVERNED_PARAMETERS as readonly string[]).includes(functionName)) return null
+    return { functionName, args } as ParameterChange
+  } catch {
+    return null
+  }
+}
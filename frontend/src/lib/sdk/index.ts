@@ -0,0 +1,107 @@
+export { createDAOClient } from './client'
+export type { DAOClient } from './client'
+export { createViemDAOClient } from './viem'
+export type { ViemDAOClient, ViemDAOClientConfig } from './viem'
+export { createEthersDAOClient } from './ethers'
+export type { EthersDAOClient, EthersDAOContract } from './ethers'
+export {
+  ONCHAIN_PROPOSAL_TYPE,
+  ONCHAIN_PROPOSAL_STATUS,
+  ONCHAIN_PROPOSAL_PHASE,
+  toLoanProposalStatus,
+  decodeMember,
+  decodeLoan,
+  decodeProposalSummary,
+  decodeLoanProposal,
+  decodeDAOStats,
+  decodeGovernanceProposal,
+  decodeMultiOptionProposal,
+} from './decoders'
+export { GOVERNED_PARAMETERS, encodeParameterChange, decodeParameterChange } from './governance'
+export type { GovernedParameter, ParameterChange } from './governance'
+export {
+  VOICE_CREDITS_PER_VOTE,
+  TREASURY_APPROVAL_THRESHOLD_BPS,
+  quadraticVotes,
+  voiceCreditBudget,
+  creditsForVotes,
+  previewQuadraticOutcome,
+} from './quadratic'
+export type { QuadraticTally, QuadraticBallot } from './quadratic'
+export {
+  hashBallots,
+  hashRankedChoiceResult,
+  tallyApproval,
+  tallyRankedChoice,
+  verifyRankedChoiceResult,
+} from './tally'
+export type { MultiOptionBallot, ApprovalTally, RankedChoiceTally } from './tally'
+export { PRIVATE_VOTE_CHOICES, generateVoteSecret, hashPrivateVote } from './commitReveal'
+export type { PrivateVoteOption, PrivateVoteCommitment } from './commitReveal'
+export {
+  MEMBER_TREE_DEPTH,
+  generateIdentity,
+  identityCommitment,
+  anonymousVoteNullifier,
+  computeMemberTreeRoot,
+  getMembershipProof,
+} from './memberGroup'
+export type { MemberIdentity, MembershipProof } from './memberGroup'
+export {
+  dealTrusteeShares,
+  verifyTrusteeShare,
+  combineTrusteeShares,
+  createElectionKey,
+  encryptBallot,
+  verifyBallot,
+  BALLOT_TYPES,
+  ballotTypedData,
+  signBallot,
+  verifyBallotSignature,
+  isCountableBallot,
+  checkBallots,
+  aggregateBallots,
+  partialDecrypt,
+  verifyPartialDecryption,
+  combinePartialDecryptions,
+} from './thresholdTally'
+export type {
+  TrusteeDealing,
+  ElectionKey,
+  Ciphertext,
+  EqualityProof,
+  BallotContext,
+  ElectionRoll,
+  UnsignedBallot,
+  EncryptedBallot,
+  BallotTypedData,
+  EncryptedTally,
+  PartialDecryption,
+} from './thresholdTally'
+export {
+  SHUFFLE_PROOF_ROUNDS,
+  prepareMixInput,
+  shuffleBallots,
+  verifyShuffle,
+  verifyMixChain,
+  aggregateMixedBallots,
+} from './mixnet'
+export type { ShuffleRound, MixedBatch } from './mixnet'
+export {
+  PRIVATE_VOTE_ARTIFACTS,
+  ANONYMOUS_VOTE_ARTIFACTS,
+  provePrivateVote,
+  verifyPrivateVoteProof,
+  proveAnonymousVote,
+  verifyAnonymousVoteProof,
+  toSolidityProof,
+} from './zk'
+export type {
+  CircuitArtifacts,
+  PrivateVoteProofInput,
+  PrivateVoteProof,
+  AnonymousVoteProofInput,
+  AnonymousVoteProof,
+  SolidityProof,
+} from './zk'
+export type * from './types'
@@ -0,0 +1,95 @@
+import { poseidon1, poseidon2 } from 'poseidon-lite'
+import { toHex } from 'viem'
+
+type Hex = `0x${string}`
+
+// Mirrors MEMBER_TREE_DEPTH in UnifiedLendingDAO.sol and circuits/anonymousVote.circom
+export const MEMBER_TREE_DEPTH = 16
+
+export interface MemberIdentity {
+  secret: Hex // Proves membership; lose it and the member can no longer vote anonymously
+  commitment: bigint // What `registerIdentity` puts in the tree
+}
+
+export interface MembershipProof {
+  root: bigint
+  leafIndex: number
+  pathElements: bigint[] // Sibling of each node from the leaf up
+  pathIndices: number[] // 1 where the node is a right child
+}
+
+// 31 random bytes keep the secret inside the SNARK field
+export function generateIdentity(): MemberIdentity {
+  const secret = toHex(crypto.getRandomValues(new Uint8Array(31)))
+  return { secret, commitment: identityCommitment(secret) }
+}
+
+export function identityCommitment(secret: Hex): bigint {
+  return poseidon1([BigInt(secret)])
+}
+
+// The same identity gets one nullifier per proposal, so it can vote once without being recognised across proposals
+export function anonymousVoteNullifier(secret: Hex, proposalId: number | bigint): bigint {
+  return poseidon2([BigInt(secret), BigInt(proposalId)])
+}
+
+let emptySubtreeRoots: bigint[] | undefined
+
+// Root of an empty subtree at each level; empty and removed leaves are 0, as on-chain
+function getEmptySubtreeRoots(): bigint[] {
+  if (!emptySubtreeRoots) {
+    emptySubtreeRoots = [BigInt(0)]
+    for (let level = 0; level < MEMBER_TREE_DEPTH; level++) {
+      emptySubtreeRoots.push(poseidon2([emptySubtreeRoots[level], emptySubtreeRoots[level]]))
+    }
+  }
+  return emptySubtreeRoots
+}
+
+// Every level of the tree from the leaves up, stopping at the last non-empty node of each
+function buildMemberTree(leaves: readonly bigint[]): bigint[][] {
+  const empty = getEmptySubtreeRoots()
+  const levels = [[...leaves]]
+  for (let level = 0; level < MEMBER_TREE_DEPTH; level++) {
+    const nodes = levels[level]
+    const parents: bigint[] = []
+    for (let i = 0; i < nodes.length; i += 2) {
+      parents.push(poseidon2([nodes[i], i + 1 < nodes.length ? nodes[i + 1] : empty[level]]))
+    }
+    levels.push(parents)
+  }
+  return levels
+}
+
+/**
+ * Root of the member tree holding `leaves` in order, as returned by
+ * `getMemberTreeLeaves`. Matches `memberTreeRoot` on-chain.
+ */
+export function computeMemberTreeRoot(leaves: readonly bigint[]): bigint {
+  const levels = buildMemberTree(leaves)
+  return levels[MEMBER_TREE_DEPTH][0] ?? getEmptySubtreeRoots()[MEMBER_TREE_DEPTH]
+}
+
+/**
+ * Inclusion proof for `commitment` among the tree's `leaves`. Anyone can build
+ * it from the on-chain leaves; only the identity's secret turns it into a vote.
+ */
+export function getMembershipProof(leaves: readonly bigint[], commitment: bigint): MembershipProof {
+  const leafIndex = leaves.indexOf(commitment)
+  if (commitment === BigInt(0) || leafIndex === -1) {
+    throw new Error('Identity is not in the member tree')
+  }
+
+  const empty = getEmptySubtreeRoots()
+  const levels = buildMemberTree(leaves)
+  const pathElements: bigint[] = []
+  const pathIndices: number[] = []
+  let index = leafIndex
+  for (let level = 0; level < MEMBER_TREE_DEPTH; level++) {
+    pathElements.push(levels[level][index ^ 1] ?? empty[level])
+    pathIndices.push(index & 1)
+    index >>= 1
+  }
+
+  return { root: levels[MEMBER_TREE_DEPTH][0], leafIndex, pathElements, pathIndices }
+}
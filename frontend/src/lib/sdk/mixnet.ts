@@ -0,0 +1,248 @@
+import { mod } from '@noble/curves/abstract/modular'
+import { secp256k1 } from '@noble/curves/secp256k1'
+import { concat, hexToBigInt, sha256, toHex } from 'viem'
+import {
+  checkBallots,
+  decodePoint,
+  encodePoint,
+  randomScalar,
+  readElectionKey,
+  scalarHex,
+} from './thresholdTally'
+import type { Ciphertext, ElectionKey, ElectionRoll, EncryptedBallot, EncryptedTally } from './thresholdTally'
+
+type Hex = `0x${string}`
+type Point = typeof secp256k1.ProjectivePoint.BASE
+
+const G = secp256k1.ProjectivePoint.BASE
+const ZERO = secp256k1.ProjectivePoint.ZERO
+const ORDER = secp256k1.CURVE.n
+
+/*
+ * Re-encryption mixnet for ballots encrypted to an election key.
+ *
+ * Each mixer re-randomises every ciphertext and permutes the ballots, so
+ * nobody can link an output ballot to the voter who cast it as long as one
+ * mixer keeps its permutation secret. A cut-and-choose shuffle proof
+ * (Sako-Kilian) shows the output holds exactly the input's votes: for every
+ * round the mixer commits to a shadow shuffle of the input and, depending on
+ * a Fiat-Shamir challenge bit, opens either the input-to-shadow or the
+ * shadow-to-output step. Cheating survives a round with probability 1/2.
+ */
+
+// Proof rounds; a mixer that did not shuffle honestly passes all of them with probability 2^-128
+export const SHUFFLE_PROOF_ROUNDS = 128
+
+type Vote = [Point, Point][] // A ballot's ciphertexts, one per option
+
+export interface ShuffleRound {
+  shadow: Ciphertext[][]
+  // Challenge bit 0: shadow ballot i re-encrypts input ballot permutation[i]
+  // Challenge bit 1: output ballot i re-encrypts shadow ballot permutation[i]
+  permutation: number[]
+  randomness: Hex[][]
+}
+
+export interface MixedBatch {
+  ciphertexts: Ciphertext[][] // The mixer's output, one vector per ballot in shuffled order
+  proof: ShuffleRound[]
+}
+
+function readVotes(ballots: readonly (readonly Ciphertext[])[]): Vote[] {
+  return ballots.map(ciphertexts => ciphertexts.map(({ c1, c2 }): [Point, Point] => [decodePoint(c1), decodePoint(c2)]))
+}
+
+function writeVotes(votes: readonly Vote[]): Ciphertext[][] {
+  return votes.map(vote => vote.map(([c1, c2]) => ({ c1: encodePoint(c1), c2: encodePoint(c2) })))
+}
+
+// multiply rather than multiplyUnsafe, which ignores the precomputed multiples of G and the election key
+function reEncrypt(y: Point, [c1, c2]: [Point, Point], r: bigint): [Point, Point] {
+  return r === BigInt(0) ? [c1, c2] : [c1.add(G.multiply(r)), c2.add(y.multiply(r))]
+}
+
+function randomPermutation(length: number): number[] {
+  const permutation = Array.from({ length }, (_, i) => i)
+  for (let i = length - 1; i > 0; i--) {
+    const j = Number(randomScalar() % BigInt(i + 1))
+    ;[permutation[i], permutation[j]] = [permutation[j], permutation[i]]
+  }
+  return permutation
+}
+
+function isPermutation(permutation: readonly number[], length: number): boolean {
+  const seen = new Set(permutation)
+  return (
+    permutation.length === length &&
+    seen.size === length &&
+    permutation.every(index => Number.isInteger(index) && index >= 0 && index < length)
+  )
+}
+
+// One bit per round, bound to everything the mixer committed to
+function challengeBits(
+  election: ElectionKey,
+  input: readonly Ciphertext[][],
+  output: readonly Ciphertext[][],
+  shadows: readonly Ciphertext[][][]
+): number[] {
+  const flatten = (batch: readonly Ciphertext[][]) => batch.flatMap(vote => vote.flatMap(({ c1, c2 }) => [c1, c2]))
+  const seed = sha256(
+    concat([toHex('shuffle'), election.publicKey, ...flatten(input), ...flatten(output), ...shadows.flatMap(flatten)])
+  )
+  const bits: number[] = []
+  for (let block = 0; bits.length < shadows.length; block++) {
+    const word = hexToBigInt(sha256(concat([seed, toHex(block, { size: 4 })])))
+    for (let bit = 0; bit < 256 && bits.length < shadows.length; bit++) {
+      bits.push(Number((word >> BigInt(bit)) & BigInt(1)))
+    }
+  }
+  return bits
+}
+
+/**
+ * Mix input for a batch of ballots: each is checked and scaled by its public
+ * weight, so weights cannot be used to follow a ballot through the mix.
+ */
+export function prepareMixInput(
+  election: ElectionKey,
+  roll: ElectionRoll,
+  ballots: readonly EncryptedBallot[],
+  optionCount: number
+): Ciphertext[][] {
+  checkBallots(election, roll, ballots, optionCount)
+  return ballots.map(ballot => {
+    const weight = BigInt(ballot.weight)
+    return ballot.ciphertexts.map(({ c1, c2 }) => ({
+      c1: encodePoint(decodePoint(c1).multiply(weight)),
+      c2: encodePoint(decodePoint(c2).multiply(weight)),
+    }))
+  })
+}
+
+/**
+ * One mixer's turn: re-encrypt and shuffle `input`, which is the previous
+ * mixer's output or `prepareMixInput` for the first, and prove it.
+ */
+export function shuffleBallots(election: ElectionKey, input: readonly Ciphertext[][]): MixedBatch {
+  const y = readElectionKey(election)
+  const votes = readVotes(input)
+  const permutation = randomPermutation(votes.length)
+  const nonces = permutation.map(source => votes[source].map(() => randomScalar()))
+  const output = permutation.map((source, i) =>
+    votes[source].map((ciphertext, option) => reEncrypt(y, ciphertext, nonces[i][option]))
+  )
+
+  const shadows = Array.from({ length: SHUFFLE_PROOF_ROUNDS }, () => {
+    const shadowPermutation = randomPermutation(votes.length)
+    const shadowNonces = shadowPermutation.map(source => votes[source].map(() => randomScalar()))
+    const shadow = shadowPermutation.map((source, i) =>
+      votes[source].map((ciphertext, option) => reEncrypt(y, ciphertext, shadowNonces[i][option]))
+    )
+    return { permutation: shadowPermutation, nonces: shadowNonces, ciphertexts: writeVotes(shadow) }
+  })
+
+  const ciphertexts = writeVotes(output)
+  const bits = challengeBits(election, input, ciphertexts, shadows.map(shadow => shadow.ciphertexts))
+
+  const proof = shadows.map((shadow, round): ShuffleRound => {
+    if (bits[round] === 0) {
+      return {
+        shadow: shadow.ciphertexts,
+        permutation: shadow.permutation,
+        randomness: shadow.nonces.map(vote => vote.map(scalarHex)),
+      }
+    }
+    // Output i re-encrypts input permutation[i], which shadow position inverse[permutation[i]] also holds
+    const inverse: number[] = []
+    shadow.permutation.forEach((source, i) => (inverse[source] = i))
+    const toShadow = permutation.map(source => inverse[source])
+    return {
+      shadow: shadow.ciphertexts,
+      permutation: toShadow,
+      randomness: toShadow.map((position, i) =>
+        nonces[i].map((nonce, option) => scalarHex(mod(nonce - shadow.nonces[position][option], ORDER)))
+      ),
+    }
+  })
+
+  return { ciphertexts, proof }
+}
+
+// Check that `batch` holds the same votes as `input`, re-encrypted and reordered
+export function verifyShuffle(election: ElectionKey, input: readonly Ciphertext[][], batch: MixedBatch): boolean {
+  try {
+    const optionCount = input[0]?.length ?? 0
+    const wellFormed = (rows: readonly (readonly unknown[])[]) =>
+      rows.length === input.length && rows.every(row => row.length === optionCount)
+    if (!wellFormed(batch.ciphertexts) || batch.proof.length !== SHUFFLE_PROOF_ROUNDS) return false
+    if (!batch.proof.every(round => wellFormed(round.shadow) && wellFormed(round.randomness))) return false
+
+    const y = readElectionKey(election)
+    const inputVotes = readVotes(input)
+    const outputVotes = readVotes(batch.ciphertexts)
+    const bits = challengeBits(election, input, batch.ciphertexts, batch.proof.map(round => round.shadow))
+
+    return batch.proof.every((round, index) => {
+      if (!isPermutation(round.permutation, input.length)) return false
+      const shadow = readVotes(round.shadow)
+      // Bit 0 opens input -> shadow, bit 1 opens shadow -> output
+      const [sources, targets] = bits[index] === 0 ? [inputVotes, shadow] : [shadow, outputVotes]
+      return targets.every((vote, i) =>
+        vote.every((ciphertext, option) => {
+          const r = hexToBigInt(round.randomness[i][option])
+          if (r >= ORDER) return false
+          const [c1, c2] = reEncrypt(y, sources[round.permutation[i]][option], r)
+          return c1.equals(ciphertext[0]) && c2.equals(ciphertext[1])
+        })
+      )
+    })
+  } catch {
+    return false
+  }
+}
+
+// Whether every mix in the chain verifies against the one before it, starting from `input`
+export function verifyMixChain(
+  election: ElectionKey,
+  input: readonly Ciphertext[][],
+  mixes: readonly MixedBatch[]
+): boolean {
+  if (mixes.length === 0) return false
+  let previous = input
+  for (const mix of mixes) {
+    if (!verifyShuffle(election, previous, mix)) return false
+    previous = mix.ciphertexts
+  }
+  return true
+}
+
+/**
+ * Sum the final output of a verified mix chain over `ballots` into the tally
+ * trustees decrypt. Throws unless at least one mixer shuffled the ballots and
+ * every shuffle proof checks out.
+ */
+export function aggregateMixedBallots(
+  election: ElectionKey,
+  roll: ElectionRoll,
+  ballots: readonly EncryptedBallot[],
+  mixes: readonly MixedBatch[],
+  optionCount: number
+): EncryptedTally {
+  const input = prepareMixInput(election, roll, ballots, optionCount)
+  if (!verifyMixChain(election, input, mixes)) {
+    throw new Error('Mixed batch failed verification')
+  }
+
+  const sums = Array.from({ length: optionCount }, () => [ZERO, ZERO])
+  for (const vote of readVotes(mixes[mixes.length - 1].ciphertexts)) {
+    vote.forEach(([c1, c2], option) => {
+      sums[option] = [sums[option][0].add(c1), sums[option][1].add(c2)]
+    })
+  }
+  return {
+    ciphertexts: sums.map(([c1, c2]) => ({ c1: encodePoint(c1), c2: encodePoint(c2) })),
+    ballots: ballots.length,
+    totalWeight: ballots.reduce((sum, ballot) => sum + ballot.weight, 0),
+  }
+}
@@ -0,0 +1,58 @@
+import { ProposalStatus } from '../../types/dao'
+
+// Mirrors VOICE_CREDITS_PER_VOTE and TREASURY_APPROVAL_THRESHOLD in UnifiedLendingDAO.sol
+export const VOICE_CREDITS_PER_VOTE = 100
+export const TREASURY_APPROVAL_THRESHOLD_BPS = 6000
+
+export interface QuadraticTally {
+  votesFor: number
+  votesAgainst: number
+  turnout: number // Voting power of the members who voted, which is what quorum counts
+}
+
+export interface QuadraticBallot {
+  support: boolean
+  credits: number
+  votingPower: number
+}
+
+// Votes bought by spending `credits`; rounds down like OpenZeppelin's Math.sqrt
+export function quadraticVotes(credits: number): number {
+  if (credits <= 0) return 0
+  let votes = Math.floor(Math.sqrt(credits))
+  // Float sqrt can land one off for large inputs
+  while (votes * votes > credits) votes--
+  while ((votes + 1) * (votes + 1) <= credits) votes++
+  return votes
+}
+
+export function voiceCreditBudget(votingPower: number): number {
+  return votingPower * VOICE_CREDITS_PER_VOTE
+}
+
+// Fewest credits that buy `votes` votes
+export function creditsForVotes(votes: number): number {
+  return votes * votes
+}
+
+/**
+ * Outcome `finalizeProposal` would record for a quadratic treasury proposal
+ * with this tally, after an optional ballot is added. Quorum is checked on the
+ * turnout while the approval threshold compares the square-root votes.
+ */
+export function previewQuadraticOutcome(tally: QuadraticTally, quorumVotes: number, ballot?: QuadraticBallot) {
+  const votes = ballot ? quadraticVotes(ballot.credits) : 0
+  const votesFor = tally.votesFor + (ballot?.support ? votes : 0)
+  const votesAgainst = tally.votesAgainst + (ballot && !ballot.support ? votes : 0)
+  const turnout = tally.turnout + (ballot ? ballot.votingPower : 0)
+  const votesCast = votesFor + votesAgainst
+
+  const reachedQuorum = turnout >= quorumVotes
+  const reachedThreshold = votesCast > 0 && votesFor * 10000 >= votesCast * TREASURY_APPROVAL_THRESHOLD_BPS
+
+  let status: ProposalStatus
+  if (reachedQuorum && reachedThreshold) status = ProposalStatus.APPROVED
+  else status = reachedQuorum ? ProposalStatus.REJECTED : ProposalStatus.EXPIRED
+
+  return { votesFor, votesAgainst, turnout, reachedQuorum, reachedThreshold, status }
+}
@@ -0,0 +1,119 @@
+import { encodeAbiParameters, keccak256, zeroHash } from 'viem'
+
+type Hex = `0x${string}`
+
+// One MultiOptionVoteCast event; ballots must be kept in the order they were cast
+export interface MultiOptionBallot {
+  voter: Hex
+  weight: bigint
+  choices: readonly number[] // APPROVAL: approved options. RANKED_CHOICE: most preferred first
+}
+
+export interface ApprovalTally {
+  approvals: bigint[]
+  winningOption: number
+}
+
+export interface RankedChoiceTally {
+  winningOption: number
+  rounds: bigint[][] // First-preference weight of every option per round; eliminated options count 0
+  ballotsHash: Hex
+  resultHash: Hex
+}
+
+// The option with the most weight among `candidates`; ties go to the lowest index, as on-chain
+function leadingOption(tallies: readonly bigint[], candidates: readonly number[]): number {
+  return candidates.reduce((leader, option) => (tallies[option] > tallies[leader] ? option : leader))
+}
+
+/**
+ * Rebuild the contract's `ballotsHash`: every ballot is folded in as
+ * keccak256(abi.encode(previousHash, voter, weight, choices)).
+ */
+export function hashBallots(ballots: readonly MultiOptionBallot[]): Hex {
+  return ballots.reduce<Hex>(
+    (previous, ballot) =>
+      keccak256(
+        encodeAbiParameters(
+          [{ type: 'bytes32' }, { type: 'address' }, { type: 'uint256' }, { type: 'uint256[]' }],
+          [previous, ballot.voter, ballot.weight, ballot.choices.map(choice => BigInt(choice))]
+        )
+      ),
+    zeroHash
+  )
+}
+
+// The commitment `commitRankedChoiceResult` stores
+export function hashRankedChoiceResult(ballotsHash: Hex, winningOption: number, rounds: readonly bigint[][]): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: 'bytes32' }, { type: 'uint256' }, { type: 'uint256[][]' }],
+      [ballotsHash, BigInt(winningOption), rounds]
+    )
+  )
+}
+
+// Same count `finalizeProposal` makes for approval-voting proposals
+export function tallyApproval(ballots: readonly MultiOptionBallot[], optionCount: number): ApprovalTally {
+  const approvals = Array.from({ length: optionCount }, () => BigInt(0))
+  ballots.forEach(ballot => ballot.choices.forEach(choice => (approvals[choice] += ballot.weight)))
+
+  const options = approvals.map((_, option) => option)
+  return { approvals, winningOption: leadingOption(approvals, options) }
+}
+
+/**
+ * Instant-runoff tally. Each round a ballot counts for its most preferred
+ * option still in the race; ballots with no such option are exhausted. An
+ * option wins with more than half of the weight still counted, or as the last
+ * one left. Otherwise the option with the least weight is eliminated, and ties
+ * eliminate the highest index.
+ */
+export function tallyRankedChoice(ballots: readonly MultiOptionBallot[], optionCount: number): RankedChoiceTally {
+  let remaining = Array.from({ length: optionCount }, (_, option) => option)
+  const rounds: bigint[][] = []
+
+  for (;;) {
+    const tallies = Array.from({ length: optionCount }, () => BigInt(0))
+    let counted = BigInt(0)
+    ballots.forEach(ballot => {
+      const choice = ballot.choices.find(option => remaining.includes(option))
+      if (choice === undefined) return
+      tallies[choice] += ballot.weight
+      counted += ballot.weight
+    })
+    rounds.push(tallies)
+
+    const leader = leadingOption(tallies, remaining)
+    if (remaining.length === 1 || tallies[leader] * BigInt(2) > counted) {
+      const ballotsHash = hashBallots(ballots)
+      return {
+        winningOption: leader,
+        rounds,
+        ballotsHash,
+        resultHash: hashRankedChoiceResult(ballotsHash, leader, rounds),
+      }
+    }
+
+    const eliminated = remaining.reduce((lowest, option) => (tallies[option] <= tallies[lowest] ? option : lowest))
+    remaining = remaining.filter(option => option !== eliminated)
+  }
+}
+
+/**
+ * Check a committed ranked-choice result against the ballots: they must hash
+ * to the on-chain `ballotsHash`, and tallying them must give the committed
+ * winner and result hash.
+ */
+export function verifyRankedChoiceResult(
+  ballots: readonly MultiOptionBallot[],
+  optionCount: number,
+  committed: { ballotsHash: Hex; winningOption: number; resultHash: Hex }
+): boolean {
+  const tally = tallyRankedChoice(ballots, optionCount)
+  return (
+    tally.ballotsHash === committed.ballotsHash &&
+    tally.winningOption === committed.winningOption &&
+    tally.resultHash === committed.resultHash
+  )
+}
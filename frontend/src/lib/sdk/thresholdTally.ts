@@ -0,0 +1,509 @@
+import { invert, mod } from '@noble/curves/abstract/modular'
+import { secp256k1 } from '@noble/curves/secp256k1'
+import {
+  concat,
+  hashTypedData,
+  hexToBigInt,
+  isAddress,
+  isAddressEqual,
+  keccak256,
+  parseSignature,
+  sha256,
+  toHex,
+} from 'viem'
+import { publicKeyToAddress } from 'viem/utils'
+
+type Hex = `0x${string}`
+type Point = typeof secp256k1.ProjectivePoint.BASE
+
+const G = secp256k1.ProjectivePoint.BASE
+const ZERO = secp256k1.ProjectivePoint.ZERO
+const ORDER = secp256k1.CURVE.n
+
+/*
+ * Exponential ElGamal over secp256k1 with a jointly generated election key.
+ *
+ * Every trustee deals Shamir shares of a random secret to the others and
+ * publishes Feldman commitments to its polynomial; nobody ever holds the
+ * election secret key. Ballots encrypt a one-hot vote with proofs that it
+ * is well formed, bound to the voter and the election so it cannot be
+ * replayed, and signed by the voter's account so nobody else can cast it.
+ * Ballots are summed homomorphically, and only the sum is
+ * decrypted: any `threshold` trustees publish partial decryptions of the
+ * tally, each with a proof that it matches their public verification key.
+ */
+
+// Feldman commitments are public; `shares[j - 1]` goes privately to trustee j
+export interface TrusteeDealing {
+  trustee: number // 1-based
+  commitments: Hex[] // Coefficient k of the trustee's polynomial times G
+  shares: bigint[]
+}
+
+export interface ElectionKey {
+  threshold: number
+  trustees: number
+  publicKey: Hex
+  verificationKeys: Hex[] // Trustee j's key share times G, at index j - 1
+}
+
+export interface Ciphertext {
+  c1: Hex
+  c2: Hex
+}
+
+// Fiat-Shamir proof that two points share a discrete log, or one branch of a disjunction of them
+export interface EqualityProof {
+  challenge: Hex
+  response: Hex
+}
+
+// Who cast a ballot and in which election; the ballot's proofs are bound to both
+export interface BallotContext {
+  electionId: string
+  voter: Hex
+}
+
+// Who may vote in an election and with what weight, read at its voting snapshot
+export interface ElectionRoll {
+  electionId: string
+  weights: Readonly<Record<string, number>> // Lower-cased voter address => weight
+}
+
+export interface UnsignedBallot extends BallotContext {
+  weight: number // Public; must match the voter's weight in the roll, and is applied when tallied
+  ciphertexts: Ciphertext[] // One per option, encrypting 1 for the choice and 0 elsewhere
+  choiceProofs: [EqualityProof, EqualityProof][] // Each ciphertext encrypts 0 or 1
+  sumProof: EqualityProof // Exactly one option is chosen
+}
+
+export interface EncryptedBallot extends UnsignedBallot {
+  signature: Hex // The voter's EIP-712 signature of `ballotTypedData`
+}
+
+export interface EncryptedTally {
+  ciphertexts: Ciphertext[] // Weighted sum of every ballot, per option
+  ballots: number
+  totalWeight: number
+}
+
+export interface PartialDecryption {
+  trustee: number
+  shares: Hex[] // Key share times each tally c1
+  proofs: EqualityProof[]
+}
+
+// Points are compressed; the identity, which a tally with no ballots has, is 0x00
+export function encodePoint(point: Point): Hex {
+  return point.equals(ZERO) ? '0x00' : `0x${point.toHex(true)}`
+}
+
+export function decodePoint(hex: Hex): Point {
+  return hex === '0x00' ? ZERO : secp256k1.ProjectivePoint.fromHex(hex.slice(2))
+}
+
+export function randomScalar(): bigint {
+  return hexToBigInt(toHex(secp256k1.utils.randomPrivateKey()))
+}
+
+export function scalarHex(scalar: bigint): Hex {
+  return toHex(scalar, { size: 32 })
+}
+
+// Precomputed multiples of each election key, so encrypting to it many times is fast
+const electionKeyPoints = new Map<Hex, Point>()
+
+export function readElectionKey(election: ElectionKey): Point {
+  let point = electionKeyPoints.get(election.publicKey)
+  if (!point) {
+    point = secp256k1.utils.precompute(8, decodePoint(election.publicKey))
+    electionKeyPoints.set(election.publicKey, point)
+  }
+  return point
+}
+
+function challenge(tag: string, points: Point[]): bigint {
+  return mod(hexToBigInt(sha256(concat([toHex(tag), ...points.map(encodePoint)]))), ORDER)
+}
+
+function readCiphertext({ c1, c2 }: Ciphertext): [Point, Point] {
+  return [decodePoint(c1), decodePoint(c2)]
+}
+
+// Commitment to A and B for a proof that log_g(x) == log_h(y), given its challenge and response
+function equalityCommitments(g: Point, x: Point, h: Point, y: Point, e: bigint, z: bigint): [Point, Point] {
+  return [g.multiplyUnsafe(z).subtract(x.multiplyUnsafe(e)), h.multiplyUnsafe(z).subtract(y.multiplyUnsafe(e))]
+}
+
+// Chaum-Pedersen proof that x = secret * g and y = secret * h
+function proveEquality(tag: string, g: Point, h: Point, secret: bigint): EqualityProof {
+  // multiply rather than multiplyUnsafe, which is not constant-time, since the secret is a key share or nonce
+  const x = g.multiply(secret)
+  const y = h.multiply(secret)
+  const w = randomScalar()
+  const e = challenge(tag, [g, x, h, y, g.multiply(w), h.multiply(w)])
+  return { challenge: scalarHex(e), response: scalarHex(mod(w + e * secret, ORDER)) }
+}
+
+function verifyEquality(tag: string, g: Point, x: Point, h: Point, y: Point, proof: EqualityProof): boolean {
+  const e = hexToBigInt(proof.challenge)
+  const [a, b] = equalityCommitments(g, x, h, y, e, hexToBigInt(proof.response))
+  return challenge(tag, [g, x, h, y, a, b]) === e
+}
+
+// Fiat-Shamir tag of a ballot's proofs; the election id comes last so the fields cannot run into each other
+function ballotTag(kind: string, { electionId, voter }: BallotContext, weight: number): string {
+  return `${kind}:${voter.toLowerCase()}:${weight}:${electionId}`
+}
+
+// Evaluate the polynomial committed to in `commitments` at `x`, in the exponent
+function evaluateCommitments(commitments: readonly Hex[], x: number): Point {
+  return commitments.reduceRight(
+    (sum, commitment) => sum.multiplyUnsafe(BigInt(x)).add(decodePoint(commitment)),
+    ZERO
+  )
+}
+
+/**
+ * Deal one trustee's contribution to the election key: a random polynomial
+ * of degree `threshold - 1`, evaluated at every trustee's index.
+ */
+export function dealTrusteeShares(trustee: number, threshold: number, trustees: number): TrusteeDealing {
+  if (threshold < 1 || threshold > trustees) throw new Error('Threshold must be between 1 and the number of trustees')
+  if (trustee < 1 || trustee > trustees) throw new Error('Trustee index out of range')
+
+  const coefficients = Array.from({ length: threshold }, () => randomScalar())
+  return {
+    trustee,
+    commitments: coefficients.map(coefficient => encodePoint(G.multiply(coefficient))),
+    shares: Array.from({ length: trustees }, (_, j) =>
+      coefficients.reduceRight((sum, coefficient) => mod(sum * BigInt(j + 1) + coefficient, ORDER), BigInt(0))
+    ),
+  }
+}
+
+// Check a share received from another trustee against that trustee's published commitments
+export function verifyTrusteeShare(commitments: readonly Hex[], recipient: number, share: bigint): boolean {
+  return G.multiplyUnsafe(share).equals(evaluateCommitments(commitments, recipient))
+}
+
+// A trustee's key share: the sum of the shares every trustee dealt to it, its own included
+export function combineTrusteeShares(shares: readonly bigint[]): bigint {
+  return shares.reduce((sum, share) => mod(sum + share, ORDER), BigInt(0))
+}
+
+/**
+ * The election key every trustee's published commitments define, in trustee
+ * order. Anyone can compute it; only `threshold` trustees together can
+ * decrypt with it.
+ */
+export function createElectionKey(threshold: number, commitments: readonly (readonly Hex[])[]): ElectionKey {
+  if (commitments.some(dealing => dealing.length !== threshold)) {
+    throw new Error('Every dealing must commit to a polynomial of degree threshold - 1')
+  }
+  const trustees = commitments.length
+  return {
+    threshold,
+    trustees,
+    publicKey: encodePoint(commitments.reduce((sum, dealing) => sum.add(decodePoint(dealing[0])), ZERO)),
+    verificationKeys: Array.from({ length: trustees }, (_, j) =>
+      encodePoint(commitments.reduce((sum, dealing) => sum.add(evaluateCommitments(dealing, j + 1)), ZERO))
+    ),
+  }
+}
+
+/**
+ * Encrypt `voter`'s vote for option `choice` out of `optionCount` in election
+ * `electionId` to the election key, with proofs that it selects exactly one
+ * option. Nobody can decrypt a single ballot without the cooperation of
+ * `threshold` trustees.
+ */
+export function encryptBallot(
+  election: ElectionKey,
+  { electionId, voter }: BallotContext,
+  choice: number,
+  optionCount: number,
+  weight = 1
+): UnsignedBallot {
+  if (!Number.isInteger(choice) || choice < 0 || choice >= optionCount) throw new Error('Invalid choice')
+  if (!Number.isSafeInteger(weight) || weight < 1) throw new Error('Weight must be a positive integer')
+  if (!isAddress(voter)) throw new Error('Invalid voter address')
+
+  const context = { electionId, voter }
+  const y = readElectionKey(election)
+  const nonces = Array.from({ length: optionCount }, () => randomScalar())
+  const ciphertexts = nonces.map((r, option) => {
+    const c1 = G.multiply(r)
+    const c2 = y.multiply(r).add(option === choice ? G : ZERO)
+    return { c1, c2, r, bit: option === choice ? 1 : 0 }
+  })
+
+  const choiceProofs = ciphertexts.map(({ c1, c2, r, bit }): [EqualityProof, EqualityProof] => {
+    // Simulate the branch that is false, then split the challenge so the true one can be answered
+    const fake = 1 - bit
+    const fakeChallenge = randomScalar()
+    const fakeResponse = randomScalar()
+    const commitments: [Point, Point][] = [[ZERO, ZERO], [ZERO, ZERO]]
+    commitments[fake] = equalityCommitments(G, c1, y, c2.subtract(fake ? G : ZERO), fakeChallenge, fakeResponse)
+    const w = randomScalar()
+    commitments[bit] = [G.multiply(w), y.multiply(w)]
+
+    const e = challenge(ballotTag('ballot-bit', context, weight), [y, c1, c2, ...commitments[0], ...commitments[1]])
+    const realChallenge = mod(e - fakeChallenge, ORDER)
+    const proofs: EqualityProof[] = []
+    proofs[fake] = { challenge: scalarHex(fakeChallenge), response: scalarHex(fakeResponse) }
+    proofs[bit] = { challenge: scalarHex(realChallenge), response: scalarHex(mod(w + realChallenge * r, ORDER)) }
+    return [proofs[0], proofs[1]]
+  })
+
+  const sumNonce = nonces.reduce((sum, r) => mod(sum + r, ORDER), BigInt(0))
+  return {
+    ...context,
+    weight,
+    ciphertexts: ciphertexts.map(({ c1, c2 }) => ({ c1: encodePoint(c1), c2: encodePoint(c2) })),
+    choiceProofs,
+    sumProof: proveEquality(ballotTag('ballot-sum', context, weight), G, y, sumNonce),
+  }
+}
+
+// Check a ballot's proofs, for the voter, election and weight it names, without decrypting it
+export function verifyBallot(election: ElectionKey, ballot: UnsignedBallot): boolean {
+  try {
+    if (!Number.isSafeInteger(ballot.weight) || ballot.weight < 1) return false
+    if (typeof ballot.electionId !== 'string' || !isAddress(ballot.voter)) return false
+    if (ballot.ciphertexts.length === 0 || ballot.choiceProofs.length !== ballot.ciphertexts.length) return false
+
+    const y = readElectionKey(election)
+    const ciphertexts = ballot.ciphertexts.map(readCiphertext)
+    const bitsValid = ciphertexts.every(([c1, c2], option) => {
+      const proofs = ballot.choiceProofs[option]
+      const commitments = proofs.map((proof, bit) =>
+        equalityCommitments(
+          G,
+          c1,
+          y,
+          c2.subtract(bit ? G : ZERO),
+          hexToBigInt(proof.challenge),
+          hexToBigInt(proof.response)
+        )
+      )
+      const e = challenge(ballotTag('ballot-bit', ballot, ballot.weight), [
+        y,
+        c1,
+        c2,
+        ...commitments[0],
+        ...commitments[1],
+      ])
+      return mod(hexToBigInt(proofs[0].challenge) + hexToBigInt(proofs[1].challenge), ORDER) === e
+    })
+    if (!bitsValid) return false
+
+    const sum1 = ciphertexts.reduce((sum, [c1]) => sum.add(c1), ZERO)
+    const sum2 = ciphertexts.reduce((sum, [, c2]) => sum.add(c2), ZERO)
+    return verifyEquality(ballotTag('ballot-sum', ballot, ballot.weight), G, sum1, y, sum2.subtract(G), ballot.sumProof)
+  } catch {
+    return false
+  }
+}
+
+export const BALLOT_TYPES = {
+  Ballot: [
+    { name: 'electionId', type: 'string' },
+    { name: 'voter', type: 'address' },
+    { name: 'weight', type: 'uint256' },
+    { name: 'ciphertexts', type: 'bytes32' },
+  ],
+} as const
+
+// Signs the ciphertexts by digest; the proofs only verify for those ciphertexts and the ballot's tag
+export function ballotTypedData(ballot: UnsignedBallot) {
+  return {
+    domain: { name: 'UnifiedLendingDAO', version: '1' },
+    types: BALLOT_TYPES,
+    primaryType: 'Ballot' as const,
+    message: {
+      electionId: ballot.electionId,
+      voter: ballot.voter,
+      weight: BigInt(ballot.weight),
+      ciphertexts: keccak256(concat(ballot.ciphertexts.flatMap(({ c1, c2 }) => [c1, c2]))),
+    },
+  }
+}
+
+export type BallotTypedData = ReturnType<typeof ballotTypedData>
+
+/** Sign a ballot with its voter's account, which `signTypedData` must sign with. */
+export async function signBallot(
+  ballot: UnsignedBallot,
+  signTypedData: (typedData: BallotTypedData) => Promise<Hex>
+): Promise<EncryptedBallot> {
+  return { ...ballot, signature: await signTypedData(ballotTypedData(ballot)) }
+}
+
+// Whether the voter's account signed the ballot. Recovered with noble rather than viem's async
+// recovery so ballots can be checked inline; contract accounts cannot sign ballots.
+export function verifyBallotSignature(ballot: EncryptedBallot): boolean {
+  try {
+    const { r, s, yParity } = parseSignature(ballot.signature)
+    const signer = new secp256k1.Signature(hexToBigInt(r), hexToBigInt(s))
+      .addRecoveryBit(yParity)
+      .recoverPublicKey(hashTypedData(ballotTypedData(ballot)).slice(2))
+    return isAddressEqual(publicKeyToAddress(`0x${signer.toHex(false)}`), ballot.voter)
+  } catch {
+    return false
+  }
+}
+
+// A ballot counts if its voter signed it, it verifies and was cast in the roll's election with the voter's
+// weight at its snapshot
+export function isCountableBallot(
+  election: ElectionKey,
+  roll: ElectionRoll,
+  ballot: EncryptedBallot,
+  optionCount: number
+): boolean {
+  return (
+    ballot.electionId === roll.electionId &&
+    typeof ballot.voter === 'string' &&
+    ballot.weight === roll.weights[ballot.voter.toLowerCase()] &&
+    ballot.ciphertexts.length === optionCount &&
+    verifyBallotSignature(ballot) &&
+    verifyBallot(election, ballot)
+  )
+}
+
+// Throws unless every ballot counts and no voter cast two
+export function checkBallots(
+  election: ElectionKey,
+  roll: ElectionRoll,
+  ballots: readonly EncryptedBallot[],
+  optionCount: number
+): void {
+  const voters = new Set<string>()
+  for (const ballot of ballots) {
+    if (!isCountableBallot(election, roll, ballot, optionCount)) throw new Error('Invalid ballot')
+    const voter = ballot.voter.toLowerCase()
+    if (voters.has(voter)) throw new Error(`Duplicate ballot from ${ballot.voter}`)
+    voters.add(voter)
+  }
+}
+
+/**
+ * Sum ballots homomorphically, each scaled by its weight. The result is
+ * what trustees decrypt; it reveals nothing about individual ballots.
+ */
+export function aggregateBallots(
+  election: ElectionKey,
+  roll: ElectionRoll,
+  ballots: readonly EncryptedBallot[],
+  optionCount: number
+): EncryptedTally {
+  checkBallots(election, roll, ballots, optionCount)
+  const sums = Array.from({ length: optionCount }, () => [ZERO, ZERO])
+  for (const ballot of ballots) {
+    const weight = BigInt(ballot.weight)
+    ballot.ciphertexts.map(readCiphertext).forEach(([c1, c2], option) => {
+      sums[option] = [sums[option][0].add(c1.multiply(weight)), sums[option][1].add(c2.multiply(weight))]
+    })
+  }
+  return {
+    ciphertexts: sums.map(([c1, c2]) => ({ c1: encodePoint(c1), c2: encodePoint(c2) })),
+    ballots: ballots.length,
+    totalWeight: ballots.reduce((sum, ballot) => sum + ballot.weight, 0),
+  }
+}
+
+// A trustee's share of the tally's decryption, with proofs it used the key share behind its verification key
+export function partialDecrypt(tally: EncryptedTally, trustee: number, keyShare: bigint): PartialDecryption {
+  const decryptions = tally.ciphertexts.map(ciphertext => decodePoint(ciphertext.c1))
+  return {
+    trustee,
+    shares: decryptions.map(c1 => encodePoint(c1.multiply(keyShare))),
+    proofs: decryptions.map(c1 => proveEquality('partial-decryption', G, c1, keyShare)),
+  }
+}
+
+export function verifyPartialDecryption(
+  election: ElectionKey,
+  tally: EncryptedTally,
+  partial: PartialDecryption
+): boolean {
+  try {
+    if (!Number.isInteger(partial.trustee) || partial.trustee < 1 || partial.trustee > election.trustees) return false
+    if (partial.shares.length !== tally.ciphertexts.length || partial.proofs.length !== tally.ciphertexts.length) {
+      return false
+    }
+    const verificationKey = decodePoint(election.verificationKeys[partial.trustee - 1])
+    return tally.ciphertexts.every(({ c1 }, option) =>
+      verifyEquality(
+        'partial-decryption',
+        G,
+        verificationKey,
+        decodePoint(c1),
+        decodePoint(partial.shares[option]),
+        partial.proofs[option]
+      )
+    )
+  } catch {
+    return false
+  }
+}
+
+// Lagrange coefficient at 0 for `trustee` among `trustees`
+function lagrangeCoefficient(trustee: number, trustees: readonly number[]): bigint {
+  return trustees.reduce((coefficient, other) => {
+    if (other === trustee) return coefficient
+    return mod(coefficient * BigInt(other) * invert(mod(BigInt(other - trustee), ORDER), ORDER), ORDER)
+  }, BigInt(1))
+}
+
+// Find m in [0, bound] with m * G == point by baby-step giant-step
+function discreteLog(point: Point, bound: number): number {
+  const step = Math.ceil(Math.sqrt(bound + 1))
+  const babySteps = new Map<Hex, number>()
+  let baby = ZERO
+  for (let j = 0; j < step; j++) {
+    babySteps.set(encodePoint(baby), j)
+    baby = baby.add(G)
+  }
+  const giantStep = G.multiplyUnsafe(BigInt(step)).negate()
+  let giant = point
+  for (let i = 0; i * step <= bound; i++) {
+    const j = babySteps.get(encodePoint(giant))
+    if (j !== undefined && i * step + j <= bound) return i * step + j
+    giant = giant.add(giantStep)
+  }
+  throw new Error('Tally is out of range')
+}
+
+/**
+ * Combine partial decryptions from at least `threshold` trustees into the
+ * weighted total of every option. Invalid partial decryptions are rejected,
+ * so a dishonest trustee can stall the tally but not change it.
+ */
+export function combinePartialDecryptions(
+  election: ElectionKey,
+  tally: EncryptedTally,
+  partials: readonly PartialDecryption[]
+): number[] {
+  const byTrustee = new Map<number, PartialDecryption>()
+  for (const partial of partials) {
+    if (!verifyPartialDecryption(election, tally, partial)) {
+      throw new Error(`Invalid partial decryption from trustee ${partial.trustee}`)
+    }
+    byTrustee.set(partial.trustee, partial)
+  }
+  if (byTrustee.size < election.threshold) {
+    throw new Error(`Need partial decryptions from ${election.threshold} trustees, got ${byTrustee.size}`)
+  }
+
+  const trustees = Array.from(byTrustee.keys()).slice(0, election.threshold)
+  const coefficients = trustees.map(trustee => lagrangeCoefficient(trustee, trustees))
+  return tally.ciphertexts.map(({ c2 }, option) => {
+    const mask = trustees.reduce(
+      (sum, trustee, i) => sum.add(decodePoint(byTrustee.get(trustee)!.shares[option]).multiplyUnsafe(coefficients[i])),
+      ZERO
+    )
+    return discreteLog(decodePoint(c2).subtract(mask), tally.totalWeight)
+  })
+}
@@ -0,0 +1,53 @@
+import type { ContractFunctionArgs, ContractFunctionName, ContractFunctionReturnType } from 'viem'
+import type { UNIFIED_LENDING_DAO_ABI } from '../contract-abi'
+import type { LoanProposal, ProposalStatus } from '../../types/dao'
+
+export type DAOAbi = typeof UNIFIED_LENDING_DAO_ABI
+
+export type DAOReadFunction = ContractFunctionName<DAOAbi, 'pure' | 'view'>
+export type DAOWriteFunction = ContractFunctionName<DAOAbi, 'nonpayable' | 'payable'>
+
+export type DAOReadArgs<F extends DAOReadFunction> = ContractFunctionArgs<DAOAbi, 'pure' | 'view', F>
+export type DAOWriteArgs<F extends DAOWriteFunction> = ContractFunctionArgs<DAOAbi, 'nonpayable' | 'payable', F>
+
+// Raw return values as typed by the ABI; ethers hands back bigints where viem uses numbers for small ints
+export type DAOReadResult<F extends DAOReadFunction> = ContractFunctionReturnType<DAOAbi, 'pure' | 'view', F>
+
+/**
+ * The minimal surface a client library has to provide. Reads resolve to the
+ * raw ABI values and are decoded by the SDK, so both adapters share one
+ * decoding path.
+ */
+export interface DAOAdapter<TTransaction> {
+  read<F extends DAOReadFunction>(functionName: F, args?: DAOReadArgs<F>): Promise<DAOReadResult<F>>
+  write<F extends DAOWriteFunction>(functionName: F, args: DAOWriteArgs<F>, value?: bigint): Promise<TTransaction>
+}
+
+export interface ListProposalsOptions {
+  offset?: number
+  limit?: number
+  onlyActive?: boolean
+}
+
+export interface LoanProposalFilters {
+  status?: ProposalStatus
+  isPrivate?: boolean
+}
+
+export interface LoanProposalPage {
+  proposals: LoanProposal[]
+  nextOffset: number
+  hasMore: boolean
+  totalProposals: number
+}
+
+export interface LoanRequestOptions {
+  isPrivate?: boolean
+  commitment?: `0x${string}`
+  documentHash?: string
+}
+
+export interface RegistrationOptions {
+  ensName?: string
+  kycHash?: string
+}
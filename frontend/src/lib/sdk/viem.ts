@@ -0,0 +1,45 @@
+import type { Account, Address, Chain, Hash } from 'viem'
+import { UNIFIED_LENDING_DAO_ABI } from '../contract-abi'
+import { createDAOClient } from './client'
+import type { DAOAdapter, DAOReadArgs, DAOReadFunction, DAOReadResult } from './types'
+
+// Kept structural so public and wallet clients from viem or wagmi fit regardless of their chain and transport
+export interface ViemDAOClientConfig {
+  address: Address
+  publicClient: { readContract: (parameters: never) => Promise<unknown> }
+  walletClient?: {
+    account?: Account
+    chain?: Chain
+    writeContract: (parameters: never) => Promise<Hash>
+  }
+}
+
+export function createViemDAOClient({ address, publicClient, walletClient }: ViemDAOClientConfig) {
+  const adapter: DAOAdapter<Hash> = {
+    read<F extends DAOReadFunction>(functionName: F, args?: DAOReadArgs<F>) {
+      return publicClient.readContract({
+        address,
+        abi: UNIFIED_LENDING_DAO_ABI,
+        functionName,
+        args,
+      } as never) as Promise<DAOReadResult<F>>
+    },
+    async write(functionName, args, value) {
+      if (!walletClient?.account) throw new Error('A connected wallet is required to send transactions')
+
+      return walletClient.writeContract({
+        address,
+        abi: UNIFIED_LENDING_DAO_ABI,
+        functionName,
+        args,
+        value,
+        account: walletClient.account,
+        chain: walletClient.chain,
+      } as never)
+    },
+  }
+
+  return createDAOClient(adapter)
+}
+
+export type ViemDAOClient = ReturnType<typeof createViemDAOClient>
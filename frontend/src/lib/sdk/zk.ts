@@ -0,0 +1,122 @@
+import { groth16 } from 'snarkjs'
+import type { Groth16Proof, PublicSignals } from 'snarkjs'
+import anonymousVoteVerificationKey from './anonymousVote.vkey.json'
+import { PRIVATE_VOTE_CHOICES } from './commitReveal'
+import type { PrivateVoteOption } from './commitReveal'
+import type { MembershipProof } from './memberGroup'
+import privateVoteVerificationKey from './privateVote.vkey.json'
+
+type Hex = `0x${string}`
+
+// Built by contract/scripts/build-circuits.ts; served from frontend/public/zk
+export interface CircuitArtifacts {
+  wasm: string
+  zkey: string
+}
+
+export const PRIVATE_VOTE_ARTIFACTS: CircuitArtifacts = {
+  wasm: '/zk/privateVote.wasm',
+  zkey: '/zk/privateVote.zkey',
+}
+
+export const ANONYMOUS_VOTE_ARTIFACTS: CircuitArtifacts = {
+  wasm: '/zk/anonymousVote.wasm',
+  zkey: '/zk/anonymousVote.zkey',
+}
+
+export interface PrivateVoteProofInput {
+  proposalId: number | bigint
+  option: PrivateVoteOption
+  voter: Hex
+  secret: Hex
+  reveal?: boolean // Commits keep the choice private; reveals make it a public signal
+}
+
+export interface PrivateVoteProof {
+  proof: Groth16Proof
+  // [commitment, nullifier, proposalId, voter, revealedChoice, isReveal] as decimal strings
+  publicSignals: PublicSignals
+}
+
+/**
+ * Prove that a commitment hides a valid vote by `voter` on `proposalId`, or
+ * on reveal that it opens to `option`. Runs in the browser with the default
+ * artifacts, or in Node with file paths.
+ */
+export async function provePrivateVote(
+  { proposalId, option, voter, secret, reveal = false }: PrivateVoteProofInput,
+  artifacts: CircuitArtifacts = PRIVATE_VOTE_ARTIFACTS
+): Promise<PrivateVoteProof> {
+  const choice = PRIVATE_VOTE_CHOICES[option]
+  const { proof, publicSignals } = await groth16.fullProve(
+    {
+      proposalId: BigInt(proposalId),
+      voter: BigInt(voter),
+      revealedChoice: reveal ? choice : 0,
+      isReveal: reveal ? 1 : 0,
+      choice,
+      secret: BigInt(secret),
+    },
+    artifacts.wasm,
+    artifacts.zkey
+  )
+  return { proof, publicSignals }
+}
+
+// Same check PrivateVoteVerifier makes on-chain
+export function verifyPrivateVoteProof({ proof, publicSignals }: PrivateVoteProof): Promise<boolean> {
+  return groth16.verify(privateVoteVerificationKey, publicSignals, proof)
+}
+
+export interface AnonymousVoteProofInput {
+  proposalId: number | bigint
+  support: boolean
+  secret: Hex // The voter's identity secret
+  membershipProof: MembershipProof
+  excludedIdentity: bigint // The borrower's identity commitment, 0 if they have none
+}
+
+export interface AnonymousVoteProof {
+  proof: Groth16Proof
+  // [nullifier, root, proposalId, support, excludedIdentity] as decimal strings
+  publicSignals: PublicSignals
+}
+
+/**
+ * Prove that some member of the anonymous group other than the borrower
+ * votes `support` on `proposalId`, without revealing which member. The proof
+ * names no account, so anyone can submit it with `castAnonymousVote`.
+ */
+export async function proveAnonymousVote(
+  { proposalId, support, secret, membershipProof, excludedIdentity }: AnonymousVoteProofInput,
+  artifacts: CircuitArtifacts = ANONYMOUS_VOTE_ARTIFACTS
+): Promise<AnonymousVoteProof> {
+  const { proof, publicSignals } = await groth16.fullProve(
+    {
+      root: membershipProof.root,
+      proposalId: BigInt(proposalId),
+      support: support ? 1 : 0,
+      excludedIdentity,
+      identitySecret: BigInt(secret),
+      pathElements: membershipProof.pathElements,
+      pathIndices: membershipProof.pathIndices,
+    },
+    artifacts.wasm,
+    artifacts.zkey
+  )
+  return { proof, publicSignals }
+}
+
+// Same check AnonymousVoteVerifier makes on-chain
+export function verifyAnonymousVoteProof({ proof, publicSignals }: AnonymousVoteProof): Promise<boolean> {
+  return groth16.verify(anonymousVoteVerificationKey, publicSignals, proof)
+}
+
+// The uint256[8] the contract takes
+export type SolidityProof = readonly [bigint, bigint, bigint, bigint, bigint, bigint, bigint, bigint]
+
+// a, then b with each coordinate pair swapped for the pairing precompile, then c
+export function toSolidityProof({ proof }: { proof: Groth16Proof }): SolidityProof {
+  const [a, b, c] = [proof.pi_a, proof.pi_b, proof.pi_c]
+  return [a[0], a[1], b[0][1], b[0][0], b[1][1], b[1][0], c[0], c[1]].map(value => BigInt(value)) as unknown as SolidityProof
+}
@@ -0,0 +1,42 @@
+import { concat, hexToBytes, sha256 } from 'viem'
+
+// Multibase 'b' (lowercase RFC 4648 base32) and the CIDv1 prefix for a raw block hashed with sha2-256
+const BASE32_ALPHABET = 'abcdefghijklmnopqrstuvwxyz234567'
+const RAW_SHA256_PREFIX = hexToBytes('0x01551220') // version 1, raw codec, sha2-256, 32-byte digest
+
+function base32(bytes: Uint8Array): string {
+  let output = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  return output
+}
+
+/**
+ * CIDv1 of `data` as a single raw block (`bafkrei...`). Kubo gives the same
+ * CID with `cid-version=1&raw-leaves=true` for files up to one chunk
+ * (256 KiB); larger files become a UnixFS DAG with a different root.
+ */
+export function computeCid(data: Uint8Array): string {
+  return `b${base32(concat([RAW_SHA256_PREFIX, sha256(data, 'bytes')]))}`
+}
+
+// CIDs end up in URLs and file names, so only plain multibase strings are accepted
+export function assertCid(cid: string): string {
+  if (!/^(Qm[1-9A-HJ-NP-Za-km-z]{44}|b[a-z2-7]{58,})$/.test(cid)) throw new Error(`Invalid CID: ${cid}`)
+  return cid
+}
+
+// Whether `data` hashes to `cid`; undefined unless it is a raw sha2-256 CIDv1, the only kind checkable without its DAG
+export function matchesCid(cid: string, data: Uint8Array): boolean | undefined {
+  if (!assertCid(cid).startsWith('bafkrei')) return undefined
+  return computeCid(data) === cid
+}
@@ -0,0 +1,247 @@
+import { readStream, streamBytes } from './streams'
+
+/*
+ * Encrypted document envelope: a versioned header followed by the document
+ * split into AES-256-GCM chunks, so files of any size and content can be
+ * encrypted and decrypted as a stream.
+ *
+ *   magic "DAOE" | version | algorithm | kdf | reserved | chunk size (u32) |
+ *   iterations (u32) | salt (16) | nonce prefix (7) | chunk... | final chunk
+ *
+ * Each chunk holds `chunkSize` plaintext bytes plus a 16-byte tag; the last
+ * holds the remainder, possibly nothing. Chunk nonces are the prefix, a
+ * 32-bit counter and a last-chunk flag, and every chunk authenticates the
+ * header, so chunks cannot be reordered, dropped, truncated at a chunk
+ * boundary or moved to another document without decryption failing.
+ */
+
+export const ENVELOPE_VERSION = 1
+export const DEFAULT_CHUNK_SIZE = 64 * 1024
+export const PBKDF2_ITERATIONS = 100000
+export const ENVELOPE_HEADER_LENGTH = 39
+
+const MAGIC = [0x44, 0x41, 0x4f, 0x45] // "DAOE"
+const SALT_LENGTH = 16
+const NONCE_PREFIX_LENGTH = 7
+const TAG_LENGTH = 16
+const KEY_LENGTH = 32
+// Bounds on header fields, which come from untrusted files
+const MAX_CHUNK_SIZE = 16 * 1024 * 1024
+const MAX_ITERATIONS = 10000000
+
+const ALGORITHMS = { 1: 'AES-256-GCM' } as const
+const KDFS = { 0: 'none', 1: 'PBKDF2-SHA256' } as const
+
+export interface EnvelopeHeader {
+  version: number
+  algorithm: 'AES-256-GCM'
+  kdf: 'none' | 'PBKDF2-SHA256' // 'none' when encrypted directly with a 32-byte key
+  chunkSize: number
+  iterations: number
+  salt: Uint8Array
+  noncePrefix: Uint8Array
+}
+
+// A password, stretched with PBKDF2, or a random 32-byte content key used as is
+export type EnvelopeSecret = string | Uint8Array
+
+export interface EnvelopeOptions {
+  chunkSize?: number
+  iterations?: number
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b
+  const joined = new Uint8Array(a.length + b.length)
+  joined.set(a, 0)
+  joined.set(b, a.length)
+  return joined
+}
+
+function encodeHeader(header: EnvelopeHeader) {
+  const bytes = new Uint8Array(ENVELOPE_HEADER_LENGTH)
+  const view = new DataView(bytes.buffer)
+  bytes.set(MAGIC, 0)
+  bytes[4] = header.version
+  bytes[5] = 1
+  bytes[6] = header.kdf === 'none' ? 0 : 1
+  view.setUint32(8, header.chunkSize)
+  view.setUint32(12, header.iterations)
+  bytes.set(header.salt, 16)
+  bytes.set(header.noncePrefix, 16 + SALT_LENGTH)
+  return bytes
+}
+
+/** Parse and check the header at the start of an envelope. */
+export function readEnvelopeHeader(bytes: Uint8Array): EnvelopeHeader {
+  if (bytes.length < ENVELOPE_HEADER_LENGTH || MAGIC.some((byte, i) => bytes[i] !== byte)) {
+    throw new Error('Not an encrypted document envelope')
+  }
+  if (bytes[4] !== ENVELOPE_VERSION) throw new Error(`Unsupported envelope version ${bytes[4]}`)
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, ENVELOPE_HEADER_LENGTH)
+  const algorithm = ALGORITHMS[bytes[5] as keyof typeof ALGORITHMS]
+  const kdf = KDFS[bytes[6] as keyof typeof KDFS]
+  const chunkSize = view.getUint32(8)
+  const iterations = view.getUint32(12)
+  if (!algorithm) throw new Error(`Unsupported envelope algorithm ${bytes[5]}`)
+  if (!kdf) throw new Error(`Unsupported envelope key derivation ${bytes[6]}`)
+  if (chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) throw new Error(`Invalid envelope chunk size ${chunkSize}`)
+  if (kdf === 'none' ? iterations !== 0 : iterations < 1 || iterations > MAX_ITERATIONS) {
+    throw new Error(`Invalid envelope iteration count ${iterations}`)
+  }
+
+  return {
+    version: bytes[4],
+    algorithm,
+    kdf,
+    chunkSize,
+    iterations,
+    salt: bytes.slice(16, 16 + SALT_LENGTH),
+    noncePrefix: bytes.slice(16 + SALT_LENGTH, ENVELOPE_HEADER_LENGTH),
+  }
+}
+
+async function importKey(secret: EnvelopeSecret, header: EnvelopeHeader): Promise<CryptoKey> {
+  const usages: KeyUsage[] = ['encrypt', 'decrypt']
+  if (typeof secret !== 'string') {
+    if (header.kdf !== 'none') throw new Error('This document is encrypted with a password, not a key')
+    if (secret.length !== KEY_LENGTH) throw new Error(`Content keys must be ${KEY_LENGTH} bytes`)
+    return crypto.subtle.importKey('raw', new Uint8Array(secret), 'AES-GCM', false, usages)
+  }
+  if (header.kdf !== 'PBKDF2-SHA256') throw new Error('This document is encrypted with a key, not a password')
+
+  const keyMaterial = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, [
+    'deriveKey',
+  ])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: new Uint8Array(header.salt), iterations: header.iterations, hash: 'SHA-256' },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    usages
+  )
+}
+
+function chunkNonce(header: EnvelopeHeader, index: number, last: boolean) {
+  if (index > 0xffffffff) throw new Error('Document has too many chunks')
+  const nonce = new Uint8Array(12)
+  nonce.set(header.noncePrefix, 0)
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_LENGTH, index)
+  nonce[11] = last ? 1 : 0
+  return nonce
+}
+
+/**
+ * Encrypts a byte stream into an envelope. Output starts with the header and
+ * then one chunk at a time, so large files never sit in memory whole.
+ */
+export function createEncryptionStream(
+  secret: EnvelopeSecret,
+  { chunkSize = DEFAULT_CHUNK_SIZE, iterations = PBKDF2_ITERATIONS }: EnvelopeOptions = {}
+): TransformStream<Uint8Array, Uint8Array> {
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_CHUNK_SIZE) {
+    throw new Error(`Chunk size must be between 1 and ${MAX_CHUNK_SIZE} bytes`)
+  }
+  const header: EnvelopeHeader = {
+    version: ENVELOPE_VERSION,
+    algorithm: 'AES-256-GCM',
+    kdf: typeof secret === 'string' ? 'PBKDF2-SHA256' : 'none',
+    chunkSize,
+    iterations: typeof secret === 'string' ? iterations : 0,
+    salt: crypto.getRandomValues(new Uint8Array(SALT_LENGTH)),
+    noncePrefix: crypto.getRandomValues(new Uint8Array(NONCE_PREFIX_LENGTH)),
+  }
+  const headerBytes = encodeHeader(header)
+  readEnvelopeHeader(headerBytes)
+
+  let key: CryptoKey
+  let pending: Uint8Array = new Uint8Array(0)
+  let index = 0
+
+  const seal = async (plaintext: Uint8Array, last: boolean) => {
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: chunkNonce(header, index++, last), additionalData: headerBytes },
+      key,
+      new Uint8Array(plaintext)
+    )
+    return new Uint8Array(ciphertext)
+  }
+
+  return new TransformStream({
+    async start(controller) {
+      key = await importKey(secret, header)
+      controller.enqueue(headerBytes)
+    },
+    async transform(data, controller) {
+      pending = concatBytes(pending, data)
+      // A full chunk is only sealed once more data follows, since the last one is marked as such
+      let offset = 0
+      for (; pending.length - offset > chunkSize; offset += chunkSize) {
+        controller.enqueue(await seal(pending.subarray(offset, offset + chunkSize), false))
+      }
+      pending = pending.slice(offset)
+    },
+    async flush(controller) {
+      controller.enqueue(await seal(pending, true))
+    },
+  })
+}
+
+/** Decrypts an envelope stream, failing if any chunk was altered, reordered or cut off. */
+export function createDecryptionStream(secret: EnvelopeSecret): TransformStream<Uint8Array, Uint8Array> {
+  let header: EnvelopeHeader | undefined
+  let headerBytes: Uint8Array<ArrayBuffer>
+  let key: CryptoKey
+  let pending: Uint8Array = new Uint8Array(0)
+  let index = 0
+
+  const open = async (ciphertext: Uint8Array, last: boolean) => {
+    try {
+      const plaintext = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: chunkNonce(header!, index++, last), additionalData: headerBytes },
+        key,
+        new Uint8Array(ciphertext)
+      )
+      return new Uint8Array(plaintext)
+    } catch {
+      throw new Error('Document could not be decrypted: wrong key or corrupted data')
+    }
+  }
+
+  return new TransformStream({
+    async transform(data, controller) {
+      pending = concatBytes(pending, data)
+      if (!header) {
+        if (pending.length < ENVELOPE_HEADER_LENGTH) return
+        header = readEnvelopeHeader(pending)
+        headerBytes = pending.slice(0, ENVELOPE_HEADER_LENGTH)
+        pending = pending.slice(ENVELOPE_HEADER_LENGTH)
+        key = await importKey(secret, header)
+      }
+      const sealedSize = header.chunkSize + TAG_LENGTH
+      let offset = 0
+      for (; pending.length - offset > sealedSize; offset += sealedSize) {
+        controller.enqueue(await open(pending.subarray(offset, offset + sealedSize), false))
+      }
+      pending = pending.slice(offset)
+    },
+    async flush(controller) {
+      if (!header) throw new Error('Not an encrypted document envelope')
+      if (pending.length < TAG_LENGTH) throw new Error('Document could not be decrypted: wrong key or corrupted data')
+      controller.enqueue(await open(pending, true))
+    },
+  })
+}
+
+export function encryptDocument(
+  data: Uint8Array,
+  secret: EnvelopeSecret,
+  options?: EnvelopeOptions
+): Promise<Uint8Array> {
+  return readStream(streamBytes(data).pipeThrough(createEncryptionStream(secret, options)))
+}
+
+export function decryptDocument(envelope: Uint8Array, secret: EnvelopeSecret): Promise<Uint8Array> {
+  return readStream(streamBytes(envelope).pipeThrough(createDecryptionStream(secret)))
+}
@@ -0,0 +1,45 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import path from 'path'
+import { assertCid, computeCid, matchesCid } from './cid'
+import { streamBytes } from './streams'
+import type { StorageBackend } from './types'
+
+/**
+ * Content-addressed store in a local directory, one file per CID. Node only,
+ * so it is not exported from the browser bundle; scripts and tests import it
+ * directly. Like the memory backend it never publishes to IPFS.
+ */
+export function createFilesystemStorage(directory: string): StorageBackend {
+  const blockPath = (cid: string) => path.join(directory, assertCid(cid))
+
+  const get = async (cid: string) => {
+    const file = blockPath(cid)
+    let data: Uint8Array
+    try {
+      data = new Uint8Array(await readFile(file))
+    } catch {
+      throw new Error(`Content not found: ${cid}`)
+    }
+    if (matchesCid(cid, data) === false) throw new Error(`Stored content does not match ${cid}`)
+    return data
+  }
+
+  return {
+    name: 'filesystem',
+    mock: true,
+    async put(data) {
+      const cid = computeCid(data)
+      await mkdir(directory, { recursive: true })
+      // Write then rename, so a crash never leaves a truncated block under its CID
+      const temporary = `${blockPath(cid)}.${process.pid}.tmp`
+      await writeFile(temporary, data)
+      await rename(temporary, blockPath(cid))
+      return cid
+    },
+    get,
+    // Read whole so the content is checked against its CID before any of it is used
+    async stream(cid) {
+      return streamBytes(await get(cid))
+    },
+  }
+}
@@ -0,0 +1,96 @@
+import { createKuboStorage } from './kubo'
+import { createMemoryStorage } from './memory'
+import { createPinningStorage } from './pinning'
+import type { StorageBackend } from './types'
+
+export { computeCid, assertCid, matchesCid } from './cid'
+export {
+  ENVELOPE_VERSION,
+  DEFAULT_CHUNK_SIZE,
+  PBKDF2_ITERATIONS,
+  ENVELOPE_HEADER_LENGTH,
+  readEnvelopeHeader,
+  createEncryptionStream,
+  createDecryptionStream,
+  encryptDocument,
+  decryptDocument,
+} from './envelope'
+export type { EnvelopeHeader, EnvelopeSecret, EnvelopeOptions } from './envelope'
+export {
+  generateEncryptionKeyPair,
+  encryptionKeyPairFromSeed,
+  generateContentKey,
+  wrapContentKey,
+  unwrapContentKey,
+  findWrappedKey,
+  grantAccess,
+  revokeAccess,
+} from './keyWrapping'
+export type { EncryptionKeyPair, DocumentRecipient, WrappedKey } from './keyWrapping'
+export { createKuboStorage } from './kubo'
+export type { KuboStorageConfig } from './kubo'
+export {
+  MANIFEST_VERSION,
+  MANIFEST_ENTITY_TYPES,
+  DOCUMENT_MANIFEST_TYPES,
+  documentManifestTypedData,
+  signDocumentManifest,
+  encodeDocumentManifest,
+  manifestDigest,
+  parseDocumentManifest,
+  verifyDocumentManifest,
+  loadAnchoredManifest,
+  findManifestFile,
+} from './manifest'
+export type {
+  ManifestEntityType,
+  ManifestFile,
+  UnsignedDocumentManifest,
+  DocumentManifest,
+  DocumentManifestTypedData,
+  ManifestAnchor,
+  ManifestExpectation,
+} from './manifest'
+export { createMemoryStorage } from './memory'
+export { createPinningStorage } from './pinning'
+export type { PinningServiceConfig } from './pinning'
+export { streamBytes, readStream } from './streams'
+export type { StorageBackend, Fetch } from './types'
+
+export const STORAGE_BACKENDS = ['kubo', 'pinning', 'memory'] as const
+
+export type StorageBackendName = (typeof STORAGE_BACKENDS)[number]
+
+export interface StorageConfig {
+  backend: string
+  ipfsApiUrl: string
+  ipfsApiAuthorization?: string
+  pinningServiceUrl?: string
+  pinningServiceToken?: string
+  gateway?: string
+}
+
+/**
+ * The backend `config` names. Misconfiguration throws rather than falling
+ * back to a mock, so documents are never silently left unstored.
+ */
+export function createStorageBackend(config: StorageConfig): StorageBackend {
+  switch (config.backend as StorageBackendName) {
+    case 'kubo':
+      return createKuboStorage({ url: config.ipfsApiUrl, authorization: config.ipfsApiAuthorization })
+    case 'pinning':
+      if (!config.pinningServiceUrl || !config.pinningServiceToken) {
+        throw new Error('The pinning storage backend needs a pinning service URL and access token')
+      }
+      return createPinningStorage({
+        url: config.pinningServiceUrl,
+        accessToken: config.pinningServiceToken,
+        source: createKuboStorage({ url: config.ipfsApiUrl, authorization: config.ipfsApiAuthorization }),
+        gateway: config.gateway,
+      })
+    case 'memory':
+      return createMemoryStorage()
+    default:
+      throw new Error(`Unknown storage backend "${config.backend}"; use one of ${STORAGE_BACKENDS.join(', ')}`)
+  }
+}
@@ -0,0 +1,143 @@
+import { x25519 } from '@noble/curves/ed25519'
+import { concat, getAddress, hexToBytes, isAddress, isHex, sha256, toBytes, toHex } from 'viem'
+import type { Address, Hex } from 'viem'
+
+/*
+ * Envelope encryption for documents: each document is encrypted once with a
+ * random content key, and the content key is wrapped separately for every
+ * member allowed to read it. Wrapping uses ephemeral-static X25519, HKDF-SHA256
+ * and AES-256-GCM, so a wrapped key reveals nothing without the recipient's
+ * private key, and access changes only touch the list of wrapped keys.
+ */
+
+const CONTENT_KEY_LENGTH = 32
+const WRAP_INFO = toBytes('consensys-dao document key v1')
+
+export interface EncryptionKeyPair {
+  privateKey: Uint8Array
+  publicKey: Hex // X25519, 32 bytes
+}
+
+// A member documents can be shared with
+export interface DocumentRecipient {
+  address: Address
+  publicKey: Hex
+}
+
+export interface WrappedKey {
+  recipient: Address
+  publicKey: Hex // The recipient key it was wrapped to, to spot keys wrapped before a rotation
+  ephemeralPublicKey: Hex
+  nonce: Hex
+  ciphertext: Hex // The content key and its GCM tag
+}
+
+export function generateEncryptionKeyPair(): EncryptionKeyPair {
+  return encryptionKeyPairFromSeed(x25519.utils.randomPrivateKey())
+}
+
+// Deterministic key pair for a secret seed, such as one derived from a wallet signature
+export function encryptionKeyPairFromSeed(seed: Uint8Array): EncryptionKeyPair {
+  const privateKey = sha256(concat([toBytes('consensys-dao encryption key'), seed]), 'bytes')
+  return { privateKey, publicKey: toHex(x25519.getPublicKey(privateKey)) }
+}
+
+export function generateContentKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(CONTENT_KEY_LENGTH))
+}
+
+function readPublicKey(publicKey: Hex): Uint8Array {
+  if (!isHex(publicKey) || hexToBytes(publicKey).length !== 32) {
+    throw new Error(`Invalid encryption public key: ${publicKey}`)
+  }
+  return hexToBytes(publicKey)
+}
+
+// Wrapping key for one exchange; bound to both public keys and the recipient's address
+async function wrappingKey(shared: Uint8Array, ephemeralPublicKey: Hex, recipient: DocumentRecipient) {
+  const material = await crypto.subtle.importKey('raw', new Uint8Array(shared), 'HKDF', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: new Uint8Array(concat([hexToBytes(ephemeralPublicKey), hexToBytes(recipient.publicKey)])),
+      info: new Uint8Array(concat([WRAP_INFO, hexToBytes(getAddress(recipient.address))])),
+    },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export async function wrapContentKey(contentKey: Uint8Array, recipient: DocumentRecipient): Promise<WrappedKey> {
+  if (contentKey.length !== CONTENT_KEY_LENGTH) throw new Error(`Content keys must be ${CONTENT_KEY_LENGTH} bytes`)
+  if (!isAddress(recipient.address)) throw new Error(`Invalid recipient address: ${recipient.address}`)
+
+  const ephemeralPrivateKey = x25519.utils.randomPrivateKey()
+  const ephemeralPublicKey = toHex(x25519.getPublicKey(ephemeralPrivateKey))
+  const shared = x25519.getSharedSecret(ephemeralPrivateKey, readPublicKey(recipient.publicKey))
+  const nonce = crypto.getRandomValues(new Uint8Array(12))
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv: nonce },
+    await wrappingKey(shared, ephemeralPublicKey, recipient),
+    new Uint8Array(contentKey)
+  )
+
+  return {
+    recipient: getAddress(recipient.address),
+    publicKey: recipient.publicKey,
+    ephemeralPublicKey,
+    nonce: toHex(nonce),
+    ciphertext: toHex(new Uint8Array(ciphertext)),
+  }
+}
+
+export async function unwrapContentKey(wrapped: WrappedKey, keyPair: EncryptionKeyPair): Promise<Uint8Array> {
+  if (wrapped.publicKey.toLowerCase() !== keyPair.publicKey.toLowerCase()) {
+    throw new Error('This document key was wrapped to a different encryption key')
+  }
+  try {
+    const shared = x25519.getSharedSecret(keyPair.privateKey, readPublicKey(wrapped.ephemeralPublicKey))
+    const key = await wrappingKey(shared, wrapped.ephemeralPublicKey, {
+      address: wrapped.recipient,
+      publicKey: keyPair.publicKey,
+    })
+    const contentKey = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: new Uint8Array(hexToBytes(wrapped.nonce)) },
+      key,
+      new Uint8Array(hexToBytes(wrapped.ciphertext))
+    )
+    return new Uint8Array(contentKey)
+  } catch {
+    throw new Error('Document key could not be unwrapped')
+  }
+}
+
+export function findWrappedKey(keys: readonly WrappedKey[], address: string): WrappedKey | undefined {
+  return keys.find(key => key.recipient.toLowerCase() === address.toLowerCase())
+}
+
+/**
+ * Wrap `contentKey` for `recipients`, replacing any key they already had.
+ * Callers recover the content key by unwrapping their own entry first.
+ */
+export async function grantAccess(
+  keys: readonly WrappedKey[],
+  contentKey: Uint8Array,
+  recipients: readonly DocumentRecipient[]
+): Promise<WrappedKey[]> {
+  const granted = await Promise.all(recipients.map(recipient => wrapContentKey(contentKey, recipient)))
+  const replaced = new Set(granted.map(key => key.recipient))
+  return [...keys.filter(key => !replaced.has(getAddress(key.recipient))), ...granted]
+}
+
+/**
+ * Drop the wrapped keys for `addresses`. Revoked members can no longer open
+ * the document from its manifest, though anyone who already decrypted it may
+ * have kept the content; re-encrypt under a new content key to rule that out.
+ */
+export function revokeAccess(keys: readonly WrappedKey[], addresses: readonly string[]): WrappedKey[] {
+  const revoked = new Set(addresses.map(address => address.toLowerCase()))
+  return keys.filter(key => !revoked.has(key.recipient.toLowerCase()))
+}
@@ -0,0 +1,49 @@
+import { assertCid } from './cid'
+import type { Fetch, StorageBackend } from './types'
+
+export interface KuboStorageConfig {
+  url: string // RPC API of a Kubo node, e.g. http://127.0.0.1:5001
+  authorization?: string // Sent as the Authorization header, for hosted nodes
+  fetch?: Fetch
+}
+
+// Stores and pins content on a Kubo node through its HTTP RPC API
+export function createKuboStorage({ url, authorization, fetch = globalThis.fetch }: KuboStorageConfig): StorageBackend {
+  const headers: Record<string, string> = authorization ? { authorization } : {}
+
+  const call = async (endpoint: string, body?: FormData) => {
+    let response: Response
+    try {
+      response = await fetch(`${url.replace(/\/$/, '')}/api/v0/${endpoint}`, { method: 'POST', headers, body })
+    } catch (error) {
+      console.error('IPFS node request failed:', error)
+      throw new Error(`Could not reach the IPFS node at ${url}`)
+    }
+    if (!response.ok) {
+      throw new Error(`IPFS node returned ${response.status} for ${endpoint.split('?')[0]}`)
+    }
+    return response
+  }
+
+  return {
+    name: 'kubo',
+    mock: false,
+    async put(data) {
+      const form = new FormData()
+      form.append('file', new Blob([new Uint8Array(data)]))
+      // Raw leaves and CIDv1 match computeCid for single-chunk files
+      const response = await call('add?cid-version=1&raw-leaves=true&pin=true', form)
+      const { Hash } = (await response.json()) as { Hash: string }
+      return Hash
+    },
+    async get(cid) {
+      const response = await call(`cat?arg=${assertCid(cid)}`)
+      return new Uint8Array(await response.arrayBuffer())
+    },
+    async stream(cid) {
+      const response = await call(`cat?arg=${assertCid(cid)}`)
+      if (!response.body) throw new Error(`IPFS node returned no content for ${cid}`)
+      return response.body
+    },
+  }
+}
@@ -0,0 +1,255 @@
+import { getAddress, hexToBytes, isAddress, isHex, keccak256, recoverTypedDataAddress, toBytes } from 'viem'
+import type { Address, Hex } from 'viem'
+import { assertCid, matchesCid } from './cid'
+import { readEnvelopeHeader } from './envelope'
+import type { WrappedKey } from './keyWrapping'
+import type { StorageBackend } from './types'
+
+/*
+ * Document manifests: the files attached to a loan or proposal, listed in a
+ * JSON document the uploader signs with EIP-712. The manifest is stored as
+ * its own CID and anchored on-chain with its digest and signer, so readers
+ * can check that the files they open are the ones the uploader attached.
+ */
+
+export const MANIFEST_VERSION = 1
+
+export const MANIFEST_ENTITY_TYPES = ['loan', 'loan_proposal'] as const
+
+export type ManifestEntityType = (typeof MANIFEST_ENTITY_TYPES)[number]
+
+export const DOCUMENT_MANIFEST_TYPES = {
+  DocumentManifest: [
+    { name: 'version', type: 'uint32' },
+    { name: 'entityType', type: 'string' },
+    { name: 'entityId', type: 'uint256' },
+    { name: 'signer', type: 'address' },
+    { name: 'createdAt', type: 'uint64' },
+    { name: 'files', type: 'ManifestFile[]' },
+  ],
+  ManifestFile: [
+    { name: 'name', type: 'string' },
+    { name: 'mimeType', type: 'string' },
+    { name: 'size', type: 'uint256' },
+    { name: 'cid', type: 'string' },
+    { name: 'encryptionHeader', type: 'bytes' },
+    { name: 'keys', type: 'WrappedKey[]' },
+  ],
+  WrappedKey: [
+    { name: 'recipient', type: 'address' },
+    { name: 'publicKey', type: 'bytes32' },
+    { name: 'ephemeralPublicKey', type: 'bytes32' },
+    { name: 'nonce', type: 'bytes' },
+    { name: 'ciphertext', type: 'bytes' },
+  ],
+} as const
+
+export interface ManifestFile {
+  name: string
+  mimeType: string
+  size: number // Of the file before encryption
+  cid: string // Of the stored bytes, so the envelope for encrypted files
+  encryptionHeader?: Hex // Envelope header of encrypted files
+  keys?: WrappedKey[] // Content key wrapped for each recipient, for files shared with members' keys
+}
+
+export interface UnsignedDocumentManifest {
+  version: typeof MANIFEST_VERSION
+  chainId: number
+  dao: Address
+  entityType: ManifestEntityType
+  entityId: string // Decimal, since JSON has no bigints
+  signer: Address
+  createdAt: number // Unix seconds
+  files: ManifestFile[]
+}
+
+export interface DocumentManifest extends UnsignedDocumentManifest {
+  signature: Hex
+}
+
+// A manifest as the DAO contract anchors it
+export interface ManifestAnchor {
+  cid: string
+  digest: Hex
+  signer: Address
+}
+
+// What a manifest must have been signed for; anything left out is not checked
+export interface ManifestExpectation {
+  chainId?: number
+  dao?: Address
+  entityType?: ManifestEntityType
+  entityId?: bigint | number | string
+  signer?: Address
+}
+
+export function documentManifestTypedData(manifest: UnsignedDocumentManifest) {
+  return {
+    domain: {
+      name: 'UnifiedLendingDAO',
+      version: '1',
+      chainId: manifest.chainId,
+      verifyingContract: manifest.dao,
+    },
+    types: DOCUMENT_MANIFEST_TYPES,
+    primaryType: 'DocumentManifest' as const,
+    message: {
+      version: manifest.version,
+      entityType: manifest.entityType,
+      entityId: BigInt(manifest.entityId),
+      signer: manifest.signer,
+      createdAt: BigInt(manifest.createdAt),
+      files: manifest.files.map(file => ({
+        name: file.name,
+        mimeType: file.mimeType,
+        size: BigInt(file.size),
+        cid: file.cid,
+        encryptionHeader: file.encryptionHeader ?? ('0x' as Hex),
+        keys: (file.keys ?? []).map(({ recipient, publicKey, ephemeralPublicKey, nonce, ciphertext }) => ({
+          recipient,
+          publicKey,
+          ephemeralPublicKey,
+          nonce,
+          ciphertext,
+        })),
+      })),
+    },
+  }
+}
+
+export type DocumentManifestTypedData = ReturnType<typeof documentManifestTypedData>
+
+/** Sign a manifest listing `files` for a loan or proposal; `signer` is the account `signTypedData` signs with. */
+export async function signDocumentManifest(
+  fields: Omit<UnsignedDocumentManifest, 'version' | 'createdAt' | 'entityId'> & { entityId: bigint | number | string },
+  signTypedData: (typedData: DocumentManifestTypedData) => Promise<Hex>
+): Promise<DocumentManifest> {
+  if (fields.files.length === 0) throw new Error('A document manifest needs at least one file')
+  const manifest: UnsignedDocumentManifest = {
+    version: MANIFEST_VERSION,
+    chainId: fields.chainId,
+    dao: getAddress(fields.dao),
+    entityType: fields.entityType,
+    entityId: fields.entityId.toString(),
+    signer: getAddress(fields.signer),
+    createdAt: Math.floor(Date.now() / 1000),
+    files: fields.files,
+  }
+  const signature = await signTypedData(documentManifestTypedData(manifest))
+  return { ...manifest, signature }
+}
+
+export function encodeDocumentManifest(manifest: DocumentManifest): Uint8Array {
+  return toBytes(JSON.stringify(manifest, null, 2))
+}
+
+// The digest the contract anchors, of the stored bytes rather than the parsed JSON
+export function manifestDigest(bytes: Uint8Array): Hex {
+  return keccak256(bytes)
+}
+
+const isBytes = (value: unknown, length?: number): value is Hex =>
+  typeof value === 'string' && isHex(value) && (length === undefined || hexToBytes(value).length === length)
+
+function isWrappedKey(key: WrappedKey): boolean {
+  return (
+    typeof key?.recipient === 'string' &&
+    isAddress(key.recipient) &&
+    isBytes(key.publicKey, 32) &&
+    isBytes(key.ephemeralPublicKey, 32) &&
+    isBytes(key.nonce) &&
+    isBytes(key.ciphertext)
+  )
+}
+
+function isManifestFile(file: ManifestFile): boolean {
+  if (typeof file?.name !== 'string' || typeof file.mimeType !== 'string' || typeof file.cid !== 'string') return false
+  if (!Number.isSafeInteger(file.size) || file.size < 0) return false
+  if (file.keys !== undefined && !(Array.isArray(file.keys) && file.keys.every(isWrappedKey))) return false
+  try {
+    assertCid(file.cid)
+    if (file.encryptionHeader !== undefined) readEnvelopeHeader(hexToBytes(file.encryptionHeader))
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Parse stored manifest bytes, checking their shape; the signature is checked by `verifyDocumentManifest`. */
+export function parseDocumentManifest(bytes: Uint8Array): DocumentManifest {
+  let manifest: DocumentManifest
+  try {
+    manifest = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    throw new Error('Not a document manifest')
+  }
+  if (typeof manifest !== 'object' || manifest === null || !Array.isArray(manifest.files)) {
+    throw new Error('Not a document manifest')
+  }
+  if (manifest.version !== MANIFEST_VERSION) throw new Error(`Unsupported document manifest version ${manifest.version}`)
+  const valid =
+    Number.isSafeInteger(manifest.chainId) &&
+    typeof manifest.dao === 'string' &&
+    isAddress(manifest.dao) &&
+    MANIFEST_ENTITY_TYPES.includes(manifest.entityType) &&
+    typeof manifest.entityId === 'string' &&
+    /^\d+$/.test(manifest.entityId) &&
+    typeof manifest.signer === 'string' &&
+    isAddress(manifest.signer) &&
+    Number.isSafeInteger(manifest.createdAt) &&
+    manifest.files.every(isManifestFile) &&
+    isBytes(manifest.signature)
+  if (!valid) throw new Error('Document manifest is malformed')
+  return manifest
+}
+
+/**
+ * Check that `manifest` was signed by its signer, and for what `expected`
+ * names. Returns the manifest so callers can chain it.
+ */
+export async function verifyDocumentManifest(
+  manifest: DocumentManifest,
+  expected: ManifestExpectation = {}
+): Promise<DocumentManifest> {
+  let recovered: Address
+  try {
+    recovered = await recoverTypedDataAddress({ ...documentManifestTypedData(manifest), signature: manifest.signature })
+  } catch {
+    throw new Error('Document manifest signature is invalid')
+  }
+  if (recovered !== getAddress(manifest.signer)) throw new Error('Document manifest signature is invalid')
+
+  if (expected.signer && getAddress(expected.signer) !== recovered) {
+    throw new Error(`Document manifest was not signed by ${getAddress(expected.signer)}`)
+  }
+  const signedFor =
+    (expected.chainId === undefined || expected.chainId === manifest.chainId) &&
+    (expected.dao === undefined || getAddress(expected.dao) === getAddress(manifest.dao)) &&
+    (expected.entityType === undefined || expected.entityType === manifest.entityType) &&
+    (expected.entityId === undefined || expected.entityId.toString() === manifest.entityId)
+  if (!signedFor) throw new Error('Document manifest was signed for another loan, proposal or DAO')
+  return manifest
+}
+
+/**
+ * Fetch an anchored manifest and check it against its anchor: the bytes must
+ * hash to the anchored digest, and the signature must be the anchored
+ * signer's, for the entity it is anchored to.
+ */
+export async function loadAnchoredManifest(
+  storage: Pick<StorageBackend, 'get'>,
+  anchor: ManifestAnchor,
+  expected: Omit<ManifestExpectation, 'signer'> = {}
+): Promise<DocumentManifest> {
+  const bytes = await storage.get(anchor.cid)
+  if (matchesCid(anchor.cid, bytes) === false || manifestDigest(bytes) !== anchor.digest.toLowerCase()) {
+    throw new Error('Document manifest does not match its on-chain digest')
+  }
+  return verifyDocumentManifest(parseDocumentManifest(bytes), { ...expected, signer: anchor.signer })
+}
+
+// The entry for the file stored under `cid`, if the manifest lists it
+export function findManifestFile(manifest: DocumentManifest, cid: string): ManifestFile | undefined {
+  return manifest.files.find(file => file.cid === cid)
+}
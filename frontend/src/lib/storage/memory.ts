@@ -0,0 +1,28 @@
+import { assertCid, computeCid } from './cid'
+import { streamBytes } from './streams'
+import type { StorageBackend } from './types'
+
+// Explicit mock: content-addressed like IPFS, but only lives as long as this page or process
+export function createMemoryStorage(): StorageBackend {
+  const blocks = new Map<string, Uint8Array>()
+
+  const get = async (cid: string) => {
+    const data = blocks.get(assertCid(cid))
+    if (!data) throw new Error(`Content not found: ${cid}`)
+    return data.slice()
+  }
+
+  return {
+    name: 'memory',
+    mock: true,
+    async put(data) {
+      const cid = computeCid(data)
+      blocks.set(cid, data.slice())
+      return cid
+    },
+    get,
+    async stream(cid) {
+      return streamBytes(await get(cid))
+    },
+  }
+}
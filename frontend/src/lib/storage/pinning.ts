@@ -0,0 +1,70 @@
+import { assertCid, matchesCid } from './cid'
+import { streamBytes } from './streams'
+import type { Fetch, StorageBackend } from './types'
+
+export interface PinningServiceConfig {
+  url: string // Pinning Service API endpoint, e.g. https://api.pinata.cloud/psa
+  accessToken: string
+  source: StorageBackend // Where content is added before the service pins it, usually a Kubo node
+  gateway?: string // Read content the source no longer has, e.g. https://ipfs.io/ipfs/
+  fetch?: Fetch
+}
+
+/**
+ * Adds content through `source` and asks a remote service implementing the
+ * IPFS Pinning Service API to keep it available, so documents outlive the
+ * node they were uploaded from.
+ */
+export function createPinningStorage({
+  url,
+  accessToken,
+  source,
+  gateway,
+  fetch = globalThis.fetch,
+}: PinningServiceConfig): StorageBackend {
+  // Read whole, since gateways are not trusted and content that can be checked against its CID must match
+  const fromGateway = async (gatewayUrl: string, cid: string) => {
+    const response = await fetch(`${gatewayUrl}${assertCid(cid)}`)
+    if (!response.ok) throw new Error(`Gateway returned ${response.status} for ${cid}`)
+    const data = new Uint8Array(await response.arrayBuffer())
+    if (matchesCid(cid, data) === false) throw new Error(`Gateway returned content that does not match ${cid}`)
+    return data
+  }
+
+  return {
+    name: 'pinning',
+    mock: source.mock,
+    async put(data) {
+      const cid = await source.put(data)
+      let response: Response
+      try {
+        response = await fetch(`${url.replace(/\/$/, '')}/pins`, {
+          method: 'POST',
+          headers: { authorization: `Bearer ${accessToken}`, 'content-type': 'application/json' },
+          body: JSON.stringify({ cid }),
+        })
+      } catch (error) {
+        console.error('Pinning request failed:', error)
+        throw new Error(`Could not reach the pinning service at ${url}`)
+      }
+      if (!response.ok) throw new Error(`Pinning service returned ${response.status}`)
+      return cid
+    },
+    async get(cid) {
+      try {
+        return await source.get(cid)
+      } catch (error) {
+        if (!gateway) throw error
+      }
+      return fromGateway(gateway, cid)
+    },
+    async stream(cid) {
+      try {
+        return await source.stream(cid)
+      } catch (error) {
+        if (!gateway) throw error
+      }
+      return streamBytes(await fromGateway(gateway, cid))
+    },
+  }
+}
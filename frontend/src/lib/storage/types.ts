@@ -0,0 +1,13 @@
+// Where documents are stored. Every backend addresses content by its IPFS CID
+export interface StorageBackend {
+  readonly name: string
+  // True for stand-ins that keep content out of IPFS; the UI must say so
+  readonly mock: boolean
+  put(data: Uint8Array): Promise<string>
+  get(cid: string): Promise<Uint8Array>
+  // Content as it arrives, so large documents can be decrypted without holding the ciphertext whole
+  stream(cid: string): Promise<ReadableStream<Uint8Array>>
+}
+
+// A `fetch` implementation; injectable so backends can run against a stub server
+export type Fetch = (input: string, init?: RequestInit) => Promise<Response>
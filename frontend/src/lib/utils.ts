@@ -1,4 +1,5 @@
 import { clsx, type ClassValue } from "clsx"
+import { VOTING_WEIGHT_STRATEGY_LABELS } from "@/constants"
 
 export function cn(...inputs: ClassValue[]) {
   return clsx(inputs)
@@ -41,12 +42,31 @@ export function formatDate(timestamp: number | string | Date): string {
   }
 }
 
+// Format a remaining number of seconds as a countdown, e.g. "1d 4h" or "12m 5s"
+export function formatCountdown(seconds: number): string {
+  const remaining = Math.max(0, Math.floor(seconds))
+  const days = Math.floor(remaining / 86400)
+  const hours = Math.floor((remaining % 86400) / 3600)
+  const minutes = Math.floor((remaining % 3600) / 60)
+
+  if (days > 0) return `${days}d ${hours}h`
+  if (hours > 0) return `${hours}h ${minutes}m`
+  return `${minutes}m ${remaining % 60}s`
+}
+
 // Format ethereum addresses to shortened format
 export function formatAddress(address: string, startLength: number = 6, endLength: number = 4): string {
   if (!address || address.length < 10) return address
   return `${address.slice(0, startLength)}...${address.slice(-endLength)}`
 }
 
+// Describe how the user's voting weight is computed
+export function formatVotingWeightStrategy(weightedVoting: boolean, strategy?: string): string {
+  if (!weightedVoting) return 'One vote per member'
+  if (!strategy) return 'Default weight'
+  return VOTING_WEIGHT_STRATEGY_LABELS[strategy] ?? strategy
+}
+
 // Calculate percentage for voting results
 export function calculatePercentage(votes: number, totalVotes: number): number {
   if (totalVotes === 0) return 0
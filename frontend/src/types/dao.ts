@@ -23,6 +23,7 @@ export enum ProposalStatus {
   REJECTED = 4,
   EXECUTED = 5,
   CANCELLED = 6,
+  EXPIRED = 7, // Voting ended without reaching quorum
 }
 
 export enum ProposalType {
@@ -30,6 +31,13 @@ export enum ProposalType {
   TREASURY_ALLOCATION = 1,
   PARAMETER_CHANGE = 2,
   MEMBER_REMOVAL = 3,
+  MULTI_OPTION = 4,
+}
+
+// Same values as CountingMethod in UnifiedLendingDAO.sol
+export enum CountingMethod {
+  APPROVAL = 0,
+  RANKED_CHOICE = 1,
 }
 
 export interface LoanProposal {
@@ -46,9 +54,12 @@ export interface LoanProposal {
   creationTime: number
   votingStartTime: number
   votingEndTime: number
+  revealEndTime: number // Private proposals count revealed votes until then; votingEndTime otherwise
   isPrivate: boolean
+  isAnonymous: boolean // Private proposals created at maximum privacy take anonymous votes instead of commit-reveal
   privacyCommitment: string
   documentHash: string
+  quorumVotes?: number // Votes needed for quorum, from the total weight when voting opened
 }
 
 export interface TreasuryProposal {
@@ -66,8 +77,80 @@ export interface TreasuryProposal {
   votingEndTime: number
 }
 
+// PARAMETER_CHANGE or MEMBER_REMOVAL proposal; executes on-chain once approved
+export interface GovernanceProposal {
+  id: number
+  type: ProposalType
+  proposer: string
+  callData: string // Encoded setter call for PARAMETER_CHANGE, '0x' otherwise
+  member: string // Member to remove for MEMBER_REMOVAL, zero address otherwise
+  description: string
+  status: ProposalStatus
+  votesFor: number
+  votesAgainst: number
+  creationTime: number
+  votingEndTime: number
+  quorumVotes?: number
+}
+
+// Signaling vote between several options; it never executes anything on-chain
+export interface MultiOptionProposal {
+  id: number
+  proposer: string
+  countingMethod: CountingMethod
+  description: string
+  options: string[]
+  status: ProposalStatus
+  creationTime: number
+  votingEndTime: number
+  turnout: number // Voting power of the members who voted
+  approvals: number[] // Per option for approval voting; empty for ranked choice, which is tallied off-chain
+  ballotsHash: `0x${string}`
+  winningOption?: number // Set once approved
+  resultHash?: `0x${string}` // Ranked choice: commitment to the off-chain tally
+  quorumVotes?: number
+}
+
+// Approved proposal waiting in the timelock
+export interface QueuedProposal {
+  id: number
+  type: ProposalType
+  proposer: string
+  eta: number // Earliest time anyone can execute it
+}
+
+// Member voting with another member's weight
+export interface Delegation {
+  delegator: string
+  delegate: string
+}
+
+// Common view of any proposal as returned by getEnhancedProposal
+export interface ProposalSummary {
+  id: number
+  type: ProposalType
+  proposer: string
+  status: ProposalStatus
+  votesFor: number
+  votesAgainst: number
+  creationTime: number
+  isPrivate: boolean
+  documentHash: string
+  votingSnapshot: number // When voting opens; votes and thresholds use the weights at this time
+  snapshotTotalWeight: number
+}
+
+export enum LoanStatus {
+  PENDING = 0,
+  APPROVED = 1,
+  ACTIVE = 2,
+  REPAID = 3,
+  DEFAULTED = 4,
+}
+
 export interface Loan {
   id: number
+  proposalId?: number
   borrower: string
   amount: bigint
   interestRate: number
@@ -78,6 +161,51 @@ export interface Loan {
   totalInterest: bigint
   isActive: boolean
   collateralAmount: bigint
+  status: LoanStatus
+  schedule?: RepaymentSchedule
+}
+
+// Installment plan of an approved loan; dates are unix seconds
+export interface RepaymentSchedule {
+  installmentCount: number
+  installmentAmount: bigint
+  installmentInterval: number
+  installmentsPaid: number
+  remainingBalance: bigint
+  nextDueDate: number // 0 once the loan is repaid
+  nextInstallmentAmount: bigint
+}
+
+// Signed document manifest anchored to a loan or loan proposal; the manifest itself is stored under `cid`
+export interface DocumentManifestAnchor {
+  cid: string
+  digest: `0x${string}` // keccak256 of the stored manifest
+  signer: `0x${string}`
+  anchoredAt: number
+}
+
+export interface LoanVoteRecord {
+  voter: string
+  support: boolean
+  timestamp: number
+  transactionHash: string
+}
+
+export interface LoanHistoryEntry {
+  action: string
+  details: string
+  timestamp: number
+  blockNumber: number
+  transactionHash: string
+}
+
+export interface BorrowerStats {
+  memberSince: number
+  totalLoans: number
+  activeLoans: number
+  completedLoans: number
+  defaultedLoans: number
+  averageRepaymentTime?: number // seconds from disbursement to repayment
 }
 
 export interface LoanPolicy {
@@ -102,11 +230,19 @@ export interface DAOStats {
   activeMembers: number
   totalLoans: number
   activeLoans: number
+  defaultedLoans: number
   treasuryBalance: bigint
   totalYieldGenerated: bigint
   totalRestaked: bigint
 }
 
+export interface DAOStatsSnapshot extends DAOStats {
+  privacyEnabled: boolean
+  restakingEnabled: boolean
+  ensEnabled: boolean
+  documentsEnabled: boolean
+}
+
 export interface ContractConfig {
   address: string
   initialized: boolean
@@ -127,7 +263,9 @@ export interface UserData {
   isAdmin: boolean
   member?: Member
   ensName?: string
-  votingWeight: number
+  votingWeight: number // The strategy's weight with weighted voting, otherwise one vote
+  votingWeightStrategy?: string // IVotingWeightStrategy.name(); undefined while every member has the default weight
+  weightedVoting: boolean
   pendingRewards: bigint
   pendingYield: bigint
   hasActiveLoan: boolean